@@ -31,6 +31,7 @@ export default [
       'packages/sdk/src/**/*.ts',
       'packages/issuer/src/**/*.ts',
       'packages/redis/src/**/*.ts',
+      'packages/middleware/src/**/*.ts',
       'test/**/*.ts',
     ],
     languageOptions: {
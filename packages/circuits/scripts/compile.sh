@@ -87,6 +87,76 @@ echo "Compiling nullifier.circom..."
   --prime bn128 \
   -l "$ROOT_DIR/node_modules"
 
+# Compile nationality-set-verify circuit
+echo "Compiling nationality-set-verify.circom..."
+"$CIRCOM" "$SRC_DIR/nationality-set-verify.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile nationality-verify-revocable circuit
+echo "Compiling nationality-verify-revocable.circom..."
+"$CIRCOM" "$SRC_DIR/nationality-verify-revocable.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile age-verify-full circuit
+echo "Compiling age-verify-full.circom..."
+"$CIRCOM" "$SRC_DIR/age-verify-full.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile age-verify-signed-expiring circuit
+echo "Compiling age-verify-signed-expiring.circom..."
+"$CIRCOM" "$SRC_DIR/age-verify-signed-expiring.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile slot-predicate circuit
+echo "Compiling slot-predicate.circom..."
+"$CIRCOM" "$SRC_DIR/slot-predicate.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile age-verify-unlinkable circuit
+echo "Compiling age-verify-unlinkable.circom..."
+"$CIRCOM" "$SRC_DIR/age-verify-unlinkable.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
+# Compile nationality-verify-unlinkable circuit
+echo "Compiling nationality-verify-unlinkable.circom..."
+"$CIRCOM" "$SRC_DIR/nationality-verify-unlinkable.circom" \
+  --r1cs \
+  --wasm \
+  --sym \
+  -o "$BUILD_DIR" \
+  --prime bn128 \
+  -l "$ROOT_DIR/node_modules"
+
 # Note: predicate.circom is disabled temporarily due to include conflicts
 # It will be re-enabled once the CredentialHash template is refactored
 # echo "Compiling predicate.circom..."
@@ -23,6 +23,13 @@ CIRCUITS=(
   "nationality-verify-signed"
   "age-verify-revocable"
   "nullifier"
+  "nationality-set-verify"
+  "nationality-verify-revocable"
+  "age-verify-full"
+  "age-verify-signed-expiring"
+  "slot-predicate"
+  "age-verify-unlinkable"
+  "nationality-verify-unlinkable"
 )
 
 # Start JSON output
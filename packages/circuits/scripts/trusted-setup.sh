@@ -160,6 +160,125 @@ $SNARKJS zkey export verificationkey \
   "$BUILD_DIR/nullifier.zkey" \
   "$BUILD_DIR/nullifier_verification_key.json"
 
+# Generate keys for nationality-set-verify
+echo "Generating keys for nationality-set-verify circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/nationality-set-verify.r1cs" \
+  "$POT_FILE_SMALL" \
+  "$BUILD_DIR/nationality-set-verify_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/nationality-set-verify_0000.zkey" \
+  "$BUILD_DIR/nationality-set-verify.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/nationality-set-verify.zkey" \
+  "$BUILD_DIR/nationality-set-verify_verification_key.json"
+
+# Generate keys for nationality-verify-revocable
+echo "Generating keys for nationality-verify-revocable circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/nationality-verify-revocable.r1cs" \
+  "$POT_FILE_MEDIUM" \
+  "$BUILD_DIR/nationality-verify-revocable_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/nationality-verify-revocable_0000.zkey" \
+  "$BUILD_DIR/nationality-verify-revocable.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/nationality-verify-revocable.zkey" \
+  "$BUILD_DIR/nationality-verify-revocable_verification_key.json"
+
+# Generate keys for age-verify-full
+echo "Generating keys for age-verify-full circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/age-verify-full.r1cs" \
+  "$POT_FILE_LARGE" \
+  "$BUILD_DIR/age-verify-full_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/age-verify-full_0000.zkey" \
+  "$BUILD_DIR/age-verify-full.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/age-verify-full.zkey" \
+  "$BUILD_DIR/age-verify-full_verification_key.json"
+
+# Generate keys for age-verify-signed-expiring
+echo "Generating keys for age-verify-signed-expiring circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/age-verify-signed-expiring.r1cs" \
+  "$POT_FILE_LARGE" \
+  "$BUILD_DIR/age-verify-signed-expiring_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/age-verify-signed-expiring_0000.zkey" \
+  "$BUILD_DIR/age-verify-signed-expiring.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/age-verify-signed-expiring.zkey" \
+  "$BUILD_DIR/age-verify-signed-expiring_verification_key.json"
+
+# Generate keys for age-verify-unlinkable
+echo "Generating keys for age-verify-unlinkable circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/age-verify-unlinkable.r1cs" \
+  "$POT_FILE_MEDIUM" \
+  "$BUILD_DIR/age-verify-unlinkable_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/age-verify-unlinkable_0000.zkey" \
+  "$BUILD_DIR/age-verify-unlinkable.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/age-verify-unlinkable.zkey" \
+  "$BUILD_DIR/age-verify-unlinkable_verification_key.json"
+
+# Generate keys for nationality-verify-unlinkable
+echo "Generating keys for nationality-verify-unlinkable circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/nationality-verify-unlinkable.r1cs" \
+  "$POT_FILE_MEDIUM" \
+  "$BUILD_DIR/nationality-verify-unlinkable_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/nationality-verify-unlinkable_0000.zkey" \
+  "$BUILD_DIR/nationality-verify-unlinkable.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/nationality-verify-unlinkable.zkey" \
+  "$BUILD_DIR/nationality-verify-unlinkable_verification_key.json"
+
+# Generate keys for slot-predicate
+echo "Generating keys for slot-predicate circuit..."
+$SNARKJS groth16 setup \
+  "$BUILD_DIR/slot-predicate.r1cs" \
+  "$POT_FILE_SMALL" \
+  "$BUILD_DIR/slot-predicate_0000.zkey"
+
+$SNARKJS zkey beacon \
+  "$BUILD_DIR/slot-predicate_0000.zkey" \
+  "$BUILD_DIR/slot-predicate.zkey" \
+  0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20 10 \
+  --name="Final beacon phase2"
+
+$SNARKJS zkey export verificationkey \
+  "$BUILD_DIR/slot-predicate.zkey" \
+  "$BUILD_DIR/slot-predicate_verification_key.json"
+
 # Note: predicate circuit disabled temporarily
 # echo "Generating keys for predicate circuit..."
 # $SNARKJS groth16 setup \
@@ -196,3 +315,17 @@ echo "  - $BUILD_DIR/age-verify-revocable.zkey"
 echo "  - $BUILD_DIR/age-verify-revocable_verification_key.json"
 echo "  - $BUILD_DIR/nullifier.zkey"
 echo "  - $BUILD_DIR/nullifier_verification_key.json"
+echo "  - $BUILD_DIR/nationality-set-verify.zkey"
+echo "  - $BUILD_DIR/nationality-set-verify_verification_key.json"
+echo "  - $BUILD_DIR/nationality-verify-revocable.zkey"
+echo "  - $BUILD_DIR/nationality-verify-revocable_verification_key.json"
+echo "  - $BUILD_DIR/age-verify-full.zkey"
+echo "  - $BUILD_DIR/age-verify-full_verification_key.json"
+echo "  - $BUILD_DIR/age-verify-signed-expiring.zkey"
+echo "  - $BUILD_DIR/age-verify-signed-expiring_verification_key.json"
+echo "  - $BUILD_DIR/age-verify-unlinkable.zkey"
+echo "  - $BUILD_DIR/age-verify-unlinkable_verification_key.json"
+echo "  - $BUILD_DIR/nationality-verify-unlinkable.zkey"
+echo "  - $BUILD_DIR/nationality-verify-unlinkable_verification_key.json"
+echo "  - $BUILD_DIR/slot-predicate.zkey"
+echo "  - $BUILD_DIR/slot-predicate_verification_key.json"
@@ -0,0 +1,129 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/eddsa.circom";
+include "../node_modules/circomlib/circuits/bitify.circom";
+include "./merkle-tree-verifier.circom";
+
+/**
+ * AgeVerifyFull: "Full-assurance" age verification in a single proof
+ *
+ * Combines the checks of age-verify-signed, age-verify-revocable and nullifier:
+ *   1. Age >= minAge for the committed birth year
+ *   2. The issuer's EdDSA signature over the credential hash (issuer binding)
+ *   3. The credential hash is in the valid-credential Merkle tree (non-revocation)
+ *   4. nullifier = Poseidon(DOMAIN_NULLIFIER, credentialHash, scopeHash) (sybil resistance)
+ *
+ * The credential hash is computed in-circuit and is NOT public: the Merkle root,
+ * issuer key and nullifier carry all the binding a verifier needs, so proofs for
+ * different scopes stay unlinkable (same reasoning as nullifier.circom).
+ *
+ * Private inputs:
+ *   - birthYear, nationality, salt: Credential preimage
+ *   - signatureR8[256], signatureS[256]: Issuer signature bits
+ *   - pathIndices[depth], siblings[depth]: Merkle authentication path
+ *
+ * Public inputs:
+ *   - currentYear: Current year for age calculation
+ *   - minAge: Minimum required age
+ *   - merkleRoot: Root of the valid credentials Merkle tree
+ *   - scopeHash: Hash of the nullifier scope
+ *   - nullifier: Deterministic nullifier for this credential + scope
+ *   - nonce: Replay protection nonce
+ *   - requestTimestamp: Request timestamp for binding
+ *   - issuerPublicKey[256]: EdDSA pubkey bits (packed point)
+ *
+ * Template parameter:
+ *   - depth: Merkle tree depth (must match age-verify-revocable and ValidCredentialTree)
+ */
+template AgeVerifyFull(depth) {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+    signal input signatureR8[256];
+    signal input signatureS[256];
+    signal input pathIndices[depth];
+    signal input siblings[depth];
+
+    // Public inputs (declaration order defines public signal order)
+    signal input currentYear;
+    signal input minAge;
+    signal input merkleRoot;
+    signal input scopeHash;
+    signal input nullifier;
+    signal input nonce;
+    signal input requestTimestamp;
+    signal input issuerPublicKey[256];
+
+    // ===== Age Verification Logic (from age-verify.circom) =====
+
+    signal age <== currentYear - birthYear;
+
+    component ageCheck = GreaterEqThan(12);
+    ageCheck.in[0] <== age;
+    ageCheck.in[1] <== minAge;
+    ageCheck.out === 1;
+
+    component birthYearCheck = LessEqThan(12);
+    birthYearCheck.in[0] <== birthYear;
+    birthYearCheck.in[1] <== currentYear;
+    birthYearCheck.out === 1;
+
+    // Lower bound check: prevent field wrapping (birthYear must be >= 1900)
+    component birthYearLowerBound = GreaterEqThan(12);
+    birthYearLowerBound.in[0] <== birthYear;
+    birthYearLowerBound.in[1] <== 1900;
+    birthYearLowerBound.out === 1;
+
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+    signal credentialHash <== hasher.out;
+
+    // Bind nonce and timestamp to the proof
+    // NOTE: These are intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
+    // ===== Issuer Signature (from age-verify-signed.circom) =====
+
+    component hashBits = Num2Bits(256);
+    hashBits.in <== credentialHash;
+
+    component eddsa = EdDSAVerifier(256);
+    for (var i = 0; i < 256; i++) {
+        eddsa.msg[i] <== hashBits.out[i];
+        eddsa.A[i] <== issuerPublicKey[i];
+        eddsa.R8[i] <== signatureR8[i];
+        eddsa.S[i] <== signatureS[i];
+    }
+
+    // ===== Merkle Inclusion Proof (Non-Revocation) =====
+
+    component merkleVerifier = MerkleTreeVerifier(depth);
+    merkleVerifier.leaf <== credentialHash;
+    merkleVerifier.root <== merkleRoot;
+    for (var i = 0; i < depth; i++) {
+        merkleVerifier.pathIndices[i] <== pathIndices[i];
+        merkleVerifier.siblings[i] <== siblings[i];
+    }
+
+    // ===== Scoped Nullifier (from nullifier.circom) =====
+
+    // Domain separation tag 1 = DOMAIN_NULLIFIER
+    component nullifierHasher = Poseidon(3);
+    nullifierHasher.inputs[0] <== 1; // DOMAIN_NULLIFIER
+    nullifierHasher.inputs[1] <== credentialHash;
+    nullifierHasher.inputs[2] <== scopeHash;
+    nullifierHasher.out === nullifier;
+}
+
+// Depth must stay in sync with age-verify-revocable so both proofs share one ValidCredentialTree.
+component main {public [currentYear, minAge, merkleRoot, scopeHash, nullifier, nonce, requestTimestamp, issuerPublicKey]} = AgeVerifyFull(10);
@@ -0,0 +1,110 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/eddsa.circom";
+include "../node_modules/circomlib/circuits/bitify.circom";
+
+/**
+ * AgeVerifySignedExpiring: age-verify-signed over a v2 (expiring) credential
+ *
+ * The v2 commitment binds an expiry epoch:
+ *   credentialHash = Poseidon(DOMAIN_CREDENTIAL_V2, birthYear, nationality, salt, expiryEpoch)
+ * and the circuit proves currentTimestamp < expiryEpoch, so an expired credential
+ * cannot produce a valid proof even though the issuer signature is still valid.
+ *
+ * Inputs:
+ *   - birthYear: Private input
+ *   - nationality: Private input
+ *   - salt: Private input
+ *   - expiryEpoch: Private input (Unix seconds)
+ *   - signatureR8: Private input (signature R8 bits)
+ *   - signatureS: Private input (signature S bits)
+ *   - currentYear: Public input
+ *   - minAge: Public input
+ *   - credentialHash: Public input
+ *   - currentTimestamp: Public input (Unix seconds, checked server-side against requestTimestamp)
+ *   - nonce: Public input
+ *   - requestTimestamp: Public input
+ *   - issuerPublicKey: Public input (EdDSA pubkey bits, packed point)
+ */
+
+template AgeVerifySignedExpiring() {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+    signal input expiryEpoch;
+    signal input signatureR8[256];
+    signal input signatureS[256];
+
+    // Public inputs
+    signal input currentYear;
+    signal input minAge;
+    signal input credentialHash;
+    signal input currentTimestamp;
+    signal input nonce;
+    signal input requestTimestamp;
+    signal input issuerPublicKey[256];
+
+    // Compute age
+    signal age <== currentYear - birthYear;
+
+    component ageCheck = GreaterEqThan(12);
+    ageCheck.in[0] <== age;
+    ageCheck.in[1] <== minAge;
+    ageCheck.out === 1;
+
+    component birthYearCheck = LessEqThan(12);
+    birthYearCheck.in[0] <== birthYear;
+    birthYearCheck.in[1] <== currentYear;
+    birthYearCheck.out === 1;
+
+    // Lower bound check: prevent field wrapping (birthYear must be >= 1900)
+    component birthYearLowerBound = GreaterEqThan(12);
+    birthYearLowerBound.in[0] <== birthYear;
+    birthYearLowerBound.in[1] <== 1900;
+    birthYearLowerBound.out === 1;
+
+    // Expiry check: both values are range-checked to 40 bits first, because
+    // LessThan(40) is only sound for inputs that fit (MAX_EXPIRY_EPOCH in validation.ts)
+    component expiryBits = Num2Bits(40);
+    expiryBits.in <== expiryEpoch;
+    component currentTimestampBits = Num2Bits(40);
+    currentTimestampBits.in <== currentTimestamp;
+
+    component notExpired = LessThan(40);
+    notExpired.in[0] <== currentTimestamp;
+    notExpired.in[1] <== expiryEpoch;
+    notExpired.out === 1;
+
+    // Domain separation tag 5 = DOMAIN_CREDENTIAL_V2 (must match poseidon.ts constants)
+    component hasher = Poseidon(5);
+    hasher.inputs[0] <== 5; // DOMAIN_CREDENTIAL_V2
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+    hasher.inputs[4] <== expiryEpoch;
+    hasher.out === credentialHash;
+
+    // Bind nonce and timestamp to the proof
+    // NOTE: These are intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
+    // Verify EdDSA signature over credentialHash bits (see age-verify-signed.circom)
+    component hashBits = Num2Bits(256);
+    hashBits.in <== credentialHash;
+
+    component eddsa = EdDSAVerifier(256);
+    for (var i = 0; i < 256; i++) {
+        eddsa.msg[i] <== hashBits.out[i];
+        eddsa.A[i] <== issuerPublicKey[i];
+        eddsa.R8[i] <== signatureR8[i];
+        eddsa.S[i] <== signatureS[i];
+    }
+}
+
+component main {public [currentYear, minAge, credentialHash, currentTimestamp, nonce, requestTimestamp, issuerPublicKey]} = AgeVerifySignedExpiring();
@@ -0,0 +1,106 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkle-tree-verifier.circom";
+
+/**
+ * AgeVerifyUnlinkable: Age verification that keeps the credential commitment private
+ *
+ * Same statement as AgeVerifyRevocable, except credentialHash is computed inside
+ * the circuit and never exposed as a public signal. Membership in the issuer's
+ * valid-credential Merkle tree stands in for both issuer attestation and
+ * non-revocation, so two presentations of the same credential share no public
+ * value other than the tree root.
+ *
+ * The prover must demonstrate both:
+ *   1. They know a credential preimage (birthYear, nationality, salt) with age >= minAge
+ *   2. The hash of that preimage is a leaf of the valid-set Merkle tree
+ *
+ * Private inputs:
+ *   - birthYear: The actual birth year
+ *   - nationality: Nationality code (not constrained)
+ *   - salt: Salt used in credential hash
+ *   - pathIndices[10]: Merkle path indices (0 = left, 1 = right)
+ *   - siblings[10]: Merkle sibling hashes for authentication path
+ *
+ * Public inputs:
+ *   - currentYear: Current year for age calculation
+ *   - minAge: Minimum required age
+ *   - merkleRoot: Root of the valid credentials Merkle tree
+ *   - nonce: Replay protection nonce
+ *   - requestTimestamp: Request timestamp for binding
+ *
+ * Template parameter:
+ *   - depth: Merkle tree depth (must match age-verify-revocable and ValidCredentialTree)
+ */
+template AgeVerifyUnlinkable(depth) {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+    signal input pathIndices[depth];
+    signal input siblings[depth];
+
+    // Public inputs
+    signal input currentYear;
+    signal input minAge;
+    signal input merkleRoot;
+    signal input nonce;
+    signal input requestTimestamp;
+
+    // ===== Age Verification Logic (from age-verify.circom) =====
+
+    // Compute age
+    signal age <== currentYear - birthYear;
+
+    // Verify age >= minAge
+    component ageCheck = GreaterEqThan(12); // 12 bits allows ages 0-4095
+    ageCheck.in[0] <== age;
+    ageCheck.in[1] <== minAge;
+    ageCheck.out === 1;
+
+    // Sanity check: birth year must be <= current year
+    component birthYearCheck = LessEqThan(12); // 12 bits for year (0-4095)
+    birthYearCheck.in[0] <== birthYear;
+    birthYearCheck.in[1] <== currentYear;
+    birthYearCheck.out === 1;
+
+    // Lower bound check: prevent field wrapping (birthYear must be >= 1900)
+    component birthYearLowerBound = GreaterEqThan(12);
+    birthYearLowerBound.in[0] <== birthYear;
+    birthYearLowerBound.in[1] <== 1900;
+    birthYearLowerBound.out === 1;
+
+    // Private credential commitment (never exposed as a public signal)
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+
+    // Bind nonce to the proof
+    // NOTE: Nonce is intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+
+    // Bind request timestamp to the proof
+    // NOTE: Timestamp is intentionally NOT range-constrained. Validated server-side.
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
+    // ===== Merkle Inclusion Proof (Issuer Attestation + Non-Revocation) =====
+
+    component merkleVerifier = MerkleTreeVerifier(depth);
+    merkleVerifier.leaf <== hasher.out;
+    merkleVerifier.root <== merkleRoot;
+
+    for (var i = 0; i < depth; i++) {
+        merkleVerifier.pathIndices[i] <== pathIndices[i];
+        merkleVerifier.siblings[i] <== siblings[i];
+    }
+}
+
+// Depth must stay in sync with age-verify-revocable so both proofs share one ValidCredentialTree.
+component main {public [currentYear, minAge, merkleRoot, nonce, requestTimestamp]} = AgeVerifyUnlinkable(10);
@@ -0,0 +1,77 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+
+/**
+ * NationalitySetVerify: Proves nationality is (or is not) in a public set
+ * without revealing which member matched or the birth year
+ *
+ * Inputs:
+ *   - birthYear: Private input (not constrained, enables selective disclosure)
+ *   - nationality: Private input (the actual nationality code, must be non-zero)
+ *   - salt: Private input (salt used in credential hash)
+ *   - nationalitySet[MAX_SET_SIZE]: Public input (ISO 3166-1 numeric codes, padded with 0)
+ *   - isDenyList: Public input (0 = nationality must be in the set, 1 = must not be)
+ *   - credentialHash: Public input (Poseidon hash of the credential for binding)
+ *   - nonce: Public input (replay protection, bound to proof)
+ *   - requestTimestamp: Public input (request time, bound to proof)
+ *
+ * Output:
+ *   - Constraint passes if set membership matches isDenyList and credential hash is valid
+ */
+template NationalitySetVerify(MAX_SET_SIZE) {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+
+    // Public inputs
+    signal input nationalitySet[MAX_SET_SIZE];
+    signal input isDenyList;
+    signal input credentialHash;
+    signal input nonce;
+    signal input requestTimestamp;
+
+    // isDenyList must be boolean
+    isDenyList * (isDenyList - 1) === 0;
+
+    // Nationality must be non-zero so that zero padding never matches
+    component nationalityIsZero = IsZero();
+    nationalityIsZero.in <== nationality;
+    nationalityIsZero.out === 0;
+
+    // Membership: product of (nationality - set[i]) is zero iff some entry matches
+    signal diffProduct[MAX_SET_SIZE + 1];
+    diffProduct[0] <== 1;
+    for (var i = 0; i < MAX_SET_SIZE; i++) {
+        diffProduct[i + 1] <== diffProduct[i] * (nationality - nationalitySet[i]);
+    }
+
+    component isMember = IsZero();
+    isMember.in <== diffProduct[MAX_SET_SIZE];
+
+    // Allow-list requires membership, deny-list requires non-membership
+    isMember.out === 1 - isDenyList;
+
+    // Verify credential binding: compute hash from private inputs
+    // and verify it matches the public credentialHash.
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+    hasher.out === credentialHash;
+
+    // Bind nonce to the proof (no additional constraints)
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+
+    // Bind request timestamp to the proof (no additional constraints)
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+}
+
+// 32 slots covers the EU (27) and EEA (30) member states
+component main {public [nationalitySet, isDenyList, credentialHash, nonce, requestTimestamp]} = NationalitySetVerify(32);
@@ -0,0 +1,89 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkle-tree-verifier.circom";
+
+/**
+ * NationalityVerifyRevocable: Nationality verification with Merkle inclusion proof (non-revocation)
+ *
+ * Combines the standard NationalityVerify logic with a Merkle tree inclusion proof
+ * to verify that the credential has not been revoked (is in the valid set).
+ *
+ * The prover must demonstrate both:
+ *   1. They know the credential preimage (birthYear, nationality, salt)
+ *      and nationality equals targetNationality
+ *   2. The credential hash is included in the valid-set Merkle tree
+ *
+ * Private inputs:
+ *   - birthYear: Birth year (not constrained, enables selective disclosure)
+ *   - nationality: The actual nationality code
+ *   - salt: Salt used in credential hash
+ *   - pathIndices[10]: Merkle path indices (0 = left, 1 = right)
+ *   - siblings[10]: Merkle sibling hashes for authentication path
+ *
+ * Public inputs:
+ *   - targetNationality: The nationality to verify against
+ *   - credentialHash: Public credential commitment
+ *   - merkleRoot: Root of the valid credentials Merkle tree
+ *   - nonce: Replay protection nonce
+ *   - requestTimestamp: Request timestamp for binding
+ *
+ * Template parameter:
+ *   - depth: Merkle tree depth (must match age-verify-revocable and ValidCredentialTree)
+ */
+template NationalityVerifyRevocable(depth) {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+    signal input pathIndices[depth];
+    signal input siblings[depth];
+
+    // Public inputs
+    signal input targetNationality;
+    signal input credentialHash;
+    signal input merkleRoot;
+    signal input nonce;
+    signal input requestTimestamp;
+
+    // ===== Nationality Verification Logic (from nationality-verify.circom) =====
+
+    component nationalityCheck = IsEqual();
+    nationalityCheck.in[0] <== nationality;
+    nationalityCheck.in[1] <== targetNationality;
+    nationalityCheck.out === 1;
+
+    // Verify credential binding: hash matches public credentialHash
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+    hasher.out === credentialHash;
+
+    // Bind nonce to the proof
+    // NOTE: Nonce is intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+
+    // Bind request timestamp to the proof
+    // NOTE: Timestamp is intentionally NOT range-constrained. Validated server-side.
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
+    // ===== Merkle Inclusion Proof (Non-Revocation) =====
+
+    component merkleVerifier = MerkleTreeVerifier(depth);
+    merkleVerifier.leaf <== credentialHash;
+    merkleVerifier.root <== merkleRoot;
+
+    for (var i = 0; i < depth; i++) {
+        merkleVerifier.pathIndices[i] <== pathIndices[i];
+        merkleVerifier.siblings[i] <== siblings[i];
+    }
+}
+
+// Depth must stay in sync with age-verify-revocable so both proofs share one ValidCredentialTree.
+component main {public [targetNationality, credentialHash, merkleRoot, nonce, requestTimestamp]} = NationalityVerifyRevocable(10);
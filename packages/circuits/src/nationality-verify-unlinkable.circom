@@ -0,0 +1,83 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkle-tree-verifier.circom";
+
+/**
+ * NationalityVerifyUnlinkable: Nationality verification that keeps the credential commitment private
+ *
+ * Same statement as NationalityVerifyRevocable, except credentialHash is computed
+ * inside the circuit and never exposed as a public signal. Membership in the
+ * issuer's valid-credential Merkle tree stands in for both issuer attestation and
+ * non-revocation.
+ *
+ * Private inputs:
+ *   - birthYear: Birth year (not constrained, enables selective disclosure)
+ *   - nationality: The actual nationality code
+ *   - salt: Salt used in credential hash
+ *   - pathIndices[10]: Merkle path indices (0 = left, 1 = right)
+ *   - siblings[10]: Merkle sibling hashes for authentication path
+ *
+ * Public inputs:
+ *   - targetNationality: The nationality to verify against
+ *   - merkleRoot: Root of the valid credentials Merkle tree
+ *   - nonce: Replay protection nonce
+ *   - requestTimestamp: Request timestamp for binding
+ *
+ * Template parameter:
+ *   - depth: Merkle tree depth (must match age-verify-unlinkable and ValidCredentialTree)
+ */
+template NationalityVerifyUnlinkable(depth) {
+    // Private inputs
+    signal input birthYear;
+    signal input nationality;
+    signal input salt;
+    signal input pathIndices[depth];
+    signal input siblings[depth];
+
+    // Public inputs
+    signal input targetNationality;
+    signal input merkleRoot;
+    signal input nonce;
+    signal input requestTimestamp;
+
+    // ===== Nationality Verification Logic (from nationality-verify.circom) =====
+
+    component nationalityCheck = IsEqual();
+    nationalityCheck.in[0] <== nationality;
+    nationalityCheck.in[1] <== targetNationality;
+    nationalityCheck.out === 1;
+
+    // Private credential commitment (never exposed as a public signal)
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
+
+    // Bind nonce to the proof
+    // NOTE: Nonce is intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+
+    // Bind request timestamp to the proof
+    // NOTE: Timestamp is intentionally NOT range-constrained. Validated server-side.
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
+    // ===== Merkle Inclusion Proof (Issuer Attestation + Non-Revocation) =====
+
+    component merkleVerifier = MerkleTreeVerifier(depth);
+    merkleVerifier.leaf <== hasher.out;
+    merkleVerifier.root <== merkleRoot;
+
+    for (var i = 0; i < depth; i++) {
+        merkleVerifier.pathIndices[i] <== pathIndices[i];
+        merkleVerifier.siblings[i] <== siblings[i];
+    }
+}
+
+// Depth must stay in sync with age-verify-revocable so all tree proofs share one ValidCredentialTree.
+component main {public [targetNationality, merkleRoot, nonce, requestTimestamp]} = NationalityVerifyUnlinkable(10);
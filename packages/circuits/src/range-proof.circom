@@ -4,61 +4,93 @@ include "circomlib/circuits/comparators.circom";
 include "circomlib/circuits/poseidon.circom";
 
 /**
- * Generic Range Proof Circuit
+ * Credential Range Proof Circuit
  *
- * Proves that a value lies within a specified range [minValue, maxValue]
- * without revealing the actual value.
+ * Proves that a credential attribute lies within a specified range
+ * [minValue, maxValue] without revealing the actual value.
  *
  * Public Inputs:
  *   - minValue: Lower bound of the range (inclusive)
  *   - maxValue: Upper bound of the range (inclusive)
- *   - commitment: Poseidon(value, salt) - binds the value to a commitment
+ *   - commitment: Credential commitment Poseidon(DOMAIN_CREDENTIAL, birthYear, nationality, salt)
+ *   - nonce: Verifier challenge nonce (replay protection)
+ *   - requestTimestamp: Verifier request timestamp in milliseconds
+ *   - fieldSelector: Attribute the range applies to (0=birthYear, 1=nationality)
  *
  * Private Inputs:
- *   - value: The actual value to prove (kept private)
- *   - salt: Random salt for commitment uniqueness
+ *   - birthYear: The credential birth year
+ *   - nationality: The credential nationality (ISO 3166-1 numeric)
+ *   - salt: The credential salt
  *
  * The circuit verifies:
- *   1. The commitment matches Poseidon(value, salt)
- *   2. value >= minValue
- *   3. value <= maxValue
+ *   1. The commitment is the issuer-signed credential commitment
+ *   2. The selected attribute is >= minValue
+ *   3. The selected attribute is <= maxValue
  */
 
 template RangeProof(WIDTH) {
     // Private inputs
-    signal input value;
+    signal input birthYear;
+    signal input nationality;
     signal input salt;
 
     // Public inputs
     signal input minValue;
     signal input maxValue;
     signal input commitment;
+    signal input nonce;
+    signal input requestTimestamp;
+    signal input fieldSelector;
 
     // Output (always 1 if constraints pass)
     signal output valid;
 
-    // 1. Verify commitment: commitment === Poseidon(value, salt)
-    component hasher = Poseidon(2);
-    hasher.inputs[0] <== value;
-    hasher.inputs[1] <== salt;
+    // 1. Verify credential binding.
+    // Domain separation tag 0 = DOMAIN_CREDENTIAL (must match poseidon.ts constants)
+    component hasher = Poseidon(4);
+    hasher.inputs[0] <== 0; // DOMAIN_CREDENTIAL
+    hasher.inputs[1] <== birthYear;
+    hasher.inputs[2] <== nationality;
+    hasher.inputs[3] <== salt;
     commitment === hasher.out;
 
-    // 2. Range check: value >= minValue
+    // Bound the attributes so the WIDTH-bit comparators cannot wrap
+    component birthYearMax = LessEqThan(12);
+    birthYearMax.in[0] <== birthYear;
+    birthYearMax.in[1] <== 2100;
+    birthYearMax.out === 1;
+
+    component nationalityMax = LessEqThan(10);
+    nationalityMax.in[0] <== nationality;
+    nationalityMax.in[1] <== 999;
+    nationalityMax.out === 1;
+
+    // 2. Select the attribute: fieldSelector must be 0 or 1
+    fieldSelector * (fieldSelector - 1) === 0;
+    signal value <== birthYear + fieldSelector * (nationality - birthYear);
+
+    // 3. Range check: value >= minValue
     component geq = GreaterEqThan(WIDTH);
     geq.in[0] <== value;
     geq.in[1] <== minValue;
     geq.out === 1;
 
-    // 3. Range check: value <= maxValue
+    // 4. Range check: value <= maxValue
     component leq = LessEqThan(WIDTH);
     leq.in[0] <== value;
     leq.in[1] <== maxValue;
     leq.out === 1;
 
+    // 5. Bind nonce and request timestamp to the proof as public signals
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+
     // All constraints passed
     valid <== 1;
 }
 
-// Main component: 32-bit width allows values up to ~4.2 billion
-// Public signals: [minValue, maxValue, commitment]
-component main {public [minValue, maxValue, commitment]} = RangeProof(32);
+// Main component: 32-bit width allows bounds up to ~4.2 billion
+// Public signals: [valid, minValue, maxValue, commitment, nonce, requestTimestamp, fieldSelector]
+component main {public [minValue, maxValue, commitment, nonce, requestTimestamp, fieldSelector]} = RangeProof(32);
@@ -0,0 +1,145 @@
+pragma circom 2.1.6;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/bitify.circom";
+
+/**
+ * SlotPredicate: Proves a predicate over one attribute slot of a schema v2 credential
+ *
+ * The credential commits to a schema hash and a fixed vector of attribute slots:
+ *   credentialHash = Poseidon(DOMAIN_CREDENTIAL_SLOTS, schemaHash, slots[0..SLOTS-1], salt)
+ * The schema (off-circuit) gives each slot its meaning, so new attributes such as
+ * document type or residency need a new schema, not a new circuit.
+ *
+ * Private inputs:
+ *   - slots[SLOTS]: Attribute values (32-bit unsigned integers, unused slots are 0)
+ *   - salt: Salt used in the credential hash
+ *
+ * Public inputs:
+ *   - schemaHash: Hash of the credential schema id and version
+ *   - credentialHash: Public credential commitment
+ *   - slotIndex: Index of the slot the predicate applies to (0..SLOTS-1)
+ *   - predicateType: 0=EQ, 1=NEQ, 2=GT, 3=LT, 4=GTE, 5=LTE, 6=RANGE
+ *   - targetValue: Value to compare against (range minimum for RANGE)
+ *   - rangeMax: Range maximum for RANGE (unused otherwise)
+ *   - nonce: Replay protection nonce
+ *   - requestTimestamp: Request timestamp for binding
+ *
+ * Template parameter:
+ *   - SLOTS: Number of attribute slots (must match CREDENTIAL_SLOT_COUNT)
+ */
+template SlotPredicate(SLOTS) {
+    // Private inputs
+    signal input slots[SLOTS];
+    signal input salt;
+
+    // Public inputs (declaration order defines public signal order)
+    signal input schemaHash;
+    signal input credentialHash;
+    signal input slotIndex;
+    signal input predicateType;
+    signal input targetValue;
+    signal input rangeMax;
+    signal input nonce;
+    signal input requestTimestamp;
+
+    // ===== Credential Binding =====
+
+    // Domain separation tag 6 = DOMAIN_CREDENTIAL_SLOTS (must match poseidon.ts constants)
+    component hasher = Poseidon(SLOTS + 3);
+    hasher.inputs[0] <== 6; // DOMAIN_CREDENTIAL_SLOTS
+    hasher.inputs[1] <== schemaHash;
+    for (var i = 0; i < SLOTS; i++) {
+        hasher.inputs[i + 2] <== slots[i];
+    }
+    hasher.inputs[SLOTS + 2] <== salt;
+    hasher.out === credentialHash;
+
+    // ===== Slot Selection =====
+
+    // Exactly one selector is set, which also constrains slotIndex < SLOTS
+    component slotSelect[SLOTS];
+    signal selectedTerms[SLOTS];
+    var selectorSum = 0;
+    var selectedSum = 0;
+    for (var i = 0; i < SLOTS; i++) {
+        slotSelect[i] = IsEqual();
+        slotSelect[i].in[0] <== slotIndex;
+        slotSelect[i].in[1] <== i;
+        selectedTerms[i] <== slotSelect[i].out * slots[i];
+        selectorSum += slotSelect[i].out;
+        selectedSum += selectedTerms[i];
+    }
+    selectorSum === 1;
+    signal value <== selectedSum;
+
+    // Comparators below are only sound for operands that fit in 32 bits
+    component valueBits = Num2Bits(32);
+    valueBits.in <== value;
+    component targetBits = Num2Bits(32);
+    targetBits.in <== targetValue;
+    component rangeMaxBits = Num2Bits(32);
+    rangeMaxBits.in <== rangeMax;
+
+    // ===== Predicate Evaluation =====
+
+    component eq = IsEqual();
+    eq.in[0] <== value;
+    eq.in[1] <== targetValue;
+
+    component gt = GreaterThan(32);
+    gt.in[0] <== value;
+    gt.in[1] <== targetValue;
+
+    component lt = LessThan(32);
+    lt.in[0] <== value;
+    lt.in[1] <== targetValue;
+
+    component gte = GreaterEqThan(32);
+    gte.in[0] <== value;
+    gte.in[1] <== targetValue;
+
+    component lte = LessEqThan(32);
+    lte.in[0] <== value;
+    lte.in[1] <== targetValue;
+
+    component rangeMaxCheck = LessEqThan(32);
+    rangeMaxCheck.in[0] <== value;
+    rangeMaxCheck.in[1] <== rangeMax;
+
+    signal results[7];
+    results[0] <== eq.out;                        // EQ
+    results[1] <== 1 - eq.out;                    // NEQ
+    results[2] <== gt.out;                        // GT
+    results[3] <== lt.out;                        // LT
+    results[4] <== gte.out;                       // GTE
+    results[5] <== lte.out;                       // LTE
+    results[6] <== gte.out * rangeMaxCheck.out;   // RANGE
+
+    // Select the result for predicateType; exactly one type must match
+    component typeSelect[7];
+    signal typeTerms[7];
+    var typeSum = 0;
+    var satisfied = 0;
+    for (var t = 0; t < 7; t++) {
+        typeSelect[t] = IsEqual();
+        typeSelect[t].in[0] <== predicateType;
+        typeSelect[t].in[1] <== t;
+        typeTerms[t] <== typeSelect[t].out * results[t];
+        typeSum += typeSelect[t].out;
+        satisfied += typeTerms[t];
+    }
+    typeSum === 1;
+    satisfied === 1;
+
+    // Bind nonce and timestamp to the proof
+    // NOTE: These are intentionally NOT range-constrained. Validated server-side.
+    signal nonceCopy <== nonce;
+    nonceCopy === nonce;
+    signal requestTimestampCopy <== requestTimestamp;
+    requestTimestampCopy === requestTimestamp;
+}
+
+// 8 slots must stay in sync with CREDENTIAL_SLOT_COUNT in credential-schema.ts
+component main {public [schemaHash, credentialHash, slotIndex, predicateType, targetValue, rangeMax, nonce, requestTimestamp]} = SlotPredicate(8);
@@ -0,0 +1,112 @@
+const path = require('path');
+const wasm_tester = require('circom_tester').wasm;
+const { buildPoseidon } = require('circomlibjs');
+
+const DEPTH = 10;
+
+describe('NationalityVerifyRevocable Circuit Tests', function () {
+  let circuit;
+  let poseidon;
+
+  before(async function () {
+    circuit = await wasm_tester(
+      path.join(__dirname, '../src/nationality-verify-revocable.circom'),
+      {
+        include: path.join(__dirname, '../../../node_modules'),
+      },
+    );
+    poseidon = await buildPoseidon();
+  });
+
+  // Helper function to compute credential hash (DOMAIN_CREDENTIAL = 0)
+  function computeHash(birthYear, nationality, salt) {
+    const hash = poseidon([0, birthYear, nationality, salt]);
+    return poseidon.F.toString(hash);
+  }
+
+  // Helper function to build a Merkle tree (DOMAIN_MERKLE = 2, matches valid-credential-tree.ts)
+  function buildMerkleTree(leaves) {
+    const baseLayer = [...leaves];
+    while (baseLayer.length < 1 << DEPTH) {
+      baseLayer.push(BigInt(0));
+    }
+
+    const layers = [baseLayer];
+    for (let level = 0; level < DEPTH; level++) {
+      const prev = layers[level];
+      const next = [];
+      for (let i = 0; i < prev.length; i += 2) {
+        next.push(poseidon.F.toString(poseidon([2, prev[i], prev[i + 1]])));
+      }
+      layers.push(next);
+    }
+    return layers;
+  }
+
+  function getWitness(layers, index) {
+    const siblings = [];
+    const pathIndices = [];
+    let cursor = index;
+    for (let level = 0; level < DEPTH; level++) {
+      siblings.push(layers[level][cursor ^ 1].toString());
+      pathIndices.push(cursor % 2);
+      cursor = Math.floor(cursor / 2);
+    }
+    return { root: layers[DEPTH][0].toString(), pathIndices, siblings };
+  }
+
+  function buildInput(overrides = {}) {
+    const birthYear = 1990;
+    const nationality = 840;
+    const salt = 12345n;
+    const credentialHash = computeHash(birthYear, nationality, salt);
+    const layers = buildMerkleTree([BigInt(computeHash(1985, 276, 1n)), BigInt(credentialHash)]);
+    const witness = getWitness(layers, 1);
+
+    return {
+      birthYear: birthYear,
+      nationality: nationality,
+      salt: salt.toString(),
+      pathIndices: witness.pathIndices,
+      siblings: witness.siblings,
+      targetNationality: 840,
+      credentialHash: credentialHash,
+      merkleRoot: witness.root,
+      nonce: '1',
+      requestTimestamp: 1700000000000,
+      ...overrides,
+    };
+  }
+
+  async function expectFailure(input) {
+    try {
+      await circuit.calculateWitness(input);
+      throw new Error('Expected constraint failure but proof succeeded');
+    } catch (error) {
+      if (error.message.includes('Expected constraint failure')) {
+        throw error;
+      }
+      // Success - constraint properly failed
+    }
+  }
+
+  it('should verify matching nationality with a valid Merkle proof', async function () {
+    const witness = await circuit.calculateWitness(buildInput());
+    await circuit.checkConstraints(witness);
+  });
+
+  it('should fail when nationality does not match target', async function () {
+    await expectFailure(buildInput({ targetNationality: 826 }));
+  });
+
+  it('should fail when the credential is not in the tree', async function () {
+    const input = buildInput();
+    const otherTree = buildMerkleTree([BigInt(computeHash(1985, 276, 1n))]);
+    input.merkleRoot = otherTree[DEPTH][0].toString();
+    await expectFailure(input);
+  });
+
+  it('should fail when credentialHash does not match', async function () {
+    await expectFailure(buildInput({ credentialHash: computeHash(1990, 840, 999n) }));
+  });
+});
@@ -0,0 +1,91 @@
+const path = require('path');
+const wasm_tester = require('circom_tester').wasm;
+const { buildPoseidon } = require('circomlibjs');
+
+const SLOTS = 8;
+
+describe('SlotPredicate Circuit Tests', function () {
+  let circuit;
+  let poseidon;
+
+  before(async function () {
+    circuit = await wasm_tester(path.join(__dirname, '../src/slot-predicate.circom'), {
+      include: path.join(__dirname, '../../../node_modules'),
+    });
+    poseidon = await buildPoseidon();
+  });
+
+  // Helper function to compute slotted credential hash (DOMAIN_CREDENTIAL_SLOTS = 6)
+  function computeHash(schemaHash, slots, salt) {
+    const hash = poseidon([6, schemaHash, ...slots, salt]);
+    return poseidon.F.toString(hash);
+  }
+
+  // birthYear, nationality, documentType, countryOfResidence, expiryEpoch, unused...
+  const slots = [1990, 840, 1, 276, 1900000000, 0, 0, 0];
+
+  function buildInput(overrides = {}) {
+    const schemaHash = 987654321n;
+    const salt = 12345n;
+
+    return {
+      slots: slots,
+      salt: salt.toString(),
+      schemaHash: schemaHash.toString(),
+      credentialHash: computeHash(schemaHash, slots, salt),
+      slotIndex: 2,
+      predicateType: 0, // EQ
+      targetValue: 1,
+      rangeMax: 0,
+      nonce: '1',
+      requestTimestamp: 1700000000000,
+      ...overrides,
+    };
+  }
+
+  async function expectFailure(input) {
+    try {
+      await circuit.calculateWitness(input);
+      throw new Error('Expected constraint failure but proof succeeded');
+    } catch (error) {
+      if (error.message.includes('Expected constraint failure')) {
+        throw error;
+      }
+      // Success - constraint properly failed
+    }
+  }
+
+  it('should verify an equality predicate on the selected slot', async function () {
+    const witness = await circuit.calculateWitness(buildInput());
+    await circuit.checkConstraints(witness);
+  });
+
+  it('should verify comparison and range predicates', async function () {
+    const cases = [
+      { slotIndex: 3, predicateType: 1, targetValue: 840 }, // residence != 840
+      { slotIndex: 0, predicateType: 5, targetValue: 2008 }, // birthYear <= 2008
+      { slotIndex: 4, predicateType: 2, targetValue: 1800000000 }, // expiry > now
+      { slotIndex: 0, predicateType: 6, targetValue: 1980, rangeMax: 2000 },
+    ];
+    for (const overrides of cases) {
+      const witness = await circuit.calculateWitness(buildInput(overrides));
+      await circuit.checkConstraints(witness);
+    }
+  });
+
+  it('should fail when the predicate is not satisfied', async function () {
+    await expectFailure(buildInput({ targetValue: 2 }));
+    await expectFailure(
+      buildInput({ slotIndex: 0, predicateType: 6, targetValue: 1991, rangeMax: 2000 }),
+    );
+  });
+
+  it('should fail for an out-of-range slot index or predicate type', async function () {
+    await expectFailure(buildInput({ slotIndex: SLOTS }));
+    await expectFailure(buildInput({ predicateType: 7 }));
+  });
+
+  it('should fail when the schema hash does not match the commitment', async function () {
+    await expectFailure(buildInput({ schemaHash: '1' }));
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Minimal CBOR (RFC 8949) codec for mdoc and COSE structures
+ *
+ * Covers the subset ISO 18013-5 uses: unsigned/negative integers, byte and
+ * text strings, arrays, maps, tags, booleans, null and floats. Definite
+ * lengths only. Maps decode to `Map` so integer keys (COSE headers) and key
+ * order survive a round trip; plain objects encode as text-keyed maps.
+ */
+
+import { ZkIdValidationError } from './errors';
+
+/**
+ * A tagged CBOR data item
+ */
+export class CborTag {
+  constructor(
+    public readonly tag: number,
+    public readonly value: unknown,
+  ) {}
+}
+
+/** Tag 24: embedded CBOR data item (`#6.24(bstr .cbor T)`) */
+export const CBOR_TAG_ENCODED = 24;
+
+/** Tag 0: RFC 3339 date/time string (`tdate`) */
+export const CBOR_TAG_DATE_TIME = 0;
+
+/** Tag 1004: RFC 3339 full-date string (`full-date`) */
+export const CBOR_TAG_FULL_DATE = 1004;
+
+/**
+ * Wrap a value as embedded CBOR (`#6.24(bstr)`)
+ */
+export function encodeEmbeddedCbor(value: unknown): CborTag {
+  return new CborTag(CBOR_TAG_ENCODED, encodeCbor(value));
+}
+
+/**
+ * Decode an embedded CBOR item (`#6.24(bstr)`)
+ *
+ * @throws ZkIdValidationError if the item is not tag 24 over a byte string
+ */
+export function decodeEmbeddedCbor(item: unknown): unknown {
+  if (!(item instanceof CborTag) || item.tag !== CBOR_TAG_ENCODED) {
+    throw new ZkIdValidationError('Expected embedded CBOR (tag 24)', 'cbor');
+  }
+  if (!(item.value instanceof Uint8Array)) {
+    throw new ZkIdValidationError('Embedded CBOR must wrap a byte string', 'cbor');
+  }
+  return decodeCbor(item.value);
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+function encodeHead(major: number, length: number | bigint): Buffer {
+  const n = BigInt(length);
+  if (n < 24n) {
+    return Buffer.from([(major << 5) | Number(n)]);
+  }
+  if (n < 0x100n) {
+    return Buffer.from([(major << 5) | 24, Number(n)]);
+  }
+  if (n < 0x10000n) {
+    const buf = Buffer.alloc(3);
+    buf[0] = (major << 5) | 25;
+    buf.writeUInt16BE(Number(n), 1);
+    return buf;
+  }
+  if (n < 0x100000000n) {
+    const buf = Buffer.alloc(5);
+    buf[0] = (major << 5) | 26;
+    buf.writeUInt32BE(Number(n), 1);
+    return buf;
+  }
+  if (n < 0x10000000000000000n) {
+    const buf = Buffer.alloc(9);
+    buf[0] = (major << 5) | 27;
+    buf.writeBigUInt64BE(n, 1);
+    return buf;
+  }
+  throw new ZkIdValidationError('CBOR integer out of range', 'cbor');
+}
+
+function encodeInto(value: unknown, out: Buffer[]): void {
+  if (value === null) {
+    out.push(Buffer.from([0xf6]));
+  } else if (value === undefined) {
+    throw new ZkIdValidationError('Cannot CBOR-encode undefined', 'cbor');
+  } else if (typeof value === 'boolean') {
+    out.push(Buffer.from([value ? 0xf5 : 0xf4]));
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      const buf = Buffer.alloc(9);
+      buf[0] = 0xfb;
+      buf.writeDoubleBE(value, 1);
+      out.push(buf);
+    } else {
+      const n = BigInt(value);
+      out.push(n >= 0n ? encodeHead(0, n) : encodeHead(1, -1n - n));
+    }
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    out.push(encodeHead(3, bytes.length), bytes);
+  } else if (value instanceof Uint8Array) {
+    out.push(encodeHead(2, value.length), Buffer.from(value));
+  } else if (Array.isArray(value)) {
+    out.push(encodeHead(4, value.length));
+    for (const item of value) {
+      encodeInto(item, out);
+    }
+  } else if (value instanceof Map) {
+    out.push(encodeHead(5, value.size));
+    for (const [k, v] of value) {
+      encodeInto(k, out);
+      encodeInto(v, out);
+    }
+  } else if (value instanceof CborTag) {
+    out.push(encodeHead(6, value.tag));
+    encodeInto(value.value, out);
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(
+      ([, v]) => v !== undefined,
+    );
+    out.push(encodeHead(5, entries.length));
+    for (const [k, v] of entries) {
+      encodeInto(k, out);
+      encodeInto(v, out);
+    }
+  } else {
+    throw new ZkIdValidationError(`Cannot CBOR-encode ${typeof value}`, 'cbor');
+  }
+}
+
+/**
+ * Encode a value as CBOR
+ *
+ * @throws ZkIdValidationError for values with no CBOR representation
+ */
+export function encodeCbor(value: unknown): Buffer {
+  const out: Buffer[] = [];
+  encodeInto(value, out);
+  return Buffer.concat(out);
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+const MAX_DEPTH = 64;
+
+class CborReader {
+  private offset = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buf.length;
+  }
+
+  private take(n: number): Buffer {
+    if (this.offset + n > this.buf.length) {
+      throw new ZkIdValidationError('Truncated CBOR data', 'cbor');
+    }
+    const slice = this.buf.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return slice;
+  }
+
+  private readLength(info: number): bigint {
+    if (info < 24) return BigInt(info);
+    if (info === 24) return BigInt(this.take(1)[0]);
+    if (info === 25) return BigInt(this.take(2).readUInt16BE(0));
+    if (info === 26) return BigInt(this.take(4).readUInt32BE(0));
+    if (info === 27) return this.take(8).readBigUInt64BE(0);
+    throw new ZkIdValidationError('Indefinite-length CBOR is not supported', 'cbor');
+  }
+
+  private readSize(info: number): number {
+    const n = this.readLength(info);
+    if (n > BigInt(this.buf.length - this.offset)) {
+      throw new ZkIdValidationError('CBOR length exceeds input', 'cbor');
+    }
+    return Number(n);
+  }
+
+  read(depth = 0): unknown {
+    if (depth > MAX_DEPTH) {
+      throw new ZkIdValidationError('CBOR nesting too deep', 'cbor');
+    }
+    const initial = this.take(1)[0];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+      case 1: {
+        const n = this.readLength(info);
+        const value = major === 0 ? n : -1n - n;
+        return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+          ? Number(value)
+          : value;
+      }
+      case 2:
+        return Buffer.from(this.take(this.readSize(info)));
+      case 3:
+        return this.take(this.readSize(info)).toString('utf8');
+      case 4: {
+        const length = this.readSize(info);
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.read(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.readSize(info);
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < length; i++) {
+          const key = this.read(depth + 1);
+          if (map.has(key)) {
+            throw new ZkIdValidationError('Duplicate CBOR map key', 'cbor');
+          }
+          map.set(key, this.read(depth + 1));
+        }
+        return map;
+      }
+      case 6:
+        return new CborTag(Number(this.readLength(info)), this.read(depth + 1));
+      default:
+        return this.readSimple(info);
+    }
+  }
+
+  private readSimple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25: {
+        const half = this.take(2).readUInt16BE(0);
+        const exp = (half >> 10) & 0x1f;
+        const mant = half & 0x3ff;
+        const sign = half & 0x8000 ? -1 : 1;
+        if (exp === 0) return sign * mant * 2 ** -24;
+        if (exp === 31) return mant ? NaN : sign * Infinity;
+        return sign * (mant + 1024) * 2 ** (exp - 25);
+      }
+      case 26:
+        return this.take(4).readFloatBE(0);
+      case 27:
+        return this.take(8).readDoubleBE(0);
+      default:
+        throw new ZkIdValidationError(`Unsupported CBOR simple value ${info}`, 'cbor');
+    }
+  }
+}
+
+/**
+ * Decode a single CBOR data item
+ *
+ * @throws ZkIdValidationError for malformed, truncated or trailing data
+ */
+export function decodeCbor(data: Uint8Array): unknown {
+  const reader = new CborReader(Buffer.from(data));
+  const value = reader.read();
+  if (!reader.done) {
+    throw new ZkIdValidationError('Trailing bytes after CBOR data item', 'cbor');
+  }
+  return value;
+}
@@ -0,0 +1,374 @@
+/**
+ * Credential Schema v2: slotted credentials
+ *
+ * A v1 Credential commits to exactly (birthYear, nationality, salt), so every new
+ * attribute needs new circuits. Schema v2 credentials instead commit to a schema
+ * hash plus a fixed-width vector of CREDENTIAL_SLOT_COUNT integer attribute slots:
+ *
+ *   commitment = Poseidon(DOMAIN_CREDENTIAL_SLOTS, schemaHash, slot[0..N-1], salt)
+ *
+ * A schema names the slots (e.g. slot 2 = documentType), so adding an attribute is
+ * a schema change rather than a circuit change. The generic slot-predicate circuit
+ * selects a slot by index and proves a predicate over it.
+ */
+
+import { createHash } from 'crypto';
+import { ZkIdValidationError } from './errors';
+import { BN128_FIELD_ORDER, MAX_NATIONALITY, MIN_BIRTH_YEAR, MIN_NATIONALITY } from './validation';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Number of attribute slots committed by a v2 credential (must match slot-predicate.circom) */
+export const CREDENTIAL_SLOT_COUNT = 8;
+
+/** Maximum slot value; slots are range-checked to 32 bits in-circuit */
+export const MAX_SLOT_VALUE = 2 ** 32 - 1;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Definition of a single attribute slot in a v2 credential schema
+ */
+export interface CredentialSlotDefinition {
+  /** Slot name (must be unique within schema) */
+  name: string;
+  /** Whether this slot must be set when issuing */
+  required: boolean;
+  /** Human-readable description */
+  description?: string;
+  /** Inclusive lower bound for the slot value */
+  min?: number;
+  /** Inclusive upper bound for the slot value */
+  max?: number;
+  /** Named values for enumerated slots (e.g. { passport: 1 }) */
+  values?: Record<string, number>;
+}
+
+/**
+ * A v2 credential schema: an ordered list of slots, position = slot index
+ */
+export interface CredentialSchema {
+  /** Unique schema identifier (e.g., 'zk-id/identity') */
+  id: string;
+  /** Schema version (semantic versioning) */
+  version: string;
+  /** Slot definitions, at most CREDENTIAL_SLOT_COUNT */
+  slots: CredentialSlotDefinition[];
+  /** Human-readable description */
+  description?: string;
+}
+
+/** Attribute values keyed by slot name; enumerated slots also accept their value names */
+export type CredentialAttributes = Record<string, number | string>;
+
+// ---------------------------------------------------------------------------
+// Well-known schemas
+// ---------------------------------------------------------------------------
+
+/**
+ * Basic identity schema - the v1 credential fields plus an optional expiry
+ */
+export const IDENTITY_SCHEMA: CredentialSchema = {
+  id: 'zk-id/identity',
+  version: '2.0.0',
+  description: 'Birth year and nationality, with an optional expiry (v1 migration target)',
+  slots: [
+    {
+      name: 'birthYear',
+      required: true,
+      description: 'Year of birth',
+      min: MIN_BIRTH_YEAR,
+    },
+    {
+      name: 'nationality',
+      required: true,
+      description: 'ISO 3166-1 numeric country code',
+      min: MIN_NATIONALITY,
+      max: MAX_NATIONALITY,
+    },
+    {
+      name: 'expiryEpoch',
+      required: false,
+      description: 'Expiry as Unix seconds (0 = never expires)',
+    },
+  ],
+};
+
+/**
+ * Identity document schema with document type and residency
+ */
+export const IDENTITY_DOCUMENT_SCHEMA: CredentialSchema = {
+  id: 'zk-id/identity-document',
+  version: '2.0.0',
+  description: 'Identity document credential with document type and country of residence',
+  slots: [
+    {
+      name: 'birthYear',
+      required: true,
+      description: 'Year of birth',
+      min: MIN_BIRTH_YEAR,
+    },
+    {
+      name: 'nationality',
+      required: true,
+      description: 'ISO 3166-1 numeric country code of nationality',
+      min: MIN_NATIONALITY,
+      max: MAX_NATIONALITY,
+    },
+    {
+      name: 'documentType',
+      required: true,
+      description: 'Type of the underlying identity document',
+      values: { passport: 1, 'id-card': 2, 'driving-licence': 3, 'residence-permit': 4 },
+    },
+    {
+      name: 'countryOfResidence',
+      required: false,
+      description: 'ISO 3166-1 numeric country code of residence',
+      min: MIN_NATIONALITY,
+      max: MAX_NATIONALITY,
+    },
+    {
+      name: 'expiryEpoch',
+      required: false,
+      description: 'Expiry as Unix seconds (0 = never expires)',
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute the field element a schema contributes to credential commitments
+ *
+ * SHA-256 of "id@version" reduced mod the BN128 field order, so a schema
+ * version bump yields commitments that cannot be confused with the old version.
+ *
+ * @param schema - The schema to hash
+ * @returns The schema hash as a decimal string
+ */
+export function computeSchemaHash(schema: Pick<CredentialSchema, 'id' | 'version'>): string {
+  const digest = createHash('sha256').update(`${schema.id}@${schema.version}`, 'utf8').digest();
+  return (BigInt('0x' + digest.toString('hex')) % BN128_FIELD_ORDER).toString();
+}
+
+/**
+ * Look up the index of a named slot in a schema
+ *
+ * @throws ZkIdValidationError if the schema has no slot with that name
+ */
+export function getSlotIndex(schema: CredentialSchema, slotName: string): number {
+  const index = schema.slots.findIndex((slot) => slot.name === slotName);
+  if (index === -1) {
+    throw new ZkIdValidationError(`Schema '${schema.id}' has no slot named '${slotName}'`, 'slot');
+  }
+  return index;
+}
+
+/**
+ * Validate a schema definition
+ *
+ * @throws ZkIdValidationError if the schema is malformed
+ */
+export function validateCredentialSchema(schema: CredentialSchema): void {
+  if (!schema.id || typeof schema.id !== 'string') {
+    throw new ZkIdValidationError('Schema id must be a non-empty string', 'id');
+  }
+  if (!schema.version || typeof schema.version !== 'string') {
+    throw new ZkIdValidationError('Schema version must be a non-empty string', 'version');
+  }
+  if (!Array.isArray(schema.slots) || schema.slots.length === 0) {
+    throw new ZkIdValidationError('Schema must define at least one slot', 'slots');
+  }
+  if (schema.slots.length > CREDENTIAL_SLOT_COUNT) {
+    throw new ZkIdValidationError(
+      `Schema can define at most ${CREDENTIAL_SLOT_COUNT} slots`,
+      'slots',
+    );
+  }
+  const names = new Set<string>();
+  for (const slot of schema.slots) {
+    if (names.has(slot.name)) {
+      throw new ZkIdValidationError(`Duplicate slot name '${slot.name}'`, 'slots');
+    }
+    names.add(slot.name);
+    if (slot.values) {
+      for (const value of Object.values(slot.values)) {
+        if (!Number.isInteger(value) || value <= 0 || value > MAX_SLOT_VALUE) {
+          throw new ZkIdValidationError(
+            `Enumerated values for slot '${slot.name}' must be positive 32-bit integers`,
+            'slots',
+          );
+        }
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Schema registry for v2 (slotted) credential schemas
+ *
+ * Verifiers use getByHash() to map the schemaHash public signal of a
+ * slot-predicate proof back to the schema, and from there to the slot name.
+ */
+export class CredentialSchemaRegistry {
+  private schemas: Map<string, CredentialSchema> = new Map();
+  private hashes: Map<string, string> = new Map();
+
+  constructor() {
+    // Register well-known schemas
+    this.register(IDENTITY_SCHEMA);
+    this.register(IDENTITY_DOCUMENT_SCHEMA);
+  }
+
+  /**
+   * Register a new schema (replaces any schema with the same id)
+   */
+  register(schema: CredentialSchema): void {
+    validateCredentialSchema(schema);
+    const previous = this.schemas.get(schema.id);
+    if (previous) {
+      this.hashes.delete(computeSchemaHash(previous));
+    }
+    this.schemas.set(schema.id, schema);
+    this.hashes.set(computeSchemaHash(schema), schema.id);
+  }
+
+  /**
+   * Get a schema by ID
+   */
+  get(id: string): CredentialSchema | undefined {
+    return this.schemas.get(id);
+  }
+
+  /**
+   * Get a schema by its commitment hash (see computeSchemaHash)
+   */
+  getByHash(schemaHash: string): CredentialSchema | undefined {
+    const id = this.hashes.get(schemaHash);
+    return id === undefined ? undefined : this.schemas.get(id);
+  }
+
+  /**
+   * List all registered schemas
+   */
+  list(): CredentialSchema[] {
+    return Array.from(this.schemas.values());
+  }
+
+  /**
+   * Check if a schema exists
+   */
+  has(id: string): boolean {
+    return this.schemas.has(id);
+  }
+
+  /**
+   * Validate attributes against a schema
+   */
+  validate(
+    schemaId: string,
+    attributes: CredentialAttributes,
+  ): { valid: boolean; errors: string[] } {
+    const schema = this.get(schemaId);
+    if (!schema) {
+      return { valid: false, errors: [`Schema '${schemaId}' not found`] };
+    }
+
+    const errors: string[] = [];
+
+    for (const slot of schema.slots) {
+      if (slot.required && !(slot.name in attributes)) {
+        errors.push(`Required slot '${slot.name}' is missing`);
+      }
+    }
+
+    for (const [name, raw] of Object.entries(attributes)) {
+      const slot = schema.slots.find((s) => s.name === name);
+      if (!slot) {
+        errors.push(`Unknown slot '${name}'`);
+        continue;
+      }
+
+      let value: number;
+      if (typeof raw === 'string') {
+        if (!slot.values || !(raw in slot.values)) {
+          errors.push(`Slot '${name}' has no named value '${raw}'`);
+          continue;
+        }
+        value = slot.values[raw];
+      } else {
+        value = raw;
+      }
+
+      if (!Number.isInteger(value) || value < 0 || value > MAX_SLOT_VALUE) {
+        errors.push(`Slot '${name}' must be an integer between 0 and ${MAX_SLOT_VALUE}`);
+        continue;
+      }
+      if (slot.values && !Object.values(slot.values).includes(value)) {
+        errors.push(`Slot '${name}' has unknown value ${value}`);
+      }
+      if (
+        (slot.min !== undefined && value < slot.min) ||
+        (slot.max !== undefined && value > slot.max)
+      ) {
+        errors.push(`Slot '${name}' is out of range`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Encode attributes into the fixed-width slot vector (unset slots are 0)
+   *
+   * @throws ZkIdValidationError if the schema is unknown or the attributes are invalid
+   */
+  encode(schemaId: string, attributes: CredentialAttributes): number[] {
+    const result = this.validate(schemaId, attributes);
+    if (!result.valid) {
+      throw new ZkIdValidationError(result.errors.join('; '), 'attributes');
+    }
+    const schema = this.get(schemaId) as CredentialSchema;
+    const slots = new Array<number>(CREDENTIAL_SLOT_COUNT).fill(0);
+    schema.slots.forEach((slot, index) => {
+      const raw = attributes[slot.name];
+      if (raw !== undefined) {
+        slots[index] = typeof raw === 'string' ? (slot.values as Record<string, number>)[raw] : raw;
+      }
+    });
+    return slots;
+  }
+
+  /**
+   * Decode a slot vector back into named attributes (numeric values)
+   *
+   * @throws ZkIdValidationError if the schema is unknown
+   */
+  decode(schemaId: string, slots: number[]): Record<string, number> {
+    const schema = this.get(schemaId);
+    if (!schema) {
+      throw new ZkIdValidationError(`Schema '${schemaId}' not found`, 'schemaId');
+    }
+    const attributes: Record<string, number> = {};
+    schema.slots.forEach((slot, index) => {
+      attributes[slot.name] = slots[index];
+    });
+    return attributes;
+  }
+}
+
+/**
+ * Global v2 credential schema registry instance
+ */
+export const CREDENTIAL_SCHEMA_REGISTRY = new CredentialSchemaRegistry();
@@ -1,47 +1,90 @@
-import { Credential } from './types';
-import { poseidonHashDomain, DOMAIN_CREDENTIAL } from './poseidon';
+import { Credential, SlottedCredential } from './types';
+import {
+  poseidonHashDomain,
+  DOMAIN_CREDENTIAL,
+  DOMAIN_CREDENTIAL_V2,
+  DOMAIN_CREDENTIAL_SLOTS,
+} from './poseidon';
 import { randomBytes } from 'crypto';
+import { ZkIdCredentialError, ZkIdValidationError } from './errors';
+import {
+  CREDENTIAL_SCHEMA_REGISTRY,
+  CREDENTIAL_SLOT_COUNT,
+  CredentialAttributes,
+  CredentialSchema,
+  CredentialSchemaRegistry,
+  IDENTITY_SCHEMA,
+  MAX_SLOT_VALUE,
+  computeSchemaHash,
+} from './credential-schema';
 import {
   validateBirthYear,
   validateNationality,
   validateHexString,
+  validateExpiryEpoch,
+  MAX_EXPIRY_EPOCH,
   MIN_BIRTH_YEAR,
   MIN_NATIONALITY,
   MAX_NATIONALITY,
 } from './validation';
 
+/**
+ * Computes the Poseidon commitment for credential fields
+ *
+ * Without an expiry this is the v1 commitment
+ * Poseidon(DOMAIN_CREDENTIAL, birthYear, nationality, salt); with one it is the v2
+ * commitment Poseidon(DOMAIN_CREDENTIAL_V2, birthYear, nationality, salt, expiryEpoch).
+ * The distinct domain tag keeps a v2 commitment from ever equalling a v1 one.
+ */
+async function computeCommitment(
+  birthYear: number,
+  nationality: number,
+  salt: string,
+  expiryEpoch?: number,
+): Promise<bigint> {
+  if (expiryEpoch === undefined) {
+    return poseidonHashDomain(DOMAIN_CREDENTIAL, [birthYear, nationality, BigInt('0x' + salt)]);
+  }
+  return poseidonHashDomain(DOMAIN_CREDENTIAL_V2, [
+    birthYear,
+    nationality,
+    BigInt('0x' + salt),
+    expiryEpoch,
+  ]);
+}
+
 /**
  * Creates a new credential with the given birth year and nationality
  *
  * @param birthYear - The user's birth year (e.g., 1995)
  * @param nationality - The user's nationality (ISO 3166-1 numeric code, e.g., 840 for USA)
+ * @param expiryEpoch - Optional expiry as Unix seconds; produces a v2 (expiring) commitment
  * @returns A new Credential object with commitment
  */
 export async function createCredential(
   birthYear: number,
   nationality: number,
+  expiryEpoch?: number,
 ): Promise<Credential> {
   validateBirthYear(birthYear);
   validateNationality(nationality);
+  if (expiryEpoch !== undefined) {
+    validateExpiryEpoch(expiryEpoch);
+  }
 
   // Generate random salt (31 bytes = 248 bits of entropy)
   // 31 bytes ensures the value is always below the BN128 field prime (~2^254),
   // avoiding modular reduction and the resulting non-uniformity.
   const salt = randomBytes(31).toString('hex');
 
-  // Compute Poseidon commitment with domain separation:
-  // Poseidon(DOMAIN_CREDENTIAL, birthYear, nationality, salt)
+  // Compute Poseidon commitment with domain separation (see computeCommitment).
   // The domain tag prevents cross-context hash collisions.
-  const commitment = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
-    birthYear,
-    nationality,
-    BigInt('0x' + salt),
-  ]);
+  const commitment = await computeCommitment(birthYear, nationality, salt, expiryEpoch);
 
   // Generate unique ID
   const id = randomBytes(16).toString('hex');
 
-  return {
+  const credential: Credential = {
     id,
     birthYear,
     nationality,
@@ -49,6 +92,10 @@ export async function createCredential(
     commitment: commitment.toString(),
     createdAt: new Date().toISOString(),
   };
+  if (expiryEpoch !== undefined) {
+    credential.expiryEpoch = expiryEpoch;
+  }
+  return credential;
 }
 
 /**
@@ -89,31 +136,246 @@ export function validateCredential(credential: Credential): boolean {
     return false;
   }
 
+  if (
+    credential.expiryEpoch !== undefined &&
+    (!Number.isInteger(credential.expiryEpoch) ||
+      credential.expiryEpoch <= 0 ||
+      credential.expiryEpoch >= MAX_EXPIRY_EPOCH)
+  ) {
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Returns the commitment version of a credential: 2 when it binds an expiry epoch, else 1
+ *
+ * @param credential - The credential to inspect
+ * @returns The commitment version
+ */
+export function getCredentialCommitmentVersion(credential: Credential): 1 | 2 {
+  return credential.expiryEpoch === undefined ? 1 : 2;
+}
+
+/**
+ * Checks whether a credential's expiry epoch has passed
+ *
+ * Credentials without an expiry epoch never expire.
+ *
+ * @param credential - The credential to check
+ * @param nowMs - Reference time in milliseconds (defaults to Date.now())
+ * @returns true if the credential has expired
+ */
+export function isCredentialExpired(credential: Credential, nowMs: number = Date.now()): boolean {
+  if (credential.expiryEpoch === undefined) {
+    return false;
+  }
+  return Math.floor(nowMs / 1000) >= credential.expiryEpoch;
+}
+
 /**
  * Derives the commitment from a credential (for verification)
  *
  * @param birthYear - The user's birth year
  * @param nationality - The user's nationality code
  * @param salt - The credential salt (hex string)
+ * @param expiryEpoch - Optional expiry (Unix seconds) for v2 commitments
  * @returns The Poseidon commitment hash as a string
  */
 export async function deriveCommitment(
   birthYear: number,
   nationality: number,
   salt: string,
+  expiryEpoch?: number,
 ): Promise<string> {
   validateBirthYear(birthYear);
   validateNationality(nationality);
   validateHexString(salt, 'salt');
+  if (expiryEpoch !== undefined) {
+    validateExpiryEpoch(expiryEpoch);
+  }
 
-  // Domain-separated: Poseidon(DOMAIN_CREDENTIAL, birthYear, nationality, salt)
-  const commitment = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
-    birthYear,
-    nationality,
+  const commitment = await computeCommitment(birthYear, nationality, salt, expiryEpoch);
+  return commitment.toString();
+}
+
+/**
+ * Computes the schema v2 commitment
+ * Poseidon(DOMAIN_CREDENTIAL_SLOTS, schemaHash, slots[0..N-1], salt)
+ *
+ * @param schemaHash - The schema hash (see computeSchemaHash)
+ * @param slots - Exactly CREDENTIAL_SLOT_COUNT slot values
+ * @param salt - The credential salt (hex string)
+ * @returns The Poseidon commitment hash as a string
+ */
+export async function deriveSlottedCommitment(
+  schemaHash: string,
+  slots: number[],
+  salt: string,
+): Promise<string> {
+  validateHexString(salt, 'salt');
+  if (!Array.isArray(slots) || slots.length !== CREDENTIAL_SLOT_COUNT) {
+    throw new ZkIdValidationError(
+      `slots must have exactly ${CREDENTIAL_SLOT_COUNT} entries`,
+      'slots',
+    );
+  }
+  if (slots.some((value) => !Number.isInteger(value) || value < 0 || value > MAX_SLOT_VALUE)) {
+    throw new ZkIdValidationError(
+      `slot values must be integers between 0 and ${MAX_SLOT_VALUE}`,
+      'slots',
+    );
+  }
+
+  const commitment = await poseidonHashDomain(DOMAIN_CREDENTIAL_SLOTS, [
+    BigInt(schemaHash),
+    ...slots,
     BigInt('0x' + salt),
   ]);
   return commitment.toString();
 }
+
+/**
+ * Creates a new schema v2 (slotted) credential
+ *
+ * @param schemaId - Registry ID of the schema (e.g., 'zk-id/identity')
+ * @param attributes - Attribute values keyed by slot name
+ * @param registry - Schema registry to resolve schemaId (defaults to the global registry)
+ * @returns A new SlottedCredential with commitment
+ */
+export async function createSlottedCredential(
+  schemaId: string,
+  attributes: CredentialAttributes,
+  registry: CredentialSchemaRegistry = CREDENTIAL_SCHEMA_REGISTRY,
+): Promise<SlottedCredential> {
+  // encode() throws for unknown schemas, so the lookup below always succeeds
+  const slots = registry.encode(schemaId, attributes);
+  const schemaHash = computeSchemaHash(registry.get(schemaId) as CredentialSchema);
+
+  // Same salt construction as createCredential (31 bytes stays below the field prime)
+  const salt = randomBytes(31).toString('hex');
+  const commitment = await deriveSlottedCommitment(schemaHash, slots, salt);
+
+  return {
+    id: randomBytes(16).toString('hex'),
+    schemaId,
+    schemaHash,
+    slots,
+    salt,
+    commitment,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Validates that a slotted credential is well-formed and matches its schema
+ *
+ * Does not recompute the commitment; use deriveSlottedCommitment for that.
+ *
+ * @param credential - The credential to validate
+ * @param registry - Schema registry to resolve the schema (defaults to the global registry)
+ * @returns true if the credential is valid, false otherwise
+ */
+export function validateSlottedCredential(
+  credential: SlottedCredential,
+  registry: CredentialSchemaRegistry = CREDENTIAL_SCHEMA_REGISTRY,
+): boolean {
+  if (
+    !credential.id ||
+    typeof credential.id !== 'string' ||
+    !credential.salt ||
+    !/^[0-9a-fA-F]+$/.test(credential.salt) ||
+    !credential.commitment ||
+    typeof credential.commitment !== 'string'
+  ) {
+    return false;
+  }
+
+  const schema = registry.get(credential.schemaId);
+  if (!schema || computeSchemaHash(schema) !== credential.schemaHash) {
+    return false;
+  }
+
+  if (!Array.isArray(credential.slots) || credential.slots.length !== CREDENTIAL_SLOT_COUNT) {
+    return false;
+  }
+  // Slots beyond the schema must stay zero
+  if (credential.slots.slice(schema.slots.length).some((value) => value !== 0)) {
+    return false;
+  }
+
+  // Unset optional slots are 0; only pass set or required slots to the schema check
+  const attributes: Record<string, number> = {};
+  schema.slots.forEach((slot, index) => {
+    if (slot.required || credential.slots[index] !== 0) {
+      attributes[slot.name] = credential.slots[index];
+    }
+  });
+  return registry.validate(credential.schemaId, attributes).valid;
+}
+
+/**
+ * Migrates a v1 (or expiring) Credential to a schema v2 slotted credential
+ *
+ * birthYear, nationality and (if present) expiryEpoch are copied into the
+ * same-named slots of the target schema; other slots come from extraAttributes.
+ * The id and salt are kept, but the commitment changes, so the issuer must
+ * sign the new commitment before it can be used in signed proofs.
+ *
+ * @param credential - The credential to migrate
+ * @param schemaId - Target schema (defaults to the basic identity schema)
+ * @param extraAttributes - Values for target schema slots not present in v1
+ * @param registry - Schema registry to resolve schemaId (defaults to the global registry)
+ * @returns The migrated SlottedCredential
+ */
+export async function migrateCredentialToSlotted(
+  credential: Credential,
+  schemaId: string = IDENTITY_SCHEMA.id,
+  extraAttributes: CredentialAttributes = {},
+  registry: CredentialSchemaRegistry = CREDENTIAL_SCHEMA_REGISTRY,
+): Promise<SlottedCredential> {
+  if (!validateCredential(credential)) {
+    throw new ZkIdCredentialError('Cannot migrate an invalid credential', 'INVALID_CREDENTIAL');
+  }
+  const schema = registry.get(schemaId);
+  if (!schema) {
+    throw new ZkIdValidationError(`Schema '${schemaId}' not found`, 'schemaId');
+  }
+  const slotNames = new Set(schema.slots.map((slot) => slot.name));
+  if (!slotNames.has('birthYear') || !slotNames.has('nationality')) {
+    throw new ZkIdValidationError(
+      `Schema '${schemaId}' has no birthYear and nationality slots to migrate into`,
+      'schemaId',
+    );
+  }
+  if (credential.expiryEpoch !== undefined && !slotNames.has('expiryEpoch')) {
+    throw new ZkIdValidationError(
+      `Schema '${schemaId}' has no expiryEpoch slot for an expiring credential`,
+      'schemaId',
+    );
+  }
+
+  const attributes: CredentialAttributes = {
+    ...extraAttributes,
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+  };
+  if (credential.expiryEpoch !== undefined) {
+    attributes.expiryEpoch = credential.expiryEpoch;
+  }
+
+  const slots = registry.encode(schemaId, attributes);
+  const schemaHash = computeSchemaHash(schema);
+  const commitment = await deriveSlottedCommitment(schemaHash, slots, credential.salt);
+
+  return {
+    id: credential.id,
+    schemaId,
+    schemaHash,
+    slots,
+    salt: credential.salt,
+    commitment,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * DID resolution for issuer trust
+ *
+ * Resolves did:key (Ed25519), did:jwk and did:web to DID documents and
+ * extracts their verification keys. did:web is fetched over HTTPS through an
+ * injectable fetch so deployments can add timeouts or proxies and tests can
+ * use a local stub.
+ *
+ * References:
+ * - DID Core v1.0: https://www.w3.org/TR/did-core/
+ * - did:key: https://w3c-ccg.github.io/did-method-key/
+ * - did:jwk: https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ * - did:web: https://w3c-ccg.github.io/did-method-web/
+ */
+
+import { KeyObject, createPublicKey } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+import { didKeyToEd25519PublicKey } from './w3c-vc';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Verification method entry of a DID document */
+export interface DidVerificationMethod {
+  /** DID URL of the key (e.g. `did:web:issuer.example#key-1`) */
+  id: string;
+  /** e.g. `JsonWebKey2020`, `Multikey`, `Ed25519VerificationKey2020` */
+  type: string;
+  controller: string;
+  publicKeyJwk?: webcrypto.JsonWebKey;
+  /** Multibase (base58btc) multicodec key; Ed25519 only */
+  publicKeyMultibase?: string;
+}
+
+/** Verification relationships that reference keys */
+export type DidVerificationRelationship =
+  | 'authentication'
+  | 'assertionMethod'
+  | 'keyAgreement'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation';
+
+/** DID document (the subset zk-id reads) */
+export interface DidDocument {
+  '@context'?: string | string[];
+  id: string;
+  controller?: string | string[];
+  verificationMethod?: DidVerificationMethod[];
+  authentication?: Array<string | DidVerificationMethod>;
+  assertionMethod?: Array<string | DidVerificationMethod>;
+  keyAgreement?: Array<string | DidVerificationMethod>;
+  capabilityInvocation?: Array<string | DidVerificationMethod>;
+  capabilityDelegation?: Array<string | DidVerificationMethod>;
+  [key: string]: unknown;
+}
+
+/** Resolves a DID (without fragment) to its DID document */
+export interface DidResolver {
+  resolve(did: string): Promise<DidDocument>;
+}
+
+/** Minimal fetch signature used for did:web (compatible with global fetch) */
+export type DidFetch = (
+  url: string,
+  init?: { headers?: Record<string, string> },
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/** A resolved verification key */
+export interface DidVerificationKey {
+  /** Absolute DID URL of the verification method */
+  id: string;
+  publicKey: KeyObject;
+}
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+// ---------------------------------------------------------------------------
+// did:key and did:jwk
+// ---------------------------------------------------------------------------
+
+/**
+ * Expand an Ed25519 did:key into its DID document
+ *
+ * @throws ZkIdValidationError if the DID is not an Ed25519 did:key
+ */
+export function resolveDidKeyDocument(did: string): DidDocument {
+  const multibase = did.slice('did:key:'.length);
+  try {
+    didKeyToEd25519PublicKey(did);
+  } catch {
+    throw new ZkIdValidationError('Only Ed25519 did:key identifiers are supported', 'did');
+  }
+  const id = `${did}#${multibase}`;
+  return {
+    '@context': [DID_CONTEXT, 'https://w3id.org/security/multikey/v1'],
+    id: did,
+    verificationMethod: [{ id, type: 'Multikey', controller: did, publicKeyMultibase: multibase }],
+    authentication: [id],
+    assertionMethod: [id],
+    capabilityInvocation: [id],
+    capabilityDelegation: [id],
+  };
+}
+
+/**
+ * Expand a did:jwk into its DID document
+ *
+ * @throws ZkIdValidationError if the DID does not encode a public JWK
+ */
+export function resolveDidJwkDocument(did: string): DidDocument {
+  let jwk: webcrypto.JsonWebKey;
+  try {
+    jwk = JSON.parse(Buffer.from(did.slice('did:jwk:'.length), 'base64url').toString('utf8'));
+  } catch {
+    throw new ZkIdValidationError('did:jwk does not encode a JSON Web Key', 'did');
+  }
+  if (typeof jwk !== 'object' || jwk === null || typeof jwk.kty !== 'string') {
+    throw new ZkIdValidationError('did:jwk does not encode a JSON Web Key', 'did');
+  }
+  if ('d' in jwk) {
+    throw new ZkIdValidationError('did:jwk must not contain private key material', 'did');
+  }
+  const id = `${did}#0`;
+  const signing = jwk.use !== 'enc';
+  return {
+    '@context': [DID_CONTEXT, 'https://w3id.org/security/suites/jws-2020/v1'],
+    id: did,
+    verificationMethod: [{ id, type: 'JsonWebKey2020', controller: did, publicKeyJwk: jwk }],
+    ...(signing
+      ? {
+          authentication: [id],
+          assertionMethod: [id],
+          capabilityInvocation: [id],
+          capabilityDelegation: [id],
+        }
+      : {}),
+    ...(jwk.use !== 'sig' ? { keyAgreement: [id] } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// did:web
+// ---------------------------------------------------------------------------
+
+/**
+ * Map a did:web identifier to the HTTPS URL of its DID document
+ *
+ * `did:web:example.com` → `https://example.com/.well-known/did.json`,
+ * `did:web:example.com:issuers:gov` → `https://example.com/issuers/gov/did.json`.
+ *
+ * @throws ZkIdValidationError for malformed identifiers
+ */
+export function didWebToUrl(did: string): string {
+  if (!did.startsWith('did:web:') || did.includes('#') || did.includes('?')) {
+    throw new ZkIdValidationError('Invalid did:web identifier', 'did');
+  }
+  const segments = did.slice('did:web:'.length).split(':');
+  let decoded: string[];
+  try {
+    decoded = segments.map((segment) => decodeURIComponent(segment));
+  } catch {
+    throw new ZkIdValidationError('Invalid did:web identifier', 'did');
+  }
+  const [host, ...path] = decoded;
+  if (
+    !/^[A-Za-z0-9.-]+(:\d{1,5})?$/.test(host) ||
+    path.some((p) => p.length === 0 || /[/\\?#]|^\.\.?$/.test(p))
+  ) {
+    throw new ZkIdValidationError('Invalid did:web identifier', 'did');
+  }
+  return path.length === 0
+    ? `https://${host}/.well-known/did.json`
+    : `https://${host}/${path.join('/')}/did.json`;
+}
+
+/**
+ * Resolves did:web documents over HTTPS
+ */
+export class DidWebResolver implements DidResolver {
+  private readonly fetchFn: DidFetch;
+
+  /**
+   * @param fetchFn - Fetch implementation (default: global fetch)
+   */
+  constructor(fetchFn?: DidFetch) {
+    const globalFetch = (globalThis as { fetch?: DidFetch }).fetch;
+    if (!fetchFn && !globalFetch) {
+      throw new ZkIdValidationError('No fetch implementation available for did:web', 'fetch');
+    }
+    this.fetchFn = fetchFn ?? globalFetch!;
+  }
+
+  async resolve(did: string): Promise<DidDocument> {
+    const url = didWebToUrl(did);
+    let document: unknown;
+    try {
+      const response = await this.fetchFn(url, { headers: { accept: 'application/did+json' } });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      document = await response.json();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'request failed';
+      throw new ZkIdCryptoError(`Failed to resolve ${did}: ${reason}`);
+    }
+    if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+      throw new ZkIdCryptoError(`Failed to resolve ${did}: not a DID document`);
+    }
+    // A host must not be able to serve another DID's document
+    if ((document as DidDocument).id !== did) {
+      throw new ZkIdCryptoError(`DID document id does not match ${did}`);
+    }
+    return document as DidDocument;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Composite resolver
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves did:key and did:jwk locally and did:web over HTTPS; additional
+ * methods can be plugged in by name.
+ *
+ * ```ts
+ * const resolver = new UniversalDidResolver({ fetch: myFetch });
+ * const doc = await resolver.resolve('did:web:issuer.example.com');
+ * ```
+ */
+export class UniversalDidResolver implements DidResolver {
+  private readonly methods: Map<string, DidResolver>;
+
+  constructor(options: { fetch?: DidFetch; methods?: Record<string, DidResolver> } = {}) {
+    this.methods = new Map<string, DidResolver>([
+      ['key', { resolve: async (did) => resolveDidKeyDocument(did) }],
+      ['jwk', { resolve: async (did) => resolveDidJwkDocument(did) }],
+    ]);
+    const globalFetch = (globalThis as { fetch?: DidFetch }).fetch;
+    if (options.fetch || globalFetch) {
+      this.methods.set('web', new DidWebResolver(options.fetch));
+    }
+    for (const [method, resolver] of Object.entries(options.methods ?? {})) {
+      this.methods.set(method, resolver);
+    }
+  }
+
+  async resolve(did: string): Promise<DidDocument> {
+    const match = /^did:([a-z0-9]+):[^#?]+$/.exec(did);
+    if (!match) {
+      throw new ZkIdValidationError('Invalid DID', 'did');
+    }
+    const resolver = this.methods.get(match[1]);
+    if (!resolver) {
+      throw new ZkIdCryptoError(`No resolver configured for did:${match[1]}`);
+    }
+    return resolver.resolve(did);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Verification keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a verification method to a public key
+ *
+ * @throws ZkIdCryptoError for unsupported or private key material
+ */
+export function verificationMethodToKey(method: DidVerificationMethod): KeyObject {
+  try {
+    if (method.publicKeyJwk) {
+      if ('d' in method.publicKeyJwk) {
+        throw new Error('private key material');
+      }
+      return createPublicKey({ key: method.publicKeyJwk, format: 'jwk' });
+    }
+    if (method.publicKeyMultibase) {
+      // Ed25519 multikeys share the did:key encoding
+      const x = didKeyToEd25519PublicKey(`did:key:${method.publicKeyMultibase}`);
+      return createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(x).toString('base64url') },
+        format: 'jwk',
+      });
+    }
+  } catch {
+    throw new ZkIdCryptoError(`Unsupported key in verification method ${method.id}`);
+  }
+  throw new ZkIdCryptoError(`Verification method ${method.id} has no public key`);
+}
+
+/**
+ * List the keys a DID document authorizes for a verification relationship
+ *
+ * Relative references (`#key-1`) are resolved against the document id, and
+ * only methods controlled by the DID itself are returned. Unsupported keys
+ * are skipped.
+ *
+ * @param document - Resolved DID document
+ * @param relationship - Verification relationship (default: assertionMethod)
+ */
+export function getDidVerificationKeys(
+  document: DidDocument,
+  relationship: DidVerificationRelationship = 'assertionMethod',
+): DidVerificationKey[] {
+  const absolute = (id: string) => (id.startsWith('#') ? `${document.id}${id}` : id);
+  const methods = new Map(
+    (document.verificationMethod ?? []).map((m) => [absolute(m.id), { ...m, id: absolute(m.id) }]),
+  );
+
+  const keys: DidVerificationKey[] = [];
+  for (const ref of document[relationship] ?? []) {
+    const method =
+      typeof ref === 'string' ? methods.get(absolute(ref)) : { ...ref, id: absolute(ref.id) };
+    if (!method || method.id.split('#')[0] !== document.id) {
+      continue;
+    }
+    try {
+      keys.push({ id: method.id, publicKey: verificationMethodToKey(method) });
+    } catch {
+      // Skip keys this implementation cannot use
+    }
+  }
+  return keys;
+}
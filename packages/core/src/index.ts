@@ -12,21 +12,34 @@ export * from './prover';
 export * from './verifier';
 export * from './poseidon';
 export * from './revocation';
+export * from './revocation-root';
 export * from './valid-credential-tree';
+export * from './private-witness';
 export * from './signature';
 export * from './version';
 export * from './benchmark';
 export * from './multi-claim';
 export * from './scenarios';
+export * from './policy';
 export * from './group-membership';
 export * from './proving-system';
 export * from './nullifier';
 export * from './recursive';
 export * from './bbs';
 export * from './bbs-schema';
+export * from './credential-schema';
 export * from './validation';
 export * from './unified-revocation';
 export * from './sparse-merkle-tree';
 export * from './timing-safe';
 export * from './w3c-vc';
+export * from './status-list';
+export * from './did';
+export * from './trust-list';
+export * from './request-object';
+export * from './openid4vci';
+export * from './sd-jwt';
+export * from './cbor';
+export * from './mdoc';
 export * from './predicate-proof';
+export * from './nationality-set';
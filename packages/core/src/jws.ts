@@ -0,0 +1,80 @@
+/**
+ * Compact JWS helpers shared by request objects and SD-JWT VCs
+ *
+ * Only Node's crypto module is used so the same code serves the SDK and mobile wallets.
+ */
+
+import { KeyObject, createPublicKey, sign, verify } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+
+/** JWS algorithms supported for signing and verification */
+export type JwsAlg = 'ES256' | 'EdDSA' | 'RS256';
+
+export function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Decode a base64url JSON object segment
+ *
+ * @throws ZkIdValidationError if the segment is not a JSON object
+ */
+export function decodeJsonSegment(
+  segment: string,
+  label: string,
+  field: string,
+): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ZkIdValidationError(`${label} is not a JSON object`, field);
+}
+
+export function toPublicKeyObject(key: KeyObject | webcrypto.JsonWebKey): KeyObject {
+  return key instanceof KeyObject ? key : createPublicKey({ key, format: 'jwk' });
+}
+
+export function signJwsData(alg: JwsAlg, data: Buffer, key: KeyObject): Buffer {
+  switch (alg) {
+    case 'ES256':
+      return sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+    case 'EdDSA':
+      return sign(null, data, key);
+    case 'RS256':
+      return sign('sha256', data, key);
+  }
+}
+
+/**
+ * Verify a JWS signature, requiring the key type (and for ES256 the P-256
+ * curve) to match the algorithm
+ *
+ * @throws ZkIdCryptoError for unsupported algorithms
+ */
+export function verifyJwsSignature(
+  alg: string,
+  data: Buffer,
+  key: KeyObject,
+  signature: Buffer,
+): boolean {
+  switch (alg) {
+    case 'ES256':
+      return (
+        key.asymmetricKeyType === 'ec' &&
+        key.asymmetricKeyDetails?.namedCurve === 'prime256v1' &&
+        verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature)
+      );
+    case 'EdDSA':
+      return key.asymmetricKeyType === 'ed25519' && verify(null, data, key, signature);
+    case 'RS256':
+      return key.asymmetricKeyType === 'rsa' && verify('sha256', data, key, signature);
+    default:
+      throw new ZkIdCryptoError(`Unsupported JWS algorithm: ${alg}`);
+  }
+}
@@ -0,0 +1,672 @@
+/**
+ * ISO 18013-5 mdoc issuance, presentation and verification
+ *
+ * - IssuerSigned: per-element `IssuerSignedItem`s (tag 24) whose SHA-256
+ *   digests are listed by digest ID in the Mobile Security Object (MSO),
+ *   signed by the issuer as an untagged COSE_Sign1 (`issuerAuth`)
+ * - DeviceResponse: the holder keeps only the elements to disclose and signs
+ *   `DeviceAuthentication` over the session transcript with the MSO device key
+ *
+ * For OpenID4VP the session transcript uses the OpenID4VP handover, binding the
+ * response to the verifier's client_id, nonce and response_uri. The issuer key
+ * comes either from an issuerAuth `x5chain` validated against IACA trust
+ * anchors, or from a pinned key looked up by the protected COSE `kid` header.
+ *
+ * References:
+ * - ISO/IEC 18013-5:2021 §8.3 and §9.1
+ * - RFC 9052 (COSE)
+ * - OpenID4VP 1.0 Appendix B.2
+ */
+
+import {
+  KeyObject,
+  X509Certificate,
+  createHash,
+  createPublicKey,
+  randomBytes,
+  randomInt,
+} from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+import {
+  CBOR_TAG_DATE_TIME,
+  CBOR_TAG_ENCODED,
+  CBOR_TAG_FULL_DATE,
+  CborTag,
+  decodeCbor,
+  decodeEmbeddedCbor,
+  encodeCbor,
+  encodeEmbeddedCbor,
+} from './cbor';
+import { toPublicKeyObject, verifyJwsSignature } from './jws';
+import { verifyCertificateChain } from './x509';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Document type of the ISO 18013-5 mobile driving licence */
+export const MDL_DOCTYPE = 'org.iso.18013.5.1.mDL';
+
+/** ISO 18013-5 mDL namespace (holds the age_over_NN elements) */
+export const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+/** zk-id namespace carrying the credential commitment */
+export const ZK_ID_MDOC_NAMESPACE = 'io.zk-id.1';
+
+/** COSE header labels and algorithm identifiers (RFC 9052/9053) */
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_KID = 4;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_ALG_IDS = { ES256: -7, EdDSA: -8 } as const;
+
+/** COSE algorithms allowed for issuerAuth and deviceSignature */
+export type MdocAlg = keyof typeof COSE_ALG_IDS;
+
+/**
+ * Signs COSE structures. Structurally compatible with `keyObjectSigner()`
+ * for ES256 and EdDSA keys; `sign` may be backed by a KMS/HSM or secure enclave.
+ */
+export interface MdocSigner {
+  /** COSE algorithm matching the key */
+  alg: MdocAlg;
+  /** Key identifier placed in the protected COSE `kid` header (issuer name for issuerAuth) */
+  kid?: string;
+  /** DER certificates, document signer first, placed in the unprotected `x5chain` header */
+  x5chain?: Buffer[];
+  /** Sign the COSE Sig_structure */
+  sign(data: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Data elements by namespace, e.g. `{ 'org.iso.18013.5.1': { age_over_18: true } }`
+ */
+export type MdocNameSpaces = Record<string, Record<string, unknown>>;
+
+/**
+ * MSO validity period
+ */
+export interface MdocValidityInfo {
+  /** When the MSO was signed (default: now) */
+  signed?: Date;
+  /** Start of validity (default: signed) */
+  validFrom?: Date;
+  /** End of validity */
+  validUntil: Date;
+}
+
+/**
+ * Options for verifying a DeviceResponse
+ */
+export interface MdocVerificationOptions {
+  /** Session transcript the device signature must cover */
+  sessionTranscript: unknown;
+  /**
+   * PEM IACA root certificates. When set, issuerAuth must carry an `x5chain`
+   * chaining to one of them, and the document signer certificate's key
+   * verifies the MSO. Without anchors, an issuerAuth carrying an `x5chain`
+   * is rejected.
+   */
+  iacaTrustAnchors?: string[];
+  /** Pinned issuer public key, used when no IACA trust anchors are set */
+  issuerKey?: KeyObject | webcrypto.JsonWebKey;
+  /** Resolve a pinned issuer key from the protected COSE `kid` of issuerAuth */
+  resolveIssuerKey?: (kid: string | undefined) => Promise<KeyObject | webcrypto.JsonWebKey | null>;
+  /** Required document type */
+  expectedDocType?: string;
+  /** Current time in milliseconds (default: Date.now()) */
+  nowMs?: number;
+}
+
+/**
+ * A verified mdoc document
+ */
+export interface VerifiedMdocDocument {
+  /** Document type */
+  docType: string;
+  /** Disclosed elements by namespace (tdate/full-date values as strings) */
+  claims: MdocNameSpaces;
+  /** COSE `kid` of the issuer signature */
+  issuerKid?: string;
+  /** MSO validity period (RFC 3339 strings) */
+  validityInfo: { signed: string; validFrom: string; validUntil: string };
+}
+
+// ---------------------------------------------------------------------------
+// COSE
+// ---------------------------------------------------------------------------
+
+function coseAlgFromId(id: unknown): MdocAlg {
+  const alg = (Object.keys(COSE_ALG_IDS) as MdocAlg[]).find((k) => COSE_ALG_IDS[k] === id);
+  if (!alg) {
+    throw new ZkIdCryptoError(`Unsupported COSE algorithm: ${String(id)}`);
+  }
+  return alg;
+}
+
+function sigStructure(protectedHeader: Buffer, payload: Buffer): Buffer {
+  return encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), payload]);
+}
+
+/** Create an untagged COSE_Sign1, optionally with a detached (null) payload */
+async function coseSign1(
+  payload: Buffer,
+  signer: MdocSigner,
+  detached = false,
+): Promise<unknown[]> {
+  const protectedMap = new Map<number, unknown>([[COSE_HEADER_ALG, COSE_ALG_IDS[signer.alg]]]);
+  if (signer.kid) {
+    protectedMap.set(COSE_HEADER_KID, Buffer.from(signer.kid, 'utf8'));
+  }
+  const protectedHeader = encodeCbor(protectedMap);
+  const unprotected = new Map<number, unknown>();
+  if (signer.x5chain && signer.x5chain.length > 0) {
+    unprotected.set(
+      COSE_HEADER_X5CHAIN,
+      signer.x5chain.length === 1 ? signer.x5chain[0] : signer.x5chain,
+    );
+  }
+  const signature = await signer.sign(sigStructure(protectedHeader, payload));
+  return [protectedHeader, unprotected, detached ? null : payload, signature];
+}
+
+interface ParsedCoseSign1 {
+  protectedHeader: Buffer;
+  alg: MdocAlg;
+  kid?: string;
+  x5chain?: X509Certificate[];
+  payload: Buffer | null;
+  signature: Buffer;
+}
+
+function parseCoseSign1(value: unknown, label: string): ParsedCoseSign1 {
+  const sign1 = value instanceof CborTag && value.tag === 18 ? value.value : value;
+  if (
+    !Array.isArray(sign1) ||
+    sign1.length !== 4 ||
+    !Buffer.isBuffer(sign1[0]) ||
+    !(sign1[1] instanceof Map) ||
+    !(sign1[2] === null || Buffer.isBuffer(sign1[2])) ||
+    !Buffer.isBuffer(sign1[3])
+  ) {
+    throw new ZkIdValidationError(`${label} is not a COSE_Sign1`, 'mdoc');
+  }
+  const protectedMap = sign1[0].length > 0 ? decodeCbor(sign1[0]) : new Map();
+  if (!(protectedMap instanceof Map)) {
+    throw new ZkIdValidationError(`${label} protected header is not a map`, 'mdoc');
+  }
+  // The kid selects a trusted key, so an unprotected (unsigned) kid is ignored
+  const kid = protectedMap.get(COSE_HEADER_KID);
+  const x5chain = sign1[1].get(COSE_HEADER_X5CHAIN) ?? protectedMap.get(COSE_HEADER_X5CHAIN);
+  const certificates = Buffer.isBuffer(x5chain) ? [x5chain] : x5chain;
+  if (
+    certificates !== undefined &&
+    (!Array.isArray(certificates) ||
+      certificates.length === 0 ||
+      !certificates.every((c) => Buffer.isBuffer(c)))
+  ) {
+    throw new ZkIdValidationError(`${label} x5chain must be one or more certificates`, 'x5chain');
+  }
+  return {
+    protectedHeader: sign1[0],
+    alg: coseAlgFromId(protectedMap.get(COSE_HEADER_ALG)),
+    kid: Buffer.isBuffer(kid) ? kid.toString('utf8') : undefined,
+    x5chain: certificates?.map((der: Buffer) => new X509Certificate(der)),
+    payload: sign1[2],
+    signature: sign1[3],
+  };
+}
+
+function verifyCoseSign1(parsed: ParsedCoseSign1, payload: Buffer, key: KeyObject, label: string) {
+  const data = sigStructure(parsed.protectedHeader, payload);
+  if (!verifyJwsSignature(parsed.alg, data, key, parsed.signature)) {
+    throw new ZkIdCryptoError(`${label} signature verification failed`);
+  }
+}
+
+/**
+ * Convert a public JWK (EC P-256 or Ed25519) to a COSE_Key
+ *
+ * @throws ZkIdValidationError for other key types or private keys
+ */
+export function jwkToCoseKey(jwk: webcrypto.JsonWebKey): Map<number, unknown> {
+  if (jwk.d !== undefined) {
+    throw new ZkIdValidationError('Device key must not contain private key material', 'deviceKey');
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256' && jwk.x && jwk.y) {
+    return new Map<number, unknown>([
+      [1, 2],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x, 'base64url')],
+      [-3, Buffer.from(jwk.y, 'base64url')],
+    ]);
+  }
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519' && jwk.x) {
+    return new Map<number, unknown>([
+      [1, 1],
+      [-1, 6],
+      [-2, Buffer.from(jwk.x, 'base64url')],
+    ]);
+  }
+  throw new ZkIdValidationError('Device key must be an EC P-256 or Ed25519 JWK', 'deviceKey');
+}
+
+function coseKeyToKeyObject(coseKey: unknown): KeyObject {
+  if (coseKey instanceof Map) {
+    const x = coseKey.get(-2);
+    const y = coseKey.get(-3);
+    if (coseKey.get(1) === 2 && coseKey.get(-1) === 1 && Buffer.isBuffer(x) && Buffer.isBuffer(y)) {
+      return createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: x.toString('base64url'), y: y.toString('base64url') },
+        format: 'jwk',
+      });
+    }
+    if (coseKey.get(1) === 1 && coseKey.get(-1) === 6 && Buffer.isBuffer(x)) {
+      return createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: x.toString('base64url') },
+        format: 'jwk',
+      });
+    }
+  }
+  throw new ZkIdValidationError('Unsupported MSO device key', 'deviceKey');
+}
+
+// ---------------------------------------------------------------------------
+// Issuance
+// ---------------------------------------------------------------------------
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function tdate(date: Date): CborTag {
+  // ISO 18013-5 §9.1.2.4: tdate without fractional seconds
+  return new CborTag(CBOR_TAG_DATE_TIME, date.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+}
+
+/**
+ * Wrap a date as an ISO 18013-5 `full-date` element value (tag 1004)
+ */
+export function mdocFullDate(date: Date | string): CborTag {
+  const value = typeof date === 'string' ? date : date.toISOString().slice(0, 10);
+  return new CborTag(CBOR_TAG_FULL_DATE, value);
+}
+
+/**
+ * Issue an mdoc as CBOR-encoded `IssuerSigned`
+ *
+ * Each element gets a random digest ID and 16-byte salt (`random`); the MSO
+ * lists the element digests and the holder's device key and is signed as
+ * `issuerAuth`.
+ *
+ * @param docType - Document type (e.g. {@link MDL_DOCTYPE})
+ * @param nameSpaces - Data elements by namespace
+ * @param deviceKey - Holder public JWK (EC P-256 or Ed25519)
+ * @param validity - MSO validity period
+ * @param signer - Issuer signer (`kid` should identify the issuer)
+ * @returns CBOR-encoded IssuerSigned
+ */
+export async function issueMdoc(
+  docType: string,
+  nameSpaces: MdocNameSpaces,
+  deviceKey: webcrypto.JsonWebKey,
+  validity: MdocValidityInfo,
+  signer: MdocSigner,
+): Promise<Buffer> {
+  const signed = validity.signed ?? new Date();
+  const validFrom = validity.validFrom ?? signed;
+  if (validity.validUntil.getTime() <= validFrom.getTime()) {
+    throw new ZkIdValidationError('validUntil must be after validFrom', 'validUntil');
+  }
+
+  const usedDigestIds = new Set<number>();
+  const issuerNameSpaces = new Map<string, CborTag[]>();
+  const valueDigests = new Map<string, Map<number, Buffer>>();
+
+  for (const [namespace, elements] of Object.entries(nameSpaces)) {
+    const items: CborTag[] = [];
+    const digests = new Map<number, Buffer>();
+    for (const [elementIdentifier, elementValue] of Object.entries(elements)) {
+      let digestID: number;
+      do {
+        digestID = randomInt(0, 2 ** 31);
+      } while (usedDigestIds.has(digestID));
+      usedDigestIds.add(digestID);
+
+      const item = encodeEmbeddedCbor({
+        digestID,
+        random: randomBytes(16),
+        elementIdentifier,
+        elementValue,
+      });
+      items.push(item);
+      digests.set(digestID, sha256(encodeCbor(item)));
+    }
+    issuerNameSpaces.set(namespace, items);
+    valueDigests.set(namespace, digests);
+  }
+
+  const mso = {
+    version: '1.0',
+    digestAlgorithm: 'SHA-256',
+    valueDigests,
+    deviceKeyInfo: { deviceKey: jwkToCoseKey(deviceKey) },
+    docType,
+    validityInfo: {
+      signed: tdate(signed),
+      validFrom: tdate(validFrom),
+      validUntil: tdate(validity.validUntil),
+    },
+  };
+  const issuerAuth = await coseSign1(encodeCbor(encodeEmbeddedCbor(mso)), signer);
+
+  return encodeCbor({ nameSpaces: issuerNameSpaces, issuerAuth });
+}
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the OpenID4VP session transcript for an mdoc DeviceResponse
+ *
+ * `[null, null, ["OpenID4VPHandover", SHA-256(cbor([client_id, nonce, jwkThumbprint, response_uri]))]]`
+ *
+ * @param clientId - Verifier client_id
+ * @param nonce - Authorization request nonce
+ * @param responseUri - Authorization request response_uri
+ * @param jwkThumbprint - Thumbprint of the response encryption key, if the response is encrypted
+ */
+export function createOpenID4VPSessionTranscript(
+  clientId: string,
+  nonce: string,
+  responseUri: string,
+  jwkThumbprint?: Buffer,
+): unknown[] {
+  const handoverInfo = encodeCbor([clientId, nonce, jwkThumbprint ?? null, responseUri]);
+  return [null, null, ['OpenID4VPHandover', sha256(handoverInfo)]];
+}
+
+function deviceAuthenticationBytes(
+  sessionTranscript: unknown,
+  docType: string,
+  deviceNameSpacesBytes: CborTag,
+): Buffer {
+  return encodeCbor(
+    encodeEmbeddedCbor(['DeviceAuthentication', sessionTranscript, docType, deviceNameSpacesBytes]),
+  );
+}
+
+function asMap(value: unknown, label: string): Map<unknown, unknown> {
+  if (!(value instanceof Map)) {
+    throw new ZkIdValidationError(`${label} must be a CBOR map`, 'mdoc');
+  }
+  return value;
+}
+
+function parseIssuerSigned(issuerSigned: unknown): {
+  nameSpaces: Map<unknown, unknown>;
+  issuerAuth: unknown;
+} {
+  const map = asMap(issuerSigned, 'IssuerSigned');
+  return {
+    nameSpaces: asMap(map.get('nameSpaces') ?? new Map(), 'IssuerSigned nameSpaces'),
+    issuerAuth: map.get('issuerAuth'),
+  };
+}
+
+/**
+ * Create a CBOR-encoded DeviceResponse disclosing selected elements
+ *
+ * @param issuerSigned - CBOR-encoded IssuerSigned from {@link issueMdoc}
+ * @param disclose - Element identifiers to disclose, by namespace
+ * @param deviceSigner - Signer for the MSO device key
+ * @param sessionTranscript - e.g. {@link createOpenID4VPSessionTranscript}
+ * @returns CBOR-encoded DeviceResponse
+ */
+export async function createDeviceResponse(
+  issuerSigned: Uint8Array,
+  disclose: Record<string, string[]>,
+  deviceSigner: MdocSigner,
+  sessionTranscript: unknown,
+): Promise<Buffer> {
+  const { nameSpaces, issuerAuth } = parseIssuerSigned(decodeCbor(issuerSigned));
+  const mso = asMap(
+    decodeEmbeddedCbor(
+      decodeCbor(parseCoseSign1(issuerAuth, 'issuerAuth').payload ?? Buffer.alloc(0)),
+    ),
+    'MSO',
+  );
+  const docType = mso.get('docType');
+  if (typeof docType !== 'string') {
+    throw new ZkIdValidationError('MSO is missing docType', 'mdoc');
+  }
+
+  const disclosed = new Map<string, CborTag[]>();
+  for (const [namespace, identifiers] of Object.entries(disclose)) {
+    const items = nameSpaces.get(namespace);
+    if (!Array.isArray(items)) {
+      throw new ZkIdValidationError(`mdoc has no namespace '${namespace}'`, namespace);
+    }
+    const selected: CborTag[] = [];
+    for (const identifier of identifiers) {
+      const item = (items as CborTag[]).find(
+        (tagged) =>
+          asMap(decodeEmbeddedCbor(tagged), 'IssuerSignedItem').get('elementIdentifier') ===
+          identifier,
+      );
+      if (!item) {
+        throw new ZkIdValidationError(
+          `mdoc has no element '${namespace}/${identifier}'`,
+          identifier,
+        );
+      }
+      selected.push(item);
+    }
+    disclosed.set(namespace, selected);
+  }
+
+  const deviceNameSpacesBytes = encodeEmbeddedCbor(new Map());
+  const deviceSignature = await coseSign1(
+    deviceAuthenticationBytes(sessionTranscript, docType, deviceNameSpacesBytes),
+    deviceSigner,
+    true,
+  );
+
+  return encodeCbor({
+    version: '1.0',
+    documents: [
+      {
+        docType,
+        issuerSigned: { nameSpaces: disclosed, issuerAuth },
+        deviceSigned: { nameSpaces: deviceNameSpacesBytes, deviceAuth: { deviceSignature } },
+      },
+    ],
+    status: 0,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+function tdateString(value: unknown, label: string): string {
+  if (
+    value instanceof CborTag &&
+    value.tag === CBOR_TAG_DATE_TIME &&
+    typeof value.value === 'string'
+  ) {
+    return value.value;
+  }
+  throw new ZkIdValidationError(`MSO ${label} must be a tdate`, 'mdoc');
+}
+
+function elementValue(value: unknown): unknown {
+  if (
+    value instanceof CborTag &&
+    (value.tag === CBOR_TAG_DATE_TIME || value.tag === CBOR_TAG_FULL_DATE)
+  ) {
+    return value.value;
+  }
+  return value;
+}
+
+async function verifyDocument(
+  document: unknown,
+  options: MdocVerificationOptions,
+): Promise<VerifiedMdocDocument> {
+  const doc = asMap(document, 'Document');
+  const docType = doc.get('docType');
+  if (typeof docType !== 'string') {
+    throw new ZkIdValidationError('Document is missing docType', 'mdoc');
+  }
+  if (options.expectedDocType !== undefined && docType !== options.expectedDocType) {
+    throw new ZkIdValidationError(`Unexpected mdoc docType: ${docType}`, 'docType');
+  }
+
+  // Issuer signature over the MSO
+  const { nameSpaces, issuerAuth } = parseIssuerSigned(doc.get('issuerSigned'));
+  const issuerSign1 = parseCoseSign1(issuerAuth, 'issuerAuth');
+  if (!issuerSign1.payload) {
+    throw new ZkIdValidationError('issuerAuth must carry the MSO payload', 'mdoc');
+  }
+  const nowMs = options.nowMs ?? Date.now();
+  let issuerKey: KeyObject | webcrypto.JsonWebKey | undefined;
+  if (options.iacaTrustAnchors && options.iacaTrustAnchors.length > 0) {
+    if (!issuerSign1.x5chain) {
+      throw new ZkIdValidationError('issuerAuth must carry an x5chain', 'x5chain');
+    }
+    issuerKey = verifyCertificateChain(
+      issuerSign1.x5chain,
+      options.iacaTrustAnchors,
+      nowMs,
+      'mdoc issuer',
+    ).publicKey;
+  } else if (issuerSign1.x5chain) {
+    throw new ZkIdCryptoError('No IACA trust anchors configured for the issuerAuth x5chain');
+  } else {
+    issuerKey = options.issuerKey;
+    if (!issuerKey && options.resolveIssuerKey) {
+      issuerKey = (await options.resolveIssuerKey(issuerSign1.kid)) ?? undefined;
+    }
+  }
+  if (!issuerKey) {
+    throw new ZkIdCryptoError(`Unknown or untrusted mdoc issuer: ${issuerSign1.kid ?? '(no kid)'}`);
+  }
+  verifyCoseSign1(issuerSign1, issuerSign1.payload, toPublicKeyObject(issuerKey), 'issuerAuth');
+
+  const mso = asMap(decodeEmbeddedCbor(decodeCbor(issuerSign1.payload)), 'MSO');
+  if (mso.get('docType') !== docType) {
+    throw new ZkIdValidationError('MSO docType does not match the document', 'docType');
+  }
+  if (mso.get('digestAlgorithm') !== 'SHA-256') {
+    throw new ZkIdValidationError(
+      `Unsupported MSO digest algorithm: ${String(mso.get('digestAlgorithm'))}`,
+      'digestAlgorithm',
+    );
+  }
+
+  const validity = asMap(mso.get('validityInfo'), 'MSO validityInfo');
+  const validityInfo = {
+    signed: tdateString(validity.get('signed'), 'signed'),
+    validFrom: tdateString(validity.get('validFrom'), 'validFrom'),
+    validUntil: tdateString(validity.get('validUntil'), 'validUntil'),
+  };
+  if (nowMs < Date.parse(validityInfo.validFrom)) {
+    throw new ZkIdValidationError('mdoc is not yet valid', 'validFrom');
+  }
+  if (nowMs > Date.parse(validityInfo.validUntil)) {
+    throw new ZkIdValidationError('mdoc has expired', 'validUntil');
+  }
+
+  // Disclosed elements must match the signed digests
+  const valueDigests = asMap(mso.get('valueDigests'), 'MSO valueDigests');
+  const claims: MdocNameSpaces = {};
+  for (const [namespace, items] of nameSpaces) {
+    const digests = valueDigests.get(namespace);
+    if (typeof namespace !== 'string' || !(digests instanceof Map) || !Array.isArray(items)) {
+      throw new ZkIdValidationError(`Namespace '${String(namespace)}' is not signed`, 'mdoc');
+    }
+    claims[namespace] = {};
+    for (const tagged of items) {
+      if (!(tagged instanceof CborTag) || tagged.tag !== CBOR_TAG_ENCODED) {
+        throw new ZkIdValidationError('IssuerSignedItem must be embedded CBOR', 'mdoc');
+      }
+      const item = asMap(decodeEmbeddedCbor(tagged), 'IssuerSignedItem');
+      const expected = digests.get(item.get('digestID'));
+      if (!Buffer.isBuffer(expected) || !expected.equals(sha256(encodeCbor(tagged)))) {
+        throw new ZkIdCryptoError(
+          `Digest mismatch for element '${String(item.get('elementIdentifier'))}'`,
+        );
+      }
+      const identifier = item.get('elementIdentifier');
+      if (typeof identifier !== 'string' || identifier in claims[namespace]) {
+        throw new ZkIdValidationError('Invalid or duplicate element identifier', 'mdoc');
+      }
+      claims[namespace][identifier] = elementValue(item.get('elementValue'));
+    }
+  }
+
+  // Device signature over the session transcript
+  const deviceSigned = asMap(doc.get('deviceSigned'), 'DeviceSigned');
+  const deviceNameSpacesBytes = deviceSigned.get('nameSpaces');
+  if (!(deviceNameSpacesBytes instanceof CborTag)) {
+    throw new ZkIdValidationError('DeviceSigned nameSpaces must be embedded CBOR', 'mdoc');
+  }
+  const deviceAuth = asMap(deviceSigned.get('deviceAuth'), 'DeviceAuth');
+  if (!deviceAuth.has('deviceSignature')) {
+    throw new ZkIdValidationError(
+      'Only deviceSignature device authentication is supported',
+      'mdoc',
+    );
+  }
+  const deviceSign1 = parseCoseSign1(deviceAuth.get('deviceSignature'), 'deviceSignature');
+  const deviceKey = coseKeyToKeyObject(
+    asMap(mso.get('deviceKeyInfo'), 'MSO deviceKeyInfo').get('deviceKey'),
+  );
+  verifyCoseSign1(
+    deviceSign1,
+    deviceAuthenticationBytes(options.sessionTranscript, docType, deviceNameSpacesBytes),
+    deviceKey,
+    'deviceSignature',
+  );
+
+  return { docType, claims, issuerKid: issuerSign1.kid, validityInfo };
+}
+
+/**
+ * Verify a CBOR-encoded DeviceResponse
+ *
+ * For each document: verifies issuerAuth (against the `x5chain` and IACA trust
+ * anchors, or a pinned issuer key), MSO docType/digest algorithm/validity,
+ * the digest of every disclosed element, and the device signature over the
+ * session transcript with the MSO device key.
+ *
+ * @param deviceResponse - CBOR-encoded DeviceResponse
+ * @param options - Session transcript, issuer key and expected docType
+ * @returns Verified documents with their disclosed elements
+ * @throws ZkIdValidationError for malformed or mismatched responses
+ * @throws ZkIdCryptoError when a signature or digest does not verify
+ */
+export async function verifyDeviceResponse(
+  deviceResponse: Uint8Array,
+  options: MdocVerificationOptions,
+): Promise<VerifiedMdocDocument[]> {
+  const response = asMap(decodeCbor(deviceResponse), 'DeviceResponse');
+  if (response.get('status') !== 0) {
+    throw new ZkIdValidationError(
+      `DeviceResponse status ${String(response.get('status'))}`,
+      'status',
+    );
+  }
+  const documents = response.get('documents');
+  if (!Array.isArray(documents) || documents.length === 0) {
+    throw new ZkIdValidationError('DeviceResponse contains no documents', 'documents');
+  }
+
+  const verified: VerifiedMdocDocument[] = [];
+  for (const document of documents) {
+    verified.push(await verifyDocument(document, options));
+  }
+  return verified;
+}
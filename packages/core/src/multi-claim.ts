@@ -10,11 +10,14 @@
 import {
   AgeProof,
   NationalityProof,
+  NationalitySetProof,
   AgeProofRevocable,
+  NationalityProofRevocable,
   ProofRequest,
   SignedCredential,
 } from './types';
 import { validateNonce, validateMinAge, validateNationality } from './validation';
+import { NationalitySet, validateNationalitySet } from './nationality-set';
 import { ZkIdValidationError } from './errors';
 
 // ---------------------------------------------------------------------------
@@ -28,11 +31,13 @@ export interface ClaimSpec {
   /** Unique label for this claim within the request */
   label: string;
   /** Type of claim */
-  claimType: 'age' | 'nationality' | 'age-revocable';
+  claimType: 'age' | 'nationality' | 'age-revocable' | 'nationality-revocable' | 'nationality-set';
   /** Minimum age (for age claims) */
   minAge?: number;
-  /** Target nationality (for nationality claims) */
+  /** Target nationality (for nationality and nationality-revocable claims) */
   targetNationality?: number;
+  /** Nationality allow/deny set (for nationality-set claims) */
+  nationalitySet?: NationalitySet;
 }
 
 /**
@@ -54,9 +59,14 @@ export interface ClaimProof {
   /** Label matching the ClaimSpec */
   label: string;
   /** Type of claim */
-  claimType: 'age' | 'nationality' | 'age-revocable';
+  claimType: 'age' | 'nationality' | 'age-revocable' | 'nationality-revocable' | 'nationality-set';
   /** The zero-knowledge proof */
-  proof: AgeProof | NationalityProof | AgeProofRevocable;
+  proof:
+    | AgeProof
+    | NationalityProof
+    | AgeProofRevocable
+    | NationalityProofRevocable
+    | NationalitySetProof;
 }
 
 /**
@@ -142,15 +152,24 @@ export function createMultiClaimRequest(claims: ClaimSpec[], nonce: string): Mul
       }
       validateMinAge(claim.minAge);
     }
-    if (claim.claimType === 'nationality') {
+    if (claim.claimType === 'nationality' || claim.claimType === 'nationality-revocable') {
       if (claim.targetNationality === undefined) {
         throw new ZkIdValidationError(
-          `Claim '${claim.label}': targetNationality is required for nationality claims`,
+          `Claim '${claim.label}': targetNationality is required for ${claim.claimType} claims`,
           'targetNationality',
         );
       }
       validateNationality(claim.targetNationality);
     }
+    if (claim.claimType === 'nationality-set') {
+      if (claim.nationalitySet === undefined) {
+        throw new ZkIdValidationError(
+          `Claim '${claim.label}': nationalitySet is required for nationality-set claims`,
+          'nationalitySet',
+        );
+      }
+      validateNationalitySet(claim.nationalitySet);
+    }
   }
 
   return {
@@ -179,6 +198,7 @@ export function expandMultiClaimRequest(
       claimType: claim.claimType,
       minAge: claim.minAge,
       targetNationality: claim.targetNationality,
+      nationalitySet: claim.nationalitySet,
       nonce: request.nonce,
       timestamp: request.timestamp,
     },
@@ -0,0 +1,259 @@
+/**
+ * Nationality sets for allow-list / deny-list membership proofs.
+ *
+ * A nationality set proof shows that the holder's nationality is (allow) or
+ * is not (deny) one of up to NATIONALITY_SET_SIZE ISO 3166-1 numeric codes,
+ * without revealing which code matched.
+ */
+
+import { ZkIdValidationError } from './errors';
+import { validateNationality } from './validation';
+
+// ---------------------------------------------------------------------------
+// ISO 3166-1 Country Codes
+// ---------------------------------------------------------------------------
+
+/**
+ * Common ISO 3166-1 numeric-to-alpha-2 country code mappings.
+ *
+ * ISO 18013-5 uses alpha-2 codes; zk-id uses numeric codes.
+ * This table covers the most common codes. Extend as needed.
+ */
+export const ISO_3166_NUMERIC_TO_ALPHA2: Record<number, string> = {
+  4: 'AF',
+  8: 'AL',
+  12: 'DZ',
+  20: 'AD',
+  24: 'AO',
+  32: 'AR',
+  36: 'AU',
+  40: 'AT',
+  48: 'BH',
+  50: 'BD',
+  56: 'BE',
+  76: 'BR',
+  100: 'BG',
+  124: 'CA',
+  156: 'CN',
+  170: 'CO',
+  191: 'HR',
+  196: 'CY',
+  203: 'CZ',
+  208: 'DK',
+  218: 'EC',
+  818: 'EG',
+  233: 'EE',
+  246: 'FI',
+  250: 'FR',
+  276: 'DE',
+  300: 'GR',
+  344: 'HK',
+  348: 'HU',
+  352: 'IS',
+  356: 'IN',
+  360: 'ID',
+  364: 'IR',
+  368: 'IQ',
+  372: 'IE',
+  376: 'IL',
+  380: 'IT',
+  392: 'JP',
+  400: 'JO',
+  410: 'KR',
+  414: 'KW',
+  428: 'LV',
+  438: 'LI',
+  440: 'LT',
+  442: 'LU',
+  458: 'MY',
+  470: 'MT',
+  484: 'MX',
+  528: 'NL',
+  554: 'NZ',
+  578: 'NO',
+  586: 'PK',
+  604: 'PE',
+  608: 'PH',
+  616: 'PL',
+  620: 'PT',
+  634: 'QA',
+  642: 'RO',
+  643: 'RU',
+  682: 'SA',
+  702: 'SG',
+  703: 'SK',
+  705: 'SI',
+  710: 'ZA',
+  724: 'ES',
+  752: 'SE',
+  756: 'CH',
+  764: 'TH',
+  792: 'TR',
+  784: 'AE',
+  826: 'GB',
+  840: 'US',
+  804: 'UA',
+  704: 'VN',
+};
+
+/**
+ * Reverse mapping: alpha-2 to numeric.
+ */
+export const ISO_3166_ALPHA2_TO_NUMERIC: Record<string, number> = {};
+for (const [num, alpha] of Object.entries(ISO_3166_NUMERIC_TO_ALPHA2)) {
+  ISO_3166_ALPHA2_TO_NUMERIC[alpha] = Number(num);
+}
+
+// ---------------------------------------------------------------------------
+// Nationality Set Types
+// ---------------------------------------------------------------------------
+
+/** Number of set slots in the nationality-set-verify circuit (unused slots are 0). */
+export const NATIONALITY_SET_SIZE = 32;
+
+/**
+ * A public set of nationalities to prove membership (allow) or
+ * non-membership (deny) against.
+ */
+export interface NationalitySet {
+  /** 'allow': nationality must be in codes; 'deny': nationality must not be in codes */
+  mode: 'allow' | 'deny';
+  /** ISO 3166-1 numeric codes (1-999, unique, at most NATIONALITY_SET_SIZE) */
+  codes: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Named Sets
+// ---------------------------------------------------------------------------
+
+/** EU member states (ISO 3166-1 alpha-2). */
+export const EU_MEMBER_STATES_ALPHA2 = [
+  'AT',
+  'BE',
+  'BG',
+  'HR',
+  'CY',
+  'CZ',
+  'DK',
+  'EE',
+  'FI',
+  'FR',
+  'DE',
+  'GR',
+  'HU',
+  'IE',
+  'IT',
+  'LV',
+  'LT',
+  'LU',
+  'MT',
+  'NL',
+  'PL',
+  'PT',
+  'RO',
+  'SK',
+  'SI',
+  'ES',
+  'SE',
+] as const;
+
+/** EEA member states: the EU plus Iceland, Liechtenstein and Norway. */
+export const EEA_MEMBER_STATES_ALPHA2 = [...EU_MEMBER_STATES_ALPHA2, 'IS', 'LI', 'NO'] as const;
+
+/**
+ * Convert ISO 3166-1 alpha-2 codes to numeric codes.
+ *
+ * @param alpha2Codes - Alpha-2 codes (case-insensitive)
+ * @returns Numeric codes in the same order
+ * @throws ZkIdValidationError if a code is not in ISO_3166_ALPHA2_TO_NUMERIC
+ */
+export function nationalityCodesFromAlpha2(alpha2Codes: readonly string[]): number[] {
+  return alpha2Codes.map((alpha2) => {
+    const code = ISO_3166_ALPHA2_TO_NUMERIC[alpha2.toUpperCase()];
+    if (code === undefined) {
+      throw new ZkIdValidationError(`Unknown ISO 3166-1 alpha-2 code: ${alpha2}`, 'alpha2Codes');
+    }
+    return code;
+  });
+}
+
+/** Named nationality sets, as ISO 3166-1 numeric codes. */
+export const NAMED_NATIONALITY_SETS: Record<'EU' | 'EEA', number[]> = {
+  EU: nationalityCodesFromAlpha2(EU_MEMBER_STATES_ALPHA2),
+  EEA: nationalityCodesFromAlpha2(EEA_MEMBER_STATES_ALPHA2),
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a nationality set from numeric codes or a named set.
+ *
+ * @param mode - 'allow' or 'deny'
+ * @param codes - Numeric codes, or the name of an entry in NAMED_NATIONALITY_SETS
+ * @returns A validated nationality set
+ */
+export function createNationalitySet(
+  mode: NationalitySet['mode'],
+  codes: number[] | keyof typeof NAMED_NATIONALITY_SETS,
+): NationalitySet {
+  const resolved = typeof codes === 'string' ? NAMED_NATIONALITY_SETS[codes] : codes;
+  if (!resolved) {
+    throw new ZkIdValidationError(`Unknown nationality set: ${codes}`, 'codes');
+  }
+  const set: NationalitySet = { mode, codes: [...resolved] };
+  validateNationalitySet(set);
+  return set;
+}
+
+/**
+ * Validate a nationality set.
+ *
+ * @param set - The set to validate
+ * @throws ZkIdValidationError if the mode or codes are invalid
+ */
+export function validateNationalitySet(set: NationalitySet): void {
+  if (!set || (set.mode !== 'allow' && set.mode !== 'deny')) {
+    throw new ZkIdValidationError("nationality set mode must be 'allow' or 'deny'", 'mode');
+  }
+  if (!Array.isArray(set.codes) || set.codes.length === 0) {
+    throw new ZkIdValidationError('nationality set must contain at least one code', 'codes');
+  }
+  if (set.codes.length > NATIONALITY_SET_SIZE) {
+    throw new ZkIdValidationError(
+      `nationality set must contain at most ${NATIONALITY_SET_SIZE} codes`,
+      'codes',
+    );
+  }
+  for (const code of set.codes) {
+    validateNationality(code);
+  }
+  if (new Set(set.codes).size !== set.codes.length) {
+    throw new ZkIdValidationError('nationality set must not contain duplicates', 'codes');
+  }
+}
+
+/**
+ * Pad set codes with zeros to the circuit's fixed NATIONALITY_SET_SIZE.
+ *
+ * @param codes - Numeric codes
+ * @returns Array of exactly NATIONALITY_SET_SIZE entries
+ */
+export function padNationalitySet(codes: number[]): number[] {
+  return [...codes, ...new Array(NATIONALITY_SET_SIZE - codes.length).fill(0)];
+}
+
+/**
+ * Compare two nationality sets, ignoring code order and zero padding.
+ *
+ * @returns true if both sets have the same mode and the same codes
+ */
+export function nationalitySetsEqual(a: NationalitySet, b: NationalitySet): boolean {
+  if (a.mode !== b.mode) {
+    return false;
+  }
+  const left = [...new Set(a.codes.filter((code) => code !== 0))].sort((x, y) => x - y);
+  const right = [...new Set(b.codes.filter((code) => code !== 0))].sort((x, y) => x - y);
+  return left.length === right.length && left.every((code, i) => code === right[i]);
+}
@@ -0,0 +1,572 @@
+/**
+ * OpenID4VCI wallet flow (pre-authorized code)
+ *
+ * Redeems `openid-credential-offer://` links: resolves the offer, fetches the
+ * credential issuer and authorization server metadata, exchanges the
+ * pre-authorized code (and transaction code) for an access token, signs a
+ * key-proof JWT over the issuer's c_nonce and requests each credential.
+ *
+ * All HTTP goes through an injected client so the same flow serves browser
+ * and mobile wallets; storing the credentials is left to the wallet.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCredentialError, ZkIdValidationError } from './errors';
+import { base64UrlEncode } from './jws';
+import { SdJwtSigner, keyObjectSigner } from './sd-jwt';
+
+/** Grant type of the pre-authorized code flow */
+export const OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT =
+  'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+/** JWT `typ` of OpenID4VCI key-proof JWTs */
+export const OPENID4VCI_PROOF_TYP = 'openid4vci-proof+jwt';
+
+/** Credential format of zk-id SignedCredentials */
+export const ZKID_SIGNED_CREDENTIAL_FORMAT = 'zkid_signed_credential';
+
+/** Credential format of serialized zk-id BBS+ credentials */
+export const ZKID_BBS_CREDENTIAL_FORMAT = 'zkid_bbs_credential';
+
+/**
+ * HTTP client used by the flow. String bodies must be sent unchanged (the
+ * token request is form-encoded); other bodies are sent as JSON.
+ */
+export interface OpenID4VCIHttpClient {
+  get(url: string, headers?: Record<string, string>): Promise<OpenID4VCIHttpResponse>;
+  post(
+    url: string,
+    body: unknown,
+    headers?: Record<string, string>,
+  ): Promise<OpenID4VCIHttpResponse>;
+}
+
+export interface OpenID4VCIHttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+}
+
+/**
+ * Transaction code (PIN) the holder must enter to redeem an offer
+ */
+export interface CredentialOfferTxCode {
+  input_mode?: 'numeric' | 'text';
+  length?: number;
+  description?: string;
+}
+
+/**
+ * OpenID4VCI credential offer
+ */
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants?: {
+    [OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT]?: {
+      'pre-authorized_code': string;
+      tx_code?: CredentialOfferTxCode;
+    };
+    [grant: string]: unknown;
+  };
+}
+
+/**
+ * Credential configuration from issuer metadata
+ */
+export interface CredentialConfiguration {
+  format: string;
+  proof_types_supported?: Record<string, { proof_signing_alg_values_supported?: string[] }>;
+  [key: string]: unknown;
+}
+
+/**
+ * Credential issuer metadata (`/.well-known/openid-credential-issuer`)
+ */
+export interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  credential_endpoint: string;
+  nonce_endpoint?: string;
+  deferred_credential_endpoint?: string;
+  authorization_servers?: string[];
+  credential_configurations_supported: Record<string, CredentialConfiguration>;
+}
+
+/**
+ * Holder key the key-proof JWTs are signed with
+ */
+export interface OpenID4VCIHolderKey {
+  signer: SdJwtSigner;
+  /** Public key placed in the proof JWT `jwk` header */
+  publicJwk: webcrypto.JsonWebKey;
+}
+
+/**
+ * Options for acceptCredentialOffer
+ */
+export interface AcceptCredentialOfferOptions {
+  http: OpenID4VCIHttpClient;
+  /** Holder key for the key proofs (default: an ephemeral Ed25519 key) */
+  holderKey?: OpenID4VCIHolderKey;
+  /** Configurations to request (default: all offered configurations in `formats`) */
+  credentialConfigurationIds?: string[];
+  /** Credential formats the wallet can store (default: any) */
+  formats?: string[];
+  /**
+   * Prompt the holder for the offer's transaction code. Return null to cancel.
+   * Required for offers with a `tx_code`.
+   */
+  onTxCode?: (txCode: CredentialOfferTxCode) => Promise<string | null>;
+  /** Wallet client_id, sent as the proof JWT `iss` (omitted for anonymous access) */
+  clientId?: string;
+}
+
+/**
+ * An issued credential
+ */
+export interface OpenID4VCICredential {
+  configurationId: string;
+  format: string;
+  credential: unknown;
+}
+
+/**
+ * A credential the issuer will provide later via the deferred credential endpoint
+ */
+export interface OpenID4VCIDeferredCredential {
+  configurationId: string;
+  format: string;
+  transactionId: string;
+  /** Suggested polling interval in seconds */
+  interval: number;
+  accessToken: string;
+  deferredCredentialEndpoint: string;
+}
+
+/**
+ * Result of redeeming a credential offer
+ */
+export interface CredentialOfferResult {
+  credentialIssuer: string;
+  credentials: OpenID4VCICredential[];
+  deferred: OpenID4VCIDeferredCredential[];
+}
+
+/**
+ * Options for createKeyProofJwt
+ */
+export interface KeyProofOptions {
+  holderKey: OpenID4VCIHolderKey;
+  /** Credential issuer identifier */
+  audience: string;
+  /** c_nonce from the issuer */
+  nonce?: string;
+  /** Wallet client_id */
+  clientId?: string;
+  /** Issued-at time in seconds (default: now) */
+  iat?: number;
+}
+
+/**
+ * Parse an `openid-credential-offer://` link
+ *
+ * @returns The offer passed by value, or the URI to fetch it from
+ * @throws ZkIdValidationError if the link carries neither
+ */
+export function parseCredentialOfferUri(
+  uri: string,
+): { credentialOffer: CredentialOffer } | { credentialOfferUri: string } {
+  const query = uri.includes('?') ? uri.slice(uri.indexOf('?') + 1) : '';
+  const params = new URLSearchParams(query);
+  const byValue = params.get('credential_offer');
+  const byReference = params.get('credential_offer_uri');
+
+  if (byValue) {
+    let offer: unknown;
+    try {
+      offer = JSON.parse(byValue);
+    } catch {
+      throw new ZkIdValidationError('credential_offer is not valid JSON', 'credential_offer');
+    }
+    return { credentialOffer: validateCredentialOffer(offer) };
+  }
+  if (byReference) {
+    return { credentialOfferUri: byReference };
+  }
+  throw new ZkIdValidationError(
+    'Credential offer link has no credential_offer or credential_offer_uri',
+    'credential_offer',
+  );
+}
+
+/**
+ * Validate the structure of a credential offer
+ *
+ * @throws ZkIdValidationError for malformed offers
+ */
+export function validateCredentialOffer(value: unknown): CredentialOffer {
+  const offer = value as Partial<CredentialOffer> | null;
+  if (!offer || typeof offer !== 'object' || typeof offer.credential_issuer !== 'string') {
+    throw new ZkIdValidationError(
+      'Credential offer is missing credential_issuer',
+      'credential_offer',
+    );
+  }
+  if (
+    !Array.isArray(offer.credential_configuration_ids) ||
+    offer.credential_configuration_ids.length === 0 ||
+    !offer.credential_configuration_ids.every((id) => typeof id === 'string')
+  ) {
+    throw new ZkIdValidationError(
+      'Credential offer is missing credential_configuration_ids',
+      'credential_offer',
+    );
+  }
+  return offer as CredentialOffer;
+}
+
+/**
+ * Create an OpenID4VCI key-proof JWT
+ */
+export async function createKeyProofJwt(options: KeyProofOptions): Promise<string> {
+  const { signer, publicJwk } = options.holderKey;
+  // The key travels in `jwk`; `kid` must not be present alongside it
+  const header = { typ: OPENID4VCI_PROOF_TYP, alg: signer.alg, jwk: publicJwk };
+  const payload = {
+    ...(options.clientId ? { iss: options.clientId } : {}),
+    aud: options.audience,
+    iat: options.iat ?? Math.floor(Date.now() / 1000),
+    ...(options.nonce !== undefined ? { nonce: options.nonce } : {}),
+  };
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = await signer.sign(Buffer.from(signingInput));
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Redeem a credential offer with the pre-authorized code flow
+ *
+ * @param offerUri - `openid-credential-offer://` link (or any URL with the offer parameters)
+ * @param options - HTTP client, holder key, configuration selection and tx_code prompt
+ * @returns Issued and deferred credentials
+ * @throws ZkIdValidationError for malformed offers or metadata
+ * @throws ZkIdCredentialError if the issuer rejects a request or the holder cancels
+ */
+export async function acceptCredentialOffer(
+  offerUri: string,
+  options: AcceptCredentialOfferOptions,
+): Promise<CredentialOfferResult> {
+  const { http } = options;
+  const parsed = parseCredentialOfferUri(offerUri);
+  const offer =
+    'credentialOffer' in parsed
+      ? parsed.credentialOffer
+      : validateCredentialOffer(await getJson(http, parsed.credentialOfferUri, 'Credential offer'));
+
+  const grant = offer.grants?.[OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT];
+  if (!grant || typeof grant['pre-authorized_code'] !== 'string') {
+    throw new ZkIdValidationError(
+      'Credential offer has no pre-authorized code grant',
+      'credential_offer',
+    );
+  }
+
+  const metadata = await getJson(
+    http,
+    wellKnownUrl(offer.credential_issuer, 'openid-credential-issuer'),
+    'Credential issuer metadata',
+  );
+  const issuerMetadata = validateIssuerMetadata(metadata, offer.credential_issuer);
+
+  const requested = selectConfigurations(offer, issuerMetadata, options);
+
+  // Prompt before contacting the token endpoint so a cancelled prompt leaves the code unused
+  let txCode: string | null = null;
+  if (grant.tx_code) {
+    if (!options.onTxCode) {
+      throw new ZkIdCredentialError(
+        'Credential offer requires a transaction code',
+        'TX_CODE_REQUIRED',
+      );
+    }
+    txCode = await options.onTxCode(grant.tx_code);
+    if (txCode === null) {
+      throw new ZkIdCredentialError('Transaction code entry cancelled', 'TX_CODE_REQUIRED');
+    }
+  }
+
+  const tokenEndpoint = await resolveTokenEndpoint(http, issuerMetadata);
+  const form = new URLSearchParams({
+    grant_type: OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT,
+    'pre-authorized_code': grant['pre-authorized_code'],
+    ...(txCode !== null ? { tx_code: txCode } : {}),
+  });
+  const token = await postJson(http, tokenEndpoint, form.toString(), 'Token request', {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  });
+  if (typeof token.access_token !== 'string') {
+    throw new ZkIdValidationError('Token response is missing access_token', 'access_token');
+  }
+  const accessToken = token.access_token;
+  let cNonce = typeof token.c_nonce === 'string' ? token.c_nonce : undefined;
+
+  const holderKey = options.holderKey ?? ephemeralHolderKey();
+  const result: CredentialOfferResult = {
+    credentialIssuer: issuerMetadata.credential_issuer,
+    credentials: [],
+    deferred: [],
+  };
+
+  for (const configurationId of requested) {
+    const format = issuerMetadata.credential_configurations_supported[configurationId].format;
+
+    if (issuerMetadata.nonce_endpoint) {
+      const nonceResponse = await postJson(
+        http,
+        issuerMetadata.nonce_endpoint,
+        {},
+        'Nonce request',
+      );
+      cNonce = typeof nonceResponse.c_nonce === 'string' ? nonceResponse.c_nonce : undefined;
+    }
+    const jwt = await createKeyProofJwt({
+      holderKey,
+      audience: issuerMetadata.credential_issuer,
+      nonce: cNonce,
+      clientId: options.clientId,
+    });
+
+    const response = await postJson(
+      http,
+      issuerMetadata.credential_endpoint,
+      { credential_configuration_id: configurationId, proof: { proof_type: 'jwt', jwt } },
+      'Credential request',
+      { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    );
+    if (typeof response.c_nonce === 'string') {
+      cNonce = response.c_nonce;
+    }
+
+    if (typeof response.transaction_id === 'string') {
+      if (!issuerMetadata.deferred_credential_endpoint) {
+        throw new ZkIdValidationError(
+          'Issuer deferred a credential without a deferred_credential_endpoint',
+          'deferred_credential_endpoint',
+        );
+      }
+      result.deferred.push({
+        configurationId,
+        format,
+        transactionId: response.transaction_id,
+        interval: typeof response.interval === 'number' ? response.interval : 5,
+        accessToken,
+        deferredCredentialEndpoint: issuerMetadata.deferred_credential_endpoint,
+      });
+    } else {
+      result.credentials.push({ configurationId, format, credential: extractCredential(response) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Poll the deferred credential endpoint once
+ *
+ * @returns The credential, or null while issuance is still pending
+ * @throws ZkIdCredentialError if the issuer rejects the transaction
+ */
+export async function pollDeferredCredential(
+  deferred: OpenID4VCIDeferredCredential,
+  http: OpenID4VCIHttpClient,
+): Promise<OpenID4VCICredential | null> {
+  const response = await http.post(
+    deferred.deferredCredentialEndpoint,
+    { transaction_id: deferred.transactionId },
+    { 'Content-Type': 'application/json', Authorization: `Bearer ${deferred.accessToken}` },
+  );
+  const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+
+  // Earlier drafts signal pending issuance with an issuance_pending error
+  if (response.status === 202 || body.error === 'issuance_pending') {
+    return null;
+  }
+  if (!response.ok) {
+    throw issuanceError('Deferred credential request', response, body);
+  }
+  return {
+    configurationId: deferred.configurationId,
+    format: deferred.format,
+    credential: extractCredential(body),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function ephemeralHolderKey(): OpenID4VCIHolderKey {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    signer: keyObjectSigner('EdDSA', privateKey),
+    publicJwk: publicKey.export({ format: 'jwk' }),
+  };
+}
+
+/** Well-known URL with the suffix inserted before the path (RFC 8414 / OpenID4VCI) */
+function wellKnownUrl(identifier: string, suffix: string): string {
+  const url = new URL(identifier);
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${url.origin}/.well-known/${suffix}${path}`;
+}
+
+function validateIssuerMetadata(
+  value: unknown,
+  credentialIssuer: string,
+): CredentialIssuerMetadata {
+  const metadata = value as Partial<CredentialIssuerMetadata>;
+  if (metadata.credential_issuer !== credentialIssuer) {
+    throw new ZkIdValidationError(
+      'Issuer metadata credential_issuer does not match the offer',
+      'credential_issuer',
+    );
+  }
+  if (typeof metadata.credential_endpoint !== 'string') {
+    throw new ZkIdValidationError(
+      'Issuer metadata is missing credential_endpoint',
+      'credential_endpoint',
+    );
+  }
+  if (!metadata.credential_configurations_supported) {
+    throw new ZkIdValidationError(
+      'Issuer metadata is missing credential_configurations_supported',
+      'credential_configurations_supported',
+    );
+  }
+  return metadata as CredentialIssuerMetadata;
+}
+
+function selectConfigurations(
+  offer: CredentialOffer,
+  metadata: CredentialIssuerMetadata,
+  options: AcceptCredentialOfferOptions,
+): string[] {
+  const supported = metadata.credential_configurations_supported;
+  const storable = (id: string) =>
+    !options.formats || options.formats.includes(supported[id].format);
+
+  for (const id of offer.credential_configuration_ids) {
+    if (!supported[id]) {
+      throw new ZkIdValidationError(
+        `Offered credential configuration ${id} is not in the issuer metadata`,
+        'credential_configuration_ids',
+      );
+    }
+  }
+
+  const requested =
+    options.credentialConfigurationIds ?? offer.credential_configuration_ids.filter(storable);
+  for (const id of requested) {
+    if (!offer.credential_configuration_ids.includes(id)) {
+      throw new ZkIdValidationError(
+        `Credential configuration ${id} is not in the offer`,
+        'credentialConfigurationIds',
+      );
+    }
+    if (!storable(id)) {
+      throw new ZkIdCredentialError(
+        `Unsupported credential format: ${supported[id].format}`,
+        'UNSUPPORTED_CREDENTIAL_FORMAT',
+      );
+    }
+  }
+  if (requested.length === 0) {
+    throw new ZkIdCredentialError(
+      'Credential offer contains no supported credential formats',
+      'UNSUPPORTED_CREDENTIAL_FORMAT',
+    );
+  }
+  return requested;
+}
+
+async function resolveTokenEndpoint(
+  http: OpenID4VCIHttpClient,
+  metadata: CredentialIssuerMetadata,
+): Promise<string> {
+  const authorizationServer = metadata.authorization_servers?.[0] ?? metadata.credential_issuer;
+  let response = await http.get(wellKnownUrl(authorizationServer, 'oauth-authorization-server'));
+  if (!response.ok) {
+    response = await http.get(
+      `${authorizationServer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    );
+  }
+  if (!response.ok) {
+    throw new ZkIdCredentialError(
+      `Authorization server metadata fetch failed: ${response.status} ${response.statusText}`,
+      'ISSUANCE_FAILED',
+    );
+  }
+  const body = (await response.json()) as { token_endpoint?: unknown };
+  if (typeof body.token_endpoint !== 'string') {
+    throw new ZkIdValidationError(
+      'Authorization server metadata is missing token_endpoint',
+      'token_endpoint',
+    );
+  }
+  return body.token_endpoint;
+}
+
+function extractCredential(body: Record<string, unknown>): unknown {
+  if (Array.isArray(body.credentials) && body.credentials.length > 0) {
+    return (body.credentials[0] as { credential?: unknown }).credential;
+  }
+  if (body.credential !== undefined) {
+    // Draft 13 and earlier return a single `credential`
+    return body.credential;
+  }
+  throw new ZkIdValidationError('Credential response contains no credential', 'credentials');
+}
+
+async function getJson(
+  http: OpenID4VCIHttpClient,
+  url: string,
+  label: string,
+): Promise<Record<string, unknown>> {
+  const response = await http.get(url, { Accept: 'application/json' });
+  if (!response.ok) {
+    throw new ZkIdCredentialError(
+      `${label} fetch failed: ${response.status} ${response.statusText}`,
+      'ISSUANCE_FAILED',
+    );
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+async function postJson(
+  http: OpenID4VCIHttpClient,
+  url: string,
+  body: unknown,
+  label: string,
+  headers: Record<string, string> = { 'Content-Type': 'application/json' },
+): Promise<Record<string, unknown>> {
+  const response = await http.post(url, body, headers);
+  const json = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok) {
+    throw issuanceError(label, response, json);
+  }
+  return json;
+}
+
+function issuanceError(
+  label: string,
+  response: OpenID4VCIHttpResponse,
+  body: Record<string, unknown>,
+): ZkIdCredentialError {
+  const reason =
+    typeof body.error === 'string'
+      ? `${body.error}${typeof body.error_description === 'string' ? `: ${body.error_description}` : ''}`
+      : `${response.status} ${response.statusText}`;
+  return new ZkIdCredentialError(`${label} failed: ${reason}`, 'ISSUANCE_FAILED');
+}
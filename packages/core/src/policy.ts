@@ -0,0 +1,499 @@
+/**
+ * Declarative verifier policies.
+ *
+ * A policy is a JSON-serializable tree of rules combined with `all` (AND) and
+ * `any` (OR), e.g. "(age >= 18 AND nationality in EU) OR (age >= 21)". Leaf
+ * rules are satisfied by verified claims of a multi-claim response, by the
+ * issuer of a verified signed credential, or by the freshness of the request
+ * and credential. Evaluation returns a result per rule so verifiers can
+ * explain why a policy was (not) satisfied.
+ *
+ * There is deliberately no `not` combinator: a missing proof is not a proof of
+ * the opposite, so negation would be satisfied by omitting a claim. Use a
+ * nationality deny list (`notIn`) instead.
+ */
+
+import { ClaimSpec, MultiClaimRequest, createMultiClaimRequest } from './multi-claim';
+import {
+  NAMED_NATIONALITY_SETS,
+  NationalitySet,
+  NATIONALITY_SET_SIZE,
+  createNationalitySet,
+} from './nationality-set';
+import { validateMinAge, validateNationality } from './validation';
+import { ZkIdValidationError } from './errors';
+
+// ---------------------------------------------------------------------------
+// Policy Types
+// ---------------------------------------------------------------------------
+
+/** Nationality codes, or the name of an entry in NAMED_NATIONALITY_SETS */
+export type PolicyNationalityCodes = number[] | keyof typeof NAMED_NATIONALITY_SETS;
+
+/** Satisfied when every child rule is satisfied */
+export interface AllPolicyRule {
+  type: 'all';
+  rules: PolicyRule[];
+  /** Optional identifier reported in evaluation results */
+  id?: string;
+}
+
+/** Satisfied when at least one child rule is satisfied */
+export interface AnyPolicyRule {
+  type: 'any';
+  rules: PolicyRule[];
+  id?: string;
+}
+
+/** Satisfied by a verified age claim proving at least `minAge` */
+export interface AgePolicyRule {
+  type: 'age';
+  minAge: number;
+  id?: string;
+}
+
+/**
+ * Satisfied by a verified nationality claim for one of `in`, a verified
+ * allow-list set proof within `in`, or a verified deny-list set proof that
+ * excludes every code in `notIn`. Exactly one of `in` / `notIn` is required.
+ */
+export interface NationalityPolicyRule {
+  type: 'nationality';
+  in?: PolicyNationalityCodes;
+  notIn?: PolicyNationalityCodes;
+  id?: string;
+}
+
+/**
+ * Satisfied by a verified signed credential. With no constraints this simply
+ * requires a signed credential; `issuers` and `jurisdictions` restrict who
+ * may have signed it.
+ */
+export interface IssuerPolicyRule {
+  type: 'issuer';
+  /** Accepted issuer identifiers */
+  issuers?: string[];
+  /** Accepted issuer jurisdictions (from the issuer registry) */
+  jurisdictions?: string[];
+  id?: string;
+}
+
+/**
+ * Satisfied when the request (and, if set, the signed credential) is recent
+ * enough.
+ */
+export interface FreshnessPolicyRule {
+  type: 'freshness';
+  /** Maximum age of the proof request timestamp in ms */
+  maxProofAgeMs?: number;
+  /** Maximum time since the signed credential was issued in ms */
+  maxCredentialAgeMs?: number;
+  id?: string;
+}
+
+export type PolicyRule =
+  | AllPolicyRule
+  | AnyPolicyRule
+  | AgePolicyRule
+  | NationalityPolicyRule
+  | IssuerPolicyRule
+  | FreshnessPolicyRule;
+
+/**
+ * A named verifier policy.
+ */
+export interface VerificationPolicy {
+  /** Unique identifier for the policy (e.g. the route it protects) */
+  id: string;
+  /** Human-readable description */
+  description?: string;
+  /** Root rule */
+  rule: PolicyRule;
+}
+
+/**
+ * A claim the verifier has checked, with the parameters it was proven for.
+ */
+export interface PolicyClaimFact {
+  label: string;
+  claimType: string;
+  verified: boolean;
+  /** Proven minimum age (age claims) */
+  minAge?: number;
+  /** Proven nationality (nationality claims) */
+  targetNationality?: number;
+  /** Proven allow/deny list (nationality-set claims) */
+  nationalitySet?: NationalitySet;
+}
+
+/**
+ * Facts a policy is evaluated against.
+ */
+export interface PolicyContext {
+  claims: PolicyClaimFact[];
+  /** Issuer of the signed credential — only set once its signature and binding were verified */
+  issuer?: { issuer: string; jurisdiction?: string; issuedAt?: string };
+  /** ISO 8601 request timestamp the proofs are bound to */
+  requestTimestamp?: string;
+  /** Current time in milliseconds (default: Date.now()) */
+  nowMs?: number;
+}
+
+/**
+ * Evaluation result of a single rule.
+ */
+export interface PolicyRuleResult {
+  /** Rule id, or a generated description such as "age >= 18" */
+  rule: string;
+  satisfied: boolean;
+  /** Why the rule is not satisfied */
+  reason?: string;
+  /** Labels of the claims that satisfied the rule */
+  matchedClaims?: string[];
+  /** Results of child rules (all / any) */
+  results?: PolicyRuleResult[];
+}
+
+/**
+ * Evaluation result of a policy.
+ */
+export interface PolicyEvaluationResult {
+  policyId: string;
+  satisfied: boolean;
+  result: PolicyRuleResult;
+}
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+/**
+ * TypeScript builders for policy rules.
+ *
+ * @example
+ * ```typescript
+ * const policy: VerificationPolicy = {
+ *   id: 'checkout',
+ *   rule: PolicyRules.any(
+ *     PolicyRules.all(PolicyRules.minAge(18), PolicyRules.nationalityIn('EU')),
+ *     PolicyRules.minAge(21),
+ *   ),
+ * };
+ * ```
+ */
+export const PolicyRules = {
+  all: (...rules: PolicyRule[]): AllPolicyRule => ({ type: 'all', rules }),
+  any: (...rules: PolicyRule[]): AnyPolicyRule => ({ type: 'any', rules }),
+  minAge: (minAge: number): AgePolicyRule => ({ type: 'age', minAge }),
+  nationalityIn: (codes: PolicyNationalityCodes): NationalityPolicyRule => ({
+    type: 'nationality',
+    in: codes,
+  }),
+  nationalityNotIn: (codes: PolicyNationalityCodes): NationalityPolicyRule => ({
+    type: 'nationality',
+    notIn: codes,
+  }),
+  issuer: (requirements: Omit<IssuerPolicyRule, 'type'> = {}): IssuerPolicyRule => ({
+    type: 'issuer',
+    ...requirements,
+  }),
+  freshness: (requirements: Omit<FreshnessPolicyRule, 'type'>): FreshnessPolicyRule => ({
+    type: 'freshness',
+    ...requirements,
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a policy (e.g. one loaded from JSON).
+ *
+ * @param policy - The policy to validate
+ * @throws ZkIdValidationError if the policy is malformed
+ */
+export function validatePolicy(policy: VerificationPolicy): void {
+  if (!policy || typeof policy.id !== 'string' || policy.id.length === 0) {
+    throw new ZkIdValidationError('Policy id must be a non-empty string', 'id');
+  }
+  validateRule(policy.rule, 'rule');
+}
+
+function validateRule(rule: PolicyRule, path: string): void {
+  if (!rule || typeof rule !== 'object') {
+    throw new ZkIdValidationError(`${path} must be a policy rule`, path);
+  }
+  if (rule.id !== undefined && typeof rule.id !== 'string') {
+    throw new ZkIdValidationError(`${path}.id must be a string`, path);
+  }
+  switch (rule.type) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(rule.rules) || rule.rules.length === 0) {
+        throw new ZkIdValidationError(`${path}.rules must be a non-empty array`, path);
+      }
+      rule.rules.forEach((child, i) => validateRule(child, `${path}.rules[${i}]`));
+      return;
+    case 'age':
+      validateMinAge(rule.minAge);
+      return;
+    case 'nationality':
+      if ((rule.in === undefined) === (rule.notIn === undefined)) {
+        throw new ZkIdValidationError(
+          `${path} must have exactly one of 'in' or 'notIn'`,
+          `${path}.in`,
+        );
+      }
+      resolveCodes(rule.in ?? rule.notIn!, path).forEach((code) => validateNationality(code));
+      return;
+    case 'issuer':
+      for (const key of ['issuers', 'jurisdictions'] as const) {
+        const values = rule[key];
+        if (
+          values !== undefined &&
+          (!Array.isArray(values) ||
+            values.length === 0 ||
+            values.some((v) => typeof v !== 'string'))
+        ) {
+          throw new ZkIdValidationError(
+            `${path}.${key} must be a non-empty array of strings`,
+            `${path}.${key}`,
+          );
+        }
+      }
+      return;
+    case 'freshness':
+      if (rule.maxProofAgeMs === undefined && rule.maxCredentialAgeMs === undefined) {
+        throw new ZkIdValidationError(
+          `${path} must set maxProofAgeMs or maxCredentialAgeMs`,
+          `${path}.maxProofAgeMs`,
+        );
+      }
+      for (const key of ['maxProofAgeMs', 'maxCredentialAgeMs'] as const) {
+        const value = rule[key];
+        if (value !== undefined && (!Number.isSafeInteger(value) || value <= 0)) {
+          throw new ZkIdValidationError(
+            `${path}.${key} must be a positive integer`,
+            `${path}.${key}`,
+          );
+        }
+      }
+      return;
+    default:
+      throw new ZkIdValidationError(
+        `${path} has unknown rule type: ${(rule as { type?: unknown }).type}`,
+        `${path}.type`,
+      );
+  }
+}
+
+function resolveCodes(codes: PolicyNationalityCodes, path: string): number[] {
+  if (typeof codes === 'string') {
+    const named = NAMED_NATIONALITY_SETS[codes];
+    if (!named) {
+      throw new ZkIdValidationError(`Unknown nationality set: ${codes}`, path);
+    }
+    return named;
+  }
+  if (!Array.isArray(codes) || codes.length === 0) {
+    throw new ZkIdValidationError(`${path} nationality codes must be a non-empty array`, path);
+  }
+  return codes;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate a policy against verified facts.
+ *
+ * Only claims with `verified: true` count towards a rule.
+ *
+ * @param policy - The policy to evaluate
+ * @param context - Verified claims, issuer and timestamps
+ * @returns Overall and per-rule results
+ */
+export function evaluatePolicy(
+  policy: VerificationPolicy,
+  context: PolicyContext,
+): PolicyEvaluationResult {
+  const nowMs = context.nowMs ?? Date.now();
+  const result = evaluateRule(policy.rule, context, nowMs);
+  return { policyId: policy.id, satisfied: result.satisfied, result };
+}
+
+function evaluateRule(rule: PolicyRule, context: PolicyContext, nowMs: number): PolicyRuleResult {
+  const name = rule.id ?? describeRule(rule);
+  const verified = context.claims.filter((claim) => claim.verified);
+
+  switch (rule.type) {
+    case 'all':
+    case 'any': {
+      const results = rule.rules.map((child) => evaluateRule(child, context, nowMs));
+      const satisfied =
+        rule.type === 'all' ? results.every((r) => r.satisfied) : results.some((r) => r.satisfied);
+      return {
+        rule: name,
+        satisfied,
+        ...(satisfied
+          ? {}
+          : {
+              reason:
+                rule.type === 'all'
+                  ? 'Not all rules are satisfied'
+                  : 'None of the rules is satisfied',
+            }),
+        results,
+      };
+    }
+    case 'age': {
+      const matched = verified.filter(
+        (claim) =>
+          (claim.claimType === 'age' || claim.claimType === 'age-revocable') &&
+          claim.minAge !== undefined &&
+          claim.minAge >= rule.minAge,
+      );
+      return leafResult(name, matched, `No verified age claim for minAge >= ${rule.minAge}`);
+    }
+    case 'nationality': {
+      const matched = verified.filter((claim) => nationalityClaimMatches(claim, rule));
+      return leafResult(name, matched, `No verified nationality claim for ${describeRule(rule)}`);
+    }
+    case 'issuer': {
+      const issuer = context.issuer;
+      let reason: string | undefined;
+      if (!issuer) {
+        reason = 'No verified signed credential';
+      } else if (rule.issuers && !rule.issuers.includes(issuer.issuer)) {
+        reason = `Issuer ${issuer.issuer} is not accepted`;
+      } else if (
+        rule.jurisdictions &&
+        (!issuer.jurisdiction || !rule.jurisdictions.includes(issuer.jurisdiction))
+      ) {
+        reason = `Issuer jurisdiction ${issuer.jurisdiction ?? 'unknown'} is not accepted`;
+      }
+      return reason ? { rule: name, satisfied: false, reason } : { rule: name, satisfied: true };
+    }
+    case 'freshness': {
+      let reason: string | undefined;
+      if (rule.maxProofAgeMs !== undefined) {
+        const requestMs = context.requestTimestamp ? Date.parse(context.requestTimestamp) : NaN;
+        if (Number.isNaN(requestMs) || nowMs - requestMs > rule.maxProofAgeMs) {
+          reason = 'Proof is too old';
+        }
+      }
+      if (!reason && rule.maxCredentialAgeMs !== undefined) {
+        const issuedMs = context.issuer?.issuedAt ? Date.parse(context.issuer.issuedAt) : NaN;
+        if (Number.isNaN(issuedMs) || nowMs - issuedMs > rule.maxCredentialAgeMs) {
+          reason = 'Credential is too old';
+        }
+      }
+      return reason ? { rule: name, satisfied: false, reason } : { rule: name, satisfied: true };
+    }
+  }
+}
+
+function leafResult(name: string, matched: PolicyClaimFact[], reason: string): PolicyRuleResult {
+  return matched.length > 0
+    ? { rule: name, satisfied: true, matchedClaims: matched.map((claim) => claim.label) }
+    : { rule: name, satisfied: false, reason };
+}
+
+function nationalityClaimMatches(claim: PolicyClaimFact, rule: NationalityPolicyRule): boolean {
+  if (rule.in !== undefined) {
+    const allowed = new Set(resolveCodes(rule.in, 'in'));
+    if (claim.claimType === 'nationality' || claim.claimType === 'nationality-revocable') {
+      return claim.targetNationality !== undefined && allowed.has(claim.targetNationality);
+    }
+    if (claim.claimType === 'nationality-set' && claim.nationalitySet?.mode === 'allow') {
+      const codes = claim.nationalitySet.codes.filter((code) => code !== 0);
+      return codes.length > 0 && codes.every((code) => allowed.has(code));
+    }
+    return false;
+  }
+  if (claim.claimType === 'nationality-set' && claim.nationalitySet?.mode === 'deny') {
+    const denied = new Set(claim.nationalitySet.codes);
+    return resolveCodes(rule.notIn!, 'notIn').every((code) => denied.has(code));
+  }
+  return false;
+}
+
+function describeRule(rule: PolicyRule): string {
+  switch (rule.type) {
+    case 'all':
+    case 'any':
+      return rule.type;
+    case 'age':
+      return `age >= ${rule.minAge}`;
+    case 'nationality': {
+      const codes = rule.in ?? rule.notIn!;
+      const list = typeof codes === 'string' ? codes : `[${codes.join(', ')}]`;
+      return `nationality ${rule.in !== undefined ? 'in' : 'not in'} ${list}`;
+    }
+    case 'issuer':
+      return 'issuer';
+    case 'freshness':
+      return 'freshness';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * List the claims a holder can prove towards a policy, one per distinct age or
+ * nationality rule. For `any` rules the holder only proves the claims it can.
+ *
+ * @param policy - The policy to request
+ * @returns Claim specifications (labels are rule ids or generated)
+ */
+export function policyClaims(policy: VerificationPolicy): ClaimSpec[] {
+  validatePolicy(policy);
+  const claims = new Map<string, ClaimSpec>();
+  const visit = (rule: PolicyRule): void => {
+    if (rule.type === 'all' || rule.type === 'any') {
+      rule.rules.forEach(visit);
+    } else if (rule.type === 'age') {
+      const label = rule.id ?? `age-${rule.minAge}`;
+      claims.set(label, { label, claimType: 'age', minAge: rule.minAge });
+    } else if (rule.type === 'nationality') {
+      const mode = rule.in !== undefined ? 'allow' : 'deny';
+      const source = rule.in ?? rule.notIn!;
+      const codes = resolveCodes(source, 'codes');
+      const name = typeof source === 'string' ? source : codes.join('-');
+      const label = rule.id ?? `nationality-${mode === 'allow' ? 'in' : 'not-in'}-${name}`;
+      if (mode === 'allow' && codes.length === 1) {
+        claims.set(label, { label, claimType: 'nationality', targetNationality: codes[0] });
+      } else {
+        if (codes.length > NATIONALITY_SET_SIZE) {
+          throw new ZkIdValidationError(
+            `Nationality rule ${label} has more than ${NATIONALITY_SET_SIZE} codes`,
+            'codes',
+          );
+        }
+        claims.set(label, {
+          label,
+          claimType: 'nationality-set',
+          nationalitySet: createNationalitySet(mode, codes),
+        });
+      }
+    }
+  };
+  visit(policy.rule);
+  return [...claims.values()];
+}
+
+/**
+ * Create a multi-claim request for a policy.
+ *
+ * @param policy - The policy to request
+ * @param nonce - Nonce for replay protection
+ * @returns Multi-claim request covering every claim rule in the policy
+ * @throws ZkIdValidationError if the policy contains no age or nationality rules
+ */
+export function createPolicyRequest(policy: VerificationPolicy, nonce: string): MultiClaimRequest {
+  return createMultiClaimRequest(policyClaims(policy), nonce);
+}
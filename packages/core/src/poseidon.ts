@@ -63,6 +63,14 @@ export const DOMAIN_MERKLE = 2n;
 /** Domain tag for scope hashes: Poseidon(3, scopeNum) */
 export const DOMAIN_SCOPE = 3n;
 
+// Tag 4 is reserved for aggregated proof commitments.
+
+/** Domain tag for v2 (expiring) credential commitments: Poseidon(5, birthYear, nationality, salt, expiryEpoch) */
+export const DOMAIN_CREDENTIAL_V2 = 5n;
+
+/** Domain tag for schema v2 (slotted) credential commitments: Poseidon(6, schemaHash, slot[0..7], salt) */
+export const DOMAIN_CREDENTIAL_SLOTS = 6n;
+
 /**
  * Compute Poseidon hash with domain separation.
  *
@@ -4,9 +4,9 @@
  * Supports arbitrary field comparisons: ==, !=, >, <, >=, <=, and range checks
  */
 
-import { poseidonHash } from './poseidon';
+import { poseidonHashDomain, DOMAIN_CREDENTIAL } from './poseidon';
 import { groth16 } from 'snarkjs';
-import type { Credential } from './types';
+import type { Credential, RangeFieldName, VerificationKey } from './types';
 
 /**
  * Predicate type enumeration
@@ -29,6 +29,14 @@ export enum FieldSelector {
   NATIONALITY = 1,
 }
 
+/**
+ * Range proof field names and the circuit field selector each maps to
+ */
+export const RANGE_FIELD_SELECTORS: Record<RangeFieldName, FieldSelector> = {
+  birthYear: FieldSelector.BIRTH_YEAR,
+  nationality: FieldSelector.NATIONALITY,
+};
+
 /**
  * Predicate specification
  */
@@ -49,6 +57,8 @@ export interface PredicateSpec {
 export interface PredicateProof {
   /** Proof type identifier */
   type: 'PredicateProof';
+  /** Proof type discriminator shared with the other ZkProof variants */
+  proofType: 'predicate';
   /** Predicate specification */
   predicate: PredicateSpec;
   /** Public signals */
@@ -104,8 +114,8 @@ export async function generatePredicateProof(
     throw new Error('maxValue is required for RANGE predicate');
   }
 
-  // Compute credential commitment
-  const commitment = await poseidonHash([
+  // Compute credential commitment (same domain-separated hash as the circuit)
+  const commitment = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
     BigInt(credential.birthYear),
     BigInt(credential.nationality),
     BigInt('0x' + credential.salt),
@@ -131,18 +141,21 @@ export async function generatePredicateProof(
   // Generate proof
   const { proof, publicSignals } = await groth16.fullProve(input, wasmPath, zkeyPath);
 
+  // snarkjs lists circuit outputs before public inputs:
+  // [satisfied, credentialCommitment, predicateType, targetValue, rangeMax, fieldSelector, nonce, timestamp]
   return {
     type: 'PredicateProof',
+    proofType: 'predicate',
     predicate: predicateSpec,
     publicSignals: {
-      credentialCommitment: publicSignals[0],
-      predicateType: parseInt(publicSignals[1]),
-      targetValue: parseInt(publicSignals[2]),
-      rangeMax: parseInt(publicSignals[3]),
-      fieldSelector: parseInt(publicSignals[4]),
-      nonce: publicSignals[5],
-      timestamp: parseInt(publicSignals[6]),
-      satisfied: parseInt(publicSignals[7]),
+      satisfied: parseInt(publicSignals[0]),
+      credentialCommitment: publicSignals[1],
+      predicateType: parseInt(publicSignals[2]),
+      targetValue: parseInt(publicSignals[3]),
+      rangeMax: parseInt(publicSignals[4]),
+      fieldSelector: parseInt(publicSignals[5]),
+      nonce: publicSignals[6],
+      timestamp: parseInt(publicSignals[7]),
     },
     proof: {
       pi_a: proof.pi_a.slice(0, 2),
@@ -158,12 +171,12 @@ export async function generatePredicateProof(
  * Verify a generic predicate proof
  *
  * @param proof - Predicate proof to verify
- * @param vkeyPath - Path to verification key
+ * @param verificationKey - Verification key, or a path to its JSON file
  * @returns True if proof is valid
  */
 export async function verifyPredicateProof(
   proof: PredicateProof,
-  vkeyPath: string,
+  verificationKey: VerificationKey | string,
 ): Promise<boolean> {
   // Validate that predicate was satisfied
   if (proof.publicSignals.satisfied !== 1) {
@@ -192,6 +205,7 @@ export async function verifyPredicateProof(
 
   // Reconstruct public signals array
   const publicSignals = [
+    proof.publicSignals.satisfied.toString(),
     proof.publicSignals.credentialCommitment,
     proof.publicSignals.predicateType.toString(),
     proof.publicSignals.targetValue.toString(),
@@ -199,7 +213,6 @@ export async function verifyPredicateProof(
     proof.publicSignals.fieldSelector.toString(),
     proof.publicSignals.nonce,
     proof.publicSignals.timestamp.toString(),
-    proof.publicSignals.satisfied.toString(),
   ];
 
   // Reconstruct proof object
@@ -216,13 +229,78 @@ export async function verifyPredicateProof(
   };
 
   // Load verification key
-  const fs = await import('fs');
-  const vkey = JSON.parse(fs.readFileSync(vkeyPath, 'utf-8'));
+  let vkey: VerificationKey;
+  if (typeof verificationKey === 'string') {
+    const fs = await import('fs');
+    vkey = JSON.parse(fs.readFileSync(verificationKey, 'utf-8'));
+  } else {
+    vkey = verificationKey;
+  }
 
   // Verify proof
   return await groth16.verify(vkey, publicSignals, proofObj);
 }
 
+/**
+ * Structural checks on a predicate proof before cryptographic verification
+ *
+ * @param proof - Predicate proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validatePredicateProofConstraints(proof: PredicateProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { predicate, publicSignals } = proof;
+
+  if (!Object.values(FieldSelector).includes(predicate.field)) {
+    errors.push('Invalid predicate field');
+  }
+  if (!Object.values(PredicateType).includes(predicate.type)) {
+    errors.push('Invalid predicate type');
+  }
+  if (!Number.isInteger(predicate.value) || predicate.value < 0) {
+    errors.push('Invalid predicate target value');
+  }
+  if (predicate.type === PredicateType.RANGE) {
+    if (!Number.isInteger(predicate.maxValue) || (predicate.maxValue as number) < predicate.value) {
+      errors.push('Invalid predicate range bounds');
+    }
+  }
+  if (
+    publicSignals.fieldSelector !== predicate.field ||
+    publicSignals.predicateType !== predicate.type ||
+    publicSignals.targetValue !== predicate.value ||
+    (predicate.type === PredicateType.RANGE && publicSignals.rangeMax !== predicate.maxValue)
+  ) {
+    errors.push('Predicate does not match public signals');
+  }
+  if (publicSignals.satisfied !== 1) {
+    errors.push('Predicate not satisfied');
+  }
+  if (!publicSignals.credentialCommitment || publicSignals.credentialCommitment === '0') {
+    errors.push('Missing or invalid credential commitment');
+  } else {
+    try {
+      BigInt(publicSignals.credentialCommitment);
+    } catch {
+      errors.push('Missing or invalid credential commitment');
+    }
+  }
+  if (!publicSignals.nonce) {
+    errors.push('Missing nonce');
+  }
+  if (!Number.isInteger(publicSignals.timestamp) || publicSignals.timestamp <= 0) {
+    errors.push('Invalid request timestamp');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Helper: Create age range predicate (minAge <= age <= maxAge)
  *
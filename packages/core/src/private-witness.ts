@@ -0,0 +1,196 @@
+/**
+ * Private Merkle witness retrieval.
+ *
+ * Fetching `/witness?commitment=...` tells the server exactly which
+ * credential is about to be presented. Instead, a wallet downloads:
+ *
+ * 1. A signed tree frontier: every subtree root at a fixed level.
+ * 2. A witness bucket: every active leaf whose commitment shares the low
+ *    `prefixBits` bits with its own, each with siblings up to the frontier.
+ *
+ * The server only learns the prefix, which is shared by roughly
+ * `size / 2^prefixBits` credentials. The wallet then rebuilds its full
+ * path locally and checks it against the signed root.
+ */
+
+import { KeyObject, sign, verify } from 'crypto';
+import { poseidonHashDomain, DOMAIN_MERKLE } from './poseidon';
+import { RevocationWitness, SignedTreeFrontier, TreeFrontier, WitnessBucket } from './types';
+import { ZkIdProofError, ZkIdValidationError } from './errors';
+
+/** Maximum commitment prefix length for witness bucket queries */
+export const MAX_WITNESS_PREFIX_BITS = 16;
+
+/**
+ * Bucket prefix of a commitment: its low `prefixBits` bits.
+ *
+ * @param commitment - Credential commitment (decimal or hex string)
+ * @param prefixBits - Prefix length in bits (0..MAX_WITNESS_PREFIX_BITS)
+ */
+export function witnessBucketPrefix(commitment: string, prefixBits: number): number {
+  validateWitnessBucketQuery(0, prefixBits);
+  let value: bigint;
+  try {
+    value = BigInt(commitment);
+  } catch {
+    throw new ZkIdValidationError('Invalid commitment format', 'commitment');
+  }
+  return Number(value & ((1n << BigInt(prefixBits)) - 1n));
+}
+
+/**
+ * Validate witness bucket query parameters.
+ *
+ * @throws ZkIdValidationError if the prefix or prefix length is out of range
+ */
+export function validateWitnessBucketQuery(prefix: number, prefixBits: number): void {
+  if (!Number.isInteger(prefixBits) || prefixBits < 0 || prefixBits > MAX_WITNESS_PREFIX_BITS) {
+    throw new ZkIdValidationError(
+      `prefixBits must be an integer between 0 and ${MAX_WITNESS_PREFIX_BITS}`,
+      'prefixBits',
+    );
+  }
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix >= 2 ** prefixBits) {
+    throw new ZkIdValidationError('prefix must fit in prefixBits', 'prefix');
+  }
+}
+
+/**
+ * Canonical payload used for tree frontier signatures.
+ * Keep this stable across issuer and wallet implementations.
+ */
+export function treeFrontierSignaturePayload(frontier: TreeFrontier, issuer: string): string {
+  return JSON.stringify({
+    issuer,
+    depth: frontier.depth,
+    level: frontier.level,
+    root: frontier.root,
+    version: frontier.version,
+    updatedAt: frontier.updatedAt,
+    expiresAt: frontier.expiresAt,
+    nodes: frontier.nodes,
+  });
+}
+
+/**
+ * Sign a tree frontier with the issuer's Ed25519 private key.
+ */
+export function signTreeFrontier(
+  frontier: TreeFrontier,
+  issuer: string,
+  privateKey: KeyObject,
+): SignedTreeFrontier {
+  const payload = treeFrontierSignaturePayload(frontier, issuer);
+  const signature = sign(null, Buffer.from(payload), privateKey).toString('base64');
+  return { frontier, issuer, signature };
+}
+
+/**
+ * Verify a signed tree frontier against the issuer's Ed25519 public key.
+ */
+export function verifyTreeFrontierSignature(
+  signed: SignedTreeFrontier,
+  publicKey: KeyObject,
+): boolean {
+  try {
+    const payload = treeFrontierSignaturePayload(signed.frontier, signed.issuer);
+    const signature = Buffer.from(signed.signature, 'base64');
+    return verify(null, Buffer.from(payload), publicKey, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rebuild a full Merkle witness for a commitment from a witness bucket and
+ * a tree frontier (whose signature the caller has already checked).
+ *
+ * Hashes the leaf up to the frontier through the bucket siblings, then up to
+ * the root through the frontier nodes, and rejects any mismatch.
+ *
+ * @throws ZkIdProofError if the commitment is not in the bucket or the
+ *         bucket and frontier are inconsistent
+ */
+export async function rebuildWitnessFromFrontier(
+  commitment: string,
+  bucket: WitnessBucket,
+  frontier: TreeFrontier,
+): Promise<RevocationWitness> {
+  const { depth, level, nodes } = frontier;
+  if (
+    bucket.root !== frontier.root ||
+    bucket.version !== frontier.version ||
+    bucket.level !== level
+  ) {
+    throw new ZkIdProofError(
+      'Witness bucket does not match tree frontier',
+      'WITNESS_FRONTIER_MISMATCH',
+    );
+  }
+  if (
+    !Number.isInteger(level) ||
+    level < 0 ||
+    level > depth ||
+    nodes.length !== 2 ** (depth - level)
+  ) {
+    throw new ZkIdProofError('Invalid tree frontier', 'INVALID_TREE_FRONTIER');
+  }
+
+  let leaf: bigint;
+  try {
+    leaf = BigInt(commitment);
+  } catch {
+    throw new ZkIdValidationError('Invalid commitment format', 'commitment');
+  }
+  const entry = bucket.entries.find((candidate) => BigInt(candidate.commitment) === leaf);
+  if (!entry) {
+    throw new ZkIdProofError('Credential not found in witness bucket', 'WITNESS_NOT_FOUND');
+  }
+  if (
+    !Number.isInteger(entry.index) ||
+    entry.index < 0 ||
+    entry.index >= 2 ** depth ||
+    entry.siblings.length !== level
+  ) {
+    throw new ZkIdProofError('Invalid witness bucket entry', 'INVALID_WITNESS_BUCKET');
+  }
+
+  const siblings: string[] = [];
+  const pathIndices: number[] = [];
+  let cursor = entry.index;
+  let node = leaf;
+
+  for (let i = 0; i < level; i++) {
+    const sibling = BigInt(entry.siblings[i]);
+    const isRight = cursor % 2;
+    node = await poseidonHashDomain(DOMAIN_MERKLE, isRight ? [sibling, node] : [node, sibling]);
+    siblings.push(sibling.toString());
+    pathIndices.push(isRight);
+    cursor = Math.floor(cursor / 2);
+  }
+
+  if (node !== BigInt(nodes[cursor])) {
+    throw new ZkIdProofError(
+      'Witness bucket entry does not match tree frontier',
+      'WITNESS_FRONTIER_MISMATCH',
+    );
+  }
+
+  let layer = nodes.map((value) => BigInt(value));
+  for (let i = level; i < depth; i++) {
+    siblings.push(layer[cursor ^ 1].toString());
+    pathIndices.push(cursor % 2);
+    const next: bigint[] = [];
+    for (let j = 0; j < layer.length; j += 2) {
+      next.push(await poseidonHashDomain(DOMAIN_MERKLE, [layer[j], layer[j + 1]]));
+    }
+    layer = next;
+    cursor = Math.floor(cursor / 2);
+  }
+
+  if (layer[0].toString() !== frontier.root) {
+    throw new ZkIdProofError('Tree frontier does not hash to its root', 'INVALID_TREE_FRONTIER');
+  }
+
+  return { root: frontier.root, pathIndices, siblings };
+}
@@ -4,13 +4,29 @@ import {
   AgeProof,
   NationalityProof,
   AgeProofSigned,
+  AgeProofSignedExpiring,
   NationalityProofSigned,
   AgeProofRevocable,
+  NationalityProofRevocable,
+  AgeProofUnlinkable,
+  NationalityProofUnlinkable,
+  AgeProofFull,
   CircuitSignatureInputs,
   RevocationWitness,
   NullifierProof,
+  NationalitySetProof,
+  RangeFieldName,
+  RangeProof,
+  SlottedCredential,
+  SlotPredicateProof,
 } from './types';
-import { poseidonHash, poseidonHashDomain, DOMAIN_CREDENTIAL, DOMAIN_NULLIFIER } from './poseidon';
+import { NationalitySet, padNationalitySet, validateNationalitySet } from './nationality-set';
+import {
+  poseidonHashDomain,
+  DOMAIN_CREDENTIAL,
+  DOMAIN_CREDENTIAL_V2,
+  DOMAIN_NULLIFIER,
+} from './poseidon';
 import {
   validateMinAge,
   validateNonce,
@@ -19,7 +35,31 @@ import {
   validateHexString,
   validateBigIntString,
   validateFieldElement,
+  validateExpiryEpoch,
 } from './validation';
+import { isCredentialExpired, validateSlottedCredential } from './credential';
+import {
+  CREDENTIAL_SCHEMA_REGISTRY,
+  CredentialSchema,
+  CredentialSchemaRegistry,
+  MAX_SLOT_VALUE,
+  getSlotIndex,
+} from './credential-schema';
+import { PredicateType, RANGE_FIELD_SELECTORS } from './predicate-proof';
+import { ZkIdCredentialError, ZkIdValidationError } from './errors';
+
+/**
+ * Rejects v2 (expiring) credentials in v1 signed circuits: the issuer signed the
+ * v2 commitment, so a v1 proof could never verify and would only waste proving time.
+ */
+function assertV1Credential(credential: Credential, expiringAlternative: string): void {
+  if (credential.expiryEpoch !== undefined) {
+    throw new ZkIdValidationError(
+      `Credential has an expiry epoch (v2 commitment); use ${expiringAlternative}`,
+      'credential.expiryEpoch',
+    );
+  }
+}
 
 /**
  * Generates a zero-knowledge proof that the credential holder is at least minAge years old
@@ -236,6 +276,7 @@ export async function generateAgeProofSigned(
   validateNonce(nonce);
   validateRequestTimestamp(requestTimestampMs);
   validateHexString(credential.salt, 'credential.salt');
+  assertV1Credential(credential, 'generateAgeProofSignedExpiring');
 
   const currentYear = new Date().getFullYear();
 
@@ -317,6 +358,135 @@ export async function generateAgeProofSignedAuto(
   );
 }
 
+/**
+ * Generates a signed age proof over a v2 (expiring) credential
+ *
+ * The circuit proves currentTimestamp < expiryEpoch in addition to the
+ * age-verify-signed checks. currentTimestamp is derived from the request
+ * timestamp (Unix seconds) so the verifier can bind it to the challenge.
+ *
+ * @param credential - The user's credential (private); must have an expiryEpoch
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param signatureInputs - Issuer signature components for circuit verification
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns An AgeProofSignedExpiring with embedded issuer public key bits
+ */
+export async function generateAgeProofSignedExpiring(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  signatureInputs: CircuitSignatureInputs,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<AgeProofSignedExpiring> {
+  validateMinAge(minAge);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
+  if (credential.expiryEpoch === undefined) {
+    throw new ZkIdValidationError(
+      'credential.expiryEpoch is required for expiring proofs',
+      'credential.expiryEpoch',
+    );
+  }
+  validateExpiryEpoch(credential.expiryEpoch);
+  // The circuit would fail anyway; fail fast with a clear error instead
+  if (isCredentialExpired(credential, requestTimestampMs)) {
+    throw new ZkIdCredentialError(
+      `Credential expired at ${new Date(credential.expiryEpoch * 1000).toISOString()}`,
+      'CREDENTIAL_EXPIRED',
+    );
+  }
+
+  const currentYear = new Date().getFullYear();
+  const currentTimestamp = Math.floor(requestTimestampMs / 1000);
+
+  const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL_V2, [
+    credential.birthYear,
+    credential.nationality,
+    BigInt('0x' + credential.salt),
+    credential.expiryEpoch,
+  ]);
+
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    expiryEpoch: credential.expiryEpoch,
+    currentYear: currentYear,
+    minAge: minAge,
+    credentialHash: credentialHash.toString(),
+    currentTimestamp: currentTimestamp,
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+    issuerPublicKey: signatureInputs.issuerPublicKey,
+    signatureR8: signatureInputs.signatureR8,
+    signatureS: signatureInputs.signatureS,
+  };
+
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Public signal index mapping: [0]=currentYear, [1]=minAge, [2]=credentialHash,
+  // [3]=currentTimestamp, [4]=nonce, [5]=requestTimestamp, [6..261]=issuerPublicKey
+  const formattedProof: AgeProofSignedExpiring = {
+    proofType: 'age-signed-expiring',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      currentYear: parseInt(publicSignals[0], 10),
+      minAge: parseInt(publicSignals[1], 10),
+      credentialHash: publicSignals[2],
+      currentTimestamp: parseInt(publicSignals[3], 10),
+      nonce: publicSignals[4],
+      requestTimestamp: parseInt(publicSignals[5], 10),
+      issuerPublicKey: publicSignals.slice(6, 6 + 256),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates a signed age proof over a v2 (expiring) credential using default circuit paths
+ *
+ * @param credential - The user's credential (private); must have an expiryEpoch
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param signatureInputs - Issuer signature components for circuit verification
+ * @returns An AgeProofSignedExpiring with embedded issuer public key bits
+ */
+export async function generateAgeProofSignedExpiringAuto(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  signatureInputs: CircuitSignatureInputs,
+): Promise<AgeProofSignedExpiring> {
+  const wasmPath =
+    require.resolve('@zk-id/circuits/build/age-verify-signed-expiring_js/age-verify-signed-expiring.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/age-verify-signed-expiring.zkey');
+
+  return generateAgeProofSignedExpiring(
+    credential,
+    minAge,
+    nonce,
+    requestTimestampMs,
+    signatureInputs,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
 /**
  * Generates nationality proof with on-circuit issuer signature verification
  *
@@ -342,6 +512,7 @@ export async function generateNationalityProofSigned(
   validateNonce(nonce);
   validateRequestTimestamp(requestTimestampMs);
   validateHexString(credential.salt, 'credential.salt');
+  assertV1Credential(credential, 'an expiry-aware circuit');
 
   const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
     credential.birthYear,
@@ -419,6 +590,259 @@ export async function generateNationalityProofSignedAuto(
   );
 }
 
+/**
+ * Generates a zero-knowledge proof that the credential holder's nationality is
+ * in (allow) or not in (deny) a public set, without revealing which member matched
+ *
+ * @param credential - The user's credential (private)
+ * @param nationalitySet - The allow-list or deny-list to prove against (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns A NationalitySetProof that can be verified without revealing the nationality
+ */
+export async function generateNationalitySetProof(
+  credential: Credential,
+  nationalitySet: NationalitySet,
+  nonce: string,
+  requestTimestampMs: number,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<NationalitySetProof> {
+  validateNationalitySet(nationalitySet);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
+
+  // Recompute the credential hash to use as a public signal
+  const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
+    credential.birthYear,
+    credential.nationality,
+    BigInt('0x' + credential.salt),
+  ]);
+
+  const paddedSet = padNationalitySet(nationalitySet.codes);
+
+  // Prepare circuit inputs
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    nationalitySet: paddedSet,
+    isDenyList: nationalitySet.mode === 'deny' ? 1 : 0,
+    credentialHash: credentialHash.toString(),
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+  };
+
+  // Generate the proof using snarkjs
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Public signals: [nationalitySet[0..N-1], isDenyList, credentialHash, nonce, requestTimestamp]
+  const n = paddedSet.length;
+  const formattedProof: NationalitySetProof = {
+    proofType: 'nationality-set',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      nationalitySet: publicSignals.slice(0, n).map((x: string) => parseInt(x, 10)),
+      isDenyList: parseInt(publicSignals[n], 10),
+      credentialHash: publicSignals[n + 1],
+      nonce: publicSignals[n + 2],
+      requestTimestamp: parseInt(publicSignals[n + 3], 10),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates nationality set proof with automatic path resolution
+ * (assumes standard build directory structure)
+ *
+ * @param credential - The user's credential (private)
+ * @param nationalitySet - The allow-list or deny-list to prove against (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @returns A NationalitySetProof that can be verified without revealing the nationality
+ */
+export async function generateNationalitySetProofAuto(
+  credential: Credential,
+  nationalitySet: NationalitySet,
+  nonce: string,
+  requestTimestampMs: number,
+): Promise<NationalitySetProof> {
+  const wasmPath =
+    require.resolve('@zk-id/circuits/build/nationality-set-verify_js/nationality-set-verify.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/nationality-set-verify.zkey');
+
+  return generateNationalitySetProof(
+    credential,
+    nationalitySet,
+    nonce,
+    requestTimestampMs,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
+/**
+ * Predicate over a named slot of a schema v2 credential
+ */
+export interface SlotPredicateSpec {
+  /** Slot name in the credential's schema (e.g., 'documentType') */
+  slot: string;
+  /** Type of predicate */
+  type: PredicateType;
+  /** Target value (or minimum for range) */
+  value: number;
+  /** Maximum value (only for RANGE predicate) */
+  maxValue?: number;
+}
+
+/**
+ * Generates a zero-knowledge proof that one attribute slot of a schema v2
+ * credential satisfies a predicate, without revealing any slot value
+ *
+ * @param credential - The user's slotted credential (private)
+ * @param predicate - The slot and predicate to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @param registry - Schema registry to resolve the slot (defaults to the global registry)
+ * @returns A SlotPredicateProof that can be verified without revealing the slots
+ */
+export async function generateSlotPredicateProof(
+  credential: SlottedCredential,
+  predicate: SlotPredicateSpec,
+  nonce: string,
+  requestTimestampMs: number,
+  wasmPath: string,
+  zkeyPath: string,
+  registry: CredentialSchemaRegistry = CREDENTIAL_SCHEMA_REGISTRY,
+): Promise<SlotPredicateProof> {
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  if (!validateSlottedCredential(credential, registry)) {
+    throw new ZkIdCredentialError('Invalid slotted credential', 'INVALID_CREDENTIAL');
+  }
+  if (!Object.values(PredicateType).includes(predicate.type)) {
+    throw new ZkIdValidationError('Invalid predicate type', 'predicate.type');
+  }
+  if (
+    !Number.isInteger(predicate.value) ||
+    predicate.value < 0 ||
+    predicate.value > MAX_SLOT_VALUE
+  ) {
+    throw new ZkIdValidationError(
+      `predicate.value must be an integer between 0 and ${MAX_SLOT_VALUE}`,
+      'predicate.value',
+    );
+  }
+  let rangeMax = 0;
+  if (predicate.type === PredicateType.RANGE) {
+    if (
+      predicate.maxValue === undefined ||
+      !Number.isInteger(predicate.maxValue) ||
+      predicate.maxValue < predicate.value ||
+      predicate.maxValue > MAX_SLOT_VALUE
+    ) {
+      throw new ZkIdValidationError(
+        'predicate.maxValue is required for RANGE and must be >= predicate.value',
+        'predicate.maxValue',
+      );
+    }
+    rangeMax = predicate.maxValue;
+  }
+
+  // validateSlottedCredential guarantees the schema is registered
+  const slotIndex = getSlotIndex(
+    registry.get(credential.schemaId) as CredentialSchema,
+    predicate.slot,
+  );
+
+  // Prepare circuit inputs
+  const input = {
+    slots: credential.slots,
+    salt: BigInt('0x' + credential.salt).toString(),
+    schemaHash: credential.schemaHash,
+    credentialHash: credential.commitment,
+    slotIndex,
+    predicateType: predicate.type,
+    targetValue: predicate.value,
+    rangeMax,
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+  };
+
+  // Generate the proof using snarkjs
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Public signals: [schemaHash, credentialHash, slotIndex, predicateType, targetValue,
+  //                  rangeMax, nonce, requestTimestamp]
+  const formattedProof: SlotPredicateProof = {
+    proofType: 'slot-predicate',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      schemaHash: publicSignals[0],
+      credentialHash: publicSignals[1],
+      slotIndex: parseInt(publicSignals[2], 10),
+      predicateType: parseInt(publicSignals[3], 10),
+      targetValue: parseInt(publicSignals[4], 10),
+      rangeMax: parseInt(publicSignals[5], 10),
+      nonce: publicSignals[6],
+      requestTimestamp: parseInt(publicSignals[7], 10),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates slot predicate proof with automatic path resolution
+ * (assumes standard build directory structure)
+ *
+ * @param credential - The user's slotted credential (private)
+ * @param predicate - The slot and predicate to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param registry - Schema registry to resolve the slot (defaults to the global registry)
+ * @returns A SlotPredicateProof that can be verified without revealing the slots
+ */
+export async function generateSlotPredicateProofAuto(
+  credential: SlottedCredential,
+  predicate: SlotPredicateSpec,
+  nonce: string,
+  requestTimestampMs: number,
+  registry: CredentialSchemaRegistry = CREDENTIAL_SCHEMA_REGISTRY,
+): Promise<SlotPredicateProof> {
+  const wasmPath = require.resolve('@zk-id/circuits/build/slot-predicate_js/slot-predicate.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/slot-predicate.zkey');
+
+  return generateSlotPredicateProof(
+    credential,
+    predicate,
+    nonce,
+    requestTimestampMs,
+    wasmPath,
+    zkeyPath,
+    registry,
+  );
+}
+
 /**
  * Generates a zero-knowledge proof that the credential holder is at least minAge years old
  * AND that the credential is in the valid credential Merkle tree (not revoked)
@@ -531,24 +955,460 @@ export async function generateAgeProofRevocableAuto(
 }
 
 /**
- * Generates a zero-knowledge nullifier proof for sybil resistance
+ * Generates a zero-knowledge proof that the credential holder has the target nationality
+ * AND that the credential is in the valid credential Merkle tree (not revoked)
  *
  * @param credential - The user's credential (private)
- * @param scopeHash - The scope hash (public, determines the nullifier context)
+ * @param targetNationality - The nationality to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness from the valid credential tree
  * @param wasmPath - Path to the compiled circuit WASM file
  * @param zkeyPath - Path to the proving key
- * @returns A NullifierProof that proves knowledge of the credential and computes the nullifier
+ * @returns A NationalityProofRevocable that can be verified without revealing the birth year
  */
-export async function generateNullifierProof(
+export async function generateNationalityProofRevocable(
   credential: Credential,
-  scopeHash: string,
+  targetNationality: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
   wasmPath: string,
   zkeyPath: string,
-): Promise<NullifierProof> {
+): Promise<NationalityProofRevocable> {
+  validateNationality(targetNationality);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
   validateHexString(credential.salt, 'credential.salt');
-  validateBigIntString(scopeHash, 'scopeHash');
-  const scopeHashBigInt = BigInt(scopeHash);
-  validateFieldElement(scopeHashBigInt, 'scopeHash');
+
+  // Recompute the credential hash to use as a public signal
+  const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
+    credential.birthYear,
+    credential.nationality,
+    BigInt('0x' + credential.salt),
+  ]);
+
+  // Prepare circuit inputs
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    targetNationality: targetNationality,
+    credentialHash: credentialHash.toString(),
+    merkleRoot: merkleWitness.root,
+    pathIndices: merkleWitness.pathIndices,
+    siblings: merkleWitness.siblings,
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+  };
+
+  // Generate the proof using snarkjs
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Format the proof
+  // Public signal index mapping: [0]=targetNationality, [1]=credentialHash, [2]=merkleRoot, [3]=nonce, [4]=requestTimestamp
+  const formattedProof: NationalityProofRevocable = {
+    proofType: 'nationality-revocable',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      targetNationality: parseInt(publicSignals[0], 10),
+      credentialHash: publicSignals[1],
+      merkleRoot: publicSignals[2],
+      nonce: publicSignals[3],
+      requestTimestamp: parseInt(publicSignals[4], 10),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates revocable nationality proof with automatic path resolution
+ * (assumes standard build directory structure)
+ *
+ * @param credential - The user's credential (private)
+ * @param targetNationality - The nationality to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness proving credential is in the valid credential tree
+ * @returns A NationalityProofRevocable that includes Merkle root verification
+ */
+export async function generateNationalityProofRevocableAuto(
+  credential: Credential,
+  targetNationality: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+): Promise<NationalityProofRevocable> {
+  const wasmPath =
+    require.resolve('@zk-id/circuits/build/nationality-verify-revocable_js/nationality-verify-revocable.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/nationality-verify-revocable.zkey');
+
+  return generateNationalityProofRevocable(
+    credential,
+    targetNationality,
+    nonce,
+    requestTimestampMs,
+    merkleWitness,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
+/**
+ * Generates a zero-knowledge proof that the credential holder is at least minAge years old
+ * without revealing the credential commitment. The circuit proves that the hidden commitment
+ * is a leaf of the valid credential Merkle tree, which stands in for issuer attestation and
+ * non-revocation, so verifiers cannot link presentations of the same credential.
+ *
+ * @param credential - The user's credential (private)
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness from the valid credential tree
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns An AgeProofUnlinkable whose public signals carry no credential identifier
+ */
+export async function generateAgeProofUnlinkable(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<AgeProofUnlinkable> {
+  validateMinAge(minAge);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
+
+  const currentYear = new Date().getFullYear();
+
+  // Prepare circuit inputs (the credential hash is recomputed in-circuit and stays private)
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    currentYear: currentYear,
+    minAge: minAge,
+    merkleRoot: merkleWitness.root,
+    pathIndices: merkleWitness.pathIndices,
+    siblings: merkleWitness.siblings,
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+  };
+
+  // Generate the proof using snarkjs
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Format the proof
+  // Public signal index mapping: [0]=currentYear, [1]=minAge, [2]=merkleRoot, [3]=nonce, [4]=requestTimestamp
+  const formattedProof: AgeProofUnlinkable = {
+    proofType: 'age-unlinkable',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      currentYear: parseInt(publicSignals[0], 10),
+      minAge: parseInt(publicSignals[1], 10),
+      merkleRoot: publicSignals[2],
+      nonce: publicSignals[3],
+      requestTimestamp: parseInt(publicSignals[4], 10),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates unlinkable age proof with automatic path resolution
+ * (assumes standard build directory structure)
+ *
+ * @param credential - The user's credential (private)
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness proving credential is in the valid credential tree
+ * @returns An AgeProofUnlinkable whose public signals carry no credential identifier
+ */
+export async function generateAgeProofUnlinkableAuto(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+): Promise<AgeProofUnlinkable> {
+  const wasmPath =
+    require.resolve('@zk-id/circuits/build/age-verify-unlinkable_js/age-verify-unlinkable.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/age-verify-unlinkable.zkey');
+
+  return generateAgeProofUnlinkable(
+    credential,
+    minAge,
+    nonce,
+    requestTimestampMs,
+    merkleWitness,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
+/**
+ * Generates a zero-knowledge proof that the credential holder has the target nationality
+ * without revealing the credential commitment (see generateAgeProofUnlinkable)
+ *
+ * @param credential - The user's credential (private)
+ * @param targetNationality - The nationality to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness from the valid credential tree
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns A NationalityProofUnlinkable whose public signals carry no credential identifier
+ */
+export async function generateNationalityProofUnlinkable(
+  credential: Credential,
+  targetNationality: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<NationalityProofUnlinkable> {
+  validateNationality(targetNationality);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
+
+  // Prepare circuit inputs (the credential hash is recomputed in-circuit and stays private)
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    targetNationality: targetNationality,
+    merkleRoot: merkleWitness.root,
+    pathIndices: merkleWitness.pathIndices,
+    siblings: merkleWitness.siblings,
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+  };
+
+  // Generate the proof using snarkjs
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Format the proof
+  // Public signal index mapping: [0]=targetNationality, [1]=merkleRoot, [2]=nonce, [3]=requestTimestamp
+  const formattedProof: NationalityProofUnlinkable = {
+    proofType: 'nationality-unlinkable',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      targetNationality: parseInt(publicSignals[0], 10),
+      merkleRoot: publicSignals[1],
+      nonce: publicSignals[2],
+      requestTimestamp: parseInt(publicSignals[3], 10),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates unlinkable nationality proof with automatic path resolution
+ * (assumes standard build directory structure)
+ *
+ * @param credential - The user's credential (private)
+ * @param targetNationality - The nationality to prove (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness proving credential is in the valid credential tree
+ * @returns A NationalityProofUnlinkable whose public signals carry no credential identifier
+ */
+export async function generateNationalityProofUnlinkableAuto(
+  credential: Credential,
+  targetNationality: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+): Promise<NationalityProofUnlinkable> {
+  const wasmPath =
+    require.resolve('@zk-id/circuits/build/nationality-verify-unlinkable_js/nationality-verify-unlinkable.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/nationality-verify-unlinkable.zkey');
+
+  return generateNationalityProofUnlinkable(
+    credential,
+    targetNationality,
+    nonce,
+    requestTimestampMs,
+    merkleWitness,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
+/**
+ * Generates a full-assurance age proof: age >= minAge, issuer signature over the
+ * credential, membership in the valid credential tree and a scoped nullifier,
+ * all bound to a single nonce and request timestamp
+ *
+ * @param credential - The user's credential (private)
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness from the valid credential tree
+ * @param scopeHash - The nullifier scope hash (public, see createNullifierScope)
+ * @param signatureInputs - Issuer signature components for circuit verification
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns An AgeProofFull that does not reveal the birth year or credential hash
+ */
+export async function generateAgeProofFull(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+  scopeHash: string,
+  signatureInputs: CircuitSignatureInputs,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<AgeProofFull> {
+  validateMinAge(minAge);
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
+  validateBigIntString(scopeHash, 'scopeHash');
+  const scopeHashBigInt = BigInt(scopeHash);
+  validateFieldElement(scopeHashBigInt, 'scopeHash');
+
+  const currentYear = new Date().getFullYear();
+
+  const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
+    credential.birthYear,
+    credential.nationality,
+    BigInt('0x' + credential.salt),
+  ]);
+  const nullifier = await poseidonHashDomain(DOMAIN_NULLIFIER, [credentialHash, scopeHashBigInt]);
+
+  const input = {
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
+    signatureR8: signatureInputs.signatureR8,
+    signatureS: signatureInputs.signatureS,
+    pathIndices: merkleWitness.pathIndices,
+    siblings: merkleWitness.siblings,
+    currentYear: currentYear,
+    minAge: minAge,
+    merkleRoot: merkleWitness.root,
+    scopeHash: scopeHashBigInt.toString(),
+    nullifier: nullifier.toString(),
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+    issuerPublicKey: signatureInputs.issuerPublicKey,
+  };
+
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+
+  // Public signal index mapping: [0]=currentYear, [1]=minAge, [2]=merkleRoot, [3]=scopeHash,
+  // [4]=nullifier, [5]=nonce, [6]=requestTimestamp, [7..262]=issuerPublicKey
+  const formattedProof: AgeProofFull = {
+    proofType: 'age-full',
+    proof: {
+      pi_a: proof.pi_a.slice(0, 2).map((x: unknown) => String(x)),
+      pi_b: proof.pi_b.slice(0, 2).map((arr: unknown[]) => arr.map((x: unknown) => String(x))),
+      pi_c: proof.pi_c.slice(0, 2).map((x: unknown) => String(x)),
+      protocol: proof.protocol,
+      curve: proof.curve,
+    },
+    publicSignals: {
+      currentYear: parseInt(publicSignals[0], 10),
+      minAge: parseInt(publicSignals[1], 10),
+      merkleRoot: publicSignals[2],
+      scopeHash: publicSignals[3],
+      nullifier: publicSignals[4],
+      nonce: publicSignals[5],
+      requestTimestamp: parseInt(publicSignals[6], 10),
+      issuerPublicKey: publicSignals.slice(7, 7 + 256),
+    },
+  };
+
+  return formattedProof;
+}
+
+/**
+ * Generates a full-assurance age proof using default circuit paths
+ *
+ * @param credential - The user's credential (private)
+ * @param minAge - The minimum age requirement (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
+ * @param merkleWitness - Merkle witness from the valid credential tree
+ * @param scopeHash - The nullifier scope hash (public)
+ * @param signatureInputs - Issuer signature components for circuit verification
+ * @returns An AgeProofFull with embedded issuer public key bits
+ */
+export async function generateAgeProofFullAuto(
+  credential: Credential,
+  minAge: number,
+  nonce: string,
+  requestTimestampMs: number,
+  merkleWitness: RevocationWitness,
+  scopeHash: string,
+  signatureInputs: CircuitSignatureInputs,
+): Promise<AgeProofFull> {
+  const wasmPath = require.resolve('@zk-id/circuits/build/age-verify-full_js/age-verify-full.wasm');
+  const zkeyPath = require.resolve('@zk-id/circuits/build/age-verify-full.zkey');
+
+  return generateAgeProofFull(
+    credential,
+    minAge,
+    nonce,
+    requestTimestampMs,
+    merkleWitness,
+    scopeHash,
+    signatureInputs,
+    wasmPath,
+    zkeyPath,
+  );
+}
+
+/**
+ * Generates a zero-knowledge nullifier proof for sybil resistance
+ *
+ * @param credential - The user's credential (private)
+ * @param scopeHash - The scope hash (public, determines the nullifier context)
+ * @param wasmPath - Path to the compiled circuit WASM file
+ * @param zkeyPath - Path to the proving key
+ * @returns A NullifierProof that proves knowledge of the credential and computes the nullifier
+ */
+export async function generateNullifierProof(
+  credential: Credential,
+  scopeHash: string,
+  wasmPath: string,
+  zkeyPath: string,
+): Promise<NullifierProof> {
+  validateHexString(credential.salt, 'credential.salt');
+  validateBigIntString(scopeHash, 'scopeHash');
+  const scopeHashBigInt = BigInt(scopeHash);
+  validateFieldElement(scopeHashBigInt, 'scopeHash');
 
   // Compute the credential hash (commitment)
   const credentialHash = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
@@ -614,51 +1474,74 @@ export async function generateNullifierProofAuto(
 }
 
 /**
- * Generates a range proof that a value lies within [minValue, maxValue]
- * without revealing the actual value.
+ * Generates a range proof that a credential attribute lies within
+ * [minValue, maxValue] without revealing the actual value.
+ *
+ * The proof is bound to the credential commitment, so a verifier can check
+ * it against the issuer's signature like any other credential claim.
  *
- * @param value - The actual value (private)
- * @param salt - Random salt for commitment uniqueness (private)
+ * @param credential - The user's credential (private)
+ * @param fieldName - The attribute to range-check ('birthYear' or 'nationality')
  * @param minValue - Lower bound of the range (public)
  * @param maxValue - Upper bound of the range (public)
+ * @param nonce - Nonce for replay protection (public)
+ * @param requestTimestampMs - Request timestamp in milliseconds (public)
  * @param wasmPath - Path to the compiled circuit WASM file
  * @param zkeyPath - Path to the proving key
  * @returns A RangeProof that can be verified without revealing the value
  */
 export async function generateRangeProof(
-  value: number,
-  salt: bigint,
+  credential: Credential,
+  fieldName: RangeFieldName,
   minValue: number,
   maxValue: number,
+  nonce: string,
+  requestTimestampMs: number,
   wasmPath: string,
   zkeyPath: string,
-): Promise<{
-  proofType: 'range';
-  proof: { pi_a: string[]; pi_b: string[][]; pi_c: string[]; protocol: string; curve: string };
-  publicSignals: string[];
-  fieldName: string;
-}> {
-  // Validate inputs
-  if (value < 0) {
-    throw new Error('Value must be non-negative');
+): Promise<RangeProof> {
+  const fieldSelector = RANGE_FIELD_SELECTORS[fieldName];
+  if (fieldSelector === undefined) {
+    throw new ZkIdValidationError("fieldName must be 'birthYear' or 'nationality'", 'fieldName');
   }
-  if (minValue < 0 || maxValue < 0) {
-    throw new Error('Range bounds must be non-negative');
+  if (
+    !Number.isSafeInteger(minValue) ||
+    !Number.isSafeInteger(maxValue) ||
+    minValue < 0 ||
+    minValue > maxValue
+  ) {
+    throw new ZkIdValidationError(
+      'Range bounds must be integers with 0 <= minValue <= maxValue',
+      'minValue',
+    );
   }
-  if (minValue > maxValue) {
-    throw new Error('minValue must be less than or equal to maxValue');
+  const value = credential[fieldName];
+  if (value < minValue || value > maxValue) {
+    throw new ZkIdValidationError(`Credential ${fieldName} is outside the range`, fieldName);
   }
+  assertV1Credential(credential, 'an expiry-aware circuit');
+  validateNonce(nonce);
+  validateRequestTimestamp(requestTimestampMs);
+  validateHexString(credential.salt, 'credential.salt');
 
-  // Compute commitment
-  const commitment = await poseidonHash([BigInt(value), salt]);
+  // Recompute the credential commitment to use as a public signal
+  const commitment = await poseidonHashDomain(DOMAIN_CREDENTIAL, [
+    credential.birthYear,
+    credential.nationality,
+    BigInt('0x' + credential.salt),
+  ]);
 
   // Prepare circuit inputs
   const input = {
-    value: value,
-    salt: salt.toString(),
+    birthYear: credential.birthYear,
+    nationality: credential.nationality,
+    salt: BigInt('0x' + credential.salt).toString(),
     minValue: minValue,
     maxValue: maxValue,
     commitment: commitment.toString(),
+    nonce: nonce,
+    requestTimestamp: requestTimestampMs,
+    fieldSelector: fieldSelector,
   };
 
   // Generate the proof using snarkjs
@@ -675,6 +1558,6 @@ export async function generateRangeProof(
       curve: proof.curve,
     },
     publicSignals: publicSignals.map((x: unknown) => String(x)),
-    fieldName: 'value', // Default field name
+    fieldName,
   };
 }
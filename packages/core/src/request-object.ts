@@ -0,0 +1,332 @@
+/**
+ * Signed OpenID4VP request objects (JAR, RFC 9101)
+ *
+ * Verifiers that pass requests by reference (`request_uri`) or by value
+ * (`request`) send a JWT whose trust is established by the client ID scheme:
+ *
+ *   - x509_san_dns:<dns>  — signed with the leaf key of an `x5c` chain whose
+ *                            leaf has <dns> as a DNS SAN, chaining to a pinned anchor
+ *   - did:<method>:...     — signed with a key whose `kid` is a DID URL of the client ID
+ *   - redirect_uri:<uri>   — unsigned (`alg: none`); response_uri must equal <uri>
+ *
+ * Only Node's crypto module is used so the same code serves the SDK and mobile wallets.
+ */
+
+import { KeyObject, X509Certificate, createPrivateKey, createPublicKey } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+import {
+  JwsAlg,
+  base64UrlEncode,
+  decodeJsonSegment,
+  signJwsData,
+  toPublicKeyObject,
+  verifyJwsSignature,
+} from './jws';
+import { didKeyToEd25519PublicKey } from './w3c-vc';
+import { verifyCertificateChain } from './x509';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** JWT `typ` required on request objects (OpenID4VP §5) */
+export const REQUEST_OBJECT_TYP = 'oauth-authz-req+jwt';
+
+/** Client ID schemes with wallet-side request object verification */
+export type ClientIdScheme = 'x509_san_dns' | 'did' | 'redirect_uri';
+
+/** Signature algorithms accepted on signed request objects */
+export type RequestObjectAlg = JwsAlg;
+
+/**
+ * A client ID split into its scheme and scheme-specific identifier
+ */
+export interface ParsedClientId {
+  /** The client ID scheme */
+  scheme: ClientIdScheme;
+  /** Identifier without the scheme prefix (the DID itself for `did`) */
+  identifier: string;
+  /** The full client ID as sent by the verifier */
+  clientId: string;
+}
+
+/**
+ * Options for verifying a request object
+ */
+export interface RequestObjectVerificationOptions {
+  /** client_id from the outer authorization request; must match the request object */
+  expectedClientId?: string;
+  /** Legacy `client_id_scheme` parameter, for client IDs without a scheme prefix */
+  clientIdScheme?: string;
+  /** PEM trust anchors for x509_san_dns; no anchors means x509_san_dns is rejected */
+  x509TrustAnchors?: string[];
+  /**
+   * Resolve a DID URL to its verification key. did:key (Ed25519) and did:jwk
+   * are resolved locally; other methods need this callback.
+   */
+  resolveDidKey?: (didUrl: string) => Promise<KeyObject | webcrypto.JsonWebKey>;
+  /** Reference time in milliseconds (defaults to Date.now()) */
+  nowMs?: number;
+  /** Allowed clock skew for exp/nbf/iat in seconds (default: 60) */
+  clockSkewSeconds?: number;
+}
+
+/**
+ * A verified request object
+ */
+export interface VerifiedRequestObject {
+  /** Decoded JOSE header */
+  header: Record<string, unknown>;
+  /** Decoded claims (the authorization request parameters) */
+  payload: Record<string, unknown>;
+  /** The authenticated client ID */
+  clientId: ParsedClientId;
+}
+
+/**
+ * Key material for signing request objects. Omit for `redirect_uri` client IDs,
+ * whose request objects are unsigned.
+ */
+export interface RequestObjectSigningKey {
+  /** Signature algorithm */
+  alg: RequestObjectAlg;
+  /** Private key (KeyObject or PEM) */
+  privateKey: KeyObject | string;
+  /** Base64 DER certificate chain, leaf first (x509_san_dns) */
+  x5c?: string[];
+  /** Key identifier; a DID URL for did client IDs */
+  kid?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Client IDs
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a client ID into its scheme and identifier
+ *
+ * Accepts prefixed client IDs (`x509_san_dns:verifier.example`, `redirect_uri:https://...`,
+ * `did:web:...`) and, for older verifiers, an unprefixed ID plus `client_id_scheme`.
+ *
+ * @throws ZkIdValidationError for unsupported or missing schemes
+ */
+export function parseClientId(clientId: string, clientIdScheme?: string): ParsedClientId {
+  if (!clientId || typeof clientId !== 'string') {
+    throw new ZkIdValidationError('client_id is required', 'client_id');
+  }
+
+  if (clientId.startsWith('did:')) {
+    return { scheme: 'did', identifier: clientId, clientId };
+  }
+  for (const scheme of ['x509_san_dns', 'redirect_uri'] as const) {
+    if (clientId.startsWith(`${scheme}:`)) {
+      return { scheme, identifier: clientId.slice(scheme.length + 1), clientId };
+    }
+  }
+
+  if (clientIdScheme === 'x509_san_dns' || clientIdScheme === 'redirect_uri') {
+    return { scheme: clientIdScheme, identifier: clientId, clientId };
+  }
+  throw new ZkIdValidationError(`Unsupported client ID scheme for '${clientId}'`, 'client_id');
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode an authorization request as a request object JWT
+ *
+ * @param payload - Authorization request parameters (must include client_id)
+ * @param key - Signing key; omit to produce an unsigned (`alg: none`) object
+ * @returns Compact JWS
+ */
+export function signRequestObject(
+  payload: Record<string, unknown>,
+  key?: RequestObjectSigningKey,
+): string {
+  const header: Record<string, unknown> = { alg: key ? key.alg : 'none', typ: REQUEST_OBJECT_TYP };
+  if (key?.kid) {
+    header.kid = key.kid;
+  }
+  if (key?.x5c) {
+    header.x5c = key.x5c;
+  }
+
+  const encoded = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  if (!key) {
+    return `${encoded}.`;
+  }
+
+  const privateKey =
+    typeof key.privateKey === 'string' ? createPrivateKey(key.privateKey) : key.privateKey;
+  return `${encoded}.${base64UrlEncode(signJwsData(key.alg, Buffer.from(encoded), privateKey))}`;
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/** Resolve did:key (Ed25519) and did:jwk locally, anything else via the callback */
+async function resolveDidVerificationKey(
+  didUrl: string,
+  options: RequestObjectVerificationOptions,
+): Promise<KeyObject> {
+  const did = didUrl.split('#')[0];
+  if (did.startsWith('did:key:')) {
+    const x = Buffer.from(didKeyToEd25519PublicKey(did)).toString('base64url');
+    return createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x }, format: 'jwk' });
+  }
+  if (did.startsWith('did:jwk:')) {
+    const jwk = JSON.parse(Buffer.from(did.slice('did:jwk:'.length), 'base64url').toString('utf8'));
+    return createPublicKey({ key: jwk, format: 'jwk' });
+  }
+  if (!options.resolveDidKey) {
+    throw new ZkIdCryptoError(`No resolver configured for ${did}`);
+  }
+  return toPublicKeyObject(await options.resolveDidKey(didUrl));
+}
+
+/** Validate an x5c chain against the trust anchors and the client's DNS name */
+function verifyX509Chain(
+  x5c: unknown,
+  dnsName: string,
+  options: RequestObjectVerificationOptions,
+  nowMs: number,
+): KeyObject {
+  if (!options.x509TrustAnchors || options.x509TrustAnchors.length === 0) {
+    throw new ZkIdCryptoError('No X.509 trust anchors configured for x509_san_dns');
+  }
+  if (!Array.isArray(x5c) || x5c.length === 0 || x5c.some((c) => typeof c !== 'string')) {
+    throw new ZkIdValidationError('x509_san_dns request object requires an x5c header', 'x5c');
+  }
+
+  const chain = (x5c as string[]).map((der) => new X509Certificate(Buffer.from(der, 'base64')));
+  const leaf = verifyCertificateChain(chain, options.x509TrustAnchors, nowMs, 'Request object');
+  if (leaf.checkHost(dnsName, { subject: 'never' }) !== dnsName) {
+    throw new ZkIdCryptoError(`Request object certificate has no DNS SAN for ${dnsName}`);
+  }
+  return leaf.publicKey;
+}
+
+/** Hostname of a response_uri, rejecting values that are not absolute URLs */
+function responseUriHost(responseUri: string): string {
+  try {
+    return new URL(responseUri).hostname;
+  } catch {
+    throw new ZkIdValidationError('response_uri is not a valid URL', 'response_uri');
+  }
+}
+
+/**
+ * Verify a request object JWT and authenticate its client ID
+ *
+ * Checks the `typ`, signature (per client ID scheme), client_id binding,
+ * exp (required), nbf/iat, and the scheme's response_uri restrictions. For
+ * x509_san_dns, every issuing certificate and the trust anchor must be a
+ * currently valid CA whose keyUsage and pathLenConstraint allow the chain
+ * below it.
+ *
+ * @param jwt - Compact request object JWT
+ * @param options - Trust anchors, DID resolver and expected client ID
+ * @returns Verified header, payload and parsed client ID
+ * @throws ZkIdValidationError for malformed or mismatched requests
+ * @throws ZkIdCryptoError when the signature or certificate chain does not verify
+ */
+export async function verifyRequestObject(
+  jwt: string,
+  options: RequestObjectVerificationOptions = {},
+): Promise<VerifiedRequestObject> {
+  const parts = typeof jwt === 'string' ? jwt.split('.') : [];
+  if (parts.length !== 3) {
+    throw new ZkIdValidationError('Request object is not a compact JWT', 'request');
+  }
+  const header = decodeJsonSegment(parts[0], 'Request object header', 'request');
+  const payload = decodeJsonSegment(parts[1], 'Request object payload', 'request');
+
+  if (header.typ !== REQUEST_OBJECT_TYP) {
+    throw new ZkIdValidationError(`Request object typ must be ${REQUEST_OBJECT_TYP}`, 'typ');
+  }
+  if (typeof payload.client_id !== 'string') {
+    throw new ZkIdValidationError('Request object is missing client_id', 'client_id');
+  }
+  if (options.expectedClientId !== undefined && payload.client_id !== options.expectedClientId) {
+    throw new ZkIdValidationError(
+      'Request object client_id does not match the authorization request',
+      'client_id',
+    );
+  }
+  const clientId = parseClientId(
+    payload.client_id,
+    options.clientIdScheme ??
+      (typeof payload.client_id_scheme === 'string' ? payload.client_id_scheme : undefined),
+  );
+
+  const nowMs = options.nowMs ?? Date.now();
+  const now = Math.floor(nowMs / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+  if (typeof payload.exp !== 'number') {
+    throw new ZkIdValidationError('Request object is missing exp', 'exp');
+  }
+  if (now > payload.exp + skew) {
+    throw new ZkIdValidationError('Request object has expired', 'exp');
+  }
+  if (typeof payload.nbf === 'number' && now + skew < payload.nbf) {
+    throw new ZkIdValidationError('Request object is not yet valid', 'nbf');
+  }
+  if (typeof payload.iat === 'number' && now + skew < payload.iat) {
+    throw new ZkIdValidationError('Request object was issued in the future', 'iat');
+  }
+
+  const responseUri =
+    typeof payload.response_uri === 'string'
+      ? payload.response_uri
+      : typeof payload.redirect_uri === 'string'
+        ? payload.redirect_uri
+        : undefined;
+
+  if (clientId.scheme === 'redirect_uri') {
+    // redirect_uri client IDs cannot sign; the binding is the response URI itself
+    if (header.alg !== 'none' || parts[2] !== '') {
+      throw new ZkIdValidationError(
+        'Request objects for redirect_uri client IDs must be unsigned',
+        'alg',
+      );
+    }
+    if (responseUri !== clientId.identifier) {
+      throw new ZkIdValidationError(
+        'response_uri must equal the redirect_uri client ID',
+        'response_uri',
+      );
+    }
+    return { header, payload, clientId };
+  }
+
+  if (header.alg === 'none' || typeof header.alg !== 'string') {
+    throw new ZkIdValidationError('Request object must be signed', 'alg');
+  }
+
+  let key: KeyObject;
+  if (clientId.scheme === 'x509_san_dns') {
+    key = verifyX509Chain(header.x5c, clientId.identifier, options, nowMs);
+    if (responseUri !== undefined && responseUriHost(responseUri) !== clientId.identifier) {
+      throw new ZkIdValidationError(
+        'response_uri host must match the x509_san_dns client ID',
+        'response_uri',
+      );
+    }
+  } else {
+    if (typeof header.kid !== 'string' || !header.kid.startsWith(`${clientId.identifier}#`)) {
+      throw new ZkIdValidationError('Request object kid must be a DID URL of the client ID', 'kid');
+    }
+    key = await resolveDidVerificationKey(header.kid, options);
+  }
+
+  const signature = Buffer.from(parts[2], 'base64url');
+  if (!verifyJwsSignature(header.alg, Buffer.from(`${parts[0]}.${parts[1]}`), key, signature)) {
+    throw new ZkIdCryptoError('Request object signature verification failed');
+  }
+
+  return { header, payload, clientId };
+}
@@ -0,0 +1,214 @@
+/**
+ * Signed revocation roots.
+ *
+ * `RevocationRootInfo` is often served through CDNs and mirrors. Signing the
+ * root and version with an issuer (or registry) Ed25519 key lets clients
+ * reject forged roots no matter where they were fetched from.
+ *
+ * The issuer signs once per tree version (SignedValidCredentialTree);
+ * verifiers and mirrors serve the signed objects as-is and never hold the key.
+ */
+
+import { KeyObject, sign, verify } from 'crypto';
+import {
+  RevocationRootInfo,
+  RevocationWitness,
+  SignedTreeFrontier,
+  TreeFrontier,
+  ValidCredentialTree,
+  WitnessBucket,
+} from './types';
+import { ZkIdConfigError } from './errors';
+import { signTreeFrontier } from './private-witness';
+
+/** Default lifetime of a revocation root in seconds, counted from `updatedAt` */
+export const DEFAULT_REVOCATION_ROOT_TTL_SECONDS = 300;
+
+/**
+ * Canonical payload used for revocation root signatures.
+ * Keep this stable across issuer, server and client implementations.
+ *
+ * Covers every field of the root info except the signature itself, so
+ * mirrors cannot extend `expiresAt` or swap the source.
+ */
+export function revocationRootSignaturePayload(info: RevocationRootInfo, issuer: string): string {
+  return JSON.stringify({
+    issuer,
+    root: info.root,
+    version: info.version,
+    updatedAt: info.updatedAt,
+    expiresAt: info.expiresAt,
+    ttlSeconds: info.ttlSeconds,
+    source: info.source,
+  });
+}
+
+/**
+ * Sign revocation root info with an Ed25519 private key.
+ *
+ * @returns A copy of the root info with `issuer` and `signature` set
+ */
+export function signRevocationRoot(
+  info: RevocationRootInfo,
+  issuer: string,
+  privateKey: KeyObject,
+): RevocationRootInfo {
+  const payload = revocationRootSignaturePayload(info, issuer);
+  const signature = sign(null, Buffer.from(payload), privateKey).toString('base64');
+  return { ...info, issuer, signature };
+}
+
+/**
+ * Verify a signed revocation root against the signer's Ed25519 public key.
+ * Returns false for unsigned root info.
+ */
+export function verifyRevocationRootSignature(
+  info: RevocationRootInfo,
+  publicKey: KeyObject,
+): boolean {
+  if (!info.issuer || !info.signature) {
+    return false;
+  }
+  try {
+    const payload = revocationRootSignaturePayload(info, info.issuer);
+    const signature = Buffer.from(info.signature, 'base64');
+    return verify(null, Buffer.from(payload), publicKey, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Options for SignedValidCredentialTree.
+ */
+export interface SignedValidCredentialTreeOptions {
+  /** Issuer or registry identity bound into the signatures */
+  issuer: string;
+  /** Ed25519 private key of the issuer */
+  privateKey: KeyObject;
+  /** Lifetime of signed roots and frontiers in seconds, counted from `updatedAt` (default: 300) */
+  ttlSeconds?: number;
+  /** Source identifier recorded in the signed root info (e.g. registry URL) */
+  source?: string;
+}
+
+/**
+ * Issuer-side wrapper that signs the root info and tree frontiers of a
+ * valid credential tree once per tree version.
+ *
+ * `expiresAt` counts from the version's `updatedAt`, so a mirror that stops
+ * receiving updates ends up serving expired roots rather than fresh-looking
+ * ones. Pick a `ttlSeconds` that covers how often the tree is updated.
+ */
+export class SignedValidCredentialTree implements ValidCredentialTree {
+  private readonly inner: ValidCredentialTree;
+  private readonly options: SignedValidCredentialTreeOptions;
+  private readonly ttlSeconds: number;
+  private signedRoot?: RevocationRootInfo;
+  private signedFrontiers = new Map<number, SignedTreeFrontier>();
+
+  constructor(tree: ValidCredentialTree, options: SignedValidCredentialTreeOptions) {
+    this.inner = tree;
+    this.options = options;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_REVOCATION_ROOT_TTL_SECONDS;
+  }
+
+  async add(commitment: string): Promise<void> {
+    await this.inner.add(commitment);
+    await this.getRootInfo();
+  }
+
+  async remove(commitment: string): Promise<void> {
+    await this.inner.remove(commitment);
+    await this.getRootInfo();
+  }
+
+  async contains(commitment: string): Promise<boolean> {
+    return this.inner.contains(commitment);
+  }
+
+  async getRoot(): Promise<string> {
+    return this.inner.getRoot();
+  }
+
+  /**
+   * The signed root info of the current tree version. Signs only when the
+   * version changed since the last call (including changes made to a shared
+   * store by other processes).
+   */
+  async getRootInfo(): Promise<RevocationRootInfo> {
+    const info = this.inner.getRootInfo
+      ? await this.inner.getRootInfo()
+      : { root: await this.inner.getRoot(), version: 0, updatedAt: new Date().toISOString() };
+    const current = this.signedRoot;
+    if (current && current.version === info.version && current.root === info.root) {
+      return current;
+    }
+
+    this.signedRoot = signRevocationRoot(
+      {
+        root: info.root,
+        version: info.version,
+        updatedAt: info.updatedAt,
+        expiresAt: this.expiresAt(info.updatedAt),
+        ttlSeconds: this.ttlSeconds,
+        ...(this.options.source !== undefined ? { source: this.options.source } : {}),
+      },
+      this.options.issuer,
+      this.options.privateKey,
+    );
+    this.signedFrontiers.clear();
+    return this.signedRoot;
+  }
+
+  async getWitness(commitment: string): Promise<RevocationWitness | null> {
+    return this.inner.getWitness(commitment);
+  }
+
+  async getFrontier(level: number): Promise<TreeFrontier> {
+    return (await this.getSignedFrontier(level)).frontier;
+  }
+
+  /**
+   * The signed frontier at `level` for the current tree version, signed at
+   * most once per version and level.
+   */
+  async getSignedFrontier(level: number): Promise<SignedTreeFrontier> {
+    if (!this.inner.getFrontier) {
+      throw new ZkIdConfigError('Wrapped tree does not support tree frontiers');
+    }
+    const { version, root } = await this.getRootInfo();
+    const current = this.signedFrontiers.get(level);
+    if (current && current.frontier.version === version && current.frontier.root === root) {
+      return current;
+    }
+
+    const frontier = await this.inner.getFrontier(level);
+    const signed = signTreeFrontier(
+      { ...frontier, expiresAt: this.expiresAt(frontier.updatedAt) },
+      this.options.issuer,
+      this.options.privateKey,
+    );
+    this.signedFrontiers.set(level, signed);
+    return signed;
+  }
+
+  async getWitnessBucket(
+    prefix: number,
+    prefixBits: number,
+    level: number,
+  ): Promise<WitnessBucket> {
+    if (!this.inner.getWitnessBucket) {
+      throw new ZkIdConfigError('Wrapped tree does not support witness buckets');
+    }
+    return this.inner.getWitnessBucket(prefix, prefixBits, level);
+  }
+
+  async size(): Promise<number> {
+    return this.inner.size();
+  }
+
+  private expiresAt(updatedAt: string): string {
+    return new Date(Date.parse(updatedAt) + this.ttlSeconds * 1000).toISOString();
+  }
+}
@@ -13,6 +13,7 @@ import {
   createMultiClaimRequest,
 } from './multi-claim';
 import { ZkIdValidationError } from './errors';
+import { createNationalitySet } from './nationality-set';
 
 // ---------------------------------------------------------------------------
 // Scenario Types
@@ -135,6 +136,24 @@ export const SCENARIOS: Record<string, VerificationScenario> = {
     ],
   },
 
+  EU_CITIZEN_ADULT: {
+    id: 'eu-citizen-adult',
+    name: 'EU Citizen (Adult)',
+    description: 'Verify user is 18+ and a citizen of any EU member state',
+    claims: [
+      {
+        label: 'age-requirement',
+        claimType: 'age',
+        minAge: 18,
+      },
+      {
+        label: 'eu-citizenship',
+        claimType: 'nationality-set',
+        nationalitySet: createNationalitySet('allow', 'EU'),
+      },
+    ],
+  },
+
   RENTAL_CAR_US: {
     id: 'rental-car-us',
     name: 'US Rental Car',
@@ -0,0 +1,536 @@
+/**
+ * SD-JWT VC (`dc+sd-jwt`) issuance, presentation and verification
+ *
+ * An SD-JWT is an issuer-signed JWT whose selectively disclosable claims are
+ * replaced by digests in `_sd`, followed by the disclosures themselves:
+ *
+ *   <issuer-jwt>~<disclosure>~...~<disclosure>~[<kb-jwt>]
+ *
+ * The holder presents a subset of the disclosures and, when the credential
+ * carries a `cnf.jwk` holder key, appends a key binding JWT (KB-JWT) signed by
+ * that key over the verifier's audience, nonce and a hash of the presentation.
+ *
+ * Only top-level object claims are made selectively disclosable.
+ *
+ * References:
+ * - SD-JWT: RFC 9901 (draft-ietf-oauth-selective-disclosure-jwt)
+ * - SD-JWT VC: draft-ietf-oauth-sd-jwt-vc
+ */
+
+import { KeyObject, createHash, createPublicKey, randomBytes } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+import {
+  JwsAlg,
+  base64UrlEncode,
+  decodeJsonSegment,
+  signJwsData,
+  toPublicKeyObject,
+  verifyJwsSignature,
+} from './jws';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** JWT `typ` of SD-JWT VCs */
+export const SD_JWT_VC_TYP = 'dc+sd-jwt';
+
+/** JWT `typ` of key binding JWTs */
+export const KB_JWT_TYP = 'kb+jwt';
+
+/** Verifiable credential type (`vct`) of zk-id identity credentials */
+export const ZK_ID_SD_JWT_VCT = 'https://w3id.org/zk-id/vct/identity/v1';
+
+/** Digest algorithm used for disclosures (the only one supported) */
+export const SD_JWT_HASH_ALG = 'sha-256';
+
+/** Claim names that may not be selectively disclosed (RFC 9901 §4.2.1 and SD-JWT VC §3.2.2) */
+const NON_DISCLOSABLE_CLAIMS = new Set(['_sd', '_sd_alg', '...', 'iss', 'vct', 'cnf', 'status']);
+
+/**
+ * A decoded disclosure
+ */
+export interface SdJwtDisclosure {
+  /** Random salt */
+  salt: string;
+  /** Claim name */
+  name: string;
+  /** Claim value */
+  value: unknown;
+  /** base64url-encoded disclosure as it appears in the SD-JWT */
+  encoded: string;
+  /** base64url SHA-256 digest referenced from `_sd` */
+  digest: string;
+}
+
+/**
+ * Signs JWTs for SD-JWT issuance or key binding. `sign` may be backed by a
+ * KMS/HSM; use {@link keyObjectSigner} for in-process keys.
+ */
+export interface SdJwtSigner {
+  /** JWS algorithm matching the key */
+  alg: JwsAlg;
+  /** Optional key identifier placed in the JWT header */
+  kid?: string;
+  /** Sign the JWS signing input */
+  sign(data: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Options for issuing an SD-JWT
+ */
+export interface SdJwtIssueOptions {
+  /** JWT `typ` (default: {@link SD_JWT_VC_TYP}) */
+  typ?: string;
+  /** Number of decoy digests added to `_sd` to hide the claim count (default: 0) */
+  decoys?: number;
+}
+
+/**
+ * An SD-JWT split into its parts
+ */
+export interface ParsedSdJwt {
+  /** Issuer-signed JWT */
+  issuerJwt: string;
+  /** Decoded disclosures, in presentation order */
+  disclosures: SdJwtDisclosure[];
+  /** Key binding JWT, if present */
+  keyBindingJwt?: string;
+}
+
+/**
+ * Key binding for a presentation
+ */
+export interface SdJwtKeyBindingOptions {
+  /** Holder key signer matching the credential's `cnf.jwk` */
+  signer: SdJwtSigner;
+  /** Verifier the presentation is intended for (the OpenID4VP client_id) */
+  audience: string;
+  /** Verifier nonce */
+  nonce: string;
+  /** Issued-at time in seconds (default: now) */
+  iat?: number;
+}
+
+/**
+ * Options for verifying an SD-JWT VC presentation
+ */
+export interface SdJwtVerificationOptions {
+  /** Issuer public key; alternatively use resolveIssuerKey */
+  issuerKey?: KeyObject | webcrypto.JsonWebKey;
+  /** Resolve the issuer key from the `iss` claim and JWT header */
+  resolveIssuerKey?: (
+    iss: string,
+    header: Record<string, unknown>,
+  ) => Promise<KeyObject | webcrypto.JsonWebKey | null>;
+  /** Required `vct` value */
+  expectedVct?: string;
+  /** Required KB-JWT audience */
+  audience?: string;
+  /** Required KB-JWT nonce */
+  nonce?: string;
+  /** Require a KB-JWT (default: true) */
+  requireKeyBinding?: boolean;
+  /** Maximum KB-JWT age in seconds (default: 300) */
+  maxKeyBindingAgeSeconds?: number;
+  /** Current time in milliseconds (default: Date.now()) */
+  nowMs?: number;
+  /** Allowed clock skew in seconds (default: 60) */
+  clockSkewSeconds?: number;
+}
+
+/**
+ * A verified SD-JWT VC presentation
+ */
+export interface VerifiedSdJwtVc {
+  /** Issuer JWT header */
+  header: Record<string, unknown>;
+  /** Issuer JWT payload as signed (with `_sd` digests) */
+  payload: Record<string, unknown>;
+  /** Always-visible claims merged with the disclosed claims */
+  claims: Record<string, unknown>;
+  /** Disclosures that were presented */
+  disclosures: SdJwtDisclosure[];
+  /** Verified key binding JWT payload, if present */
+  keyBinding?: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Disclosures
+// ---------------------------------------------------------------------------
+
+function sha256Base64Url(data: string): string {
+  return createHash('sha256').update(data, 'ascii').digest('base64url');
+}
+
+/**
+ * Create a disclosure for an object property
+ *
+ * @param name - Claim name
+ * @param value - Claim value (any JSON value)
+ * @param salt - Salt (default: 128 random bits)
+ */
+export function createDisclosure(name: string, value: unknown, salt?: string): SdJwtDisclosure {
+  if (NON_DISCLOSABLE_CLAIMS.has(name)) {
+    throw new ZkIdValidationError(`Claim '${name}' cannot be selectively disclosed`, name);
+  }
+  const disclosureSalt = salt ?? base64UrlEncode(randomBytes(16));
+  const encoded = base64UrlEncode(JSON.stringify([disclosureSalt, name, value]));
+  return { salt: disclosureSalt, name, value, encoded, digest: sha256Base64Url(encoded) };
+}
+
+/**
+ * Decode a base64url disclosure
+ *
+ * @throws ZkIdValidationError if it is not a `[salt, name, value]` array
+ */
+export function decodeDisclosure(encoded: string): SdJwtDisclosure {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new ZkIdValidationError('Disclosure is not valid JSON', 'disclosure');
+  }
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 3 ||
+    typeof decoded[0] !== 'string' ||
+    typeof decoded[1] !== 'string'
+  ) {
+    throw new ZkIdValidationError(
+      'Disclosure must be a [salt, name, value] array (array element disclosures are not supported)',
+      'disclosure',
+    );
+  }
+  if (NON_DISCLOSABLE_CLAIMS.has(decoded[1])) {
+    throw new ZkIdValidationError(
+      `Disclosure uses reserved claim name '${decoded[1]}'`,
+      'disclosure',
+    );
+  }
+  return {
+    salt: decoded[0],
+    name: decoded[1],
+    value: decoded[2],
+    encoded,
+    digest: sha256Base64Url(encoded),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Issuance
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a signer for an in-process private key
+ *
+ * @param alg - JWS algorithm matching the key
+ * @param privateKey - Private key
+ * @param kid - Optional key identifier
+ */
+export function keyObjectSigner<A extends JwsAlg>(
+  alg: A,
+  privateKey: KeyObject,
+  kid?: string,
+): SdJwtSigner & { alg: A } {
+  return { alg, kid, sign: async (data) => signJwsData(alg, data, privateKey) };
+}
+
+async function signJwt(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  signer: SdJwtSigner,
+): Promise<string> {
+  const fullHeader = signer.kid
+    ? { ...header, alg: signer.alg, kid: signer.kid }
+    : { ...header, alg: signer.alg };
+  const signingInput = `${base64UrlEncode(JSON.stringify(fullHeader))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = await signer.sign(Buffer.from(signingInput));
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Issue an SD-JWT
+ *
+ * @param claims - Always-visible claims (iss, iat, vct, cnf, ...)
+ * @param disclosableClaims - Claims that the holder can disclose selectively
+ * @param signer - Issuer signer
+ * @param options - JWT typ and decoy digests
+ * @returns SD-JWT with all disclosures (`<jwt>~<d1>~...~<dn>~`)
+ */
+export async function issueSdJwt(
+  claims: Record<string, unknown>,
+  disclosableClaims: Record<string, unknown>,
+  signer: SdJwtSigner,
+  options: SdJwtIssueOptions = {},
+): Promise<string> {
+  for (const name of Object.keys(disclosableClaims)) {
+    if (name in claims) {
+      throw new ZkIdValidationError(`Claim '${name}' is both visible and disclosable`, name);
+    }
+  }
+
+  const disclosures = Object.entries(disclosableClaims).map(([name, value]) =>
+    createDisclosure(name, value),
+  );
+  const decoys = Array.from({ length: options.decoys ?? 0 }, () =>
+    sha256Base64Url(base64UrlEncode(randomBytes(16))),
+  );
+  // Sorted so digest order does not reveal claim order
+  const sd = [...disclosures.map((d) => d.digest), ...decoys].sort();
+
+  const jwt = await signJwt(
+    { typ: options.typ ?? SD_JWT_VC_TYP },
+    { ...claims, _sd: sd, _sd_alg: SD_JWT_HASH_ALG },
+    signer,
+  );
+  return `${jwt}~${disclosures.map((d) => `${d.encoded}~`).join('')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Presentation
+// ---------------------------------------------------------------------------
+
+/**
+ * Split an SD-JWT (or SD-JWT+KB) into issuer JWT, disclosures and KB-JWT
+ *
+ * @throws ZkIdValidationError for malformed input
+ */
+export function parseSdJwt(sdJwt: string): ParsedSdJwt {
+  if (typeof sdJwt !== 'string' || !sdJwt.includes('~')) {
+    throw new ZkIdValidationError('SD-JWT must contain ~-separated disclosures', 'sd_jwt');
+  }
+  const parts = sdJwt.split('~');
+  const issuerJwt = parts[0];
+  const last = parts[parts.length - 1];
+  const disclosures = parts.slice(1, -1).map((encoded) => {
+    if (encoded.length === 0) {
+      throw new ZkIdValidationError('SD-JWT contains an empty disclosure', 'sd_jwt');
+    }
+    return decodeDisclosure(encoded);
+  });
+
+  if (issuerJwt.split('.').length !== 3) {
+    throw new ZkIdValidationError('SD-JWT issuer JWT is not a compact JWS', 'sd_jwt');
+  }
+  return { issuerJwt, disclosures, keyBindingJwt: last.length > 0 ? last : undefined };
+}
+
+/**
+ * Compute the KB-JWT `sd_hash` over an SD-JWT presentation without its KB-JWT
+ *
+ * @param presentation - `<jwt>~<d1>~...~<dn>~`
+ */
+export function computeSdHash(presentation: string): string {
+  return sha256Base64Url(presentation);
+}
+
+/**
+ * Create a presentation disclosing only the named claims
+ *
+ * @param sdJwt - SD-JWT as issued (with all disclosures)
+ * @param disclose - Names of the claims to disclose
+ * @param keyBinding - Holder key, audience and nonce for the KB-JWT; omit for no key binding
+ * @returns `<jwt>~<selected disclosures>~[<kb-jwt>]`
+ */
+export async function createSdJwtPresentation(
+  sdJwt: string,
+  disclose: string[],
+  keyBinding?: SdJwtKeyBindingOptions,
+): Promise<string> {
+  const { issuerJwt, disclosures } = parseSdJwt(sdJwt);
+  const available = new Set(disclosures.map((d) => d.name));
+  for (const name of disclose) {
+    if (!available.has(name)) {
+      throw new ZkIdValidationError(`SD-JWT has no disclosure for '${name}'`, name);
+    }
+  }
+
+  const selected = disclosures.filter((d) => disclose.includes(d.name));
+  const presentation = `${issuerJwt}~${selected.map((d) => `${d.encoded}~`).join('')}`;
+  if (!keyBinding) {
+    return presentation;
+  }
+
+  const kbJwt = await signJwt(
+    { typ: KB_JWT_TYP },
+    {
+      iat: keyBinding.iat ?? Math.floor(Date.now() / 1000),
+      aud: keyBinding.audience,
+      nonce: keyBinding.nonce,
+      sd_hash: computeSdHash(presentation),
+    },
+    keyBinding.signer,
+  );
+  return `${presentation}${kbJwt}`;
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+function decodeJwt(
+  jwt: string,
+  label: string,
+): { header: Record<string, unknown>; payload: Record<string, unknown>; parts: string[] } {
+  const parts = jwt.split('.');
+  if (parts.length !== 3) {
+    throw new ZkIdValidationError(`${label} is not a compact JWS`, 'sd_jwt');
+  }
+  return {
+    header: decodeJsonSegment(parts[0], `${label} header`, 'sd_jwt'),
+    payload: decodeJsonSegment(parts[1], `${label} payload`, 'sd_jwt'),
+    parts,
+  };
+}
+
+function checkJwsSignature(parts: string[], alg: unknown, key: KeyObject, label: string): void {
+  if (typeof alg !== 'string' || alg === 'none') {
+    throw new ZkIdValidationError(`${label} must be signed`, 'alg');
+  }
+  const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+  if (!verifyJwsSignature(alg, data, key, Buffer.from(parts[2], 'base64url'))) {
+    throw new ZkIdCryptoError(`${label} signature verification failed`);
+  }
+}
+
+/**
+ * Verify an SD-JWT VC presentation
+ *
+ * Checks the issuer signature, `typ`, `vct`, validity period and `_sd_alg`;
+ * that every disclosure is referenced exactly once from `_sd`; and, when
+ * required, the KB-JWT signature against `cnf.jwk` plus its `sd_hash`, audience,
+ * nonce and freshness.
+ *
+ * @param presentation - `<jwt>~<disclosures>~<kb-jwt>`
+ * @param options - Issuer key, expected vct, audience and nonce
+ * @returns Verified payload and disclosed claims
+ * @throws ZkIdValidationError for malformed or mismatched presentations
+ * @throws ZkIdCryptoError when a signature does not verify
+ */
+export async function verifySdJwtVc(
+  presentation: string,
+  options: SdJwtVerificationOptions = {},
+): Promise<VerifiedSdJwtVc> {
+  const { issuerJwt, disclosures, keyBindingJwt } = parseSdJwt(presentation);
+  const { header, payload, parts } = decodeJwt(issuerJwt, 'SD-JWT');
+
+  if (header.typ !== SD_JWT_VC_TYP) {
+    throw new ZkIdValidationError(`SD-JWT typ must be ${SD_JWT_VC_TYP}`, 'typ');
+  }
+  if (typeof payload.iss !== 'string' || payload.iss.length === 0) {
+    throw new ZkIdValidationError('SD-JWT is missing iss', 'iss');
+  }
+  if (typeof payload.vct !== 'string') {
+    throw new ZkIdValidationError('SD-JWT VC is missing vct', 'vct');
+  }
+  if (options.expectedVct !== undefined && payload.vct !== options.expectedVct) {
+    throw new ZkIdValidationError('SD-JWT VC has an unexpected vct', 'vct');
+  }
+
+  let issuerKey = options.issuerKey;
+  if (!issuerKey && options.resolveIssuerKey) {
+    issuerKey = (await options.resolveIssuerKey(payload.iss, header)) ?? undefined;
+  }
+  if (!issuerKey) {
+    throw new ZkIdCryptoError(`Unknown or untrusted SD-JWT issuer: ${payload.iss}`);
+  }
+  checkJwsSignature(parts, header.alg, toPublicKeyObject(issuerKey), 'SD-JWT');
+
+  const nowMs = options.nowMs ?? Date.now();
+  const now = Math.floor(nowMs / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+  if (typeof payload.exp === 'number' && now > payload.exp + skew) {
+    throw new ZkIdValidationError('SD-JWT VC has expired', 'exp');
+  }
+  if (typeof payload.nbf === 'number' && now + skew < payload.nbf) {
+    throw new ZkIdValidationError('SD-JWT VC is not yet valid', 'nbf');
+  }
+
+  // _sd_alg defaults to sha-256 when absent (RFC 9901 §4.1.1)
+  const sdAlg = payload._sd_alg ?? SD_JWT_HASH_ALG;
+  if (sdAlg !== SD_JWT_HASH_ALG) {
+    throw new ZkIdValidationError(`Unsupported _sd_alg: ${String(sdAlg)}`, '_sd_alg');
+  }
+  const digests = payload._sd ?? [];
+  if (!Array.isArray(digests) || digests.some((d) => typeof d !== 'string')) {
+    throw new ZkIdValidationError('SD-JWT _sd must be an array of digests', '_sd');
+  }
+  if (new Set(digests).size !== digests.length) {
+    throw new ZkIdValidationError('SD-JWT _sd contains duplicate digests', '_sd');
+  }
+
+  const claims: Record<string, unknown> = { ...payload };
+  delete claims._sd;
+  delete claims._sd_alg;
+
+  const seen = new Set<string>();
+  for (const disclosure of disclosures) {
+    if (!digests.includes(disclosure.digest)) {
+      throw new ZkIdValidationError(
+        `Disclosure for '${disclosure.name}' is not referenced by the SD-JWT`,
+        'disclosure',
+      );
+    }
+    if (seen.has(disclosure.digest)) {
+      throw new ZkIdValidationError(
+        `Disclosure for '${disclosure.name}' is repeated`,
+        'disclosure',
+      );
+    }
+    if (disclosure.name in claims) {
+      throw new ZkIdValidationError(
+        `Disclosure for '${disclosure.name}' overwrites an existing claim`,
+        'disclosure',
+      );
+    }
+    seen.add(disclosure.digest);
+    claims[disclosure.name] = disclosure.value;
+  }
+
+  const requireKeyBinding = options.requireKeyBinding ?? true;
+  if (!keyBindingJwt) {
+    if (requireKeyBinding) {
+      throw new ZkIdValidationError('SD-JWT presentation requires a key binding JWT', 'kb_jwt');
+    }
+    return { header, payload, claims, disclosures };
+  }
+
+  const cnf = payload.cnf as { jwk?: webcrypto.JsonWebKey } | undefined;
+  if (!cnf?.jwk) {
+    throw new ZkIdValidationError('SD-JWT has no cnf.jwk holder key for key binding', 'cnf');
+  }
+  let holderKey: KeyObject;
+  try {
+    holderKey = createPublicKey({ key: cnf.jwk, format: 'jwk' });
+  } catch {
+    throw new ZkIdValidationError('SD-JWT cnf.jwk is not a valid public key', 'cnf');
+  }
+
+  const kb = decodeJwt(keyBindingJwt, 'KB-JWT');
+  if (kb.header.typ !== KB_JWT_TYP) {
+    throw new ZkIdValidationError(`KB-JWT typ must be ${KB_JWT_TYP}`, 'typ');
+  }
+  checkJwsSignature(kb.parts, kb.header.alg, holderKey, 'KB-JWT');
+
+  const presented = presentation.slice(0, presentation.length - keyBindingJwt.length);
+  if (kb.payload.sd_hash !== computeSdHash(presented)) {
+    throw new ZkIdValidationError('KB-JWT sd_hash does not match the presentation', 'sd_hash');
+  }
+  if (options.audience !== undefined && kb.payload.aud !== options.audience) {
+    throw new ZkIdValidationError('KB-JWT audience mismatch', 'aud');
+  }
+  if (options.nonce !== undefined && kb.payload.nonce !== options.nonce) {
+    throw new ZkIdValidationError('KB-JWT nonce mismatch', 'nonce');
+  }
+  if (typeof kb.payload.iat !== 'number') {
+    throw new ZkIdValidationError('KB-JWT is missing iat', 'iat');
+  }
+  const maxAge = options.maxKeyBindingAgeSeconds ?? 300;
+  if (kb.payload.iat > now + skew || now - kb.payload.iat > maxAge + skew) {
+    throw new ZkIdValidationError('KB-JWT is not fresh', 'iat');
+  }
+
+  return { header, payload, claims, disclosures, keyBinding: kb.payload };
+}
@@ -0,0 +1,304 @@
+/**
+ * W3C Bitstring Status List for credential revocation
+ *
+ * Each issued credential is assigned a random index in a GZIP-compressed
+ * bitstring; revoking it sets the bit. The issuer publishes the bitstring as a
+ * Data Integrity-signed `BitstringStatusListCredential` that standard VC
+ * verifiers fetch via the credential's `credentialStatus`.
+ *
+ * This complements the Merkle ValidCredentialTree (used by ZK proofs): the
+ * UnifiedRevocationManager flips the bit when it removes the tree leaf.
+ *
+ * References:
+ * - W3C Bitstring Status List v1.0: https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+import { randomInt } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { ZkIdValidationError } from './errors';
+import { BitstringStatusListEntry, StatusListPublisher } from './types';
+import {
+  DataIntegrityProof,
+  DataIntegritySigner,
+  W3CVerificationOptions,
+  addDataIntegrityProof,
+  verifyW3CVerifiableCredential,
+  W3CVerifiableCredential,
+} from './w3c-vc';
+
+/** Minimum bitstring length (16 KB) recommended for herd privacy */
+export const BITSTRING_STATUS_LIST_MIN_LENGTH = 131_072;
+
+/** Upper bound on decoded lists, guarding against decompression bombs */
+const MAX_DECODED_LIST_BYTES = 16 * 1024 * 1024;
+
+/**
+ * A published `BitstringStatusListCredential`
+ */
+export interface BitstringStatusListCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: {
+    id: string;
+    type: 'BitstringStatusList';
+    statusPurpose: string;
+    /** Multibase (base64url) GZIP-compressed bitstring */
+    encodedList: string;
+  };
+  proof?: DataIntegrityProof;
+}
+
+/**
+ * Configuration for the in-memory status list publisher
+ */
+export interface StatusListPublisherConfig {
+  /** Base URL; lists are published at `<baseUrl>/<n>` */
+  baseUrl: string;
+  /** Issuer DID of the status list credentials */
+  issuer: string;
+  /** Data Integrity signer for the issuer */
+  signer: DataIntegritySigner;
+  /** Status purpose of every list (default: revocation) */
+  statusPurpose?: string;
+  /** Bits per list (default and minimum: BITSTRING_STATUS_LIST_MIN_LENGTH) */
+  listLength?: number;
+  /** Lifetime of published list credentials in seconds (default: 86400) */
+  ttlSeconds?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode a bitstring as multibase base64url GZIP (`encodedList`)
+ */
+export function encodeStatusList(bits: Uint8Array): string {
+  return `u${gzipSync(bits).toString('base64url')}`;
+}
+
+/**
+ * Decode an `encodedList` value to the raw bitstring
+ *
+ * @throws ZkIdValidationError for malformed or oversized lists
+ */
+export function decodeStatusList(encodedList: string): Buffer {
+  if (!encodedList.startsWith('u')) {
+    throw new ZkIdValidationError('encodedList must be multibase base64url', 'encodedList');
+  }
+  try {
+    return gunzipSync(Buffer.from(encodedList.slice(1), 'base64url'), {
+      maxOutputLength: MAX_DECODED_LIST_BYTES,
+    });
+  } catch {
+    throw new ZkIdValidationError('encodedList is not a valid GZIP bitstring', 'encodedList');
+  }
+}
+
+/**
+ * Read a status bit; index 0 is the most significant bit of the first byte
+ *
+ * @throws ZkIdValidationError if the index is outside the list
+ */
+export function getStatusBit(bits: Uint8Array, index: number): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= bits.length * 8) {
+    throw new ZkIdValidationError('statusListIndex is outside the status list', 'statusListIndex');
+  }
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+function setStatusBit(bits: Uint8Array, index: number, flagged: boolean): void {
+  const mask = 0x80 >> (index & 7);
+  bits[index >> 3] = flagged ? bits[index >> 3] | mask : bits[index >> 3] & ~mask;
+}
+
+// ---------------------------------------------------------------------------
+// Publisher
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory status list publisher.
+ *
+ * Assigns each commitment a random unused index (so list position does not
+ * reveal issuance order) and opens a new list when one fills up.
+ * Production deployments should persist the lists and assignments.
+ */
+export class InMemoryStatusListPublisher implements StatusListPublisher {
+  private readonly lists: Uint8Array[] = [];
+  /** Unassigned indices of the newest list; the first `freeCount` are free */
+  private free = new Uint32Array(0);
+  private freeCount = 0;
+  private readonly assignments = new Map<string, BitstringStatusListEntry>();
+  private readonly statusPurpose: string;
+  private readonly listLength: number;
+
+  constructor(private readonly config: StatusListPublisherConfig) {
+    this.statusPurpose = config.statusPurpose ?? 'revocation';
+    this.listLength = config.listLength ?? BITSTRING_STATUS_LIST_MIN_LENGTH;
+    if (
+      !Number.isInteger(this.listLength) ||
+      this.listLength < BITSTRING_STATUS_LIST_MIN_LENGTH ||
+      this.listLength % 8 !== 0
+    ) {
+      throw new ZkIdValidationError(
+        `listLength must be a multiple of 8 and at least ${BITSTRING_STATUS_LIST_MIN_LENGTH}`,
+        'listLength',
+      );
+    }
+    if (typeof process !== 'undefined' && process.env.NODE_ENV === 'production') {
+      console.warn(
+        '[zk-id] InMemoryStatusListPublisher is not suitable for production. ' +
+          'Status list assignments will be lost on restart. Use a persistent store.',
+      );
+    }
+  }
+
+  async assign(commitment: string): Promise<BitstringStatusListEntry> {
+    const existing = this.assignments.get(commitment);
+    if (existing) {
+      return existing;
+    }
+
+    if (this.freeCount === 0) {
+      this.lists.push(new Uint8Array(this.listLength / 8));
+      this.free = Uint32Array.from({ length: this.listLength }, (_, i) => i);
+      this.freeCount = this.listLength;
+    }
+    // Swap-remove a uniformly random free index
+    const pick = randomInt(0, this.freeCount);
+    const index = this.free[pick];
+    this.free[pick] = this.free[--this.freeCount];
+
+    const statusListCredential = this.listUrl(this.lists.length - 1);
+    const entry: BitstringStatusListEntry = {
+      id: `${statusListCredential}#${index}`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: this.statusPurpose,
+      statusListIndex: String(index),
+      statusListCredential,
+    };
+    this.assignments.set(commitment, entry);
+    return entry;
+  }
+
+  async getEntry(commitment: string): Promise<BitstringStatusListEntry | null> {
+    return this.assignments.get(commitment) ?? null;
+  }
+
+  async setStatus(commitment: string, flagged: boolean): Promise<void> {
+    const entry = this.assignments.get(commitment);
+    if (!entry) {
+      throw new ZkIdValidationError('No status list entry for commitment', 'commitment');
+    }
+    const listNumber = this.listNumber(entry.statusListCredential);
+    setStatusBit(this.lists[listNumber], Number(entry.statusListIndex), flagged);
+  }
+
+  /** URLs of all lists opened so far */
+  getListUrls(): string[] {
+    return this.lists.map((_, i) => this.listUrl(i));
+  }
+
+  /**
+   * Build and sign the current BitstringStatusListCredential for a list
+   *
+   * @param listUrl - A URL from getListUrls()
+   * @returns Signed status list credential to serve at listUrl
+   */
+  async publish(listUrl: string): Promise<BitstringStatusListCredential> {
+    const listNumber = this.listNumber(listUrl);
+    const now = new Date();
+    const validUntil = new Date(now.getTime() + (this.config.ttlSeconds ?? 86_400) * 1000);
+
+    const credential: BitstringStatusListCredential = {
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      id: listUrl,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: this.config.issuer,
+      validFrom: now.toISOString(),
+      validUntil: validUntil.toISOString(),
+      credentialSubject: {
+        id: `${listUrl}#list`,
+        type: 'BitstringStatusList',
+        statusPurpose: this.statusPurpose,
+        encodedList: encodeStatusList(this.lists[listNumber]),
+      },
+    };
+    return addDataIntegrityProof(credential, this.config.signer, { created: now });
+  }
+
+  private listUrl(listNumber: number): string {
+    return `${this.config.baseUrl}/${listNumber + 1}`;
+  }
+
+  private listNumber(listUrl: string): number {
+    const listNumber = this.getListUrls().indexOf(listUrl);
+    if (listNumber === -1) {
+      throw new ZkIdValidationError(`Unknown status list: ${listUrl}`, 'statusListCredential');
+    }
+    return listNumber;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a credential's status against a fetched BitstringStatusListCredential
+ *
+ * Verifies the list credential (issued by the credential's issuer, Data
+ * Integrity proof, issuer key ownership, validity window), that it is the list
+ * the entry points to with the same status purpose, and returns the entry's bit.
+ *
+ * Whoever serves the list could otherwise sign their own "not revoked" list,
+ * so pass the same `resolvePublicKey` used to verify the credential itself.
+ *
+ * @param entry - The credential's `credentialStatus`
+ * @param statusListCredential - Credential fetched from `entry.statusListCredential`
+ * @param expectedIssuer - Issuer of the credential being checked
+ * @param options - Key resolution and current time
+ * @returns true if the status bit is set (e.g. the credential is revoked)
+ * @throws ZkIdValidationError or ZkIdCryptoError when the list cannot be trusted
+ */
+export async function checkStatusListEntry(
+  entry: BitstringStatusListEntry,
+  statusListCredential: BitstringStatusListCredential,
+  expectedIssuer: string,
+  options: W3CVerificationOptions = {},
+): Promise<boolean> {
+  if (!statusListCredential.type?.includes('BitstringStatusListCredential')) {
+    throw new ZkIdValidationError('Not a BitstringStatusListCredential', 'type');
+  }
+  if (statusListCredential.issuer !== expectedIssuer) {
+    throw new ZkIdValidationError('Status list was not issued by the credential issuer', 'issuer');
+  }
+  await verifyW3CVerifiableCredential(
+    statusListCredential as unknown as W3CVerifiableCredential,
+    options,
+  );
+
+  if (statusListCredential.id !== entry.statusListCredential) {
+    throw new ZkIdValidationError(
+      'Status list credential does not match the entry',
+      'statusListCredential',
+    );
+  }
+  const subject = statusListCredential.credentialSubject;
+  if (subject?.statusPurpose !== entry.statusPurpose) {
+    throw new ZkIdValidationError('Status purpose mismatch', 'statusPurpose');
+  }
+  if (!/^(0|[1-9]\d*)$/.test(entry.statusListIndex)) {
+    throw new ZkIdValidationError('Invalid statusListIndex', 'statusListIndex');
+  }
+
+  const bits = decodeStatusList(subject.encodedList);
+  if (bits.length * 8 < BITSTRING_STATUS_LIST_MIN_LENGTH) {
+    throw new ZkIdValidationError('Status list is shorter than the minimum length', 'encodedList');
+  }
+  return getStatusBit(bits, Number(entry.statusListIndex));
+}
@@ -0,0 +1,211 @@
+/**
+ * Signed issuer trust lists
+ *
+ * A governance body publishes the accredited issuers as a JSON trust list and
+ * signs it with a detached JWS (RFC 7515 Appendix F): the list bytes travel
+ * unchanged and the JWS payload segment is left empty. Verifiers pin the
+ * governance body's key(s) as trust anchors, reject lists past `nextUpdate`
+ * (fail closed) and refuse to roll back to a lower `sequenceNumber`.
+ *
+ * The format follows the shape of ETSI TS 119 612 trusted lists (sequence
+ * number, next update, per-service status and policy references) in JSON.
+ */
+
+import { KeyObject, createPublicKey } from 'crypto';
+import type { webcrypto } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+import { base64UrlEncode, decodeJsonSegment, toPublicKeyObject, verifyJwsSignature } from './jws';
+import { SdJwtSigner } from './sd-jwt';
+
+/** JWS `typ` of trust list signatures */
+export const TRUST_LIST_TYP = 'trust-list+json';
+
+/**
+ * An accredited issuer in a trust list
+ */
+export interface TrustListEntry {
+  /** Issuer identifier (name or DID) as used in credentials */
+  issuer: string;
+  /** Issuer public verification key */
+  publicKeyJwk: webcrypto.JsonWebKey;
+  /** Accreditation status (default: active) */
+  status?: 'active' | 'revoked' | 'suspended';
+  /** ISO 8601 timestamp — key is not valid before this time */
+  validFrom?: string;
+  /** ISO 8601 timestamp — key is not valid after this time */
+  validTo?: string;
+  /** Jurisdiction code (e.g., ISO 3166-1 alpha-2) */
+  jurisdiction?: string;
+  /** URL of the issuer's issuance policy */
+  policyUrl?: string;
+  /** URL of the issuer's audit report */
+  auditUrl?: string;
+}
+
+/**
+ * Trust list published by a governance body
+ */
+export interface TrustList {
+  /** Identifier of the list operator (governance body) */
+  listOperator: string;
+  /** Monotonically increasing list version */
+  sequenceNumber: number;
+  /** ISO 8601 issue time */
+  issuedAt: string;
+  /** ISO 8601 time by which a new list is published; the list is invalid afterwards */
+  nextUpdate: string;
+  entries: TrustListEntry[];
+}
+
+/**
+ * Trust list as distributed: the exact JSON text and its detached JWS
+ */
+export interface SignedTrustList {
+  /** Serialized trust list (verified byte-for-byte) */
+  list: string;
+  /** Detached compact JWS (`<header>..<signature>`) */
+  signature: string;
+}
+
+/**
+ * Options for verifyTrustList
+ */
+export interface TrustListVerificationOptions {
+  /** Pinned governance body keys; the list must be signed by one of them */
+  trustAnchors: Array<KeyObject | webcrypto.JsonWebKey>;
+  /** Current time in milliseconds (default: Date.now()) */
+  nowMs?: number;
+  /** Reject lists older than this sequence number (rollback protection) */
+  minSequenceNumber?: number;
+}
+
+const STATUSES = new Set(['active', 'revoked', 'suspended']);
+
+/**
+ * Serialize and sign a trust list with a detached JWS
+ *
+ * @param list - Trust list to publish
+ * @param signer - Governance body signer (e.g. keyObjectSigner)
+ * @returns The list text and detached signature to publish together
+ */
+export async function signTrustList(
+  list: TrustList,
+  signer: SdJwtSigner,
+): Promise<SignedTrustList> {
+  const listJson = JSON.stringify(list);
+  const header = base64UrlEncode(
+    JSON.stringify({
+      alg: signer.alg,
+      typ: TRUST_LIST_TYP,
+      ...(signer.kid ? { kid: signer.kid } : {}),
+    }),
+  );
+  const signature = await signer.sign(Buffer.from(`${header}.${base64UrlEncode(listJson)}`));
+  return { list: listJson, signature: `${header}..${base64UrlEncode(signature)}` };
+}
+
+/**
+ * Verify a signed trust list against pinned trust anchors
+ *
+ * @param signed - List text and detached JWS
+ * @param options - Trust anchors, current time and rollback floor
+ * @returns The parsed trust list
+ * @throws ZkIdCryptoError if no trust anchor verifies the signature
+ * @throws ZkIdValidationError for malformed, expired or rolled-back lists
+ */
+export function verifyTrustList(
+  signed: SignedTrustList,
+  options: TrustListVerificationOptions,
+): TrustList {
+  if (options.trustAnchors.length === 0) {
+    throw new ZkIdCryptoError('No trust list anchors configured');
+  }
+  const parts = typeof signed.signature === 'string' ? signed.signature.split('.') : [];
+  if (parts.length !== 3 || parts[1] !== '' || typeof signed.list !== 'string') {
+    throw new ZkIdValidationError('Trust list signature must be a detached JWS', 'signature');
+  }
+  const header = decodeJsonSegment(parts[0], 'Trust list JWS header', 'signature');
+  if (header.typ !== TRUST_LIST_TYP) {
+    throw new ZkIdValidationError(`Trust list JWS typ must be ${TRUST_LIST_TYP}`, 'typ');
+  }
+  if (header.crit !== undefined) {
+    throw new ZkIdValidationError('Unsupported critical JWS header parameters', 'crit');
+  }
+
+  const signingInput = Buffer.from(`${parts[0]}.${base64UrlEncode(signed.list)}`);
+  const signature = Buffer.from(parts[2], 'base64url');
+  const trusted = options.trustAnchors.some((anchor) =>
+    verifyJwsSignature(String(header.alg), signingInput, toPublicKeyObject(anchor), signature),
+  );
+  if (!trusted) {
+    throw new ZkIdCryptoError('Trust list signature verification failed');
+  }
+
+  const list = parseTrustList(signed.list);
+  const nowMs = options.nowMs ?? Date.now();
+  if (nowMs >= Date.parse(list.nextUpdate)) {
+    throw new ZkIdValidationError('Trust list has expired', 'nextUpdate');
+  }
+  if (options.minSequenceNumber !== undefined && list.sequenceNumber < options.minSequenceNumber) {
+    throw new ZkIdValidationError('Trust list sequence number rolled back', 'sequenceNumber');
+  }
+  return list;
+}
+
+/**
+ * Import a trust list entry's public key
+ *
+ * @throws ZkIdValidationError for private or unsupported keys
+ */
+export function trustListEntryPublicKey(entry: TrustListEntry): KeyObject {
+  if ('d' in entry.publicKeyJwk) {
+    throw new ZkIdValidationError(
+      'Trust list keys must not contain private key material',
+      'publicKeyJwk',
+    );
+  }
+  try {
+    return createPublicKey({ key: entry.publicKeyJwk, format: 'jwk' });
+  } catch {
+    throw new ZkIdValidationError(
+      `Unsupported key for trust list issuer ${entry.issuer}`,
+      'publicKeyJwk',
+    );
+  }
+}
+
+function parseTrustList(text: string): TrustList {
+  let list: TrustList;
+  try {
+    list = JSON.parse(text);
+  } catch {
+    throw new ZkIdValidationError('Trust list is not valid JSON', 'list');
+  }
+  const isTime = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+  if (
+    !list ||
+    typeof list !== 'object' ||
+    typeof list.listOperator !== 'string' ||
+    !Number.isSafeInteger(list.sequenceNumber) ||
+    !isTime(list.issuedAt) ||
+    !isTime(list.nextUpdate) ||
+    !Array.isArray(list.entries)
+  ) {
+    throw new ZkIdValidationError('Malformed trust list', 'list');
+  }
+  for (const entry of list.entries) {
+    if (
+      !entry ||
+      typeof entry.issuer !== 'string' ||
+      !entry.publicKeyJwk ||
+      typeof entry.publicKeyJwk !== 'object' ||
+      (entry.status !== undefined && !STATUSES.has(entry.status)) ||
+      (entry.validFrom !== undefined && !isTime(entry.validFrom)) ||
+      (entry.validTo !== undefined && !isTime(entry.validTo))
+    ) {
+      throw new ZkIdValidationError('Malformed trust list entry', 'entries');
+    }
+    trustListEntryPublicKey(entry);
+  }
+  return list;
+}
@@ -3,6 +3,8 @@
  */
 
 import type { SerializedBBSDisclosureProof } from './bbs';
+import type { PredicateProof } from './predicate-proof';
+import type { NationalitySet } from './nationality-set';
 
 /**
  * Credential represents a privacy-preserving identity commitment
@@ -13,6 +15,7 @@ import type { SerializedBBSDisclosureProof } from './bbs';
  * Extending the credential schema (e.g., adding dateOfBirth, name, or other attributes)
  * requires designing, auditing, and deploying new circuits with different Poseidon inputs.
  * Backwards compatibility is NOT automatic — new fields = new commitment = new circuits.
+ * For extensible attributes use a schema v2 SlottedCredential instead (see credential-schema.ts).
  */
 export interface Credential {
   /** Unique identifier for this credential */
@@ -23,7 +26,38 @@ export interface Credential {
   nationality: number;
   /** Random salt for privacy (used in commitment) */
   salt: string;
-  /** Poseidon hash commitment: H(birthYear, nationality, salt) — binds exactly 3 fields */
+  /**
+   * Poseidon hash commitment. v1: H(birthYear, nationality, salt).
+   * v2 (when expiryEpoch is set): H(birthYear, nationality, salt, expiryEpoch).
+   */
+  commitment: string;
+  /** ISO 8601 timestamp of credential creation */
+  createdAt: string;
+  /**
+   * Optional expiry as Unix seconds. When set, the commitment is the v2 form and
+   * expiry is enforced in-circuit by the expiring proof types.
+   */
+  expiryEpoch?: number;
+}
+
+/**
+ * Schema v2 credential: commits to a schema hash and a fixed-width vector of
+ * attribute slots, so new attributes only need a new schema, not new circuits.
+ *
+ * commitment = Poseidon(DOMAIN_CREDENTIAL_SLOTS, schemaHash, slots[0..7], salt)
+ */
+export interface SlottedCredential {
+  /** Unique identifier for this credential */
+  id: string;
+  /** Registry ID of the credential schema (e.g., 'zk-id/identity') */
+  schemaId: string;
+  /** Schema hash committed to (computeSchemaHash of the schema) */
+  schemaHash: string;
+  /** Attribute slot values, CREDENTIAL_SLOT_COUNT entries (unused slots are 0) */
+  slots: number[];
+  /** Random salt for privacy (used in commitment) */
+  salt: string;
+  /** Poseidon hash commitment over schemaHash, slots and salt */
   commitment: string;
   /** ISO 8601 timestamp of credential creation */
   createdAt: string;
@@ -40,6 +74,8 @@ export interface SignedCredential {
   issuedAt: string;
   /** Optional ISO 8601 timestamp when credential expires */
   expiresAt?: string;
+  /** Bitstring Status List entry assigned at issuance (embedded as VC credentialStatus) */
+  credentialStatus?: BitstringStatusListEntry;
 }
 
 export interface AgeProof {
@@ -83,6 +119,29 @@ export interface NationalityProof {
   };
 }
 
+export interface NationalitySetProof {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'nationality-set';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    /** ISO 3166-1 numeric codes, zero-padded to NATIONALITY_SET_SIZE */
+    nationalitySet: number[];
+    /** 0 = allow-list (must be a member), 1 = deny-list (must not be a member) */
+    isDenyList: number;
+    credentialHash: string;
+    nonce: string;
+    requestTimestamp: number;
+  };
+}
+
 export interface AgeProofRevocable {
   /** Discriminator for TypeScript discriminated unions */
   proofType: 'age-revocable';
@@ -105,6 +164,76 @@ export interface AgeProofRevocable {
   };
 }
 
+export interface NationalityProofRevocable {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'nationality-revocable';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    targetNationality: number;
+    credentialHash: string;
+    merkleRoot: string;
+    nonce: string;
+    requestTimestamp: number;
+  };
+}
+
+/**
+ * Age proof that keeps the credential commitment private.
+ * Membership in the issuer's valid-credential tree replaces the public credentialHash,
+ * so presentations of the same credential cannot be linked by verifiers.
+ */
+export interface AgeProofUnlinkable {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'age-unlinkable';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    currentYear: number;
+    minAge: number;
+    merkleRoot: string;
+    nonce: string;
+    requestTimestamp: number;
+  };
+}
+
+/**
+ * Nationality proof that keeps the credential commitment private.
+ */
+export interface NationalityProofUnlinkable {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'nationality-unlinkable';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    targetNationality: number;
+    merkleRoot: string;
+    nonce: string;
+    requestTimestamp: number;
+  };
+}
+
 export interface CircuitSignatureInputs {
   /** Issuer public key bits (packed point) */
   issuerPublicKey: string[];
@@ -134,6 +263,34 @@ export interface AgeProofSigned {
   };
 }
 
+/**
+ * Signed age proof over a v2 (expiring) credential. The circuit proves
+ * currentTimestamp < expiryEpoch without revealing the expiry.
+ */
+export interface AgeProofSignedExpiring {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'age-signed-expiring';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    currentYear: number;
+    minAge: number;
+    credentialHash: string;
+    /** Unix seconds the credential must still be valid at (floor of requestTimestamp / 1000) */
+    currentTimestamp: number;
+    nonce: string;
+    requestTimestamp: number;
+    issuerPublicKey: string[];
+  };
+}
+
 export interface NationalityProofSigned {
   /** Discriminator for TypeScript discriminated unions */
   proofType: 'nationality-signed';
@@ -153,6 +310,35 @@ export interface NationalityProofSigned {
   };
 }
 
+/**
+ * Full-assurance age proof: issuer signature, valid-set membership, age threshold
+ * and a scoped nullifier in one Groth16 proof. The credential hash stays private
+ * so proofs for different scopes cannot be linked.
+ */
+export interface AgeProofFull {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'age-full';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    currentYear: number;
+    minAge: number;
+    merkleRoot: string;
+    scopeHash: string;
+    nullifier: string;
+    nonce: string;
+    requestTimestamp: number;
+    issuerPublicKey: string[];
+  };
+}
+
 export interface NullifierProof {
   proofType: 'nullifier';
   proof: {
@@ -175,6 +361,48 @@ export interface BBSSelectiveDisclosureProof {
   revealedFields: Record<string, unknown>;
 }
 
+/**
+ * Generic predicate proof over one attribute slot of a schema v2 credential
+ */
+export interface SlotPredicateProof {
+  /** Discriminator for TypeScript discriminated unions */
+  proofType: 'slot-predicate';
+  /** The zero-knowledge proof data (Groth16 format) */
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  /** Public signals used in the proof */
+  publicSignals: {
+    /** Schema hash the credential commits to */
+    schemaHash: string;
+    credentialHash: string;
+    /** Index of the slot the predicate applies to */
+    slotIndex: number;
+    /** PredicateType (0=EQ, 1=NEQ, 2=GT, 3=LT, 4=GTE, 5=LTE, 6=RANGE) */
+    predicateType: number;
+    /** Comparison value (range minimum for RANGE) */
+    targetValue: number;
+    /** Range maximum (0 unless RANGE) */
+    rangeMax: number;
+    nonce: string;
+    requestTimestamp: number;
+  };
+}
+
+/** Credential attribute a range proof applies to */
+export type RangeFieldName = 'birthYear' | 'nationality';
+
+/**
+ * Range proof over a credential attribute.
+ *
+ * Public signals are ordered
+ * [valid, minValue, maxValue, commitment, nonce, requestTimestamp, fieldSelector],
+ * where commitment is the (v1) credential commitment the issuer signed.
+ */
 export interface RangeProof {
   proofType: 'range';
   proof: {
@@ -185,19 +413,27 @@ export interface RangeProof {
     curve: string;
   };
   publicSignals: string[];
-  fieldName: string;
+  fieldName: RangeFieldName;
 }
 
 /** Discriminated union of all ZK proof types */
 export type ZkProof =
   | AgeProof
   | NationalityProof
+  | NationalitySetProof
   | AgeProofRevocable
+  | NationalityProofRevocable
+  | AgeProofUnlinkable
+  | NationalityProofUnlinkable
   | AgeProofSigned
   | NationalityProofSigned
+  | AgeProofSignedExpiring
+  | AgeProofFull
   | NullifierProof
   | BBSSelectiveDisclosureProof
-  | RangeProof;
+  | RangeProof
+  | PredicateProof
+  | SlotPredicateProof;
 
 /** String literal type for all proof type discriminators */
 export type ProofType = ZkProof['proofType'];
@@ -216,11 +452,20 @@ export interface VerificationKey {
 
 export interface ProofRequest {
   /** Type of claim being proven */
-  claimType: 'age' | 'nationality' | 'age-revocable';
+  claimType:
+    | 'age'
+    | 'nationality'
+    | 'age-revocable'
+    | 'nationality-revocable'
+    | 'age-unlinkable'
+    | 'nationality-unlinkable'
+    | 'nationality-set';
   /** Minimum age required (for age claims) */
   minAge?: number;
   /** Target nationality to verify (for nationality claims) */
   targetNationality?: number;
+  /** Nationality allow/deny set (for nationality-set claims) */
+  nationalitySet?: NationalitySet;
   /** Nonce to prevent replay attacks */
   nonce: string;
   /** Timestamp of request */
@@ -228,13 +473,16 @@ export interface ProofRequest {
 }
 
 export interface ProofResponse {
-  /** The credential ID being proven */
-  credentialId: string;
+  /** The credential ID being proven. Omitted for unlinkable claims, where it would identify the holder. */
+  credentialId?: string;
   /** The type of claim */
   claimType: string;
   /** The zero-knowledge proof (use proof.proofType to discriminate) */
   proof: ZkProof;
-  /** Signed credential (binds issuer and commitment). Optional when requireSignedCredentials is false. */
+  /**
+   * Signed credential (binds issuer and commitment). Optional when requireSignedCredentials is false.
+   * Never sent with unlinkable claims: issuer attestation comes from valid-credential tree membership.
+   */
   signedCredential?: SignedCredential;
   /** Nonce from the request (for replay protection) */
   nonce: string;
@@ -297,6 +545,36 @@ export interface IssuedCredentialIndex {
   issuedCount(): Promise<number>;
 }
 
+/**
+ * W3C Bitstring Status List entry (`credentialStatus` of a VC)
+ */
+export interface BitstringStatusListEntry {
+  /** Entry identifier (`<statusListCredential>#<index>`) */
+  id: string;
+  type: 'BitstringStatusListEntry';
+  /** What a set bit means, e.g. `revocation` or `suspension` */
+  statusPurpose: string;
+  /** Bit position in the list (decimal string, per the spec) */
+  statusListIndex: string;
+  /** URL of the BitstringStatusListCredential */
+  statusListCredential: string;
+}
+
+/**
+ * Assigns Bitstring Status List indices to credentials and flips their bits.
+ *
+ * Indices are allocated once per commitment; setting the bit marks the
+ * credential with the list's status purpose (e.g. revoked).
+ */
+export interface StatusListPublisher {
+  /** Assign a status list entry to a commitment. Idempotent. */
+  assign(commitment: string): Promise<BitstringStatusListEntry>;
+  /** Get the entry assigned to a commitment, or null. */
+  getEntry(commitment: string): Promise<BitstringStatusListEntry | null>;
+  /** Set or clear the status bit of an assigned commitment. */
+  setStatus(commitment: string, flagged: boolean): Promise<void>;
+}
+
 export interface RevocationWitness {
   /** Merkle root at the time of issuance */
   root: string;
@@ -319,6 +597,69 @@ export interface RevocationRootInfo {
   ttlSeconds?: number;
   /** Identifier for the source/issuer of this root (optional) */
   source?: string;
+  /** Issuer or registry identity whose key signed this root (optional) */
+  issuer?: string;
+  /** Base64 Ed25519 signature over revocationRootSignaturePayload() (optional) */
+  signature?: string;
+}
+
+/**
+ * Subtree roots at a fixed level of a valid credential tree.
+ *
+ * Together with a witness bucket, lets a wallet rebuild its Merkle path
+ * locally without telling the server which commitment it holds.
+ */
+export interface TreeFrontier {
+  /** Merkle tree depth */
+  depth: number;
+  /** Level of the frontier nodes (0 = leaves) */
+  level: number;
+  /** Merkle root the frontier hashes up to */
+  root: string;
+  /** Root version the frontier was taken at */
+  version: number;
+  /** ISO 8601 timestamp of the root update */
+  updatedAt: string;
+  /** ISO 8601 timestamp after which wallets should reject this frontier (optional) */
+  expiresAt?: string;
+  /** Subtree roots at `level`, left to right (2^(depth - level) entries) */
+  nodes: string[];
+}
+
+/** Tree frontier signed by the issuer's Ed25519 key */
+export interface SignedTreeFrontier {
+  frontier: TreeFrontier;
+  /** Issuer identity bound into the signature */
+  issuer: string;
+  /** Base64 Ed25519 signature over treeFrontierSignaturePayload() */
+  signature: string;
+}
+
+/** Active leaf in a witness bucket, with its path up to the frontier */
+export interface WitnessBucketEntry {
+  /** Leaf index in the tree */
+  index: number;
+  /** Credential commitment at the leaf */
+  commitment: string;
+  /** Sibling hashes from the leaf up to the frontier level */
+  siblings: string[];
+}
+
+/**
+ * Every active leaf whose commitment shares the low `prefixBits` bits with
+ * `prefix`. Queries reveal only the prefix, so the requested commitment is
+ * hidden among all other commitments in the bucket.
+ */
+export interface WitnessBucket {
+  prefix: number;
+  prefixBits: number;
+  /** Frontier level the entry siblings stop at */
+  level: number;
+  /** Merkle root the bucket was taken at */
+  root: string;
+  /** Root version the bucket was taken at */
+  version: number;
+  entries: WitnessBucketEntry[];
 }
 
 // ---------------------------------------------------------------------------
@@ -333,13 +674,7 @@ export interface AuditEntry {
   timestamp: string;
   /** Action that occurred */
   action:
-    | 'issue'
-    | 'revoke'
-    | 'verify'
-    | 'suspend'
-    | 'reactivate'
-    | 'deactivate'
-    | 'grace_period_accept';
+    'issue' | 'revoke' | 'verify' | 'suspend' | 'reactivate' | 'deactivate' | 'grace_period_accept';
   /** Actor (issuer name, verifier identifier) */
   actor: string;
   /** Target identifier (credential ID, commitment, issuer name) */
@@ -414,6 +749,12 @@ export interface ValidCredentialTree {
   getRootInfo?(): Promise<RevocationRootInfo>;
   /** Generate Merkle witness for a credential */
   getWitness(commitment: string): Promise<RevocationWitness | null>;
+  /** Get subtree roots at a frontier level (if supported) */
+  getFrontier?(level: number): Promise<TreeFrontier>;
+  /** Get the issuer-signed frontier at a level (if the tree signs frontiers) */
+  getSignedFrontier?(level: number): Promise<SignedTreeFrontier>;
+  /** Get all active leaves in a commitment prefix bucket (if supported) */
+  getWitnessBucket?(prefix: number, prefixBits: number, level: number): Promise<WitnessBucket>;
   /** Get the number of credentials in the tree */
   size(): Promise<number>;
 }
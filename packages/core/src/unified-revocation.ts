@@ -11,6 +11,9 @@
  *      that was ever issued. Never deleted from. Lets us distinguish
  *      "revoked" (was issued, removed from tree) from "never issued".
  *
+ * An optional StatusListPublisher mirrors revocations into a W3C Bitstring
+ * Status List so standard VC verifiers see them too.
+ *
  * The old RevocationStore (blacklist) is no longer used here. It remains
  * available as a standalone component for consumers that need it.
  */
@@ -20,6 +23,7 @@ import {
   RevocationWitness,
   RevocationRootInfo,
   IssuedCredentialIndex,
+  StatusListPublisher,
 } from './types';
 import { ZkIdValidationError } from './errors';
 
@@ -73,6 +77,8 @@ export interface UnifiedRevocationConfig {
   validTree: ValidCredentialTree;
   /** Append-only index of issued credentials (distinguishes revoked from never-issued). */
   issuedIndex?: IssuedCredentialIndex;
+  /** Bitstring status list updated on revoke/reactivate (for W3C VC verifiers). */
+  statusList?: StatusListPublisher;
 }
 
 /** Credential status as determined by the unified manager. */
@@ -99,10 +105,12 @@ export type CredentialStatus = 'valid' | 'revoked' | 'unknown';
 export class UnifiedRevocationManager {
   private readonly validTree: ValidCredentialTree;
   private readonly issuedIndex?: IssuedCredentialIndex;
+  private readonly statusList?: StatusListPublisher;
 
   constructor(config: UnifiedRevocationConfig) {
     this.validTree = config.validTree;
     this.issuedIndex = config.issuedIndex;
+    this.statusList = config.statusList;
   }
 
   // -----------------------------------------------------------------------
@@ -128,17 +136,27 @@ export class UnifiedRevocationManager {
    *
    * The issued-credential index is NOT modified (append-only) so the
    * commitment can still be recognized as "was issued, now revoked".
+   *
+   * If the credential has a status list entry, its bit is set as well.
    */
   async revokeCredential(commitment: string): Promise<void> {
     await this.validTree.remove(commitment);
+    await this.updateStatusList(commitment, true);
   }
 
   /**
    * Re-activate a previously revoked credential by adding it back
-   * to the Merkle tree.
+   * to the Merkle tree (and clearing its status list bit).
    */
   async reactivateCredential(commitment: string): Promise<void> {
     await this.validTree.add(commitment);
+    await this.updateStatusList(commitment, false);
+  }
+
+  private async updateStatusList(commitment: string, revoked: boolean): Promise<void> {
+    if (this.statusList && (await this.statusList.getEntry(commitment))) {
+      await this.statusList.setStatus(commitment, revoked);
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -1,6 +1,13 @@
 import { poseidonHashDomain, DOMAIN_MERKLE } from './poseidon';
-import { ValidCredentialTree, RevocationWitness, RevocationRootInfo } from './types';
+import {
+  ValidCredentialTree,
+  RevocationWitness,
+  RevocationRootInfo,
+  TreeFrontier,
+  WitnessBucket,
+} from './types';
 import { ZkIdConfigError, ZkIdValidationError } from './errors';
+import { validateWitnessBucketQuery } from './private-witness';
 
 const DEFAULT_TREE_DEPTH = 10;
 const MAX_TREE_DEPTH = 20;
@@ -155,6 +162,55 @@ export class InMemoryValidCredentialTree implements ValidCredentialTree {
     return { root, pathIndices, siblings };
   }
 
+  async getFrontier(level: number): Promise<TreeFrontier> {
+    await this.ensureReady();
+    this.validateFrontierLevel(level);
+
+    return {
+      depth: this.depth,
+      level,
+      root: this.layers[this.depth][0].toString(),
+      version: this.rootVersion,
+      updatedAt: this.updatedAt,
+      nodes: this.layers[level].map((node) => node.toString()),
+    };
+  }
+
+  async getWitnessBucket(
+    prefix: number,
+    prefixBits: number,
+    level: number,
+  ): Promise<WitnessBucket> {
+    await this.ensureReady();
+    validateWitnessBucketQuery(prefix, prefixBits);
+    this.validateFrontierLevel(level);
+
+    const mask = (1n << BigInt(prefixBits)) - 1n;
+    const entries: WitnessBucket['entries'] = [];
+    for (const index of [...this.indexByCommitment.values()].sort((a, b) => a - b)) {
+      const leaf = this.layers[0][index];
+      if ((leaf & mask) !== BigInt(prefix)) {
+        continue;
+      }
+      const siblings: string[] = [];
+      let cursor = index;
+      for (let i = 0; i < level; i++) {
+        siblings.push(this.layers[i][cursor ^ 1].toString());
+        cursor = Math.floor(cursor / 2);
+      }
+      entries.push({ index, commitment: leaf.toString(), siblings });
+    }
+
+    return {
+      prefix,
+      prefixBits,
+      level,
+      root: this.layers[this.depth][0].toString(),
+      version: this.rootVersion,
+      entries,
+    };
+  }
+
   async size(): Promise<number> {
     return this.indexByCommitment.size;
   }
@@ -180,6 +236,12 @@ export class InMemoryValidCredentialTree implements ValidCredentialTree {
     }
   }
 
+  private validateFrontierLevel(level: number): void {
+    if (!Number.isInteger(level) || level < 0 || level > this.depth) {
+      throw new ZkIdValidationError(`Frontier level must be between 0 and ${this.depth}`, 'level');
+    }
+  }
+
   private normalizeCommitment(commitment: string): string {
     try {
       return BigInt(commitment).toString();
@@ -42,8 +42,21 @@ export const MAX_HEX_STRING_LENGTH = 128;
 /** Maximum scope ID length. */
 export const MAX_SCOPE_ID_LENGTH = 256;
 
+/** Exclusive upper bound for expiry epochs (Unix seconds); matches the 40-bit range check in the circuits */
+export const MAX_EXPIRY_EPOCH = 2 ** 40;
+
 /** Valid claim types for ZK identity proofs. */
-export const VALID_CLAIM_TYPES = ['age', 'nationality', 'age-revocable'] as const;
+export const VALID_CLAIM_TYPES = [
+  'age',
+  'nationality',
+  'age-revocable',
+  'nationality-revocable',
+  'age-unlinkable',
+  'nationality-unlinkable',
+  'nationality-set',
+  'range',
+  'predicate',
+] as const;
 
 /** Type representing valid claim types. */
 export type ClaimType = (typeof VALID_CLAIM_TYPES)[number];
@@ -203,6 +216,19 @@ export function validateHexString(
   }
 }
 
+/**
+ * Validate a credential expiry epoch (Unix seconds).
+ * @throws ZkIdValidationError if not a positive integer below MAX_EXPIRY_EPOCH
+ */
+export function validateExpiryEpoch(expiryEpoch: number): void {
+  if (!Number.isInteger(expiryEpoch) || expiryEpoch <= 0 || expiryEpoch >= MAX_EXPIRY_EPOCH) {
+    throw new ZkIdValidationError(
+      `expiryEpoch must be a positive integer below ${MAX_EXPIRY_EPOCH} (Unix seconds)`,
+      'expiryEpoch',
+    );
+  }
+}
+
 /**
  * Validate a scope ID for nullifier computation.
  * @throws Error if invalid
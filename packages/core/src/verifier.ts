@@ -5,16 +5,27 @@ import {
   AgeProofSigned,
   NationalityProofSigned,
   AgeProofRevocable,
+  NationalityProofRevocable,
+  AgeProofUnlinkable,
+  NationalityProofUnlinkable,
+  AgeProofFull,
+  AgeProofSignedExpiring,
   VerificationKey,
   BatchVerificationResult,
   ZkProof,
   NullifierProof,
   BBSProofResponse,
+  RangeProof,
+  NationalitySetProof,
+  SlotPredicateProof,
 } from './types';
 import { constantTimeEqual, constantTimeArrayEqual } from './timing-safe';
 import { ZkIdProofError, ZkIdConfigError } from './errors';
 import { deserializeBBSProof, verifyBBSDisclosureProof } from './bbs';
 import { SCHEMA_REGISTRY } from './bbs-schema';
+import { PredicateType, RANGE_FIELD_SELECTORS, verifyPredicateProof } from './predicate-proof';
+import { NATIONALITY_SET_SIZE } from './nationality-set';
+import { CREDENTIAL_SLOT_COUNT, MAX_SLOT_VALUE } from './credential-schema';
 
 /** Default staleness window for request timestamps (5 minutes). */
 const STALE_TIMESTAMP_MS = 5 * 60 * 1000;
@@ -49,6 +60,18 @@ function validateCommonSignals(
   ) {
     errors.push('Missing or invalid credential hash');
   }
+  validateBindingSignals(signals, errors, windowMs);
+}
+
+/**
+ * Validates the request-binding fields (nonce, requestTimestamp, staleness).
+ * Used directly by unlinkable proofs, which carry no credentialHash.
+ */
+function validateBindingSignals(
+  signals: { nonce: string; requestTimestamp: number },
+  errors: string[],
+  windowMs: number = STALE_TIMESTAMP_MS,
+): void {
   // Nonce
   if (!signals.nonce || signals.nonce.length === 0) {
     errors.push('Missing nonce');
@@ -85,9 +108,599 @@ export async function verifyAgeProof(
 
   // Convert public signals to array
   const publicSignals = [
-    proof.publicSignals.currentYear.toString(),
-    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.currentYear.toString(),
+    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+  ];
+
+  // Verify the proof
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Additional validation checks beyond cryptographic verification
+ *
+ * @param proof - The age proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateProofConstraints(proof: AgeProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  // Check that current year is reasonable
+  const now = new Date().getFullYear();
+  if (proof.publicSignals.currentYear < 2020 || proof.publicSignals.currentYear > now + 1) {
+    errors.push('Invalid current year in proof');
+  }
+
+  // Check that minAge is reasonable
+  if (proof.publicSignals.minAge < 0 || proof.publicSignals.minAge > 150) {
+    errors.push('Invalid minimum age requirement');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a nationality proof using the verification key
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyNationalityProof(
+  proof: NationalityProof,
+  verificationKey: VerificationKey,
+): Promise<boolean> {
+  // Convert proof to snarkjs format
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Convert public signals to array
+  const publicSignals = [
+    proof.publicSignals.targetNationality.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+  ];
+
+  // Verify the proof
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Verifies a signed age proof (includes issuer public key bits in public signals)
+ *
+ * @param proof - The signed age proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyAgeProofSigned(
+  proof: AgeProofSigned,
+  verificationKey: VerificationKey,
+): Promise<boolean> {
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  const publicSignals = [
+    proof.publicSignals.currentYear.toString(),
+    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+    ...proof.publicSignals.issuerPublicKey,
+  ];
+
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Verifies a signed age proof and checks the issuer public key matches the trusted key
+ *
+ * @param proof - The signed age proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param issuerPublicKeyBits - Trusted issuer public key bits to verify against
+ * @returns true if the proof is valid and issuer matches, false otherwise
+ */
+export async function verifyAgeProofSignedWithIssuer(
+  proof: AgeProofSigned,
+  verificationKey: VerificationKey,
+  trustedIssuerPublicKeyBits: string[],
+): Promise<boolean> {
+  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
+    return false;
+  }
+  return verifyAgeProofSigned(proof, verificationKey);
+}
+
+/**
+ * Verifies a signed age proof over a v2 (expiring) credential
+ *
+ * @param proof - The expiring signed age proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyAgeProofSignedExpiring(
+  proof: AgeProofSignedExpiring,
+  verificationKey: VerificationKey,
+): Promise<boolean> {
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Index mapping: [0]=currentYear, [1]=minAge, [2]=credentialHash, [3]=currentTimestamp,
+  // [4]=nonce, [5]=requestTimestamp, [6..261]=issuerPublicKey
+  const publicSignals = [
+    proof.publicSignals.currentYear.toString(),
+    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.currentTimestamp.toString(),
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+    ...proof.publicSignals.issuerPublicKey,
+  ];
+
+  return snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+}
+
+/**
+ * Verifies an expiring signed age proof and checks the issuer public key matches the trusted key
+ *
+ * @param proof - The expiring signed age proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param trustedIssuerPublicKeyBits - Trusted issuer public key bits to verify against
+ * @returns true if the proof is valid and issuer matches, false otherwise
+ */
+export async function verifyAgeProofSignedExpiringWithIssuer(
+  proof: AgeProofSignedExpiring,
+  verificationKey: VerificationKey,
+  trustedIssuerPublicKeyBits: string[],
+): Promise<boolean> {
+  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
+    return false;
+  }
+  return verifyAgeProofSignedExpiring(proof, verificationKey);
+}
+
+/**
+ * Additional validation checks for expiring signed age proofs
+ *
+ * The expiry comparison happens in-circuit against currentTimestamp, so the
+ * verifier must make sure currentTimestamp is the request time and not a
+ * back-dated value chosen by the prover.
+ *
+ * @param proof - The expiring signed age proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateAgeProofSignedExpiringConstraints(proof: AgeProofSignedExpiring): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const signals = proof.publicSignals;
+
+  const now = new Date().getFullYear();
+  if (signals.currentYear < 2020 || signals.currentYear > now + 1) {
+    errors.push('Invalid current year in proof');
+  }
+  if (signals.minAge < 0 || signals.minAge > 150) {
+    errors.push('Invalid minimum age requirement');
+  }
+  if (
+    !Number.isInteger(signals.currentTimestamp) ||
+    signals.currentTimestamp !== Math.floor(signals.requestTimestamp / 1000)
+  ) {
+    errors.push('Expiry check timestamp does not match request timestamp');
+  }
+  if (!Array.isArray(signals.issuerPublicKey) || signals.issuerPublicKey.length !== 256) {
+    errors.push('Issuer public key must have 256 bits');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(signals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a signed nationality proof (includes issuer public key bits in public signals)
+ *
+ * @param proof - The signed nationality proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyNationalityProofSigned(
+  proof: NationalityProofSigned,
+  verificationKey: VerificationKey,
+): Promise<boolean> {
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  const publicSignals = [
+    proof.publicSignals.targetNationality.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+    ...proof.publicSignals.issuerPublicKey,
+  ];
+
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Verifies a signed nationality proof and checks the issuer public key matches the trusted key
+ *
+ * @param proof - The signed nationality proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param issuerPublicKeyBits - Trusted issuer public key bits to verify against
+ * @returns true if the proof is valid and issuer matches, false otherwise
+ */
+export async function verifyNationalityProofSignedWithIssuer(
+  proof: NationalityProofSigned,
+  verificationKey: VerificationKey,
+  trustedIssuerPublicKeyBits: string[],
+): Promise<boolean> {
+  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
+    return false;
+  }
+  return verifyNationalityProofSigned(proof, verificationKey);
+}
+
+/**
+ * Additional validation checks for nationality proofs
+ *
+ * @param proof - The nationality proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateNationalityProofConstraints(proof: NationalityProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  // Check that nationality code is valid (ISO 3166-1 numeric: 1-999)
+  if (proof.publicSignals.targetNationality < 1 || proof.publicSignals.targetNationality > 999) {
+    errors.push('Invalid nationality code in proof');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a nationality set (allow-list / deny-list) proof using the verification key
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyNationalitySetProof(
+  proof: NationalitySetProof,
+  verificationKey: VerificationKey,
+): Promise<boolean> {
+  // Convert proof to snarkjs format
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Convert public signals to array
+  const publicSignals = [
+    ...proof.publicSignals.nationalitySet.map((code) => code.toString()),
+    proof.publicSignals.isDenyList.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+  ];
+
+  // Verify the proof
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Additional validation checks for nationality set proofs
+ *
+ * @param proof - The nationality set proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateNationalitySetProofConstraints(proof: NationalitySetProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { nationalitySet, isDenyList } = proof.publicSignals;
+
+  // Set must be exactly the circuit width, with valid codes and zero padding
+  if (!Array.isArray(nationalitySet) || nationalitySet.length !== NATIONALITY_SET_SIZE) {
+    errors.push(`Nationality set must have exactly ${NATIONALITY_SET_SIZE} entries`);
+  } else {
+    const codes = nationalitySet.filter((code) => code !== 0);
+    if (codes.length === 0) {
+      errors.push('Nationality set is empty');
+    }
+    if (nationalitySet.some((code) => !Number.isInteger(code) || code < 0 || code > 999)) {
+      errors.push('Invalid nationality code in set');
+    }
+  }
+
+  if (isDenyList !== 0 && isDenyList !== 1) {
+    errors.push('Invalid set mode in proof');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a slot predicate proof over a schema v2 credential
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param expectedSchemaHash - Optional schema hash the credential must commit to
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifySlotPredicateProof(
+  proof: SlotPredicateProof,
+  verificationKey: VerificationKey,
+  expectedSchemaHash?: string,
+): Promise<boolean> {
+  if (
+    expectedSchemaHash != null &&
+    !constantTimeEqual(proof.publicSignals.schemaHash, expectedSchemaHash)
+  ) {
+    return false;
+  }
+
+  // Convert proof to snarkjs format
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Convert public signals to array
+  const publicSignals = [
+    proof.publicSignals.schemaHash,
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.slotIndex.toString(),
+    proof.publicSignals.predicateType.toString(),
+    proof.publicSignals.targetValue.toString(),
+    proof.publicSignals.rangeMax.toString(),
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+  ];
+
+  // Verify the proof
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Additional validation checks for slot predicate proofs
+ *
+ * @param proof - The slot predicate proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateSlotPredicateProofConstraints(proof: SlotPredicateProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { schemaHash, slotIndex, predicateType, targetValue, rangeMax } = proof.publicSignals;
+  const isSlotValue = (value: number) =>
+    Number.isInteger(value) && value >= 0 && value <= MAX_SLOT_VALUE;
+
+  if (!isValidBigIntString(schemaHash) || schemaHash === '0') {
+    errors.push('Missing or invalid schema hash');
+  }
+  if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= CREDENTIAL_SLOT_COUNT) {
+    errors.push('Invalid slot index in proof');
+  }
+  if (!Object.values(PredicateType).includes(predicateType)) {
+    errors.push('Invalid predicate type in proof');
+  }
+  if (!isSlotValue(targetValue)) {
+    errors.push('Invalid predicate target value');
+  }
+  if (predicateType === PredicateType.RANGE) {
+    if (!isSlotValue(rangeMax) || rangeMax < targetValue) {
+      errors.push('Invalid predicate range bounds');
+    }
+  } else if (rangeMax !== 0) {
+    errors.push('Range maximum must be 0 for non-range predicates');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a revocable age proof using the verification key
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param expectedMerkleRoot - Optional expected Merkle root for freshness check
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyAgeProofRevocable(
+  proof: AgeProofRevocable,
+  verificationKey: VerificationKey,
+  expectedMerkleRoot?: string,
+): Promise<boolean> {
+  // Optional server-side freshness check
+  if (
+    expectedMerkleRoot != null &&
+    !constantTimeEqual(proof.publicSignals.merkleRoot, expectedMerkleRoot)
+  ) {
+    return false;
+  }
+
+  // Convert proof to snarkjs format
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Convert public signals to array
+  // Index mapping: [0]=currentYear, [1]=minAge, [2]=credentialHash, [3]=merkleRoot, [4]=nonce, [5]=requestTimestamp
+  const publicSignals = [
+    proof.publicSignals.currentYear.toString(),
+    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.credentialHash,
+    proof.publicSignals.merkleRoot,
+    proof.publicSignals.nonce,
+    proof.publicSignals.requestTimestamp.toString(),
+  ];
+
+  // Verify the proof
+  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+
+  return isValid;
+}
+
+/**
+ * Additional validation checks for revocable age proofs
+ *
+ * @param proof - The revocable age proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateAgeProofRevocableConstraints(proof: AgeProofRevocable): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  // Check that current year is reasonable
+  const now = new Date().getFullYear();
+  if (proof.publicSignals.currentYear < 2020 || proof.publicSignals.currentYear > now + 1) {
+    errors.push('Invalid current year in proof');
+  }
+
+  // Check that minAge is reasonable
+  if (proof.publicSignals.minAge < 0 || proof.publicSignals.minAge > 150) {
+    errors.push('Invalid minimum age requirement');
+  }
+
+  // Check that merkle root is a valid numeric string
+  if (
+    !proof.publicSignals.merkleRoot ||
+    proof.publicSignals.merkleRoot === '0' ||
+    !isValidBigIntString(proof.publicSignals.merkleRoot)
+  ) {
+    errors.push('Missing or invalid merkle root');
+  }
+
+  // Common signal checks (credentialHash, nonce, timestamp, staleness)
+  validateCommonSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verifies a revocable nationality proof using the verification key
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param expectedMerkleRoot - Optional expected Merkle root for freshness check
+ * @returns true if the proof is valid, false otherwise
+ */
+export async function verifyNationalityProofRevocable(
+  proof: NationalityProofRevocable,
+  verificationKey: VerificationKey,
+  expectedMerkleRoot?: string,
+): Promise<boolean> {
+  // Optional server-side freshness check
+  if (
+    expectedMerkleRoot != null &&
+    !constantTimeEqual(proof.publicSignals.merkleRoot, expectedMerkleRoot)
+  ) {
+    return false;
+  }
+
+  // Convert proof to snarkjs format
+  const snarkProof = {
+    pi_a: proof.proof.pi_a,
+    pi_b: proof.proof.pi_b,
+    pi_c: proof.proof.pi_c,
+    protocol: proof.proof.protocol,
+    curve: proof.proof.curve,
+  };
+
+  // Convert public signals to array
+  // Index mapping: [0]=targetNationality, [1]=credentialHash, [2]=merkleRoot, [3]=nonce, [4]=requestTimestamp
+  const publicSignals = [
+    proof.publicSignals.targetNationality.toString(),
     proof.publicSignals.credentialHash,
+    proof.publicSignals.merkleRoot,
     proof.publicSignals.nonce,
     proof.publicSignals.requestTimestamp.toString(),
   ];
@@ -99,26 +712,29 @@ export async function verifyAgeProof(
 }
 
 /**
- * Additional validation checks beyond cryptographic verification
+ * Additional validation checks for revocable nationality proofs
  *
- * @param proof - The age proof to validate
+ * @param proof - The revocable nationality proof to validate
  * @returns Object containing validation result and any error messages
  */
-export function validateProofConstraints(proof: AgeProof): {
+export function validateNationalityProofRevocableConstraints(proof: NationalityProofRevocable): {
   valid: boolean;
   errors: string[];
 } {
   const errors: string[] = [];
 
-  // Check that current year is reasonable
-  const now = new Date().getFullYear();
-  if (proof.publicSignals.currentYear < 2020 || proof.publicSignals.currentYear > now + 1) {
-    errors.push('Invalid current year in proof');
+  // Check that nationality code is valid (ISO 3166-1 numeric: 1-999)
+  if (proof.publicSignals.targetNationality < 1 || proof.publicSignals.targetNationality > 999) {
+    errors.push('Invalid nationality code in proof');
   }
 
-  // Check that minAge is reasonable
-  if (proof.publicSignals.minAge < 0 || proof.publicSignals.minAge > 150) {
-    errors.push('Invalid minimum age requirement');
+  // Check that merkle root is a valid numeric string
+  if (
+    !proof.publicSignals.merkleRoot ||
+    proof.publicSignals.merkleRoot === '0' ||
+    !isValidBigIntString(proof.publicSignals.merkleRoot)
+  ) {
+    errors.push('Missing or invalid merkle root');
   }
 
   // Common signal checks (credentialHash, nonce, timestamp, staleness)
@@ -131,16 +747,29 @@ export function validateProofConstraints(proof: AgeProof): {
 }
 
 /**
- * Verifies a nationality proof using the verification key
+ * Verifies an unlinkable age proof using the verification key
+ *
+ * The proof carries no credential commitment, so the Merkle root is the only link to the
+ * issuer. Callers must pass the root of the issuer's valid credential tree; without it a
+ * prover could build their own tree around an arbitrary commitment.
  *
  * @param proof - The proof to verify
  * @param verificationKey - The circuit's verification key (public)
+ * @param expectedMerkleRoot - Expected root of the issuer's valid credential tree
  * @returns true if the proof is valid, false otherwise
  */
-export async function verifyNationalityProof(
-  proof: NationalityProof,
+export async function verifyAgeProofUnlinkable(
+  proof: AgeProofUnlinkable,
   verificationKey: VerificationKey,
+  expectedMerkleRoot?: string,
 ): Promise<boolean> {
+  if (
+    expectedMerkleRoot != null &&
+    !constantTimeEqual(proof.publicSignals.merkleRoot, expectedMerkleRoot)
+  ) {
+    return false;
+  }
+
   // Convert proof to snarkjs format
   const snarkProof = {
     pi_a: proof.proof.pi_a,
@@ -151,9 +780,11 @@ export async function verifyNationalityProof(
   };
 
   // Convert public signals to array
+  // Index mapping: [0]=currentYear, [1]=minAge, [2]=merkleRoot, [3]=nonce, [4]=requestTimestamp
   const publicSignals = [
-    proof.publicSignals.targetNationality.toString(),
-    proof.publicSignals.credentialHash,
+    proof.publicSignals.currentYear.toString(),
+    proof.publicSignals.minAge.toString(),
+    proof.publicSignals.merkleRoot,
     proof.publicSignals.nonce,
     proof.publicSignals.requestTimestamp.toString(),
   ];
@@ -165,68 +796,67 @@ export async function verifyNationalityProof(
 }
 
 /**
- * Verifies a signed age proof (includes issuer public key bits in public signals)
+ * Additional validation checks for unlinkable age proofs
  *
- * @param proof - The signed age proof to verify
- * @param verificationKey - The circuit's verification key (public)
- * @returns true if the proof is valid, false otherwise
+ * @param proof - The unlinkable age proof to validate
+ * @returns Object containing validation result and any error messages
  */
-export async function verifyAgeProofSigned(
-  proof: AgeProofSigned,
-  verificationKey: VerificationKey,
-): Promise<boolean> {
-  const snarkProof = {
-    pi_a: proof.proof.pi_a,
-    pi_b: proof.proof.pi_b,
-    pi_c: proof.proof.pi_c,
-    protocol: proof.proof.protocol,
-    curve: proof.proof.curve,
-  };
+export function validateAgeProofUnlinkableConstraints(proof: AgeProofUnlinkable): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
 
-  const publicSignals = [
-    proof.publicSignals.currentYear.toString(),
-    proof.publicSignals.minAge.toString(),
-    proof.publicSignals.credentialHash,
-    proof.publicSignals.nonce,
-    proof.publicSignals.requestTimestamp.toString(),
-    ...proof.publicSignals.issuerPublicKey,
-  ];
+  // Check that current year is reasonable
+  const now = new Date().getFullYear();
+  if (proof.publicSignals.currentYear < 2020 || proof.publicSignals.currentYear > now + 1) {
+    errors.push('Invalid current year in proof');
+  }
 
-  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+  // Check that minAge is reasonable
+  if (proof.publicSignals.minAge < 0 || proof.publicSignals.minAge > 150) {
+    errors.push('Invalid minimum age requirement');
+  }
 
-  return isValid;
+  // Check that merkle root is a valid numeric string
+  if (
+    !proof.publicSignals.merkleRoot ||
+    proof.publicSignals.merkleRoot === '0' ||
+    !isValidBigIntString(proof.publicSignals.merkleRoot)
+  ) {
+    errors.push('Missing or invalid merkle root');
+  }
+
+  // Binding signal checks (nonce, timestamp, staleness)
+  validateBindingSignals(proof.publicSignals, errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
 }
 
 /**
- * Verifies a signed age proof and checks the issuer public key matches the trusted key
+ * Verifies an unlinkable nationality proof using the verification key
  *
- * @param proof - The signed age proof to verify
+ * @param proof - The proof to verify
  * @param verificationKey - The circuit's verification key (public)
- * @param issuerPublicKeyBits - Trusted issuer public key bits to verify against
- * @returns true if the proof is valid and issuer matches, false otherwise
+ * @param expectedMerkleRoot - Expected root of the issuer's valid credential tree
+ * @returns true if the proof is valid, false otherwise
  */
-export async function verifyAgeProofSignedWithIssuer(
-  proof: AgeProofSigned,
+export async function verifyNationalityProofUnlinkable(
+  proof: NationalityProofUnlinkable,
   verificationKey: VerificationKey,
-  trustedIssuerPublicKeyBits: string[],
+  expectedMerkleRoot?: string,
 ): Promise<boolean> {
-  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
+  if (
+    expectedMerkleRoot != null &&
+    !constantTimeEqual(proof.publicSignals.merkleRoot, expectedMerkleRoot)
+  ) {
     return false;
   }
-  return verifyAgeProofSigned(proof, verificationKey);
-}
 
-/**
- * Verifies a signed nationality proof (includes issuer public key bits in public signals)
- *
- * @param proof - The signed nationality proof to verify
- * @param verificationKey - The circuit's verification key (public)
- * @returns true if the proof is valid, false otherwise
- */
-export async function verifyNationalityProofSigned(
-  proof: NationalityProofSigned,
-  verificationKey: VerificationKey,
-): Promise<boolean> {
+  // Convert proof to snarkjs format
   const snarkProof = {
     pi_a: proof.proof.pi_a,
     pi_b: proof.proof.pi_b,
@@ -235,45 +865,28 @@ export async function verifyNationalityProofSigned(
     curve: proof.proof.curve,
   };
 
+  // Convert public signals to array
+  // Index mapping: [0]=targetNationality, [1]=merkleRoot, [2]=nonce, [3]=requestTimestamp
   const publicSignals = [
     proof.publicSignals.targetNationality.toString(),
-    proof.publicSignals.credentialHash,
+    proof.publicSignals.merkleRoot,
     proof.publicSignals.nonce,
     proof.publicSignals.requestTimestamp.toString(),
-    ...proof.publicSignals.issuerPublicKey,
   ];
 
+  // Verify the proof
   const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
 
   return isValid;
 }
 
 /**
- * Verifies a signed nationality proof and checks the issuer public key matches the trusted key
- *
- * @param proof - The signed nationality proof to verify
- * @param verificationKey - The circuit's verification key (public)
- * @param issuerPublicKeyBits - Trusted issuer public key bits to verify against
- * @returns true if the proof is valid and issuer matches, false otherwise
- */
-export async function verifyNationalityProofSignedWithIssuer(
-  proof: NationalityProofSigned,
-  verificationKey: VerificationKey,
-  trustedIssuerPublicKeyBits: string[],
-): Promise<boolean> {
-  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
-    return false;
-  }
-  return verifyNationalityProofSigned(proof, verificationKey);
-}
-
-/**
- * Additional validation checks for nationality proofs
+ * Additional validation checks for unlinkable nationality proofs
  *
- * @param proof - The nationality proof to validate
+ * @param proof - The unlinkable nationality proof to validate
  * @returns Object containing validation result and any error messages
  */
-export function validateNationalityProofConstraints(proof: NationalityProof): {
+export function validateNationalityProofUnlinkableConstraints(proof: NationalityProofUnlinkable): {
   valid: boolean;
   errors: string[];
 } {
@@ -284,8 +897,17 @@ export function validateNationalityProofConstraints(proof: NationalityProof): {
     errors.push('Invalid nationality code in proof');
   }
 
-  // Common signal checks (credentialHash, nonce, timestamp, staleness)
-  validateCommonSignals(proof.publicSignals, errors);
+  // Check that merkle root is a valid numeric string
+  if (
+    !proof.publicSignals.merkleRoot ||
+    proof.publicSignals.merkleRoot === '0' ||
+    !isValidBigIntString(proof.publicSignals.merkleRoot)
+  ) {
+    errors.push('Missing or invalid merkle root');
+  }
+
+  // Binding signal checks (nonce, timestamp, staleness)
+  validateBindingSignals(proof.publicSignals, errors);
 
   return {
     valid: errors.length === 0,
@@ -294,19 +916,18 @@ export function validateNationalityProofConstraints(proof: NationalityProof): {
 }
 
 /**
- * Verifies a revocable age proof using the verification key
+ * Verifies a full-assurance age proof (signature + revocation + nullifier)
  *
  * @param proof - The proof to verify
  * @param verificationKey - The circuit's verification key (public)
  * @param expectedMerkleRoot - Optional expected Merkle root for freshness check
  * @returns true if the proof is valid, false otherwise
  */
-export async function verifyAgeProofRevocable(
-  proof: AgeProofRevocable,
+export async function verifyAgeProofFull(
+  proof: AgeProofFull,
   verificationKey: VerificationKey,
   expectedMerkleRoot?: string,
 ): Promise<boolean> {
-  // Optional server-side freshness check
   if (
     expectedMerkleRoot != null &&
     !constantTimeEqual(proof.publicSignals.merkleRoot, expectedMerkleRoot)
@@ -314,7 +935,6 @@ export async function verifyAgeProofRevocable(
     return false;
   }
 
-  // Convert proof to snarkjs format
   const snarkProof = {
     pi_a: proof.proof.pi_a,
     pi_b: proof.proof.pi_b,
@@ -323,57 +943,90 @@ export async function verifyAgeProofRevocable(
     curve: proof.proof.curve,
   };
 
-  // Convert public signals to array
-  // Index mapping: [0]=currentYear, [1]=minAge, [2]=credentialHash, [3]=merkleRoot, [4]=nonce, [5]=requestTimestamp
+  // Index mapping: [0]=currentYear, [1]=minAge, [2]=merkleRoot, [3]=scopeHash,
+  // [4]=nullifier, [5]=nonce, [6]=requestTimestamp, [7..262]=issuerPublicKey
   const publicSignals = [
     proof.publicSignals.currentYear.toString(),
     proof.publicSignals.minAge.toString(),
-    proof.publicSignals.credentialHash,
     proof.publicSignals.merkleRoot,
+    proof.publicSignals.scopeHash,
+    proof.publicSignals.nullifier,
     proof.publicSignals.nonce,
     proof.publicSignals.requestTimestamp.toString(),
+    ...proof.publicSignals.issuerPublicKey,
   ];
 
-  // Verify the proof
-  const isValid = await snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+  return snarkjs.groth16.verify(verificationKey, publicSignals, snarkProof);
+}
 
-  return isValid;
+/**
+ * Verifies a full-assurance age proof and checks the issuer public key matches the trusted key
+ *
+ * @param proof - The proof to verify
+ * @param verificationKey - The circuit's verification key (public)
+ * @param trustedIssuerPublicKeyBits - Trusted issuer public key bits to verify against
+ * @param expectedMerkleRoot - Optional expected Merkle root for freshness check
+ * @returns true if the proof is valid and issuer matches, false otherwise
+ */
+export async function verifyAgeProofFullWithIssuer(
+  proof: AgeProofFull,
+  verificationKey: VerificationKey,
+  trustedIssuerPublicKeyBits: string[],
+  expectedMerkleRoot?: string,
+): Promise<boolean> {
+  if (!constantTimeArrayEqual(trustedIssuerPublicKeyBits, proof.publicSignals.issuerPublicKey)) {
+    return false;
+  }
+  return verifyAgeProofFull(proof, verificationKey, expectedMerkleRoot);
 }
 
 /**
- * Additional validation checks for revocable age proofs
+ * Additional validation checks for full-assurance age proofs
  *
- * @param proof - The revocable age proof to validate
+ * @param proof - The full-assurance age proof to validate
  * @returns Object containing validation result and any error messages
  */
-export function validateAgeProofRevocableConstraints(proof: AgeProofRevocable): {
+export function validateAgeProofFullConstraints(proof: AgeProofFull): {
   valid: boolean;
   errors: string[];
 } {
   const errors: string[] = [];
+  const signals = proof.publicSignals;
 
-  // Check that current year is reasonable
   const now = new Date().getFullYear();
-  if (proof.publicSignals.currentYear < 2020 || proof.publicSignals.currentYear > now + 1) {
+  if (signals.currentYear < 2020 || signals.currentYear > now + 1) {
     errors.push('Invalid current year in proof');
   }
-
-  // Check that minAge is reasonable
-  if (proof.publicSignals.minAge < 0 || proof.publicSignals.minAge > 150) {
+  if (signals.minAge < 0 || signals.minAge > 150) {
     errors.push('Invalid minimum age requirement');
   }
-
-  // Check that merkle root is a valid numeric string
   if (
-    !proof.publicSignals.merkleRoot ||
-    proof.publicSignals.merkleRoot === '0' ||
-    !isValidBigIntString(proof.publicSignals.merkleRoot)
+    !signals.merkleRoot ||
+    signals.merkleRoot === '0' ||
+    !isValidBigIntString(signals.merkleRoot)
   ) {
     errors.push('Missing or invalid merkle root');
   }
+  if (!isValidBigIntString(signals.scopeHash)) {
+    errors.push('Missing or invalid scope hash');
+  }
+  if (!signals.nullifier || signals.nullifier === '0' || !isValidBigIntString(signals.nullifier)) {
+    errors.push('Missing or invalid nullifier');
+  }
+  if (!Array.isArray(signals.issuerPublicKey) || signals.issuerPublicKey.length !== 256) {
+    errors.push('Issuer public key must have 256 bits');
+  }
 
-  // Common signal checks (credentialHash, nonce, timestamp, staleness)
-  validateCommonSignals(proof.publicSignals, errors);
+  // The credential hash is private in this circuit, so only nonce and timestamp are common
+  if (!signals.nonce || signals.nonce.length === 0) {
+    errors.push('Missing nonce');
+  }
+  if (!signals.requestTimestamp || signals.requestTimestamp <= 0) {
+    errors.push('Invalid request timestamp');
+  }
+  if (signals.requestTimestamp > 0 && Date.now() - signals.requestTimestamp > STALE_TIMESTAMP_MS) {
+    errors.push('Request timestamp is stale (> 5 minutes old)');
+  }
 
   return {
     valid: errors.length === 0,
@@ -436,15 +1089,33 @@ export async function verifyBatch(
         case 'nationality':
           verified = await verifyNationalityProof(proof, verificationKey);
           break;
+        case 'nationality-set':
+          verified = await verifyNationalitySetProof(proof, verificationKey);
+          break;
         case 'age-revocable':
           verified = await verifyAgeProofRevocable(proof, verificationKey);
           break;
+        case 'nationality-revocable':
+          verified = await verifyNationalityProofRevocable(proof, verificationKey);
+          break;
+        case 'age-unlinkable':
+          verified = await verifyAgeProofUnlinkable(proof, verificationKey);
+          break;
+        case 'nationality-unlinkable':
+          verified = await verifyNationalityProofUnlinkable(proof, verificationKey);
+          break;
         case 'age-signed':
           verified = await verifyAgeProofSigned(proof, verificationKey);
           break;
+        case 'age-signed-expiring':
+          verified = await verifyAgeProofSignedExpiring(proof, verificationKey);
+          break;
         case 'nationality-signed':
           verified = await verifyNationalityProofSigned(proof, verificationKey);
           break;
+        case 'age-full':
+          verified = await verifyAgeProofFull(proof, verificationKey);
+          break;
         case 'nullifier':
           verified = await verifyNullifierProof(proof, verificationKey);
           break;
@@ -456,6 +1127,12 @@ export async function verifyBatch(
         case 'range':
           verified = await verifyRangeProof(proof, verificationKey);
           break;
+        case 'predicate':
+          verified = await verifyPredicateProof(proof, verificationKey);
+          break;
+        case 'slot-predicate':
+          verified = await verifySlotPredicateProof(proof, verificationKey);
+          break;
         default:
           throw new ZkIdProofError(
             `Unknown proof type: ${(proof as ZkProof).proofType}`,
@@ -561,3 +1238,52 @@ export async function verifyRangeProof(
 
   return snarkjs.groth16.verify(verificationKey, proof.publicSignals, snarkProof);
 }
+
+/**
+ * Additional validation checks for range proofs beyond cryptographic verification
+ *
+ * Range proof public signals are ordered
+ * [valid, minValue, maxValue, commitment, nonce, requestTimestamp, fieldSelector],
+ * and the field selector must match the proof's `fieldName`.
+ *
+ * @param proof - The range proof to validate
+ * @returns Object containing validation result and any error messages
+ */
+export function validateRangeProofConstraints(proof: RangeProof): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const signals = proof.publicSignals;
+
+  if (!Array.isArray(signals) || signals.length !== 7) {
+    return { valid: false, errors: ['Range proof must have 7 public signals'] };
+  }
+
+  const [valid, minValue, maxValue, commitment, nonce, requestTimestamp, fieldSelector] = signals;
+
+  if (valid !== '1') {
+    errors.push('Range proof output is not valid');
+  }
+
+  if (fieldSelector !== String(RANGE_FIELD_SELECTORS[proof.fieldName])) {
+    errors.push('Range proof field selector does not match fieldName');
+  }
+
+  const min = Number(minValue);
+  const max = Number(maxValue);
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min < 0 || min > max) {
+    errors.push('Invalid range bounds in proof');
+  }
+
+  // Common signal checks (commitment, nonce, timestamp, staleness)
+  validateCommonSignals(
+    { credentialHash: commitment, nonce, requestTimestamp: Number(requestTimestamp) },
+    errors,
+  );
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -4,13 +4,65 @@
  * This module provides W3C VC-compliant credential formats while maintaining
  * backward compatibility with the existing zk-id credential format.
  *
+ * Exported credentials are secured with W3C Data Integrity proofs using the
+ * `eddsa-jcs-2022` cryptosuite (JCS canonicalization, no JSON-LD processing),
+ * so standard VC tooling can verify them against the issuer's did:key.
+ * `eddsa-rdfc-2022` requires RDF dataset canonicalization and is not supported.
+ *
  * References:
  * - W3C VC Data Model v2.0: https://www.w3.org/TR/vc-data-model-2.0/
+ * - W3C VC Data Integrity 1.0: https://www.w3.org/TR/vc-data-integrity/
+ * - W3C Data Integrity EdDSA Cryptosuites v1.0: https://www.w3.org/TR/vc-di-eddsa/
+ * - RFC 8785 (JSON Canonicalization Scheme)
  * - W3C DID Core: https://www.w3.org/TR/did-core/
  */
-import { ZkIdValidationError } from './errors';
+import { KeyObject, createHash, createPublicKey, sign, verify } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+
+import { BitstringStatusListEntry, Credential, SignedCredential } from './types.js';
+
+/** Data Integrity cryptosuite used for exported credentials */
+export const EDDSA_JCS_2022 = 'eddsa-jcs-2022';
+
+/**
+ * W3C Data Integrity proof (`DataIntegrityProof`)
+ */
+export interface DataIntegrityProof {
+  /** Copy of the secured document's context (eddsa-jcs-2022) */
+  '@context'?: string[];
+
+  type: 'DataIntegrityProof';
+
+  /** Cryptosuite identifier, e.g. `eddsa-jcs-2022` */
+  cryptosuite: string;
 
-import { Credential, SignedCredential } from './types.js';
+  /** ISO 8601 creation timestamp */
+  created?: string;
+
+  /** Verification method (DID URL) */
+  verificationMethod: string;
+
+  /** Purpose of the proof (e.g. `assertionMethod`) */
+  proofPurpose: string;
+
+  /** Multibase (base58btc) signature */
+  proofValue: string;
+}
+
+/**
+ * Proof shape emitted by zk-id before Data Integrity support
+ *
+ * @deprecated Carried the raw zk-id issuer signature under an ad-hoc type that
+ * standard tooling cannot verify. Accepted by fromW3CVerifiableCredential only.
+ */
+export interface LegacyW3CProof {
+  type: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue?: string;
+  jws?: string;
+}
 
 /**
  * W3C VC-compliant credential format
@@ -31,10 +83,16 @@ export interface W3CVerifiableCredential {
   /** Issuer identifier (DID or URL) */
   issuer: string | { id: string; [key: string]: unknown };
 
-  /** Issuance date (ISO 8601) */
-  issuanceDate: string;
+  /** Start of validity (VC Data Model 2.0, ISO 8601) */
+  validFrom?: string;
+
+  /** End of validity (VC Data Model 2.0, ISO 8601) */
+  validUntil?: string;
+
+  /** @deprecated VC Data Model 1.1; use validFrom */
+  issuanceDate?: string;
 
-  /** Expiration date (optional, ISO 8601) */
+  /** @deprecated VC Data Model 1.1; use validUntil */
   expirationDate?: string;
 
   /** Credential subject */
@@ -49,61 +107,56 @@ export interface W3CVerifiableCredential {
 
       /** ISO 8601 timestamp of credential creation */
       createdAt: string;
+
+      /**
+       * Base64 zk-id issuer signature over the commitment (checked by the
+       * signed circuits); distinct from the Data Integrity proof
+       */
+      issuerSignature?: string;
     };
   };
 
-  /** W3C proof (signature) */
-  proof?: {
-    /** Proof type */
-    type: string;
-
-    /** ISO 8601 timestamp */
-    created: string;
-
-    /** Verification method (DID URL or key ID) */
-    verificationMethod: string;
-
-    /** Purpose of the proof */
-    proofPurpose: string;
+  /** Revocation status (W3C Bitstring Status List) */
+  credentialStatus?: BitstringStatusListEntry;
 
-    /** Signature value (base64 or multibase encoded) */
-    proofValue?: string;
-
-    /** JWS signature (for JWT VCs) */
-    jws?: string;
-  };
+  /** Data Integrity proof (see addDataIntegrityProof) */
+  proof?: DataIntegrityProof | LegacyW3CProof;
 
   /** Additional properties */
   [key: string]: unknown;
 }
 
 /**
- * Convert a zk-id SignedCredential to W3C VC format
+ * Convert a zk-id SignedCredential to an unsecured W3C VC
+ *
+ * The zk-id issuer signature travels in `zkCredential.issuerSignature`; secure
+ * the document with addDataIntegrityProof before exporting it.
  *
  * @param signedCredential - The zk-id signed credential
  * @param options - Conversion options
- * @returns W3C Verifiable Credential
+ * @returns W3C Verifiable Credential without a proof
  */
 export function toW3CVerifiableCredential(
   signedCredential: SignedCredential,
   options?: {
-    /** Issuer DID (defaults to did:key derived from public key if not provided) */
+    /**
+     * Issuer DID (defaults to the zk-id issuer name). Credentials whose issuer is
+     * not a DID only verify with a `resolvePublicKey` that knows the issuer's keys.
+     */
     issuerDID?: string;
 
     /** Subject DID (optional) */
     subjectDID?: string;
 
-    /** Expiration date (optional) */
-    expirationDate?: string;
+    /** End of validity (defaults to the credential's expiresAt) */
+    validUntil?: string;
 
     /** Additional context URLs */
     additionalContexts?: string[];
-
-    /** Verification method (DID URL or key ID) */
-    verificationMethod?: string;
   },
 ): W3CVerifiableCredential {
   const { credential, issuer, signature, issuedAt } = signedCredential;
+  const validUntil = options?.validUntil ?? signedCredential.expiresAt;
 
   // Default to using the issuer name as a simple identifier
   // In production, this should be a DID (did:key, did:web, etc.)
@@ -118,22 +171,19 @@ export function toW3CVerifiableCredential(
     type: ['VerifiableCredential', 'ZkIdCredential'],
     id: `urn:uuid:${credential.id}`,
     issuer: issuerIdentifier,
-    issuanceDate: issuedAt,
-    expirationDate: options?.expirationDate,
+    validFrom: issuedAt,
+    ...(validUntil ? { validUntil } : {}),
     credentialSubject: {
-      id: options?.subjectDID,
+      ...(options?.subjectDID ? { id: options.subjectDID } : {}),
       zkCredential: {
         commitment: credential.commitment,
         createdAt: credential.createdAt,
+        issuerSignature: signature,
       },
     },
-    proof: {
-      type: 'Ed25519Signature2020', // Standard W3C proof type for Ed25519
-      created: issuedAt,
-      verificationMethod: options?.verificationMethod || `${issuerIdentifier}#key-1`, // Default key reference
-      proofPurpose: 'assertionMethod',
-      proofValue: signature,
-    },
+    ...(signedCredential.credentialStatus
+      ? { credentialStatus: signedCredential.credentialStatus }
+      : {}),
   };
 }
 
@@ -157,9 +207,21 @@ export function fromW3CVerifiableCredential(vc: W3CVerifiableCredential): Signed
     );
   }
 
-  if (!vc.proof || !vc.proof.proofValue) {
-    throw new ZkIdValidationError('Missing proof or proofValue', 'proof');
+  // Pre-Data Integrity exports carried the zk-id signature as the proof value
+  const legacyProof = vc.proof && vc.proof.type !== 'DataIntegrityProof' ? vc.proof : undefined;
+  const signature = vc.credentialSubject.zkCredential.issuerSignature ?? legacyProof?.proofValue;
+  if (!signature) {
+    throw new ZkIdValidationError(
+      'Missing zk-id issuer signature',
+      'credentialSubject.zkCredential.issuerSignature',
+    );
+  }
+
+  const issuedAt = vc.validFrom ?? vc.issuanceDate;
+  if (!issuedAt) {
+    throw new ZkIdValidationError('Missing validFrom', 'validFrom');
   }
+  const expiresAt = vc.validUntil ?? vc.expirationDate;
 
   // Extract credential ID from URN
   const credentialId = vc.id.startsWith('urn:uuid:') ? vc.id.substring(9) : vc.id;
@@ -181,8 +243,10 @@ export function fromW3CVerifiableCredential(vc: W3CVerifiableCredential): Signed
   return {
     credential,
     issuer,
-    signature: vc.proof.proofValue,
-    issuedAt: vc.issuanceDate,
+    signature,
+    issuedAt,
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(vc.credentialStatus ? { credentialStatus: vc.credentialStatus } : {}),
   };
 }
 
@@ -238,6 +302,276 @@ export function didKeyToEd25519PublicKey(didKey: string): Uint8Array {
   return decoded.slice(2);
 }
 
+// ---------------------------------------------------------------------------
+// Data Integrity (eddsa-jcs-2022)
+// ---------------------------------------------------------------------------
+
+/**
+ * Signs Data Integrity proofs with an Ed25519 key
+ *
+ * `sign` may be backed by a KMS/HSM; it receives the eddsa-jcs-2022 hash data.
+ */
+export interface DataIntegritySigner {
+  /** Verification method (DID URL) placed in the proof */
+  verificationMethod: string;
+  /** Ed25519-sign the hash data */
+  sign(data: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Options for verifying a Data Integrity proof
+ */
+export interface DataIntegrityVerificationOptions {
+  /**
+   * Resolve a verification method to an Ed25519 public key. Defaults to
+   * did:key resolution via didKeyToEd25519PublicKey.
+   */
+  resolvePublicKey?: (verificationMethod: string) => Promise<KeyObject | Uint8Array | null>;
+  /** Required proof purpose (default: assertionMethod) */
+  expectedProofPurpose?: string;
+}
+
+/**
+ * Options for verifying a secured W3C VC
+ */
+export interface W3CVerificationOptions extends DataIntegrityVerificationOptions {
+  /** Current time in milliseconds (default: Date.now()) */
+  nowMs?: number;
+}
+
+/**
+ * Canonicalize a JSON value per RFC 8785 (JCS)
+ *
+ * Object keys are sorted by UTF-16 code units; numbers and strings use the
+ * ECMAScript serialization JCS is defined over.
+ *
+ * @throws ZkIdValidationError for values with no JSON representation
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ZkIdValidationError('JCS cannot encode non-finite numbers', 'document');
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeJson(item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalizeJson(v)}`).join(',')}}`;
+  }
+  throw new ZkIdValidationError(`JCS cannot encode ${typeof value}`, 'document');
+}
+
+function jcsHashData(proofConfig: Record<string, unknown>, document: Record<string, unknown>) {
+  const sha256 = (data: string) => createHash('sha256').update(data, 'utf8').digest();
+  return Buffer.concat([sha256(canonicalizeJson(proofConfig)), sha256(canonicalizeJson(document))]);
+}
+
+/**
+ * Create a signer for an in-process Ed25519 private key
+ *
+ * @param privateKey - Ed25519 private key
+ * @param verificationMethod - DID URL (default: the key's did:key verification method)
+ */
+export function ed25519DataIntegritySigner(
+  privateKey: KeyObject,
+  verificationMethod?: string,
+): DataIntegritySigner {
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new ZkIdValidationError('Data Integrity signer requires an Ed25519 key', 'privateKey');
+  }
+  if (!verificationMethod) {
+    const jwk = createPublicKey(privateKey).export({ format: 'jwk' });
+    const did = ed25519PublicKeyToDIDKey(Buffer.from(jwk.x as string, 'base64url'));
+    verificationMethod = `${did}#${did.slice('did:key:'.length)}`;
+  }
+  return { verificationMethod, sign: async (data) => sign(null, data, privateKey) };
+}
+
+/**
+ * Secure a JSON document with an `eddsa-jcs-2022` Data Integrity proof
+ *
+ * Any existing `proof` is replaced.
+ *
+ * @param document - Unsecured document (e.g. from toW3CVerifiableCredential)
+ * @param signer - Ed25519 signer
+ * @param options - Proof purpose and creation time
+ * @returns The document with a `DataIntegrityProof`
+ */
+export async function addDataIntegrityProof<T extends { proof?: unknown }>(
+  document: T,
+  signer: DataIntegritySigner,
+  options: { proofPurpose?: string; created?: Date } = {},
+): Promise<T & { proof: DataIntegrityProof }> {
+  const { proof: _existing, ...unsecured } = document as Record<string, unknown>;
+  const context = unsecured['@context'];
+
+  const proofConfig: Omit<DataIntegrityProof, 'proofValue'> = {
+    ...(Array.isArray(context) ? { '@context': context as string[] } : {}),
+    type: 'DataIntegrityProof',
+    cryptosuite: EDDSA_JCS_2022,
+    created: (options.created ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    verificationMethod: signer.verificationMethod,
+    proofPurpose: options.proofPurpose ?? 'assertionMethod',
+  };
+  const signature = await signer.sign(jcsHashData({ ...proofConfig }, unsecured));
+
+  return {
+    ...(unsecured as T),
+    proof: { ...proofConfig, proofValue: `z${base58Encode(signature)}` },
+  };
+}
+
+async function resolveEd25519Key(
+  verificationMethod: string,
+  options: DataIntegrityVerificationOptions,
+): Promise<KeyObject> {
+  let key: KeyObject | Uint8Array | null;
+  if (options.resolvePublicKey) {
+    key = await options.resolvePublicKey(verificationMethod);
+  } else {
+    const did = verificationMethod.split('#')[0];
+    try {
+      key = didKeyToEd25519PublicKey(did);
+    } catch {
+      key = null;
+    }
+  }
+  if (!key) {
+    throw new ZkIdCryptoError(`Cannot resolve verification method: ${verificationMethod}`);
+  }
+  if (key instanceof KeyObject) {
+    return key;
+  }
+  return createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(key).toString('base64url') },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Verify an `eddsa-jcs-2022` Data Integrity proof
+ *
+ * @param document - Secured document
+ * @param options - Key resolution and expected proof purpose
+ * @returns The verified proof
+ * @throws ZkIdValidationError for missing or unsupported proofs
+ * @throws ZkIdCryptoError when the key cannot be resolved or the signature is invalid
+ */
+export async function verifyDataIntegrityProof(
+  document: { proof?: unknown },
+  options: DataIntegrityVerificationOptions = {},
+): Promise<DataIntegrityProof> {
+  const { proof, ...unsecured } = document as Record<string, unknown>;
+  if (!proof || typeof proof !== 'object' || Array.isArray(proof)) {
+    throw new ZkIdValidationError('Missing Data Integrity proof', 'proof');
+  }
+  const { proofValue, ...proofConfig } = proof as DataIntegrityProof;
+  if (proofConfig.type !== 'DataIntegrityProof') {
+    throw new ZkIdValidationError(`Unsupported proof type: ${String(proofConfig.type)}`, 'proof');
+  }
+  if (proofConfig.cryptosuite !== EDDSA_JCS_2022) {
+    throw new ZkIdValidationError(
+      `Unsupported cryptosuite: ${String(proofConfig.cryptosuite)}`,
+      'proof.cryptosuite',
+    );
+  }
+  const expectedPurpose = options.expectedProofPurpose ?? 'assertionMethod';
+  if (proofConfig.proofPurpose !== expectedPurpose) {
+    throw new ZkIdValidationError(`Proof purpose must be ${expectedPurpose}`, 'proof.proofPurpose');
+  }
+  if (proofConfig.created !== undefined && Number.isNaN(Date.parse(proofConfig.created))) {
+    throw new ZkIdValidationError('Invalid proof created timestamp', 'proof.created');
+  }
+  if (typeof proofValue !== 'string' || !proofValue.startsWith('z')) {
+    throw new ZkIdValidationError('proofValue must be base58btc multibase', 'proof.proofValue');
+  }
+
+  // The proof's context must prefix the document's context and is what gets signed
+  if (proofConfig['@context'] !== undefined) {
+    const docContext = unsecured['@context'];
+    if (
+      !Array.isArray(docContext) ||
+      !proofConfig['@context'].every((entry, i) => docContext[i] === entry)
+    ) {
+      throw new ZkIdValidationError('Proof @context does not match the document', 'proof');
+    }
+    unsecured['@context'] = proofConfig['@context'];
+  }
+
+  const publicKey = await resolveEd25519Key(proofConfig.verificationMethod, options);
+  let signature: Uint8Array;
+  try {
+    signature = base58Decode(proofValue.slice(1));
+  } catch {
+    throw new ZkIdValidationError('proofValue must be base58btc multibase', 'proof.proofValue');
+  }
+  const valid =
+    publicKey.asymmetricKeyType === 'ed25519' &&
+    verify(null, jcsHashData(proofConfig, unsecured), publicKey, signature);
+  if (!valid) {
+    throw new ZkIdCryptoError('Data Integrity proof verification failed');
+  }
+  return proof as DataIntegrityProof;
+}
+
+/**
+ * Verify a secured W3C VC: its Data Integrity proof, that the verification
+ * method belongs to the issuer, and the validFrom/validUntil window
+ *
+ * The verification method's controller (the DID URL without its fragment) must
+ * equal the issuer id, so a proof signed with any other key, such as one derived
+ * from the signer's own did:key, is rejected. Issuers that are not DIDs have no
+ * resolvable keys and are only accepted with a caller-supplied `resolvePublicKey`
+ * (e.g. an issuer registry lookup).
+ *
+ * @param vc - Secured credential
+ * @param options - Key resolution and current time
+ * @returns The verified proof
+ * @throws ZkIdValidationError or ZkIdCryptoError when verification fails
+ */
+export async function verifyW3CVerifiableCredential(
+  vc: W3CVerifiableCredential,
+  options: W3CVerificationOptions = {},
+): Promise<DataIntegrityProof> {
+  const issuerId = typeof vc.issuer === 'string' ? vc.issuer : vc.issuer?.id;
+  if (typeof issuerId !== 'string' || issuerId.length === 0) {
+    throw new ZkIdValidationError('Missing issuer', 'issuer');
+  }
+  if (!issuerId.startsWith('did:') && !options.resolvePublicKey) {
+    throw new ZkIdValidationError(
+      'Issuer is not a DID; pass resolvePublicKey to resolve its keys',
+      'issuer',
+    );
+  }
+  const verificationMethod = (vc.proof as Partial<DataIntegrityProof> | undefined)
+    ?.verificationMethod;
+  if (typeof verificationMethod === 'string' && verificationMethod.split('#')[0] !== issuerId) {
+    throw new ZkIdValidationError(
+      'Verification method is not controlled by the issuer',
+      'proof.verificationMethod',
+    );
+  }
+
+  const proof = await verifyDataIntegrityProof(vc, options);
+
+  const nowMs = options.nowMs ?? Date.now();
+  if (vc.validFrom !== undefined && nowMs < Date.parse(vc.validFrom)) {
+    throw new ZkIdValidationError('Credential is not yet valid', 'validFrom');
+  }
+  if (vc.validUntil !== undefined && nowMs > Date.parse(vc.validUntil)) {
+    throw new ZkIdValidationError('Credential has expired', 'validUntil');
+  }
+  return proof;
+}
+
 // ---------------------------------------------------------------------------
 // Base58 encoding/decoding (Bitcoin alphabet)
 // ---------------------------------------------------------------------------
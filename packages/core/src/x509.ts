@@ -0,0 +1,172 @@
+/**
+ * X.509 certificate chain validation shared by request objects (x5c) and
+ * mdoc issuerAuth (x5chain)
+ *
+ * Only Node's crypto module is used so the same code serves the SDK and mobile wallets.
+ */
+
+import { X509Certificate } from 'crypto';
+import { ZkIdCryptoError, ZkIdValidationError } from './errors';
+
+/** keyUsage digitalSignature bit (first byte of the BIT STRING, RFC 5280 §4.2.1.3) */
+const KEY_USAGE_DIGITAL_SIGNATURE = 0x80;
+
+/** Read the DER TLV at `offset` */
+function readDer(der: Buffer, offset: number): { tag: number; start: number; end: number } {
+  if (offset + 2 > der.length) {
+    throw new ZkIdValidationError('Malformed X.509 certificate', 'certificate');
+  }
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4 || start + bytes > der.length) {
+      throw new ZkIdValidationError('Malformed X.509 certificate', 'certificate');
+    }
+    length = der.readUIntBE(start, bytes);
+    start += bytes;
+  }
+  if (start + length > der.length) {
+    throw new ZkIdValidationError('Malformed X.509 certificate', 'certificate');
+  }
+  return { tag, start, end: start + length };
+}
+
+/**
+ * Read the basicConstraints pathLenConstraint and keyUsage bits of a certificate,
+ * which Node's X509Certificate does not expose
+ */
+function readCertificateConstraints(cert: X509Certificate): {
+  pathLen?: number;
+  keyUsage?: number;
+} {
+  const der = cert.raw;
+  const tbs = readDer(der, readDer(der, 0).start);
+  const constraints: { pathLen?: number; keyUsage?: number } = {};
+
+  for (let offset = tbs.start; offset < tbs.end;) {
+    const field = readDer(der, offset);
+    offset = field.end;
+    if (field.tag !== 0xa3) {
+      continue;
+    }
+    // extensions [3] EXPLICIT SEQUENCE OF Extension { extnID, critical?, extnValue }
+    const extensions = readDer(der, field.start);
+    for (let next = extensions.start; next < extensions.end;) {
+      const extension = readDer(der, next);
+      next = extension.end;
+      const oid = readDer(der, extension.start);
+      let value = readDer(der, oid.end);
+      if (value.tag === 0x01) {
+        value = readDer(der, value.end);
+      }
+      const extnId = der.subarray(oid.start, oid.end).toString('hex');
+      if (extnId === '551d13') {
+        // basicConstraints: SEQUENCE { cA BOOLEAN?, pathLenConstraint INTEGER? }
+        const sequence = readDer(der, value.start);
+        for (let item = sequence.start; item < sequence.end;) {
+          const element = readDer(der, item);
+          item = element.end;
+          if (element.tag === 0x02 && element.end > element.start) {
+            constraints.pathLen = der.readUIntBE(
+              element.start,
+              Math.min(element.end - element.start, 6),
+            );
+          }
+        }
+      } else if (extnId === '551d0f') {
+        // keyUsage: BIT STRING (first content byte is the unused-bit count)
+        const bits = readDer(der, value.start);
+        constraints.keyUsage = bits.end - bits.start > 1 ? der[bits.start + 1] : 0;
+      }
+    }
+  }
+  return constraints;
+}
+
+/**
+ * Require a certificate to be a CA allowed to issue the certificates below it.
+ * `X509Certificate.ca` (OpenSSL's X509_check_ca) already requires keyCertSign
+ * when a keyUsage extension is present; the path length is checked here.
+ *
+ * @param intermediates - Number of intermediate CA certificates below this one
+ */
+function assertIssuingCa(cert: X509Certificate, intermediates: number, label: string): void {
+  if (!cert.ca) {
+    throw new ZkIdCryptoError(`${label} certificate issuer is not a CA`);
+  }
+  const { pathLen } = readCertificateConstraints(cert);
+  if (pathLen !== undefined && intermediates > pathLen) {
+    throw new ZkIdCryptoError(`${label} certificate chain exceeds a path length constraint`);
+  }
+}
+
+function isCurrentlyValid(cert: X509Certificate, nowMs: number): boolean {
+  return nowMs >= Date.parse(cert.validFrom) && nowMs <= Date.parse(cert.validTo);
+}
+
+/**
+ * Validate a certificate chain (leaf first) against pinned trust anchors
+ *
+ * Every chain member and the matching trust anchor must be within its
+ * validity period. Each issuing certificate, and the anchor, must be a CA
+ * whose keyUsage and pathLenConstraint allow the chain below it, and the
+ * leaf's keyUsage (if present) must allow digital signatures. The last chain
+ * member may be an anchor itself or be issued by one.
+ *
+ * @param chain - Certificates, leaf first
+ * @param trustAnchors - PEM trust anchor certificates
+ * @param nowMs - Reference time in milliseconds
+ * @param label - Prefix for error messages (e.g. 'Request object')
+ * @returns The validated leaf certificate
+ * @throws ZkIdCryptoError when the chain is invalid or not trusted
+ */
+export function verifyCertificateChain(
+  chain: X509Certificate[],
+  trustAnchors: string[],
+  nowMs: number,
+  label: string,
+): X509Certificate {
+  if (chain.length === 0) {
+    throw new ZkIdValidationError(`${label} certificate chain is empty`, 'certificate');
+  }
+  for (const cert of chain) {
+    if (!isCurrentlyValid(cert, nowMs)) {
+      throw new ZkIdCryptoError(`${label} certificate is not currently valid`);
+    }
+  }
+  const leafUsage = readCertificateConstraints(chain[0]).keyUsage;
+  if (leafUsage !== undefined && !(leafUsage & KEY_USAGE_DIGITAL_SIGNATURE)) {
+    throw new ZkIdCryptoError(`${label} certificate may not sign`);
+  }
+  for (let i = 0; i < chain.length - 1; i++) {
+    assertIssuingCa(chain[i + 1], i, label);
+    if (!chain[i].checkIssued(chain[i + 1]) || !chain[i].verify(chain[i + 1].publicKey)) {
+      throw new ZkIdCryptoError(`${label} certificate chain is broken`);
+    }
+  }
+
+  const last = chain[chain.length - 1];
+  const matching = trustAnchors
+    .map((pem) => new X509Certificate(pem))
+    .filter(
+      (candidate) =>
+        candidate.fingerprint256 === last.fingerprint256 ||
+        (last.checkIssued(candidate) && last.verify(candidate.publicKey)),
+    );
+  if (matching.length === 0) {
+    throw new ZkIdCryptoError(`${label} certificate chain is not trusted`);
+  }
+  const anchor = matching.find((candidate) => isCurrentlyValid(candidate, nowMs));
+  if (!anchor) {
+    throw new ZkIdCryptoError(`${label} trust anchor is not currently valid`);
+  }
+  // A pinned chain member is already checked above unless it is the leaf itself
+  if (anchor.fingerprint256 !== last.fingerprint256) {
+    assertIssuingCa(anchor, chain.length - 1, label);
+  } else if (chain.length === 1) {
+    assertIssuingCa(anchor, 0, label);
+  }
+  return chain[0];
+}
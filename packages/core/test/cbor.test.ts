@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import {
+  CborTag,
+  decodeCbor,
+  decodeEmbeddedCbor,
+  encodeCbor,
+  encodeEmbeddedCbor,
+} from '../src/cbor';
+
+describe('CBOR codec', () => {
+  it('encodes RFC 8949 Appendix A examples', () => {
+    const hex = (value: unknown) => encodeCbor(value).toString('hex');
+    expect(hex(0)).to.equal('00');
+    expect(hex(24)).to.equal('1818');
+    expect(hex(1000000)).to.equal('1a000f4240');
+    expect(hex(-1000)).to.equal('3903e7');
+    expect(hex(18446744073709551615n)).to.equal('1bffffffffffffffff');
+    expect(hex(1.5)).to.equal('fb3ff8000000000000');
+    expect(hex('IETF')).to.equal('6449455446');
+    expect(hex(Buffer.from([1, 2, 3, 4]))).to.equal('4401020304');
+    expect(hex([1, [2, 3]])).to.equal('8201820203');
+    expect(hex({ a: 1, b: [2, 3] })).to.equal('a26161016162820203');
+    expect(hex(new CborTag(1004, '1990-01-01'))).to.equal('d903ec6a313939302d30312d3031');
+  });
+
+  it('round-trips maps with integer keys, tags and simple values', () => {
+    const value = new Map<unknown, unknown>([
+      [1, -7],
+      [-2, Buffer.from('ab', 'hex')],
+      ['flags', [true, false, null]],
+      ['big', -18446744073709551616n],
+    ]);
+    const decoded = decodeCbor(encodeCbor(value)) as Map<unknown, unknown>;
+    expect(decoded).to.be.instanceOf(Map);
+    expect([...decoded.keys()]).to.deep.equal([1, -2, 'flags', 'big']);
+    expect(decoded.get(1)).to.equal(-7);
+    expect((decoded.get(-2) as Buffer).toString('hex')).to.equal('ab');
+    expect(decoded.get('flags')).to.deep.equal([true, false, null]);
+    expect(decoded.get('big')).to.equal(-18446744073709551616n);
+  });
+
+  it('wraps embedded CBOR in tag 24', () => {
+    const tagged = encodeEmbeddedCbor({ digestID: 7 });
+    const decoded = decodeCbor(encodeCbor(tagged));
+    expect(decoded).to.be.instanceOf(CborTag);
+    expect((decodeEmbeddedCbor(decoded) as Map<string, unknown>).get('digestID')).to.equal(7);
+    expect(() => decodeEmbeddedCbor(new CborTag(0, 'x'))).to.throw('Expected embedded CBOR');
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => decodeCbor(Buffer.from('0001', 'hex'))).to.throw('Trailing bytes');
+    expect(() => decodeCbor(Buffer.from('62ff', 'hex'))).to.throw('CBOR length exceeds input');
+    expect(() => decodeCbor(Buffer.from('9fff', 'hex'))).to.throw('Indefinite-length');
+    expect(() => decodeCbor(Buffer.from('a201020103', 'hex'))).to.throw('Duplicate CBOR map key');
+    expect(() => decodeCbor(Buffer.from('81'.repeat(100) + '00', 'hex'))).to.throw(
+      'nesting too deep',
+    );
+    expect(() => encodeCbor(undefined)).to.throw('Cannot CBOR-encode undefined');
+  });
+});
@@ -0,0 +1,295 @@
+import { expect } from 'chai';
+import {
+  CREDENTIAL_SCHEMA_REGISTRY,
+  CREDENTIAL_SLOT_COUNT,
+  CredentialSchemaRegistry,
+  IDENTITY_DOCUMENT_SCHEMA,
+  IDENTITY_SCHEMA,
+  computeSchemaHash,
+  getSlotIndex,
+} from '../src/credential-schema';
+import {
+  createCredential,
+  createSlottedCredential,
+  deriveSlottedCommitment,
+  migrateCredentialToSlotted,
+  validateSlottedCredential,
+} from '../src/credential';
+import { DOMAIN_CREDENTIAL_SLOTS, poseidonHashDomain } from '../src/poseidon';
+import { generateSlotPredicateProof } from '../src/prover';
+import { validateSlotPredicateProofConstraints } from '../src/verifier';
+import { PredicateType } from '../src/predicate-proof';
+import { SlotPredicateProof } from '../src/types';
+
+describe('Credential schema v2 (slotted credentials)', () => {
+  describe('CredentialSchemaRegistry', () => {
+    it('registers the well-known schemas and resolves them by hash', () => {
+      const registry = new CredentialSchemaRegistry();
+      expect(registry.has(IDENTITY_SCHEMA.id)).to.be.true;
+      expect(registry.has(IDENTITY_DOCUMENT_SCHEMA.id)).to.be.true;
+      expect(registry.getByHash(computeSchemaHash(IDENTITY_DOCUMENT_SCHEMA))).to.equal(
+        IDENTITY_DOCUMENT_SCHEMA,
+      );
+      expect(registry.getByHash('1')).to.be.undefined;
+    });
+
+    it('changes the schema hash when the version changes', () => {
+      const bumped = computeSchemaHash({ ...IDENTITY_SCHEMA, version: '2.1.0' });
+      expect(bumped).to.not.equal(computeSchemaHash(IDENTITY_SCHEMA));
+    });
+
+    it('drops the old hash when a schema is re-registered', () => {
+      const registry = new CredentialSchemaRegistry();
+      const oldHash = computeSchemaHash(IDENTITY_SCHEMA);
+      registry.register({ ...IDENTITY_SCHEMA, version: '2.1.0' });
+      expect(registry.getByHash(oldHash)).to.be.undefined;
+      expect(registry.get(IDENTITY_SCHEMA.id)?.version).to.equal('2.1.0');
+    });
+
+    it('rejects malformed schemas', () => {
+      const registry = new CredentialSchemaRegistry();
+      const slots = Array.from({ length: CREDENTIAL_SLOT_COUNT + 1 }, (_, i) => ({
+        name: `slot${i}`,
+        required: false,
+      }));
+      expect(() => registry.register({ id: 'too-wide', version: '1.0.0', slots })).to.throw(
+        `at most ${CREDENTIAL_SLOT_COUNT} slots`,
+      );
+      expect(() =>
+        registry.register({
+          id: 'dup',
+          version: '1.0.0',
+          slots: [
+            { name: 'a', required: true },
+            { name: 'a', required: true },
+          ],
+        }),
+      ).to.throw("Duplicate slot name 'a'");
+    });
+
+    it('validates attributes against slot definitions', () => {
+      const registry = new CredentialSchemaRegistry();
+      const result = registry.validate(IDENTITY_DOCUMENT_SCHEMA.id, {
+        birthYear: 1850,
+        documentType: 'library-card',
+        shoeSize: 42,
+      });
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.include("Required slot 'nationality' is missing");
+      expect(result.errors).to.include("Slot 'birthYear' is out of range");
+      expect(result.errors).to.include("Slot 'documentType' has no named value 'library-card'");
+      expect(result.errors).to.include("Unknown slot 'shoeSize'");
+      expect(registry.validate('missing', {}).errors).to.deep.equal(["Schema 'missing' not found"]);
+    });
+
+    it('encodes named values and pads to the slot count', () => {
+      const slots = CREDENTIAL_SCHEMA_REGISTRY.encode(IDENTITY_DOCUMENT_SCHEMA.id, {
+        birthYear: 1990,
+        nationality: 840,
+        documentType: 'id-card',
+      });
+      expect(slots).to.deep.equal([1990, 840, 2, 0, 0, 0, 0, 0]);
+      expect(CREDENTIAL_SCHEMA_REGISTRY.decode(IDENTITY_DOCUMENT_SCHEMA.id, slots)).to.include({
+        birthYear: 1990,
+        documentType: 2,
+        countryOfResidence: 0,
+      });
+    });
+
+    it('looks up slot indices by name', () => {
+      expect(getSlotIndex(IDENTITY_DOCUMENT_SCHEMA, 'documentType')).to.equal(2);
+      expect(() => getSlotIndex(IDENTITY_SCHEMA, 'documentType')).to.throw('has no slot named');
+    });
+  });
+
+  describe('slotted credentials', () => {
+    it('commits to the schema hash, slots and salt', async () => {
+      const credential = await createSlottedCredential(IDENTITY_DOCUMENT_SCHEMA.id, {
+        birthYear: 1990,
+        nationality: 276,
+        documentType: 'passport',
+        countryOfResidence: 250,
+      });
+
+      const expected = await poseidonHashDomain(DOMAIN_CREDENTIAL_SLOTS, [
+        BigInt(credential.schemaHash),
+        ...credential.slots,
+        BigInt('0x' + credential.salt),
+      ]);
+      expect(credential.commitment).to.equal(expected.toString());
+      expect(credential.schemaHash).to.equal(computeSchemaHash(IDENTITY_DOCUMENT_SCHEMA));
+      expect(validateSlottedCredential(credential)).to.be.true;
+    });
+
+    it('binds the schema into the commitment', async () => {
+      const slots = [1990, 840, 0, 0, 0, 0, 0, 0];
+      const a = await deriveSlottedCommitment(computeSchemaHash(IDENTITY_SCHEMA), slots, 'ab');
+      const b = await deriveSlottedCommitment(
+        computeSchemaHash(IDENTITY_DOCUMENT_SCHEMA),
+        slots,
+        'ab',
+      );
+      expect(a).to.not.equal(b);
+    });
+
+    it('rejects slot vectors of the wrong width or range', async () => {
+      const schemaHash = computeSchemaHash(IDENTITY_SCHEMA);
+      for (const slots of [
+        [1990, 840],
+        [1990, 840, -1, 0, 0, 0, 0, 0],
+      ]) {
+        try {
+          await deriveSlottedCommitment(schemaHash, slots, 'ab');
+          expect.fail('Should have thrown');
+        } catch (error: any) {
+          expect(error.message).to.match(/slots must have exactly|slot values must be integers/);
+        }
+      }
+    });
+
+    it('detects tampered credentials', async () => {
+      const credential = await createSlottedCredential(IDENTITY_SCHEMA.id, {
+        birthYear: 1990,
+        nationality: 840,
+      });
+      expect(validateSlottedCredential({ ...credential, schemaHash: '1' })).to.be.false;
+      expect(validateSlottedCredential({ ...credential, slots: [1990, 840, 0, 0, 0, 0, 0, 7] })).to
+        .be.false;
+      expect(validateSlottedCredential({ ...credential, slots: [1990, 0, 0, 0, 0, 0, 0, 0] })).to.be
+        .false;
+    });
+  });
+
+  describe('migrateCredentialToSlotted', () => {
+    it('migrates a v1 credential keeping id and salt', async () => {
+      const v1 = await createCredential(1990, 840);
+      const migrated = await migrateCredentialToSlotted(v1);
+
+      expect(migrated.id).to.equal(v1.id);
+      expect(migrated.salt).to.equal(v1.salt);
+      expect(migrated.schemaId).to.equal(IDENTITY_SCHEMA.id);
+      expect(migrated.slots).to.deep.equal([1990, 840, 0, 0, 0, 0, 0, 0]);
+      expect(migrated.commitment).to.not.equal(v1.commitment);
+      expect(validateSlottedCredential(migrated)).to.be.true;
+    });
+
+    it('carries the expiry of an expiring credential', async () => {
+      const v1 = await createCredential(1990, 840, 1900000000);
+      const migrated = await migrateCredentialToSlotted(v1);
+      expect(migrated.slots[getSlotIndex(IDENTITY_SCHEMA, 'expiryEpoch')]).to.equal(1900000000);
+    });
+
+    it('fills extra slots of the target schema', async () => {
+      const v1 = await createCredential(1990, 840);
+      const migrated = await migrateCredentialToSlotted(v1, IDENTITY_DOCUMENT_SCHEMA.id, {
+        documentType: 'driving-licence',
+      });
+      expect(migrated.slots.slice(0, 3)).to.deep.equal([1990, 840, 3]);
+
+      try {
+        await migrateCredentialToSlotted(v1, IDENTITY_DOCUMENT_SCHEMA.id);
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include("Required slot 'documentType' is missing");
+      }
+    });
+  });
+
+  describe('generateSlotPredicateProof', () => {
+    it('should reject unknown slots before proving', async () => {
+      const credential = await createSlottedCredential(IDENTITY_SCHEMA.id, {
+        birthYear: 1990,
+        nationality: 840,
+      });
+      try {
+        await generateSlotPredicateProof(
+          credential,
+          { slot: 'documentType', type: PredicateType.EQ, value: 1 },
+          'nonce-valid-16chars',
+          Date.now(),
+          'missing.wasm',
+          'missing.zkey',
+        );
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include("has no slot named 'documentType'");
+      }
+    });
+
+    it('should require a max value for range predicates', async () => {
+      const credential = await createSlottedCredential(IDENTITY_SCHEMA.id, {
+        birthYear: 1990,
+        nationality: 840,
+      });
+      try {
+        await generateSlotPredicateProof(
+          credential,
+          { slot: 'birthYear', type: PredicateType.RANGE, value: 1980 },
+          'nonce-valid-16chars',
+          Date.now(),
+          'missing.wasm',
+          'missing.zkey',
+        );
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('maxValue is required for RANGE');
+      }
+    });
+  });
+
+  describe('validateSlotPredicateProofConstraints', () => {
+    const createMockProof = (
+      overrides: Partial<SlotPredicateProof['publicSignals']> = {},
+    ): SlotPredicateProof => ({
+      proofType: 'slot-predicate',
+      proof: {
+        pi_a: ['1', '2'],
+        pi_b: [
+          ['3', '4'],
+          ['5', '6'],
+        ],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+      publicSignals: {
+        schemaHash: computeSchemaHash(IDENTITY_DOCUMENT_SCHEMA),
+        credentialHash: '12345678901234567890',
+        slotIndex: 2,
+        predicateType: PredicateType.EQ,
+        targetValue: 1,
+        rangeMax: 0,
+        nonce: 'nonce-1',
+        requestTimestamp: Date.now(),
+        ...overrides,
+      },
+    });
+
+    it('should validate a good proof', () => {
+      expect(validateSlotPredicateProofConstraints(createMockProof()).valid).to.be.true;
+    });
+
+    it('should reject out-of-range slot indices and predicate types', () => {
+      const result = validateSlotPredicateProofConstraints(
+        createMockProof({ slotIndex: CREDENTIAL_SLOT_COUNT, predicateType: 7 }),
+      );
+      expect(result.errors).to.include('Invalid slot index in proof');
+      expect(result.errors).to.include('Invalid predicate type in proof');
+    });
+
+    it('should check range bounds', () => {
+      const inverted = validateSlotPredicateProofConstraints(
+        createMockProof({ predicateType: PredicateType.RANGE, targetValue: 10, rangeMax: 5 }),
+      );
+      expect(inverted.errors).to.include('Invalid predicate range bounds');
+
+      const stray = validateSlotPredicateProofConstraints(createMockProof({ rangeMax: 5 }));
+      expect(stray.errors).to.include('Range maximum must be 0 for non-range predicates');
+    });
+
+    it('should reject a missing schema hash', () => {
+      const result = validateSlotPredicateProofConstraints(createMockProof({ schemaHash: '0' }));
+      expect(result.errors).to.include('Missing or invalid schema hash');
+    });
+  });
+});
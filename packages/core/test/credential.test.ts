@@ -1,5 +1,11 @@
 import { expect } from 'chai';
-import { createCredential, validateCredential, deriveCommitment } from '../src/credential';
+import {
+  createCredential,
+  validateCredential,
+  deriveCommitment,
+  getCredentialCommitmentVersion,
+  isCredentialExpired,
+} from '../src/credential';
 
 describe('Credential Tests', () => {
   describe('createCredential', () => {
@@ -166,4 +172,48 @@ describe('Credential Tests', () => {
       expect(derived).to.equal(credential.commitment);
     });
   });
+
+  describe('expiring (v2) credentials', () => {
+    const expiryEpoch = Math.floor(Date.parse('2030-01-01T00:00:00Z') / 1000);
+
+    it('should bind the expiry epoch into the commitment', async () => {
+      const credential = await createCredential(1990, 840, expiryEpoch);
+
+      expect(credential.expiryEpoch).to.equal(expiryEpoch);
+      expect(getCredentialCommitmentVersion(credential)).to.equal(2);
+      expect(credential.commitment).to.equal(
+        await deriveCommitment(1990, 840, credential.salt, expiryEpoch),
+      );
+      expect(credential.commitment).to.not.equal(
+        await deriveCommitment(1990, 840, credential.salt),
+      );
+      expect(validateCredential(credential)).to.be.true;
+    });
+
+    it('should keep v1 credentials unchanged', async () => {
+      const credential = await createCredential(1990, 840);
+
+      expect(credential).to.not.have.property('expiryEpoch');
+      expect(getCredentialCommitmentVersion(credential)).to.equal(1);
+      expect(isCredentialExpired(credential)).to.be.false;
+    });
+
+    it('should reject invalid expiry epochs', async () => {
+      for (const epoch of [0, -1, 1.5, 2 ** 40]) {
+        try {
+          await createCredential(1990, 840, epoch);
+          expect.fail('Should have thrown');
+        } catch (error: any) {
+          expect(error.message).to.include('expiryEpoch must be a positive integer');
+        }
+      }
+    });
+
+    it('should report expiry relative to a reference time', async () => {
+      const credential = await createCredential(1990, 840, expiryEpoch);
+
+      expect(isCredentialExpired(credential, expiryEpoch * 1000 - 1)).to.be.false;
+      expect(isCredentialExpired(credential, expiryEpoch * 1000)).to.be.true;
+    });
+  });
 });
@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  DidDocument,
+  DidFetch,
+  DidWebResolver,
+  UniversalDidResolver,
+  didWebToUrl,
+  getDidVerificationKeys,
+  resolveDidJwkDocument,
+  resolveDidKeyDocument,
+} from '../src/did';
+import { ed25519PublicKeyToDIDKey } from '../src/w3c-vc';
+
+const edKeys = generateKeyPairSync('ed25519');
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const edJwk = edKeys.publicKey.export({ format: 'jwk' });
+const didKey = ed25519PublicKeyToDIDKey(Buffer.from(edJwk.x as string, 'base64url'));
+const didJwk = `did:jwk:${Buffer.from(JSON.stringify(ecKeys.publicKey.export({ format: 'jwk' }))).toString('base64url')}`;
+
+function stubFetch(documents: Record<string, unknown>): DidFetch {
+  return async (url) => {
+    const body = documents[url];
+    return { ok: body !== undefined, status: body ? 200 : 404, json: async () => body };
+  };
+}
+
+async function expectRejected(promise: Promise<unknown>, message: string) {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (error: any) {
+    expect(error.message).to.include(message);
+  }
+}
+
+describe('DID resolution', () => {
+  describe('did:key and did:jwk', () => {
+    it('expands an Ed25519 did:key to a Multikey document', () => {
+      const document = resolveDidKeyDocument(didKey);
+      expect(document.id).to.equal(didKey);
+      expect(document.verificationMethod![0]).to.deep.include({
+        id: `${didKey}#${didKey.slice(8)}`,
+        type: 'Multikey',
+        publicKeyMultibase: didKey.slice(8),
+      });
+
+      const [key] = getDidVerificationKeys(document);
+      expect(key.publicKey.export({ format: 'jwk' })).to.deep.equal(edJwk);
+      expect(() =>
+        resolveDidKeyDocument('did:key:zQ3shokFTS3brHcDQrn82RUDfCZESWL1ZdCEJwekUDPQiYBme'),
+      ).to.throw('Only Ed25519 did:key');
+    });
+
+    it('expands a did:jwk and rejects private keys', () => {
+      const document = resolveDidJwkDocument(didJwk);
+      expect(document.assertionMethod).to.deep.equal([`${didJwk}#0`]);
+      expect(getDidVerificationKeys(document)[0].publicKey.asymmetricKeyType).to.equal('ec');
+
+      const privateJwk = Buffer.from(
+        JSON.stringify(ecKeys.privateKey.export({ format: 'jwk' })),
+      ).toString('base64url');
+      expect(() => resolveDidJwkDocument(`did:jwk:${privateJwk}`)).to.throw('private key material');
+      expect(() => resolveDidJwkDocument('did:jwk:not-json')).to.throw('JSON Web Key');
+    });
+  });
+
+  describe('did:web', () => {
+    it('maps identifiers to document URLs', () => {
+      expect(didWebToUrl('did:web:issuer.example.com')).to.equal(
+        'https://issuer.example.com/.well-known/did.json',
+      );
+      expect(didWebToUrl('did:web:issuer.example.com%3A8443:issuers:gov')).to.equal(
+        'https://issuer.example.com:8443/issuers/gov/did.json',
+      );
+      for (const invalid of [
+        'did:web:',
+        'did:web:a.com:..',
+        'did:web:a.com%2Fx',
+        'did:web:a.com#k',
+      ]) {
+        expect(() => didWebToUrl(invalid), invalid).to.throw('Invalid did:web identifier');
+      }
+    });
+
+    it('fetches the document and checks its id', async () => {
+      const did = 'did:web:issuer.example.com';
+      const fetchFn = stubFetch({
+        'https://issuer.example.com/.well-known/did.json': { id: did },
+        'https://other.example.com/.well-known/did.json': { id: did },
+      });
+      const resolver = new DidWebResolver(fetchFn);
+
+      expect(await resolver.resolve(did)).to.deep.equal({ id: did });
+      await expectRejected(
+        resolver.resolve('did:web:other.example.com'),
+        'DID document id does not match',
+      );
+      await expectRejected(resolver.resolve('did:web:missing.example.com'), 'HTTP 404');
+    });
+  });
+
+  describe('UniversalDidResolver', () => {
+    it('dispatches by method and supports plug-in methods', async () => {
+      const resolver = new UniversalDidResolver({
+        fetch: stubFetch({}),
+        methods: { example: { resolve: async (did) => ({ id: did }) } },
+      });
+
+      expect((await resolver.resolve(didKey)).id).to.equal(didKey);
+      expect((await resolver.resolve(didJwk)).id).to.equal(didJwk);
+      expect(await resolver.resolve('did:example:123')).to.deep.equal({ id: 'did:example:123' });
+      await expectRejected(resolver.resolve('did:ion:abc'), 'No resolver configured for did:ion');
+      await expectRejected(resolver.resolve(`${didKey}#key-1`), 'Invalid DID');
+    });
+  });
+
+  describe('getDidVerificationKeys', () => {
+    it('resolves references per relationship and skips foreign or unusable keys', () => {
+      const did = 'did:web:issuer.example.com';
+      const document: DidDocument = {
+        id: did,
+        verificationMethod: [
+          {
+            id: '#key-1',
+            type: 'JsonWebKey2020',
+            controller: did,
+            publicKeyJwk: ecKeys.publicKey.export({ format: 'jwk' }),
+          },
+          {
+            id: `${did}#key-2`,
+            type: 'Multikey',
+            controller: did,
+            publicKeyMultibase: didKey.slice(8),
+          },
+          { id: `${did}#broken`, type: 'Multikey', controller: did, publicKeyMultibase: 'zxyz' },
+        ],
+        assertionMethod: [
+          '#key-1',
+          `${did}#key-2`,
+          `${did}#broken`,
+          `${didKey}#${didKey.slice(8)}`,
+        ],
+        authentication: [`${did}#key-2`],
+      };
+
+      expect(getDidVerificationKeys(document).map((k) => k.id)).to.deep.equal([
+        `${did}#key-1`,
+        `${did}#key-2`,
+      ]);
+      expect(getDidVerificationKeys(document, 'authentication').map((k) => k.id)).to.deep.equal([
+        `${did}#key-2`,
+      ]);
+      expect(getDidVerificationKeys(document, 'keyAgreement')).to.deep.equal([]);
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   ClaimSpec,
   ClaimVerificationResult,
 } from '../src/multi-claim';
+import { createNationalitySet } from '../src/nationality-set';
 
 describe('Multi-Claim Proofs', () => {
   describe('createMultiClaimRequest', () => {
@@ -74,6 +75,46 @@ describe('Multi-Claim Proofs', () => {
       assert.strictEqual(request.claims[0].claimType, 'age-revocable');
     });
 
+    it('should accept nationality-set claim and reject one without a set', () => {
+      const request = createMultiClaimRequest(
+        [
+          {
+            label: 'eu',
+            claimType: 'nationality-set',
+            nationalitySet: createNationalitySet('allow', 'EU'),
+          },
+        ],
+        'nonce-valid-16chars',
+      );
+      assert.strictEqual(request.claims[0].nationalitySet?.mode, 'allow');
+
+      assert.throws(
+        () =>
+          createMultiClaimRequest(
+            [{ label: 'eu', claimType: 'nationality-set' }],
+            'nonce-valid-16chars',
+          ),
+        /nationalitySet is required/,
+      );
+    });
+
+    it('should require targetNationality for nationality-revocable claims', () => {
+      const request = createMultiClaimRequest(
+        [{ label: 'us', claimType: 'nationality-revocable', targetNationality: 840 }],
+        'nonce-valid-16chars',
+      );
+      assert.strictEqual(request.claims[0].targetNationality, 840);
+
+      assert.throws(
+        () =>
+          createMultiClaimRequest(
+            [{ label: 'us', claimType: 'nationality-revocable' }],
+            'nonce-valid-16chars',
+          ),
+        /targetNationality is required for nationality-revocable claims/,
+      );
+    });
+
     it('should support three claims simultaneously', () => {
       const claims: ClaimSpec[] = [
         { label: 'drinking-age', claimType: 'age', minAge: 21 },
@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import {
+  createNationalitySet,
+  EEA_MEMBER_STATES_ALPHA2,
+  EU_MEMBER_STATES_ALPHA2,
+  ISO_3166_ALPHA2_TO_NUMERIC,
+  ISO_3166_NUMERIC_TO_ALPHA2,
+  NAMED_NATIONALITY_SETS,
+  NATIONALITY_SET_SIZE,
+  nationalityCodesFromAlpha2,
+  nationalitySetsEqual,
+  padNationalitySet,
+  validateNationalitySet,
+} from '../src/nationality-set';
+import { generateNationalitySetProof } from '../src/prover';
+import { validateNationalitySetProofConstraints } from '../src/verifier';
+import { createCredential } from '../src/credential';
+import { NationalitySetProof } from '../src/types';
+
+describe('Nationality sets', () => {
+  describe('named sets', () => {
+    it('builds the EU and EEA sets from the ISO 3166 table', () => {
+      expect(NAMED_NATIONALITY_SETS.EU).to.have.lengthOf(EU_MEMBER_STATES_ALPHA2.length);
+      expect(NAMED_NATIONALITY_SETS.EEA).to.have.lengthOf(EEA_MEMBER_STATES_ALPHA2.length);
+      expect(NAMED_NATIONALITY_SETS.EU).to.include(276); // DE
+      expect(NAMED_NATIONALITY_SETS.EU).to.not.include(578); // NO
+      expect(NAMED_NATIONALITY_SETS.EEA).to.include.members([352, 438, 578]); // IS, LI, NO
+
+      for (const code of NAMED_NATIONALITY_SETS.EEA) {
+        expect(ISO_3166_NUMERIC_TO_ALPHA2[code]).to.be.a('string');
+      }
+    });
+
+    it('fits every named set in the circuit', () => {
+      for (const codes of Object.values(NAMED_NATIONALITY_SETS)) {
+        expect(codes.length).to.be.at.most(NATIONALITY_SET_SIZE);
+        expect(() => validateNationalitySet({ mode: 'allow', codes })).to.not.throw();
+      }
+    });
+
+    it('keeps the reverse table consistent', () => {
+      for (const [num, alpha] of Object.entries(ISO_3166_NUMERIC_TO_ALPHA2)) {
+        expect(ISO_3166_ALPHA2_TO_NUMERIC[alpha]).to.equal(Number(num));
+      }
+    });
+  });
+
+  describe('helpers', () => {
+    it('converts alpha-2 codes case-insensitively', () => {
+      expect(nationalityCodesFromAlpha2(['de', 'FR'])).to.deep.equal([276, 250]);
+      expect(() => nationalityCodesFromAlpha2(['XX'])).to.throw('Unknown ISO 3166-1 alpha-2 code');
+    });
+
+    it('creates sets from codes or names', () => {
+      expect(createNationalitySet('deny', [364, 408])).to.deep.equal({
+        mode: 'deny',
+        codes: [364, 408],
+      });
+      expect(createNationalitySet('allow', 'EEA').codes).to.deep.equal(NAMED_NATIONALITY_SETS.EEA);
+    });
+
+    it('rejects invalid sets', () => {
+      expect(() => createNationalitySet('allow', [])).to.throw('at least one code');
+      expect(() => createNationalitySet('allow', [840, 840])).to.throw('duplicates');
+      expect(() => createNationalitySet('allow', [1000])).to.throw('nationality must be between');
+      expect(() =>
+        createNationalitySet(
+          'allow',
+          Array.from({ length: NATIONALITY_SET_SIZE + 1 }, (_, i) => i + 1),
+        ),
+      ).to.throw(`at most ${NATIONALITY_SET_SIZE} codes`);
+      expect(() => validateNationalitySet({ mode: 'block' as 'allow', codes: [840] })).to.throw(
+        "mode must be 'allow' or 'deny'",
+      );
+    });
+
+    it('pads to the circuit width', () => {
+      const padded = padNationalitySet([840, 826]);
+      expect(padded).to.have.lengthOf(NATIONALITY_SET_SIZE);
+      expect(padded.slice(0, 3)).to.deep.equal([840, 826, 0]);
+    });
+
+    it('compares sets ignoring order and padding', () => {
+      const a = { mode: 'allow' as const, codes: [840, 826] };
+      expect(nationalitySetsEqual(a, { mode: 'allow', codes: padNationalitySet([826, 840]) })).to.be
+        .true;
+      expect(nationalitySetsEqual(a, { mode: 'deny', codes: [840, 826] })).to.be.false;
+      expect(nationalitySetsEqual(a, { mode: 'allow', codes: [840] })).to.be.false;
+    });
+  });
+
+  describe('validateNationalitySetProofConstraints', () => {
+    const createMockProof = (
+      overrides: Partial<NationalitySetProof['publicSignals']> = {},
+    ): NationalitySetProof => ({
+      proofType: 'nationality-set',
+      proof: {
+        pi_a: ['1', '2'],
+        pi_b: [
+          ['3', '4'],
+          ['5', '6'],
+        ],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+      publicSignals: {
+        nationalitySet: padNationalitySet(NAMED_NATIONALITY_SETS.EU),
+        isDenyList: 0,
+        credentialHash: '12345678901234567890',
+        nonce: 'nonce-1',
+        requestTimestamp: Date.now(),
+        ...overrides,
+      },
+    });
+
+    it('should validate a good proof', () => {
+      const result = validateNationalitySetProofConstraints(createMockProof());
+      expect(result.valid).to.be.true;
+    });
+
+    it('should reject an unpadded set', () => {
+      const result = validateNationalitySetProofConstraints(
+        createMockProof({ nationalitySet: [840] }),
+      );
+      expect(result.errors).to.include(
+        `Nationality set must have exactly ${NATIONALITY_SET_SIZE} entries`,
+      );
+    });
+
+    it('should reject an empty set and an invalid mode', () => {
+      const result = validateNationalitySetProofConstraints(
+        createMockProof({ nationalitySet: padNationalitySet([]), isDenyList: 2 }),
+      );
+      expect(result.errors).to.include('Nationality set is empty');
+      expect(result.errors).to.include('Invalid set mode in proof');
+    });
+
+    it('should reject out-of-range codes', () => {
+      const result = validateNationalitySetProofConstraints(
+        createMockProof({ nationalitySet: padNationalitySet([840, 1000]) }),
+      );
+      expect(result.errors).to.include('Invalid nationality code in set');
+    });
+  });
+
+  describe('generateNationalitySetProof', () => {
+    it('should validate the set before proving', async () => {
+      const credential = await createCredential(1990, 276);
+      try {
+        await generateNationalitySetProof(
+          credential,
+          { mode: 'allow', codes: [] },
+          'nonce-valid-16chars',
+          Date.now(),
+          'missing.wasm',
+          'missing.zkey',
+        );
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('at least one code');
+      }
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { expect } from 'chai';
+import { createPublicKey, generateKeyPairSync, verify } from 'crypto';
+import { ZkIdCredentialError, ZkIdValidationError } from '../src/errors';
+import { keyObjectSigner } from '../src/sd-jwt';
+import {
+  CredentialOffer,
+  OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT,
+  OPENID4VCI_PROOF_TYP,
+  OpenID4VCIHttpClient,
+  OpenID4VCIHttpResponse,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+  acceptCredentialOffer,
+  createKeyProofJwt,
+  parseCredentialOfferUri,
+  pollDeferredCredential,
+} from '../src/openid4vci';
+
+const ISSUER = 'https://issuer.example';
+
+function decodeSegment(segment: string): Record<string, any> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString());
+}
+
+function reply(status: number, body: unknown): OpenID4VCIHttpResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    json: async () => body,
+  };
+}
+
+/** In-memory issuer answering the requests of the pre-authorized code flow */
+class FakeIssuer implements OpenID4VCIHttpClient {
+  requests: Array<{
+    method: string;
+    url: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+  }> = [];
+  txCode?: string;
+  deferred = false;
+  ready = false;
+  private nonce = 0;
+
+  offer(ids = ['ZkIdSignedCredential']): CredentialOffer {
+    return {
+      credential_issuer: ISSUER,
+      credential_configuration_ids: ids,
+      grants: {
+        [OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT]: {
+          'pre-authorized_code': 'code-1',
+          ...(this.txCode ? { tx_code: { input_mode: 'numeric', length: 6 } } : {}),
+        },
+      },
+    };
+  }
+
+  async get(url: string, headers?: Record<string, string>) {
+    this.requests.push({ method: 'GET', url, headers });
+    if (url === `${ISSUER}/.well-known/openid-credential-issuer`) {
+      return reply(200, {
+        credential_issuer: ISSUER,
+        credential_endpoint: `${ISSUER}/credential`,
+        nonce_endpoint: `${ISSUER}/nonce`,
+        deferred_credential_endpoint: `${ISSUER}/deferred`,
+        credential_configurations_supported: {
+          ZkIdSignedCredential: { format: ZKID_SIGNED_CREDENTIAL_FORMAT },
+          ZkIdSdJwtVc: { format: 'dc+sd-jwt' },
+        },
+      });
+    }
+    if (url === `${ISSUER}/.well-known/oauth-authorization-server`) {
+      return reply(200, { issuer: ISSUER, token_endpoint: `${ISSUER}/token` });
+    }
+    if (url === `${ISSUER}/offers/1`) {
+      return reply(200, this.offer());
+    }
+    return reply(404, {});
+  }
+
+  async post(url: string, body: unknown, headers?: Record<string, string>) {
+    this.requests.push({ method: 'POST', url, body, headers });
+    if (url === `${ISSUER}/token`) {
+      const params = new URLSearchParams(body as string);
+      if (
+        params.get('pre-authorized_code') !== 'code-1' ||
+        (this.txCode && params.get('tx_code') !== this.txCode)
+      ) {
+        return reply(400, { error: 'invalid_grant', error_description: 'Invalid code' });
+      }
+      return reply(200, { access_token: 'token-1', token_type: 'Bearer' });
+    }
+    if (url === `${ISSUER}/nonce`) {
+      return reply(200, { c_nonce: `nonce-${++this.nonce}` });
+    }
+    if (url === `${ISSUER}/credential`) {
+      if (this.deferred) {
+        return reply(202, { transaction_id: 'tx-1', interval: 3 });
+      }
+      return reply(200, { credentials: [{ credential: { id: 'cred-1' } }] });
+    }
+    if (url === `${ISSUER}/deferred`) {
+      return this.ready
+        ? reply(200, { credentials: [{ credential: { id: 'cred-2' } }] })
+        : reply(202, { transaction_id: 'tx-1', interval: 3 });
+    }
+    return reply(404, {});
+  }
+}
+
+describe('OpenID4VCI wallet flow', () => {
+  it('parses offers by value and by reference', () => {
+    const offer = new FakeIssuer().offer();
+    const byValue = parseCredentialOfferUri(
+      `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`,
+    );
+    expect(byValue).to.deep.equal({ credentialOffer: offer });
+
+    const byReference = parseCredentialOfferUri(
+      `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(`${ISSUER}/offers/1`)}`,
+    );
+    expect(byReference).to.deep.equal({ credentialOfferUri: `${ISSUER}/offers/1` });
+
+    expect(() => parseCredentialOfferUri('openid-credential-offer://')).to.throw(
+      ZkIdValidationError,
+    );
+    expect(() =>
+      parseCredentialOfferUri(
+        `openid-credential-offer://?credential_offer=${encodeURIComponent('{"credential_issuer":1}')}`,
+      ),
+    ).to.throw(ZkIdValidationError, 'credential_issuer');
+  });
+
+  it('creates key-proof JWTs with the holder key in the header', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const publicJwk = publicKey.export({ format: 'jwk' });
+    const jwt = await createKeyProofJwt({
+      holderKey: { signer: keyObjectSigner('EdDSA', privateKey, 'ignored'), publicJwk },
+      audience: ISSUER,
+      nonce: 'n-1',
+      iat: 1700000000,
+    });
+
+    const [header, payload, signature] = jwt.split('.');
+    expect(decodeSegment(header)).to.deep.equal({
+      typ: OPENID4VCI_PROOF_TYP,
+      alg: 'EdDSA',
+      jwk: publicJwk,
+    });
+    expect(decodeSegment(payload)).to.deep.equal({ aud: ISSUER, iat: 1700000000, nonce: 'n-1' });
+    const key = createPublicKey({ key: decodeSegment(header).jwk, format: 'jwk' });
+    expect(
+      verify(null, Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url')),
+    ).to.equal(true);
+  });
+
+  it('redeems an offer by reference with a fresh nonce per proof', async () => {
+    const issuer = new FakeIssuer();
+    const result = await acceptCredentialOffer(
+      `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(`${ISSUER}/offers/1`)}`,
+      { http: issuer },
+    );
+
+    expect(result).to.deep.equal({
+      credentialIssuer: ISSUER,
+      credentials: [
+        {
+          configurationId: 'ZkIdSignedCredential',
+          format: ZKID_SIGNED_CREDENTIAL_FORMAT,
+          credential: { id: 'cred-1' },
+        },
+      ],
+      deferred: [],
+    });
+
+    const token = issuer.requests.find((r) => r.url === `${ISSUER}/token`)!;
+    expect(token.headers).to.deep.equal({ 'Content-Type': 'application/x-www-form-urlencoded' });
+    expect(new URLSearchParams(token.body as string).get('grant_type')).to.equal(
+      OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT,
+    );
+
+    const request = issuer.requests.find((r) => r.url === `${ISSUER}/credential`)!;
+    expect(request.headers!.Authorization).to.equal('Bearer token-1');
+    const { proof } = request.body as { proof: { proof_type: string; jwt: string } };
+    expect(proof.proof_type).to.equal('jwt');
+    expect(decodeSegment(proof.jwt.split('.')[1])).to.include({ aud: ISSUER, nonce: 'nonce-1' });
+  });
+
+  it('prompts for the transaction code', async () => {
+    const issuer = new FakeIssuer();
+    issuer.txCode = '123456';
+    const uri = `openid-credential-offer://?credential_offer=${encodeURIComponent(
+      JSON.stringify(issuer.offer()),
+    )}`;
+
+    try {
+      await acceptCredentialOffer(uri, { http: issuer });
+      expect.fail('Expected acceptCredentialOffer to throw');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ZkIdCredentialError);
+      expect((error as ZkIdCredentialError).code).to.equal('TX_CODE_REQUIRED');
+    }
+
+    try {
+      await acceptCredentialOffer(uri, { http: issuer, onTxCode: async () => '000000' });
+      expect.fail('Expected acceptCredentialOffer to throw');
+    } catch (error) {
+      expect((error as Error).message).to.equal(
+        'Token request failed: invalid_grant: Invalid code',
+      );
+    }
+
+    let prompted: unknown;
+    const result = await acceptCredentialOffer(uri, {
+      http: issuer,
+      onTxCode: async (txCode) => {
+        prompted = txCode;
+        return '123456';
+      },
+    });
+    expect(prompted).to.deep.equal({ input_mode: 'numeric', length: 6 });
+    expect(result.credentials).to.have.length(1);
+  });
+
+  it('requests only formats the wallet can store', async () => {
+    const issuer = new FakeIssuer();
+    const offer = issuer.offer(['ZkIdSignedCredential', 'ZkIdSdJwtVc']);
+    const uri = `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+
+    const result = await acceptCredentialOffer(uri, {
+      http: issuer,
+      formats: [ZKID_SIGNED_CREDENTIAL_FORMAT],
+    });
+    expect(result.credentials.map((c) => c.configurationId)).to.deep.equal([
+      'ZkIdSignedCredential',
+    ]);
+
+    try {
+      await acceptCredentialOffer(uri, {
+        http: issuer,
+        formats: [ZKID_SIGNED_CREDENTIAL_FORMAT],
+        credentialConfigurationIds: ['ZkIdSdJwtVc'],
+      });
+      expect.fail('Expected acceptCredentialOffer to throw');
+    } catch (error) {
+      expect((error as ZkIdCredentialError).code).to.equal('UNSUPPORTED_CREDENTIAL_FORMAT');
+    }
+  });
+
+  it('rejects metadata for a different credential issuer', async () => {
+    const issuer = new FakeIssuer();
+    const offer = { ...issuer.offer(), credential_issuer: `${ISSUER}/` };
+    issuer.get = async () => reply(200, { credential_issuer: 'https://evil.example' });
+
+    try {
+      await acceptCredentialOffer(
+        `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`,
+        { http: issuer },
+      );
+      expect.fail('Expected acceptCredentialOffer to throw');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ZkIdValidationError);
+      expect((error as Error).message).to.include('does not match the offer');
+    }
+  });
+
+  it('returns deferred credentials and polls for them', async () => {
+    const issuer = new FakeIssuer();
+    issuer.deferred = true;
+    const result = await acceptCredentialOffer(
+      `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(issuer.offer()))}`,
+      { http: issuer },
+    );
+
+    expect(result.credentials).to.deep.equal([]);
+    expect(result.deferred).to.deep.equal([
+      {
+        configurationId: 'ZkIdSignedCredential',
+        format: ZKID_SIGNED_CREDENTIAL_FORMAT,
+        transactionId: 'tx-1',
+        interval: 3,
+        accessToken: 'token-1',
+        deferredCredentialEndpoint: `${ISSUER}/deferred`,
+      },
+    ]);
+
+    expect(await pollDeferredCredential(result.deferred[0], issuer)).to.equal(null);
+    issuer.ready = true;
+    expect(await pollDeferredCredential(result.deferred[0], issuer)).to.deep.equal({
+      configurationId: 'ZkIdSignedCredential',
+      format: ZKID_SIGNED_CREDENTIAL_FORMAT,
+      credential: { id: 'cred-2' },
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { expect } from 'chai';
+import {
+  PolicyClaimFact,
+  PolicyRules,
+  VerificationPolicy,
+  createPolicyRequest,
+  evaluatePolicy,
+  policyClaims,
+  validatePolicy,
+} from '../src/policy';
+import { createNationalitySet } from '../src/nationality-set';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+
+// (age >= 18 AND nationality in EU) OR (age >= 21)
+const checkout: VerificationPolicy = {
+  id: 'checkout',
+  rule: PolicyRules.any(
+    PolicyRules.all(PolicyRules.minAge(18), PolicyRules.nationalityIn('EU')),
+    PolicyRules.minAge(21),
+  ),
+};
+
+function age(minAge: number, verified = true): PolicyClaimFact {
+  return { label: `age-${minAge}`, claimType: 'age', verified, minAge };
+}
+
+describe('Verifier policies', () => {
+  describe('evaluatePolicy', () => {
+    it('evaluates nested all/any rules with per-rule results', () => {
+      const euAdult = evaluatePolicy(checkout, {
+        claims: [
+          age(18),
+          {
+            label: 'eu',
+            claimType: 'nationality-set',
+            verified: true,
+            nationalitySet: createNationalitySet('allow', [276, 250]),
+          },
+        ],
+      });
+      expect(euAdult.satisfied).to.equal(true);
+      expect(euAdult.result.results![0]).to.deep.include({ rule: 'all', satisfied: true });
+      expect(euAdult.result.results![0].results![1]).to.deep.equal({
+        rule: 'nationality in EU',
+        satisfied: true,
+        matchedClaims: ['eu'],
+      });
+      expect(euAdult.result.results![1]).to.deep.equal({
+        rule: 'age >= 21',
+        satisfied: false,
+        reason: 'No verified age claim for minAge >= 21',
+      });
+
+      expect(evaluatePolicy(checkout, { claims: [age(21)] }).satisfied).to.equal(true);
+      expect(evaluatePolicy(checkout, { claims: [age(18)] }).satisfied).to.equal(false);
+    });
+
+    it('ignores unverified claims and claims outside the rule', () => {
+      const usCitizen = {
+        label: 'us',
+        claimType: 'nationality',
+        verified: true,
+        targetNationality: 840,
+      };
+
+      expect(evaluatePolicy(checkout, { claims: [age(21, false)] }).satisfied).to.equal(false);
+      expect(evaluatePolicy(checkout, { claims: [age(18), usCitizen] }).satisfied).to.equal(false);
+      expect(
+        evaluatePolicy(checkout, {
+          claims: [age(18), { ...usCitizen, targetNationality: 276 }],
+        }).satisfied,
+      ).to.equal(true);
+    });
+
+    it('matches deny lists against notIn', () => {
+      const policy = { id: 'no-sanctioned', rule: PolicyRules.nationalityNotIn([408, 364]) };
+      const claim = (codes: number[]): PolicyClaimFact => ({
+        label: 'deny',
+        claimType: 'nationality-set',
+        verified: true,
+        nationalitySet: createNationalitySet('deny', codes),
+      });
+
+      expect(evaluatePolicy(policy, { claims: [claim([408, 364, 760])] }).satisfied).to.equal(true);
+      expect(evaluatePolicy(policy, { claims: [claim([408])] }).satisfied).to.equal(false);
+    });
+
+    it('enforces issuer requirements and freshness', () => {
+      const policy: VerificationPolicy = {
+        id: 'regulated',
+        rule: PolicyRules.all(
+          PolicyRules.minAge(18),
+          { ...PolicyRules.issuer({ jurisdictions: ['US', 'CA'] }), id: 'trusted-issuer' },
+          PolicyRules.freshness({ maxProofAgeMs: 60_000, maxCredentialAgeMs: 86_400_000 }),
+        ),
+      };
+      const context = {
+        claims: [age(18)],
+        issuer: { issuer: 'gov-id', jurisdiction: 'US', issuedAt: '2026-06-01T00:00:00Z' },
+        requestTimestamp: '2026-06-01T11:59:30Z',
+        nowMs: NOW,
+      };
+
+      expect(evaluatePolicy(policy, context).satisfied).to.equal(true);
+
+      const unsigned = evaluatePolicy(policy, { ...context, issuer: undefined });
+      expect(unsigned.result.results![1]).to.deep.equal({
+        rule: 'trusted-issuer',
+        satisfied: false,
+        reason: 'No verified signed credential',
+      });
+      expect(unsigned.result.results![2].reason).to.equal('Credential is too old');
+
+      const foreign = evaluatePolicy(policy, {
+        ...context,
+        issuer: { ...context.issuer, jurisdiction: 'DE' },
+      });
+      expect(foreign.result.results![1].reason).to.equal('Issuer jurisdiction DE is not accepted');
+
+      const stale = evaluatePolicy(policy, {
+        ...context,
+        requestTimestamp: '2026-06-01T11:58:00Z',
+      });
+      expect(stale.result.results![2].reason).to.equal('Proof is too old');
+    });
+  });
+
+  describe('validatePolicy', () => {
+    it('accepts policies loaded from JSON', () => {
+      validatePolicy(JSON.parse(JSON.stringify(checkout)));
+    });
+
+    it('rejects malformed rules', () => {
+      const invalid = (rule: unknown) => () =>
+        validatePolicy({ id: 'p', rule } as VerificationPolicy);
+
+      expect(invalid({ type: 'not', rule: PolicyRules.minAge(18) })).to.throw('unknown rule type');
+      expect(invalid({ type: 'any', rules: [] })).to.throw('rule.rules must be a non-empty array');
+      expect(invalid({ type: 'nationality', in: [276], notIn: [250] })).to.throw('exactly one');
+      expect(invalid({ type: 'nationality', in: 'ASEAN' })).to.throw('Unknown nationality set');
+      expect(invalid({ type: 'freshness' })).to.throw('maxProofAgeMs or maxCredentialAgeMs');
+      expect(invalid(PolicyRules.all(PolicyRules.minAge(-1)))).to.throw();
+    });
+  });
+
+  describe('createPolicyRequest', () => {
+    it('requests one claim per distinct age or nationality rule', () => {
+      const claims = policyClaims({
+        id: 'p',
+        rule: PolicyRules.any(
+          PolicyRules.all(PolicyRules.minAge(18), PolicyRules.nationalityIn('EU')),
+          PolicyRules.all(PolicyRules.minAge(21), PolicyRules.nationalityIn([840])),
+          PolicyRules.minAge(21),
+        ),
+      });
+
+      expect(claims.map((c) => [c.label, c.claimType])).to.deep.equal([
+        ['age-18', 'age'],
+        ['nationality-in-EU', 'nationality-set'],
+        ['age-21', 'age'],
+        ['nationality-in-840', 'nationality'],
+      ]);
+
+      const request = createPolicyRequest(checkout, 'policy-nonce-0001');
+      expect(request.claims).to.have.length(3);
+      expect(request.nonce).to.equal('policy-nonce-0001');
+    });
+  });
+});
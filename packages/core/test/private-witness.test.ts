@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { InMemoryValidCredentialTree } from '../src/valid-credential-tree';
+import {
+  rebuildWitnessFromFrontier,
+  signTreeFrontier,
+  verifyTreeFrontierSignature,
+  witnessBucketPrefix,
+} from '../src/private-witness';
+import { ZkIdProofError, ZkIdValidationError } from '../src/errors';
+
+// Commitments 16..23 cover every 3-bit prefix once
+const COMMITMENTS = ['16', '17', '18', '19', '20', '21', '22', '23', '32'];
+
+async function buildTree(): Promise<InMemoryValidCredentialTree> {
+  const tree = new InMemoryValidCredentialTree(4);
+  for (const commitment of COMMITMENTS) {
+    await tree.add(commitment);
+  }
+  return tree;
+}
+
+describe('private witness retrieval', () => {
+  it('computes the low-bit bucket prefix of a commitment', () => {
+    expect(witnessBucketPrefix('21', 3)).to.equal(5);
+    expect(witnessBucketPrefix('0x15', 3)).to.equal(5);
+    expect(witnessBucketPrefix('21', 0)).to.equal(0);
+    expect(() => witnessBucketPrefix('21', 17)).to.throw(ZkIdValidationError);
+    expect(() => witnessBucketPrefix('abc', 3)).to.throw(ZkIdValidationError);
+  });
+
+  it('returns only the commitments sharing the requested prefix', async () => {
+    const tree = await buildTree();
+    const bucket = await tree.getWitnessBucket(0, 3, 2);
+
+    expect(bucket.entries.map((e) => e.commitment)).to.deep.equal(['16', '32']);
+    expect(bucket.entries.every((e) => e.siblings.length === 2)).to.equal(true);
+    expect(bucket.root).to.equal(await tree.getRoot());
+    await tree.getWitnessBucket(8, 3, 2).then(
+      () => expect.fail('Should have thrown'),
+      (error) => expect(error).to.be.instanceOf(ZkIdValidationError),
+    );
+  });
+
+  it('rebuilds the same witness as getWitness from a bucket and frontier', async () => {
+    const tree = await buildTree();
+    for (const level of [0, 2, 4]) {
+      const frontier = await tree.getFrontier(level);
+      expect(frontier.nodes).to.have.length(2 ** (4 - level));
+
+      for (const commitment of ['16', '21', '32']) {
+        const bucket = await tree.getWitnessBucket(witnessBucketPrefix(commitment, 3), 3, level);
+        const rebuilt = await rebuildWitnessFromFrontier(commitment, bucket, frontier);
+        expect(rebuilt).to.deep.equal(await tree.getWitness(commitment));
+      }
+    }
+  });
+
+  it('rejects buckets that do not match the frontier', async () => {
+    const tree = await buildTree();
+    const frontier = await tree.getFrontier(2);
+    const bucket = await tree.getWitnessBucket(5, 3, 2);
+
+    await tree.add('48');
+    const staleBucket = await tree.getWitnessBucket(5, 3, 2);
+    const tamperedBucket = {
+      ...bucket,
+      entries: bucket.entries.map((e) => ({ ...e, siblings: ['1', ...e.siblings.slice(1)] })),
+    };
+
+    for (const [candidate, code] of [
+      [staleBucket, 'WITNESS_FRONTIER_MISMATCH'],
+      [tamperedBucket, 'WITNESS_FRONTIER_MISMATCH'],
+      [bucket, 'WITNESS_NOT_FOUND'],
+    ] as const) {
+      const commitment = candidate === bucket ? '16' : '21';
+      try {
+        await rebuildWitnessFromFrontier(commitment, candidate, frontier);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ZkIdProofError);
+        expect((error as ZkIdProofError).code).to.equal(code);
+      }
+    }
+  });
+
+  it('rejects frontier nodes that do not hash to the root', async () => {
+    const tree = await buildTree();
+    const frontier = await tree.getFrontier(2);
+    const bucket = await tree.getWitnessBucket(5, 3, 2);
+    const forged = { ...frontier, nodes: [...frontier.nodes.slice(0, 3), '7'] };
+
+    try {
+      await rebuildWitnessFromFrontier('21', bucket, forged);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect((error as ZkIdProofError).code).to.equal('INVALID_TREE_FRONTIER');
+    }
+  });
+
+  it('signs and verifies tree frontiers', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const other = generateKeyPairSync('ed25519');
+    const tree = await buildTree();
+    const signed = signTreeFrontier(await tree.getFrontier(2), 'Test Issuer', privateKey);
+
+    expect(verifyTreeFrontierSignature(signed, publicKey)).to.equal(true);
+    expect(verifyTreeFrontierSignature(signed, other.publicKey)).to.equal(false);
+    expect(verifyTreeFrontierSignature({ ...signed, issuer: 'Other Issuer' }, publicKey)).to.equal(
+      false,
+    );
+    expect(
+      verifyTreeFrontierSignature(
+        { ...signed, frontier: { ...signed.frontier, version: signed.frontier.version + 1 } },
+        publicKey,
+      ),
+    ).to.equal(false);
+  });
+});
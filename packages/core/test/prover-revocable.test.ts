@@ -1,7 +1,11 @@
 import { expect } from 'chai';
 import path from 'path';
 import { randomBytes } from 'crypto';
-import { generateAgeProofRevocable, generateAgeProofRevocableAuto } from '../src/prover';
+import {
+  generateAgeProofRevocable,
+  generateAgeProofRevocableAuto,
+  generateNationalityProofRevocable,
+} from '../src/prover';
 import { createCredential } from '../src/credential';
 import { verifyAgeProofRevocable, loadVerificationKey } from '../src/verifier';
 import { InMemoryValidCredentialTree } from '../src/valid-credential-tree';
@@ -189,6 +193,36 @@ describe('Revocable Prover Tests', () => {
     });
   });
 
+  describe('generateNationalityProofRevocable', () => {
+    it('should throw error with invalid targetNationality', async function () {
+      const credential = await createCredential(1995, 840);
+      const tree = new InMemoryValidCredentialTree();
+      await tree.add(credential.commitment);
+
+      const witness = await tree.getWitness(credential.commitment);
+      if (!witness) {
+        throw new Error('Failed to get witness');
+      }
+
+      const nonce = BigInt('0x' + randomBytes(31).toString('hex')).toString();
+
+      try {
+        await generateNationalityProofRevocable(
+          credential,
+          0,
+          nonce,
+          Date.now(),
+          witness,
+          'missing.wasm',
+          'missing.zkey',
+        );
+        expect.fail('Should have thrown error');
+      } catch (error: any) {
+        expect(error.message).to.include('nationality');
+      }
+    });
+  });
+
   describe('generateAgeProofRevocableAuto', () => {
     it('should generate a valid revocable proof using auto path resolution', async function () {
       this.timeout(15000);
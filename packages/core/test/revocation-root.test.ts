@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  SignedValidCredentialTree,
+  signRevocationRoot,
+  verifyRevocationRootSignature,
+} from '../src/revocation-root';
+import { verifyTreeFrontierSignature } from '../src/private-witness';
+import { InMemoryValidCredentialTree } from '../src/valid-credential-tree';
+import { RevocationRootInfo } from '../src/types';
+
+describe('signed revocation roots', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const info: RevocationRootInfo = {
+    root: '12345',
+    version: 4,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: '2026-01-01T00:05:00.000Z',
+    ttlSeconds: 300,
+    source: 'test-registry',
+  };
+
+  it('signs root info without changing its fields', () => {
+    const signed = signRevocationRoot(info, 'Test Issuer', privateKey);
+
+    expect(signed).to.deep.include(info);
+    expect(signed.issuer).to.equal('Test Issuer');
+    expect(signed.signature).to.be.a('string');
+    expect(verifyRevocationRootSignature(signed, publicKey)).to.equal(true);
+  });
+
+  it('rejects unsigned, tampered and wrongly keyed roots', () => {
+    const signed = signRevocationRoot(info, 'Test Issuer', privateKey);
+    const other = generateKeyPairSync('ed25519');
+
+    expect(verifyRevocationRootSignature(info, publicKey)).to.equal(false);
+    expect(verifyRevocationRootSignature(signed, other.publicKey)).to.equal(false);
+    for (const tampered of [
+      { ...signed, root: '54321' },
+      { ...signed, version: 3 },
+      { ...signed, expiresAt: '2026-02-01T00:00:00.000Z' },
+      { ...signed, issuer: 'Other Issuer' },
+      { ...signed, signature: 'not-a-signature' },
+    ]) {
+      expect(verifyRevocationRootSignature(tampered, publicKey)).to.equal(false);
+    }
+  });
+
+  it('signs each tree version once with expiresAt counted from updatedAt', async () => {
+    const tree = new SignedValidCredentialTree(new InMemoryValidCredentialTree(4), {
+      issuer: 'Test Issuer',
+      privateKey,
+      ttlSeconds: 60,
+      source: 'test-registry',
+    });
+    await tree.add('1');
+
+    const first = await tree.getRootInfo();
+    expect(await tree.getRootInfo()).to.equal(first);
+    expect(verifyRevocationRootSignature(first, publicKey)).to.equal(true);
+    expect(first).to.deep.include({ version: 1, ttlSeconds: 60, source: 'test-registry' });
+    expect(Date.parse(first.expiresAt!) - Date.parse(first.updatedAt)).to.equal(60 * 1000);
+
+    const frontier = await tree.getSignedFrontier(2);
+    expect(await tree.getSignedFrontier(2)).to.equal(frontier);
+    expect(verifyTreeFrontierSignature(frontier, publicKey)).to.equal(true);
+    expect(frontier.frontier.expiresAt).to.equal(first.expiresAt);
+
+    await tree.remove('1');
+    const second = await tree.getRootInfo();
+    expect(second.version).to.equal(2);
+    expect(second.root).to.not.equal(first.root);
+    expect(verifyRevocationRootSignature(second, publicKey)).to.equal(true);
+    expect((await tree.getSignedFrontier(2)).frontier.version).to.equal(2);
+  });
+});
@@ -8,6 +8,7 @@ import {
   listScenarios,
 } from '../src/scenarios';
 import { expandMultiClaimRequest } from '../src/multi-claim';
+import { validateNationalitySet } from '../src/nationality-set';
 
 describe('Verification Scenarios', () => {
   describe('Scenario Definitions', () => {
@@ -21,7 +22,12 @@ describe('Verification Scenarios', () => {
 
         for (const claim of scenario.claims) {
           expect(claim.label).to.be.a('string').with.length.greaterThan(0);
-          expect(claim.claimType).to.be.oneOf(['age', 'nationality', 'age-revocable']);
+          expect(claim.claimType).to.be.oneOf([
+            'age',
+            'nationality',
+            'age-revocable',
+            'nationality-set',
+          ]);
 
           if (claim.claimType === 'age' || claim.claimType === 'age-revocable') {
             expect(claim.minAge).to.be.a('number').and.to.be.at.least(0);
@@ -32,6 +38,9 @@ describe('Verification Scenarios', () => {
               .and.to.be.at.least(1)
               .and.to.be.at.most(999);
           }
+          if (claim.claimType === 'nationality-set') {
+            expect(() => validateNationalitySet(claim.nationalitySet!)).to.not.throw();
+          }
         }
       }
     });
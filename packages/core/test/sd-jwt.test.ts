@@ -0,0 +1,235 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  KB_JWT_TYP,
+  SD_JWT_VC_TYP,
+  ZK_ID_SD_JWT_VCT,
+  createDisclosure,
+  createSdJwtPresentation,
+  decodeDisclosure,
+  issueSdJwt,
+  keyObjectSigner,
+  parseSdJwt,
+  verifySdJwtVc,
+} from '../src/sd-jwt';
+
+const issuerKeys = generateKeyPairSync('ed25519');
+const holderKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const issuerSigner = keyObjectSigner('EdDSA', issuerKeys.privateKey, 'issuer-key-1');
+const holderSigner = keyObjectSigner('ES256', holderKeys.privateKey);
+
+const AUDIENCE = 'x509_san_dns:verifier.example.com';
+const NONCE = 'kb-nonce-123';
+
+function issue(overrides: Record<string, unknown> = {}, decoys = 0): Promise<string> {
+  return issueSdJwt(
+    {
+      iss: 'https://issuer.example.com',
+      iat: Math.floor(Date.now() / 1000),
+      vct: ZK_ID_SD_JWT_VCT,
+      cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) },
+      commitment: '123456789',
+      ...overrides,
+    },
+    { birthYear: 1990, nationality: 840 },
+    issuerSigner,
+    { decoys },
+  );
+}
+
+function present(sdJwt: string, disclose: string[], nonce = NONCE): Promise<string> {
+  return createSdJwtPresentation(sdJwt, disclose, {
+    signer: holderSigner,
+    audience: AUDIENCE,
+    nonce,
+  });
+}
+
+async function expectRejected(promise: Promise<unknown>, message: string) {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (error: any) {
+    expect(error.message).to.include(message);
+  }
+}
+
+describe('SD-JWT VC', () => {
+  describe('disclosures', () => {
+    it('round-trips [salt, name, value] disclosures', () => {
+      const disclosure = createDisclosure('birthYear', 1990, 'salt-1');
+      const decoded = decodeDisclosure(disclosure.encoded);
+      expect(decoded).to.deep.include({ salt: 'salt-1', name: 'birthYear', value: 1990 });
+      expect(decoded.digest).to.equal(disclosure.digest);
+    });
+
+    it('refuses reserved claim names', () => {
+      expect(() => createDisclosure('_sd', [])).to.throw('cannot be selectively disclosed');
+      expect(() => createDisclosure('cnf', {})).to.throw('cannot be selectively disclosed');
+    });
+  });
+
+  describe('issueSdJwt', () => {
+    it('hides disclosable claims behind _sd digests', async () => {
+      const sdJwt = await issue({}, 3);
+      const { issuerJwt, disclosures, keyBindingJwt } = parseSdJwt(sdJwt);
+      const [header, payload] = issuerJwt
+        .split('.')
+        .slice(0, 2)
+        .map((p) => JSON.parse(Buffer.from(p, 'base64url').toString('utf8')));
+
+      expect(header).to.include({ typ: SD_JWT_VC_TYP, alg: 'EdDSA', kid: 'issuer-key-1' });
+      expect(payload).to.not.have.property('birthYear');
+      expect(payload._sd_alg).to.equal('sha-256');
+      expect(payload._sd).to.have.length(5);
+      expect(disclosures.map((d) => d.name)).to.have.members(['birthYear', 'nationality']);
+      expect(keyBindingJwt).to.be.undefined;
+    });
+
+    it('rejects claims that are both visible and disclosable', async () => {
+      await expectRejected(issue({ birthYear: 1990 }), 'both visible and disclosable');
+    });
+  });
+
+  describe('verifySdJwtVc', () => {
+    it('verifies a key-bound presentation and merges disclosed claims', async () => {
+      const presentation = await present(await issue({}, 2), ['birthYear']);
+      const result = await verifySdJwtVc(presentation, {
+        issuerKey: issuerKeys.publicKey,
+        expectedVct: ZK_ID_SD_JWT_VCT,
+        audience: AUDIENCE,
+        nonce: NONCE,
+      });
+
+      expect(result.claims).to.include({ birthYear: 1990, commitment: '123456789' });
+      expect(result.claims).to.not.have.property('nationality');
+      expect(result.claims).to.not.have.property('_sd');
+      expect(result.keyBinding).to.include({ aud: AUDIENCE, nonce: NONCE });
+    });
+
+    it('resolves the issuer key from iss', async () => {
+      const presentation = await present(await issue(), []);
+      const result = await verifySdJwtVc(presentation, {
+        resolveIssuerKey: async (iss) =>
+          iss === 'https://issuer.example.com' ? issuerKeys.publicKey : null,
+      });
+      expect(result.disclosures).to.have.length(0);
+
+      await expectRejected(
+        verifySdJwtVc(presentation, { resolveIssuerKey: async () => null }),
+        'Unknown or untrusted SD-JWT issuer',
+      );
+    });
+
+    it('rejects a forged issuer signature', async () => {
+      const other = generateKeyPairSync('ed25519');
+      const presentation = await present(await issue(), ['birthYear']);
+      await expectRejected(
+        verifySdJwtVc(presentation, { issuerKey: other.publicKey }),
+        'SD-JWT signature verification failed',
+      );
+    });
+
+    it('rejects disclosures that the issuer did not sign', async () => {
+      const sdJwt = await issue();
+      const forged = createDisclosure('birthYear', 1970);
+      const [jwt] = sdJwt.split('~');
+      const presentation = await createSdJwtPresentation(`${jwt}~${forged.encoded}~`, [
+        'birthYear',
+      ]);
+      await expectRejected(
+        verifySdJwtVc(presentation, { issuerKey: issuerKeys.publicKey, requireKeyBinding: false }),
+        'is not referenced by the SD-JWT',
+      );
+    });
+
+    it('requires key binding by default', async () => {
+      const presentation = await createSdJwtPresentation(await issue(), ['birthYear']);
+      await expectRejected(
+        verifySdJwtVc(presentation, { issuerKey: issuerKeys.publicKey }),
+        'requires a key binding JWT',
+      );
+    });
+
+    it('checks KB-JWT audience, nonce and sd_hash', async () => {
+      const sdJwt = await issue();
+      const presentation = await present(sdJwt, ['birthYear']);
+      const options = { issuerKey: issuerKeys.publicKey, audience: AUDIENCE, nonce: NONCE };
+
+      await expectRejected(
+        verifySdJwtVc(presentation, { ...options, audience: 'did:web:other' }),
+        'KB-JWT audience mismatch',
+      );
+      await expectRejected(
+        verifySdJwtVc(await present(sdJwt, ['birthYear'], 'stale'), options),
+        'KB-JWT nonce mismatch',
+      );
+
+      // Swapping disclosures under an existing KB-JWT breaks sd_hash
+      const kbJwt = presentation.slice(presentation.lastIndexOf('~') + 1);
+      const swapped = (await createSdJwtPresentation(sdJwt, ['nationality'])) + kbJwt;
+      await expectRejected(verifySdJwtVc(swapped, options), 'sd_hash does not match');
+    });
+
+    it('rejects a KB-JWT signed by another key', async () => {
+      const attacker = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const presentation = await createSdJwtPresentation(await issue(), ['birthYear'], {
+        signer: keyObjectSigner('ES256', attacker.privateKey),
+        audience: AUDIENCE,
+        nonce: NONCE,
+      });
+      await expectRejected(
+        verifySdJwtVc(presentation, { issuerKey: issuerKeys.publicKey }),
+        'KB-JWT signature verification failed',
+      );
+    });
+
+    it('rejects stale KB-JWTs and expired credentials', async () => {
+      const sdJwt = await issue();
+      const stale = await createSdJwtPresentation(sdJwt, [], {
+        signer: holderSigner,
+        audience: AUDIENCE,
+        nonce: NONCE,
+        iat: Math.floor(Date.now() / 1000) - 3600,
+      });
+      await expectRejected(
+        verifySdJwtVc(stale, { issuerKey: issuerKeys.publicKey }),
+        'KB-JWT is not fresh',
+      );
+
+      const expired = await present(await issue({ exp: Math.floor(Date.now() / 1000) - 3600 }), []);
+      await expectRejected(
+        verifySdJwtVc(expired, { issuerKey: issuerKeys.publicKey }),
+        'SD-JWT VC has expired',
+      );
+    });
+
+    it('rejects unsupported _sd_alg values and the wrong typ', async () => {
+      // Re-sign an issued payload that claims sha-1
+      const sdAlg = await issue();
+      const [h, p] = sdAlg.split('~')[0].split('.');
+      const payload = JSON.parse(Buffer.from(p, 'base64url').toString('utf8'));
+      payload._sd_alg = 'sha-1';
+      const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+      const signature = await issuerSigner.sign(Buffer.from(`${h}.${body}`));
+      await expectRejected(
+        verifySdJwtVc(`${h}.${body}.${signature.toString('base64url')}~`, {
+          issuerKey: issuerKeys.publicKey,
+          requireKeyBinding: false,
+        }),
+        'Unsupported _sd_alg',
+      );
+
+      const kbTyped = await issueSdJwt(
+        { iss: 'https://issuer.example.com', vct: ZK_ID_SD_JWT_VCT },
+        {},
+        issuerSigner,
+        { typ: KB_JWT_TYP },
+      );
+      await expectRejected(
+        verifySdJwtVc(kbTyped, { issuerKey: issuerKeys.publicKey, requireKeyBinding: false }),
+        `typ must be ${SD_JWT_VC_TYP}`,
+      );
+    });
+  });
+});
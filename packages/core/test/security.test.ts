@@ -149,6 +149,11 @@ describe('Security - Boundary Fuzzing', () => {
       expect(() => validateClaimType('age-revocable')).to.not.throw();
     });
 
+    it('should accept "range" and "predicate"', () => {
+      expect(() => validateClaimType('range')).to.not.throw();
+      expect(() => validateClaimType('predicate')).to.not.throw();
+    });
+
     it('should reject unknown claim type', () => {
       expect(() => validateClaimType('unknown')).to.throw(/Invalid claim type/);
     });
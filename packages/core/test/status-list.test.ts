@@ -0,0 +1,196 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  BITSTRING_STATUS_LIST_MIN_LENGTH,
+  InMemoryStatusListPublisher,
+  checkStatusListEntry,
+  decodeStatusList,
+  encodeStatusList,
+  getStatusBit,
+} from '../src/status-list';
+import {
+  addDataIntegrityProof,
+  ed25519DataIntegritySigner,
+  ed25519PublicKeyToDIDKey,
+} from '../src/w3c-vc';
+
+const issuerKeys = generateKeyPairSync('ed25519');
+const issuerDID = ed25519PublicKeyToDIDKey(
+  Buffer.from(issuerKeys.publicKey.export({ format: 'jwk' }).x as string, 'base64url'),
+);
+const signer = ed25519DataIntegritySigner(issuerKeys.privateKey);
+
+function createPublisher(listLength?: number) {
+  return new InMemoryStatusListPublisher({
+    baseUrl: 'https://issuer.example.com/status',
+    issuer: issuerDID,
+    signer,
+    listLength,
+  });
+}
+
+async function expectRejected(promise: Promise<unknown>, message: string) {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (error: any) {
+    expect(error.message).to.include(message);
+  }
+}
+
+describe('Bitstring Status List', () => {
+  describe('encoding', () => {
+    it('round-trips a GZIP multibase bitstring with MSB-first bit order', () => {
+      const bits = new Uint8Array(BITSTRING_STATUS_LIST_MIN_LENGTH / 8);
+      bits[0] = 0b1000_0001;
+      const encoded = encodeStatusList(bits);
+      expect(encoded).to.match(/^u[A-Za-z0-9_-]+$/);
+
+      const decoded = decodeStatusList(encoded);
+      expect(decoded).to.have.length(16_384);
+      expect(getStatusBit(decoded, 0)).to.be.true;
+      expect(getStatusBit(decoded, 1)).to.be.false;
+      expect(getStatusBit(decoded, 7)).to.be.true;
+      expect(() => getStatusBit(decoded, BITSTRING_STATUS_LIST_MIN_LENGTH)).to.throw(
+        'outside the status list',
+      );
+    });
+
+    it('rejects malformed encoded lists', () => {
+      expect(() => decodeStatusList('zabc')).to.throw('multibase base64url');
+      expect(() => decodeStatusList('unot-gzip')).to.throw('not a valid GZIP bitstring');
+    });
+  });
+
+  describe('InMemoryStatusListPublisher', () => {
+    it('assigns stable, distinct entries', async () => {
+      const publisher = createPublisher();
+      const first = await publisher.assign('111');
+      const second = await publisher.assign('222');
+
+      expect(first).to.deep.include({
+        type: 'BitstringStatusListEntry',
+        statusPurpose: 'revocation',
+        statusListCredential: 'https://issuer.example.com/status/1',
+      });
+      expect(first.id).to.equal(`${first.statusListCredential}#${first.statusListIndex}`);
+      expect(second.statusListIndex).to.not.equal(first.statusListIndex);
+      expect(await publisher.assign('111')).to.deep.equal(first);
+      expect(await publisher.getEntry('333')).to.be.null;
+    });
+
+    it('opens a new list when the current one is full', async () => {
+      const publisher = createPublisher();
+      for (let i = 0; i < BITSTRING_STATUS_LIST_MIN_LENGTH; i++) {
+        await publisher.assign(String(i));
+      }
+      const overflow = await publisher.assign('overflow');
+
+      expect(overflow.statusListCredential).to.equal('https://issuer.example.com/status/2');
+      expect(publisher.getListUrls()).to.deep.equal([
+        'https://issuer.example.com/status/1',
+        'https://issuer.example.com/status/2',
+      ]);
+    });
+
+    it('validates configuration and unknown commitments', async () => {
+      expect(() => createPublisher(1024)).to.throw('at least 131072');
+      await expectRejected(createPublisher().setStatus('111', true), 'No status list entry');
+      await expectRejected(createPublisher().publish('https://other.example/1'), 'Unknown status');
+    });
+  });
+
+  describe('checkStatusListEntry', () => {
+    it('publishes a signed list reflecting revocations', async () => {
+      const publisher = createPublisher();
+      const entry = await publisher.assign('111');
+      await publisher.assign('222');
+      await publisher.setStatus('111', true);
+
+      const list = await publisher.publish(entry.statusListCredential);
+      expect(list.type).to.deep.equal(['VerifiableCredential', 'BitstringStatusListCredential']);
+      expect(list.issuer).to.equal(issuerDID);
+      expect(list.credentialSubject).to.deep.include({
+        id: 'https://issuer.example.com/status/1#list',
+        type: 'BitstringStatusList',
+        statusPurpose: 'revocation',
+      });
+      expect(list.proof?.cryptosuite).to.equal('eddsa-jcs-2022');
+
+      expect(await checkStatusListEntry(entry, list, issuerDID)).to.be.true;
+      expect(await checkStatusListEntry((await publisher.getEntry('222'))!, list, issuerDID)).to.be
+        .false;
+
+      await publisher.setStatus('111', false);
+      const updated = await publisher.publish(entry.statusListCredential);
+      expect(await checkStatusListEntry(entry, updated, issuerDID)).to.be.false;
+    });
+
+    it('rejects tampered, expired or mismatched lists', async () => {
+      const publisher = createPublisher();
+      const entry = await publisher.assign('111');
+      const list = await publisher.publish(entry.statusListCredential);
+
+      const tampered = structuredClone(list);
+      tampered.credentialSubject.encodedList = encodeStatusList(
+        new Uint8Array(BITSTRING_STATUS_LIST_MIN_LENGTH / 8).fill(0xff),
+      );
+      await expectRejected(
+        checkStatusListEntry(entry, tampered, issuerDID),
+        'proof verification failed',
+      );
+
+      await expectRejected(
+        checkStatusListEntry(entry, list, issuerDID, { nowMs: Date.now() + 2 * 86_400_000 }),
+        'Credential has expired',
+      );
+      await expectRejected(
+        checkStatusListEntry({ ...entry, statusPurpose: 'suspension' }, list, issuerDID),
+        'Status purpose mismatch',
+      );
+      await expectRejected(
+        checkStatusListEntry(
+          { ...entry, statusListCredential: 'https://other.example/1' },
+          list,
+          issuerDID,
+        ),
+        'does not match the entry',
+      );
+    });
+
+    it('rejects lists self-signed by someone other than the credential issuer', async () => {
+      const publisher = createPublisher();
+      const entry = await publisher.assign('111');
+      await publisher.setStatus('111', true);
+
+      // The server hosting the list signs its own "not revoked" list under a did:key
+      const attackerKeys = generateKeyPairSync('ed25519');
+      const attackerDID = ed25519PublicKeyToDIDKey(
+        Buffer.from(attackerKeys.publicKey.export({ format: 'jwk' }).x as string, 'base64url'),
+      );
+      const attacker = new InMemoryStatusListPublisher({
+        baseUrl: 'https://issuer.example.com/status',
+        issuer: attackerDID,
+        signer: ed25519DataIntegritySigner(attackerKeys.privateKey),
+      });
+      await attacker.assign('111');
+      const forged = await attacker.publish(entry.statusListCredential);
+
+      await expectRejected(
+        checkStatusListEntry(entry, forged, issuerDID),
+        'not issued by the credential issuer',
+      );
+
+      // Claiming the issuer's DID does not help without the issuer's key
+      const list = await publisher.publish(entry.statusListCredential);
+      const impersonated = await addDataIntegrityProof(
+        { ...list, proof: undefined },
+        ed25519DataIntegritySigner(attackerKeys.privateKey),
+      );
+      await expectRejected(
+        checkStatusListEntry(entry, impersonated, issuerDID),
+        'not controlled by the issuer',
+      );
+    });
+  });
+});
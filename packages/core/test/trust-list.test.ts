@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { keyObjectSigner } from '../src/sd-jwt';
+import {
+  TrustList,
+  signTrustList,
+  trustListEntryPublicKey,
+  verifyTrustList,
+} from '../src/trust-list';
+
+const anchorKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const issuerKeys = generateKeyPairSync('ed25519');
+const signer = keyObjectSigner('ES256', anchorKeys.privateKey, 'governance-2026');
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+
+function trustList(overrides: Partial<TrustList> = {}): TrustList {
+  return {
+    listOperator: 'did:web:trust.example',
+    sequenceNumber: 7,
+    issuedAt: '2026-05-30T00:00:00Z',
+    nextUpdate: '2026-06-07T00:00:00Z',
+    entries: [
+      {
+        issuer: 'gov-id',
+        publicKeyJwk: issuerKeys.publicKey.export({ format: 'jwk' }),
+        jurisdiction: 'US',
+        policyUrl: 'https://gov.example/policy',
+        auditUrl: 'https://audit.example/gov-id',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Trust lists', () => {
+  it('signs with a detached JWS and verifies against the pinned anchor', async () => {
+    const signed = await signTrustList(trustList(), signer);
+    const [header, payload] = signed.signature.split('.');
+    expect(payload).to.equal('');
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).to.deep.equal({
+      alg: 'ES256',
+      typ: 'trust-list+json',
+      kid: 'governance-2026',
+    });
+
+    const list = verifyTrustList(signed, { trustAnchors: [anchorKeys.publicKey], nowMs: NOW });
+    expect(list.sequenceNumber).to.equal(7);
+    expect(list.entries[0].jurisdiction).to.equal('US');
+    expect(trustListEntryPublicKey(list.entries[0]).equals(issuerKeys.publicKey)).to.be.true;
+
+    // JWK anchors and anchor sets (for anchor rotation) work too
+    const otherAnchor = generateKeyPairSync('ed25519').publicKey;
+    verifyTrustList(signed, {
+      trustAnchors: [otherAnchor, anchorKeys.publicKey.export({ format: 'jwk' })],
+      nowMs: NOW,
+    });
+  });
+
+  it('rejects lists not signed by an anchor or modified after signing', async () => {
+    const signed = await signTrustList(trustList(), signer);
+    const options = { trustAnchors: [generateKeyPairSync('ed25519').publicKey], nowMs: NOW };
+    expect(() => verifyTrustList(signed, options)).to.throw(
+      'Trust list signature verification failed',
+    );
+
+    const tampered = { ...signed, list: signed.list.replace('"US"', '"DE"') };
+    expect(() =>
+      verifyTrustList(tampered, { trustAnchors: [anchorKeys.publicKey], nowMs: NOW }),
+    ).to.throw('Trust list signature verification failed');
+
+    const attached = { ...signed, signature: signed.signature.replace('..', '.e30.') };
+    expect(() =>
+      verifyTrustList(attached, { trustAnchors: [anchorKeys.publicKey], nowMs: NOW }),
+    ).to.throw('detached JWS');
+    expect(() => verifyTrustList(signed, { trustAnchors: [], nowMs: NOW })).to.throw(
+      'No trust list anchors configured',
+    );
+  });
+
+  it('fails closed on expiry and rejects rollbacks', async () => {
+    const signed = await signTrustList(trustList(), signer);
+    const options = { trustAnchors: [anchorKeys.publicKey] };
+
+    expect(() =>
+      verifyTrustList(signed, { ...options, nowMs: Date.parse('2026-06-07T00:00:00Z') }),
+    ).to.throw('Trust list has expired');
+    expect(() =>
+      verifyTrustList(signed, { ...options, nowMs: NOW, minSequenceNumber: 8 }),
+    ).to.throw('sequence number rolled back');
+  });
+
+  it('rejects malformed entries', async () => {
+    const privateEntry = trustList({
+      entries: [{ issuer: 'x', publicKeyJwk: issuerKeys.privateKey.export({ format: 'jwk' }) }],
+    });
+    const badStatus = trustList({
+      entries: [
+        {
+          issuer: 'x',
+          publicKeyJwk: issuerKeys.publicKey.export({ format: 'jwk' }),
+          status: 'paused' as 'active',
+        },
+      ],
+    });
+    const options = { trustAnchors: [anchorKeys.publicKey], nowMs: NOW };
+    const signedPrivate = await signTrustList(privateEntry, signer);
+    const signedBadStatus = await signTrustList(badStatus, signer);
+
+    expect(() => verifyTrustList(signedPrivate, options)).to.throw('private key material');
+    expect(() => verifyTrustList(signedBadStatus, options)).to.throw('Malformed trust list entry');
+  });
+});
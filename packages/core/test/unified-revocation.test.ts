@@ -2,6 +2,9 @@ import { strict as assert } from 'assert';
 import { UnifiedRevocationManager, InMemoryIssuedCredentialIndex } from '../src/unified-revocation';
 import { InMemoryValidCredentialTree } from '../src/valid-credential-tree';
 import { createCredential } from '../src/credential';
+import { InMemoryStatusListPublisher, decodeStatusList, getStatusBit } from '../src/status-list';
+import { ed25519DataIntegritySigner } from '../src/w3c-vc';
+import { generateKeyPairSync } from 'crypto';
 
 describe('UnifiedRevocationManager', () => {
   let tree: InMemoryValidCredentialTree;
@@ -262,4 +265,37 @@ describe('UnifiedRevocationManager', () => {
       assert.strictEqual(await manager.getStatus(creds[2].commitment), 'valid');
     });
   });
+
+  describe('status list', () => {
+    it('flips the bitstring status bit on revoke and reactivate', async () => {
+      const statusList = new InMemoryStatusListPublisher({
+        baseUrl: 'https://issuer.example.com/status',
+        issuer: 'did:example:issuer',
+        signer: ed25519DataIntegritySigner(generateKeyPairSync('ed25519').privateKey),
+      });
+      manager = new UnifiedRevocationManager({ validTree: tree, issuedIndex, statusList });
+
+      const cred = await createCredential(1990, 840);
+      const other = await createCredential(1995, 826);
+      await manager.addCredential(cred.commitment);
+      await manager.addCredential(other.commitment);
+      const entry = await statusList.assign(cred.commitment);
+      const isFlagged = async () => {
+        const list = await statusList.publish(entry.statusListCredential);
+        const bits = decodeStatusList(list.credentialSubject.encodedList);
+        return getStatusBit(bits, Number(entry.statusListIndex));
+      };
+
+      await manager.revokeCredential(cred.commitment);
+      assert.strictEqual(await isFlagged(), true);
+
+      await manager.reactivateCredential(cred.commitment);
+      assert.strictEqual(await isFlagged(), false);
+
+      // Commitments without an entry only touch the tree
+      await manager.revokeCredential(other.commitment);
+      assert.strictEqual(await manager.getStatus(other.commitment), 'revoked');
+      assert.strictEqual(await isFlagged(), false);
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import { generateAgeProofFull } from '../src/prover';
+import { validateAgeProofFullConstraints, verifyAgeProofFullWithIssuer } from '../src/verifier';
+import { createCredential } from '../src/credential';
+import { AgeProofFull, VerificationKey } from '../src/types';
+
+const dummyKey: VerificationKey = {
+  protocol: 'groth16',
+  curve: 'bn128',
+  nPublic: 0,
+  vk_alpha_1: [],
+  vk_beta_2: [],
+  vk_gamma_2: [],
+  vk_delta_2: [],
+  vk_alphabeta_12: [],
+  IC: [],
+};
+
+const issuerBits = Array.from({ length: 256 }, (_, i) => String(i % 2));
+
+function createMockProof(overrides: Partial<AgeProofFull['publicSignals']> = {}): AgeProofFull {
+  return {
+    proofType: 'age-full',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      currentYear: new Date().getFullYear(),
+      minAge: 18,
+      merkleRoot: '98765432109876543210',
+      scopeHash: '11111111111111111111',
+      nullifier: '22222222222222222222',
+      nonce: 'nonce-1',
+      requestTimestamp: Date.now(),
+      issuerPublicKey: issuerBits,
+      ...overrides,
+    },
+  };
+}
+
+describe('Full-assurance age proofs', () => {
+  describe('validateAgeProofFullConstraints', () => {
+    it('should validate a good proof', () => {
+      const result = validateAgeProofFullConstraints(createMockProof());
+      expect(result.valid).to.be.true;
+      expect(result.errors).to.deep.equal([]);
+    });
+
+    it('should reject a missing merkle root and nullifier', () => {
+      const result = validateAgeProofFullConstraints(
+        createMockProof({ merkleRoot: '0', nullifier: '' }),
+      );
+      expect(result.errors).to.include('Missing or invalid merkle root');
+      expect(result.errors).to.include('Missing or invalid nullifier');
+    });
+
+    it('should reject a non-numeric scope hash', () => {
+      const result = validateAgeProofFullConstraints(createMockProof({ scopeHash: 'abc' }));
+      expect(result.errors).to.include('Missing or invalid scope hash');
+    });
+
+    it('should reject a truncated issuer key', () => {
+      const result = validateAgeProofFullConstraints(
+        createMockProof({ issuerPublicKey: ['0', '1'] }),
+      );
+      expect(result.errors).to.include('Issuer public key must have 256 bits');
+    });
+
+    it('should reject an out-of-range minimum age', () => {
+      const result = validateAgeProofFullConstraints(createMockProof({ minAge: 200 }));
+      expect(result.errors).to.include('Invalid minimum age requirement');
+    });
+  });
+
+  describe('verifyAgeProofFullWithIssuer', () => {
+    it('should return false if issuer public key bits do not match', async () => {
+      const trusted = issuerBits.map((bit) => (bit === '0' ? '1' : '0'));
+      const ok = await verifyAgeProofFullWithIssuer(createMockProof(), dummyKey, trusted);
+      expect(ok).to.equal(false);
+    });
+
+    it('should return false if the merkle root is not the expected root', async () => {
+      const ok = await verifyAgeProofFullWithIssuer(
+        createMockProof(),
+        dummyKey,
+        issuerBits,
+        '12345',
+      );
+      expect(ok).to.equal(false);
+    });
+  });
+
+  describe('generateAgeProofFull', () => {
+    it('should validate the scope hash before proving', async () => {
+      const credential = await createCredential(1990, 840);
+      try {
+        await generateAgeProofFull(
+          credential,
+          18,
+          'nonce-valid-16chars',
+          Date.now(),
+          { root: '1', pathIndices: [], siblings: [] },
+          'not-a-number',
+          { signatureR8: [], signatureS: [], issuerPublicKey: [] },
+          'missing.wasm',
+          'missing.zkey',
+        );
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('scopeHash');
+      }
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { expect } from 'chai';
-import { validateAgeProofRevocableConstraints, verifyAgeProofRevocable } from '../src/verifier';
-import { AgeProofRevocable, VerificationKey } from '../src/types';
+import {
+  validateAgeProofRevocableConstraints,
+  validateNationalityProofRevocableConstraints,
+  verifyAgeProofRevocable,
+  verifyNationalityProofRevocable,
+} from '../src/verifier';
+import { AgeProofRevocable, NationalityProofRevocable, VerificationKey } from '../src/types';
 
 describe('Revocable Verifier Tests', () => {
   describe('validateAgeProofRevocableConstraints', () => {
@@ -184,4 +189,56 @@ describe('Revocable Verifier Tests', () => {
       expect(verified).to.equal(false);
     });
   });
+
+  describe('nationality-revocable', () => {
+    const createMockProof = (
+      overrides: Partial<NationalityProofRevocable['publicSignals']> = {},
+    ): NationalityProofRevocable => ({
+      proofType: 'nationality-revocable',
+      proof: {
+        pi_a: ['1', '2'],
+        pi_b: [
+          ['3', '4'],
+          ['5', '6'],
+        ],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+      publicSignals: {
+        targetNationality: 840,
+        credentialHash: '12345678901234567890',
+        merkleRoot: '98765432109876543210',
+        nonce: 'nonce-1',
+        requestTimestamp: Date.now(),
+        ...overrides,
+      },
+    });
+
+    it('should validate a good proof', () => {
+      const result = validateNationalityProofRevocableConstraints(createMockProof());
+
+      expect(result.valid).to.be.true;
+      expect(result.errors).to.have.lengthOf(0);
+    });
+
+    it('should reject invalid nationality codes and merkle roots', () => {
+      const result = validateNationalityProofRevocableConstraints(
+        createMockProof({ targetNationality: 1000, merkleRoot: '0' }),
+      );
+
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.include('Invalid nationality code in proof');
+      expect(result.errors).to.include('Missing or invalid merkle root');
+    });
+
+    it('rejects when expected merkle root mismatches', async () => {
+      const verified = await verifyNationalityProofRevocable(
+        createMockProof({ merkleRoot: '1' }),
+        {} as VerificationKey,
+        '2',
+      );
+      expect(verified).to.equal(false);
+    });
+  });
 });
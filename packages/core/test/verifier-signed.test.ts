@@ -1,9 +1,18 @@
 import { expect } from 'chai';
 import {
   verifyAgeProofSignedWithIssuer,
+  verifyAgeProofSignedExpiringWithIssuer,
   verifyNationalityProofSignedWithIssuer,
+  validateAgeProofSignedExpiringConstraints,
 } from '../src/verifier';
-import { AgeProofSigned, NationalityProofSigned, VerificationKey } from '../src/types';
+import { generateAgeProofSigned, generateAgeProofSignedExpiring } from '../src/prover';
+import { createCredential } from '../src/credential';
+import {
+  AgeProofSigned,
+  AgeProofSignedExpiring,
+  NationalityProofSigned,
+  VerificationKey,
+} from '../src/types';
 
 const dummyKey: VerificationKey = {
   protocol: 'groth16',
@@ -65,3 +74,105 @@ describe('Signed Proof Issuer Matching', () => {
     expect(ok).to.equal(false);
   });
 });
+
+describe('Expiring Signed Age Proofs', () => {
+  const issuerBits = Array.from({ length: 256 }, (_, i) => String(i % 2));
+  const signatureInputs = { issuerPublicKey: issuerBits, signatureR8: [], signatureS: [] };
+
+  function createMockProof(
+    overrides: Partial<AgeProofSignedExpiring['publicSignals']> = {},
+  ): AgeProofSignedExpiring {
+    const requestTimestamp = Date.now();
+    return {
+      proofType: 'age-signed-expiring',
+      proof: {
+        pi_a: [],
+        pi_b: [],
+        pi_c: [],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+      publicSignals: {
+        currentYear: new Date().getFullYear(),
+        minAge: 18,
+        credentialHash: '123',
+        currentTimestamp: Math.floor(requestTimestamp / 1000),
+        nonce: 'nonce',
+        requestTimestamp,
+        issuerPublicKey: issuerBits,
+        ...overrides,
+      },
+    };
+  }
+
+  it('should validate a good proof', () => {
+    expect(validateAgeProofSignedExpiringConstraints(createMockProof()).valid).to.be.true;
+  });
+
+  it('should reject a back-dated expiry check timestamp', () => {
+    const proof = createMockProof();
+    proof.publicSignals.currentTimestamp -= 86400;
+    expect(validateAgeProofSignedExpiringConstraints(proof).errors).to.include(
+      'Expiry check timestamp does not match request timestamp',
+    );
+  });
+
+  it('should return false if issuer public key bits do not match', async () => {
+    const ok = await verifyAgeProofSignedExpiringWithIssuer(createMockProof(), dummyKey, ['1']);
+    expect(ok).to.equal(false);
+  });
+
+  it('should refuse to prove with an expired credential', async () => {
+    const credential = await createCredential(1990, 840, Math.floor(Date.now() / 1000) - 60);
+    try {
+      await generateAgeProofSignedExpiring(
+        credential,
+        18,
+        'nonce-valid-16chars',
+        Date.now(),
+        signatureInputs,
+        'missing.wasm',
+        'missing.zkey',
+      );
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.code).to.equal('CREDENTIAL_EXPIRED');
+    }
+  });
+
+  it('should require an expiry epoch', async () => {
+    const credential = await createCredential(1990, 840);
+    try {
+      await generateAgeProofSignedExpiring(
+        credential,
+        18,
+        'nonce-valid-16chars',
+        Date.now(),
+        signatureInputs,
+        'missing.wasm',
+        'missing.zkey',
+      );
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.include('credential.expiryEpoch is required');
+    }
+  });
+
+  it('should reject v2 credentials in the v1 signed circuit', async () => {
+    const credential = await createCredential(1990, 840, Math.floor(Date.now() / 1000) + 3600);
+    try {
+      await generateAgeProofSigned(
+        credential,
+        18,
+        'nonce-valid-16chars',
+        Date.now(),
+        signatureInputs,
+        'missing.wasm',
+        'missing.zkey',
+      );
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.include('use generateAgeProofSignedExpiring');
+    }
+  });
+});
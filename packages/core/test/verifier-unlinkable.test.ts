@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import {
+  validateAgeProofUnlinkableConstraints,
+  validateNationalityProofUnlinkableConstraints,
+  verifyAgeProofUnlinkable,
+  verifyNationalityProofUnlinkable,
+} from '../src/verifier';
+import { AgeProofUnlinkable, NationalityProofUnlinkable, VerificationKey } from '../src/types';
+
+const groth16Proof = {
+  pi_a: ['1', '2'],
+  pi_b: [
+    ['3', '4'],
+    ['5', '6'],
+  ],
+  pi_c: ['7', '8'],
+  protocol: 'groth16',
+  curve: 'bn128',
+};
+
+describe('Unlinkable Verifier Tests', () => {
+  const createAgeProof = (
+    signals?: Partial<AgeProofUnlinkable['publicSignals']>,
+  ): AgeProofUnlinkable => ({
+    proofType: 'age-unlinkable',
+    proof: groth16Proof,
+    publicSignals: {
+      currentYear: new Date().getFullYear(),
+      minAge: 18,
+      merkleRoot: '98765432109876543210',
+      nonce: 'nonce-1',
+      requestTimestamp: Date.now(),
+      ...signals,
+    },
+  });
+
+  const createNationalityProof = (
+    signals?: Partial<NationalityProofUnlinkable['publicSignals']>,
+  ): NationalityProofUnlinkable => ({
+    proofType: 'nationality-unlinkable',
+    proof: groth16Proof,
+    publicSignals: {
+      targetNationality: 840,
+      merkleRoot: '98765432109876543210',
+      nonce: 'nonce-1',
+      requestTimestamp: Date.now(),
+      ...signals,
+    },
+  });
+
+  describe('validateAgeProofUnlinkableConstraints', () => {
+    it('should validate a good proof without a credential hash', () => {
+      const proof = createAgeProof();
+      expect(proof.publicSignals).to.not.have.property('credentialHash');
+
+      const result = validateAgeProofUnlinkableConstraints(proof);
+      expect(result.valid).to.be.true;
+      expect(result.errors).to.have.lengthOf(0);
+    });
+
+    it('should reject proof with zero merkleRoot', () => {
+      const result = validateAgeProofUnlinkableConstraints(createAgeProof({ merkleRoot: '0' }));
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.include('Missing or invalid merkle root');
+    });
+
+    it('should reject stale proofs and invalid minimum ages', () => {
+      const result = validateAgeProofUnlinkableConstraints(
+        createAgeProof({ minAge: 200, requestTimestamp: Date.now() - 10 * 60 * 1000 }),
+      );
+      expect(result.errors).to.deep.equal([
+        'Invalid minimum age requirement',
+        'Request timestamp is stale (> 5 minutes old)',
+      ]);
+    });
+  });
+
+  describe('validateNationalityProofUnlinkableConstraints', () => {
+    it('should validate a good proof', () => {
+      const result = validateNationalityProofUnlinkableConstraints(createNationalityProof());
+      expect(result.valid).to.be.true;
+    });
+
+    it('should reject invalid nationality codes and missing nonces', () => {
+      const result = validateNationalityProofUnlinkableConstraints(
+        createNationalityProof({ targetNationality: 1000, nonce: '' }),
+      );
+      expect(result.errors).to.deep.equal(['Invalid nationality code in proof', 'Missing nonce']);
+    });
+  });
+
+  describe('merkle root pinning', () => {
+    const verificationKey = {} as VerificationKey;
+
+    it('rejects age proofs for a different tree root', async () => {
+      expect(await verifyAgeProofUnlinkable(createAgeProof(), verificationKey, '1')).to.equal(
+        false,
+      );
+    });
+
+    it('rejects nationality proofs for a different tree root', async () => {
+      expect(
+        await verifyNationalityProofUnlinkable(createNationalityProof(), verificationKey, '1'),
+      ).to.equal(false);
+    });
+  });
+});
@@ -1,6 +1,17 @@
 import { expect } from 'chai';
-import { validateProofConstraints, validateNationalityProofConstraints } from '../src/verifier';
-import { AgeProof, NationalityProof } from '../src/types';
+import {
+  validateProofConstraints,
+  validateNationalityProofConstraints,
+  validateRangeProofConstraints,
+} from '../src/verifier';
+import {
+  createAgeRangePredicate,
+  createNationalityExclusionPredicate,
+  PredicateProof,
+  PredicateSpec,
+  validatePredicateProofConstraints,
+} from '../src/predicate-proof';
+import { AgeProof, NationalityProof, RangeProof } from '../src/types';
 
 describe('Verifier Tests', () => {
   describe('validateProofConstraints', () => {
@@ -337,4 +348,142 @@ describe('Verifier Tests', () => {
       expect(result.errors.length).to.be.greaterThan(1);
     });
   });
+
+  describe('validateRangeProofConstraints', () => {
+    const createMockRangeProof = (publicSignals?: string[]): RangeProof => ({
+      proofType: 'range',
+      proof: {
+        pi_a: ['1', '2'],
+        pi_b: [
+          ['3', '4'],
+          ['5', '6'],
+        ],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+      publicSignals: publicSignals ?? [
+        '1',
+        '1980',
+        '2000',
+        '12345678901234567890',
+        '42',
+        String(Date.now()),
+        '0',
+      ],
+      fieldName: 'birthYear',
+    });
+
+    it('should validate a good range proof', () => {
+      const result = validateRangeProofConstraints(createMockRangeProof());
+      expect(result.valid).to.be.true;
+      expect(result.errors).to.have.lengthOf(0);
+    });
+
+    it('should reject the wrong number of public signals', () => {
+      const result = validateRangeProofConstraints(createMockRangeProof(['1', '1980', '2000']));
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.include('Range proof must have 7 public signals');
+    });
+
+    it('should reject inverted bounds and an invalid output', () => {
+      const result = validateRangeProofConstraints(
+        createMockRangeProof(['0', '2000', '1980', '123', '42', String(Date.now()), '0']),
+      );
+      expect(result.errors).to.include('Range proof output is not valid');
+      expect(result.errors).to.include('Invalid range bounds in proof');
+    });
+
+    it('should reject a field selector that does not match fieldName', () => {
+      const proof = createMockRangeProof();
+      proof.fieldName = 'nationality';
+      const result = validateRangeProofConstraints(proof);
+      expect(result.valid).to.be.false;
+      expect(result.errors).to.include('Range proof field selector does not match fieldName');
+      proof.fieldName = 'value' as RangeProof['fieldName'];
+      expect(validateRangeProofConstraints(proof).valid).to.be.false;
+    });
+
+    it('should reject stale timestamps', () => {
+      const stale = String(Date.now() - 10 * 60 * 1000);
+      const result = validateRangeProofConstraints(
+        createMockRangeProof(['1', '1980', '2000', '123', '42', stale, '0']),
+      );
+      expect(result.valid).to.be.false;
+      expect(result.errors[0]).to.include('stale');
+    });
+  });
+
+  describe('validatePredicateProofConstraints', () => {
+    const createMockPredicateProof = (
+      predicate: PredicateSpec,
+      overrides: Partial<PredicateProof['publicSignals']> = {},
+    ): PredicateProof => ({
+      type: 'PredicateProof',
+      proofType: 'predicate',
+      predicate,
+      publicSignals: {
+        credentialCommitment: '12345678901234567890',
+        predicateType: predicate.type,
+        targetValue: predicate.value,
+        rangeMax: predicate.maxValue ?? 0,
+        fieldSelector: predicate.field,
+        nonce: '42',
+        timestamp: Date.now(),
+        satisfied: 1,
+        ...overrides,
+      },
+      proof: {
+        pi_a: ['1', '2'],
+        pi_b: [
+          ['3', '4'],
+          ['5', '6'],
+        ],
+        pi_c: ['7', '8'],
+        protocol: 'groth16',
+        curve: 'bn128',
+      },
+    });
+
+    it('should validate good range and exclusion predicates', () => {
+      for (const predicate of [
+        createAgeRangePredicate(18, 65, 2026),
+        createNationalityExclusionPredicate(840),
+      ]) {
+        const result = validatePredicateProofConstraints(createMockPredicateProof(predicate));
+        expect(result.valid).to.be.true;
+      }
+    });
+
+    it('should reject an unsatisfied predicate', () => {
+      const result = validatePredicateProofConstraints(
+        createMockPredicateProof(createNationalityExclusionPredicate(840), { satisfied: 0 }),
+      );
+      expect(result.errors).to.include('Predicate not satisfied');
+    });
+
+    it('should reject a predicate that does not match its public signals', () => {
+      const result = validatePredicateProofConstraints(
+        createMockPredicateProof(createAgeRangePredicate(18, 65, 2026), { rangeMax: 2020 }),
+      );
+      expect(result.errors).to.include('Predicate does not match public signals');
+    });
+
+    it('should reject a RANGE predicate without a valid upper bound', () => {
+      const predicate = { ...createAgeRangePredicate(18, 65, 2026), maxValue: 1900 };
+      const result = validatePredicateProofConstraints(createMockPredicateProof(predicate));
+      expect(result.errors).to.include('Invalid predicate range bounds');
+    });
+
+    it('should reject missing commitment and nonce', () => {
+      const result = validatePredicateProofConstraints(
+        createMockPredicateProof(createNationalityExclusionPredicate(840), {
+          credentialCommitment: '',
+          nonce: '',
+        }),
+      );
+      expect(result.errors).to.include('Missing or invalid credential commitment');
+      expect(result.errors).to.include('Missing nonce');
+    });
+  });
 });
@@ -1,9 +1,15 @@
 import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
 import {
   toW3CVerifiableCredential,
   fromW3CVerifiableCredential,
   ed25519PublicKeyToDIDKey,
   didKeyToEd25519PublicKey,
+  addDataIntegrityProof,
+  canonicalizeJson,
+  ed25519DataIntegritySigner,
+  verifyDataIntegrityProof,
+  verifyW3CVerifiableCredential,
   W3CVerifiableCredential,
 } from '../src/w3c-vc';
 import { SignedCredential, Credential } from '../src/types';
@@ -39,20 +45,18 @@ describe('W3C Verifiable Credentials', () => {
 
       expect(vc.id).to.equal('urn:uuid:123e4567-e89b-12d3-a456-426614174000');
       expect(vc.issuer).to.equal('test-issuer');
-      expect(vc.issuanceDate).to.equal('2026-02-09T01:00:00.000Z');
+      expect(vc.validFrom).to.equal('2026-02-09T01:00:00.000Z');
 
       expect(vc.credentialSubject).to.deep.include({
         zkCredential: {
           commitment: '12345678901234567890',
           createdAt: '2026-02-09T00:00:00.000Z',
+          issuerSignature: 'base64-encoded-signature',
         },
       });
 
-      expect(vc.proof).to.deep.include({
-        type: 'Ed25519Signature2020',
-        proofPurpose: 'assertionMethod',
-        proofValue: 'base64-encoded-signature',
-      });
+      // Unsecured until a Data Integrity proof is added
+      expect(vc).to.not.have.property('proof');
     });
 
     it('should accept issuer DID', () => {
@@ -73,12 +77,22 @@ describe('W3C Verifiable Credentials', () => {
       );
     });
 
-    it('should accept expiration date', () => {
+    it('should accept validUntil', () => {
       const vc = toW3CVerifiableCredential(mockSignedCredential, {
-        expirationDate: '2027-02-09T00:00:00.000Z',
+        validUntil: '2027-02-09T00:00:00.000Z',
+      });
+
+      expect(vc.validUntil).to.equal('2027-02-09T00:00:00.000Z');
+    });
+
+    it('should default validUntil to the credential expiry', () => {
+      const vc = toW3CVerifiableCredential({
+        ...mockSignedCredential,
+        expiresAt: '2028-01-01T00:00:00.000Z',
       });
 
-      expect(vc.expirationDate).to.equal('2027-02-09T00:00:00.000Z');
+      expect(vc.validUntil).to.equal('2028-01-01T00:00:00.000Z');
+      expect(fromW3CVerifiableCredential(vc).expiresAt).to.equal('2028-01-01T00:00:00.000Z');
     });
 
     it('should accept additional contexts', () => {
@@ -89,12 +103,21 @@ describe('W3C Verifiable Credentials', () => {
       expect(vc['@context']).to.include('https://example.com/custom-context');
     });
 
-    it('should accept custom verification method', () => {
-      const vc = toW3CVerifiableCredential(mockSignedCredential, {
-        verificationMethod: 'did:key:z6Mk...#key-2',
-      });
+    it('should embed the bitstring status list entry as credentialStatus', () => {
+      const credentialStatus = {
+        id: 'https://issuer.example.com/status/1#94567',
+        type: 'BitstringStatusListEntry' as const,
+        statusPurpose: 'revocation',
+        statusListIndex: '94567',
+        statusListCredential: 'https://issuer.example.com/status/1',
+      };
+      const vc = toW3CVerifiableCredential({ ...mockSignedCredential, credentialStatus });
 
-      expect(vc.proof?.verificationMethod).to.equal('did:key:z6Mk...#key-2');
+      expect(vc.credentialStatus).to.deep.equal(credentialStatus);
+      expect(fromW3CVerifiableCredential(vc).credentialStatus).to.deep.equal(credentialStatus);
+      expect(toW3CVerifiableCredential(mockSignedCredential)).to.not.have.property(
+        'credentialStatus',
+      );
     });
   });
 
@@ -111,6 +134,30 @@ describe('W3C Verifiable Credentials', () => {
       expect(signedCred.issuedAt).to.equal('2026-02-09T01:00:00.000Z');
     });
 
+    it('should read legacy VC 1.1 exports', () => {
+      const legacyVC: W3CVerifiableCredential = {
+        '@context': ['https://www.w3.org/ns/credentials/v2'],
+        type: ['VerifiableCredential', 'ZkIdCredential'],
+        id: 'urn:uuid:test',
+        issuer: 'test-issuer',
+        issuanceDate: '2026-02-09T00:00:00.000Z',
+        credentialSubject: {
+          zkCredential: { commitment: 'test', createdAt: '2026-02-09T00:00:00.000Z' },
+        },
+        proof: {
+          type: 'Ed25519Signature2020',
+          created: '2026-02-09T00:00:00.000Z',
+          verificationMethod: 'test#key-1',
+          proofPurpose: 'assertionMethod',
+          proofValue: 'legacy-sig',
+        },
+      };
+
+      const signedCred = fromW3CVerifiableCredential(legacyVC);
+      expect(signedCred.signature).to.equal('legacy-sig');
+      expect(signedCred.issuedAt).to.equal('2026-02-09T00:00:00.000Z');
+    });
+
     it('should throw error for non-ZkIdCredential', () => {
       const nonZkVC: W3CVerifiableCredential = {
         '@context': ['https://www.w3.org/ns/credentials/v2'],
@@ -151,7 +198,7 @@ describe('W3C Verifiable Credentials', () => {
       );
     });
 
-    it('should throw error for missing proof', () => {
+    it('should throw error for missing issuer signature', () => {
       const invalidVC = {
         '@context': ['https://www.w3.org/ns/credentials/v2'],
         type: ['VerifiableCredential', 'ZkIdCredential'],
@@ -164,10 +211,12 @@ describe('W3C Verifiable Credentials', () => {
             createdAt: '2026-02-09T00:00:00.000Z',
           },
         },
-        // Missing proof
+        // Missing proof and zkCredential.issuerSignature
       } as unknown as W3CVerifiableCredential;
 
-      expect(() => fromW3CVerifiableCredential(invalidVC)).to.throw('Missing proof or proofValue');
+      expect(() => fromW3CVerifiableCredential(invalidVC)).to.throw(
+        'Missing zk-id issuer signature',
+      );
     });
   });
 
@@ -213,19 +262,178 @@ describe('W3C Verifiable Credentials', () => {
     });
   });
 
-  describe('W3C VC interoperability', () => {
-    it('should produce credential that passes basic W3C VC validation', () => {
-      const vc = toW3CVerifiableCredential(mockSignedCredential, {
-        issuerDID: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
-        subjectDID: 'did:key:z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH',
+  describe('Data Integrity (eddsa-jcs-2022)', () => {
+    const issuerKeys = generateKeyPairSync('ed25519');
+    const signer = ed25519DataIntegritySigner(issuerKeys.privateKey);
+    const issuerDID = signer.verificationMethod.split('#')[0];
+
+    function unsecuredVC(): W3CVerifiableCredential {
+      return toW3CVerifiableCredential(mockSignedCredential, {
+        issuerDID,
+        validUntil: '2099-01-01T00:00:00Z',
+      });
+    }
+
+    async function expectRejected(promise: Promise<unknown>, message: string) {
+      try {
+        await promise;
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include(message);
+      }
+    }
+
+    it('should canonicalize JSON per RFC 8785', () => {
+      expect(
+        canonicalizeJson(
+          JSON.parse(
+            '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],"literals":[null,true,false]}',
+          ),
+        ),
+      ).to.equal(
+        '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27]}',
+      );
+      expect(
+        canonicalizeJson({
+          '\u20ac': 1,
+          '\r': 2,
+          '\ufb33': 3,
+          '1': 4,
+          '\ud83d\ude00': 5,
+          '\u0080': 6,
+          '\u00f6': 7,
+        }),
+      ).to.equal('{"\\r":2,"1":4,"\u0080":6,"\u00f6":7,"\u20ac":1,"\ud83d\ude00":5,"\ufb33":3}');
+    });
+
+    it('should round-trip a proof verified via the issuer did:key', async () => {
+      const vc = await addDataIntegrityProof(unsecuredVC(), signer, {
+        created: new Date('2026-02-09T01:00:00Z'),
+      });
+
+      expect(vc.proof).to.deep.include({
+        type: 'DataIntegrityProof',
+        cryptosuite: 'eddsa-jcs-2022',
+        created: '2026-02-09T01:00:00Z',
+        proofPurpose: 'assertionMethod',
       });
+      expect(vc.proof['@context']).to.deep.equal(vc['@context']);
+      expect(vc.proof.verificationMethod).to.equal(`${issuerDID}#${issuerDID.slice(8)}`);
+      expect(vc.proof.proofValue).to.match(/^z[1-9A-HJ-NP-Za-km-z]+$/);
+
+      // didKeyToEd25519PublicKey recovers the signing key
+      const jwk = issuerKeys.publicKey.export({ format: 'jwk' });
+      expect(Buffer.from(didKeyToEd25519PublicKey(issuerDID))).to.deep.equal(
+        Buffer.from(jwk.x as string, 'base64url'),
+      );
+
+      const proof = await verifyW3CVerifiableCredential(vc);
+      expect(proof.proofValue).to.equal(vc.proof.proofValue);
+
+      // Round-trips through JSON without re-canonicalization issues
+      await verifyW3CVerifiableCredential(JSON.parse(JSON.stringify(vc)));
+      expect(fromW3CVerifiableCredential(vc).signature).to.equal('base64-encoded-signature');
+    });
+
+    it('should reject tampered documents and proof options', async () => {
+      const vc = await addDataIntegrityProof(unsecuredVC(), signer);
+
+      const tampered = structuredClone(vc);
+      tampered.credentialSubject.zkCredential.commitment = '999';
+      await expectRejected(verifyDataIntegrityProof(tampered), 'proof verification failed');
+
+      const repurposed = structuredClone(vc);
+      repurposed.proof.proofPurpose = 'authentication';
+      await expectRejected(
+        verifyDataIntegrityProof(repurposed, { expectedProofPurpose: 'authentication' }),
+        'proof verification failed',
+      );
+
+      const recontexted = structuredClone(vc);
+      recontexted['@context'] = ['https://www.w3.org/ns/credentials/v2'];
+      await expectRejected(verifyDataIntegrityProof(recontexted), 'Proof @context does not match');
+    });
+
+    it('should bind the verification method to the issuer and enforce validity', async () => {
+      const other = ed25519DataIntegritySigner(generateKeyPairSync('ed25519').privateKey);
+      const foreign = await addDataIntegrityProof(unsecuredVC(), other);
+      await verifyDataIntegrityProof(foreign);
+      await expectRejected(verifyW3CVerifiableCredential(foreign), 'not controlled by the issuer');
+
+      const vc = await addDataIntegrityProof(unsecuredVC(), signer);
+      await expectRejected(
+        verifyW3CVerifiableCredential(vc, { nowMs: Date.parse('2099-06-01T00:00:00Z') }),
+        'Credential has expired',
+      );
+      await expectRejected(
+        verifyW3CVerifiableCredential(vc, { nowMs: Date.parse('2020-01-01T00:00:00Z') }),
+        'Credential is not yet valid',
+      );
+    });
+
+    it("should reject credentials signed with an attacker's did:key", async () => {
+      const attacker = ed25519DataIntegritySigner(generateKeyPairSync('ed25519').privateKey);
+
+      // Issuer named by DID: the proof verifies, but under the attacker's key
+      const forged = await addDataIntegrityProof(unsecuredVC(), attacker);
+      await expectRejected(verifyW3CVerifiableCredential(forged), 'not controlled by the issuer');
+
+      // Issuer named by plain zk-id issuer name
+      const named = toW3CVerifiableCredential(mockSignedCredential);
+      const forgedNamed = await addDataIntegrityProof(named, attacker);
+      await expectRejected(verifyW3CVerifiableCredential(forgedNamed), 'Issuer is not a DID');
+      await expectRejected(
+        verifyW3CVerifiableCredential(forgedNamed, { resolvePublicKey: async () => null }),
+        'not controlled by the issuer',
+      );
+    });
+
+    it('should verify non-DID issuers only through resolvePublicKey', async () => {
+      const registrySigner = ed25519DataIntegritySigner(issuerKeys.privateKey, 'test-issuer#key-1');
+      const vc = await addDataIntegrityProof(
+        toW3CVerifiableCredential(mockSignedCredential),
+        registrySigner,
+      );
+      const resolvePublicKey = async (verificationMethod: string) =>
+        verificationMethod === 'test-issuer#key-1' ? issuerKeys.publicKey : null;
+
+      await expectRejected(verifyW3CVerifiableCredential(vc), 'Issuer is not a DID');
+      await verifyW3CVerifiableCredential(vc, { resolvePublicKey });
+    });
+
+    it('should reject unsupported cryptosuites and unresolvable keys', async () => {
+      const vc = await addDataIntegrityProof(unsecuredVC(), signer);
+      await expectRejected(
+        verifyDataIntegrityProof({ ...vc, proof: { ...vc.proof, cryptosuite: 'eddsa-rdfc-2022' } }),
+        'Unsupported cryptosuite: eddsa-rdfc-2022',
+      );
+      await expectRejected(
+        verifyDataIntegrityProof(vc, { resolvePublicKey: async () => null }),
+        'Cannot resolve verification method',
+      );
+      expect(() =>
+        ed25519DataIntegritySigner(generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey),
+      ).to.throw('requires an Ed25519 key');
+    });
+  });
+
+  describe('W3C VC interoperability', () => {
+    it('should produce credential that passes basic W3C VC validation', async () => {
+      const signer = ed25519DataIntegritySigner(generateKeyPairSync('ed25519').privateKey);
+      const vc = await addDataIntegrityProof(
+        toW3CVerifiableCredential(mockSignedCredential, {
+          issuerDID: signer.verificationMethod.split('#')[0],
+          subjectDID: 'did:key:z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH',
+        }),
+        signer,
+      );
 
       // Required W3C VC fields
       expect(vc).to.have.property('@context');
       expect(vc).to.have.property('type');
       expect(vc).to.have.property('id');
       expect(vc).to.have.property('issuer');
-      expect(vc).to.have.property('issuanceDate');
+      expect(vc).to.have.property('validFrom');
       expect(vc).to.have.property('credentialSubject');
 
       // W3C VC v2.0 requirements
@@ -22,6 +22,7 @@ import {
   randomBytes,
   KeyObject,
 } from 'crypto';
+import { OpenID4VCIIssuer, openID4VCIRouter } from './oid4vci';
 
 dotenv.config();
 
@@ -51,6 +52,9 @@ const CIRCUIT_ALIASES: Record<string, string> = {
   'age-revocable.wasm': 'age-verify-revocable_js/age-verify-revocable.wasm',
   'age-revocable.zkey': 'age-verify-revocable.zkey',
   'age-revocable-vkey.json': 'age-verify-revocable_verification_key.json',
+  'nationality-revocable.wasm': 'nationality-verify-revocable_js/nationality-verify-revocable.wasm',
+  'nationality-revocable.zkey': 'nationality-verify-revocable.zkey',
+  'nationality-revocable-vkey.json': 'nationality-verify-revocable_verification_key.json',
 };
 
 // Rate limiting configuration
@@ -110,6 +114,10 @@ function requestLogger(req: Request, res: Response, next: NextFunction) {
 
 app.use(requestLogger);
 
+// OpenID4VCI endpoints, mounted once the issuers are initialized
+const oid4vci = express.Router();
+app.use(oid4vci);
+
 // Initialize issuers
 let issuer: ManagedCredentialIssuer;
 let issuerPublicKey: KeyObject;
@@ -181,6 +189,13 @@ async function initializeIssuer() {
     });
 
     console.log(`BBS+ Issuer initialized: ${ISSUER_NAME}`);
+
+    const vci = new OpenID4VCIIssuer({
+      credentialIssuer: process.env.CREDENTIAL_ISSUER_URL || `http://localhost:${PORT}`,
+      issuer,
+      bbsIssuer,
+    });
+    oid4vci.use(openID4VCIRouter(vci, requireApiKey));
   } catch (error) {
     console.error('Failed to initialize issuer:', error);
     process.exit(1);
@@ -458,6 +473,10 @@ async function startServer() {
     console.log(`   POST /issue/bbs    - Issue BBS+ credential (requires API key)`);
     console.log(`   POST /revoke       - Revoke credential (requires API key)`);
     console.log(`   GET  /status/:commitment - Check credential status`);
+    console.log(`   GET  /.well-known/openid-credential-issuer - OpenID4VCI issuer metadata`);
+    console.log(`   POST /oid4vci/offers - Create credential offer (requires API key)`);
+    console.log(`   POST /oid4vci/token  - Exchange pre-authorized code for access token`);
+    console.log(`   POST /oid4vci/credential - Request credential with proof of possession`);
     console.log(
       `\n🔑 API Key: ${process.env.API_KEY ? '***' : API_KEY} (set via X-Api-Key header)`,
     );
@@ -0,0 +1,735 @@
+/**
+ * OpenID for Verifiable Credential Issuance (OpenID4VCI 1.0) endpoints.
+ *
+ * Lets standard wallets obtain credentials from ManagedCredentialIssuer and
+ * BBSCredentialIssuer with the pre-authorized code flow:
+ *
+ * 1. The issuer backend creates a credential offer (API key) with the
+ *    holder's verified attributes, and hands the offer URI to the wallet.
+ * 2. The wallet exchanges the pre-authorized code (and transaction code, if
+ *    required) for an access token at the token endpoint.
+ * 3. The wallet fetches a c_nonce, signs a proof-of-possession JWT over it
+ *    and requests the credential.
+ *
+ * Offers created without attributes are issued deferred: the wallet receives
+ * a transaction_id and polls the deferred credential endpoint until the
+ * backend supplies the attributes.
+ *
+ * All state is kept in memory (reference implementation).
+ */
+
+import express, { Request, RequestHandler, Response, Router } from 'express';
+import { randomBytes, randomInt } from 'crypto';
+import { EmbeddedJWK, JWK, errors as joseErrors, jwtVerify } from 'jose';
+import { ManagedCredentialIssuer, BBSCredentialIssuer } from '@zk-id/issuer';
+import {
+  ZKID_BBS_CREDENTIAL_FORMAT,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+  ZK_ID_SD_JWT_VCT,
+  constantTimeEqual,
+  serializeBBSCredential,
+  validateBirthYear,
+  validateNationality,
+} from '@zk-id/core';
+
+/** Grant type of the pre-authorized code flow */
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+/** JWT `typ` of proof-of-possession JWTs */
+export const PROOF_JWT_TYP = 'openid4vci-proof+jwt';
+
+/** Credential configuration ids */
+export const CREDENTIAL_CONFIGURATIONS = {
+  /** zk-id SignedCredential (JSON), usable for ZK proofs */
+  signed: 'ZkIdSignedCredential',
+  /** SD-JWT VC bound to the proof-of-possession key */
+  sdJwt: 'ZkIdSdJwtVc',
+  /** Schema-aware BBS+ credential for selective disclosure */
+  bbs: 'ZkIdBBSCredential',
+} as const;
+
+const PROOF_ALGS = ['EdDSA', 'ES256'];
+
+/**
+ * OpenID4VCI configuration.
+ */
+export interface OpenID4VCIConfig {
+  /** Public base URL of this issuer (`credential_issuer`, and the proof JWT audience) */
+  credentialIssuer: string;
+  /** Ed25519 issuer for the signed credential and SD-JWT VC configurations */
+  issuer: ManagedCredentialIssuer;
+  /** Optional BBS+ issuer (enables the BBS credential configuration) */
+  bbsIssuer?: BBSCredentialIssuer;
+  /** Pre-authorized code lifetime in seconds (default: 600) */
+  preAuthorizedCodeTtlSeconds?: number;
+  /** Access token lifetime in seconds (default: 300) */
+  accessTokenTtlSeconds?: number;
+  /** c_nonce lifetime in seconds (default: 300) */
+  nonceTtlSeconds?: number;
+  /** Outstanding c_nonces kept before the oldest are dropped (default: 10000) */
+  maxNonces?: number;
+  /** Wrong transaction codes allowed before an offer is invalidated (default: 5) */
+  maxTxCodeAttempts?: number;
+  /** How long a deferred transaction can be polled, in seconds (default: 86400) */
+  deferredTtlSeconds?: number;
+  /** Polling interval suggested to wallets for deferred issuance, in seconds (default: 5) */
+  deferredIntervalSeconds?: number;
+}
+
+/**
+ * Holder attributes for an offer.
+ *
+ * The signed credential and SD-JWT VC configurations need `birthYear` and
+ * `nationality`; the BBS configuration needs `schemaId` and `fields`.
+ */
+export interface OfferClaims {
+  birthYear?: number;
+  nationality?: number;
+  schemaId?: string;
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * Input for creating a credential offer.
+ */
+export interface CreateOfferInput {
+  /** Credential configurations the offer covers */
+  credentialConfigurationIds: string[];
+  /** Holder attributes; omit to issue deferred and supply them later */
+  claims?: OfferClaims;
+  /** Require a transaction code (PIN) delivered to the holder out of band */
+  txCode?: boolean;
+  /** User identifier for audit logging */
+  userId?: string;
+}
+
+/**
+ * A created credential offer.
+ */
+export interface CreatedOffer {
+  offerId: string;
+  /** The credential offer object (also served at credential_offer_uri) */
+  credentialOffer: Record<string, unknown>;
+  /** `openid-credential-offer://` URI referencing the offer, for QR codes and deep links */
+  credentialOfferUri: string;
+  /** Transaction code to deliver to the holder out of band (when requested) */
+  txCode?: string;
+}
+
+/**
+ * OAuth-style error returned by the OpenID4VCI endpoints.
+ */
+export class OpenID4VCIError extends Error {
+  constructor(
+    /** OAuth / OpenID4VCI error code, e.g. 'invalid_grant' */
+    public readonly code: string,
+    /** HTTP status */
+    public readonly status: number,
+    description: string,
+  ) {
+    super(description);
+    this.name = 'OpenID4VCIError';
+  }
+}
+
+interface Offer {
+  configurationIds: string[];
+  claims?: OfferClaims;
+  userId?: string;
+  preAuthorizedCode: string;
+  txCode?: string;
+  txCodeFailures: number;
+  codeExpiresAt: number;
+  redeemed: boolean;
+}
+
+interface AccessToken {
+  offerId: string;
+  expiresAt: number;
+}
+
+interface DeferredTransaction {
+  offerId: string;
+  accessToken: string;
+  configurationId: string;
+  holderKey: JWK;
+  expiresAt: number;
+}
+
+/**
+ * OpenID4VCI issuer state machine (offers, tokens, nonces and deferred
+ * transactions) on top of the zk-id issuers.
+ */
+export class OpenID4VCIIssuer {
+  private readonly config: OpenID4VCIConfig;
+  private readonly offers = new Map<string, Offer>();
+  private readonly offersByCode = new Map<string, string>();
+  private readonly accessTokens = new Map<string, AccessToken>();
+  private readonly nonces = new Map<string, number>();
+  private readonly transactions = new Map<string, DeferredTransaction>();
+
+  constructor(config: OpenID4VCIConfig) {
+    this.config = { ...config, credentialIssuer: config.credentialIssuer.replace(/\/+$/, '') };
+  }
+
+  /** Credential issuer metadata (`/.well-known/openid-credential-issuer`) */
+  metadata(): Record<string, unknown> {
+    const base = this.config.credentialIssuer;
+    const proofTypes = {
+      jwt: { proof_signing_alg_values_supported: PROOF_ALGS },
+    };
+    const configurations: Record<string, unknown> = {
+      [CREDENTIAL_CONFIGURATIONS.signed]: {
+        format: ZKID_SIGNED_CREDENTIAL_FORMAT,
+        cryptographic_binding_methods_supported: ['jwk'],
+        proof_types_supported: proofTypes,
+        credential_metadata: {
+          display: [{ name: 'zk-id Credential', locale: 'en' }],
+        },
+      },
+      [CREDENTIAL_CONFIGURATIONS.sdJwt]: {
+        format: 'dc+sd-jwt',
+        vct: ZK_ID_SD_JWT_VCT,
+        cryptographic_binding_methods_supported: ['jwk'],
+        credential_signing_alg_values_supported: ['EdDSA'],
+        proof_types_supported: proofTypes,
+        credential_metadata: {
+          display: [{ name: 'zk-id Identity (SD-JWT)', locale: 'en' }],
+          claims: [{ path: ['birthYear'] }, { path: ['nationality'] }],
+        },
+      },
+    };
+    if (this.config.bbsIssuer) {
+      configurations[CREDENTIAL_CONFIGURATIONS.bbs] = {
+        format: ZKID_BBS_CREDENTIAL_FORMAT,
+        cryptographic_binding_methods_supported: ['jwk'],
+        credential_signing_alg_values_supported: ['BBS-BLS12-381-SHA-256'],
+        proof_types_supported: proofTypes,
+        credential_metadata: {
+          display: [{ name: 'zk-id BBS+ Credential', locale: 'en' }],
+        },
+      };
+    }
+    return {
+      credential_issuer: base,
+      credential_endpoint: `${base}/oid4vci/credential`,
+      nonce_endpoint: `${base}/oid4vci/nonce`,
+      deferred_credential_endpoint: `${base}/oid4vci/deferred_credential`,
+      display: [{ name: this.config.issuer.getIssuerName(), locale: 'en' }],
+      credential_configurations_supported: configurations,
+    };
+  }
+
+  /** Authorization server metadata (`/.well-known/oauth-authorization-server`) */
+  authorizationServerMetadata(): Record<string, unknown> {
+    const base = this.config.credentialIssuer;
+    return {
+      issuer: base,
+      token_endpoint: `${base}/oid4vci/token`,
+      grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+      'pre-authorized_grant_anonymous_access_supported': true,
+    };
+  }
+
+  /**
+   * Create a credential offer for the pre-authorized code flow.
+   *
+   * @throws OpenID4VCIError if a configuration is unknown or the claims do not fit it
+   */
+  createOffer(input: CreateOfferInput): CreatedOffer {
+    this.prune();
+    const supported = this.supportedConfigurations();
+    const ids = input.credentialConfigurationIds;
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new OpenID4VCIError(
+        'invalid_request',
+        400,
+        'credentialConfigurationIds must be a non-empty array',
+      );
+    }
+    for (const id of ids) {
+      if (!supported.includes(id)) {
+        throw new OpenID4VCIError(
+          'unknown_credential_configuration',
+          400,
+          `Unknown credential configuration: ${id}`,
+        );
+      }
+      if (input.claims) {
+        this.validateClaims(id, input.claims);
+      }
+    }
+
+    const offerId = randomToken(16);
+    const preAuthorizedCode = randomToken(32);
+    const txCode = input.txCode ? String(randomInt(0, 1_000_000)).padStart(6, '0') : undefined;
+    this.offers.set(offerId, {
+      configurationIds: [...ids],
+      claims: input.claims,
+      userId: input.userId,
+      preAuthorizedCode,
+      txCode,
+      txCodeFailures: 0,
+      codeExpiresAt: Date.now() + (this.config.preAuthorizedCodeTtlSeconds ?? 600) * 1000,
+      redeemed: false,
+    });
+    this.offersByCode.set(preAuthorizedCode, offerId);
+
+    const credentialOffer = this.getOffer(offerId)!;
+    const reference = `${this.config.credentialIssuer}/oid4vci/offers/${offerId}`;
+    return {
+      offerId,
+      credentialOffer,
+      credentialOfferUri: `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(reference)}`,
+      ...(txCode ? { txCode } : {}),
+    };
+  }
+
+  /**
+   * The credential offer object, while its pre-authorized code is unredeemed.
+   */
+  getOffer(offerId: string): Record<string, unknown> | undefined {
+    const offer = this.offers.get(offerId);
+    if (!offer || offer.redeemed || offer.codeExpiresAt <= Date.now()) {
+      return undefined;
+    }
+    return {
+      credential_issuer: this.config.credentialIssuer,
+      credential_configuration_ids: offer.configurationIds,
+      grants: {
+        [PRE_AUTHORIZED_CODE_GRANT]: {
+          'pre-authorized_code': offer.preAuthorizedCode,
+          ...(offer.txCode
+            ? {
+                tx_code: {
+                  input_mode: 'numeric',
+                  length: offer.txCode.length,
+                  description: 'Enter the code sent to you by the issuer',
+                },
+              }
+            : {}),
+        },
+      },
+    };
+  }
+
+  /**
+   * Supply the attributes of a deferred offer. Pending transactions for the
+   * offer are issued on the wallet's next poll.
+   *
+   * @throws OpenID4VCIError if the offer is unknown, already has claims, or the claims do not fit
+   */
+  supplyClaims(offerId: string, claims: OfferClaims): void {
+    const offer = this.offers.get(offerId);
+    if (!offer) {
+      throw new OpenID4VCIError('invalid_request', 404, 'Unknown offer');
+    }
+    if (offer.claims) {
+      throw new OpenID4VCIError('invalid_request', 409, 'Offer already has claims');
+    }
+    for (const id of offer.configurationIds) {
+      this.validateClaims(id, claims);
+    }
+    offer.claims = claims;
+  }
+
+  /**
+   * Token endpoint: exchange a pre-authorized code for an access token.
+   */
+  token(params: Record<string, unknown>): Record<string, unknown> {
+    this.prune();
+    if (params.grant_type !== PRE_AUTHORIZED_CODE_GRANT) {
+      throw new OpenID4VCIError('unsupported_grant_type', 400, 'Unsupported grant type');
+    }
+    const code = params['pre-authorized_code'];
+    if (typeof code !== 'string' || code.length === 0) {
+      throw new OpenID4VCIError('invalid_request', 400, 'pre-authorized_code is required');
+    }
+    const offerId = this.offersByCode.get(code);
+    const offer = offerId ? this.offers.get(offerId) : undefined;
+    if (!offerId || !offer || offer.redeemed || offer.codeExpiresAt <= Date.now()) {
+      throw new OpenID4VCIError('invalid_grant', 400, 'Invalid or expired pre-authorized code');
+    }
+    if (offer.txCode) {
+      const txCode = params.tx_code;
+      if (typeof txCode !== 'string' || !constantTimeEqual(txCode, offer.txCode)) {
+        // Burn the code after too many guesses; the backend must create a new offer
+        offer.txCodeFailures++;
+        if (offer.txCodeFailures >= (this.config.maxTxCodeAttempts ?? 5)) {
+          this.offers.delete(offerId);
+          this.offersByCode.delete(code);
+        }
+        throw new OpenID4VCIError('invalid_grant', 400, 'Invalid transaction code');
+      }
+    }
+
+    // Pre-authorized codes are single-use
+    offer.redeemed = true;
+    this.offersByCode.delete(code);
+
+    const accessToken = randomToken(32);
+    const expiresIn = this.config.accessTokenTtlSeconds ?? 300;
+    this.accessTokens.set(accessToken, { offerId, expiresAt: Date.now() + expiresIn * 1000 });
+    return { access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn };
+  }
+
+  /**
+   * Nonce endpoint: a fresh single-use c_nonce for proof JWTs.
+   *
+   * The endpoint is unauthenticated, so expired nonces are dropped on every
+   * call and the oldest outstanding ones once `maxNonces` is reached.
+   */
+  nonce(): Record<string, unknown> {
+    this.pruneNonces(Date.now());
+    const maxNonces = this.config.maxNonces ?? 10_000;
+    for (const nonce of this.nonces.keys()) {
+      if (this.nonces.size < maxNonces) break;
+      this.nonces.delete(nonce);
+    }
+
+    const cNonce = randomToken(16);
+    this.nonces.set(cNonce, Date.now() + (this.config.nonceTtlSeconds ?? 300) * 1000);
+    return { c_nonce: cNonce };
+  }
+
+  /**
+   * Credential endpoint. Returns the credential, or a transaction_id (status
+   * 202) when the offer's claims have not been supplied yet.
+   */
+  async credential(
+    accessToken: string | undefined,
+    body: Record<string, unknown>,
+  ): Promise<{ status: number; body: Record<string, unknown> }> {
+    const { offerId, offer } = this.authorize(accessToken, false);
+
+    const configurationId = body.credential_configuration_id;
+    if (typeof configurationId !== 'string') {
+      throw new OpenID4VCIError(
+        'invalid_credential_request',
+        400,
+        'credential_configuration_id is required',
+      );
+    }
+    if (!offer.configurationIds.includes(configurationId)) {
+      throw new OpenID4VCIError(
+        'unknown_credential_configuration',
+        400,
+        `Credential configuration ${configurationId} is not covered by the access token`,
+      );
+    }
+
+    const holderKey = await this.verifyProof(body);
+
+    if (!offer.claims) {
+      const transactionId = randomToken(16);
+      this.transactions.set(transactionId, {
+        offerId,
+        accessToken: accessToken!,
+        configurationId,
+        holderKey,
+        expiresAt: Date.now() + (this.config.deferredTtlSeconds ?? 86400) * 1000,
+      });
+      return {
+        status: 202,
+        body: { transaction_id: transactionId, interval: this.deferredInterval() },
+      };
+    }
+
+    const credential = await this.issue(configurationId, offer.claims, holderKey, offer.userId);
+    return { status: 200, body: { credentials: [{ credential }] } };
+  }
+
+  /**
+   * Deferred credential endpoint. Authenticated with the access token the
+   * transaction was created with, which stays usable for polling until the
+   * transaction expires.
+   */
+  async deferredCredential(
+    accessToken: string | undefined,
+    body: Record<string, unknown>,
+  ): Promise<{ status: number; body: Record<string, unknown> }> {
+    this.authorize(accessToken, true);
+    const transactionId = body.transaction_id;
+    const transaction =
+      typeof transactionId === 'string' ? this.transactions.get(transactionId) : undefined;
+    if (
+      !transaction ||
+      transaction.accessToken !== accessToken ||
+      transaction.expiresAt <= Date.now()
+    ) {
+      throw new OpenID4VCIError('invalid_transaction_id', 400, 'Invalid transaction_id');
+    }
+
+    const offer = this.offers.get(transaction.offerId);
+    if (!offer?.claims) {
+      return {
+        status: 202,
+        body: { transaction_id: transactionId, interval: this.deferredInterval() },
+      };
+    }
+
+    const credential = await this.issue(
+      transaction.configurationId,
+      offer.claims,
+      transaction.holderKey,
+      offer.userId,
+    );
+    this.transactions.delete(transactionId as string);
+    return { status: 200, body: { credentials: [{ credential }] } };
+  }
+
+  private authorize(
+    accessToken: string | undefined,
+    allowExpired: boolean,
+  ): { offerId: string; offer: Offer } {
+    const token = accessToken ? this.accessTokens.get(accessToken) : undefined;
+    const offer = token ? this.offers.get(token.offerId) : undefined;
+    if (!token || !offer || (!allowExpired && token.expiresAt <= Date.now())) {
+      throw new OpenID4VCIError('invalid_token', 401, 'Invalid or expired access token');
+    }
+    return { offerId: token.offerId, offer };
+  }
+
+  /**
+   * Verify the proof-of-possession JWT and consume its c_nonce.
+   *
+   * @returns The holder public key from the JWT header
+   */
+  private async verifyProof(body: Record<string, unknown>): Promise<JWK> {
+    const proof = body.proof as { proof_type?: unknown; jwt?: unknown } | undefined;
+    const proofs = body.proofs as { jwt?: unknown } | undefined;
+    let jwt: unknown;
+    if (proofs !== undefined) {
+      if (!Array.isArray(proofs.jwt) || proofs.jwt.length !== 1) {
+        throw new OpenID4VCIError('invalid_proof', 400, 'Exactly one jwt proof is required');
+      }
+      jwt = proofs.jwt[0];
+    } else if (proof?.proof_type === 'jwt') {
+      jwt = proof.jwt;
+    }
+    if (typeof jwt !== 'string') {
+      throw new OpenID4VCIError('invalid_proof', 400, 'A jwt proof is required');
+    }
+
+    let payload: Record<string, unknown>;
+    let holderKey: JWK | undefined;
+    try {
+      const verified = await jwtVerify(jwt, EmbeddedJWK, {
+        typ: PROOF_JWT_TYP,
+        algorithms: PROOF_ALGS,
+        audience: this.config.credentialIssuer,
+        maxTokenAge: `${this.config.nonceTtlSeconds ?? 300}s`,
+      });
+      payload = verified.payload;
+      holderKey = verified.protectedHeader.jwk;
+    } catch (error) {
+      const reason =
+        error instanceof joseErrors.JOSEError ? error.message : 'Proof verification failed';
+      throw new OpenID4VCIError('invalid_proof', 400, `Invalid proof: ${reason}`);
+    }
+
+    const nonce = payload.nonce;
+    const nonceExpiresAt = typeof nonce === 'string' ? this.nonces.get(nonce) : undefined;
+    if (nonceExpiresAt === undefined || nonceExpiresAt <= Date.now()) {
+      throw new OpenID4VCIError('invalid_nonce', 400, 'Invalid or expired c_nonce');
+    }
+    this.nonces.delete(nonce as string);
+
+    // EmbeddedJWK rejects private keys; keep only the public key members
+    const { kty, crv, x, y } = holderKey!;
+    return { kty, crv, x, ...(y !== undefined ? { y } : {}) };
+  }
+
+  private async issue(
+    configurationId: string,
+    claims: OfferClaims,
+    holderKey: JWK,
+    userId?: string,
+  ): Promise<unknown> {
+    if (configurationId === CREDENTIAL_CONFIGURATIONS.signed) {
+      return this.config.issuer.issueCredential(claims.birthYear!, claims.nationality!, userId);
+    }
+    if (configurationId === CREDENTIAL_CONFIGURATIONS.sdJwt) {
+      const { sdJwt } = await this.config.issuer.issueSdJwtVc(
+        claims.birthYear!,
+        claims.nationality!,
+        holderKey,
+        { userId },
+      );
+      return sdJwt;
+    }
+    const credential = await this.config.bbsIssuer!.issueSchemaCredential(
+      claims.schemaId!,
+      claims.fields!,
+      userId,
+    );
+    return serializeBBSCredential(credential);
+  }
+
+  private validateClaims(configurationId: string, claims: OfferClaims): void {
+    try {
+      if (configurationId === CREDENTIAL_CONFIGURATIONS.bbs) {
+        if (typeof claims.schemaId !== 'string' || typeof claims.fields !== 'object') {
+          throw new Error('schemaId and fields are required');
+        }
+      } else {
+        validateBirthYear(claims.birthYear as number);
+        validateNationality(claims.nationality as number);
+      }
+    } catch (error) {
+      throw new OpenID4VCIError(
+        'invalid_request',
+        400,
+        `Invalid claims for ${configurationId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private supportedConfigurations(): string[] {
+    return [
+      CREDENTIAL_CONFIGURATIONS.signed,
+      CREDENTIAL_CONFIGURATIONS.sdJwt,
+      ...(this.config.bbsIssuer ? [CREDENTIAL_CONFIGURATIONS.bbs] : []),
+    ];
+  }
+
+  private deferredInterval(): number {
+    return this.config.deferredIntervalSeconds ?? 5;
+  }
+
+  /** Drop expired nonces, tokens, transactions and offers */
+  private prune(): void {
+    const now = Date.now();
+    this.pruneNonces(now);
+    for (const [id, transaction] of this.transactions) {
+      if (transaction.expiresAt <= now) this.transactions.delete(id);
+    }
+    const liveOffers = new Set([...this.transactions.values()].map((t) => t.offerId));
+    for (const [token, record] of this.accessTokens) {
+      if (record.expiresAt <= now && !liveOffers.has(record.offerId)) {
+        this.accessTokens.delete(token);
+      }
+    }
+    const usedOffers = new Set([...this.accessTokens.values()].map((t) => t.offerId));
+    for (const [id, offer] of this.offers) {
+      if (!usedOffers.has(id) && (offer.redeemed || offer.codeExpiresAt <= now)) {
+        this.offers.delete(id);
+        this.offersByCode.delete(offer.preAuthorizedCode);
+      }
+    }
+  }
+
+  /** Nonces share one TTL, so insertion order is expiry order */
+  private pruneNonces(now: number): void {
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt > now) break;
+      this.nonces.delete(nonce);
+    }
+  }
+}
+
+/**
+ * Express router for the OpenID4VCI endpoints.
+ *
+ * @param vci - Issuer state
+ * @param requireApiKey - Middleware protecting the backend-facing offer endpoints
+ */
+export function openID4VCIRouter(vci: OpenID4VCIIssuer, requireApiKey: RequestHandler): Router {
+  const router = express.Router();
+
+  const handle =
+    (run: (req: Request, res: Response) => Promise<void> | void): RequestHandler =>
+    async (req, res) => {
+      try {
+        await run(req, res);
+      } catch (error) {
+        if (error instanceof OpenID4VCIError) {
+          if (error.status === 401) {
+            res.set('WWW-Authenticate', `Bearer error="${error.code}"`);
+          }
+          res.status(error.status).json({ error: error.code, error_description: error.message });
+          return;
+        }
+        console.error('OpenID4VCI error:', error);
+        res.status(500).json({ error: 'server_error', error_description: 'Issuance failed' });
+      }
+    };
+
+  const bearer = (req: Request): string | undefined => {
+    const authorization = req.headers.authorization;
+    return authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+  };
+
+  const noStore = (res: Response) => res.set('Cache-Control', 'no-store');
+
+  router.get('/.well-known/openid-credential-issuer', (req, res) => {
+    res.json(vci.metadata());
+  });
+
+  router.get('/.well-known/oauth-authorization-server', (req, res) => {
+    res.json(vci.authorizationServerMetadata());
+  });
+
+  router.post(
+    '/oid4vci/offers',
+    requireApiKey,
+    handle((req, res) => {
+      const { credentialConfigurationIds, claims, txCode, userId } = req.body ?? {};
+      res.status(201).json(vci.createOffer({ credentialConfigurationIds, claims, txCode, userId }));
+    }),
+  );
+
+  router.post(
+    '/oid4vci/offers/:offerId/claims',
+    requireApiKey,
+    handle((req, res) => {
+      vci.supplyClaims(req.params.offerId, req.body ?? {});
+      res.json({ success: true });
+    }),
+  );
+
+  router.get('/oid4vci/offers/:offerId', (req, res) => {
+    const offer = vci.getOffer(req.params.offerId);
+    if (!offer) {
+      res.status(404).json({ error: 'invalid_request', error_description: 'Unknown offer' });
+      return;
+    }
+    noStore(res).json(offer);
+  });
+
+  router.post(
+    '/oid4vci/token',
+    express.urlencoded({ extended: false }),
+    handle((req, res) => {
+      noStore(res).json(vci.token(req.body ?? {}));
+    }),
+  );
+
+  router.post(
+    '/oid4vci/nonce',
+    handle((req, res) => {
+      noStore(res).json(vci.nonce());
+    }),
+  );
+
+  router.post(
+    '/oid4vci/credential',
+    handle(async (req, res) => {
+      const result = await vci.credential(bearer(req), req.body ?? {});
+      noStore(res).status(result.status).json(result.body);
+    }),
+  );
+
+  router.post(
+    '/oid4vci/deferred_credential',
+    handle(async (req, res) => {
+      const result = await vci.deferredCredential(bearer(req), req.body ?? {});
+      noStore(res).status(result.status).json(result.body);
+    }),
+  );
+
+  return router;
+}
+
+function randomToken(bytes: number): string {
+  return randomBytes(bytes).toString('base64url');
+}
@@ -0,0 +1,391 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import express, { NextFunction, Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { generateKeyPairSync } from 'crypto';
+import { SignJWT, decodeJwt, exportJWK, generateKeyPair, JWK, KeyLike } from 'jose';
+import { InMemoryIssuerKeyManager, ManagedCredentialIssuer } from '@zk-id/issuer';
+import { OpenID4VCIHttpClient, acceptCredentialOffer, pollDeferredCredential } from '@zk-id/core';
+import {
+  CREDENTIAL_CONFIGURATIONS,
+  OpenID4VCIIssuer,
+  PRE_AUTHORIZED_CODE_GRANT,
+  PROOF_JWT_TYP,
+  openID4VCIRouter,
+} from '../src/oid4vci';
+
+const apiKey = 'test-api-key';
+let server: Server;
+let baseUrl: string;
+let vci: OpenID4VCIIssuer;
+
+function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  if (req.headers['x-api-key'] !== apiKey) {
+    res.status(401).json({ error: 'Unauthorized', message: 'Valid API key required' });
+    return;
+  }
+  next();
+}
+
+// Mount a fresh issuer per test behind a stable server
+let router: express.Router;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => router(req, res, next));
+  await new Promise<void>((resolvePromise) => {
+    server = app.listen(0, '127.0.0.1', () => resolvePromise());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolvePromise) => server.close(() => resolvePromise()));
+});
+
+beforeEach(() => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const issuer = new ManagedCredentialIssuer(
+    new InMemoryIssuerKeyManager('zk-id Test Issuer', privateKey, publicKey),
+  );
+  vci = new OpenID4VCIIssuer({ credentialIssuer: baseUrl, issuer });
+  router = openID4VCIRouter(vci, requireApiKey);
+});
+
+/** Minimal in-process OpenID4VCI wallet */
+class TestWallet {
+  accessToken?: string;
+
+  private constructor(
+    private readonly privateKey: KeyLike,
+    readonly publicJwk: JWK,
+  ) {}
+
+  static async create(): Promise<TestWallet> {
+    const { privateKey, publicKey } = await generateKeyPair('EdDSA');
+    return new TestWallet(privateKey, await exportJWK(publicKey));
+  }
+
+  async redeem(offer: Record<string, any>, txCode?: string): Promise<globalThis.Response> {
+    const grant = offer.grants[PRE_AUTHORIZED_CODE_GRANT];
+    const form = new URLSearchParams({
+      grant_type: PRE_AUTHORIZED_CODE_GRANT,
+      'pre-authorized_code': grant['pre-authorized_code'],
+      ...(txCode ? { tx_code: txCode } : {}),
+    });
+    const res = await fetch(`${baseUrl}/oid4vci/token`, { method: 'POST', body: form });
+    if (res.ok) {
+      this.accessToken = ((await res.clone().json()) as { access_token: string }).access_token;
+    }
+    return res;
+  }
+
+  async nonce(): Promise<string> {
+    const res = await fetch(`${baseUrl}/oid4vci/nonce`, { method: 'POST' });
+    return ((await res.json()) as { c_nonce: string }).c_nonce;
+  }
+
+  async proof(nonce: string, audience = baseUrl): Promise<string> {
+    return new SignJWT({ nonce })
+      .setProtectedHeader({ alg: 'EdDSA', typ: PROOF_JWT_TYP, jwk: this.publicJwk })
+      .setAudience(audience)
+      .setIssuedAt()
+      .sign(this.privateKey);
+  }
+
+  async requestCredential(
+    configurationId: string,
+    jwt?: string,
+  ): Promise<{ status: number; body: Record<string, any> }> {
+    return this.post('/oid4vci/credential', {
+      credential_configuration_id: configurationId,
+      proof: { proof_type: 'jwt', jwt: jwt ?? (await this.proof(await this.nonce())) },
+    });
+  }
+
+  async poll(transactionId: string): Promise<{ status: number; body: Record<string, any> }> {
+    return this.post('/oid4vci/deferred_credential', { transaction_id: transactionId });
+  }
+
+  private async post(path: string, body: unknown) {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: (await res.json()) as Record<string, any> };
+  }
+}
+
+async function createOffer(body: Record<string, unknown>) {
+  const res = await fetch(`${baseUrl}/oid4vci/offers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: (await res.json()) as Record<string, any> };
+}
+
+async function resolveOffer(credentialOfferUri: string): Promise<Record<string, any>> {
+  const reference = new URL(credentialOfferUri).searchParams.get('credential_offer_uri')!;
+  const res = await fetch(reference);
+  expect(res.status).toBe(200);
+  return (await res.json()) as Record<string, any>;
+}
+
+const claims = { birthYear: 1990, nationality: 840 };
+
+describe('OpenID4VCI', () => {
+  it('publishes credential issuer and authorization server metadata', async () => {
+    const metadata = (await (
+      await fetch(`${baseUrl}/.well-known/openid-credential-issuer`)
+    ).json()) as Record<string, any>;
+    expect(metadata.credential_issuer).toBe(baseUrl);
+    expect(metadata.credential_endpoint).toBe(`${baseUrl}/oid4vci/credential`);
+    expect(Object.keys(metadata.credential_configurations_supported)).toEqual([
+      CREDENTIAL_CONFIGURATIONS.signed,
+      CREDENTIAL_CONFIGURATIONS.sdJwt,
+    ]);
+
+    const authorizationServer = (await (
+      await fetch(`${baseUrl}/.well-known/oauth-authorization-server`)
+    ).json()) as Record<string, any>;
+    expect(authorizationServer.token_endpoint).toBe(`${baseUrl}/oid4vci/token`);
+    expect(authorizationServer.grant_types_supported).toEqual([PRE_AUTHORIZED_CODE_GRANT]);
+  });
+
+  it('requires an API key to create offers', async () => {
+    const res = await fetch(`${baseUrl}/oid4vci/offers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed] }),
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it('issues a signed credential and a key-bound SD-JWT VC', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [
+        CREDENTIAL_CONFIGURATIONS.signed,
+        CREDENTIAL_CONFIGURATIONS.sdJwt,
+      ],
+      claims,
+      userId: 'user-1',
+    });
+    expect(created.status).toBe(201);
+
+    const wallet = await TestWallet.create();
+    const offer = await resolveOffer(created.body.credentialOfferUri);
+    expect(offer.credential_configuration_ids).toHaveLength(2);
+    expect((await wallet.redeem(offer)).status).toBe(200);
+
+    const signed = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.signed);
+    expect(signed.status).toBe(200);
+    expect(signed.body.credentials[0].credential.credential.commitment).toBeTypeOf('string');
+
+    const sdJwt = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.sdJwt);
+    expect(sdJwt.status).toBe(200);
+    const payload = decodeJwt(sdJwt.body.credentials[0].credential.split('~')[0]);
+    expect(payload.cnf).toEqual({ jwk: wallet.publicJwk });
+  });
+
+  it('accepts each pre-authorized code once', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      claims,
+    });
+    const wallet = await TestWallet.create();
+    expect((await wallet.redeem(created.body.credentialOffer)).status).toBe(200);
+
+    const replay = await wallet.redeem(created.body.credentialOffer);
+    expect(replay.status).toBe(400);
+    expect(await replay.json()).toMatchObject({ error: 'invalid_grant' });
+    expect((await fetch(`${baseUrl}/oid4vci/offers/${created.body.offerId}`)).status).toBe(404);
+  });
+
+  it('requires the transaction code when the offer has one', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      claims,
+      txCode: true,
+    });
+    expect(created.body.txCode).toMatch(/^\d{6}$/);
+    const grant = created.body.credentialOffer.grants[PRE_AUTHORIZED_CODE_GRANT];
+    expect(grant.tx_code).toMatchObject({ input_mode: 'numeric', length: 6 });
+
+    const wallet = await TestWallet.create();
+    const wrong = created.body.txCode === '000000' ? '111111' : '000000';
+    expect((await wallet.redeem(created.body.credentialOffer, wrong)).status).toBe(400);
+    expect((await wallet.redeem(created.body.credentialOffer, created.body.txCode)).status).toBe(
+      200,
+    );
+  });
+
+  it('invalidates the offer after repeated wrong transaction codes', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      claims,
+      txCode: true,
+    });
+    const wallet = await TestWallet.create();
+    const wrong = created.body.txCode === '000000' ? '111111' : '000000';
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await wallet.redeem(created.body.credentialOffer, wrong)).status).toBe(400);
+    }
+
+    const burned = await wallet.redeem(created.body.credentialOffer, created.body.txCode);
+    expect(burned.status).toBe(400);
+    expect(await burned.json()).toMatchObject({ error: 'invalid_grant' });
+    expect((await fetch(`${baseUrl}/oid4vci/offers/${created.body.offerId}`)).status).toBe(404);
+  });
+
+  it('drops the oldest c_nonces beyond maxNonces', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    vci = new OpenID4VCIIssuer({
+      credentialIssuer: baseUrl,
+      issuer: new ManagedCredentialIssuer(
+        new InMemoryIssuerKeyManager('zk-id Test Issuer', privateKey, publicKey),
+      ),
+      maxNonces: 2,
+    });
+    router = openID4VCIRouter(vci, requireApiKey);
+    const created = await createOffer({
+      credentialConfigurationIds: [
+        CREDENTIAL_CONFIGURATIONS.signed,
+        CREDENTIAL_CONFIGURATIONS.sdJwt,
+      ],
+      claims,
+    });
+    const wallet = await TestWallet.create();
+    await wallet.redeem(created.body.credentialOffer);
+
+    const oldest = await wallet.nonce();
+    const kept = await wallet.nonce();
+    await wallet.nonce();
+    expect(
+      (await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.signed, await wallet.proof(oldest)))
+        .body.error,
+    ).toBe('invalid_nonce');
+    expect(
+      (await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.sdJwt, await wallet.proof(kept)))
+        .status,
+    ).toBe(200);
+  });
+
+  it('rejects requests without a valid access token, proof or nonce', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      claims,
+    });
+    const wallet = await TestWallet.create();
+
+    const unauthenticated = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.signed);
+    expect(unauthenticated.status).toBe(401);
+    expect(unauthenticated.body.error).toBe('invalid_token');
+
+    await wallet.redeem(created.body.credentialOffer);
+
+    const notOffered = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.sdJwt);
+    expect(notOffered.body.error).toBe('unknown_credential_configuration');
+
+    const wrongAudience = await wallet.requestCredential(
+      CREDENTIAL_CONFIGURATIONS.signed,
+      await wallet.proof(await wallet.nonce(), 'https://other.example'),
+    );
+    expect(wrongAudience.body.error).toBe('invalid_proof');
+
+    const unknownNonce = await wallet.requestCredential(
+      CREDENTIAL_CONFIGURATIONS.signed,
+      await wallet.proof('not-issued'),
+    );
+    expect(unknownNonce.body.error).toBe('invalid_nonce');
+
+    const proof = await wallet.proof(await wallet.nonce());
+    expect((await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.signed, proof)).status).toBe(
+      200,
+    );
+    const replayed = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.signed, proof);
+    expect(replayed.body.error).toBe('invalid_nonce');
+  });
+
+  it('issues deferred credentials once the claims are supplied', async () => {
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.sdJwt],
+    });
+    const wallet = await TestWallet.create();
+    await wallet.redeem(created.body.credentialOffer);
+
+    const pending = await wallet.requestCredential(CREDENTIAL_CONFIGURATIONS.sdJwt);
+    expect(pending.status).toBe(202);
+    expect(pending.body.interval).toBe(5);
+    const transactionId = pending.body.transaction_id;
+
+    expect((await wallet.poll(transactionId)).status).toBe(202);
+    expect((await wallet.poll('unknown')).body.error).toBe('invalid_transaction_id');
+
+    const supplied = await fetch(`${baseUrl}/oid4vci/offers/${created.body.offerId}/claims`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+      body: JSON.stringify(claims),
+    });
+    expect(supplied.status).toBe(200);
+
+    const issued = await wallet.poll(transactionId);
+    expect(issued.status).toBe(200);
+    const payload = decodeJwt(issued.body.credentials[0].credential.split('~')[0]);
+    expect(payload.cnf).toEqual({ jwk: wallet.publicJwk });
+    expect((await wallet.poll(transactionId)).body.error).toBe('invalid_transaction_id');
+  });
+
+  it('interoperates with the zk-id wallet flow', async () => {
+    const http: OpenID4VCIHttpClient = {
+      get: (url, headers) => fetch(url, { headers }),
+      post: (url, body, headers) =>
+        fetch(url, {
+          method: 'POST',
+          headers,
+          body: typeof body === 'string' ? body : JSON.stringify(body),
+        }),
+    };
+    const created = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      txCode: true,
+    });
+
+    const result = await acceptCredentialOffer(created.body.credentialOfferUri, {
+      http,
+      onTxCode: async () => created.body.txCode,
+    });
+    expect(result.deferred).toHaveLength(1);
+    expect(await pollDeferredCredential(result.deferred[0], http)).toBeNull();
+
+    await fetch(`${baseUrl}/oid4vci/offers/${created.body.offerId}/claims`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+      body: JSON.stringify(claims),
+    });
+    const issued = await pollDeferredCredential(result.deferred[0], http);
+    expect(issued?.format).toBe('zkid_signed_credential');
+    expect((issued?.credential as { issuer: string }).issuer).toBe('zk-id Test Issuer');
+  });
+
+  it('validates offer input', async () => {
+    const unknown = await createOffer({ credentialConfigurationIds: ['Unknown'] });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toBe('unknown_credential_configuration');
+
+    const bbs = await createOffer({ credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.bbs] });
+    expect(bbs.body.error).toBe('unknown_credential_configuration');
+
+    const invalid = await createOffer({
+      credentialConfigurationIds: [CREDENTIAL_CONFIGURATIONS.signed],
+      claims: { birthYear: 1990, nationality: -1 },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toBe('invalid_request');
+  });
+});
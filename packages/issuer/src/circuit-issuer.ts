@@ -12,6 +12,8 @@ export interface CircuitSignedCredential {
     S: string[];
   };
   issuedAt: string;
+  /** ISO 8601 expiry, present when the credential binds an expiry epoch (v2 commitment) */
+  expiresAt?: string;
 }
 
 function bytesToBitsLE(bytes: Uint8Array): string[] {
@@ -114,12 +116,22 @@ export class CircuitCredentialIssuer {
    * signs it with the issuer's EdDSA private key. The signature is compatible
    * with in-circuit verification using circomlib's EdDSAPoseidonVerifier.
    *
+   * When `expiresAt` is given, the credential binds the expiry epoch in a v2
+   * commitment, so the signature covers it and expiry can be proven in-circuit.
+   *
    * @param birthYear - The credential holder's birth year (e.g., 1990)
    * @param nationality - ISO 3166-1 numeric nationality code (e.g., 840 for USA)
+   * @param expiresAt - Optional expiry; rounded down to whole seconds
    * @returns A signed credential with circuit-compatible signature
    */
-  async issueCredential(birthYear: number, nationality: number): Promise<CircuitSignedCredential> {
-    const credential = await createCredential(birthYear, nationality);
+  async issueCredential(
+    birthYear: number,
+    nationality: number,
+    expiresAt?: Date,
+  ): Promise<CircuitSignedCredential> {
+    const expiryEpoch =
+      expiresAt !== undefined ? Math.floor(expiresAt.getTime() / 1000) : undefined;
+    const credential = await createCredential(birthYear, nationality, expiryEpoch);
     const commitment = BigInt(credential.commitment);
     const msgBytes = bigintToBytesLE(commitment, 32);
     const signature = this.eddsa.signPedersen(this.privateKey, msgBytes);
@@ -133,13 +145,17 @@ export class CircuitCredentialIssuer {
       S: bytesToBitsLE(Sbytes),
     };
 
-    return {
+    const signed: CircuitSignedCredential = {
       credential,
       issuer: this.issuerName,
       issuerPublicKey: this.publicKeyBits,
       signature: signatureBits,
       issuedAt: new Date().toISOString(),
     };
+    if (expiryEpoch !== undefined) {
+      signed.expiresAt = new Date(expiryEpoch * 1000).toISOString();
+    }
+    return signed;
   }
 
   /**
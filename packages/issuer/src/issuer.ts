@@ -3,6 +3,7 @@ import {
   Credential,
   RevocationStore,
   SignedCredential,
+  StatusListPublisher,
   credentialSignaturePayload,
   AuditLogger,
   ConsoleAuditLogger,
@@ -37,6 +38,7 @@ export interface IssuerConfig {
 export class CredentialIssuer {
   private config: IssuerConfig;
   private revocationStore?: RevocationStore;
+  private statusList?: StatusListPublisher;
   private auditLogger: AuditLogger;
 
   constructor(config: IssuerConfig) {
@@ -73,6 +75,9 @@ export class CredentialIssuer {
       signature,
       issuedAt,
     };
+    if (this.statusList) {
+      signedCredential.credentialStatus = await this.statusList.assign(credential.commitment);
+    }
 
     // In production: log this issuance event for audit trail
     this.logIssuance(signedCredential, userId);
@@ -137,15 +142,26 @@ export class CredentialIssuer {
     this.revocationStore = store;
   }
 
+  /**
+   * Set the Bitstring Status List publisher for this issuer.
+   * New credentials get a `credentialStatus` entry; revocation sets its bit.
+   */
+  setStatusListPublisher(publisher: StatusListPublisher): void {
+    this.statusList = publisher;
+  }
+
   /**
    * Revoke a credential commitment
    */
   async revokeCredential(commitment: string): Promise<void> {
-    if (!this.revocationStore) {
+    if (!this.revocationStore && !this.statusList) {
       throw new ZkIdConfigError('Revocation store not configured');
     }
 
-    await this.revocationStore.revoke(commitment);
+    await this.revocationStore?.revoke(commitment);
+    if (this.statusList && (await this.statusList.getEntry(commitment))) {
+      await this.statusList.setStatus(commitment, true);
+    }
 
     this.auditLogger.log({
       timestamp: new Date().toISOString(),
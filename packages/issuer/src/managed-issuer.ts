@@ -3,13 +3,42 @@ import {
   Credential,
   RevocationStore,
   SignedCredential,
+  StatusListPublisher,
   credentialSignaturePayload,
   AuditLogger,
   ConsoleAuditLogger,
   ZkIdConfigError,
+  ZkIdValidationError,
+  ZK_ID_SD_JWT_VCT,
+  issueSdJwt,
 } from '@zk-id/core';
+import type { webcrypto } from 'crypto';
 import { IssuerKeyManager } from './key-management';
 
+/**
+ * Options for issuing an SD-JWT VC
+ */
+export interface SdJwtVcIssueOptions {
+  /** Credential type (default: ZK_ID_SD_JWT_VCT) */
+  vct?: string;
+  /** Validity period in seconds from issuance (default: no expiry) */
+  expiresInSeconds?: number;
+  /** Number of decoy digests hiding the claim count (default: 2) */
+  decoys?: number;
+  /** Optional user identifier for audit logging */
+  userId?: string;
+}
+
+/**
+ * An issued SD-JWT VC together with the zk-id credential it commits to
+ */
+export interface IssuedSdJwtVc {
+  /** SD-JWT with all disclosures (`<jwt>~<disclosure>~...~`) */
+  sdJwt: string;
+  /** Signed zk-id credential (holds the salt needed for ZK proofs) */
+  signedCredential: SignedCredential;
+}
+
 /**
  * Credential issuer that delegates signing to a key manager (KMS/HSM).
  *
@@ -21,6 +50,7 @@ import { IssuerKeyManager } from './key-management';
 export class ManagedCredentialIssuer {
   private keyManager: IssuerKeyManager;
   private revocationStore?: RevocationStore;
+  private statusList?: StatusListPublisher;
   private auditLogger: AuditLogger;
 
   /**
@@ -61,11 +91,69 @@ export class ManagedCredentialIssuer {
       signature,
       issuedAt,
     };
+    if (this.statusList) {
+      signedCredential.credentialStatus = await this.statusList.assign(credential.commitment);
+    }
 
     this.logIssuance(signedCredential, userId);
     return signedCredential;
   }
 
+  /**
+   * Issue an SD-JWT VC (`dc+sd-jwt`) bound to a holder key.
+   *
+   * The SD-JWT carries the zk-id commitment as a visible claim and the birth
+   * year and nationality as selectively disclosable claims, so the holder can
+   * present either a ZK proof or an SD-JWT presentation for the same
+   * credential. It is EdDSA-signed by the key manager with the issuer name as
+   * `iss`.
+   *
+   * @param birthYear - The credential holder's birth year (e.g., 1990)
+   * @param nationality - ISO 3166-1 numeric nationality code (e.g., 840 for USA)
+   * @param holderPublicKey - Holder public JWK, placed in `cnf.jwk` for key binding
+   * @param options - vct, validity, decoys and audit user ID
+   * @returns The SD-JWT and the signed zk-id credential
+   */
+  async issueSdJwtVc(
+    birthYear: number,
+    nationality: number,
+    holderPublicKey: webcrypto.JsonWebKey,
+    options: SdJwtVcIssueOptions = {},
+  ): Promise<IssuedSdJwtVc> {
+    if (!holderPublicKey || typeof holderPublicKey.kty !== 'string') {
+      throw new ZkIdValidationError('holderPublicKey must be a JWK', 'holderPublicKey');
+    }
+    if (holderPublicKey.d !== undefined) {
+      throw new ZkIdValidationError(
+        'holderPublicKey must not contain private key material',
+        'holderPublicKey',
+      );
+    }
+
+    const signedCredential = await this.issueCredential(birthYear, nationality, options.userId);
+    const iat = Math.floor(Date.parse(signedCredential.issuedAt) / 1000);
+
+    const claims: Record<string, unknown> = {
+      iss: this.keyManager.getIssuerName(),
+      iat,
+      vct: options.vct ?? ZK_ID_SD_JWT_VCT,
+      cnf: { jwk: holderPublicKey },
+      commitment: signedCredential.credential.commitment,
+    };
+    if (options.expiresInSeconds !== undefined) {
+      claims.exp = iat + options.expiresInSeconds;
+    }
+
+    const sdJwt = await issueSdJwt(
+      claims,
+      { birthYear, nationality },
+      { alg: 'EdDSA', sign: (data) => this.keyManager.sign(data) },
+      { decoys: options.decoys ?? 2 },
+    );
+
+    return { sdJwt, signedCredential };
+  }
+
   private async signCredential(credential: Credential, issuedAt: string): Promise<string> {
     const message = credentialSignaturePayload(
       credential,
@@ -88,21 +176,37 @@ export class ManagedCredentialIssuer {
     this.revocationStore = store;
   }
 
+  /**
+   * Configure a W3C Bitstring Status List publisher for this issuer.
+   *
+   * Credentials issued afterwards carry a `credentialStatus` entry (exported
+   * by toW3CVerifiableCredential), and revokeCredential() sets their status
+   * bit so standard VC verifiers observe the revocation.
+   *
+   * @param publisher - Status list publisher (e.g. InMemoryStatusListPublisher)
+   */
+  setStatusListPublisher(publisher: StatusListPublisher): void {
+    this.statusList = publisher;
+  }
+
   /**
    * Revoke a credential by its commitment hash.
    *
-   * Marks the credential as revoked in the revocation store and emits an audit
-   * log entry. Throws an error if no revocation store is configured.
+   * Marks the credential as revoked in the revocation store and/or status list
+   * and emits an audit log entry. Throws an error if neither is configured.
    *
    * @param commitment - The credential commitment hash to revoke
-   * @throws Error if revocation store is not configured
+   * @throws Error if no revocation store or status list is configured
    */
   async revokeCredential(commitment: string): Promise<void> {
-    if (!this.revocationStore) {
+    if (!this.revocationStore && !this.statusList) {
       throw new ZkIdConfigError('Revocation store not configured');
     }
 
-    await this.revocationStore.revoke(commitment);
+    await this.revocationStore?.revoke(commitment);
+    if (this.statusList && (await this.statusList.getEntry(commitment))) {
+      await this.statusList.setStatus(commitment, true);
+    }
     this.auditLogger.log({
       timestamp: new Date().toISOString(),
       action: 'revoke',
@@ -8,18 +8,29 @@
  * - Namespace and element identifiers aligned with ISO 18013-5
  * - Mapping helpers between zk-id attributes and mDL data elements
  * - Age-over attestation helpers per ISO 18013-7 online flow
+ * - CBOR/COSE mdoc issuance (`IssuerSigned`) for `mso_mdoc` presentations
  */
 
-import { SignedCredential } from '@zk-id/core';
+import type { webcrypto } from 'crypto';
+import {
+  SignedCredential,
+  ISO_3166_NUMERIC_TO_ALPHA2,
+  ISO_3166_ALPHA2_TO_NUMERIC,
+  MDL_DOCTYPE,
+  MDL_NAMESPACE,
+  MdocSigner,
+  ZK_ID_MDOC_NAMESPACE,
+  issueMdoc,
+  ZkIdValidationError,
+  mdocFullDate,
+} from '@zk-id/core';
 
 // ---------------------------------------------------------------------------
 // ISO 18013-5 Namespace & Element Constants
 // ---------------------------------------------------------------------------
 
-/**
- * ISO 18013-5 namespace for the core mDL data model.
- */
-export const MDL_NAMESPACE = 'org.iso.18013.5.1';
+// The mDL namespace, doctype and mdoc encoding live in @zk-id/core (the SDK verifier uses them)
+export { MDL_DOCTYPE, MDL_NAMESPACE, ZK_ID_MDOC_NAMESPACE };
 
 /**
  * ISO 18013-5 data element identifiers relevant to zk-id.
@@ -44,92 +55,8 @@ export const MDL_ELEMENTS = {
   ISSUING_COUNTRY: `${MDL_NAMESPACE}.issuing_country`,
 } as const;
 
-/**
- * Common ISO 3166-1 numeric-to-alpha-2 country code mappings.
- *
- * ISO 18013-5 uses alpha-2 codes; zk-id uses numeric codes.
- * This table covers the most common codes. Extend as needed.
- */
-export const ISO_3166_NUMERIC_TO_ALPHA2: Record<number, string> = {
-  4: 'AF',
-  8: 'AL',
-  12: 'DZ',
-  20: 'AD',
-  24: 'AO',
-  32: 'AR',
-  36: 'AU',
-  40: 'AT',
-  48: 'BH',
-  50: 'BD',
-  56: 'BE',
-  76: 'BR',
-  100: 'BG',
-  124: 'CA',
-  156: 'CN',
-  170: 'CO',
-  203: 'CZ',
-  208: 'DK',
-  218: 'EC',
-  818: 'EG',
-  233: 'EE',
-  246: 'FI',
-  250: 'FR',
-  276: 'DE',
-  300: 'GR',
-  344: 'HK',
-  348: 'HU',
-  352: 'IS',
-  356: 'IN',
-  360: 'ID',
-  364: 'IR',
-  368: 'IQ',
-  372: 'IE',
-  376: 'IL',
-  380: 'IT',
-  392: 'JP',
-  400: 'JO',
-  410: 'KR',
-  414: 'KW',
-  428: 'LV',
-  440: 'LT',
-  442: 'LU',
-  458: 'MY',
-  484: 'MX',
-  528: 'NL',
-  554: 'NZ',
-  578: 'NO',
-  586: 'PK',
-  604: 'PE',
-  608: 'PH',
-  616: 'PL',
-  620: 'PT',
-  634: 'QA',
-  642: 'RO',
-  643: 'RU',
-  682: 'SA',
-  702: 'SG',
-  703: 'SK',
-  705: 'SI',
-  710: 'ZA',
-  724: 'ES',
-  752: 'SE',
-  756: 'CH',
-  764: 'TH',
-  792: 'TR',
-  784: 'AE',
-  826: 'GB',
-  840: 'US',
-  804: 'UA',
-  704: 'VN',
-};
-
-/**
- * Reverse mapping: alpha-2 to numeric.
- */
-export const ISO_3166_ALPHA2_TO_NUMERIC: Record<string, number> = {};
-for (const [num, alpha] of Object.entries(ISO_3166_NUMERIC_TO_ALPHA2)) {
-  ISO_3166_ALPHA2_TO_NUMERIC[alpha] = Number(num);
-}
+// ISO 3166-1 numeric/alpha-2 tables live in @zk-id/core (nationality sets use them)
+export { ISO_3166_NUMERIC_TO_ALPHA2, ISO_3166_ALPHA2_TO_NUMERIC };
 
 // ---------------------------------------------------------------------------
 // mDL Data Element Mapping
@@ -240,6 +167,91 @@ export function createAgeOverAttestation(minAge: number): AgeOverAttestation {
   };
 }
 
+// ---------------------------------------------------------------------------
+// mdoc Issuance
+// ---------------------------------------------------------------------------
+
+/**
+ * Options for issuing a credential as an ISO 18013-5 mdoc.
+ */
+export interface MdocIssueOptions {
+  /** Issuer COSE signer (ES256 or EdDSA); `kid` should identify the issuer */
+  signer: MdocSigner;
+  /** Holder device public JWK (EC P-256 or Ed25519) bound in the MSO */
+  deviceKey: webcrypto.JsonWebKey;
+  /** age_over_NN thresholds to attest (default: [18, 21]) */
+  ageOverThresholds?: number[];
+  /** Issuer's country code (alpha-2) */
+  issuerCountryAlpha2?: string;
+  /** MSO expiry (default: credential expiresAt, else one year) */
+  validUntil?: Date;
+  /** Reference time for age_over_NN values and signing (default: now) */
+  now?: Date;
+}
+
+const DEFAULT_AGE_OVER_THRESHOLDS = [18, 21];
+const DEFAULT_MDOC_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Issue a zk-id credential as a CBOR-encoded mdoc `IssuerSigned` structure.
+ *
+ * The mDL namespace carries `age_over_NN` booleans, `age_birth_year`,
+ * nationality (alpha-2), issuing authority/country, document number and
+ * issue date; the zk-id namespace carries the Poseidon commitment so the mdoc
+ * can be linked to a ZK proof when the holder chooses to disclose it.
+ *
+ * `age_over_NN` uses the same year granularity as the age circuit
+ * (`currentYear - birthYear >= NN`) as of `now`, so keep validity short.
+ *
+ * @param credential - Signed credential to encode
+ * @param options - Signer, device key and age thresholds
+ * @returns CBOR-encoded IssuerSigned for the mobile wallet
+ */
+export async function toMdoc(
+  credential: SignedCredential,
+  options: MdocIssueOptions,
+): Promise<Buffer> {
+  const now = options.now ?? new Date();
+  const { birthYear, nationality, id, commitment } = credential.credential;
+  const age = now.getUTCFullYear() - birthYear;
+
+  const mdl: Record<string, unknown> = {};
+  for (const threshold of options.ageOverThresholds ?? DEFAULT_AGE_OVER_THRESHOLDS) {
+    if (!Number.isInteger(threshold) || threshold < 0 || threshold > 99) {
+      throw new ZkIdValidationError(
+        'age_over thresholds must be integers 0-99',
+        'ageOverThresholds',
+      );
+    }
+    mdl[`age_over_${String(threshold).padStart(2, '0')}`] = age >= threshold;
+  }
+  mdl.age_birth_year = birthYear;
+  const alpha2 = ISO_3166_NUMERIC_TO_ALPHA2[nationality];
+  if (alpha2) {
+    mdl.nationality = alpha2;
+  }
+  mdl.issuing_authority = credential.issuer;
+  if (options.issuerCountryAlpha2) {
+    mdl.issuing_country = options.issuerCountryAlpha2;
+  }
+  mdl.document_number = id;
+  mdl.issue_date = mdocFullDate(new Date(credential.issuedAt));
+
+  const validUntil =
+    options.validUntil ??
+    (credential.expiresAt
+      ? new Date(credential.expiresAt)
+      : new Date(now.getTime() + DEFAULT_MDOC_VALIDITY_MS));
+
+  return issueMdoc(
+    MDL_DOCTYPE,
+    { [MDL_NAMESPACE]: mdl, [ZK_ID_MDOC_NAMESPACE]: { commitment } },
+    options.deviceKey,
+    { signed: now, validUntil },
+    options.signer,
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Standards Compliance Info
 // ---------------------------------------------------------------------------
@@ -284,8 +296,9 @@ export const STANDARDS_MAPPINGS: StandardsMapping[] = [
     zkIdConcept: 'Credential commitment',
     standard: 'ISO 18013-5',
     standardConcept: 'IssuerAuth (COSE_Sign1)',
-    fidelity: 'conceptual',
-    notes: 'zk-id uses Poseidon commitment + Ed25519; mDL uses MSO + COSE signing',
+    fidelity: 'partial',
+    notes:
+      'toMdoc() issues an MSO + COSE_Sign1 mdoc carrying the Poseidon commitment in the io.zk-id.1 namespace',
   },
   {
     zkIdConcept: 'Ed25519 credential signature',
@@ -1,4 +1,5 @@
 import { expect } from 'chai';
+import { deriveCommitment } from '@zk-id/core';
 import { CircuitCredentialIssuer } from '../src/circuit-issuer';
 
 describe('CircuitCredentialIssuer Tests', () => {
@@ -15,4 +16,18 @@ describe('CircuitCredentialIssuer Tests', () => {
       expect(bit === '0' || bit === '1').to.be.true;
     }
   });
+
+  it('should bind the expiry epoch into a v2 commitment when expiresAt is given', async () => {
+    const issuer = await CircuitCredentialIssuer.createTestIssuer('Circuit Issuer');
+    const expiresAt = new Date('2030-01-01T00:00:00.500Z');
+    const signed = await issuer.issueCredential(1990, 840, expiresAt);
+    const { credential } = signed;
+
+    expect(credential.expiryEpoch).to.equal(Math.floor(expiresAt.getTime() / 1000));
+    expect(signed.expiresAt).to.equal('2030-01-01T00:00:00.000Z');
+    expect(credential.commitment).to.equal(
+      await deriveCommitment(1990, 840, credential.salt, credential.expiryEpoch),
+    );
+    expect(credential.commitment).to.not.equal(await deriveCommitment(1990, 840, credential.salt));
+  });
 });
@@ -2,7 +2,15 @@ import { expect } from 'chai';
 import { generateKeyPairSync } from 'crypto';
 import { CredentialIssuer } from '../src/issuer';
 import { InMemoryIssuerKeyManager, ManagedCredentialIssuer } from '../src/index';
-import { SignedCredential, InMemoryAuditLogger, InMemoryRevocationStore } from '@zk-id/core';
+import {
+  SignedCredential,
+  InMemoryAuditLogger,
+  InMemoryRevocationStore,
+  InMemoryStatusListPublisher,
+  checkStatusListEntry,
+  ed25519DataIntegritySigner,
+  toW3CVerifiableCredential,
+} from '@zk-id/core';
 
 describe('CredentialIssuer Tests', () => {
   let issuer: CredentialIssuer;
@@ -254,6 +262,29 @@ describe('CredentialIssuer Tests', () => {
       // Audit logging is tested through console output
       expect(await store.isRevoked(signed.credential.commitment)).to.be.true;
     });
+
+    it('should assign status list entries and set the bit on revocation', async () => {
+      const listKeys = generateKeyPairSync('ed25519');
+      const publisher = new InMemoryStatusListPublisher({
+        baseUrl: 'https://issuer.example.com/status',
+        issuer: 'did:web:issuer.example.com',
+        signer: ed25519DataIntegritySigner(listKeys.privateKey, 'did:web:issuer.example.com#key-1'),
+      });
+      issuer.setStatusListPublisher(publisher);
+
+      const signed = await issuer.issueCredential(1990, 840);
+      const entry = signed.credentialStatus!;
+      expect(entry.statusListCredential).to.equal('https://issuer.example.com/status/1');
+      expect(toW3CVerifiableCredential(signed).credentialStatus).to.deep.equal(entry);
+
+      // A status list alone is enough to revoke
+      await issuer.revokeCredential(signed.credential.commitment);
+      const list = await publisher.publish(entry.statusListCredential);
+      const revoked = await checkStatusListEntry(entry, list, 'did:web:issuer.example.com', {
+        resolvePublicKey: async () => listKeys.publicKey,
+      });
+      expect(revoked).to.be.true;
+    });
   });
 
   describe('AuditLogger integration', () => {
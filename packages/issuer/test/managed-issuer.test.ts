@@ -2,7 +2,17 @@ import { expect } from 'chai';
 import { generateKeyPairSync, verify } from 'crypto';
 import { ManagedCredentialIssuer } from '../src/managed-issuer';
 import { InMemoryIssuerKeyManager } from '../src/key-management';
-import { InMemoryRevocationStore, AuditLogger, credentialSignaturePayload } from '@zk-id/core';
+import {
+  InMemoryRevocationStore,
+  InMemoryStatusListPublisher,
+  AuditLogger,
+  ZK_ID_SD_JWT_VCT,
+  createSdJwtPresentation,
+  credentialSignaturePayload,
+  ed25519DataIntegritySigner,
+  keyObjectSigner,
+  verifySdJwtVc,
+} from '@zk-id/core';
 
 describe('ManagedCredentialIssuer', () => {
   let keyManager: InMemoryIssuerKeyManager;
@@ -68,6 +78,47 @@ describe('ManagedCredentialIssuer', () => {
     });
   });
 
+  describe('issueSdJwtVc', () => {
+    const holder = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const holderJwk = holder.publicKey.export({ format: 'jwk' });
+
+    it('should issue a holder-bound SD-JWT VC carrying the commitment', async () => {
+      const { sdJwt, signedCredential } = await issuer.issueSdJwtVc(1990, 840, holderJwk, {
+        expiresInSeconds: 3600,
+      });
+      const presentation = await createSdJwtPresentation(sdJwt, ['birthYear'], {
+        signer: keyObjectSigner('ES256', holder.privateKey),
+        audience: 'verifier',
+        nonce: 'nonce-1',
+      });
+
+      const result = await verifySdJwtVc(presentation, {
+        issuerKey: keyManager.getPublicKey(),
+        expectedVct: ZK_ID_SD_JWT_VCT,
+        audience: 'verifier',
+        nonce: 'nonce-1',
+      });
+
+      expect(result.claims).to.include({
+        iss: 'test-issuer',
+        birthYear: 1990,
+        commitment: signedCredential.credential.commitment,
+      });
+      expect(result.claims).to.not.have.property('nationality');
+      expect(result.payload.exp).to.equal((result.payload.iat as number) + 3600);
+      expect(result.payload._sd).to.have.lengthOf(4);
+    });
+
+    it('should reject private holder keys', async () => {
+      try {
+        await issuer.issueSdJwtVc(1990, 840, holder.privateKey.export({ format: 'jwk' }));
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('must not contain private key material');
+      }
+    });
+  });
+
   describe('revokeCredential', () => {
     it('should revoke credential when store is configured', async () => {
       const store = new InMemoryRevocationStore();
@@ -79,6 +130,31 @@ describe('ManagedCredentialIssuer', () => {
       expect(isRevoked).to.be.true;
     });
 
+    it('should set the status list bit of credentials it issued', async () => {
+      const publisher = new InMemoryStatusListPublisher({
+        baseUrl: 'https://issuer.example.com/status',
+        issuer: 'did:web:issuer.example.com',
+        signer: ed25519DataIntegritySigner(generateKeyPairSync('ed25519').privateKey),
+      });
+      issuer.setRevocationStore(new InMemoryRevocationStore());
+      issuer.setStatusListPublisher(publisher);
+
+      const signedCred = await issuer.issueCredential(1990, 840);
+      const commitment = signedCred.credential.commitment;
+      expect(signedCred.credentialStatus).to.deep.equal(await publisher.getEntry(commitment));
+
+      let flipped: boolean | undefined;
+      const setStatus = publisher.setStatus.bind(publisher);
+      publisher.setStatus = async (target, flagged) => {
+        flipped = target === commitment && flagged;
+        return setStatus(target, flagged);
+      };
+      await issuer.revokeCredential(commitment);
+
+      expect(flipped).to.be.true;
+      expect(await issuer.isCredentialRevoked(commitment)).to.be.true;
+    });
+
     it('should throw error when store is not configured', async () => {
       try {
         await issuer.revokeCredential('test-commitment');
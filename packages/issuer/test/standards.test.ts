@@ -1,7 +1,17 @@
 import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  createDeviceResponse,
+  createOpenID4VPSessionTranscript,
+  keyObjectSigner,
+  verifyDeviceResponse,
+} from '@zk-id/core';
 import { CredentialIssuer } from '../src/issuer';
 import {
+  MDL_DOCTYPE,
   MDL_NAMESPACE,
+  ZK_ID_MDOC_NAMESPACE,
+  toMdoc,
   MDL_ELEMENTS,
   ISO_3166_NUMERIC_TO_ALPHA2,
   ISO_3166_ALPHA2_TO_NUMERIC,
@@ -134,6 +144,93 @@ describe('ISO 18013-5/7 Standards Mapping', () => {
     });
   });
 
+  describe('toMdoc', () => {
+    const issuerKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const deviceKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const transcript = createOpenID4VPSessionTranscript(
+      'verifier.example.com',
+      'nonce-1',
+      'https://verifier.example.com/response',
+    );
+
+    async function presentAll(issuerSigned: Buffer, elements: string[]) {
+      const response = await createDeviceResponse(
+        issuerSigned,
+        { [MDL_NAMESPACE]: elements, [ZK_ID_MDOC_NAMESPACE]: ['commitment'] },
+        keyObjectSigner('ES256', deviceKeys.privateKey),
+        transcript,
+      );
+      const [document] = await verifyDeviceResponse(response, {
+        issuerKey: issuerKeys.publicKey,
+        sessionTranscript: transcript,
+        expectedDocType: MDL_DOCTYPE,
+      });
+      return document;
+    }
+
+    it('should encode age_over_NN and mDL elements as a signed mdoc', async () => {
+      const credential = await issuer.issueCredential(1990, 840);
+      const issuerSigned = await toMdoc(credential, {
+        signer: keyObjectSigner('ES256', issuerKeys.privateKey, 'Test Authority'),
+        deviceKey: deviceKeys.publicKey.export({ format: 'jwk' }),
+        ageOverThresholds: [18, 65],
+        issuerCountryAlpha2: 'US',
+        now: new Date('2026-06-01T00:00:00Z'),
+        validUntil: new Date(Date.now() + 86_400_000),
+      });
+
+      const document = await presentAll(issuerSigned, [
+        'age_over_18',
+        'age_over_65',
+        'nationality',
+        'issuing_country',
+        'document_number',
+      ]);
+
+      expect(document.claims[MDL_NAMESPACE]).to.deep.equal({
+        age_over_18: true,
+        age_over_65: false,
+        nationality: 'US',
+        issuing_country: 'US',
+        document_number: credential.credential.id,
+      });
+      expect(document.claims[ZK_ID_MDOC_NAMESPACE].commitment).to.equal(
+        credential.credential.commitment,
+      );
+      expect(document.issuerKid).to.equal('Test Authority');
+    });
+
+    it('should default to age_over_18 and age_over_21', async () => {
+      const credential = await issuer.issueCredential(2006, 276);
+      const issuerSigned = await toMdoc(credential, {
+        signer: keyObjectSigner('ES256', issuerKeys.privateKey),
+        deviceKey: deviceKeys.publicKey.export({ format: 'jwk' }),
+        now: new Date('2026-06-01T00:00:00Z'),
+        validUntil: new Date(Date.now() + 86_400_000),
+      });
+
+      const document = await presentAll(issuerSigned, ['age_over_18', 'age_over_21']);
+      expect(document.claims[MDL_NAMESPACE]).to.deep.equal({
+        age_over_18: true,
+        age_over_21: false,
+      });
+    });
+
+    it('should reject invalid age thresholds', async () => {
+      const credential = await issuer.issueCredential(1990, 840);
+      try {
+        await toMdoc(credential, {
+          signer: keyObjectSigner('ES256', issuerKeys.privateKey),
+          deviceKey: deviceKeys.publicKey.export({ format: 'jwk' }),
+          ageOverThresholds: [100],
+        });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('age_over thresholds');
+      }
+    });
+  });
+
   describe('STANDARDS_MAPPINGS', () => {
     it('should document all key zk-id concepts', () => {
       const concepts = STANDARDS_MAPPINGS.map((m) => m.zkIdConcept);
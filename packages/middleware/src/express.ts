@@ -0,0 +1,121 @@
+/**
+ * Express adapter.
+ */
+
+import { Router } from 'express';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { VerificationPolicy } from '@zk-id/core';
+import type { ZkIdServer } from '@zk-id/sdk';
+import {
+  ZkIdHttpHandlers,
+  ZkIdHttpRequest,
+  ZkIdHttpResponse,
+  ZkIdMiddlewareOptions,
+  ZkIdRequestContext,
+} from './handlers';
+
+declare global {
+  // Express merges request extensions through its global namespace
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Set by requireZkProof on admitted requests */
+      zkId?: ZkIdRequestContext;
+    }
+  }
+}
+
+/**
+ * Express router with the zk-id endpoints and a matching proof guard.
+ */
+export type ZkIdRouter = Router & {
+  /** Route guard admitting requests that satisfy the policy (see ZkIdHttpHandlers.guard) */
+  requireZkProof(policy: VerificationPolicy | string): RequestHandler;
+};
+
+/**
+ * Create an Express router mounting `GET /challenge`, `POST /verify`,
+ * `POST /verify-multi`, `POST /verify-bbs`, `GET /revocation/root`,
+ * `GET /revocation/frontier` and `GET /revocation/witness-bucket`.
+ *
+ * Requires a JSON body parser (e.g. `express.json()`) ahead of the router.
+ *
+ * @example
+ * ```typescript
+ * const zkId = zkIdRouter(server);
+ * app.use(express.json());
+ * app.use('/zk-id', zkId);
+ * app.post('/checkout', zkId.requireZkProof('checkout'), (req, res) => {
+ *   res.json({ ok: true, session: req.zkId?.session });
+ * });
+ * ```
+ */
+export function zkIdRouter(server: ZkIdServer, options: ZkIdMiddlewareOptions = {}): ZkIdRouter {
+  const handlers = new ZkIdHttpHandlers(server, options);
+  const router = Router() as ZkIdRouter;
+
+  const route =
+    (handle: (req: ZkIdHttpRequest) => Promise<ZkIdHttpResponse>): RequestHandler =>
+    async (req, res) => {
+      send(res, await handle(toHttpRequest(req)));
+    };
+
+  router.get(
+    '/challenge',
+    route((req) => handlers.challenge(req)),
+  );
+  router.post(
+    '/verify',
+    route((req) => handlers.verify(req)),
+  );
+  router.post(
+    '/verify-multi',
+    route((req) => handlers.verifyMulti(req)),
+  );
+  router.post(
+    '/verify-bbs',
+    route((req) => handlers.verifyBbs(req)),
+  );
+  router.get(
+    '/revocation/root',
+    route((req) => handlers.revocationRoot(req)),
+  );
+  router.get(
+    '/revocation/frontier',
+    route((req) => handlers.revocationFrontier(req)),
+  );
+  router.get(
+    '/revocation/witness-bucket',
+    route((req) => handlers.witnessBucket(req)),
+  );
+
+  router.requireZkProof = (policy) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const outcome = await handlers.guard(toHttpRequest(req), policy);
+      if (!outcome.ok) {
+        send(res, outcome.response);
+        return;
+      }
+      res.set(outcome.headers);
+      req.zkId = outcome.context;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return router;
+}
+
+function toHttpRequest(req: Request): ZkIdHttpRequest {
+  return {
+    body: req.body,
+    header: (name) => req.get(name),
+    clientIdentifier: req.ip ?? req.socket.remoteAddress,
+    query: req.query as Record<string, unknown>,
+  };
+}
+
+function send(res: Response, response: ZkIdHttpResponse): void {
+  res.status(response.status).set(response.headers).json(response.body);
+}
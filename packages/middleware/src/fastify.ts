@@ -0,0 +1,131 @@
+/**
+ * Fastify adapter.
+ *
+ * Typed against the small part of the Fastify API it uses, so this package
+ * does not depend on a particular Fastify version.
+ */
+
+import type { VerificationPolicy } from '@zk-id/core';
+import type { ZkIdServer } from '@zk-id/sdk';
+import {
+  ZkIdHttpHandlers,
+  ZkIdHttpRequest,
+  ZkIdHttpResponse,
+  ZkIdMiddlewareOptions,
+  ZkIdRequestContext,
+} from './handlers';
+
+/** The Fastify request fields the adapter reads (and `zkId`, which it sets) */
+export interface FastifyRequestLike {
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  ip?: string;
+  query?: unknown;
+  zkId?: ZkIdRequestContext;
+}
+
+/** The Fastify reply methods the adapter calls */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  headers(values: Record<string, string>): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+type FastifyHandler = (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>;
+
+/** The Fastify instance methods the plugin calls */
+export interface FastifyInstanceLike {
+  get(path: string, handler: FastifyHandler): unknown;
+  post(path: string, handler: FastifyHandler): unknown;
+}
+
+/**
+ * Fastify plugin with the zk-id endpoints and a matching proof guard.
+ */
+export type ZkIdFastifyPlugin = ((fastify: FastifyInstanceLike) => Promise<void>) & {
+  /** `preHandler` hook admitting requests that satisfy the policy */
+  requireZkProof(policy: VerificationPolicy | string): FastifyHandler;
+};
+
+/**
+ * Create a Fastify plugin mounting the same routes as zkIdRouter.
+ *
+ * @example
+ * ```typescript
+ * const zkId = zkIdFastify(server);
+ * await fastify.register(zkId, { prefix: '/zk-id' });
+ * fastify.post('/checkout', { preHandler: zkId.requireZkProof('checkout') }, async (request) => {
+ *   return { ok: true, session: request.zkId?.session };
+ * });
+ * ```
+ */
+export function zkIdFastify(
+  server: ZkIdServer,
+  options: ZkIdMiddlewareOptions = {},
+): ZkIdFastifyPlugin {
+  const handlers = new ZkIdHttpHandlers(server, options);
+
+  const route =
+    (handle: (req: ZkIdHttpRequest) => Promise<ZkIdHttpResponse>): FastifyHandler =>
+    async (request, reply) =>
+      send(reply, await handle(toHttpRequest(request)));
+
+  const plugin = (async (fastify: FastifyInstanceLike) => {
+    fastify.get(
+      '/challenge',
+      route((req) => handlers.challenge(req)),
+    );
+    fastify.post(
+      '/verify',
+      route((req) => handlers.verify(req)),
+    );
+    fastify.post(
+      '/verify-multi',
+      route((req) => handlers.verifyMulti(req)),
+    );
+    fastify.post(
+      '/verify-bbs',
+      route((req) => handlers.verifyBbs(req)),
+    );
+    fastify.get(
+      '/revocation/root',
+      route((req) => handlers.revocationRoot(req)),
+    );
+    fastify.get(
+      '/revocation/frontier',
+      route((req) => handlers.revocationFrontier(req)),
+    );
+    fastify.get(
+      '/revocation/witness-bucket',
+      route((req) => handlers.witnessBucket(req)),
+    );
+  }) as ZkIdFastifyPlugin;
+
+  plugin.requireZkProof = (policy) => async (request, reply) => {
+    const outcome = await handlers.guard(toHttpRequest(request), policy);
+    if (!outcome.ok) {
+      return send(reply, outcome.response);
+    }
+    reply.headers(outcome.headers);
+    request.zkId = outcome.context;
+    return undefined;
+  };
+
+  return plugin;
+}
+
+function toHttpRequest(request: FastifyRequestLike): ZkIdHttpRequest {
+  return {
+    body: request.body,
+    header: (name) => {
+      const value = request.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value[0] : value;
+    },
+    clientIdentifier: request.ip,
+    query: (request.query ?? {}) as Record<string, unknown>,
+  };
+}
+
+function send(reply: FastifyReplyLike, response: ZkIdHttpResponse): unknown {
+  return reply.code(response.status).headers(response.headers).send(response.body);
+}
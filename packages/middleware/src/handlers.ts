@@ -0,0 +1,370 @@
+/**
+ * Framework-agnostic request handling shared by the Express, Fastify and Hono
+ * adapters: protocol version headers, payload checks, error mapping and the
+ * proof guard. Adapters only translate requests and responses.
+ */
+
+import {
+  BBSProofResponse,
+  MultiClaimResponse,
+  PROTOCOL_VERSION,
+  ProofResponse,
+  VerificationPolicy,
+  ZkIdConfigError,
+  ZkIdValidationError,
+  buildDeprecationHeaders,
+  getVersionStatus,
+  isProtocolCompatible,
+  policyClaims,
+} from '@zk-id/core';
+import type { VerificationResult, VerificationSession, ZkIdServer } from '@zk-id/sdk';
+
+/** Request/response header carrying the client and server protocol versions */
+export const PROTOCOL_VERSION_HEADER = 'X-ZkId-Protocol-Version';
+/** Response header carrying a new session token; also accepted on requests (alternative to `Authorization: Bearer`) */
+export const SESSION_HEADER = 'X-ZkId-Session';
+
+const INVALID_BODY = { status: 400, body: { verified: false, error: 'Invalid request body' } };
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Options shared by all adapters.
+ */
+export interface ZkIdMiddlewareOptions {
+  /** Migration docs URL sent in the `Link` header to clients on deprecated versions */
+  migrationUrl?: string;
+  /** Called with unexpected errors (default: console.error) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * The parts of an incoming request the handlers need.
+ */
+export interface ZkIdHttpRequest {
+  body?: unknown;
+  /** Case-insensitive header lookup */
+  header(name: string): string | undefined;
+  /** Client identifier for rate limiting (e.g. IP address) */
+  clientIdentifier?: string;
+  query?: Record<string, unknown>;
+}
+
+/**
+ * A response for the adapter to send.
+ */
+export interface ZkIdHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Verification state attached to guarded requests (`req.zkId`).
+ */
+export interface ZkIdRequestContext {
+  /** Result of the proof verified on this request */
+  result?: VerificationResult;
+  /** Session the request was admitted with (token reuse) or that was issued for it */
+  session?: VerificationSession;
+  /** Token issued on this request (also sent in the X-ZkId-Session header) */
+  sessionToken?: string;
+}
+
+/**
+ * Outcome of the proof guard: either continue with a context or respond.
+ */
+export type ZkIdGuardOutcome =
+  | { ok: true; context: ZkIdRequestContext; headers: Record<string, string> }
+  | { ok: false; response: ZkIdHttpResponse };
+
+/**
+ * Shared handlers behind the framework adapters.
+ */
+export class ZkIdHttpHandlers {
+  private readonly server: ZkIdServer;
+  private readonly options: ZkIdMiddlewareOptions;
+
+  constructor(server: ZkIdServer, options: ZkIdMiddlewareOptions = {}) {
+    this.server = server;
+    this.options = options;
+  }
+
+  /** GET /challenge */
+  async challenge(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async () => ({
+      status: 200,
+      body: await this.server.createChallenge(),
+    }));
+  }
+
+  /** POST /verify — single-claim ProofResponse, or `{ scope }` with a session token */
+  async verify(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async (clientVersion) => {
+      if (!isObject(req.body)) {
+        return INVALID_BODY;
+      }
+      const token = this.getSessionToken(req);
+      if (token && !('proof' in req.body)) {
+        return this.sessionTokenResponse(token, (req.body as { scope?: unknown }).scope);
+      }
+      const result = await this.server.verifyProof(
+        req.body as ProofResponse,
+        req.clientIdentifier,
+        clientVersion,
+      );
+      return this.verificationResponse(result);
+    });
+  }
+
+  /** POST /verify-multi — MultiClaimResponse, evaluated against `?policy=` when given */
+  async verifyMulti(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async (clientVersion) => {
+      if (!isObject(req.body)) {
+        return INVALID_BODY;
+      }
+      const policyId = req.query?.policy;
+      if (policyId !== undefined) {
+        if (typeof policyId !== 'string' || !this.server.getPolicy(policyId)) {
+          return { status: 404, body: { verified: false, error: 'Unknown policy' } };
+        }
+        const result = await this.server.verifyPolicy(
+          req.body as MultiClaimResponse,
+          policyId,
+          req.clientIdentifier,
+          clientVersion,
+        );
+        return this.verificationResponse(result);
+      }
+      const result = await this.server.verifyMultiClaim(
+        req.body as MultiClaimResponse,
+        req.clientIdentifier,
+        clientVersion,
+      );
+      return { status: result.allVerified ? 200 : 400, body: result };
+    });
+  }
+
+  /** POST /verify-bbs — `{ issuer, response }` with a BBS selective disclosure proof */
+  async verifyBbs(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async () => {
+      const { issuer, response } = (req.body ?? {}) as {
+        issuer?: unknown;
+        response?: unknown;
+      };
+      if (typeof issuer !== 'string' || !isObject(response)) {
+        return INVALID_BODY;
+      }
+      const result = await this.server.verifyBBSProof(
+        response as BBSProofResponse,
+        issuer,
+        req.clientIdentifier,
+      );
+      return this.verificationResponse(result);
+    });
+  }
+
+  /** GET /revocation/root */
+  async revocationRoot(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async () => {
+      try {
+        return { status: 200, body: await this.server.getRevocationRootInfo() };
+      } catch (error) {
+        if (error instanceof ZkIdConfigError) {
+          return { status: 404, body: { error: 'Revocation root not available' } };
+        }
+        throw error;
+      }
+    });
+  }
+
+  /** GET /revocation/frontier — signed tree frontier for private witness retrieval */
+  async revocationFrontier(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async () => {
+      try {
+        return { status: 200, body: await this.server.getTreeFrontier() };
+      } catch (error) {
+        if (error instanceof ZkIdConfigError) {
+          return { status: 404, body: { error: 'Tree frontier not available' } };
+        }
+        throw error;
+      }
+    });
+  }
+
+  /** GET /revocation/witness-bucket?prefix=&prefixBits= */
+  async witnessBucket(req: ZkIdHttpRequest): Promise<ZkIdHttpResponse> {
+    return this.handle(req, async () => {
+      const prefix = Number(req.query?.prefix);
+      const prefixBits = Number(req.query?.prefixBits);
+      try {
+        return { status: 200, body: await this.server.getWitnessBucket(prefix, prefixBits) };
+      } catch (error) {
+        if (error instanceof ZkIdValidationError) {
+          return { status: 400, body: { error: 'Invalid witness bucket query' } };
+        }
+        if (error instanceof ZkIdConfigError) {
+          return { status: 404, body: { error: 'Witness buckets not available' } };
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Admit a request holding a session token for the policy, or verify the
+   * multi-claim proof in `body.zkIdProof` (which issues a token when the
+   * server has session tokens configured). Otherwise respond 401 with the
+   * claims the client should prove.
+   *
+   * @param policy - Policy, or the id of a policy configured on the server
+   */
+  async guard(
+    req: ZkIdHttpRequest,
+    policy: VerificationPolicy | string,
+  ): Promise<ZkIdGuardOutcome> {
+    const resolved = typeof policy === 'string' ? this.server.getPolicy(policy) : policy;
+    if (!resolved) {
+      throw new ZkIdConfigError(`Unknown policy: ${policy}`);
+    }
+    const headers = this.protocolHeaders(req.header(PROTOCOL_VERSION_HEADER));
+
+    const token = this.getSessionToken(req);
+    if (token && this.server.hasSessionTokens()) {
+      const { session } = await this.server.verifySessionToken(token, {
+        scope: `policy:${resolved.id}`,
+      });
+      if (session) {
+        return { ok: true, context: { session }, headers };
+      }
+    }
+
+    const proof = isObject(req.body) ? (req.body as { zkIdProof?: unknown }).zkIdProof : undefined;
+    if (isObject(proof)) {
+      try {
+        const result = await this.server.verifyPolicy(
+          proof as MultiClaimResponse,
+          resolved,
+          req.clientIdentifier,
+          req.header(PROTOCOL_VERSION_HEADER),
+        );
+        if (result.verified) {
+          const context: ZkIdRequestContext = { result };
+          if (result.sessionToken) {
+            context.sessionToken = result.sessionToken;
+            context.session = (await this.server.verifySessionToken(result.sessionToken)).session;
+            headers[SESSION_HEADER] = result.sessionToken;
+          }
+          return { ok: true, context, headers };
+        }
+        return { ok: false, response: { status: 403, headers, body: result } };
+      } catch (error) {
+        return { ok: false, response: this.errorResponse(error, headers) };
+      }
+    }
+
+    return {
+      ok: false,
+      response: {
+        status: 401,
+        headers,
+        body: {
+          verified: false,
+          error: 'Zero-knowledge proof required',
+          policy: resolved.id,
+          claims: policyClaims(resolved),
+        },
+      },
+    };
+  }
+
+  private async handle(
+    req: ZkIdHttpRequest,
+    run: (
+      clientVersion: string | undefined,
+    ) => Promise<{ status: number; body: unknown; headers?: Record<string, string> }>,
+  ): Promise<ZkIdHttpResponse> {
+    const clientVersion = req.header(PROTOCOL_VERSION_HEADER);
+    const headers = this.protocolHeaders(clientVersion);
+    if (clientVersion && !isProtocolCompatible(PROTOCOL_VERSION, clientVersion)) {
+      return {
+        status: 400,
+        headers,
+        body: {
+          error: 'Incompatible protocol version',
+          clientVersion,
+          serverVersion: PROTOCOL_VERSION,
+        },
+      };
+    }
+    try {
+      const response = await run(clientVersion);
+      return {
+        status: response.status,
+        headers: { ...headers, ...response.headers },
+        body: response.body,
+      };
+    } catch (error) {
+      return this.errorResponse(error, headers);
+    }
+  }
+
+  private verificationResponse(result: VerificationResult): {
+    status: number;
+    body: unknown;
+    headers?: Record<string, string>;
+  } {
+    if (!result.verified) {
+      return { status: 400, body: result };
+    }
+    return {
+      status: 200,
+      body: result,
+      ...(result.sessionToken ? { headers: { [SESSION_HEADER]: result.sessionToken } } : {}),
+    };
+  }
+
+  /**
+   * Check a session token presented in place of a proof (ZkIdClient token reuse).
+   */
+  private async sessionTokenResponse(
+    token: string,
+    scope: unknown,
+  ): Promise<{ status: number; body: unknown }> {
+    if (typeof scope !== 'string') {
+      return INVALID_BODY;
+    }
+    if (!this.server.hasSessionTokens()) {
+      return { status: 401, body: { verified: false, error: 'Session tokens not enabled' } };
+    }
+    const { session, error } = await this.server.verifySessionToken(token, { scope });
+    if (!session) {
+      return { status: 401, body: { verified: false, error } };
+    }
+    return { status: 200, body: { verified: true, session } };
+  }
+
+  private protocolHeaders(clientVersion: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = { [PROTOCOL_VERSION_HEADER]: PROTOCOL_VERSION };
+    const entry = clientVersion ? getVersionStatus(clientVersion) : null;
+    return entry
+      ? { ...headers, ...buildDeprecationHeaders(entry, this.options.migrationUrl) }
+      : headers;
+  }
+
+  private getSessionToken(req: ZkIdHttpRequest): string | undefined {
+    const authorization = req.header('Authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+    return req.header(SESSION_HEADER);
+  }
+
+  private errorResponse(error: unknown, headers: Record<string, string>): ZkIdHttpResponse {
+    (this.options.onError ?? ((e) => console.error('[zk-id] Request failed:', e)))(error);
+    // Server errors are already sanitized in results; never echo thrown messages
+    return { status: 500, headers, body: { verified: false, error: 'Verification failed' } };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Hono adapter.
+ *
+ * Typed against the small part of the Hono API it uses, so this package does
+ * not depend on a particular Hono version.
+ */
+
+import type { VerificationPolicy } from '@zk-id/core';
+import type { ZkIdServer } from '@zk-id/sdk';
+import {
+  ZkIdHttpHandlers,
+  ZkIdHttpRequest,
+  ZkIdHttpResponse,
+  ZkIdMiddlewareOptions,
+} from './handlers';
+
+/** The Hono context methods the adapter calls */
+export interface HonoContextLike {
+  req: {
+    header(name: string): string | undefined;
+    query(name: string): string | undefined;
+    json(): Promise<unknown>;
+  };
+  json(body: unknown, status?: number, headers?: Record<string, string>): Response;
+  header(name: string, value: string): void;
+  /** Sets `zkId` on admitted requests (read it with `c.get('zkId')`) */
+  set(key: 'zkId', value: unknown): void;
+}
+
+/** Query parameters read by the handlers */
+const QUERY_PARAMS = ['policy', 'prefix', 'prefixBits'];
+
+type HonoHandler = (c: HonoContextLike) => Promise<Response>;
+type HonoMiddleware = (c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void>;
+
+/** The Hono app methods used to mount the routes */
+export interface HonoAppLike {
+  get(path: string, handler: HonoHandler): unknown;
+  post(path: string, handler: HonoHandler): unknown;
+}
+
+/**
+ * Options for the Hono adapter.
+ */
+export interface ZkIdHonoOptions extends ZkIdMiddlewareOptions {
+  /** Derive the rate-limiting client identifier (Hono has no runtime-independent client IP) */
+  clientIdentifier?: (c: HonoContextLike) => string | undefined;
+}
+
+/**
+ * Mounts the zk-id routes on a Hono app, with a matching proof guard.
+ */
+export type ZkIdHono = ((app: HonoAppLike) => void) & {
+  /** Middleware admitting requests that satisfy the policy */
+  requireZkProof(policy: VerificationPolicy | string): HonoMiddleware;
+};
+
+/**
+ * Create a Hono adapter mounting the same routes as zkIdRouter.
+ *
+ * @example
+ * ```typescript
+ * const zkId = zkIdHono(server);
+ * const routes = new Hono();
+ * zkId(routes);
+ * app.route('/zk-id', routes);
+ * app.post('/checkout', zkId.requireZkProof('checkout'), (c) => c.json({ session: c.get('zkId') }));
+ * ```
+ */
+export function zkIdHono(server: ZkIdServer, options: ZkIdHonoOptions = {}): ZkIdHono {
+  const handlers = new ZkIdHttpHandlers(server, options);
+
+  const toHttpRequest = async (c: HonoContextLike, withBody: boolean): Promise<ZkIdHttpRequest> => {
+    let body: unknown;
+    if (withBody) {
+      try {
+        body = await c.req.json();
+      } catch {
+        // Leave the body undefined; handlers reject it as invalid
+      }
+    }
+    const query: Record<string, string> = {};
+    for (const name of QUERY_PARAMS) {
+      const value = c.req.query(name);
+      if (value !== undefined) {
+        query[name] = value;
+      }
+    }
+    return {
+      body,
+      header: (name) => c.req.header(name),
+      clientIdentifier: options.clientIdentifier?.(c),
+      query,
+    };
+  };
+
+  const route =
+    (handle: (req: ZkIdHttpRequest) => Promise<ZkIdHttpResponse>, withBody: boolean): HonoHandler =>
+    async (c) =>
+      send(c, await handle(await toHttpRequest(c, withBody)));
+
+  const mount = ((app: HonoAppLike) => {
+    app.get(
+      '/challenge',
+      route((req) => handlers.challenge(req), false),
+    );
+    app.post(
+      '/verify',
+      route((req) => handlers.verify(req), true),
+    );
+    app.post(
+      '/verify-multi',
+      route((req) => handlers.verifyMulti(req), true),
+    );
+    app.post(
+      '/verify-bbs',
+      route((req) => handlers.verifyBbs(req), true),
+    );
+    app.get(
+      '/revocation/root',
+      route((req) => handlers.revocationRoot(req), false),
+    );
+    app.get(
+      '/revocation/frontier',
+      route((req) => handlers.revocationFrontier(req), false),
+    );
+    app.get(
+      '/revocation/witness-bucket',
+      route((req) => handlers.witnessBucket(req), false),
+    );
+  }) as ZkIdHono;
+
+  mount.requireZkProof = (policy) => async (c, next) => {
+    const hasBody = c.req.header('Content-Type')?.includes('application/json') ?? false;
+    const outcome = await handlers.guard(await toHttpRequest(c, hasBody), policy);
+    if (!outcome.ok) {
+      return send(c, outcome.response);
+    }
+    for (const [name, value] of Object.entries(outcome.headers)) {
+      c.header(name, value);
+    }
+    c.set('zkId', outcome.context);
+    await next();
+  };
+
+  return mount;
+}
+
+function send(c: HonoContextLike, response: ZkIdHttpResponse): Response {
+  return c.json(response.body, response.status, response.headers);
+}
@@ -0,0 +1,16 @@
+/**
+ * Shared request handling. The framework adapters are separate entry points
+ * so that only the framework in use is loaded: `@zk-id/middleware/express`,
+ * `@zk-id/middleware/fastify` and `@zk-id/middleware/hono`.
+ */
+
+export {
+  ZkIdHttpHandlers,
+  PROTOCOL_VERSION_HEADER,
+  SESSION_HEADER,
+  type ZkIdMiddlewareOptions,
+  type ZkIdHttpRequest,
+  type ZkIdHttpResponse,
+  type ZkIdRequestContext,
+  type ZkIdGuardOutcome,
+} from './handlers';
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { zkIdFastify, FastifyReplyLike, FastifyRequestLike } from '../src/fastify';
+import { zkIdHono, HonoContextLike } from '../src/hono';
+import { fakeServer } from './helpers';
+
+type Handler = (...args: any[]) => Promise<unknown>;
+
+function recordRoutes() {
+  const routes = new Map<string, Handler>();
+  return {
+    routes,
+    app: {
+      get: (path: string, handler: Handler) => routes.set(`GET ${path}`, handler),
+      post: (path: string, handler: Handler) => routes.set(`POST ${path}`, handler),
+    },
+  };
+}
+
+const ROUTES = [
+  'GET /challenge',
+  'POST /verify',
+  'POST /verify-multi',
+  'POST /verify-bbs',
+  'GET /revocation/root',
+  'GET /revocation/frontier',
+  'GET /revocation/witness-bucket',
+];
+
+describe('Fastify adapter', () => {
+  function reply() {
+    const sent: { status?: number; headers: Record<string, string>; body?: unknown } = {
+      headers: {},
+    };
+    const r: FastifyReplyLike = {
+      code: (status) => ((sent.status = status), r),
+      headers: (values) => (Object.assign(sent.headers, values), r),
+      send: (body) => ((sent.body = body), r),
+    };
+    return { reply: r, sent };
+  }
+
+  it('registers the routes and guards requests', async () => {
+    const plugin = zkIdFastify(fakeServer([], {}));
+    const { routes, app } = recordRoutes();
+    await plugin(app);
+    expect([...routes.keys()]).to.deep.equal(ROUTES);
+
+    const verify = reply();
+    await routes.get('POST /verify')!({ body: { proof: 'good' }, headers: {} }, verify.reply);
+    expect(verify.sent.status).to.equal(200);
+    expect(verify.sent.headers['X-ZkId-Session']).to.be.a('string');
+
+    const guard = plugin.requireZkProof('adult');
+    const request: FastifyRequestLike = { body: { zkIdProof: { nonce: 'good' } }, headers: {} };
+    const admitted = reply();
+    await guard(request, admitted.reply);
+    expect(admitted.sent.status).to.equal(undefined);
+    expect(request.zkId!.session!.policyId).to.equal('adult');
+
+    const denied = reply();
+    await guard({ headers: { 'x-zkid-session': 'not-a-token' } }, denied.reply);
+    expect(denied.sent.status).to.equal(401);
+  });
+});
+
+describe('Hono adapter', () => {
+  function context(body: unknown, headers: Record<string, string> = {}) {
+    const state: { zkId?: any; headers: Record<string, string> } = { headers: {} };
+    const c: HonoContextLike = {
+      req: {
+        header: (name) => headers[name],
+        query: () => undefined,
+        json: async () => body,
+      },
+      json: (payload, status = 200, extra = {}) =>
+        new Response(JSON.stringify(payload), { status, headers: extra }),
+      header: (name, value) => {
+        state.headers[name] = value;
+      },
+      set: (_key, value) => {
+        state.zkId = value;
+      },
+    };
+    return { c, state };
+  }
+
+  it('registers the routes and guards requests', async () => {
+    const zkId = zkIdHono(fakeServer([], {}), {
+      clientIdentifier: () => 'client-1',
+    });
+    const { routes, app } = recordRoutes();
+    zkId(app);
+    expect([...routes.keys()]).to.deep.equal(ROUTES);
+
+    const response = (await routes.get('POST /verify')!(context({ proof: 'bad' }).c)) as Response;
+    expect(response.status).to.equal(400);
+
+    const guard = zkId.requireZkProof('adult');
+    const { c, state } = context(
+      { zkIdProof: { nonce: 'good' } },
+      { 'Content-Type': 'application/json' },
+    );
+    let nextCalled = false;
+    await guard(c, async () => {
+      nextCalled = true;
+    });
+    expect(nextCalled).to.equal(true);
+    expect(state.zkId.session.policyId).to.equal('adult');
+    expect(state.headers['X-ZkId-Session']).to.equal(state.zkId.sessionToken);
+
+    const denied = (await guard(context(undefined).c, async () => undefined)) as Response;
+    expect(denied.status).to.equal(401);
+  });
+});
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { zkIdRouter } from '../src/express';
+import { fakeServer } from './helpers';
+
+describe('zkIdRouter (Express)', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  const calls: string[] = [];
+
+  before(async () => {
+    const zkId = zkIdRouter(fakeServer(calls, {}));
+    const app = express();
+    app.use(express.json());
+    app.use('/zk-id', zkId);
+    app.post('/adult-content', zkId.requireZkProof('adult'), (req, res) => {
+      res.json({ ok: true, policyId: req.zkId?.session?.policyId });
+    });
+
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  it('mounts the challenge, verify and revocation root endpoints', async () => {
+    const challenge = await fetch(`${baseUrl}/zk-id/challenge`);
+    expect(challenge.status).to.equal(200);
+    expect(challenge.headers.get('X-ZkId-Protocol-Version')).to.equal('zk-id/1.0-draft');
+    expect(await challenge.json()).to.have.property('nonce', '42');
+
+    const verified = await post('/zk-id/verify', { proof: 'good' });
+    expect(verified.status).to.equal(200);
+    expect(await verified.json()).to.deep.include({ verified: true, minAge: 18 });
+    expect(calls).to.include('verifyProof:127.0.0.1');
+
+    expect((await post('/zk-id/verify-multi', { nonce: 'bad' })).status).to.equal(400);
+    expect(
+      (await post('/zk-id/verify-bbs', { issuer: 'bbs-issuer', response: {} })).status,
+    ).to.equal(200);
+    expect((await fetch(`${baseUrl}/zk-id/revocation/root`)).status).to.equal(404);
+  });
+
+  it('guards routes with requireZkProof and reuses the issued session token', async () => {
+    const challenged = await post('/adult-content', {});
+    expect(challenged.status).to.equal(401);
+    expect(await challenged.json()).to.deep.include({ policy: 'adult' });
+
+    const proven = await post('/adult-content', { zkIdProof: { nonce: 'good' } });
+    expect(proven.status).to.equal(200);
+    const token = proven.headers.get('X-ZkId-Session')!;
+    expect(token).to.be.a('string');
+
+    const reused = await post('/adult-content', {}, { Authorization: `Bearer ${token}` });
+    expect(await reused.json()).to.deep.equal({ ok: true, policyId: 'adult' });
+  });
+});
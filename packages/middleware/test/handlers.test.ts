@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import { PROTOCOL_VERSION } from '@zk-id/core';
+import { ZkIdHttpHandlers, ZkIdHttpRequest } from '../src/handlers';
+import { SessionTokenIssuer } from '@zk-id/sdk';
+import { adultPolicy, fakeServer } from './helpers';
+
+function request(overrides: Partial<ZkIdHttpRequest> & { headers?: Record<string, string> } = {}) {
+  const headers = Object.fromEntries(
+    Object.entries(overrides.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+  return {
+    body: overrides.body,
+    query: overrides.query,
+    clientIdentifier: '10.0.0.1',
+    header: (name: string) => headers[name.toLowerCase()],
+  };
+}
+
+describe('ZkIdHttpHandlers', () => {
+  it('sends protocol headers and rejects incompatible clients', async () => {
+    const handlers = new ZkIdHttpHandlers(fakeServer());
+
+    const ok = await handlers.challenge(request());
+    expect(ok.status).to.equal(200);
+    expect(ok.headers['X-ZkId-Protocol-Version']).to.equal(PROTOCOL_VERSION);
+    expect(ok.body).to.have.property('nonce', '42');
+
+    const incompatible = await handlers.challenge(
+      request({ headers: { 'X-ZkId-Protocol-Version': 'zk-id/2.0' } }),
+    );
+    expect(incompatible.status).to.equal(400);
+    expect(incompatible.body).to.deep.include({ error: 'Incompatible protocol version' });
+  });
+
+  it('maps verification results, bad bodies and unexpected errors to status codes', async () => {
+    const errors: unknown[] = [];
+    const server = fakeServer();
+    const handlers = new ZkIdHttpHandlers(server, { onError: (e) => errors.push(e) });
+
+    expect((await handlers.verify(request({ body: { proof: 'good' } }))).status).to.equal(200);
+    expect((await handlers.verify(request({ body: { proof: 'bad' } }))).status).to.equal(400);
+    expect((await handlers.verify(request({ body: 'text' }))).body).to.deep.equal({
+      verified: false,
+      error: 'Invalid request body',
+    });
+    expect((await handlers.verifyBbs(request({ body: {} }))).status).to.equal(400);
+    expect((await handlers.revocationRoot(request())).status).to.equal(404);
+    expect((await handlers.revocationFrontier(request())).status).to.equal(404);
+    expect((await handlers.witnessBucket(request())).status).to.equal(400);
+    expect(
+      (await handlers.witnessBucket(request({ query: { prefix: '3', prefixBits: '4' } }))).status,
+    ).to.equal(200);
+
+    server.verifyProof = async () => {
+      throw new Error('circuit details');
+    };
+    const failed = await handlers.verify(request({ body: { proof: 'good' } }));
+    expect(failed.status).to.equal(500);
+    expect(failed.body).to.deep.equal({ verified: false, error: 'Verification failed' });
+    expect(errors).to.have.length(1);
+  });
+
+  it('verifies bundles against a configured policy and returns the session token', async () => {
+    const server = fakeServer([], {});
+    const handlers = new ZkIdHttpHandlers(server);
+
+    const unknown = await handlers.verifyMulti(
+      request({ body: { nonce: 'good' }, query: { policy: 'other' } }),
+    );
+    expect(unknown.status).to.equal(404);
+
+    const response = await handlers.verifyMulti(
+      request({ body: { nonce: 'good' }, query: { policy: 'adult' } }),
+    );
+    expect(response.status).to.equal(200);
+    const token = response.headers['X-ZkId-Session'];
+    expect((response.body as { sessionToken: string }).sessionToken).to.equal(token);
+
+    const { session } = await server.verifySessionToken(token, { scope: 'policy:adult' });
+    expect(session!.policyId).to.equal('adult');
+    expect(session!.expiresAt).to.be.greaterThan(Date.now());
+  });
+
+  it('checks session tokens sent to /verify in place of a proof', async () => {
+    const calls: string[] = [];
+    const handlers = new ZkIdHttpHandlers(fakeServer(calls, {}));
+    const issued = await handlers.verify(request({ body: { proof: 'good' } }));
+    const token = issued.headers['X-ZkId-Session'];
+
+    const reused = await handlers.verify(
+      request({ body: { scope: 'age:18' }, headers: { Authorization: `Bearer ${token}` } }),
+    );
+    expect(reused.status).to.equal(200);
+    expect(reused.body).to.deep.include({ verified: true });
+    expect(calls).to.deep.equal(['verifyProof:10.0.0.1']);
+
+    const wrongScope = await handlers.verify(
+      request({ body: { scope: 'age:21' }, headers: { Authorization: `Bearer ${token}` } }),
+    );
+    expect(wrongScope.status).to.equal(401);
+
+    const forged = await new SessionTokenIssuer({
+      signingKey: 'x'.repeat(32),
+      audience: 'test',
+    }).mint({ claims: [{ claimType: 'age', minAge: 18 }] });
+    const rejected = await handlers.verify(
+      request({ body: { scope: 'age:18' }, headers: { 'X-ZkId-Session': forged } }),
+    );
+    expect(rejected.status).to.equal(401);
+    expect(rejected.body).to.deep.include({ verified: false });
+
+    const disabled = new ZkIdHttpHandlers(fakeServer());
+    expect(
+      (
+        await disabled.verify(
+          request({ body: { scope: 'age:18' }, headers: { Authorization: `Bearer ${token}` } }),
+        )
+      ).status,
+    ).to.equal(401);
+  });
+
+  describe('guard', () => {
+    it('asks for the policy claims when no proof or session is present', async () => {
+      const handlers = new ZkIdHttpHandlers(fakeServer());
+      const outcome = await handlers.guard(request(), 'adult');
+
+      expect(outcome.ok).to.equal(false);
+      if (!outcome.ok) {
+        expect(outcome.response.status).to.equal(401);
+        expect(outcome.response.body).to.deep.include({
+          policy: 'adult',
+          claims: [{ label: 'age-18', claimType: 'age', minAge: 18 }],
+        });
+      }
+    });
+
+    it('admits a satisfying proof, then the issued session token', async () => {
+      const calls: string[] = [];
+      const handlers = new ZkIdHttpHandlers(fakeServer(calls, {}));
+
+      const rejected = await handlers.guard(
+        request({ body: { zkIdProof: { nonce: 'bad' } } }),
+        'adult',
+      );
+      expect(rejected.ok).to.equal(false);
+      expect(!rejected.ok && rejected.response.status).to.equal(403);
+
+      const admitted = await handlers.guard(
+        request({ body: { zkIdProof: { nonce: 'good' } } }),
+        adultPolicy,
+      );
+      expect(admitted.ok).to.equal(true);
+      const token = admitted.ok ? admitted.context.sessionToken! : '';
+      expect(admitted.ok && admitted.headers['X-ZkId-Session']).to.equal(token);
+
+      const reused = await handlers.guard(
+        request({ headers: { Authorization: `Bearer ${token}` } }),
+        'adult',
+      );
+      expect(reused.ok && reused.context.session!.policyId).to.equal('adult');
+      expect(calls).to.deep.equal(['verifyPolicy:adult', 'verifyPolicy:adult']);
+
+      // Tokens are bound to the policy they were issued for
+      const otherPolicy = { id: 'senior', rule: { type: 'age' as const, minAge: 65 } };
+      const other = await handlers.guard(
+        request({ headers: { 'X-ZkId-Session': token } }),
+        otherPolicy,
+      );
+      expect(other.ok).to.equal(false);
+    });
+
+    it('rejects forged and expired session tokens', async () => {
+      const handlers = new ZkIdHttpHandlers(fakeServer([], { ttlSeconds: 1 }));
+      const forged = await new SessionTokenIssuer({
+        signingKey: 'x'.repeat(32),
+        audience: 'test',
+      }).mint({ claims: [], policyId: 'adult' });
+      expect((await handlers.guard(request({ headers: { 'X-ZkId-Session': forged } }), 'adult')).ok)
+        .to.be.false;
+
+      const admitted = await handlers.guard(
+        request({ body: { zkIdProof: { nonce: 'good' } } }),
+        'adult',
+      );
+      const token = admitted.ok ? admitted.context.sessionToken! : '';
+      await new Promise((resolve) => setTimeout(resolve, 2100));
+      expect((await handlers.guard(request({ headers: { 'X-ZkId-Session': token } }), 'adult')).ok)
+        .to.be.false;
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  PolicyRules,
+  VerificationPolicy,
+  ZkIdConfigError,
+  validateWitnessBucketQuery,
+} from '@zk-id/core';
+import { SessionTokenIssuer, VerificationResult, ZkIdServer } from '@zk-id/sdk';
+
+export const SESSION_SECRET = 'test-session-secret-at-least-32-bytes!';
+
+export const adultPolicy: VerificationPolicy = { id: 'adult', rule: PolicyRules.minAge(18) };
+
+/**
+ * Stand-in for ZkIdServer: bundles and proofs with nonce/proof 'good' verify.
+ * Pass `sessionTokens` to mint real session tokens for successful results.
+ */
+export function fakeServer(
+  calls: string[] = [],
+  sessionTokens?: { ttlSeconds?: number },
+): ZkIdServer {
+  const tokens = sessionTokens
+    ? new SessionTokenIssuer({ signingKey: SESSION_SECRET, audience: 'test', ...sessionTokens })
+    : undefined;
+  const result = async (
+    verified: boolean,
+    extra: Partial<VerificationResult> = {},
+    policyId?: string,
+  ): Promise<VerificationResult> => {
+    if (!verified) {
+      return { verified, error: 'Verification failed' };
+    }
+    const sessionToken = await tokens?.mint({
+      claims: [{ claimType: 'age', minAge: 18 }],
+      policyId,
+    });
+    return { verified, ...extra, ...(sessionToken ? { sessionToken } : {}) };
+  };
+  return {
+    createChallenge: async () => ({ nonce: '42', requestTimestamp: '2026-01-01T00:00:00.000Z' }),
+    verifyProof: async (body: { proof?: unknown }, clientIdentifier?: string) => {
+      calls.push(`verifyProof:${clientIdentifier}`);
+      return result(body.proof === 'good', { claimType: 'age', minAge: 18 });
+    },
+    verifyMultiClaim: async (body: { nonce?: unknown }) => {
+      calls.push('verifyMultiClaim');
+      const verified = body.nonce === 'good';
+      return {
+        results: [{ label: 'age', verified }],
+        allVerified: verified,
+        verifiedCount: verified ? 1 : 0,
+        totalCount: 1,
+      };
+    },
+    verifyPolicy: async (body: { nonce?: unknown }, policy: VerificationPolicy | string) => {
+      const id = typeof policy === 'string' ? policy : policy.id;
+      calls.push(`verifyPolicy:${id}`);
+      const satisfied = body.nonce === 'good';
+      return result(
+        satisfied,
+        {
+          claimType: 'policy',
+          policy: { policyId: id, satisfied, result: { rule: 'age >= 18', satisfied } },
+        },
+        id,
+      );
+    },
+    getPolicy: (id: string) => (id === adultPolicy.id ? adultPolicy : undefined),
+    hasSessionTokens: () => tokens !== undefined,
+    verifySessionToken: (token: string, options?: { scope?: string }) =>
+      tokens!.verify(token, options),
+    verifyBBSProof: async (_response: unknown, issuer: string) =>
+      result(issuer === 'bbs-issuer', { claimType: 'bbs' }),
+    getRevocationRootInfo: async () => {
+      throw new ZkIdConfigError('Valid credential tree not configured');
+    },
+    getTreeFrontier: async () => {
+      throw new ZkIdConfigError('Revocation signer not configured');
+    },
+    getWitnessBucket: async (prefix: number, prefixBits: number) => {
+      validateWitnessBucketQuery(prefix, prefixBits);
+      return { prefix, prefixBits, level: 5, root: '0', version: 0, entries: [] };
+    },
+  } as unknown as ZkIdServer;
+}
@@ -30,7 +30,10 @@ export {
   type PresentationSubmission,
   type DescriptorMapEntry,
   parseAuthorizationRequest,
+  resolveAuthorizationRequest,
   generatePresentation,
+  generateSdJwtPresentation,
+  generateMdocPresentation,
   submitPresentation,
   buildDeepLink,
 } from './openid4vp-adapter.js';
@@ -52,4 +55,8 @@ export type {
   ProofResponse,
   BBSProofResponse,
   SerializedBBSCredential,
+  CredentialOfferResult,
+  CredentialOfferTxCode,
+  OpenID4VCIDeferredCredential,
+  OpenID4VCIHolderKey,
 } from '@zk-id/core';
@@ -18,9 +18,19 @@ import {
   serializeBBSProof,
   SCHEMA_REGISTRY,
   ZkIdCredentialError,
+  type CredentialOfferResult,
+  type CredentialOfferTxCode,
+  type OpenID4VCICredential,
+  type OpenID4VCIDeferredCredential,
+  type OpenID4VCIHolderKey,
+  ZKID_BBS_CREDENTIAL_FORMAT,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+  acceptCredentialOffer,
+  pollDeferredCredential,
 } from '@zk-id/core';
 
 import type { MobileCredentialStore, MobileBBSCredentialStore } from './credential-store.js';
+import type { HttpAdapter } from './openid4vp-adapter.js';
 
 /**
  * Mobile wallet configuration
@@ -37,6 +47,10 @@ export interface MobileWalletConfig {
     nationalityWasm?: string;
     nationalityZkey?: string;
   };
+  /** Prompt for the transaction code (PIN) of an OpenID4VCI offer; return null to cancel */
+  onTxCode?: (txCode: CredentialOfferTxCode) => Promise<string | null>;
+  /** Holder key for OpenID4VCI key proofs (default: ephemeral Ed25519 key per offer) */
+  holderKey?: OpenID4VCIHolderKey;
 }
 
 /**
@@ -131,6 +145,60 @@ export class MobileWallet {
     return await this.config.bbsCredentialStore.getAll();
   }
 
+  // ---------------------------------------------------------------------------
+  // OpenID4VCI Issuance
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Receive credentials from an OpenID4VCI credential offer (pre-authorized code flow)
+   *
+   * Requests the offered zk-id credentials (and BBS+ credentials when a BBS
+   * store is configured) and stores them. Transaction codes are requested
+   * through `onTxCode`.
+   *
+   * @param offerUri - Credential offer deep link (openid-credential-offer://...)
+   * @param httpAdapter - HTTP client for the issuer requests
+   * @param credentialConfigurationIds - Subset of the offered configurations to request
+   * @returns Issued and deferred credentials
+   */
+  async acceptCredentialOffer(
+    offerUri: string,
+    httpAdapter: HttpAdapter,
+    credentialConfigurationIds?: string[],
+  ): Promise<CredentialOfferResult> {
+    const result = await acceptCredentialOffer(offerUri, {
+      http: httpAdapter,
+      holderKey: this.config.holderKey,
+      credentialConfigurationIds,
+      formats: [
+        ZKID_SIGNED_CREDENTIAL_FORMAT,
+        ...(this.config.bbsCredentialStore ? [ZKID_BBS_CREDENTIAL_FORMAT] : []),
+      ],
+      onTxCode: this.config.onTxCode,
+    });
+    for (const issued of result.credentials) {
+      await this.storeIssuedCredential(issued);
+    }
+    return result;
+  }
+
+  /**
+   * Poll for a deferred OpenID4VCI credential and store it once issued
+   *
+   * @returns true if the credential was issued and stored, false while still pending
+   */
+  async pollDeferredCredential(
+    deferred: OpenID4VCIDeferredCredential,
+    httpAdapter: HttpAdapter,
+  ): Promise<boolean> {
+    const issued = await pollDeferredCredential(deferred, httpAdapter);
+    if (!issued) {
+      return false;
+    }
+    await this.storeIssuedCredential(issued);
+    return true;
+  }
+
   // ---------------------------------------------------------------------------
   // Proof Generation (EdDSA credentials)
   // ---------------------------------------------------------------------------
@@ -287,6 +355,26 @@ export class MobileWallet {
   // Helper Methods
   // ---------------------------------------------------------------------------
 
+  /**
+   * Store a credential received over OpenID4VCI after a structural check
+   */
+  private async storeIssuedCredential(issued: OpenID4VCICredential): Promise<void> {
+    if (issued.format === ZKID_BBS_CREDENTIAL_FORMAT) {
+      const credential = issued.credential as SerializedBBSCredential;
+      if (!credential?.schemaId || !credential.signature || !credential.fields) {
+        throw new ZkIdCredentialError('Invalid BBS+ credential received from issuer');
+      }
+      await this.addBBSCredential(credential);
+      return;
+    }
+
+    const credential = issued.credential as SignedCredential;
+    if (!credential?.credential?.id || !credential.credential.commitment || !credential.signature) {
+      throw new ZkIdCredentialError('Invalid credential received from issuer');
+    }
+    await this.addCredential(credential);
+  }
+
   /**
    * Select a credential by ID, or auto-select the most recent
    */
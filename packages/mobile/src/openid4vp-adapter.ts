@@ -6,11 +6,24 @@
  */
 
 import type { MobileWallet } from './mobile-wallet.js';
-import type { ProofResponse } from '@zk-id/core';
+import {
+  type MdocSigner,
+  type ProofResponse,
+  type RequestObjectVerificationOptions,
+  type SdJwtSigner,
+  SD_JWT_VC_TYP,
+  createDeviceResponse,
+  createOpenID4VPSessionTranscript,
+  createSdJwtPresentation,
+  verifyRequestObject,
+} from '@zk-id/core';
 
 /**
  * HTTP adapter interface for platform-agnostic HTTP requests.
  *
+ * String bodies must be sent unchanged (OpenID4VCI token requests are
+ * form-encoded); other bodies are sent as JSON.
+ *
  * Implementations:
  * - React Native: fetch (built-in)
  * - Node.js: node-fetch or undici
@@ -90,7 +103,7 @@ export interface InputDescriptor {
  * OpenID4VP Presentation Response
  */
 export interface PresentationResponse {
-  vp_token: string; // Base64-encoded W3C Verifiable Presentation
+  vp_token: string; // Base64-encoded W3C Verifiable Presentation, or an SD-JWT presentation
   presentation_submission: PresentationSubmission;
   state?: string;
 }
@@ -119,14 +132,13 @@ export function parseAuthorizationRequest(url: string): AuthorizationRequest {
     const urlObj = new URL(url.replace('openid4vp://', 'https://example.com/'));
     const params = urlObj.searchParams;
 
-    // Check for request_uri (not yet supported)
+    // Request objects need network access and signature checks
     if (params.has('request_uri')) {
-      throw new Error('request_uri (request by reference) is not yet supported');
+      throw new Error('request_uri (request by reference) requires resolveAuthorizationRequest');
     }
 
-    // Check for JWT request (not yet supported)
     if (params.has('request')) {
-      throw new Error('JWT-encoded requests are not yet supported');
+      throw new Error('JWT-encoded requests require resolveAuthorizationRequest');
     }
 
     // Parse presentation definition or DCQL query
@@ -162,6 +174,57 @@ export function parseAuthorizationRequest(url: string): AuthorizationRequest {
   }
 }
 
+/**
+ * Resolve an OpenID4VP authorization request, including signed request objects
+ *
+ * Plain deep links are parsed as in {@link parseAuthorizationRequest}. For
+ * `request_uri` the request object is fetched with the HTTP adapter; for
+ * `request` it is taken by value. Either way the JWT is verified against the
+ * client ID scheme (x509_san_dns, did, redirect_uri) and must carry the
+ * client_id from the deep link.
+ *
+ * @param url - Deep link URL (e.g., openid4vp://?client_id=...&request_uri=...)
+ * @param httpAdapter - HTTP client for fetching the request object
+ * @param options - Trust anchors and DID resolver for request object verification
+ * @returns Verified authorization request
+ */
+export async function resolveAuthorizationRequest(
+  url: string,
+  httpAdapter: HttpAdapter,
+  options: RequestObjectVerificationOptions = {},
+): Promise<AuthorizationRequest> {
+  const params = new URL(url.replace('openid4vp://', 'https://example.com/')).searchParams;
+  const requestUri = params.get('request_uri');
+  let jwt = params.get('request');
+
+  if (!requestUri && !jwt) {
+    return parseAuthorizationRequest(url);
+  }
+
+  if (requestUri) {
+    const method = params.get('request_uri_method');
+    if (method && method !== 'get') {
+      throw new Error(`Unsupported request_uri_method: ${method}`);
+    }
+
+    const response = await httpAdapter.get(requestUri, {
+      Accept: 'application/oauth-authz-req+jwt',
+    });
+    if (!response.ok) {
+      throw new Error(`Request object fetch failed: ${response.status} ${response.statusText}`);
+    }
+    jwt = (await response.text()).trim();
+  }
+
+  const { payload } = await verifyRequestObject(jwt as string, {
+    ...options,
+    expectedClientId: params.get('client_id') ?? options.expectedClientId,
+    clientIdScheme: params.get('client_id_scheme') ?? options.clientIdScheme,
+  });
+
+  return requestObjectToAuthorizationRequest(payload);
+}
+
 /**
  * Generate an OpenID4VP presentation response
  *
@@ -238,6 +301,110 @@ export async function generatePresentation(
   };
 }
 
+/**
+ * Generate an SD-JWT VC (`dc+sd-jwt`) presentation for a DCQL request
+ *
+ * Discloses only the claims named by the DCQL query's `$.<claim>` paths and
+ * appends a key binding JWT over the verifier's client_id and nonce.
+ *
+ * @param authRequest - Authorization request with a `dc+sd-jwt` DCQL credential query
+ * @param sdJwt - SD-JWT VC as issued (with all disclosures)
+ * @param holderSigner - Signer for the holder key in the credential's `cnf.jwk`
+ *   (e.g. backed by the Secure Enclave / Android Keystore)
+ * @returns Presentation response ready to submit
+ */
+export async function generateSdJwtPresentation(
+  authRequest: AuthorizationRequest,
+  sdJwt: string,
+  holderSigner: SdJwtSigner,
+): Promise<PresentationResponse> {
+  const credentialQuery = authRequest.dcql_query?.credentials.find(
+    (c) => c.format === SD_JWT_VC_TYP,
+  );
+  if (!authRequest.dcql_query || !credentialQuery) {
+    throw new Error(`Authorization request has no ${SD_JWT_VC_TYP} DCQL credential query`);
+  }
+
+  const disclose = (credentialQuery.claims ?? []).map((claim) => {
+    const match = /^\$\.([A-Za-z0-9_]+)$/.exec(claim.path);
+    if (!match) {
+      throw new Error(`Unsupported SD-JWT claim path: ${claim.path}`);
+    }
+    return match[1];
+  });
+
+  const vpToken = await createSdJwtPresentation(sdJwt, disclose, {
+    signer: holderSigner,
+    audience: authRequest.client_id,
+    nonce: authRequest.nonce,
+  });
+
+  return {
+    vp_token: vpToken,
+    presentation_submission: {
+      id: `submission-${Date.now()}`,
+      definition_id: authRequest.dcql_query.id,
+      descriptor_map: [{ id: credentialQuery.id, format: SD_JWT_VC_TYP, path: '$' }],
+    },
+    state: authRequest.state,
+  };
+}
+
+/**
+ * Generate an ISO 18013-5 mdoc (`mso_mdoc`) presentation for a DCQL request
+ *
+ * Discloses only the elements named by the DCQL query's
+ * `$['<namespace>']['<element>']` paths (e.g. `age_over_18`) and signs a
+ * DeviceResponse over the OpenID4VP session transcript (client_id, nonce,
+ * response_uri).
+ *
+ * @param authRequest - Authorization request with an `mso_mdoc` DCQL credential query
+ * @param issuerSigned - CBOR-encoded IssuerSigned as issued
+ * @param deviceSigner - Signer for the MSO device key
+ *   (e.g. backed by the Secure Enclave / Android Keystore)
+ * @returns Presentation response with the base64url DeviceResponse as vp_token
+ */
+export async function generateMdocPresentation(
+  authRequest: AuthorizationRequest,
+  issuerSigned: Uint8Array,
+  deviceSigner: MdocSigner,
+): Promise<PresentationResponse> {
+  const credentialQuery = authRequest.dcql_query?.credentials.find((c) => c.format === 'mso_mdoc');
+  if (!authRequest.dcql_query || !credentialQuery) {
+    throw new Error('Authorization request has no mso_mdoc DCQL credential query');
+  }
+
+  const disclose: Record<string, string[]> = {};
+  for (const claim of credentialQuery.claims ?? []) {
+    const match = /^\$\['([^']+)'\]\['([^']+)'\]$/.exec(claim.path);
+    if (!match) {
+      throw new Error(`Unsupported mdoc claim path: ${claim.path}`);
+    }
+    (disclose[match[1]] ??= []).push(match[2]);
+  }
+
+  const deviceResponse = await createDeviceResponse(
+    issuerSigned,
+    disclose,
+    deviceSigner,
+    createOpenID4VPSessionTranscript(
+      authRequest.client_id,
+      authRequest.nonce,
+      authRequest.response_uri,
+    ),
+  );
+
+  return {
+    vp_token: deviceResponse.toString('base64url'),
+    presentation_submission: {
+      id: `submission-${Date.now()}`,
+      definition_id: authRequest.dcql_query.id,
+      descriptor_map: [{ id: credentialQuery.id, format: 'mso_mdoc', path: '$' }],
+    },
+    state: authRequest.state,
+  };
+}
+
 /**
  * Submit a presentation to the verifier's callback URL
  *
@@ -298,6 +465,36 @@ export function buildDeepLink(authRequest: AuthorizationRequest): string {
   return `openid4vp://?${params.toString()}`;
 }
 
+// ---------------------------------------------------------------------------
+// Helper: Map a verified request object to an AuthorizationRequest
+// ---------------------------------------------------------------------------
+
+function requestObjectToAuthorizationRequest(
+  payload: Record<string, unknown>,
+): AuthorizationRequest {
+  const presentationDefinition = payload.presentation_definition as
+    PresentationDefinition | undefined;
+  const dcqlQuery = payload.dcql_query as DCQLQuery | undefined;
+
+  if (!presentationDefinition && !dcqlQuery) {
+    throw new Error('Request object is missing presentation_definition or dcql_query');
+  }
+  if (typeof payload.nonce !== 'string' || payload.nonce.length === 0) {
+    throw new Error('Request object is missing nonce');
+  }
+
+  return {
+    presentation_definition: presentationDefinition,
+    dcql_query: dcqlQuery,
+    response_type: (payload.response_type as string | undefined) || 'vp_token',
+    response_mode: (payload.response_mode as string | undefined) || 'direct_post',
+    response_uri: ((payload.response_uri ?? payload.redirect_uri) as string | undefined) || '',
+    nonce: payload.nonce,
+    client_id: payload.client_id as string,
+    state: payload.state as string | undefined,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Helper: Map InputDescriptor to ProofRequest
 // ---------------------------------------------------------------------------
@@ -5,7 +5,12 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { MobileWallet } from '../src/mobile-wallet.js';
 import { InMemoryCredentialStore } from '../src/credential-store.js';
-import type { SignedCredential } from '@zk-id/core';
+import type { HttpAdapter, HttpResponse } from '../src/openid4vp-adapter.js';
+import {
+  OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+  type SignedCredential,
+} from '@zk-id/core';
 
 const mockCredential: SignedCredential = {
   credential: {
@@ -117,4 +122,91 @@ describe('MobileWallet', () => {
     // Note: Full proof generation tests require mock circuit files
     // These would be integration tests rather than unit tests
   });
+
+  describe('OpenID4VCI', () => {
+    const issuerUrl = 'https://issuer.example';
+    const offerUri = `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(
+      `${issuerUrl}/offers/1`,
+    )}`;
+
+    function response(status: number, body: unknown): HttpResponse {
+      return {
+        ok: status < 300,
+        status,
+        statusText: String(status),
+        json: async () => body,
+        text: async () => JSON.stringify(body),
+      };
+    }
+
+    function issuerAdapter(requests: Array<{ url: string; body?: unknown }>): HttpAdapter {
+      return {
+        get: async (url) => {
+          requests.push({ url });
+          if (url === `${issuerUrl}/offers/1`) {
+            return response(200, {
+              credential_issuer: issuerUrl,
+              credential_configuration_ids: ['ZkIdSignedCredential'],
+              grants: {
+                [OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT]: {
+                  'pre-authorized_code': 'code-1',
+                  tx_code: { input_mode: 'numeric', length: 4 },
+                },
+              },
+            });
+          }
+          if (url === `${issuerUrl}/.well-known/openid-credential-issuer`) {
+            return response(200, {
+              credential_issuer: issuerUrl,
+              credential_endpoint: `${issuerUrl}/credential`,
+              nonce_endpoint: `${issuerUrl}/nonce`,
+              credential_configurations_supported: {
+                ZkIdSignedCredential: { format: ZKID_SIGNED_CREDENTIAL_FORMAT },
+              },
+            });
+          }
+          if (url === `${issuerUrl}/.well-known/oauth-authorization-server`) {
+            return response(200, { token_endpoint: `${issuerUrl}/token` });
+          }
+          return response(404, {});
+        },
+        post: async (url, body) => {
+          requests.push({ url, body });
+          if (url === `${issuerUrl}/token`) {
+            return response(200, { access_token: 'token-1' });
+          }
+          if (url === `${issuerUrl}/nonce`) {
+            return response(200, { c_nonce: 'nonce-1' });
+          }
+          if (url === `${issuerUrl}/credential`) {
+            return response(200, { credentials: [{ credential: mockCredential }] });
+          }
+          return response(404, {});
+        },
+      };
+    }
+
+    it('should store credentials received from an offer', async () => {
+      const requests: Array<{ url: string; body?: unknown }> = [];
+      wallet = new MobileWallet({
+        credentialStore: new InMemoryCredentialStore(),
+        circuitPaths: { ageWasm: '/mock/age.wasm', ageZkey: '/mock/age.zkey' },
+        onTxCode: async () => '4711',
+      });
+
+      const result = await wallet.acceptCredentialOffer(offerUri, issuerAdapter(requests));
+
+      expect(result.credentials).toHaveLength(1);
+      expect(await wallet.listCredentials()).toEqual([mockCredential]);
+      const token = requests.find((r) => r.url === `${issuerUrl}/token`);
+      expect(new URLSearchParams(token?.body as string).get('tx_code')).toBe('4711');
+    });
+
+    it('should reject offers requiring a transaction code without a prompt', async () => {
+      await expect(wallet.acceptCredentialOffer(offerUri, issuerAdapter([]))).rejects.toThrow(
+        'requires a transaction code',
+      );
+      expect(await wallet.listCredentials()).toHaveLength(0);
+    });
+  });
 });
@@ -3,11 +3,29 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
+import { generateKeyPairSync } from 'crypto';
+import {
+  MDL_DOCTYPE,
+  MDL_NAMESPACE,
+  ZK_ID_SD_JWT_VCT,
+  createOpenID4VPSessionTranscript,
+  ed25519PublicKeyToDIDKey,
+  issueMdoc,
+  issueSdJwt,
+  keyObjectSigner,
+  signRequestObject,
+  verifyDeviceResponse,
+  verifySdJwtVc,
+} from '@zk-id/core';
 import {
   parseAuthorizationRequest,
+  resolveAuthorizationRequest,
   buildDeepLink,
   generatePresentation,
+  generateSdJwtPresentation,
+  generateMdocPresentation,
   type AuthorizationRequest,
+  type HttpAdapter,
 } from '../src/openid4vp-adapter.js';
 
 const mockAuthRequest: AuthorizationRequest = {
@@ -67,13 +85,13 @@ describe('parseAuthorizationRequest', () => {
     expect(parsed.presentation_definition).toEqual(mockAuthRequest.presentation_definition);
   });
 
-  it('should throw error for request_uri (not yet supported)', () => {
+  it('should require resolveAuthorizationRequest for request_uri', () => {
     const url = 'openid4vp://?request_uri=https://example.com/request';
 
     expect(() => parseAuthorizationRequest(url)).toThrow('request_uri');
   });
 
-  it('should throw error for JWT request (not yet supported)', () => {
+  it('should require resolveAuthorizationRequest for JWT requests', () => {
     const url = 'openid4vp://?request=eyJhbGciOiJub25lIn0...';
 
     expect(() => parseAuthorizationRequest(url)).toThrow('JWT-encoded');
@@ -100,6 +118,106 @@ describe('parseAuthorizationRequest', () => {
   });
 });
 
+describe('resolveAuthorizationRequest', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const x = publicKey.export({ format: 'jwk' }).x as string;
+  const did = ed25519PublicKeyToDIDKey(Buffer.from(x, 'base64url'));
+  const signingKey = { alg: 'EdDSA' as const, privateKey, kid: `${did}#key-1` };
+
+  const requestObject = signRequestObject(
+    {
+      client_id: did,
+      response_type: 'vp_token',
+      response_mode: 'direct_post',
+      response_uri: 'https://verifier.example.com/callback',
+      nonce: 'jar-nonce-123',
+      state: 'jar-state',
+      presentation_definition: mockAuthRequest.presentation_definition,
+      exp: Math.floor(Date.now() / 1000) + 300,
+    },
+    signingKey,
+  );
+
+  function mockHttp(body: string, ok = true): HttpAdapter & { urls: string[] } {
+    const urls: string[] = [];
+    return {
+      urls,
+      get: async (url: string) => {
+        urls.push(url);
+        return {
+          ok,
+          status: ok ? 200 : 404,
+          statusText: ok ? 'OK' : 'Not Found',
+          json: async () => JSON.parse(body),
+          text: async () => body,
+        };
+      },
+      post: async () => {
+        throw new Error('unexpected POST');
+      },
+    };
+  }
+
+  it('should fetch and verify a request object by reference', async () => {
+    const http = mockHttp(requestObject);
+    const url = `openid4vp://?client_id=${encodeURIComponent(did)}&request_uri=${encodeURIComponent(
+      'https://verifier.example.com/request/abc',
+    )}`;
+
+    const resolved = await resolveAuthorizationRequest(url, http);
+
+    expect(http.urls).toEqual(['https://verifier.example.com/request/abc']);
+    expect(resolved.client_id).toBe(did);
+    expect(resolved.nonce).toBe('jar-nonce-123');
+    expect(resolved.state).toBe('jar-state');
+    expect(resolved.presentation_definition).toEqual(mockAuthRequest.presentation_definition);
+  });
+
+  it('should verify a request object passed by value', async () => {
+    const url = `openid4vp://?client_id=${encodeURIComponent(did)}&request=${requestObject}`;
+    const resolved = await resolveAuthorizationRequest(url, mockHttp(''));
+    expect(resolved.response_uri).toBe('https://verifier.example.com/callback');
+  });
+
+  it('should reject a request object for a different client_id', async () => {
+    const url = `openid4vp://?client_id=did:web:other.example&request=${requestObject}`;
+    await expect(resolveAuthorizationRequest(url, mockHttp(''))).rejects.toThrow(
+      'client_id does not match',
+    );
+  });
+
+  it('should reject a tampered request object', async () => {
+    const [header, , signature] = requestObject.split('.');
+    const payload = Buffer.from(
+      JSON.stringify({
+        client_id: did,
+        nonce: 'other',
+        response_uri: 'https://evil.example',
+        exp: Math.floor(Date.now() / 1000) + 300,
+      }),
+    ).toString('base64url');
+    const url = `openid4vp://?client_id=${encodeURIComponent(did)}&request=${header}.${payload}.${signature}`;
+    await expect(resolveAuthorizationRequest(url, mockHttp(''))).rejects.toThrow(
+      'signature verification failed',
+    );
+  });
+
+  it('should surface request_uri fetch failures', async () => {
+    const url = 'openid4vp://?client_id=x&request_uri=https://verifier.example.com/request/gone';
+    await expect(resolveAuthorizationRequest(url, mockHttp('', false))).rejects.toThrow(
+      'Request object fetch failed: 404',
+    );
+  });
+
+  it('should parse plain deep links without a request object', async () => {
+    const resolved = await resolveAuthorizationRequest(
+      buildDeepLink(mockAuthRequest),
+      mockHttp(''),
+    );
+    expect(resolved.nonce).toBe(mockAuthRequest.nonce);
+  });
+});
+
 describe('buildDeepLink', () => {
   it('should build valid openid4vp:// deep link', () => {
     const deepLink = buildDeepLink(mockAuthRequest);
@@ -269,6 +387,67 @@ describe('generatePresentation', () => {
   });
 });
 
+describe('generateSdJwtPresentation', () => {
+  const issuerKeys = generateKeyPairSync('ed25519');
+  const holderKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const sdJwtRequest: AuthorizationRequest = {
+    dcql_query: {
+      id: 'sd-jwt-age',
+      credentials: [
+        {
+          id: 'age-credential',
+          type: [ZK_ID_SD_JWT_VCT],
+          format: 'dc+sd-jwt',
+          claims: [{ path: '$.birthYear', filter: { type: 'number', maximum: 2008 } }],
+        },
+      ],
+    },
+    response_uri: 'https://verifier.example.com/callback',
+    nonce: 'sd-jwt-nonce',
+    client_id: 'x509_san_dns:verifier.example.com',
+    state: 'sd-jwt-state',
+  };
+
+  it('should disclose only the requested claims with key binding', async () => {
+    const sdJwt = await issueSdJwt(
+      {
+        iss: 'gov-issuer',
+        vct: ZK_ID_SD_JWT_VCT,
+        cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) },
+      },
+      { birthYear: 1990, nationality: 840 },
+      keyObjectSigner('EdDSA', issuerKeys.privateKey),
+    );
+
+    const presentation = await generateSdJwtPresentation(
+      sdJwtRequest,
+      sdJwt,
+      keyObjectSigner('ES256', holderKeys.privateKey),
+    );
+    expect(presentation.state).toBe('sd-jwt-state');
+    expect(presentation.presentation_submission.descriptor_map[0].format).toBe('dc+sd-jwt');
+
+    const verified = await verifySdJwtVc(presentation.vp_token, {
+      issuerKey: issuerKeys.publicKey,
+      audience: sdJwtRequest.client_id,
+      nonce: sdJwtRequest.nonce,
+    });
+    expect(verified.claims.birthYear).toBe(1990);
+    expect(verified.claims.nationality).toBeUndefined();
+  });
+
+  it('should require a dc+sd-jwt credential query', async () => {
+    await expect(
+      generateSdJwtPresentation(
+        mockAuthRequest,
+        'jwt~',
+        keyObjectSigner('ES256', holderKeys.privateKey),
+      ),
+    ).rejects.toThrow('no dc+sd-jwt DCQL credential query');
+  });
+});
+
 describe('submitPresentation', () => {
   // Note: Submission tests require a mock HttpAdapter
   // These are integration tests
@@ -278,3 +457,64 @@ describe('submitPresentation', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('generateMdocPresentation', () => {
+  const issuerKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const deviceKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const mdocRequest: AuthorizationRequest = {
+    dcql_query: {
+      id: 'mdoc-age',
+      credentials: [
+        {
+          id: 'mdl',
+          type: [MDL_DOCTYPE],
+          format: 'mso_mdoc',
+          claims: [{ path: `$['${MDL_NAMESPACE}']['age_over_18']` }],
+        },
+      ],
+    },
+    response_uri: 'https://verifier.example.com/callback',
+    nonce: 'mdoc-nonce',
+    client_id: 'x509_san_dns:verifier.example.com',
+    state: 'mdoc-state',
+  };
+
+  it('should disclose only the requested elements bound to the session transcript', async () => {
+    const issuerSigned = await issueMdoc(
+      MDL_DOCTYPE,
+      { [MDL_NAMESPACE]: { age_over_18: true, age_birth_year: 1990 } },
+      deviceKeys.publicKey.export({ format: 'jwk' }),
+      { validUntil: new Date(Date.now() + 86_400_000) },
+      keyObjectSigner('ES256', issuerKeys.privateKey, 'gov-issuer'),
+    );
+
+    const presentation = await generateMdocPresentation(
+      mdocRequest,
+      issuerSigned,
+      keyObjectSigner('ES256', deviceKeys.privateKey),
+    );
+    expect(presentation.state).toBe('mdoc-state');
+    expect(presentation.presentation_submission.descriptor_map[0].format).toBe('mso_mdoc');
+
+    const [document] = await verifyDeviceResponse(Buffer.from(presentation.vp_token, 'base64url'), {
+      issuerKey: issuerKeys.publicKey,
+      sessionTranscript: createOpenID4VPSessionTranscript(
+        mdocRequest.client_id,
+        mdocRequest.nonce,
+        mdocRequest.response_uri,
+      ),
+    });
+    expect(document.claims).toEqual({ [MDL_NAMESPACE]: { age_over_18: true } });
+  });
+
+  it('should require an mso_mdoc credential query', async () => {
+    await expect(
+      generateMdocPresentation(
+        mockAuthRequest,
+        Buffer.alloc(0),
+        keyObjectSigner('ES256', deviceKeys.privateKey),
+      ),
+    ).rejects.toThrow('no mso_mdoc DCQL credential query');
+  });
+});
@@ -2,6 +2,7 @@ export type { RedisClient, RedisPipeline } from './types';
 export { RedisNonceStore, type RedisNonceStoreOptions } from './nonce-store';
 export { RedisChallengeStore, type RedisChallengeStoreOptions } from './challenge-store';
 export { RedisRevocationStore, type RedisRevocationStoreOptions } from './revocation-store';
+export { RedisNullifierStore, type RedisNullifierStoreOptions } from './nullifier-store';
 export { RedisRateLimiter, type RedisRateLimiterOptions } from './rate-limiter';
 export { RedisIssuerRegistry, type RedisIssuerRegistryOptions } from './issuer-registry';
 export {
@@ -0,0 +1,143 @@
+import type { NullifierStore } from '@zk-id/core';
+import { ZkIdValidationError, validateScopeId } from '@zk-id/core';
+import type { RedisClient } from './types';
+
+export interface RedisNullifierStoreOptions {
+  /** Key prefix for per-scope nullifier sets (default: "zkid:nullifier:") */
+  keyPrefix?: string;
+  /**
+   * Default TTL in seconds applied to a scope's nullifier set, refreshed on
+   * every fresh nullifier (default: none — nullifiers are kept permanently).
+   */
+  scopeTtlSeconds?: number;
+  /**
+   * Per-scope TTLs in seconds, overriding `scopeTtlSeconds` for the listed
+   * scopes. Use this for one-off scopes such as a vote or airdrop round that
+   * can be retired once activity stops, while other scopes stay permanent.
+   */
+  scopeTtls?: Record<string, number>;
+}
+
+/**
+ * Redis-backed nullifier store for sybil resistance across verifier replicas.
+ *
+ * Each scope is stored as a single Redis SET of nullifiers, so SCARD doubles as
+ * the per-scope counter for {@link getUsedCount}. SADD only reports an insert to
+ * the first caller, which makes {@link checkAndMarkUsed} atomic even when
+ * several replicas race on the same nullifier.
+ */
+export class RedisNullifierStore implements NullifierStore {
+  private readonly client: RedisClient;
+  private readonly keyPrefix: string;
+  private readonly scopeTtlSeconds?: number;
+  private readonly scopeTtls: Map<string, number>;
+
+  /** Lua script that atomically adds a nullifier and refreshes the scope TTL when it was fresh. */
+  private static readonly SADD_EXPIRE_LUA = `local added = redis.call('SADD', KEYS[1], ARGV[1]) if added == 1 and tonumber(ARGV[2]) > 0 then redis.call('EXPIRE', KEYS[1], ARGV[2]) end return added`;
+
+  constructor(client: RedisClient, options: RedisNullifierStoreOptions = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'zkid:nullifier:';
+    this.scopeTtlSeconds = options.scopeTtlSeconds;
+    this.scopeTtls = new Map(Object.entries(options.scopeTtls ?? {}));
+
+    if (typeof this.keyPrefix !== 'string' || this.keyPrefix.length === 0) {
+      throw new ZkIdValidationError('keyPrefix must be a non-empty string', 'keyPrefix');
+    }
+    if (this.keyPrefix.length > 128) {
+      throw new ZkIdValidationError('keyPrefix must be at most 128 characters', 'keyPrefix');
+    }
+    if (this.scopeTtlSeconds !== undefined) {
+      this.validateTtl(this.scopeTtlSeconds, 'scopeTtlSeconds');
+    }
+    for (const [scopeId, ttlSeconds] of this.scopeTtls) {
+      validateScopeId(scopeId);
+      this.validateTtl(ttlSeconds, 'scopeTtls');
+    }
+  }
+
+  private validateTtl(ttlSeconds: number, field: string): void {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new ZkIdValidationError(`${field} must be a positive integer`, field);
+    }
+  }
+
+  private validateNullifier(nullifier: string): void {
+    if (!nullifier || nullifier.length === 0) {
+      throw new ZkIdValidationError('nullifier must be a non-empty string', 'nullifier');
+    }
+    if (nullifier.length > 512) {
+      throw new ZkIdValidationError('nullifier must be at most 512 characters', 'nullifier');
+    }
+  }
+
+  private scopeKey(scopeId: string): string {
+    validateScopeId(scopeId);
+    return this.keyPrefix + scopeId;
+  }
+
+  async hasBeenUsed(nullifier: string, scopeId: string): Promise<boolean> {
+    this.validateNullifier(nullifier);
+    const result = await this.client.sismember(this.scopeKey(scopeId), nullifier);
+    return result === 1;
+  }
+
+  async markUsed(nullifier: string, scopeId: string): Promise<void> {
+    await this.checkAndMarkUsed(nullifier, scopeId);
+  }
+
+  async getUsedCount(scopeId: string): Promise<number> {
+    return await this.client.scard(this.scopeKey(scopeId));
+  }
+
+  async checkAndMarkUsed(nullifier: string, scopeId: string): Promise<boolean> {
+    this.validateNullifier(nullifier);
+    const key = this.scopeKey(scopeId);
+    const ttlSeconds = this.scopeTtls.get(scopeId) ?? this.scopeTtlSeconds;
+
+    // Without a TTL, SADD alone is the atomic check-and-set.
+    if (ttlSeconds === undefined) {
+      return (await this.client.sadd(key, nullifier)) === 1;
+    }
+
+    // With a TTL, prefer a Lua script so the set can never exist without its
+    // expiry if the process dies between the two commands.
+    if (this.client.eval) {
+      const result = await this.client.eval(
+        RedisNullifierStore.SADD_EXPIRE_LUA,
+        1,
+        key,
+        nullifier,
+        String(ttlSeconds),
+      );
+      return Number(result) === 1;
+    }
+
+    const added = await this.client.sadd(key, nullifier);
+    if (added === 1) {
+      await this.client.expire(key, ttlSeconds);
+    }
+    return added === 1;
+  }
+
+  /**
+   * Retire a scope by deleting all of its nullifiers, now or after a delay.
+   *
+   * Only let the scope expire once it can no longer accept actions (e.g. the
+   * vote has closed); afterwards every nullifier in the scope is considered
+   * fresh again. A later fresh nullifier in a scope with a configured TTL
+   * refreshes the expiry.
+   *
+   * @param scopeId      - The scope identifier
+   * @param afterSeconds - Delete the scope after this many seconds instead of immediately
+   */
+  async retireScope(scopeId: string, afterSeconds?: number): Promise<void> {
+    const key = this.scopeKey(scopeId);
+    if (afterSeconds === undefined) {
+      await this.client.del(key);
+      return;
+    }
+    this.validateTtl(afterSeconds, 'afterSeconds');
+    await this.client.expire(key, afterSeconds);
+  }
+}
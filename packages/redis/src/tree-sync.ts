@@ -1,4 +1,17 @@
-import { ValidCredentialTree, RevocationRootInfo, RevocationWitness } from '@zk-id/core';
+import type { KeyObject } from 'crypto';
+import {
+  DEFAULT_REVOCATION_ROOT_TTL_SECONDS,
+  ValidCredentialTree,
+  RevocationRootInfo,
+  RevocationWitness,
+  SignedTreeFrontier,
+  TreeFrontier,
+  WitnessBucket,
+  ZkIdConfigError,
+  signRevocationRoot,
+  verifyRevocationRootSignature,
+} from '@zk-id/core';
+import type { IssuerRegistry } from '@zk-id/sdk';
 
 // ---------------------------------------------------------------------------
 // Pub/Sub client interfaces (compatible with ioredis)
@@ -36,8 +49,16 @@ export interface TreeSyncEvent {
   version: number;
   /** ISO 8601 timestamp of the mutation */
   updatedAt: string;
+  /** ISO 8601 timestamp after which the root should no longer be trusted (`updatedAt + ttlSeconds`) */
+  expiresAt?: string;
+  /** Root TTL in seconds */
+  ttlSeconds?: number;
   /** Identifier of the node that performed the mutation */
   source: string;
+  /** Issuer or registry identity whose key signed the root (set when the node has a `rootSigner`) */
+  issuer?: string;
+  /** Base64 Ed25519 signature over the root, version, timestamps and TTL (see revocationRootSignaturePayload) */
+  signature?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -140,6 +161,16 @@ export interface SyncedValidCredentialTreeOptions {
    * an explicit reload).
    */
   onRemoteUpdate?: (event: TreeSyncEvent) => void | Promise<void>;
+  /** Ed25519 key used to sign the root in every published event */
+  rootSigner?: { issuer: string; privateKey: KeyObject };
+  /** Lifetime of published roots in seconds, counted from `updatedAt` (default: 300) */
+  rootTtlSeconds?: number;
+  /**
+   * Issuer registry for checking signed roots in remote events. When set,
+   * events without a valid, unexpired signature from an active issuer are
+   * dropped.
+   */
+  issuerRegistry?: IssuerRegistry;
 }
 
 /**
@@ -148,12 +179,19 @@ export interface SyncedValidCredentialTreeOptions {
  *
  * On `add()` / `remove()`, the wrapper:
  *   1. Delegates to the inner tree.
- *   2. Publishes a `TreeSyncEvent` with the new root + version.
+ *   2. Publishes a `TreeSyncEvent` with the new root + version, signed
+ *      when `rootSigner` is set.
  *
  * On receiving a remote event (different `nodeId`):
- *   1. Invokes the `onRemoteUpdate` callback so the consumer can
+ *   1. Drops events whose version is not newer than the last one seen, so
+ *      a replayed event cannot roll the root back.
+ *   2. Invokes the `onRemoteUpdate` callback so the consumer can
  *      invalidate caches or reload state.
  *
+ * `getRootInfo()` serves the signed root of the current version as-is:
+ * the one this node broadcast, or one received in a verified remote event,
+ * so verifier nodes serve signed roots without holding the issuer's key.
+ *
  * This is intentionally thin: the wrapper does NOT attempt to replay
  * remote mutations locally. Instead it signals staleness and relies
  * on the underlying tree implementation (e.g., `PostgresValidCredentialTree`
@@ -164,7 +202,11 @@ export class SyncedValidCredentialTree implements ValidCredentialTree {
   private readonly syncChannel: RedisTreeSyncChannel;
   private readonly nodeId: string;
   private readonly onRemoteUpdate?: (event: TreeSyncEvent) => void | Promise<void>;
+  private readonly rootSigner?: { issuer: string; privateKey: KeyObject };
+  private readonly rootTtlSeconds: number;
+  private readonly issuerRegistry?: IssuerRegistry;
   private lastKnownVersion = -1;
+  private signedRoot?: RevocationRootInfo;
 
   constructor(
     tree: ValidCredentialTree,
@@ -175,14 +217,29 @@ export class SyncedValidCredentialTree implements ValidCredentialTree {
     this.syncChannel = syncChannel;
     this.nodeId = options.nodeId ?? randomHex(8);
     this.onRemoteUpdate = options.onRemoteUpdate;
+    this.rootSigner = options.rootSigner;
+    this.rootTtlSeconds = options.rootTtlSeconds ?? DEFAULT_REVOCATION_ROOT_TTL_SECONDS;
+    this.issuerRegistry = options.issuerRegistry;
 
     // Listen for remote updates
     this.syncChannel.onUpdate((event) => {
       if (event.source === this.nodeId) return; // ignore own events
-      this.lastKnownVersion = event.version;
-      if (this.onRemoteUpdate) {
-        this.onRemoteUpdate(event);
+      if (!this.issuerRegistry) {
+        this.applyRemoteUpdate(event);
+        return;
       }
+      this.verifyEventSignature(event).then(
+        (valid) => {
+          if (valid) {
+            this.applyRemoteUpdate(event);
+          } else {
+            console.warn(
+              '[zk-id] ignoring tree sync event with an invalid or expired root signature',
+            );
+          }
+        },
+        (error) => console.warn('[zk-id] failed to verify tree sync event:', error),
+      );
     });
   }
 
@@ -205,17 +262,43 @@ export class SyncedValidCredentialTree implements ValidCredentialTree {
   }
 
   async getRootInfo(): Promise<RevocationRootInfo> {
-    if (this.inner.getRootInfo) {
-      return this.inner.getRootInfo();
+    const info = await this.getInnerRootInfo();
+    const signed = this.signedRoot;
+    if (signed && signed.version === info.version && signed.root === info.root) {
+      return signed;
     }
-    const root = await this.inner.getRoot();
-    return { root, version: 0, updatedAt: new Date().toISOString() };
+    return info;
   }
 
   async getWitness(commitment: string): Promise<RevocationWitness | null> {
     return this.inner.getWitness(commitment);
   }
 
+  async getFrontier(level: number): Promise<TreeFrontier> {
+    if (!this.inner.getFrontier) {
+      throw new ZkIdConfigError('Wrapped tree does not support tree frontiers');
+    }
+    return this.inner.getFrontier(level);
+  }
+
+  async getSignedFrontier(level: number): Promise<SignedTreeFrontier> {
+    if (!this.inner.getSignedFrontier) {
+      throw new ZkIdConfigError('Wrapped tree does not sign tree frontiers');
+    }
+    return this.inner.getSignedFrontier(level);
+  }
+
+  async getWitnessBucket(
+    prefix: number,
+    prefixBits: number,
+    level: number,
+  ): Promise<WitnessBucket> {
+    if (!this.inner.getWitnessBucket) {
+      throw new ZkIdConfigError('Wrapped tree does not support witness buckets');
+    }
+    return this.inner.getWitnessBucket(prefix, prefixBits, level);
+  }
+
   async size(): Promise<number> {
     return this.inner.size();
   }
@@ -230,14 +313,63 @@ export class SyncedValidCredentialTree implements ValidCredentialTree {
     return this.nodeId;
   }
 
+  private async getInnerRootInfo(): Promise<RevocationRootInfo> {
+    if (this.inner.getRootInfo) {
+      return this.inner.getRootInfo();
+    }
+    const root = await this.inner.getRoot();
+    return { root, version: 0, updatedAt: new Date().toISOString() };
+  }
+
   private async broadcastCurrentState(): Promise<void> {
-    const info = await this.getRootInfo();
-    await this.syncChannel.publish({
+    const info = await this.getInnerRootInfo();
+    const root: RevocationRootInfo = {
       root: info.root,
       version: info.version,
       updatedAt: info.updatedAt,
-      source: this.nodeId,
-    });
+      expiresAt: new Date(Date.parse(info.updatedAt) + this.rootTtlSeconds * 1000).toISOString(),
+      ttlSeconds: this.rootTtlSeconds,
+    };
+    let published = root;
+    if (this.rootSigner) {
+      published = signRevocationRoot(root, this.rootSigner.issuer, this.rootSigner.privateKey);
+      this.signedRoot = published;
+    }
+    await this.syncChannel.publish({ ...published, source: this.nodeId });
+  }
+
+  private applyRemoteUpdate(event: TreeSyncEvent): void {
+    if (event.version <= this.lastKnownVersion) {
+      console.warn('[zk-id] ignoring tree sync event for an old root version:', event.version);
+      return;
+    }
+    this.lastKnownVersion = event.version;
+    if (this.issuerRegistry) {
+      // Verified against the registry; `source` is the publishing node, not a signed field
+      const { root, version, updatedAt, expiresAt, ttlSeconds, issuer, signature } = event;
+      this.signedRoot = { root, version, updatedAt, expiresAt, ttlSeconds, issuer, signature };
+    }
+    if (this.onRemoteUpdate) {
+      this.onRemoteUpdate(event);
+    }
+  }
+
+  private async verifyEventSignature(event: TreeSyncEvent): Promise<boolean> {
+    if (!this.issuerRegistry || !event.issuer) {
+      return false;
+    }
+    const record = await this.issuerRegistry.getIssuer(event.issuer);
+    if (!record || (record.status && record.status !== 'active')) {
+      return false;
+    }
+    const { root, version, updatedAt, expiresAt, ttlSeconds, issuer, signature } = event;
+    if (!expiresAt || !(Date.parse(expiresAt) > Date.now())) {
+      return false;
+    }
+    return verifyRevocationRootSignature(
+      { root, version, updatedAt, expiresAt, ttlSeconds, issuer, signature },
+      record.publicKey,
+    );
   }
 }
 
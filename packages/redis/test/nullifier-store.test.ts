@@ -0,0 +1,297 @@
+import { expect } from 'chai';
+import { consumeNullifier, ZkIdValidationError } from '@zk-id/core';
+import { RedisNullifierStore } from '../src/nullifier-store';
+import type { RedisClient } from '../src/types';
+
+// ---------------------------------------------------------------------------
+// Minimal in-memory mock covering the SET commands used by the store
+// ---------------------------------------------------------------------------
+
+function createMockClient(opts: { hasEval?: boolean } = {}): RedisClient & {
+  sets: Map<string, Set<string>>;
+  ttls: Map<string, number>;
+} {
+  const sets = new Map<string, Set<string>>();
+  const ttls = new Map<string, number>();
+
+  const sadd = async (key: string, ...members: string[]) => {
+    let set = sets.get(key);
+    if (!set) {
+      set = new Set();
+      sets.set(key, set);
+    }
+    let added = 0;
+    for (const m of members) {
+      if (!set.has(m)) {
+        set.add(m);
+        added++;
+      }
+    }
+    return added;
+  };
+
+  const base: RedisClient & { sets: Map<string, Set<string>>; ttls: Map<string, number> } = {
+    sets,
+    ttls,
+    async get() {
+      return null;
+    },
+    async set() {
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      let count = 0;
+      for (const k of keys) {
+        if (sets.delete(k)) count++;
+        ttls.delete(k);
+      }
+      return count;
+    },
+    sadd,
+    async sismember(key: string, member: string) {
+      return sets.get(key)?.has(member) ? 1 : 0;
+    },
+    async scard(key: string) {
+      return sets.get(key)?.size ?? 0;
+    },
+    async zadd() {
+      return 0;
+    },
+    async zremrangebyscore() {
+      return 0;
+    },
+    async zcard() {
+      return 0;
+    },
+    async expire(key: string, seconds: number) {
+      ttls.set(key, seconds);
+      return 1;
+    },
+  };
+
+  if (opts.hasEval) {
+    base.eval = async (_script: string, _numkeys: number, ...args: string[]) => {
+      // Simulate the SADD + EXPIRE Lua script behaviour
+      const [key, member, ttl] = args;
+      const added = await sadd(key, member);
+      if (added === 1 && Number(ttl) > 0) {
+        ttls.set(key, Number(ttl));
+      }
+      return added;
+    };
+  }
+
+  return base;
+}
+
+// ---------------------------------------------------------------------------
+// Unit tests (no Redis required)
+// ---------------------------------------------------------------------------
+
+describe('RedisNullifierStore (mock)', () => {
+  const keyPrefix = 'mock:nullifier:';
+
+  it('marks a nullifier fresh only on first use', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    expect(await store.checkAndMarkUsed('123', 'election-2026')).to.equal(true);
+    expect(await store.checkAndMarkUsed('123', 'election-2026')).to.equal(false);
+    expect(await store.hasBeenUsed('123', 'election-2026')).to.equal(true);
+  });
+
+  it('tracks nullifiers independently per scope', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    await store.markUsed('123', 'scope-a');
+    expect(await store.hasBeenUsed('123', 'scope-b')).to.equal(false);
+    expect(await store.checkAndMarkUsed('123', 'scope-b')).to.equal(true);
+  });
+
+  it('counts used nullifiers per scope', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    await store.markUsed('1', 'scope-a');
+    await store.markUsed('2', 'scope-a');
+    await store.markUsed('2', 'scope-a');
+    await store.markUsed('3', 'scope-b');
+
+    expect(await store.getUsedCount('scope-a')).to.equal(2);
+    expect(await store.getUsedCount('scope-b')).to.equal(1);
+    expect(await store.getUsedCount('scope-c')).to.equal(0);
+  });
+
+  it('allows only one of several concurrent attempts to succeed', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => consumeNullifier('999', 'airdrop-1', store)),
+    );
+
+    expect(results.filter((r) => r.fresh)).to.have.length(1);
+  });
+
+  it('applies scope TTL through the Lua script when eval is available', async () => {
+    const client = createMockClient({ hasEval: true });
+    const store = new RedisNullifierStore(client, { keyPrefix, scopeTtlSeconds: 60 });
+
+    expect(await store.checkAndMarkUsed('1', 'vote')).to.equal(true);
+    expect(await store.checkAndMarkUsed('1', 'vote')).to.equal(false);
+    expect(client.ttls.get(keyPrefix + 'vote')).to.equal(60);
+  });
+
+  it('applies scope TTL with SADD + EXPIRE when eval is unavailable', async () => {
+    const client = createMockClient();
+    const store = new RedisNullifierStore(client, { keyPrefix, scopeTtlSeconds: 30 });
+
+    expect(await store.checkAndMarkUsed('1', 'vote')).to.equal(true);
+    expect(client.ttls.get(keyPrefix + 'vote')).to.equal(30);
+  });
+
+  it('does not set a TTL when scopeTtlSeconds is not configured', async () => {
+    const client = createMockClient({ hasEval: true });
+    const store = new RedisNullifierStore(client, { keyPrefix });
+
+    await store.markUsed('1', 'permanent');
+    expect(client.ttls.has(keyPrefix + 'permanent')).to.equal(false);
+  });
+
+  it('applies per-scope TTLs over the default', async () => {
+    const client = createMockClient({ hasEval: true });
+    const store = new RedisNullifierStore(client, {
+      keyPrefix,
+      scopeTtlSeconds: 60,
+      scopeTtls: { 'airdrop-1': 3600 },
+    });
+
+    await store.markUsed('1', 'airdrop-1');
+    await store.markUsed('1', 'vote');
+    expect(client.ttls.get(keyPrefix + 'airdrop-1')).to.equal(3600);
+    expect(client.ttls.get(keyPrefix + 'vote')).to.equal(60);
+
+    const permanentByDefault = new RedisNullifierStore(client, {
+      keyPrefix: 'other:',
+      scopeTtls: { 'airdrop-1': 120 },
+    });
+    await permanentByDefault.markUsed('1', 'airdrop-1');
+    await permanentByDefault.markUsed('1', 'permanent');
+    expect(client.ttls.get('other:airdrop-1')).to.equal(120);
+    expect(client.ttls.has('other:permanent')).to.equal(false);
+  });
+
+  it('retires a scope after a delay', async () => {
+    const client = createMockClient();
+    const store = new RedisNullifierStore(client, { keyPrefix });
+
+    await store.markUsed('1', 'vote');
+    await store.retireScope('vote', 600);
+
+    expect(client.ttls.get(keyPrefix + 'vote')).to.equal(600);
+    expect(await store.hasBeenUsed('1', 'vote')).to.equal(true);
+  });
+
+  it('retires a scope', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    await store.markUsed('1', 'airdrop-1');
+    await store.retireScope('airdrop-1');
+
+    expect(await store.getUsedCount('airdrop-1')).to.equal(0);
+    expect(await store.hasBeenUsed('1', 'airdrop-1')).to.equal(false);
+  });
+
+  it('rejects invalid nullifiers and scope IDs', async () => {
+    const store = new RedisNullifierStore(createMockClient(), { keyPrefix });
+
+    try {
+      await store.checkAndMarkUsed('', 'scope');
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.include('nullifier must be a non-empty string');
+    }
+
+    try {
+      await store.checkAndMarkUsed('1', 'x'.repeat(300));
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.include('Scope ID must be at most');
+    }
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new RedisNullifierStore(createMockClient(), { keyPrefix: '' })).to.throw(
+      'keyPrefix must be a non-empty string',
+    );
+    expect(() => new RedisNullifierStore(createMockClient(), { scopeTtlSeconds: 0 })).to.throw(
+      ZkIdValidationError,
+      'scopeTtlSeconds must be a positive integer',
+    );
+    expect(
+      () => new RedisNullifierStore(createMockClient(), { scopeTtls: { vote: 1.5 } }),
+    ).to.throw(ZkIdValidationError, 'scopeTtls must be a positive integer');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Integration tests (require a running Redis instance)
+// ---------------------------------------------------------------------------
+
+const REDIS_URL = process.env.ZKID_REDIS_URL || process.env.REDIS_URL;
+
+describe('RedisNullifierStore', function () {
+  if (!REDIS_URL) {
+    it.skip('requires ZKID_REDIS_URL or REDIS_URL to run', () => {});
+    return;
+  }
+
+  let Redis: any;
+  try {
+    Redis = require('ioredis');
+  } catch {
+    it.skip('requires ioredis package to run integration tests', () => {});
+    return;
+  }
+
+  this.timeout(10000);
+
+  let client: any;
+  const keyPrefix = `zkid:test:${Date.now()}:nullifier:`;
+
+  before(async () => {
+    client = new Redis(REDIS_URL);
+  });
+
+  after(async () => {
+    // Clean up test keys
+    const keys = await client.keys(`${keyPrefix}*`);
+    if (keys.length > 0) {
+      await client.del(...keys);
+    }
+    await client.quit();
+  });
+
+  it('marks a nullifier fresh only on first use', async () => {
+    const store = new RedisNullifierStore(client, { keyPrefix });
+    expect(await store.checkAndMarkUsed('42', 'scope-1')).to.equal(true);
+    expect(await store.checkAndMarkUsed('42', 'scope-1')).to.equal(false);
+    expect(await store.getUsedCount('scope-1')).to.equal(1);
+  });
+
+  it('allows only one of several concurrent attempts to succeed', async () => {
+    const store = new RedisNullifierStore(client, { keyPrefix, scopeTtlSeconds: 60 });
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => store.checkAndMarkUsed('77', 'scope-2')),
+    );
+    expect(results.filter(Boolean)).to.have.length(1);
+  });
+
+  it('expires a scope after its TTL', async () => {
+    const store = new RedisNullifierStore(client, { keyPrefix, scopeTtlSeconds: 1 });
+    await store.markUsed('1', 'scope-3');
+    expect(await store.hasBeenUsed('1', 'scope-3')).to.equal(true);
+
+    // Wait for expiration
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    expect(await store.hasBeenUsed('1', 'scope-3')).to.equal(false);
+  });
+});
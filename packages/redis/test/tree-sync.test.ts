@@ -1,4 +1,5 @@
 import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
 import {
   RedisTreeSyncChannel,
   SyncedValidCredentialTree,
@@ -6,7 +7,14 @@ import {
   RedisPubClient,
   RedisSubClient,
 } from '../src/tree-sync';
-import { ValidCredentialTree, RevocationWitness, RevocationRootInfo } from '@zk-id/core';
+import {
+  ValidCredentialTree,
+  RevocationWitness,
+  RevocationRootInfo,
+  signRevocationRoot,
+  verifyRevocationRootSignature,
+} from '@zk-id/core';
+import { InMemoryIssuerRegistry } from '@zk-id/sdk';
 
 // ---------------------------------------------------------------------------
 // Minimal in-process pub/sub mock (no Redis needed)
@@ -459,4 +467,140 @@ describe('SyncedValidCredentialTree', () => {
 
     await channel.close();
   });
+
+  it('signs broadcast roots and drops remote events without a valid signature', async () => {
+    const signer = generateKeyPairSync('ed25519');
+    const forger = generateKeyPairSync('ed25519');
+    const pubsub = new MockPubSub();
+    const channels = [0, 1, 2].map(
+      () => new RedisTreeSyncChannel(pubsub.createPubClient(), pubsub.createSubClient()),
+    );
+    for (const channel of channels) {
+      await channel.start();
+    }
+
+    const published: TreeSyncEvent[] = [];
+    channels[2].onUpdate((event) => published.push(event));
+    const remoteUpdates: TreeSyncEvent[] = [];
+    const verifier = new SyncedValidCredentialTree(new StubValidCredentialTree(), channels[2], {
+      nodeId: 'verifier',
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+      ]),
+      onRemoteUpdate: (event) => {
+        remoteUpdates.push(event);
+      },
+    });
+    const honest = new SyncedValidCredentialTree(new StubValidCredentialTree(), channels[0], {
+      nodeId: 'honest',
+      rootSigner: { issuer: 'TestIssuer', privateKey: signer.privateKey },
+    });
+    const forged = new SyncedValidCredentialTree(new StubValidCredentialTree(), channels[1], {
+      nodeId: 'forged',
+      rootSigner: { issuer: 'TestIssuer', privateKey: forger.privateKey },
+    });
+    const unsigned = new SyncedValidCredentialTree(new StubValidCredentialTree(), channels[1], {
+      nodeId: 'unsigned',
+    });
+
+    await honest.add('c1');
+    await forged.add('c2');
+    await unsigned.add('c3');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(published).to.have.length(3);
+    expect(published[0].issuer).to.equal('TestIssuer');
+    // `source` is the publishing node here, not the signed root source
+    expect(
+      verifyRevocationRootSignature({ ...published[0], source: undefined }, signer.publicKey),
+    ).to.equal(true);
+    expect(remoteUpdates.map((event) => event.source)).to.deep.equal(['honest']);
+    expect(verifier.getLastKnownRemoteVersion()).to.equal(1);
+
+    for (const channel of channels) {
+      await channel.close();
+    }
+  });
+
+  it('serves the signed root it broadcast or received for the current version', async () => {
+    const signer = generateKeyPairSync('ed25519');
+    const pubsub = new MockPubSub();
+    const channelA = new RedisTreeSyncChannel(pubsub.createPubClient(), pubsub.createSubClient());
+    const channelB = new RedisTreeSyncChannel(pubsub.createPubClient(), pubsub.createSubClient());
+    await channelA.start();
+    await channelB.start();
+
+    // Both nodes share one store, like PostgresValidCredentialTree
+    const shared = new StubValidCredentialTree();
+    const issuer = new SyncedValidCredentialTree(shared, channelA, {
+      nodeId: 'issuer',
+      rootSigner: { issuer: 'TestIssuer', privateKey: signer.privateKey },
+      rootTtlSeconds: 60,
+    });
+    const verifier = new SyncedValidCredentialTree(shared, channelB, {
+      nodeId: 'verifier',
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+      ]),
+    });
+
+    await issuer.add('c1');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const signed = await issuer.getRootInfo();
+    expect(verifyRevocationRootSignature(signed, signer.publicKey)).to.equal(true);
+    expect(Date.parse(signed.expiresAt!) - Date.parse(signed.updatedAt)).to.equal(60 * 1000);
+    expect(await verifier.getRootInfo()).to.deep.equal(signed);
+
+    // A version nobody signed yet is served unsigned
+    await shared.add('c2');
+    expect((await verifier.getRootInfo()).signature).to.equal(undefined);
+
+    await channelA.close();
+    await channelB.close();
+  });
+
+  it('drops replayed and expired remote events', async () => {
+    const signer = generateKeyPairSync('ed25519');
+    const pubsub = new MockPubSub();
+    const channel = new RedisTreeSyncChannel(pubsub.createPubClient(), pubsub.createSubClient());
+    await channel.start();
+
+    const remoteUpdates: TreeSyncEvent[] = [];
+    const verifier = new SyncedValidCredentialTree(new StubValidCredentialTree(), channel, {
+      nodeId: 'verifier',
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+      ]),
+      onRemoteUpdate: (event) => {
+        remoteUpdates.push(event);
+      },
+    });
+    const event = (version: number, updatedMs: number): TreeSyncEvent => {
+      const info = signRevocationRoot(
+        {
+          root: `root-v${version}`,
+          version,
+          updatedAt: new Date(updatedMs).toISOString(),
+          expiresAt: new Date(updatedMs + 300_000).toISOString(),
+          ttlSeconds: 300,
+        },
+        'TestIssuer',
+        signer.privateKey,
+      );
+      return { ...info, source: 'issuer' };
+    };
+
+    const v1 = event(1, Date.now());
+    const v2 = event(2, Date.now());
+    for (const published of [v1, v2, v1, event(3, Date.now() - 600_000)]) {
+      await channel.publish(published);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    expect(remoteUpdates.map((update) => update.version)).to.deep.equal([1, 2]);
+    expect(verifier.getLastKnownRemoteVersion()).to.equal(2);
+
+    await channel.close();
+  });
 });
@@ -9,12 +9,20 @@
 import {
   ProofRequest,
   ProofResponse,
-  Credential,
   SignedCredential,
   RevocationWitness,
+  SignedTreeFrontier,
+  WitnessBucket,
+  rebuildWitnessFromFrontier,
+  verifyTreeFrontierSignature,
+  witnessBucketPrefix,
   generateAgeProof,
   generateNationalityProof,
+  generateNationalitySetProof,
   generateAgeProofRevocable,
+  generateNationalityProofRevocable,
+  generateAgeProofUnlinkable,
+  generateNationalityProofUnlinkable,
   ZkIdCredentialError,
   ZkIdConfigError,
   ZkIdProofError,
@@ -24,8 +32,19 @@ import {
   deriveBBSSchemaDisclosureProof,
   SCHEMA_REGISTRY,
   serializeBBSProof,
+  CredentialOfferResult,
+  CredentialOfferTxCode,
+  OpenID4VCICredential,
+  OpenID4VCIDeferredCredential,
+  OpenID4VCIHolderKey,
+  OpenID4VCIHttpClient,
+  ZKID_BBS_CREDENTIAL_FORMAT,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+  acceptCredentialOffer,
+  pollDeferredCredential,
 } from '@zk-id/core';
 import type { WalletConnector } from './client';
+import type { IssuerRegistry } from './server';
 
 // ---------------------------------------------------------------------------
 // CredentialStore interface
@@ -236,6 +255,8 @@ export class IndexedDBCredentialStore implements CredentialStore {
 // BrowserWallet
 // ---------------------------------------------------------------------------
 
+const DEFAULT_WITNESS_PREFIX_BITS = 4;
+
 export interface BrowserWalletConfig {
   /** Persistent credential storage backend. */
   credentialStore: CredentialStore;
@@ -249,12 +270,35 @@ export interface BrowserWalletConfig {
     nationalityZkey?: string;
     ageRevocableWasm?: string;
     ageRevocableZkey?: string;
+    nationalityRevocableWasm?: string;
+    nationalityRevocableZkey?: string;
+    ageUnlinkableWasm?: string;
+    ageUnlinkableZkey?: string;
+    nationalityUnlinkableWasm?: string;
+    nationalityUnlinkableZkey?: string;
+    nationalitySetWasm?: string;
+    nationalitySetZkey?: string;
   };
   /**
    * Optional endpoint for fetching the current revocation root.
-   * Required for revocable proofs.
+   * Required for revocable and unlinkable proofs.
    */
   revocationRootEndpoint?: string;
+  /**
+   * Commitment prefix length for private witness retrieval (default: 4).
+   * Each witness request downloads the bucket of credentials sharing the
+   * prefix; more bits mean smaller downloads but a smaller anonymity set.
+   */
+  witnessPrefixBits?: number;
+  /**
+   * Optional issuer registry for checking that tree frontiers are signed by
+   * the credential's issuer (the signature covers the revocation root,
+   * version and expiry) and rejecting expired frontiers and version
+   * rollbacks. When omitted, frontiers are only checked to hash up to their root.
+   */
+  issuerRegistry?: IssuerRegistry;
+  /** Maximum acceptable root age in ms. Tree frontiers older than this are rejected. */
+  maxRevocationRootAgeMs?: number;
   /**
    * Optional callback invoked when a site requests a proof.
    * Receives the proof request and the list of eligible credentials.
@@ -266,6 +310,16 @@ export interface BrowserWalletConfig {
     request: ProofRequest,
     credentials: SignedCredential[],
   ) => Promise<string | null>;
+  /**
+   * Optional callback prompting the user for the transaction code (PIN) of an
+   * OpenID4VCI credential offer. Return null to cancel.
+   */
+  onTxCode?: (txCode: CredentialOfferTxCode) => Promise<string | null>;
+  /**
+   * Holder key for OpenID4VCI key proofs. zk-id credentials are not bound to
+   * it; by default an ephemeral Ed25519 key is used per offer.
+   */
+  holderKey?: OpenID4VCIHolderKey;
 }
 
 /**
@@ -293,6 +347,7 @@ export interface BrowserWalletConfig {
  */
 export class BrowserWallet implements WalletConnector {
   private readonly config: BrowserWalletConfig;
+  private lastFrontierVersion = -1;
 
   constructor(config: BrowserWalletConfig) {
     this.config = config;
@@ -388,7 +443,7 @@ export class BrowserWallet implements WalletConnector {
         throw new ZkIdConfigError('Age-revocable circuit paths not configured');
       }
 
-      const witness = await this.fetchWitness(credential);
+      const witness = await this.fetchWitness(signedCredential);
       const proof = await generateAgeProofRevocable(
         credential,
         request.minAge,
@@ -408,6 +463,124 @@ export class BrowserWallet implements WalletConnector {
       };
     }
 
+    if (request.claimType === 'nationality-revocable') {
+      if (!request.targetNationality) {
+        throw new ZkIdConfigError('targetNationality is required for nationality-revocable proof');
+      }
+      if (
+        !this.config.circuitPaths.nationalityRevocableWasm ||
+        !this.config.circuitPaths.nationalityRevocableZkey
+      ) {
+        throw new ZkIdConfigError('Nationality-revocable circuit paths not configured');
+      }
+
+      const witness = await this.fetchWitness(signedCredential);
+      const proof = await generateNationalityProofRevocable(
+        credential,
+        request.targetNationality,
+        request.nonce,
+        timestampMs,
+        witness,
+        this.config.circuitPaths.nationalityRevocableWasm,
+        this.config.circuitPaths.nationalityRevocableZkey,
+      );
+      return {
+        credentialId: credential.id,
+        claimType: 'nationality-revocable',
+        proof,
+        signedCredential,
+        nonce: request.nonce,
+        requestTimestamp: request.timestamp,
+      };
+    }
+
+    // Unlinkable proofs omit credentialId and signedCredential: both would identify the holder
+    if (request.claimType === 'age-unlinkable') {
+      if (!request.minAge) {
+        throw new ZkIdConfigError('minAge is required for age-unlinkable proof');
+      }
+      if (
+        !this.config.circuitPaths.ageUnlinkableWasm ||
+        !this.config.circuitPaths.ageUnlinkableZkey
+      ) {
+        throw new ZkIdConfigError('Age-unlinkable circuit paths not configured');
+      }
+
+      const witness = await this.fetchWitness(signedCredential);
+      const proof = await generateAgeProofUnlinkable(
+        credential,
+        request.minAge,
+        request.nonce,
+        timestampMs,
+        witness,
+        this.config.circuitPaths.ageUnlinkableWasm,
+        this.config.circuitPaths.ageUnlinkableZkey,
+      );
+      return {
+        claimType: 'age-unlinkable',
+        proof,
+        nonce: request.nonce,
+        requestTimestamp: request.timestamp,
+      };
+    }
+
+    if (request.claimType === 'nationality-unlinkable') {
+      if (!request.targetNationality) {
+        throw new ZkIdConfigError('targetNationality is required for nationality-unlinkable proof');
+      }
+      if (
+        !this.config.circuitPaths.nationalityUnlinkableWasm ||
+        !this.config.circuitPaths.nationalityUnlinkableZkey
+      ) {
+        throw new ZkIdConfigError('Nationality-unlinkable circuit paths not configured');
+      }
+
+      const witness = await this.fetchWitness(signedCredential);
+      const proof = await generateNationalityProofUnlinkable(
+        credential,
+        request.targetNationality,
+        request.nonce,
+        timestampMs,
+        witness,
+        this.config.circuitPaths.nationalityUnlinkableWasm,
+        this.config.circuitPaths.nationalityUnlinkableZkey,
+      );
+      return {
+        claimType: 'nationality-unlinkable',
+        proof,
+        nonce: request.nonce,
+        requestTimestamp: request.timestamp,
+      };
+    }
+
+    if (request.claimType === 'nationality-set') {
+      if (!request.nationalitySet) {
+        throw new ZkIdConfigError('nationalitySet is required for nationality-set proof');
+      }
+      if (
+        !this.config.circuitPaths.nationalitySetWasm ||
+        !this.config.circuitPaths.nationalitySetZkey
+      ) {
+        throw new ZkIdConfigError('Nationality set circuit paths not configured');
+      }
+      const proof = await generateNationalitySetProof(
+        credential,
+        request.nationalitySet,
+        request.nonce,
+        timestampMs,
+        this.config.circuitPaths.nationalitySetWasm,
+        this.config.circuitPaths.nationalitySetZkey,
+      );
+      return {
+        credentialId: credential.id,
+        claimType: 'nationality-set',
+        proof,
+        signedCredential,
+        nonce: request.nonce,
+        requestTimestamp: request.timestamp,
+      };
+    }
+
     throw new ZkIdProofError(`Unsupported claim type: ${request.claimType}`, 'UNKNOWN_PROOF_TYPE');
   }
 
@@ -468,19 +641,7 @@ export class BrowserWallet implements WalletConnector {
       );
     }
 
-    // Basic structural validation
-    if (
-      !parsed.credential ||
-      !parsed.credential.id ||
-      !parsed.credential.birthYear ||
-      !parsed.credential.salt ||
-      !parsed.credential.commitment ||
-      !parsed.issuer ||
-      !parsed.signature
-    ) {
-      throw new ZkIdCredentialError('Invalid credential format', 'INVALID_CREDENTIAL_FORMAT');
-    }
-
+    assertSignedCredential(parsed);
     await this.config.credentialStore.put(parsed);
     return parsed;
   }
@@ -518,6 +679,72 @@ export class BrowserWallet implements WalletConnector {
     return parsed.length;
   }
 
+  // -- OpenID4VCI issuance ---------------------------------------------------
+
+  /**
+   * Receive credentials from an OpenID4VCI credential offer
+   * (`openid-credential-offer://...`) using the pre-authorized code flow.
+   *
+   * Requests the offered zk-id credentials (and BBS+ credentials when a BBS
+   * store is configured), stores them, and returns the issued and deferred
+   * credentials. Transaction codes are requested through `onTxCode`.
+   *
+   * @param offerUri - Credential offer link (QR code or deep link)
+   * @param credentialConfigurationIds - Subset of the offered configurations to request
+   */
+  async acceptCredentialOffer(
+    offerUri: string,
+    credentialConfigurationIds?: string[],
+  ): Promise<CredentialOfferResult> {
+    const result = await acceptCredentialOffer(offerUri, {
+      http: fetchHttpClient,
+      holderKey: this.config.holderKey,
+      credentialConfigurationIds,
+      formats: [
+        ZKID_SIGNED_CREDENTIAL_FORMAT,
+        ...(this.config.bbsCredentialStore ? [ZKID_BBS_CREDENTIAL_FORMAT] : []),
+      ],
+      onTxCode: this.config.onTxCode,
+    });
+    for (const issued of result.credentials) {
+      await this.storeIssuedCredential(issued);
+    }
+    return result;
+  }
+
+  /**
+   * Poll for a deferred OpenID4VCI credential and store it once issued.
+   *
+   * @returns true if the credential was issued and stored, false while still pending
+   */
+  async pollDeferredCredential(deferred: OpenID4VCIDeferredCredential): Promise<boolean> {
+    const issued = await pollDeferredCredential(deferred, fetchHttpClient);
+    if (!issued) {
+      return false;
+    }
+    await this.storeIssuedCredential(issued);
+    return true;
+  }
+
+  private async storeIssuedCredential(issued: OpenID4VCICredential): Promise<void> {
+    if (issued.format === ZKID_BBS_CREDENTIAL_FORMAT) {
+      const credential = issued.credential as SerializedBBSCredential;
+      if (
+        !credential ||
+        typeof credential.schemaId !== 'string' ||
+        typeof credential.signature !== 'string' ||
+        !credential.fields
+      ) {
+        throw new ZkIdCredentialError('Invalid BBS credential format', 'INVALID_CREDENTIAL_FORMAT');
+      }
+      await this.storeBBSCredential(credential);
+      return;
+    }
+    const credential = issued.credential as SignedCredential;
+    assertSignedCredential(credential);
+    await this.addCredential(credential);
+  }
+
   // -- BBS+ Credential Methods -----------------------------------------------
 
   /**
@@ -619,27 +846,101 @@ export class BrowserWallet implements WalletConnector {
   }
 
   /**
-   * Fetch a Merkle witness for a credential from the revocation root endpoint.
-   * The endpoint is expected to accept a commitment query parameter and return
-   * a RevocationWitness JSON object.
+   * Fetch a Merkle witness for a credential without revealing its commitment.
+   *
+   * Downloads the signed tree frontier and the witness bucket for the
+   * commitment's low-bit prefix from the endpoints next to the revocation
+   * root endpoint, then rebuilds the path locally. With an issuer registry,
+   * the frontier must be signed by the credential's own issuer and unexpired.
    */
-  private async fetchWitness(credential: Credential): Promise<RevocationWitness> {
+  private async fetchWitness(signedCredential: SignedCredential): Promise<RevocationWitness> {
+    const { credential } = signedCredential;
     if (!this.config.revocationRootEndpoint) {
-      throw new ZkIdConfigError('revocationRootEndpoint is required for revocable proofs');
+      throw new ZkIdConfigError(
+        'revocationRootEndpoint is required for revocable and unlinkable proofs',
+      );
+    }
+
+    const baseUrl = this.config.revocationRootEndpoint.replace(/\/root\/?$/, '');
+    const prefixBits = this.config.witnessPrefixBits ?? DEFAULT_WITNESS_PREFIX_BITS;
+    const prefix = witnessBucketPrefix(credential.commitment, prefixBits);
+
+    const [signedFrontier, bucket] = await Promise.all([
+      this.fetchWitnessJson<SignedTreeFrontier>(`${baseUrl}/frontier`),
+      this.fetchWitnessJson<WitnessBucket>(
+        `${baseUrl}/witness-bucket?prefix=${prefix}&prefixBits=${prefixBits}`,
+      ),
+    ]);
+
+    if (this.config.issuerRegistry) {
+      const record = await this.config.issuerRegistry.getIssuer(signedFrontier.issuer);
+      if (
+        signedFrontier.issuer !== signedCredential.issuer ||
+        !record ||
+        (record.status && record.status !== 'active') ||
+        !verifyTreeFrontierSignature(signedFrontier, record.publicKey)
+      ) {
+        throw new ZkIdProofError('Invalid tree frontier signature', 'INVALID_TREE_FRONTIER');
+      }
+      if (!(Date.parse(signedFrontier.frontier.expiresAt ?? '') > Date.now())) {
+        throw new ZkIdProofError('Revocation root has expired', 'REVOCATION_ROOT_EXPIRED');
+      }
+      if (signedFrontier.frontier.version < this.lastFrontierVersion) {
+        throw new ZkIdProofError('Revocation root version rolled back', 'REVOCATION_ROOT_ROLLBACK');
+      }
+      this.lastFrontierVersion = signedFrontier.frontier.version;
+    }
+
+    if (this.config.maxRevocationRootAgeMs !== undefined) {
+      const rootAgeMs = Date.now() - Date.parse(signedFrontier.frontier.updatedAt);
+      if (!(rootAgeMs <= this.config.maxRevocationRootAgeMs)) {
+        throw new ZkIdProofError('Revocation root is stale', 'REVOCATION_ROOT_STALE');
+      }
     }
 
-    const witnessUrl = this.config.revocationRootEndpoint.replace(/\/root\/?$/, '/witness');
-    const url = `${witnessUrl}?commitment=${encodeURIComponent(credential.commitment)}`;
+    return rebuildWitnessFromFrontier(credential.commitment, bucket, signedFrontier.frontier);
+  }
 
+  private async fetchWitnessJson<T>(url: string): Promise<T> {
     const response = await fetch(url);
     if (!response.ok) {
       throw new ZkIdProofError(`Failed to fetch witness: ${response.statusText}`);
     }
+    return (await response.json()) as T;
+  }
+}
 
-    return (await response.json()) as RevocationWitness;
+/**
+ * Basic structural validation of a SignedCredential.
+ */
+function assertSignedCredential(parsed: SignedCredential): void {
+  if (
+    !parsed ||
+    !parsed.credential ||
+    !parsed.credential.id ||
+    !parsed.credential.birthYear ||
+    !parsed.credential.salt ||
+    !parsed.credential.commitment ||
+    !parsed.issuer ||
+    !parsed.signature
+  ) {
+    throw new ZkIdCredentialError('Invalid credential format', 'INVALID_CREDENTIAL_FORMAT');
   }
 }
 
+/**
+ * OpenID4VCI HTTP client over the global fetch (string bodies are sent as-is).
+ */
+const fetchHttpClient: OpenID4VCIHttpClient = {
+  get: (url, headers) => fetch(url, { headers }),
+  post: (url, body, headers) =>
+    fetch(url, {
+      method: 'POST',
+      headers,
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+};
+
 /**
  * OpenID4VP Wallet Adapter
  *
@@ -650,6 +951,13 @@ export class BrowserWallet implements WalletConnector {
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import {
+  RequestObjectVerificationOptions,
+  SD_JWT_VC_TYP,
+  SdJwtSigner,
+  createSdJwtPresentation,
+  verifyRequestObject,
+} from '@zk-id/core';
 import type {
   AuthorizationRequest,
   PresentationSubmission as _PresentationSubmission,
@@ -661,14 +969,85 @@ import type {
 export interface OpenID4VPWalletConfig extends BrowserWalletConfig {
   /** Wallet identifier (DID or URL) */
   walletId?: string;
+  /** Trust anchors and DID resolver for verifying signed request objects */
+  requestObjectVerification?: RequestObjectVerificationOptions;
 }
 
 export class OpenID4VPWallet extends BrowserWallet {
   private walletId: string;
+  private requestObjectVerification: RequestObjectVerificationOptions;
 
   constructor(config: OpenID4VPWalletConfig) {
     super(config);
     this.walletId = config.walletId || 'zk-id-wallet';
+    this.requestObjectVerification = config.requestObjectVerification ?? {};
+  }
+
+  /**
+   * Resolve an OpenID4VP authorization request, including request objects
+   *
+   * `request_uri` is fetched and `request` taken by value; the JWT is then
+   * verified against its client ID scheme (x509_san_dns, did, redirect_uri)
+   * and must carry the deep link's client_id. Other URLs are parsed with
+   * {@link parseAuthorizationRequest}.
+   *
+   * @param authRequestUrl - Authorization request URL or object
+   * @returns Verified authorization request
+   */
+  async resolveAuthorizationRequest(
+    authRequestUrl: string | AuthorizationRequest,
+  ): Promise<AuthorizationRequest> {
+    if (typeof authRequestUrl === 'object') {
+      return authRequestUrl;
+    }
+
+    const params = new URL(authRequestUrl.replace('openid4vp://', 'https://example.com/'))
+      .searchParams;
+    const requestUri = params.get('request_uri');
+    let jwt = params.get('request');
+
+    if (!requestUri && !jwt) {
+      return this.parseAuthorizationRequest(authRequestUrl);
+    }
+
+    if (requestUri) {
+      const method = params.get('request_uri_method');
+      if (method && method !== 'get') {
+        throw new Error(`Unsupported request_uri_method: ${method}`);
+      }
+
+      const response = await fetch(requestUri, {
+        headers: { Accept: 'application/oauth-authz-req+jwt' },
+      });
+      if (!response.ok) {
+        throw new Error(`Request object fetch failed: ${response.status} ${response.statusText}`);
+      }
+      jwt = (await response.text()).trim();
+    }
+
+    const { payload } = await verifyRequestObject(jwt as string, {
+      ...this.requestObjectVerification,
+      expectedClientId: params.get('client_id') ?? this.requestObjectVerification.expectedClientId,
+      clientIdScheme:
+        params.get('client_id_scheme') ?? this.requestObjectVerification.clientIdScheme,
+    });
+
+    if (!payload.presentation_definition && !payload.dcql_query) {
+      throw new Error('Request object is missing presentation_definition or dcql_query');
+    }
+    if (typeof payload.nonce !== 'string' || payload.nonce.length === 0) {
+      throw new Error('Request object is missing nonce');
+    }
+
+    return {
+      ...(payload as Partial<AuthorizationRequest>),
+      response_type: (payload.response_type as string | undefined) || 'vp_token',
+      response_mode: (payload.response_mode as string | undefined) || 'direct_post',
+      response_uri: ((payload.response_uri ?? payload.redirect_uri) as string | undefined) || '',
+      nonce: payload.nonce,
+      client_id: payload.client_id as string,
+      state: (payload.state as string | undefined) || '',
+    };
   }
 
   /**
@@ -692,14 +1071,13 @@ export class OpenID4VPWallet extends BrowserWallet {
       const url = new URL(urlString);
       const params = url.searchParams;
 
-      // Check if request is passed by value or by reference
+      // Request objects need network access and signature checks
       if (params.has('request_uri')) {
-        throw new Error('request_uri (request by reference) is not yet supported');
+        throw new Error('request_uri (request by reference) requires resolveAuthorizationRequest');
       }
 
       if (params.has('request')) {
-        // JWT-encoded request (not yet supported)
-        throw new Error('JWT-encoded requests are not yet supported');
+        throw new Error('JWT-encoded requests require resolveAuthorizationRequest');
       }
 
       // Parse presentation definition or DCQL query
@@ -744,8 +1122,7 @@ export class OpenID4VPWallet extends BrowserWallet {
   async generatePresentation(
     authRequest: AuthorizationRequest | string,
   ): Promise<PresentationResponse> {
-    const request =
-      typeof authRequest === 'string' ? this.parseAuthorizationRequest(authRequest) : authRequest;
+    const request = await this.resolveAuthorizationRequest(authRequest);
 
     // Get all credentials from wallet
     const credentials = await (this as any).config.credentialStore.getAll();
@@ -848,8 +1225,7 @@ export class OpenID4VPWallet extends BrowserWallet {
   async handleBBSDisclosureRequest(
     authRequest: AuthorizationRequest | string,
   ): Promise<PresentationResponse> {
-    const request =
-      typeof authRequest === 'string' ? this.parseAuthorizationRequest(authRequest) : authRequest;
+    const request = await this.resolveAuthorizationRequest(authRequest);
 
     // Get all BBS credentials from wallet
     const bbsCredentials = await (this as any).getBBSCredentials();
@@ -935,6 +1311,54 @@ export class OpenID4VPWallet extends BrowserWallet {
     };
   }
 
+  /**
+   * Present an SD-JWT VC (`dc+sd-jwt`) for a DCQL request
+   *
+   * Discloses only the claims named by the DCQL query's `$.<claim>` paths and
+   * appends a key binding JWT over the verifier's client_id and nonce. The
+   * vp_token is the SD-JWT presentation itself and is not JWE-encrypted.
+   *
+   * @param authRequest - Authorization request with a `dc+sd-jwt` DCQL credential query
+   * @param sdJwt - SD-JWT VC as issued (with all disclosures)
+   * @param holderSigner - Signer for the holder key in the credential's `cnf.jwk`
+   * @returns Presentation response ready to submit
+   */
+  async generateSdJwtPresentation(
+    authRequest: AuthorizationRequest | string,
+    sdJwt: string,
+    holderSigner: SdJwtSigner,
+  ): Promise<PresentationResponse> {
+    const request = await this.resolveAuthorizationRequest(authRequest);
+    const credentialQuery = request.dcql_query?.credentials.find((c) => c.format === SD_JWT_VC_TYP);
+    if (!request.dcql_query || !credentialQuery) {
+      throw new Error(`Authorization request has no ${SD_JWT_VC_TYP} DCQL credential query`);
+    }
+
+    const disclose = (credentialQuery.claims ?? []).map((claim) => {
+      const match = /^\$\.([A-Za-z0-9_]+)$/.exec(claim.path);
+      if (!match) {
+        throw new Error(`Unsupported SD-JWT claim path: ${claim.path}`);
+      }
+      return match[1];
+    });
+
+    const vpToken = await createSdJwtPresentation(sdJwt, disclose, {
+      signer: holderSigner,
+      audience: request.client_id,
+      nonce: request.nonce,
+    });
+
+    return {
+      vp_token: vpToken,
+      state: request.state,
+      presentation_submission: {
+        id: uuidv4(),
+        definition_id: request.dcql_query.id,
+        descriptor_map: [{ id: credentialQuery.id, format: SD_JWT_VC_TYP, path: '$' }],
+      },
+    };
+  }
+
   /**
    * Submit a presentation to the verifier's response URI
    *
@@ -946,8 +1370,7 @@ export class OpenID4VPWallet extends BrowserWallet {
     authRequest: AuthorizationRequest | string,
     presentation: PresentationResponse,
   ): Promise<boolean> {
-    const request =
-      typeof authRequest === 'string' ? this.parseAuthorizationRequest(authRequest) : authRequest;
+    const request = await this.resolveAuthorizationRequest(authRequest);
 
     try {
       const response = await fetch(request.response_uri, {
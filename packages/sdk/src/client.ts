@@ -31,7 +31,9 @@ import {
   validateMinAge,
   validateNationality,
   validatePositiveInt,
+  verifyRevocationRootSignature,
 } from '@zk-id/core';
+import type { IssuerRegistry } from './server';
 
 export interface ZkIdClientConfig {
   /** URL of the website's proof verification endpoint */
@@ -49,8 +51,22 @@ export interface ZkIdClientConfig {
    * - "never": never send header
    */
   protocolVersionHeader?: 'same-origin' | 'always' | 'never';
-  /** Maximum acceptable root age in ms. fetchRevocationRootInfo() warns when root exceeds this age. */
+  /** Maximum acceptable root age in ms. fetchRevocationRootInfo() rejects roots older than this. */
   maxRevocationRootAgeMs?: number;
+  /**
+   * Issuer registry for checking revocation root signatures. When set,
+   * fetchRevocationRootInfo() rejects unsigned roots, roots not signed by an
+   * active issuer in the registry, roots past their signed `expiresAt`, and
+   * roots older than the last version seen.
+   */
+  issuerRegistry?: IssuerRegistry;
+  /**
+   * Reuse session tokens returned by the verification endpoint: verifyAge and
+   * verifyNationality send an unexpired token for the same claim back to the
+   * endpoint (`Authorization: Bearer`) and only prove again if it is rejected
+   * (default: true).
+   */
+  reuseSessionTokens?: boolean;
 }
 
 export interface WalletConnector {
@@ -65,6 +81,8 @@ export interface WalletConnector {
  */
 export class ZkIdClient {
   private config: ZkIdClientConfig;
+  private sessionTokens: Map<string, { token: string; expiresAt: number }> = new Map();
+  private lastRevocationRootVersion = -1;
 
   constructor(config: ZkIdClientConfig) {
     if (!config.verificationEndpoint || typeof config.verificationEndpoint !== 'string') {
@@ -85,6 +103,10 @@ export class ZkIdClient {
   async verifyAge(minAge: number): Promise<boolean> {
     validateMinAge(minAge);
     try {
+      if (await this.submitSessionToken(`age:${minAge}`)) {
+        return true;
+      }
+
       // Create proof request
       const request: ProofRequest = {
         claimType: 'age',
@@ -118,6 +140,10 @@ export class ZkIdClient {
   async verifyNationality(targetNationality: number): Promise<boolean> {
     validateNationality(targetNationality);
     try {
+      if (await this.submitSessionToken(`nationality:${targetNationality}`)) {
+        return true;
+      }
+
       // Create proof request
       const request: ProofRequest = {
         claimType: 'nationality',
@@ -296,8 +322,13 @@ export class ZkIdClient {
   /**
    * Fetch current revocation root info from server (if configured).
    *
-   * When `maxRevocationRootAgeMs` is set in config, logs a warning if the
-   * returned root is older than the threshold.
+   * When `maxRevocationRootAgeMs` is set in config, roots older than the
+   * threshold are rejected. When `issuerRegistry` is set, the root signature
+   * is verified so roots can be fetched from any mirror, and roots past their
+   * signed `expiresAt` are rejected so an old signed root cannot be replayed.
+   *
+   * @throws ZkIdProofError if the signature is missing or invalid, the root has
+   * expired or is stale, or the version rolled back
    */
   async fetchRevocationRootInfo(): Promise<RevocationRootInfo> {
     if (!this.config.revocationRootEndpoint) {
@@ -315,13 +346,28 @@ export class ZkIdClient {
 
     const info = (await response.json()) as RevocationRootInfo;
 
-    if (this.config.maxRevocationRootAgeMs !== undefined && info.updatedAt) {
+    if (this.config.issuerRegistry) {
+      const record = info.issuer ? await this.config.issuerRegistry.getIssuer(info.issuer) : null;
+      if (
+        !record ||
+        (record.status && record.status !== 'active') ||
+        !verifyRevocationRootSignature(info, record.publicKey)
+      ) {
+        throw new ZkIdProofError('Invalid revocation root signature', 'INVALID_REVOCATION_ROOT');
+      }
+      if (!(Date.parse(info.expiresAt ?? '') > Date.now())) {
+        throw new ZkIdProofError('Revocation root has expired', 'REVOCATION_ROOT_EXPIRED');
+      }
+      if (info.version < this.lastRevocationRootVersion) {
+        throw new ZkIdProofError('Revocation root version rolled back', 'REVOCATION_ROOT_ROLLBACK');
+      }
+      this.lastRevocationRootVersion = info.version;
+    }
+
+    if (this.config.maxRevocationRootAgeMs !== undefined) {
       const rootAgeMs = Date.now() - Date.parse(info.updatedAt);
-      if (rootAgeMs > this.config.maxRevocationRootAgeMs) {
-        console.warn(
-          `[zk-id] Revocation root is stale: age=${Math.round(rootAgeMs / 1000)}s, ` +
-            `max=${Math.round(this.config.maxRevocationRootAgeMs / 1000)}s`,
-        );
+      if (!(rootAgeMs <= this.config.maxRevocationRootAgeMs)) {
+        throw new ZkIdProofError('Revocation root is stale', 'REVOCATION_ROOT_STALE');
       }
     }
 
@@ -389,9 +435,95 @@ export class ZkIdClient {
     }
 
     const result = await response.json();
+    if (result.verified === true && typeof result.sessionToken === 'string') {
+      await this.storeSessionToken(result.sessionToken);
+    }
     return result.verified === true;
   }
 
+  /**
+   * Have the verification endpoint check a cached session token for a scope
+   * (`Authorization: Bearer`, body `{ scope }`). A token the endpoint rejects
+   * is dropped, so the caller proves again.
+   *
+   * @returns true only if the endpoint accepted the token
+   */
+  private async submitSessionToken(scope: string): Promise<boolean> {
+    if (this.config.reuseSessionTokens === false) {
+      return false;
+    }
+    const token = this.getSessionToken(scope);
+    if (!token) {
+      return false;
+    }
+
+    const headers = this.buildHeaders(this.config.verificationEndpoint);
+    headers['Content-Type'] = 'application/json';
+    headers['Authorization'] = `Bearer ${token}`;
+    const response = await fetch(this.config.verificationEndpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ scope }),
+    });
+
+    const result = response.ok ? await response.json() : undefined;
+    if (result?.verified === true) {
+      return true;
+    }
+    for (const [cachedScope, entry] of this.sessionTokens) {
+      if (entry.token === token) {
+        this.sessionTokens.delete(cachedScope);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Unexpired session token covering a scope (e.g. 'age:18'), for sending to
+   * the relying party's backend in place of a new proof.
+   *
+   * @param scope - Session token scope
+   * @returns The token, or undefined if none is cached or it has expired
+   */
+  getSessionToken(scope: string): string | undefined {
+    const entry = this.sessionTokens.get(scope);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.sessionTokens.delete(scope);
+      return undefined;
+    }
+    return entry.token;
+  }
+
+  /**
+   * Forget all cached session tokens (e.g. on logout).
+   */
+  clearSessionTokens(): void {
+    this.sessionTokens.clear();
+  }
+
+  /**
+   * Cache a session token under each scope it covers. The signature is the
+   * server's to check; the client only reads the scopes and expiry.
+   */
+  private async storeSessionToken(token: string): Promise<void> {
+    const { decodeJwt } = await import('jose');
+    let payload: ReturnType<typeof decodeJwt>;
+    try {
+      payload = decodeJwt(token);
+    } catch {
+      return;
+    }
+    if (typeof payload.scope !== 'string' || typeof payload.exp !== 'number') {
+      return;
+    }
+    for (const scope of payload.scope.split(' ')) {
+      this.sessionTokens.set(scope, { token, expiresAt: payload.exp * 1000 });
+    }
+  }
+
   private async submitScenarioBundle(
     scenarioId: string,
     responseBody: MultiClaimResponse,
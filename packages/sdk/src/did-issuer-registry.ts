@@ -0,0 +1,148 @@
+/**
+ * DID-based issuer registry.
+ *
+ * Trusts a configured set of issuer DIDs and takes their keys from the
+ * resolved DID documents (assertionMethod by default), so issuers rotate keys
+ * by updating their DID document rather than the verifier's configuration.
+ */
+
+import {
+  DidDocument,
+  DidResolver,
+  DidVerificationRelationship,
+  getDidVerificationKeys,
+} from '@zk-id/core';
+import { IssuerRecord, IssuerRegistry } from './server';
+
+/**
+ * A trusted issuer DID with optional registry metadata.
+ */
+export interface DidIssuerEntry extends Pick<
+  IssuerRecord,
+  'status' | 'jurisdiction' | 'policyUrl' | 'auditUrl'
+> {
+  /** Issuer DID (without fragment) */
+  did: string;
+}
+
+/**
+ * Configuration for DidIssuerRegistry.
+ */
+export interface DidIssuerRegistryConfig {
+  /** DID resolver (e.g. UniversalDidResolver) */
+  resolver: DidResolver;
+  /** Trusted issuer DIDs; any other DID resolves to null */
+  issuers: Array<string | DidIssuerEntry>;
+  /** How long resolved DID documents are cached in ms. Default: 5 minutes. */
+  cacheTtlMs?: number;
+  /** Verification relationship issuer keys must be listed under. Default: assertionMethod. */
+  relationship?: DidVerificationRelationship;
+}
+
+/**
+ * Issuer record for one verification method of a DID document.
+ */
+export interface DidIssuerRecord extends IssuerRecord {
+  /** DID URL of the verification method */
+  keyId: string;
+}
+
+/**
+ * Issuer registry backed by DID resolution.
+ *
+ * `getIssuer()` accepts either a DID (returns the first key listed under the
+ * verification relationship) or a DID URL such as a JWS/COSE `kid` (returns
+ * that specific key, provided the document still lists it). Removing a key
+ * from the DID document revokes it once the cache entry expires. Resolution
+ * failures fail closed: the issuer is treated as unknown.
+ *
+ * Usage:
+ * ```typescript
+ * const registry = new DidIssuerRegistry({
+ *   resolver: new UniversalDidResolver(),
+ *   issuers: [{ did: 'did:web:gov.example', jurisdiction: 'US' }],
+ * });
+ * const server = new ZkIdServer({ ..., issuerRegistry: registry });
+ * ```
+ */
+export class DidIssuerRegistry implements IssuerRegistry {
+  private readonly resolver: DidResolver;
+  private readonly entries: Map<string, DidIssuerEntry>;
+  private readonly cacheTtlMs: number;
+  private readonly relationship: DidVerificationRelationship;
+  private readonly cache = new Map<string, { document: Promise<DidDocument>; expiresAt: number }>();
+
+  constructor(config: DidIssuerRegistryConfig) {
+    this.resolver = config.resolver;
+    this.entries = new Map(
+      config.issuers.map((entry) => {
+        const normalized = typeof entry === 'string' ? { did: entry } : entry;
+        return [normalized.did, normalized];
+      }),
+    );
+    this.cacheTtlMs = config.cacheTtlMs ?? 5 * 60 * 1000;
+    this.relationship = config.relationship ?? 'assertionMethod';
+  }
+
+  async getIssuer(issuer: string): Promise<IssuerRecord | null> {
+    const records = await this.listRecords(issuer.split('#')[0]);
+    if (!issuer.includes('#')) {
+      return records[0] ?? null;
+    }
+    return records.find((record) => record.keyId === issuer) ?? null;
+  }
+
+  /**
+   * List one record per key the issuer's DID document currently authorizes
+   * (compatible with DashboardIssuerRegistry).
+   */
+  async listRecords(issuer: string): Promise<DidIssuerRecord[]> {
+    const entry = this.entries.get(issuer);
+    if (!entry) {
+      return [];
+    }
+
+    let document: DidDocument;
+    try {
+      document = await this.resolve(issuer);
+    } catch {
+      return [];
+    }
+
+    const { did, ...metadata } = entry;
+    return getDidVerificationKeys(document, this.relationship).map((key) => ({
+      issuer: did,
+      publicKey: key.publicKey,
+      status: 'active' as const,
+      ...metadata,
+      keyId: key.id,
+    }));
+  }
+
+  /**
+   * Drop cached DID documents (all, or one issuer's), e.g. after a rotation notice.
+   */
+  invalidate(did?: string): void {
+    if (did) {
+      this.cache.delete(did);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private resolve(did: string): Promise<DidDocument> {
+    const cached = this.cache.get(did);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+    const document = this.resolver.resolve(did);
+    this.cache.set(did, { document, expiresAt: Date.now() + this.cacheTtlMs });
+    // Do not cache failures
+    document.catch(() => {
+      if (this.cache.get(did)?.document === document) {
+        this.cache.delete(did);
+      }
+    });
+    return document;
+  }
+}
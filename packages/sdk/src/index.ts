@@ -7,6 +7,10 @@
 
 export * from './client';
 export * from './server';
+export * from './session-token';
+export * from './did-issuer-registry';
+export * from './trust-list-registry';
 export * from './postgres-valid-credential-tree';
+export * from './postgres-stores';
 export * from './browser-wallet';
 export * from './dashboard';
@@ -0,0 +1,589 @@
+import {
+  IssuedCredentialIndex,
+  MAX_NONCE_LENGTH,
+  NullifierStore,
+  RevocationStore,
+  validateScopeId,
+  ZkIdConfigError,
+  ZkIdValidationError,
+} from '@zk-id/core';
+import type { SqlClient } from './postgres-valid-credential-tree';
+import type { ChallengeStore, NonceStore } from './server';
+
+/** Options shared by all Postgres-backed stores. */
+export interface PostgresStoreOptions {
+  /** Postgres schema name (default: public) */
+  schema?: string;
+  /** Table name (default depends on the store) */
+  table?: string;
+  /** Disable automatic schema initialization */
+  autoInit?: boolean;
+}
+
+export interface PostgresNonceStoreOptions extends PostgresStoreOptions {
+  /** Time-to-live for nonces in milliseconds (default: 5 minutes) */
+  ttlMs?: number;
+}
+
+/** Table names used by {@link migratePostgresStores}. */
+export interface PostgresStoreTables {
+  nullifiers?: string;
+  issuedCredentials?: string;
+  revokedCredentials?: string;
+  nonces?: string;
+  challenges?: string;
+  /** Table that records applied migration versions */
+  migrations?: string;
+}
+
+export interface PostgresMigrationOptions {
+  /** Postgres schema name (default: public) */
+  schema?: string;
+  /** Override default table names */
+  tables?: PostgresStoreTables;
+}
+
+/** A single versioned schema migration for the Postgres stores. */
+export interface PostgresMigration {
+  /** Monotonic migration version */
+  version: number;
+  /** Short human-readable description */
+  description: string;
+  /** SQL statements to apply, in order */
+  statements: string[];
+}
+
+const DEFAULT_TABLES: Required<PostgresStoreTables> = {
+  nullifiers: 'zkid_nullifiers',
+  issuedCredentials: 'zkid_issued_credentials',
+  revokedCredentials: 'zkid_revoked_credentials',
+  nonces: 'zkid_nonces',
+  challenges: 'zkid_challenges',
+  migrations: 'zkid_schema_migrations',
+};
+
+function validateIdentifier(value: string, label: string): string {
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value)) {
+    throw new ZkIdValidationError(`Invalid ${label} identifier: ${value}`, label);
+  }
+  return value;
+}
+
+function normalizeCommitment(commitment: string): string {
+  try {
+    return BigInt(commitment).toString();
+  } catch {
+    throw new ZkIdValidationError('Invalid commitment format', 'commitment');
+  }
+}
+
+function validateNonceString(nonce: string): void {
+  if (typeof nonce !== 'string' || nonce.length === 0 || nonce.length > MAX_NONCE_LENGTH) {
+    throw new ZkIdValidationError(
+      `nonce must be a non-empty string of at most ${MAX_NONCE_LENGTH} characters`,
+      'nonce',
+    );
+  }
+}
+
+function nullifiersTableSql(qualified: string, table: string): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${qualified} (
+      scope_id TEXT NOT NULL,
+      nullifier TEXT NOT NULL,
+      used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (scope_id, nullifier)
+    );`,
+    `CREATE INDEX IF NOT EXISTS ${table}_scope_idx ON ${qualified} (scope_id);`,
+  ];
+}
+
+function commitmentTableSql(qualified: string, timestampColumn: string): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${qualified} (
+      commitment TEXT PRIMARY KEY,
+      ${timestampColumn} TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );`,
+  ];
+}
+
+function noncesTableSql(qualified: string, table: string): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${qualified} (
+      nonce TEXT PRIMARY KEY,
+      expires_at_ms BIGINT NOT NULL
+    );`,
+    `CREATE INDEX IF NOT EXISTS ${table}_expires_idx ON ${qualified} (expires_at_ms);`,
+  ];
+}
+
+function challengesTableSql(qualified: string, table: string): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${qualified} (
+      nonce TEXT PRIMARY KEY,
+      request_timestamp_ms BIGINT NOT NULL,
+      expires_at_ms BIGINT NOT NULL
+    );`,
+    `CREATE INDEX IF NOT EXISTS ${table}_expires_idx ON ${qualified} (expires_at_ms);`,
+  ];
+}
+
+/**
+ * Build the ordered list of schema migrations for all Postgres stores.
+ *
+ * Useful for feeding an external migration tool; {@link migratePostgresStores}
+ * applies the same list directly.
+ */
+export function getPostgresStoreMigrations(
+  options: PostgresMigrationOptions = {},
+): PostgresMigration[] {
+  const schema = validateIdentifier(options.schema ?? 'public', 'schema');
+  const tables = { ...DEFAULT_TABLES, ...options.tables };
+  const q = (key: keyof PostgresStoreTables): string =>
+    `${schema}.${validateIdentifier(tables[key], 'table')}`;
+
+  return [
+    {
+      version: 1,
+      description: 'Create nullifier, issued-credential and revocation tables',
+      statements: [
+        ...nullifiersTableSql(q('nullifiers'), tables.nullifiers),
+        ...commitmentTableSql(q('issuedCredentials'), 'issued_at'),
+        ...commitmentTableSql(q('revokedCredentials'), 'revoked_at'),
+      ],
+    },
+    {
+      version: 2,
+      description: 'Create nonce and challenge tables',
+      statements: [
+        ...noncesTableSql(q('nonces'), tables.nonces),
+        ...challengesTableSql(q('challenges'), tables.challenges),
+      ],
+    },
+  ];
+}
+
+/**
+ * Apply any pending Postgres store migrations.
+ *
+ * Applied versions are recorded in a migrations table so repeated calls are
+ * cheap. Each migration runs in its own transaction.
+ *
+ * @returns The versions applied by this call (empty when already up to date)
+ */
+export async function migratePostgresStores(
+  client: SqlClient,
+  options: PostgresMigrationOptions = {},
+): Promise<number[]> {
+  const schema = validateIdentifier(options.schema ?? 'public', 'schema');
+  const migrationsTable = `${schema}.${validateIdentifier(
+    options.tables?.migrations ?? DEFAULT_TABLES.migrations,
+    'migrations table',
+  )}`;
+
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );`,
+  );
+  const { rows } = await client.query<{ version: number }>(
+    `SELECT version FROM ${migrationsTable};`,
+  );
+  const appliedVersions = new Set(rows.map((r) => Number(r.version)));
+
+  const applied: number[] = [];
+  for (const migration of getPostgresStoreMigrations(options)) {
+    if (appliedVersions.has(migration.version)) {
+      continue;
+    }
+    await client.query('BEGIN');
+    try {
+      for (const statement of migration.statements) {
+        await client.query(statement);
+      }
+      await client.query(
+        `INSERT INTO ${migrationsTable} (version, description) VALUES ($1, $2)
+         ON CONFLICT DO NOTHING;`,
+        [migration.version, migration.description],
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+/**
+ * Base class holding connection, table naming and lazy initialization for
+ * the Postgres stores.
+ */
+abstract class PostgresStoreBase {
+  protected readonly client: SqlClient;
+  protected readonly schema: string;
+  protected readonly table: string;
+  private initPromise?: Promise<void>;
+
+  constructor(client: SqlClient, defaultTable: string, options: PostgresStoreOptions) {
+    this.client = client;
+    this.schema = validateIdentifier(options.schema ?? 'public', 'schema');
+    this.table = validateIdentifier(options.table ?? defaultTable, 'table');
+    if (options.autoInit !== false) {
+      this.initPromise = this.init();
+      // Surface init errors on first use rather than as an unhandled rejection
+      this.initPromise.catch(() => {});
+    }
+  }
+
+  /** SQL statements that create this store's table and indices. */
+  protected abstract schemaStatements(): string[];
+
+  /** Create the backing table if it does not exist. */
+  async init(): Promise<void> {
+    for (const statement of this.schemaStatements()) {
+      await this.client.query(statement);
+    }
+  }
+
+  protected async ensureInit(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.init();
+    }
+    await this.initPromise;
+  }
+
+  protected qualifiedTable(): string {
+    return `${this.schema}.${this.table}`;
+  }
+}
+
+/**
+ * Postgres-backed nullifier store.
+ *
+ * `checkAndMarkUsed` relies on `INSERT ... ON CONFLICT DO NOTHING RETURNING`,
+ * so concurrent verifier replicas can never both accept the same nullifier.
+ */
+export class PostgresNullifierStore extends PostgresStoreBase implements NullifierStore {
+  constructor(client: SqlClient, options: PostgresStoreOptions = {}) {
+    super(client, DEFAULT_TABLES.nullifiers, options);
+  }
+
+  protected schemaStatements(): string[] {
+    return nullifiersTableSql(this.qualifiedTable(), this.table);
+  }
+
+  private validateNullifier(nullifier: string): void {
+    if (typeof nullifier !== 'string' || nullifier.length === 0) {
+      throw new ZkIdValidationError('nullifier must be a non-empty string', 'nullifier');
+    }
+    if (nullifier.length > 512) {
+      throw new ZkIdValidationError('nullifier must be at most 512 characters', 'nullifier');
+    }
+  }
+
+  async hasBeenUsed(nullifier: string, scopeId: string): Promise<boolean> {
+    this.validateNullifier(nullifier);
+    validateScopeId(scopeId);
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ exists: boolean }>(
+      `SELECT EXISTS(
+         SELECT 1 FROM ${this.qualifiedTable()}
+         WHERE scope_id = $1 AND nullifier = $2
+       ) AS exists;`,
+      [scopeId, nullifier],
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  async markUsed(nullifier: string, scopeId: string): Promise<void> {
+    await this.checkAndMarkUsed(nullifier, scopeId);
+  }
+
+  async getUsedCount(scopeId: string): Promise<number> {
+    validateScopeId(scopeId);
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${this.qualifiedTable()} WHERE scope_id = $1;`,
+      [scopeId],
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  async checkAndMarkUsed(nullifier: string, scopeId: string): Promise<boolean> {
+    this.validateNullifier(nullifier);
+    validateScopeId(scopeId);
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ nullifier: string }>(
+      `INSERT INTO ${this.qualifiedTable()} (scope_id, nullifier)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING
+       RETURNING nullifier;`,
+      [scopeId, nullifier],
+    );
+    return rows.length === 1;
+  }
+
+  /**
+   * Retire a scope by deleting all of its nullifiers.
+   *
+   * Only call this once the scope can no longer accept actions; afterwards
+   * every nullifier in the scope is considered fresh again.
+   */
+  async retireScope(scopeId: string): Promise<void> {
+    validateScopeId(scopeId);
+    await this.ensureInit();
+    await this.client.query(`DELETE FROM ${this.qualifiedTable()} WHERE scope_id = $1;`, [scopeId]);
+  }
+}
+
+/**
+ * Postgres-backed append-only index of issued credential commitments.
+ */
+export class PostgresIssuedCredentialIndex
+  extends PostgresStoreBase
+  implements IssuedCredentialIndex
+{
+  constructor(client: SqlClient, options: PostgresStoreOptions = {}) {
+    super(client, DEFAULT_TABLES.issuedCredentials, options);
+  }
+
+  protected schemaStatements(): string[] {
+    return commitmentTableSql(this.qualifiedTable(), 'issued_at');
+  }
+
+  async record(commitment: string): Promise<void> {
+    const normalized = normalizeCommitment(commitment);
+    await this.ensureInit();
+    await this.client.query(
+      `INSERT INTO ${this.qualifiedTable()} (commitment) VALUES ($1) ON CONFLICT DO NOTHING;`,
+      [normalized],
+    );
+  }
+
+  async wasIssued(commitment: string): Promise<boolean> {
+    const normalized = normalizeCommitment(commitment);
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ exists: boolean }>(
+      `SELECT EXISTS(
+         SELECT 1 FROM ${this.qualifiedTable()} WHERE commitment = $1
+       ) AS exists;`,
+      [normalized],
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  async issuedCount(): Promise<number> {
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${this.qualifiedTable()};`,
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+}
+
+/**
+ * Postgres-backed revocation store. Revocations are permanent.
+ */
+export class PostgresRevocationStore extends PostgresStoreBase implements RevocationStore {
+  constructor(client: SqlClient, options: PostgresStoreOptions = {}) {
+    super(client, DEFAULT_TABLES.revokedCredentials, options);
+  }
+
+  protected schemaStatements(): string[] {
+    return commitmentTableSql(this.qualifiedTable(), 'revoked_at');
+  }
+
+  async isRevoked(commitment: string): Promise<boolean> {
+    const normalized = normalizeCommitment(commitment);
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ exists: boolean }>(
+      `SELECT EXISTS(
+         SELECT 1 FROM ${this.qualifiedTable()} WHERE commitment = $1
+       ) AS exists;`,
+      [normalized],
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  async revoke(commitment: string): Promise<void> {
+    const normalized = normalizeCommitment(commitment);
+    await this.ensureInit();
+    await this.client.query(
+      `INSERT INTO ${this.qualifiedTable()} (commitment) VALUES ($1) ON CONFLICT DO NOTHING;`,
+      [normalized],
+    );
+  }
+
+  async getRevokedCount(): Promise<number> {
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${this.qualifiedTable()};`,
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+}
+
+/**
+ * Postgres-backed nonce store for replay protection.
+ *
+ * Expired rows are ignored on read; call {@link prune} periodically to delete them.
+ */
+export class PostgresNonceStore extends PostgresStoreBase implements NonceStore {
+  private readonly ttlMs: number;
+
+  constructor(client: SqlClient, options: PostgresNonceStoreOptions = {}) {
+    if (options.ttlMs !== undefined && (!Number.isInteger(options.ttlMs) || options.ttlMs <= 0)) {
+      throw new ZkIdConfigError('ttlMs must be a positive integer');
+    }
+    super(client, DEFAULT_TABLES.nonces, options);
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+  }
+
+  protected schemaStatements(): string[] {
+    return noncesTableSql(this.qualifiedTable(), this.table);
+  }
+
+  async has(nonce: string): Promise<boolean> {
+    if (typeof nonce !== 'string' || nonce.length === 0 || nonce.length > MAX_NONCE_LENGTH) {
+      return false;
+    }
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ exists: boolean }>(
+      `SELECT EXISTS(
+         SELECT 1 FROM ${this.qualifiedTable()}
+         WHERE nonce = $1 AND expires_at_ms > $2
+       ) AS exists;`,
+      [nonce, Date.now()],
+    );
+    return rows[0]?.exists ?? false;
+  }
+
+  async add(nonce: string): Promise<void> {
+    validateNonceString(nonce);
+    await this.ensureInit();
+    await this.client.query(
+      `INSERT INTO ${this.qualifiedTable()} (nonce, expires_at_ms)
+       VALUES ($1, $2)
+       ON CONFLICT (nonce) DO UPDATE SET expires_at_ms = EXCLUDED.expires_at_ms;`,
+      [nonce, Date.now() + this.ttlMs],
+    );
+  }
+
+  /**
+   * Atomically record a nonce if no unexpired entry exists.
+   *
+   * Unlike a `has()` + `add()` pair this cannot race with a concurrent request.
+   *
+   * @returns true if the nonce was fresh, false if it was already recorded
+   */
+  async addIfAbsent(nonce: string): Promise<boolean> {
+    validateNonceString(nonce);
+    await this.ensureInit();
+    const now = Date.now();
+    await this.client.query(
+      `DELETE FROM ${this.qualifiedTable()} WHERE nonce = $1 AND expires_at_ms <= $2;`,
+      [nonce, now],
+    );
+    const { rows } = await this.client.query<{ nonce: string }>(
+      `INSERT INTO ${this.qualifiedTable()} (nonce, expires_at_ms)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING
+       RETURNING nonce;`,
+      [nonce, now + this.ttlMs],
+    );
+    return rows.length === 1;
+  }
+
+  /**
+   * Delete expired nonces.
+   *
+   * @returns Number of rows deleted
+   */
+  async prune(): Promise<number> {
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ nonce: string }>(
+      `DELETE FROM ${this.qualifiedTable()} WHERE expires_at_ms <= $1 RETURNING nonce;`,
+      [Date.now()],
+    );
+    return rows.length;
+  }
+}
+
+/**
+ * Postgres-backed challenge store.
+ *
+ * `consume` uses `DELETE ... RETURNING` so a challenge can only be consumed once,
+ * even across replicas.
+ */
+export class PostgresChallengeStore extends PostgresStoreBase implements ChallengeStore {
+  constructor(client: SqlClient, options: PostgresStoreOptions = {}) {
+    super(client, DEFAULT_TABLES.challenges, options);
+  }
+
+  protected schemaStatements(): string[] {
+    return challengesTableSql(this.qualifiedTable(), this.table);
+  }
+
+  async issue(nonce: string, requestTimestampMs: number, ttlMs: number): Promise<void> {
+    validateNonceString(nonce);
+    if (!Number.isInteger(requestTimestampMs) || requestTimestampMs <= 0) {
+      throw new ZkIdValidationError(
+        'requestTimestampMs must be a positive integer',
+        'requestTimestampMs',
+      );
+    }
+    if (!Number.isInteger(ttlMs) || ttlMs <= 0) {
+      throw new ZkIdValidationError('ttlMs must be a positive integer', 'ttlMs');
+    }
+    await this.ensureInit();
+    await this.client.query(
+      `INSERT INTO ${this.qualifiedTable()} (nonce, request_timestamp_ms, expires_at_ms)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (nonce) DO UPDATE
+       SET request_timestamp_ms = EXCLUDED.request_timestamp_ms,
+           expires_at_ms = EXCLUDED.expires_at_ms;`,
+      [nonce, requestTimestampMs, Date.now() + ttlMs],
+    );
+  }
+
+  async consume(nonce: string): Promise<number | null> {
+    if (typeof nonce !== 'string' || nonce.length === 0 || nonce.length > MAX_NONCE_LENGTH) {
+      return null;
+    }
+    await this.ensureInit();
+    const { rows } = await this.client.query<{
+      request_timestamp_ms: string | number;
+      expires_at_ms: string | number;
+    }>(
+      `DELETE FROM ${this.qualifiedTable()}
+       WHERE nonce = $1
+       RETURNING request_timestamp_ms, expires_at_ms;`,
+      [nonce],
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    if (Date.now() > Number(rows[0].expires_at_ms)) {
+      return null;
+    }
+    return Number(rows[0].request_timestamp_ms);
+  }
+
+  /**
+   * Delete expired challenges.
+   *
+   * @returns Number of rows deleted
+   */
+  async prune(): Promise<number> {
+    await this.ensureInit();
+    const { rows } = await this.client.query<{ nonce: string }>(
+      `DELETE FROM ${this.qualifiedTable()} WHERE expires_at_ms <= $1 RETURNING nonce;`,
+      [Date.now()],
+    );
+    return rows.length;
+  }
+}
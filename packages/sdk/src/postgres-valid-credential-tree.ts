@@ -1,10 +1,14 @@
 import {
-  poseidonHash,
+  poseidonHashDomain,
+  DOMAIN_MERKLE,
   RevocationWitness,
   RevocationRootInfo,
+  TreeFrontier,
   ValidCredentialTree,
+  WitnessBucket,
   ZkIdConfigError,
   ZkIdValidationError,
+  validateWitnessBucketQuery,
 } from '@zk-id/core';
 
 export interface PostgresValidCredentialTreeOptions {
@@ -38,6 +42,9 @@ const MAX_TREE_DEPTH = 20;
  * - Reuses inactive indices when available.
  * - Maintains in-memory layer cache for O(1) reads and O(depth) writes.
  * - Invalidates cache on external mutations (root version mismatch).
+ * - Hashes nodes with poseidonHashDomain(DOMAIN_MERKLE), like the in-memory
+ *   tree and the Merkle circuits. Trees created before this used plain
+ *   poseidonHash; see "Migrating tree roots" in the README.
  */
 export class PostgresValidCredentialTree implements ValidCredentialTree {
   private client: SqlClient;
@@ -76,7 +83,7 @@ export class PostgresValidCredentialTree implements ValidCredentialTree {
     this.zeroHashes = [0n];
     for (let i = 0; i < this.depth; i++) {
       const prevZero = this.zeroHashes[i];
-      this.zeroHashes.push(await poseidonHash([prevZero, prevZero]));
+      this.zeroHashes.push(await poseidonHashDomain(DOMAIN_MERKLE, [prevZero, prevZero]));
     }
   }
 
@@ -302,6 +309,63 @@ export class PostgresValidCredentialTree implements ValidCredentialTree {
     return { root, pathIndices, siblings };
   }
 
+  async getFrontier(level: number): Promise<TreeFrontier> {
+    this.validateFrontierLevel(level);
+    const info = await this.getRootInfo();
+    if (!this.layers) {
+      throw new ZkIdConfigError('Cache not initialized');
+    }
+
+    return {
+      depth: this.depth,
+      level,
+      root: info.root,
+      version: info.version,
+      updatedAt: info.updatedAt,
+      nodes: this.layers[level].map((node) => node.toString()),
+    };
+  }
+
+  async getWitnessBucket(
+    prefix: number,
+    prefixBits: number,
+    level: number,
+  ): Promise<WitnessBucket> {
+    validateWitnessBucketQuery(prefix, prefixBits);
+    this.validateFrontierLevel(level);
+    await this.ensureInit();
+    await this.ensureCache();
+    if (!this.layers) {
+      throw new ZkIdConfigError('Cache not initialized');
+    }
+
+    const mask = (1n << BigInt(prefixBits)) - 1n;
+    const leaves = this.layers[0];
+    const entries: WitnessBucket['entries'] = [];
+    for (let index = 0; index < leaves.length; index++) {
+      const leaf = leaves[index];
+      if (leaf === 0n || (leaf & mask) !== BigInt(prefix)) {
+        continue;
+      }
+      const siblings: string[] = [];
+      let cursor = index;
+      for (let i = 0; i < level; i++) {
+        siblings.push(this.layers[i][cursor ^ 1].toString());
+        cursor = Math.floor(cursor / 2);
+      }
+      entries.push({ index, commitment: leaf.toString(), siblings });
+    }
+
+    return {
+      prefix,
+      prefixBits,
+      level,
+      root: this.layers[this.depth][0].toString(),
+      version: this.cacheVersion,
+      entries,
+    };
+  }
+
   async size(): Promise<number> {
     await this.ensureInit();
     const { rows } = await this.client.query<{ count: string }>(
@@ -362,7 +426,7 @@ export class PostgresValidCredentialTree implements ValidCredentialTree {
       for (let i = 0; i < prev.length; i += 2) {
         const left = prev[i];
         const right = prev[i + 1];
-        const hash = await poseidonHash([left, right]);
+        const hash = await poseidonHashDomain(DOMAIN_MERKLE, [left, right]);
         next.push(hash);
       }
       this.layers.push(next);
@@ -389,7 +453,7 @@ export class PostgresValidCredentialTree implements ValidCredentialTree {
 
       const left = this.layers[level][leftIndex];
       const right = this.layers[level][rightIndex];
-      const hash = await poseidonHash([left, right]);
+      const hash = await poseidonHashDomain(DOMAIN_MERKLE, [left, right]);
 
       this.layers[level + 1][parent] = hash;
       cursor = parent;
@@ -410,6 +474,12 @@ export class PostgresValidCredentialTree implements ValidCredentialTree {
     );
   }
 
+  private validateFrontierLevel(level: number): void {
+    if (!Number.isInteger(level) || level < 0 || level > this.depth) {
+      throw new ZkIdValidationError(`Frontier level must be between 0 and ${this.depth}`, 'level');
+    }
+  }
+
   private normalizeCommitment(commitment: string): string {
     try {
       return BigInt(commitment).toString();
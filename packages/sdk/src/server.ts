@@ -13,6 +13,9 @@ import {
   AgeProof,
   NationalityProof,
   AgeProofRevocable,
+  NationalityProofRevocable,
+  AgeProofUnlinkable,
+  NationalityProofUnlinkable,
   MultiClaimResponse,
   ClaimVerificationResult,
   MultiClaimVerificationResult,
@@ -22,6 +25,9 @@ import {
   ValidCredentialTree,
   SignedCredential,
   RevocationRootInfo,
+  SignedTreeFrontier,
+  WitnessBucket,
+  DEFAULT_REVOCATION_ROOT_TTL_SECONDS,
   credentialSignaturePayload,
   AgeProofSigned,
   NationalityProofSigned,
@@ -30,9 +36,15 @@ import {
   verifyAgeProof,
   verifyNationalityProof,
   verifyAgeProofRevocable,
+  verifyNationalityProofRevocable,
+  verifyAgeProofUnlinkable,
+  verifyNationalityProofUnlinkable,
   validateProofConstraints,
   validateNationalityProofConstraints,
   validateAgeProofRevocableConstraints,
+  validateNationalityProofRevocableConstraints,
+  validateAgeProofUnlinkableConstraints,
+  validateNationalityProofUnlinkableConstraints,
   PROTOCOL_VERSION,
   isProtocolCompatible,
   AuditLogger,
@@ -47,10 +59,64 @@ import {
   ZkProof,
   BBSProofResponse,
   verifyBBSDisclosureProofFromResponse,
+  NullifierProof,
+  NullifierStore,
+  createNullifierScope,
+  consumeNullifier,
+  computeNullifier,
+  verifyNullifierProof,
+  validateScopeId,
+  RangeProof,
+  RangeFieldName,
+  RANGE_FIELD_SELECTORS,
+  verifyRangeProof,
+  validateRangeProofConstraints,
+  PredicateProof,
+  PredicateSpec,
+  PredicateType,
+  FieldSelector,
+  verifyPredicateProof,
+  validatePredicateProofConstraints,
+  NationalitySet,
+  NationalitySetProof,
+  nationalitySetsEqual,
+  validateNationalitySet,
+  verifyNationalitySetProof,
+  validateNationalitySetProofConstraints,
+  AgeProofFull,
+  verifyAgeProofFullWithIssuer,
+  validateAgeProofFullConstraints,
+  AgeProofSignedExpiring,
+  verifyAgeProofSignedExpiringWithIssuer,
+  validateAgeProofSignedExpiringConstraints,
+  RequestObjectSigningKey,
+  signRequestObject,
+  SD_JWT_VC_TYP,
+  ZK_ID_SD_JWT_VCT,
+  verifySdJwtVc,
+  MDL_DOCTYPE,
+  MDL_NAMESPACE,
+  createOpenID4VPSessionTranscript,
+  verifyDeviceResponse,
+  VerificationPolicy,
+  PolicyClaimFact,
+  PolicyContext,
+  PolicyEvaluationResult,
+  evaluatePolicy,
+  validatePolicy,
 } from '@zk-id/core';
 import { readFileSync } from 'fs';
 import { EventEmitter } from 'events';
 import { KeyObject, randomBytes, verify as cryptoVerify } from 'crypto';
+import {
+  SessionTokenClaim,
+  SessionTokenConfig,
+  SessionTokenIssuer,
+  SessionTokenPayload,
+  SessionTokenVerification,
+  SessionTokenVerifyOptions,
+  nationalitySetHash,
+} from './session-token';
 
 export type ProtocolVersionPolicy = 'strict' | 'warn' | 'off';
 
@@ -65,16 +131,38 @@ export interface ZkIdServerConfig {
   signedVerificationKeyPath?: string;
   /** Optional path to signed nationality verification key file */
   signedNationalityVerificationKeyPath?: string;
+  /** Optional path to expiring signed age (v2 credential) verification key file */
+  signedExpiringVerificationKeyPath?: string;
   /** Optional path to revocable age verification key file */
   revocableVerificationKeyPath?: string;
+  /** Optional path to revocable nationality verification key file */
+  nationalityRevocableVerificationKeyPath?: string;
+  /** Optional path to unlinkable age verification key file */
+  ageUnlinkableVerificationKeyPath?: string;
+  /** Optional path to unlinkable nationality verification key file */
+  nationalityUnlinkableVerificationKeyPath?: string;
+  /** Optional path to nullifier verification key file */
+  nullifierVerificationKeyPath?: string;
+  /** Optional path to full-assurance age verification key file */
+  fullVerificationKeyPath?: string;
+  /** Optional path to range proof verification key file */
+  rangeVerificationKeyPath?: string;
+  /** Optional path to predicate proof verification key file */
+  predicateVerificationKeyPath?: string;
+  /** Optional path to nationality set membership verification key file */
+  nationalitySetVerificationKeyPath?: string;
   /** Optional nonce storage for replay protection */
   nonceStore?: NonceStore;
   /** Optional rate limiter */
   rateLimiter?: RateLimiter;
   /** Optional revocation store for checking revoked credentials */
   revocationStore?: RevocationStore;
-  /** Optional valid credential tree for revocable proofs */
+  /** Optional valid credential tree for revocable proofs (required for unlinkable proofs) */
   validCredentialTree?: ValidCredentialTree;
+  /** Optional nullifier store for one-person-one-action flows (required by verifyNullifierProof) */
+  nullifierStore?: NullifierStore;
+  /** Scope IDs accepted by verifyNullifierProof (e.g., "election-2026"). Proofs for any other scope are rejected. */
+  allowedNullifierScopes?: string[];
   /** Optional challenge store for server-issued nonces */
   challengeStore?: ChallengeStore;
   /** Challenge TTL in ms (default: 5 minutes) */
@@ -89,22 +177,34 @@ export interface ZkIdServerConfig {
   issuerRegistry?: IssuerRegistry;
   /** Require signed credentials (default: true) */
   requireSignedCredentials?: boolean;
+  /**
+   * Require signed proofs to prove credential expiry in-circuit (default: false).
+   * When true, verifySignedProof only accepts 'age-signed-expiring' proofs. There is
+   * no expiring nationality circuit yet, so signed nationality claims are rejected.
+   */
+  requireCredentialExpiry?: boolean;
   /** Enforce a required minimum age (server policy) */
   requiredMinAge?: number;
   /** Enforce a required nationality code (server policy) */
   requiredNationality?: number;
   /** Optional required policy object (preferred over requiredMinAge/requiredNationality) */
   requiredPolicy?: RequiredPolicy;
+  /** Named verifier policies (e.g. one per route) for verifyPolicy, keyed by policy id */
+  policies?: Record<string, VerificationPolicy>;
+  /** Mint a short-lived session token after each successful verification (VerificationResult.sessionToken) */
+  sessionTokens?: SessionTokenConfig;
   /** Maximum age (in past) for request timestamps in ms. Prevents replay of stale proofs. */
   maxRequestAgeMs?: number;
   /** Maximum allowed future timestamp skew in ms (default: 60000 = 1 minute). Allows small clock differences. */
   maxFutureSkewMs?: number;
   /** Protocol version enforcement policy (default: warn) */
   protocolVersionPolicy?: ProtocolVersionPolicy;
-  /** Revocation root TTL in seconds (default: 300). Used in getRevocationRootInfo(). */
+  /** Revocation root TTL in seconds (default: 300). Used in getRevocationRootInfo() for unsigned roots. */
   revocationRootTtlSeconds?: number;
-  /** Source identifier for revocation root metadata (e.g., issuer name or registry URL) */
+  /** Source identifier for unsigned revocation root metadata (e.g., issuer name or registry URL) */
   revocationRootSource?: string;
+  /** Tree level of frontiers and witness buckets served for private witness retrieval (default: 5) */
+  witnessFrontierLevel?: number;
   /** Maximum acceptable root age in ms. If set, verifyProof rejects revocable proofs when the root is stale. */
   maxRevocationRootAgeMs?: number;
   /** Enable strict payload validation before verification (default: true). Checks required fields and types. Set to false to disable validation. */
@@ -120,8 +220,16 @@ export interface VerificationKeySet {
   nationality?: VerificationKey;
   signedAge?: VerificationKey;
   signedNationality?: VerificationKey;
+  signedAgeExpiring?: VerificationKey;
   ageRevocable?: VerificationKey;
+  nationalityRevocable?: VerificationKey;
+  ageUnlinkable?: VerificationKey;
+  nationalityUnlinkable?: VerificationKey;
   nullifier?: VerificationKey;
+  ageFull?: VerificationKey;
+  range?: VerificationKey;
+  predicate?: VerificationKey;
+  nationalitySet?: VerificationKey;
 }
 
 export interface VerificationKeyProvider {
@@ -390,6 +498,12 @@ export class InMemoryIssuerRegistry implements IssuerRegistry {
 export interface RequiredPolicy {
   minAge?: number;
   nationality?: number;
+  /** Attribute and exact bounds a range proof must have been generated for (e.g. birthYear between X and Y) */
+  range?: { fieldName: RangeFieldName; minValue: number; maxValue: number };
+  /** Predicate a predicate proof must match exactly (e.g. nationality != N) */
+  predicate?: PredicateSpec;
+  /** Allow/deny list a nationality set proof must have been generated for (order-insensitive) */
+  nationalitySet?: NationalitySet;
 }
 
 export interface VerificationEvent {
@@ -412,7 +526,31 @@ export interface SignedProofRequest {
   issuer: string;
   nonce: string;
   requestTimestamp: string;
-  proof: AgeProofSigned | NationalityProofSigned;
+  proof: AgeProofSigned | AgeProofSignedExpiring | NationalityProofSigned;
+}
+
+export interface NullifierProofRequest {
+  /** Human-readable scope identifier the proof was generated for */
+  scopeId: string;
+  /** Nullifier proof (public signals: scopeHash, nullifier) */
+  proof: NullifierProof;
+  /**
+   * Credential the nullifier was derived from. Required unless
+   * `requireSignedCredentials` is false. Its commitment is revealed to the
+   * verifier; use verifyFullAgeProof to keep it private.
+   */
+  signedCredential?: SignedCredential;
+}
+
+export interface FullAgeProofRequest {
+  /** Trusted issuer name (looked up in issuerPublicKeyBits) */
+  issuer: string;
+  /** Human-readable scope identifier the nullifier was generated for */
+  scopeId: string;
+  nonce: string;
+  requestTimestamp: string;
+  /** Full-assurance age proof (signature + revocation + nullifier) */
+  proof: AgeProofFull;
 }
 
 export interface ProofChallenge {
@@ -421,7 +559,32 @@ export interface ProofChallenge {
 }
 
 const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
-const DEFAULT_REVOCATION_ROOT_TTL_SECONDS = 300;
+const DEFAULT_WITNESS_FRONTIER_LEVEL = 5;
+
+function predicateMatchesPolicy(actual: PredicateSpec, required: PredicateSpec): boolean {
+  if (
+    actual?.field !== required.field ||
+    actual.type !== required.type ||
+    actual.value !== required.value
+  ) {
+    return false;
+  }
+  return required.type !== PredicateType.RANGE || actual.maxValue === required.maxValue;
+}
+
+function nationalitySetMatchesPolicy(
+  proof: NationalitySetProof,
+  required: NationalitySet,
+): boolean {
+  const { nationalitySet, isDenyList } = proof.publicSignals;
+  if (!Array.isArray(nationalitySet) || (isDenyList !== 0 && isDenyList !== 1)) {
+    return false;
+  }
+  return nationalitySetsEqual(
+    { mode: isDenyList === 1 ? 'deny' : 'allow', codes: nationalitySet },
+    required,
+  );
+}
 
 /**
  * Server SDK for verifying zk-id proofs
@@ -432,7 +595,18 @@ export class ZkIdServer extends EventEmitter {
   private nationalityVerificationKey?: VerificationKey;
   private signedVerificationKey?: VerificationKey;
   private signedNationalityVerificationKey?: VerificationKey;
+  private signedExpiringVerificationKey?: VerificationKey;
   private revocableVerificationKey?: VerificationKey;
+  private nationalityRevocableVerificationKey?: VerificationKey;
+  private ageUnlinkableVerificationKey?: VerificationKey;
+  private nationalityUnlinkableVerificationKey?: VerificationKey;
+  private nullifierVerificationKey?: VerificationKey;
+  private fullVerificationKey?: VerificationKey;
+  private rangeVerificationKey?: VerificationKey;
+  private predicateVerificationKey?: VerificationKey;
+  private nationalitySetVerificationKey?: VerificationKey;
+  private nullifierScopeHashes?: Promise<Map<string, string>>;
+  private sessionTokenIssuer?: SessionTokenIssuer;
   private auditLogger: AuditLogger;
 
   /**
@@ -481,12 +655,76 @@ export class ZkIdServer extends EventEmitter {
       );
     }
 
+    if (config.verificationKeys?.signedAgeExpiring) {
+      this.signedExpiringVerificationKey = config.verificationKeys.signedAgeExpiring;
+    } else if (config.signedExpiringVerificationKeyPath) {
+      this.signedExpiringVerificationKey = this.loadVerificationKey(
+        config.signedExpiringVerificationKeyPath,
+      );
+    }
+
     if (config.verificationKeys?.ageRevocable) {
       this.revocableVerificationKey = config.verificationKeys.ageRevocable;
     } else if (config.revocableVerificationKeyPath) {
       this.revocableVerificationKey = this.loadVerificationKey(config.revocableVerificationKeyPath);
     }
 
+    if (config.verificationKeys?.nationalityRevocable) {
+      this.nationalityRevocableVerificationKey = config.verificationKeys.nationalityRevocable;
+    } else if (config.nationalityRevocableVerificationKeyPath) {
+      this.nationalityRevocableVerificationKey = this.loadVerificationKey(
+        config.nationalityRevocableVerificationKeyPath,
+      );
+    }
+
+    if (config.verificationKeys?.ageUnlinkable) {
+      this.ageUnlinkableVerificationKey = config.verificationKeys.ageUnlinkable;
+    } else if (config.ageUnlinkableVerificationKeyPath) {
+      this.ageUnlinkableVerificationKey = this.loadVerificationKey(
+        config.ageUnlinkableVerificationKeyPath,
+      );
+    }
+
+    if (config.verificationKeys?.nationalityUnlinkable) {
+      this.nationalityUnlinkableVerificationKey = config.verificationKeys.nationalityUnlinkable;
+    } else if (config.nationalityUnlinkableVerificationKeyPath) {
+      this.nationalityUnlinkableVerificationKey = this.loadVerificationKey(
+        config.nationalityUnlinkableVerificationKeyPath,
+      );
+    }
+
+    if (config.verificationKeys?.nullifier) {
+      this.nullifierVerificationKey = config.verificationKeys.nullifier;
+    } else if (config.nullifierVerificationKeyPath) {
+      this.nullifierVerificationKey = this.loadVerificationKey(config.nullifierVerificationKeyPath);
+    }
+
+    if (config.verificationKeys?.ageFull) {
+      this.fullVerificationKey = config.verificationKeys.ageFull;
+    } else if (config.fullVerificationKeyPath) {
+      this.fullVerificationKey = this.loadVerificationKey(config.fullVerificationKeyPath);
+    }
+
+    if (config.verificationKeys?.range) {
+      this.rangeVerificationKey = config.verificationKeys.range;
+    } else if (config.rangeVerificationKeyPath) {
+      this.rangeVerificationKey = this.loadVerificationKey(config.rangeVerificationKeyPath);
+    }
+
+    if (config.verificationKeys?.predicate) {
+      this.predicateVerificationKey = config.verificationKeys.predicate;
+    } else if (config.predicateVerificationKeyPath) {
+      this.predicateVerificationKey = this.loadVerificationKey(config.predicateVerificationKeyPath);
+    }
+
+    if (config.verificationKeys?.nationalitySet) {
+      this.nationalitySetVerificationKey = config.verificationKeys.nationalitySet;
+    } else if (config.nationalitySetVerificationKeyPath) {
+      this.nationalitySetVerificationKey = this.loadVerificationKey(
+        config.nationalitySetVerificationKeyPath,
+      );
+    }
+
     if (config.verboseErrors && process.env.NODE_ENV === 'production') {
       console.warn(
         '[zk-id] verboseErrors is enabled in production. ' +
@@ -508,6 +746,51 @@ export class ZkIdServer extends EventEmitter {
     if (config.requiredPolicy?.nationality !== undefined) {
       validateNationality(config.requiredPolicy.nationality);
     }
+    if (config.requiredPolicy?.range !== undefined) {
+      const { fieldName, minValue, maxValue } = config.requiredPolicy.range;
+      if (!Object.prototype.hasOwnProperty.call(RANGE_FIELD_SELECTORS, fieldName)) {
+        throw new ZkIdConfigError(
+          "requiredPolicy.range.fieldName must be 'birthYear' or 'nationality'",
+        );
+      }
+      if (
+        !Number.isSafeInteger(minValue) ||
+        !Number.isSafeInteger(maxValue) ||
+        minValue < 0 ||
+        minValue > maxValue
+      ) {
+        throw new ZkIdConfigError(
+          'requiredPolicy.range must have integer bounds with 0 <= minValue <= maxValue',
+        );
+      }
+    }
+    if (config.requiredPolicy?.predicate !== undefined) {
+      const predicate = config.requiredPolicy.predicate;
+      if (
+        !Object.values(FieldSelector).includes(predicate.field) ||
+        !Object.values(PredicateType).includes(predicate.type)
+      ) {
+        throw new ZkIdConfigError('requiredPolicy.predicate has an unknown field or type');
+      }
+      if (
+        predicate.type === PredicateType.RANGE &&
+        (predicate.maxValue === undefined || predicate.maxValue < predicate.value)
+      ) {
+        throw new ZkIdConfigError('requiredPolicy.predicate RANGE requires maxValue >= value');
+      }
+    }
+    if (config.requiredPolicy?.nationalitySet !== undefined) {
+      validateNationalitySet(config.requiredPolicy.nationalitySet);
+    }
+    for (const [id, policy] of Object.entries(config.policies ?? {})) {
+      validatePolicy(policy);
+      if (policy.id !== id) {
+        throw new ZkIdConfigError(`policies.${id} has mismatched id ${policy.id}`);
+      }
+    }
+    if (config.sessionTokens) {
+      this.sessionTokenIssuer = new SessionTokenIssuer(config.sessionTokens);
+    }
     if (config.maxRequestAgeMs !== undefined) {
       validatePositiveInt(config.maxRequestAgeMs, 'maxRequestAgeMs');
     }
@@ -523,6 +806,11 @@ export class ZkIdServer extends EventEmitter {
     if (config.maxRevocationRootAgeMs !== undefined) {
       validatePositiveInt(config.maxRevocationRootAgeMs, 'maxRevocationRootAgeMs');
     }
+    if (config.allowedNullifierScopes !== undefined) {
+      for (const scopeId of config.allowedNullifierScopes) {
+        validateScopeId(scopeId);
+      }
+    }
   }
 
   /**
@@ -611,7 +899,10 @@ export class ZkIdServer extends EventEmitter {
     clientProtocolVersion?: string,
   ): Promise<VerificationResult> {
     const startTime = Date.now();
-    const requireSigned = this.config.requireSignedCredentials !== false;
+    // Unlinkable proofs never carry a signed credential: its commitment would link presentations.
+    // Tree membership proven in-circuit attests the issuer instead.
+    const unlinkable = isUnlinkableClaimType(proofResponse?.claimType);
+    const requireSigned = this.config.requireSignedCredentials !== false && !unlinkable;
 
     // Strict payload validation (enabled by default)
     if (this.config.validatePayloads !== false) {
@@ -665,6 +956,20 @@ export class ZkIdServer extends EventEmitter {
       return protocolResult;
     }
 
+    if (unlinkable && (proofResponse.signedCredential || proofResponse.credentialId)) {
+      const internalError =
+        'Unlinkable proofs must not include a signed credential or credential ID';
+      const result = { verified: false, error: this.sanitizeError(internalError) };
+      this.emitVerificationEvent(
+        proofResponse.claimType,
+        result,
+        startTime,
+        clientIdentifier,
+        internalError,
+      );
+      return result;
+    }
+
     // Signed credential validation (issuer trust + binding)
     if (requireSigned) {
       const signedCredential = proofResponse.signedCredential;
@@ -746,10 +1051,13 @@ export class ZkIdServer extends EventEmitter {
         }
       }
     }
-    if (proofResponse.claimType === 'age-revocable') {
+    if (
+      proofResponse.claimType === 'age-revocable' ||
+      proofResponse.claimType === 'age-unlinkable'
+    ) {
       const requiredMinAge = requiredPolicy?.minAge ?? this.config.requiredMinAge;
       if (requiredMinAge !== undefined) {
-        const proof = proofResponse.proof as AgeProofRevocable;
+        const proof = proofResponse.proof as AgeProofRevocable | AgeProofUnlinkable;
         if (proof.publicSignals.minAge !== requiredMinAge) {
           const internalError = 'Proof does not satisfy required minimum age';
           const result = {
@@ -767,10 +1075,15 @@ export class ZkIdServer extends EventEmitter {
         }
       }
     }
-    if (proofResponse.claimType === 'nationality') {
+    if (
+      proofResponse.claimType === 'nationality' ||
+      proofResponse.claimType === 'nationality-revocable' ||
+      proofResponse.claimType === 'nationality-unlinkable'
+    ) {
       const requiredNationality = requiredPolicy?.nationality ?? this.config.requiredNationality;
       if (requiredNationality !== undefined) {
-        const proof = proofResponse.proof as NationalityProof;
+        const proof = proofResponse.proof as
+          NationalityProof | NationalityProofRevocable | NationalityProofUnlinkable;
         if (proof.publicSignals.targetNationality !== requiredNationality) {
           const internalError = 'Proof does not satisfy required nationality';
           const result = {
@@ -788,6 +1101,64 @@ export class ZkIdServer extends EventEmitter {
         }
       }
     }
+    if (proofResponse.claimType === 'range' && requiredPolicy?.range) {
+      const proof = proofResponse.proof as RangeProof;
+      if (
+        proof.fieldName !== requiredPolicy.range.fieldName ||
+        proof.publicSignals[1] !== String(requiredPolicy.range.minValue) ||
+        proof.publicSignals[2] !== String(requiredPolicy.range.maxValue)
+      ) {
+        const internalError = 'Proof does not satisfy required range';
+        const result = {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        };
+        this.emitVerificationEvent(
+          proofResponse.claimType,
+          result,
+          startTime,
+          clientIdentifier,
+          internalError,
+        );
+        return result;
+      }
+    }
+    if (proofResponse.claimType === 'predicate' && requiredPolicy?.predicate) {
+      const proof = proofResponse.proof as PredicateProof;
+      if (!predicateMatchesPolicy(proof.predicate, requiredPolicy.predicate)) {
+        const internalError = 'Proof does not satisfy required predicate';
+        const result = {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        };
+        this.emitVerificationEvent(
+          proofResponse.claimType,
+          result,
+          startTime,
+          clientIdentifier,
+          internalError,
+        );
+        return result;
+      }
+    }
+    if (proofResponse.claimType === 'nationality-set' && requiredPolicy?.nationalitySet) {
+      const proof = proofResponse.proof as NationalitySetProof;
+      if (!nationalitySetMatchesPolicy(proof, requiredPolicy.nationalitySet)) {
+        const internalError = 'Proof does not satisfy required nationality set';
+        const result = {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        };
+        this.emitVerificationEvent(
+          proofResponse.claimType,
+          result,
+          startTime,
+          clientIdentifier,
+          internalError,
+        );
+        return result;
+      }
+    }
 
     // Request timestamp freshness check (optional)
     const requestTimestamp = proofResponse.requestTimestamp;
@@ -932,8 +1303,9 @@ export class ZkIdServer extends EventEmitter {
       }
     }
 
-    // Revocation check (use credential commitment)
-    if (this.config.revocationStore) {
+    // Revocation check (use credential commitment). Unlinkable proofs hide the commitment;
+    // revoked credentials are removed from the valid credential tree instead.
+    if (this.config.revocationStore && !unlinkable) {
       const commitment = this.getCredentialCommitmentFromProof(proofResponse);
       const isRevoked = await this.config.revocationStore.isRevoked(commitment);
       if (isRevoked) {
@@ -968,6 +1340,30 @@ export class ZkIdServer extends EventEmitter {
       const verification = await this.verifyAgeProofRevocableInternal(proofResponse);
       result = verification.result;
       internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'nationality-revocable') {
+      const verification = await this.verifyNationalityProofRevocableInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'age-unlinkable') {
+      const verification = await this.verifyAgeProofUnlinkableInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'nationality-unlinkable') {
+      const verification = await this.verifyNationalityProofUnlinkableInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'range') {
+      const verification = await this.verifyRangeProofInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'predicate') {
+      const verification = await this.verifyPredicateProofInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
+    } else if (proofResponse.claimType === 'nationality-set') {
+      const verification = await this.verifyNationalitySetProofInternal(proofResponse);
+      result = verification.result;
+      internalError = verification.internalError;
     } else {
       internalError = 'Unknown claim type';
       result = {
@@ -976,6 +1372,10 @@ export class ZkIdServer extends EventEmitter {
       };
     }
 
+    await this.attachSessionToken(result, {
+      claims: [this.getSessionTokenClaim(result)],
+      credentialIssuer: requireSigned ? proofResponse.signedCredential?.issuer : undefined,
+    });
     this.emitVerificationEvent(
       proofResponse.claimType,
       result,
@@ -1242,10 +1642,63 @@ export class ZkIdServer extends EventEmitter {
       }
     }
 
+    // In-circuit expiry (v2 credentials). Only age has an expiring circuit, so this
+    // also rejects every signed nationality proof.
+    const isExpiring = request.proof.proofType === 'age-signed-expiring';
+    if (this.config.requireCredentialExpiry && !isExpiring) {
+      const internalError = 'Credential expiry proof required';
+      const result = { verified: false, error: this.sanitizeError(internalError) };
+      this.emitVerificationEvent(
+        request.claimType,
+        result,
+        startTime,
+        clientIdentifier,
+        internalError,
+      );
+      return result;
+    }
+    if (isExpiring) {
+      const errors =
+        request.claimType === 'age'
+          ? validateAgeProofSignedExpiringConstraints(request.proof as AgeProofSignedExpiring)
+              .errors
+          : ['Expiring proofs are only supported for age claims'];
+      if (errors.length > 0) {
+        const internalError = `Invalid proof constraints: ${errors.join(', ')}`;
+        const result = { verified: false, error: this.sanitizeError(internalError) };
+        this.emitVerificationEvent(
+          request.claimType,
+          result,
+          startTime,
+          clientIdentifier,
+          internalError,
+        );
+        return result;
+      }
+    }
+
     let verified = false;
     let internalError: string | undefined;
     try {
-      if (request.claimType === 'age') {
+      if (isExpiring) {
+        if (!this.signedExpiringVerificationKey) {
+          internalError = 'Expiring signed age verification key not configured';
+          const result = { verified: false, error: this.sanitizeError(internalError) };
+          this.emitVerificationEvent(
+            request.claimType,
+            result,
+            startTime,
+            clientIdentifier,
+            internalError,
+          );
+          return result;
+        }
+        verified = await verifyAgeProofSignedExpiringWithIssuer(
+          request.proof as AgeProofSignedExpiring,
+          this.signedExpiringVerificationKey,
+          trustedBits,
+        );
+      } else if (request.claimType === 'age') {
         if (!this.signedVerificationKey) {
           internalError = 'Signed age verification key not configured';
           const result = { verified: false, error: this.sanitizeError(internalError) };
@@ -1299,7 +1752,7 @@ export class ZkIdServer extends EventEmitter {
       await this.config.nonceStore.add(request.nonce);
     }
 
-    const result = verified
+    const result: VerificationResult = verified
       ? {
           verified: true,
           claimType: request.claimType,
@@ -1316,6 +1769,10 @@ export class ZkIdServer extends EventEmitter {
       : ((internalError = 'Proof verification failed'),
         { verified: false, error: this.sanitizeError(internalError) });
 
+    await this.attachSessionToken(result, {
+      claims: [this.getSessionTokenClaim(result)],
+      credentialIssuer: request.issuer,
+    });
     this.emitVerificationEvent(
       request.claimType,
       result,
@@ -1477,49 +1934,41 @@ export class ZkIdServer extends EventEmitter {
   }
 
   /**
-   * Verify a multi-claim proof bundle with a shared nonce + timestamp.
+   * Verify a nullifier proof for a one-person-one-action flow.
    *
-   * @param response - Multi-claim proof response
+   * The proof's scope hash must match one of the configured
+   * `allowedNullifierScopes`. After cryptographic verification the nullifier is
+   * consumed atomically via the configured `nullifierStore`, so a second proof
+   * from the same credential in the same scope is rejected. The nullifier
+   * circuit has no nonce input; consuming the nullifier is what prevents replay.
+   *
+   * Unless `requireSignedCredentials` is false, the request must carry the
+   * signed credential the nullifier was derived from, so fresh self-made
+   * commitments cannot mint extra nullifiers. Its issuer, signature, expiry
+   * and revocation status are checked like in verifyProof.
+   *
+   * @param request - The scope ID and nullifier proof from the client
    * @param clientIdentifier - Optional client IP/session for rate limiting
-   * @param clientProtocolVersion - Optional client protocol version for compatibility checking
-   * @returns Multi-claim verification result
+   * @returns Verification result including the consumed nullifier on success
    */
-  async verifyMultiClaim(
-    response: MultiClaimResponse,
+  async verifyNullifierProof(
+    request: NullifierProofRequest,
     clientIdentifier?: string,
-    clientProtocolVersion?: string,
-  ): Promise<MultiClaimVerificationResult> {
+  ): Promise<VerificationResult> {
     const startTime = Date.now();
-    const requireSigned = this.config.requireSignedCredentials !== false;
-    type LooseClaimProof = { label?: string; claimType?: string; proof?: unknown };
-    const responseProofs = (response as { proofs?: unknown }).proofs;
-    const safeProofs: LooseClaimProof[] = Array.isArray(responseProofs)
-      ? (responseProofs as LooseClaimProof[])
-      : [];
-
-    const failAll = (internalError: string): MultiClaimVerificationResult => {
-      const error = this.sanitizeError(internalError);
-      const results: ClaimVerificationResult[] = safeProofs.map((proof) => {
-        const claimType = typeof proof?.claimType === 'string' ? proof.claimType : 'unknown';
-        const label = typeof proof?.label === 'string' ? proof.label : 'unknown';
-        const result: VerificationResult = { verified: false, error };
-        this.emitVerificationEvent(claimType, result, startTime, clientIdentifier, internalError);
-        return { label, verified: false, error };
+    const fail = (internalError: string): VerificationResult => {
+      const result = { verified: false, error: this.sanitizeError(internalError) };
+      this.emitVerificationEvent('nullifier', result, startTime, clientIdentifier, internalError, {
+        scopeId: typeof request?.scopeId === 'string' ? request.scopeId : undefined,
       });
-
-      if (results.length === 0) {
-        return { results: [], allVerified: false, verifiedCount: 0, totalCount: 0 };
-      }
-
-      return aggregateVerificationResults(results);
+      return result;
     };
 
-    // Strict payload validation (enabled by default)
     if (this.config.validatePayloads !== false) {
-      const payloadErrors = validateMultiClaimResponsePayload(response, requireSigned);
+      const payloadErrors = validateNullifierProofRequestPayload(request);
       if (payloadErrors.length > 0) {
         const msg = payloadErrors.map((e) => `${e.field}: ${e.message}`).join('; ');
-        return failAll(`Invalid payload: ${msg}`);
+        return fail(`Invalid payload: ${msg}`);
       }
     }
 
@@ -1527,50 +1976,373 @@ export class ZkIdServer extends EventEmitter {
     if (this.config.rateLimiter && clientIdentifier) {
       const allowed = await this.config.rateLimiter.allowRequest(clientIdentifier);
       if (!allowed) {
-        return failAll('Rate limit exceeded');
+        return fail('Rate limit exceeded');
       }
     }
 
-    // Protocol version enforcement (no per-proof event emission here)
-    const protocolResult = this.checkProtocolVersion(
-      clientProtocolVersion,
-      'multi-claim',
-      startTime,
-      clientIdentifier,
-      false,
-    );
-    if (protocolResult) {
-      return failAll(protocolResult.error ?? 'Incompatible protocol version');
+    // Scope enforcement: the scope must be configured and the proof must be bound to it
+    const scopeHashes = await this.getNullifierScopeHashes();
+    const expectedScopeHash = scopeHashes.get(request.scopeId);
+    if (!expectedScopeHash) {
+      return fail(`Nullifier scope not allowed: ${request.scopeId}`);
+    }
+    if (!constantTimeEqual(request.proof.publicSignals.scopeHash, expectedScopeHash)) {
+      return fail('Proof scope hash does not match requested scope');
     }
 
-    // Request timestamp validation
-    const requestTimestamp = response.requestTimestamp;
-    if (!requestTimestamp) {
-      return failAll('Missing request timestamp');
+    if (!this.nullifierVerificationKey) {
+      return fail('Nullifier verification key not configured');
     }
-    const requestMs = Date.parse(requestTimestamp);
-    if (Number.isNaN(requestMs)) {
-      return failAll('Invalid request timestamp');
+    if (!this.config.nullifierStore) {
+      return fail('Nullifier store not configured');
     }
 
-    // Check for future timestamps (time-shifted proofs)
-    const maxFutureSkew = this.config.maxFutureSkewMs ?? 60000;
-    const timeDiffMs = requestMs - Date.now();
-    if (timeDiffMs > maxFutureSkew) {
-      return failAll('Request timestamp is too far in the future');
+    if (this.config.requireSignedCredentials !== false) {
+      const signedCredential = request.signedCredential;
+      if (!signedCredential) {
+        return fail('Signed credential required');
+      }
+      const issued = await this.validateIssuedCredential(signedCredential);
+      if (!issued.valid) {
+        return fail(issued.error!);
+      }
+      const { nullifier: expectedNullifier } = await computeNullifier(
+        signedCredential.credential.commitment,
+        { id: request.scopeId, scopeHash: expectedScopeHash },
+      );
+      if (!constantTimeEqual(request.proof.publicSignals.nullifier, expectedNullifier)) {
+        return fail('Nullifier does not match the signed credential');
+      }
+      if (signedCredential.expiresAt) {
+        const clockSkewMs = this.config.maxFutureSkewMs ?? 60000;
+        if (Date.now() > Date.parse(signedCredential.expiresAt) + clockSkewMs) {
+          return fail(`Credential expired at ${signedCredential.expiresAt}`);
+        }
+      }
+      if (
+        this.config.revocationStore &&
+        (await this.config.revocationStore.isRevoked(signedCredential.credential.commitment))
+      ) {
+        return fail('Credential has been revoked');
+      }
     }
 
-    // Check for stale timestamps (replay protection)
-    if (this.config.maxRequestAgeMs !== undefined) {
-      const ageMs = Date.now() - requestMs;
-      if (ageMs > this.config.maxRequestAgeMs) {
-        return failAll('Request timestamp is too old');
+    try {
+      const isValid = await verifyNullifierProof(request.proof, this.nullifierVerificationKey);
+      if (!isValid) {
+        return fail('Proof verification failed');
       }
+    } catch (error) {
+      return fail(`Verification error: ${error}`);
     }
 
-    const challengeError = await this.validateChallenge(response.nonce, requestMs);
-    if (challengeError) {
-      return failAll(challengeError);
+    // Consume only after the proof verified, so invalid proofs cannot burn nullifiers
+    const nullifier = request.proof.publicSignals.nullifier;
+    const consumption = await consumeNullifier(
+      nullifier,
+      request.scopeId,
+      this.config.nullifierStore,
+    );
+    if (!consumption.fresh) {
+      return fail(consumption.error ?? 'Nullifier already used in this scope');
+    }
+
+    const result: VerificationResult = {
+      verified: true,
+      claimType: 'nullifier',
+      nullifier,
+      scopeId: request.scopeId,
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    this.emitVerificationEvent('nullifier', result, startTime, clientIdentifier, undefined, {
+      scopeId: request.scopeId,
+    });
+    return result;
+  }
+
+  /**
+   * Verify a full-assurance age proof: issuer signature, non-revocation, age
+   * threshold and a scoped nullifier proven together in one circuit.
+   *
+   * Combines the checks of verifySignedProof (trusted issuer key, nonce and
+   * timestamp binding, challenge, minimum age policy), the revocable path
+   * (root staleness, expected valid-credential root) and verifyNullifierProof
+   * (allowed scope, nullifier consumed after verification). The proof carries
+   * no credential hash, so `revocationStore` is not consulted; revocation is
+   * enforced through the Merkle root.
+   *
+   * @param request - The issuer, scope, challenge and proof from the client
+   * @param clientIdentifier - Optional client IP/session for rate limiting
+   * @param clientProtocolVersion - Optional client protocol version for compatibility checking
+   * @returns Verification result including the consumed nullifier on success
+   */
+  async verifyAgeProofFull(
+    request: FullAgeProofRequest,
+    clientIdentifier?: string,
+    clientProtocolVersion?: string,
+  ): Promise<VerificationResult> {
+    const startTime = Date.now();
+    const fail = (internalError: string): VerificationResult => {
+      const result = { verified: false, error: this.sanitizeError(internalError) };
+      this.emitVerificationEvent('age-full', result, startTime, clientIdentifier, internalError, {
+        scopeId: typeof request?.scopeId === 'string' ? request.scopeId : undefined,
+      });
+      return result;
+    };
+
+    if (this.config.validatePayloads !== false) {
+      const payloadErrors = validateFullAgeProofRequestPayload(request);
+      if (payloadErrors.length > 0) {
+        const msg = payloadErrors.map((e) => `${e.field}: ${e.message}`).join('; ');
+        return fail(`Invalid payload: ${msg}`);
+      }
+    }
+
+    // Rate limiting
+    if (this.config.rateLimiter && clientIdentifier) {
+      const allowed = await this.config.rateLimiter.allowRequest(clientIdentifier);
+      if (!allowed) {
+        return fail('Rate limit exceeded');
+      }
+    }
+
+    // Protocol version enforcement
+    const protocolResult = this.checkProtocolVersion(
+      clientProtocolVersion,
+      'age-full',
+      startTime,
+      clientIdentifier,
+    );
+    if (protocolResult) {
+      return protocolResult;
+    }
+
+    // Validate timestamp freshness
+    const requestMs = Date.parse(request.requestTimestamp);
+    if (Number.isNaN(requestMs)) {
+      return fail('Invalid request timestamp');
+    }
+    const maxFutureSkew = this.config.maxFutureSkewMs ?? 60000;
+    if (requestMs - Date.now() > maxFutureSkew) {
+      return fail('Request timestamp is too far in the future');
+    }
+    if (
+      this.config.maxRequestAgeMs !== undefined &&
+      Date.now() - requestMs > this.config.maxRequestAgeMs
+    ) {
+      return fail('Request timestamp is too old');
+    }
+
+    const challengeError = await this.validateChallenge(request.nonce, requestMs);
+    if (challengeError) {
+      return fail(challengeError);
+    }
+
+    // Replay protection
+    if (this.config.nonceStore && (await this.config.nonceStore.has(request.nonce))) {
+      return fail('Nonce already used (replay attack detected)');
+    }
+
+    const trustedBits = this.config.issuerPublicKeyBits?.[request.issuer];
+    if (!trustedBits) {
+      return fail('Unknown or untrusted issuer');
+    }
+
+    // Bind nonce and timestamp to proof public signals
+    const signals = request.proof.publicSignals;
+    if (!constantTimeEqual(signals.nonce, request.nonce)) {
+      return fail('Proof nonce does not match request nonce');
+    }
+    if (signals.requestTimestamp !== requestMs) {
+      return fail('Proof timestamp does not match request timestamp');
+    }
+
+    // Policy enforcement
+    const requiredMinAge = this.config.requiredPolicy?.minAge ?? this.config.requiredMinAge;
+    if (requiredMinAge !== undefined && signals.minAge !== requiredMinAge) {
+      return fail('Proof does not satisfy required minimum age');
+    }
+
+    // Scope enforcement: the scope must be configured and the proof must be bound to it
+    const scopeHashes = await this.getNullifierScopeHashes();
+    const expectedScopeHash = scopeHashes.get(request.scopeId);
+    if (!expectedScopeHash) {
+      return fail(`Nullifier scope not allowed: ${request.scopeId}`);
+    }
+    if (!constantTimeEqual(signals.scopeHash, expectedScopeHash)) {
+      return fail('Proof scope hash does not match requested scope');
+    }
+
+    if (!this.fullVerificationKey) {
+      return fail('Full-assurance age verification key not configured');
+    }
+    if (!this.config.nullifierStore) {
+      return fail('Nullifier store not configured');
+    }
+
+    if (await this.isRevocationRootStale()) {
+      return fail('Revocation root is stale');
+    }
+
+    const constraintCheck = validateAgeProofFullConstraints(request.proof);
+    if (!constraintCheck.valid) {
+      return fail(`Invalid proof constraints: ${constraintCheck.errors.join(', ')}`);
+    }
+
+    const expectedRoot = this.config.validCredentialTree
+      ? await this.config.validCredentialTree.getRoot()
+      : undefined;
+
+    try {
+      const isValid = await verifyAgeProofFullWithIssuer(
+        request.proof,
+        this.fullVerificationKey,
+        trustedBits,
+        expectedRoot,
+      );
+      if (!isValid) {
+        return fail('Proof verification failed');
+      }
+    } catch (error) {
+      return fail(`Verification error: ${error}`);
+    }
+
+    // Consume only after the proof verified, so invalid proofs cannot burn nullifiers
+    const consumption = await consumeNullifier(
+      signals.nullifier,
+      request.scopeId,
+      this.config.nullifierStore,
+    );
+    if (!consumption.fresh) {
+      return fail(consumption.error ?? 'Nullifier already used in this scope');
+    }
+
+    if (this.config.nonceStore) {
+      await this.config.nonceStore.add(request.nonce);
+    }
+
+    const result: VerificationResult = {
+      verified: true,
+      claimType: 'age-full',
+      minAge: signals.minAge,
+      nullifier: signals.nullifier,
+      scopeId: request.scopeId,
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    this.emitVerificationEvent('age-full', result, startTime, clientIdentifier, undefined, {
+      scopeId: request.scopeId,
+    });
+    return result;
+  }
+
+  /**
+   * Lazily hash the configured nullifier scopes (Poseidon is async).
+   */
+  private getNullifierScopeHashes(): Promise<Map<string, string>> {
+    if (!this.nullifierScopeHashes) {
+      const scopeIds = this.config.allowedNullifierScopes ?? [];
+      this.nullifierScopeHashes = Promise.all(scopeIds.map((id) => createNullifierScope(id))).then(
+        (scopes) => new Map(scopes.map((scope) => [scope.id, scope.scopeHash])),
+      );
+    }
+    return this.nullifierScopeHashes;
+  }
+
+  /**
+   * Verify a multi-claim proof bundle with a shared nonce + timestamp.
+   *
+   * @param response - Multi-claim proof response
+   * @param clientIdentifier - Optional client IP/session for rate limiting
+   * @param clientProtocolVersion - Optional client protocol version for compatibility checking
+   * @returns Multi-claim verification result
+   */
+  async verifyMultiClaim(
+    response: MultiClaimResponse,
+    clientIdentifier?: string,
+    clientProtocolVersion?: string,
+  ): Promise<MultiClaimVerificationResult> {
+    const startTime = Date.now();
+    const requireSigned = this.config.requireSignedCredentials !== false;
+    type LooseClaimProof = { label?: string; claimType?: string; proof?: unknown };
+    const responseProofs = (response as { proofs?: unknown }).proofs;
+    const safeProofs: LooseClaimProof[] = Array.isArray(responseProofs)
+      ? (responseProofs as LooseClaimProof[])
+      : [];
+
+    const failAll = (internalError: string): MultiClaimVerificationResult => {
+      const error = this.sanitizeError(internalError);
+      const results: ClaimVerificationResult[] = safeProofs.map((proof) => {
+        const claimType = typeof proof?.claimType === 'string' ? proof.claimType : 'unknown';
+        const label = typeof proof?.label === 'string' ? proof.label : 'unknown';
+        const result: VerificationResult = { verified: false, error };
+        this.emitVerificationEvent(claimType, result, startTime, clientIdentifier, internalError);
+        return { label, verified: false, error };
+      });
+
+      if (results.length === 0) {
+        return { results: [], allVerified: false, verifiedCount: 0, totalCount: 0 };
+      }
+
+      return aggregateVerificationResults(results);
+    };
+
+    // Strict payload validation (enabled by default)
+    if (this.config.validatePayloads !== false) {
+      const payloadErrors = validateMultiClaimResponsePayload(response, requireSigned);
+      if (payloadErrors.length > 0) {
+        const msg = payloadErrors.map((e) => `${e.field}: ${e.message}`).join('; ');
+        return failAll(`Invalid payload: ${msg}`);
+      }
+    }
+
+    // Rate limiting
+    if (this.config.rateLimiter && clientIdentifier) {
+      const allowed = await this.config.rateLimiter.allowRequest(clientIdentifier);
+      if (!allowed) {
+        return failAll('Rate limit exceeded');
+      }
+    }
+
+    // Protocol version enforcement (no per-proof event emission here)
+    const protocolResult = this.checkProtocolVersion(
+      clientProtocolVersion,
+      'multi-claim',
+      startTime,
+      clientIdentifier,
+      false,
+    );
+    if (protocolResult) {
+      return failAll(protocolResult.error ?? 'Incompatible protocol version');
+    }
+
+    // Request timestamp validation
+    const requestTimestamp = response.requestTimestamp;
+    if (!requestTimestamp) {
+      return failAll('Missing request timestamp');
+    }
+    const requestMs = Date.parse(requestTimestamp);
+    if (Number.isNaN(requestMs)) {
+      return failAll('Invalid request timestamp');
+    }
+
+    // Check for future timestamps (time-shifted proofs)
+    const maxFutureSkew = this.config.maxFutureSkewMs ?? 60000;
+    const timeDiffMs = requestMs - Date.now();
+    if (timeDiffMs > maxFutureSkew) {
+      return failAll('Request timestamp is too far in the future');
+    }
+
+    // Check for stale timestamps (replay protection)
+    if (this.config.maxRequestAgeMs !== undefined) {
+      const ageMs = Date.now() - requestMs;
+      if (ageMs > this.config.maxRequestAgeMs) {
+        return failAll('Request timestamp is too old');
+      }
+    }
+
+    const challengeError = await this.validateChallenge(response.nonce, requestMs);
+    if (challengeError) {
+      return failAll(challengeError);
     }
 
     // Replay protection
@@ -1599,13 +2371,26 @@ export class ZkIdServer extends EventEmitter {
       const proofResponse: ProofResponse = {
         credentialId: response.credentialId,
         claimType,
-        proof: claim.proof as AgeProof | NationalityProof | AgeProofRevocable,
+        proof: claim.proof as
+          | AgeProof
+          | NationalityProof
+          | AgeProofRevocable
+          | NationalityProofRevocable
+          | NationalitySetProof,
         signedCredential: response.signedCredential,
         nonce: response.nonce,
         requestTimestamp: response.requestTimestamp,
       };
 
-      if (!['age', 'nationality', 'age-revocable'].includes(claimType)) {
+      if (
+        ![
+          'age',
+          'nationality',
+          'age-revocable',
+          'nationality-revocable',
+          'nationality-set',
+        ].includes(claimType)
+      ) {
         internalError = 'Unknown claim type';
       } else if (!claim.proof || typeof claim.proof !== 'object') {
         internalError = 'Invalid proof payload';
@@ -1637,16 +2422,22 @@ export class ZkIdServer extends EventEmitter {
             }
           }
         }
-        if (claimType === 'nationality') {
+        if (claimType === 'nationality' || claimType === 'nationality-revocable') {
           const requiredNationality =
             requiredPolicy?.nationality ?? this.config.requiredNationality;
           if (requiredNationality !== undefined) {
-            const proof = claim.proof as NationalityProof;
+            const proof = claim.proof as NationalityProof | NationalityProofRevocable;
             if (proof.publicSignals.targetNationality !== requiredNationality) {
               internalError = 'Proof does not satisfy required nationality';
             }
           }
         }
+        if (claimType === 'nationality-set' && requiredPolicy?.nationalitySet) {
+          const proof = claim.proof as NationalitySetProof;
+          if (!nationalitySetMatchesPolicy(proof, requiredPolicy.nationalitySet)) {
+            internalError = 'Proof does not satisfy required nationality set';
+          }
+        }
       }
 
       // Nonce binding: ensure proof public nonce matches the request nonce
@@ -1707,6 +2498,18 @@ export class ZkIdServer extends EventEmitter {
         });
         result = verification.result;
         internalError = verification.internalError;
+      } else if (claimType === 'nationality-revocable') {
+        const verification = await this.verifyNationalityProofRevocableInternal(proofResponse, {
+          markNonce: false,
+        });
+        result = verification.result;
+        internalError = verification.internalError;
+      } else if (claimType === 'nationality-set') {
+        const verification = await this.verifyNationalitySetProofInternal(proofResponse, {
+          markNonce: false,
+        });
+        result = verification.result;
+        internalError = verification.internalError;
       } else {
         internalError = 'Unknown claim type';
         result = {
@@ -1715,38 +2518,662 @@ export class ZkIdServer extends EventEmitter {
         };
       }
 
-      this.emitVerificationEvent(claimType, result, startTime, clientIdentifier, internalError);
+      this.emitVerificationEvent(claimType, result, startTime, clientIdentifier, internalError);
+
+      results.push({
+        label,
+        verified: result.verified,
+        error: result.error,
+      });
+    }
+
+    if (results.length === 0) {
+      return { results: [], allVerified: false, verifiedCount: 0, totalCount: 0 };
+    }
+
+    const aggregated = aggregateVerificationResults(results);
+    if (aggregated.allVerified && this.config.nonceStore) {
+      await this.config.nonceStore.add(response.nonce);
+    }
+
+    return aggregated;
+  }
+
+  /**
+   * Verify a multi-claim proof bundle against a declarative verifier policy.
+   *
+   * Claims are verified with verifyMultiClaim; the policy is then evaluated
+   * over the verified claims, the issuer of the signed credential (once its
+   * signature and binding are verified) and the request timestamp. Claims
+   * that fail verification do not fail the request on their own — only the
+   * policy decides — but at least one claim must verify.
+   *
+   * @param response - Multi-claim proof response
+   * @param policy - Policy, or the id of a policy in config.policies
+   * @param clientIdentifier - Optional client IP/session for rate limiting
+   * @param clientProtocolVersion - Optional client protocol version for compatibility checking
+   * @returns Verification result with per-rule policy results
+   * @throws ZkIdConfigError if the policy id is not configured
+   */
+  async verifyPolicy(
+    response: MultiClaimResponse,
+    policy: VerificationPolicy | string,
+    clientIdentifier?: string,
+    clientProtocolVersion?: string,
+  ): Promise<VerificationResult> {
+    const startTime = Date.now();
+    const resolved = typeof policy === 'string' ? this.getPolicy(policy) : policy;
+    if (!resolved) {
+      throw new ZkIdConfigError(`Unknown policy: ${policy}`);
+    }
+    if (typeof policy !== 'string') {
+      validatePolicy(resolved);
+    }
+
+    const multiResult = await this.verifyMultiClaim(
+      response,
+      clientIdentifier,
+      clientProtocolVersion,
+    );
+    const proofs = Array.isArray(response.proofs) ? response.proofs : [];
+    const claims: PolicyClaimFact[] = multiResult.results.map((claimResult, i) => ({
+      label: claimResult.label,
+      claimType: String(proofs[i]?.claimType),
+      verified: claimResult.verified,
+      ...(claimResult.verified ? this.getPolicyClaimParameters(proofs[i]) : {}),
+    }));
+    const verifiedIndex = multiResult.results.findIndex((r) => r.verified);
+    const issuer =
+      verifiedIndex === -1
+        ? undefined
+        : await this.getPolicyIssuer(response, proofs[verifiedIndex]);
+
+    const evaluation = evaluatePolicy(resolved, {
+      claims,
+      issuer,
+      requestTimestamp: response.requestTimestamp,
+    });
+
+    let internalError: string | undefined;
+    if (verifiedIndex === -1) {
+      internalError =
+        multiResult.results.find((r) => r.error)?.error ?? 'No claims could be verified';
+    } else if (!evaluation.satisfied) {
+      internalError = `Policy ${resolved.id} is not satisfied`;
+    }
+
+    // verifyMultiClaim only consumes the nonce when every claim verified
+    if (!internalError && !multiResult.allVerified && this.config.nonceStore) {
+      await this.config.nonceStore.add(response.nonce);
+    }
+
+    const result: VerificationResult = {
+      verified: !internalError,
+      claimType: 'policy',
+      policy: evaluation,
+      ...(internalError ? { error: this.sanitizeError(internalError) } : {}),
+    };
+    await this.attachSessionToken(result, {
+      claims: claims
+        .filter((claim) => claim.verified)
+        .map(({ claimType, minAge, targetNationality, nationalitySet }) => ({
+          claimType,
+          minAge,
+          targetNationality,
+          nationalitySet,
+          nationalitySetHash: nationalitySet && nationalitySetHash(nationalitySet),
+        })),
+      policyId: resolved.id,
+      credentialIssuer: issuer?.issuer,
+    });
+    this.emitVerificationEvent('policy', result, startTime, clientIdentifier, internalError, {
+      policyId: resolved.id,
+    });
+    return result;
+  }
+
+  /**
+   * Look up a policy configured in config.policies.
+   *
+   * @param policyId - Policy id
+   * @returns The policy, or undefined if not configured
+   */
+  getPolicy(policyId: string): VerificationPolicy | undefined {
+    return this.config.policies?.[policyId];
+  }
+
+  /**
+   * Whether successful verifications mint session tokens (config.sessionTokens).
+   */
+  hasSessionTokens(): boolean {
+    return this.sessionTokenIssuer !== undefined;
+  }
+
+  /**
+   * Verify a session token minted by this server.
+   *
+   * Checks the signature, issuer, audience (default: the configured audience)
+   * and expiry, and that the token covers the requested scope, e.g.
+   * `age:18`, `nationality:840` or `policy:checkout`.
+   *
+   * @param token - Session token from VerificationResult.sessionToken
+   * @param options - Expected audience and required scope
+   * @returns The session the token attests to, or an error
+   * @throws ZkIdConfigError if session tokens are not configured
+   */
+  async verifySessionToken(
+    token: string,
+    options: SessionTokenVerifyOptions = {},
+  ): Promise<SessionTokenVerification> {
+    if (!this.sessionTokenIssuer) {
+      throw new ZkIdConfigError('Session tokens not configured');
+    }
+    return this.sessionTokenIssuer.verify(token, options);
+  }
+
+  /**
+   * Mint a session token for a successful verification.
+   */
+  private async attachSessionToken(
+    result: VerificationResult,
+    payload: SessionTokenPayload,
+  ): Promise<void> {
+    if (!result.verified || !this.sessionTokenIssuer) {
+      return;
+    }
+    result.sessionToken = await this.sessionTokenIssuer.mint(payload);
+  }
+
+  /**
+   * The public parameters of a verified claim, as recorded in session tokens.
+   */
+  private getSessionTokenClaim(result: VerificationResult): SessionTokenClaim {
+    return {
+      claimType: result.claimType ?? 'unknown',
+      minAge: result.minAge,
+      targetNationality: result.targetNationality,
+      range: result.range,
+      predicate: result.predicate,
+      nationalitySet: result.nationalitySet,
+      nationalitySetHash: result.nationalitySet && nationalitySetHash(result.nationalitySet),
+    };
+  }
+
+  /**
+   * Public parameters a verified claim was proven for.
+   */
+  private getPolicyClaimParameters(
+    claim: MultiClaimResponse['proofs'][number],
+  ): Partial<PolicyClaimFact> {
+    if (claim.claimType === 'age' || claim.claimType === 'age-revocable') {
+      return { minAge: (claim.proof as AgeProof | AgeProofRevocable).publicSignals.minAge };
+    }
+    if (claim.claimType === 'nationality' || claim.claimType === 'nationality-revocable') {
+      const proof = claim.proof as NationalityProof | NationalityProofRevocable;
+      return { targetNationality: proof.publicSignals.targetNationality };
+    }
+    if (claim.claimType === 'nationality-set') {
+      const { nationalitySet, isDenyList } = (claim.proof as NationalitySetProof).publicSignals;
+      return {
+        nationalitySet: {
+          mode: isDenyList === 1 ? 'deny' : 'allow',
+          codes: nationalitySet.filter((code) => code !== 0),
+        },
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Issuer facts for policy evaluation, only once the signed credential is
+   * known to be authentic and bound to a verified claim.
+   */
+  private async getPolicyIssuer(
+    response: MultiClaimResponse,
+    verifiedClaim: MultiClaimResponse['proofs'][number],
+  ): Promise<PolicyContext['issuer']> {
+    const signedCredential = response.signedCredential;
+    if (!signedCredential) {
+      return undefined;
+    }
+    // With requireSignedCredentials (the default) verifyMultiClaim already
+    // checked the binding of every verified claim.
+    if (this.config.requireSignedCredentials === false) {
+      const bindingCheck = await this.validateSignedCredentialBinding(signedCredential, {
+        credentialId: response.credentialId,
+        claimType: verifiedClaim.claimType,
+        proof: verifiedClaim.proof,
+        signedCredential,
+        nonce: response.nonce,
+        requestTimestamp: response.requestTimestamp,
+      });
+      if (!bindingCheck.valid) {
+        return undefined;
+      }
+    }
+    const record = await this.getIssuerRecord(signedCredential.issuer);
+    return {
+      issuer: signedCredential.issuer,
+      jurisdiction: record?.jurisdiction,
+      issuedAt: signedCredential.issuedAt,
+    };
+  }
+
+  /**
+   * Internal age proof verification
+   */
+  private async verifyAgeProofInternal(
+    proofResponse: ProofResponse,
+    options: { markNonce?: boolean } = {},
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as AgeProof;
+
+    // Validate proof constraints
+    const constraintCheck = validateProofConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyAgeProof(proof, this.verificationKey);
+
+      if (isValid) {
+        if (options.markNonce !== false && this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            minAge: proof.publicSignals.minAge,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
+        return {
+          result: {
+            verified: false,
+            error: this.sanitizeError(internalError),
+          },
+          internalError,
+        };
+      }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+  }
+
+  /**
+   * Internal nationality proof verification
+   */
+  private async verifyNationalityProofInternal(
+    proofResponse: ProofResponse,
+    options: { markNonce?: boolean } = {},
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as NationalityProof;
+
+    if (!this.nationalityVerificationKey) {
+      const internalError = 'Nationality verification key not configured';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Validate proof constraints
+    const constraintCheck = validateNationalityProofConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyNationalityProof(proof, this.nationalityVerificationKey);
+
+      if (isValid) {
+        if (options.markNonce !== false && this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            targetNationality: proof.publicSignals.targetNationality,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
+        return {
+          result: {
+            verified: false,
+            error: this.sanitizeError(internalError),
+          },
+          internalError,
+        };
+      }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+  }
+
+  /**
+   * Internal revocable age proof verification
+   */
+  private async verifyAgeProofRevocableInternal(
+    proofResponse: ProofResponse,
+    options: { markNonce?: boolean } = {},
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as AgeProofRevocable;
+
+    if (!this.revocableVerificationKey) {
+      const internalError = 'Revocable age verification key not configured';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Revocation root staleness check (before proof validation)
+    if (await this.isRevocationRootStale()) {
+      const internalError = 'Revocation root is stale';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Validate proof constraints
+    const constraintCheck = validateAgeProofRevocableConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Optional Merkle root freshness check
+    const expectedRoot = this.config.validCredentialTree
+      ? await this.config.validCredentialTree.getRoot()
+      : undefined;
+
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyAgeProofRevocable(
+        proof,
+        this.revocableVerificationKey,
+        expectedRoot,
+      );
+
+      if (isValid) {
+        if (options.markNonce !== false && this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            minAge: proof.publicSignals.minAge,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
+        return {
+          result: {
+            verified: false,
+            error: this.sanitizeError(internalError),
+          },
+          internalError,
+        };
+      }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+  }
+
+  /**
+   * Internal revocable nationality proof verification
+   */
+  private async verifyNationalityProofRevocableInternal(
+    proofResponse: ProofResponse,
+    options: { markNonce?: boolean } = {},
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as NationalityProofRevocable;
+
+    if (!this.nationalityRevocableVerificationKey) {
+      const internalError = 'Revocable nationality verification key not configured';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Revocation root staleness check (before proof validation)
+    if (await this.isRevocationRootStale()) {
+      const internalError = 'Revocation root is stale';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Validate proof constraints
+    const constraintCheck = validateNationalityProofRevocableConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Optional Merkle root freshness check
+    const expectedRoot = this.config.validCredentialTree
+      ? await this.config.validCredentialTree.getRoot()
+      : undefined;
+
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyNationalityProofRevocable(
+        proof,
+        this.nationalityRevocableVerificationKey,
+        expectedRoot,
+      );
+
+      if (isValid) {
+        if (options.markNonce !== false && this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            targetNationality: proof.publicSignals.targetNationality,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
+        return {
+          result: {
+            verified: false,
+            error: this.sanitizeError(internalError),
+          },
+          internalError,
+        };
+      }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+  }
+
+  /**
+   * Internal unlinkable age proof verification
+   */
+  private async verifyAgeProofUnlinkableInternal(
+    proofResponse: ProofResponse,
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as AgeProofUnlinkable;
 
-      results.push({
-        label,
-        verified: result.verified,
-        error: result.error,
-      });
+    const configError = await this.checkUnlinkableConfig(this.ageUnlinkableVerificationKey, 'age');
+    if (configError) {
+      return {
+        result: { verified: false, error: this.sanitizeError(configError) },
+        internalError: configError,
+      };
     }
 
-    if (results.length === 0) {
-      return { results: [], allVerified: false, verifiedCount: 0, totalCount: 0 };
+    // Validate proof constraints
+    const constraintCheck = validateAgeProofUnlinkableConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
     }
 
-    const aggregated = aggregateVerificationResults(results);
-    if (aggregated.allVerified && this.config.nonceStore) {
-      await this.config.nonceStore.add(response.nonce);
-    }
+    // The issuer's current root is mandatory: it is the only link to the issuer
+    const expectedRoot = await this.config.validCredentialTree!.getRoot();
 
-    return aggregated;
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyAgeProofUnlinkable(
+        proof,
+        this.ageUnlinkableVerificationKey!,
+        expectedRoot,
+      );
+
+      if (isValid) {
+        if (this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            minAge: proof.publicSignals.minAge,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
+        return {
+          result: {
+            verified: false,
+            error: this.sanitizeError(internalError),
+          },
+          internalError,
+        };
+      }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
   }
 
   /**
-   * Internal age proof verification
+   * Internal unlinkable nationality proof verification
    */
-  private async verifyAgeProofInternal(
+  private async verifyNationalityProofUnlinkableInternal(
     proofResponse: ProofResponse,
-    options: { markNonce?: boolean } = {},
   ): Promise<{ result: VerificationResult; internalError?: string }> {
-    const proof = proofResponse.proof as AgeProof;
+    const proof = proofResponse.proof as NationalityProofUnlinkable;
+
+    const configError = await this.checkUnlinkableConfig(
+      this.nationalityUnlinkableVerificationKey,
+      'nationality',
+    );
+    if (configError) {
+      return {
+        result: { verified: false, error: this.sanitizeError(configError) },
+        internalError: configError,
+      };
+    }
 
     // Validate proof constraints
-    const constraintCheck = validateProofConstraints(proof);
+    const constraintCheck = validateNationalityProofUnlinkableConstraints(proof);
     if (!constraintCheck.valid) {
       const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
       return {
@@ -1758,12 +3185,19 @@ export class ZkIdServer extends EventEmitter {
       };
     }
 
+    // The issuer's current root is mandatory: it is the only link to the issuer
+    const expectedRoot = await this.config.validCredentialTree!.getRoot();
+
     // Cryptographically verify the proof
     try {
-      const isValid = await verifyAgeProof(proof, this.verificationKey);
+      const isValid = await verifyNationalityProofUnlinkable(
+        proof,
+        this.nationalityUnlinkableVerificationKey!,
+        expectedRoot,
+      );
 
       if (isValid) {
-        if (options.markNonce !== false && this.config.nonceStore) {
+        if (this.config.nonceStore) {
           await this.config.nonceStore.add(proofResponse.nonce);
         }
 
@@ -1771,7 +3205,7 @@ export class ZkIdServer extends EventEmitter {
           result: {
             verified: true,
             claimType: proofResponse.claimType,
-            minAge: proof.publicSignals.minAge,
+            targetNationality: proof.publicSignals.targetNationality,
             protocolVersion: PROTOCOL_VERSION,
           },
         };
@@ -1798,16 +3232,53 @@ export class ZkIdServer extends EventEmitter {
   }
 
   /**
-   * Internal nationality proof verification
+   * Preconditions shared by unlinkable proofs: a verification key, a valid
+   * credential tree to pin the root to, and a fresh root.
+   *
+   * @returns An internal error message, or undefined when verification can proceed
    */
-  private async verifyNationalityProofInternal(
+  private async checkUnlinkableConfig(
+    verificationKey: VerificationKey | undefined,
+    claim: 'age' | 'nationality',
+  ): Promise<string | undefined> {
+    if (!verificationKey) {
+      return `Unlinkable ${claim} verification key not configured`;
+    }
+    if (!this.config.validCredentialTree) {
+      return 'Valid credential tree not configured for unlinkable proofs';
+    }
+    if (await this.isRevocationRootStale()) {
+      return 'Revocation root is stale';
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether the valid-credential tree root is older than maxRevocationRootAgeMs
+   */
+  private async isRevocationRootStale(): Promise<boolean> {
+    if (
+      this.config.maxRevocationRootAgeMs === undefined ||
+      !this.config.validCredentialTree?.getRootInfo
+    ) {
+      return false;
+    }
+    const rootInfo = await this.config.validCredentialTree.getRootInfo();
+    const rootAgeMs = Date.now() - Date.parse(rootInfo.updatedAt);
+    return rootAgeMs > this.config.maxRevocationRootAgeMs;
+  }
+
+  /**
+   * Internal range proof verification
+   */
+  private async verifyRangeProofInternal(
     proofResponse: ProofResponse,
     options: { markNonce?: boolean } = {},
   ): Promise<{ result: VerificationResult; internalError?: string }> {
-    const proof = proofResponse.proof as NationalityProof;
+    const proof = proofResponse.proof as RangeProof;
 
-    if (!this.nationalityVerificationKey) {
-      const internalError = 'Nationality verification key not configured';
+    if (!this.rangeVerificationKey) {
+      const internalError = 'Range verification key not configured';
       return {
         result: {
           verified: false,
@@ -1818,7 +3289,7 @@ export class ZkIdServer extends EventEmitter {
     }
 
     // Validate proof constraints
-    const constraintCheck = validateNationalityProofConstraints(proof);
+    const constraintCheck = validateRangeProofConstraints(proof);
     if (!constraintCheck.valid) {
       const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
       return {
@@ -1832,7 +3303,7 @@ export class ZkIdServer extends EventEmitter {
 
     // Cryptographically verify the proof
     try {
-      const isValid = await verifyNationalityProof(proof, this.nationalityVerificationKey);
+      const isValid = await verifyRangeProof(proof, this.rangeVerificationKey);
 
       if (isValid) {
         if (options.markNonce !== false && this.config.nonceStore) {
@@ -1843,7 +3314,11 @@ export class ZkIdServer extends EventEmitter {
           result: {
             verified: true,
             claimType: proofResponse.claimType,
-            targetNationality: proof.publicSignals.targetNationality,
+            range: {
+              fieldName: proof.fieldName,
+              minValue: Number(proof.publicSignals[1]),
+              maxValue: Number(proof.publicSignals[2]),
+            },
             protocolVersion: PROTOCOL_VERSION,
           },
         };
@@ -1870,16 +3345,16 @@ export class ZkIdServer extends EventEmitter {
   }
 
   /**
-   * Internal revocable age proof verification
+   * Internal predicate proof verification
    */
-  private async verifyAgeProofRevocableInternal(
+  private async verifyPredicateProofInternal(
     proofResponse: ProofResponse,
     options: { markNonce?: boolean } = {},
   ): Promise<{ result: VerificationResult; internalError?: string }> {
-    const proof = proofResponse.proof as AgeProofRevocable;
+    const proof = proofResponse.proof as PredicateProof;
 
-    if (!this.revocableVerificationKey) {
-      const internalError = 'Revocable age verification key not configured';
+    if (!this.predicateVerificationKey) {
+      const internalError = 'Predicate verification key not configured';
       return {
         result: {
           verified: false,
@@ -1889,15 +3364,38 @@ export class ZkIdServer extends EventEmitter {
       };
     }
 
-    // Revocation root staleness check (before proof validation)
-    if (
-      this.config.maxRevocationRootAgeMs !== undefined &&
-      this.config.validCredentialTree?.getRootInfo
-    ) {
-      const rootInfo = await this.config.validCredentialTree.getRootInfo();
-      const rootAgeMs = Date.now() - Date.parse(rootInfo.updatedAt);
-      if (rootAgeMs > this.config.maxRevocationRootAgeMs) {
-        const internalError = 'Revocation root is stale';
+    // Validate proof constraints
+    const constraintCheck = validatePredicateProofConstraints(proof);
+    if (!constraintCheck.valid) {
+      const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+
+    // Cryptographically verify the proof
+    try {
+      const isValid = await verifyPredicateProof(proof, this.predicateVerificationKey);
+
+      if (isValid) {
+        if (options.markNonce !== false && this.config.nonceStore) {
+          await this.config.nonceStore.add(proofResponse.nonce);
+        }
+
+        return {
+          result: {
+            verified: true,
+            claimType: proofResponse.claimType,
+            predicate: proof.predicate,
+            protocolVersion: PROTOCOL_VERSION,
+          },
+        };
+      } else {
+        const internalError = 'Proof verification failed';
         return {
           result: {
             verified: false,
@@ -1906,10 +3404,40 @@ export class ZkIdServer extends EventEmitter {
           internalError,
         };
       }
+    } catch (error) {
+      const internalError = `Verification error: ${error}`;
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
+    }
+  }
+
+  /**
+   * Internal nationality set membership proof verification
+   */
+  private async verifyNationalitySetProofInternal(
+    proofResponse: ProofResponse,
+    options: { markNonce?: boolean } = {},
+  ): Promise<{ result: VerificationResult; internalError?: string }> {
+    const proof = proofResponse.proof as NationalitySetProof;
+
+    if (!this.nationalitySetVerificationKey) {
+      const internalError = 'Nationality set verification key not configured';
+      return {
+        result: {
+          verified: false,
+          error: this.sanitizeError(internalError),
+        },
+        internalError,
+      };
     }
 
     // Validate proof constraints
-    const constraintCheck = validateAgeProofRevocableConstraints(proof);
+    const constraintCheck = validateNationalitySetProofConstraints(proof);
     if (!constraintCheck.valid) {
       const internalError = `Invalid proof constraints: ${constraintCheck.errors.join(', ')}`;
       return {
@@ -1921,18 +3449,9 @@ export class ZkIdServer extends EventEmitter {
       };
     }
 
-    // Optional Merkle root freshness check
-    const expectedRoot = this.config.validCredentialTree
-      ? await this.config.validCredentialTree.getRoot()
-      : undefined;
-
     // Cryptographically verify the proof
     try {
-      const isValid = await verifyAgeProofRevocable(
-        proof,
-        this.revocableVerificationKey,
-        expectedRoot,
-      );
+      const isValid = await verifyNationalitySetProof(proof, this.nationalitySetVerificationKey);
 
       if (isValid) {
         if (options.markNonce !== false && this.config.nonceStore) {
@@ -1943,7 +3462,10 @@ export class ZkIdServer extends EventEmitter {
           result: {
             verified: true,
             claimType: proofResponse.claimType,
-            minAge: proof.publicSignals.minAge,
+            nationalitySet: {
+              mode: proof.publicSignals.isDenyList === 1 ? 'deny' : 'allow',
+              codes: proof.publicSignals.nationalitySet.filter((code) => code !== 0),
+            },
             protocolVersion: PROTOCOL_VERSION,
           },
         };
@@ -1995,6 +3517,32 @@ export class ZkIdServer extends EventEmitter {
   private async validateSignedCredentialBinding(
     signedCredential: SignedCredential,
     proofResponse: ProofResponse,
+  ): Promise<{ valid: boolean; error?: string }> {
+    const issued = await this.validateIssuedCredential(signedCredential);
+    if (!issued.valid) {
+      return issued;
+    }
+
+    if (
+      proofResponse.credentialId &&
+      proofResponse.credentialId !== signedCredential.credential.id
+    ) {
+      return { valid: false, error: this.sanitizeError('Credential ID mismatch') };
+    }
+
+    const proofCommitment = this.getCredentialCommitmentFromProof(proofResponse);
+    if (!constantTimeEqual(proofCommitment, signedCredential.credential.commitment)) {
+      return { valid: false, error: this.sanitizeError('Credential commitment mismatch') };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate that a credential was signed by a trusted, active issuer
+   */
+  private async validateIssuedCredential(
+    signedCredential: SignedCredential,
   ): Promise<{ valid: boolean; error?: string }> {
     const issuerRecord = await this.getIssuerRecord(signedCredential.issuer);
     const issuerKey = issuerRecord?.publicKey;
@@ -2052,18 +3600,6 @@ export class ZkIdServer extends EventEmitter {
       return { valid: false, error: this.sanitizeError('Invalid credential signature') };
     }
 
-    if (
-      proofResponse.credentialId &&
-      proofResponse.credentialId !== signedCredential.credential.id
-    ) {
-      return { valid: false, error: this.sanitizeError('Credential ID mismatch') };
-    }
-
-    const proofCommitment = this.getCredentialCommitmentFromProof(proofResponse);
-    if (!constantTimeEqual(proofCommitment, signedCredential.credential.commitment)) {
-      return { valid: false, error: this.sanitizeError('Credential commitment mismatch') };
-    }
-
     return { valid: true };
   }
 
@@ -2078,6 +3614,18 @@ export class ZkIdServer extends EventEmitter {
     if (proofResponse.claimType === 'age-revocable') {
       return (proof as AgeProofRevocable).publicSignals.credentialHash;
     }
+    if (proofResponse.claimType === 'nationality-revocable') {
+      return (proofResponse.proof as NationalityProofRevocable).publicSignals.credentialHash;
+    }
+    if (proofResponse.claimType === 'range') {
+      return (proofResponse.proof as RangeProof).publicSignals[3] ?? '';
+    }
+    if (proofResponse.claimType === 'predicate') {
+      return (proofResponse.proof as PredicateProof).publicSignals.credentialCommitment;
+    }
+    if (proofResponse.claimType === 'nationality-set') {
+      return (proofResponse.proof as NationalitySetProof).publicSignals.credentialHash;
+    }
     return '';
   }
 
@@ -2092,6 +3640,24 @@ export class ZkIdServer extends EventEmitter {
     if (proofResponse.claimType === 'age-revocable') {
       return (proof as AgeProofRevocable).publicSignals.nonce;
     }
+    if (proofResponse.claimType === 'nationality-revocable') {
+      return (proofResponse.proof as NationalityProofRevocable).publicSignals.nonce;
+    }
+    if (proofResponse.claimType === 'age-unlinkable') {
+      return (proofResponse.proof as AgeProofUnlinkable).publicSignals.nonce;
+    }
+    if (proofResponse.claimType === 'nationality-unlinkable') {
+      return (proofResponse.proof as NationalityProofUnlinkable).publicSignals.nonce;
+    }
+    if (proofResponse.claimType === 'range') {
+      return (proofResponse.proof as RangeProof).publicSignals[4] ?? '';
+    }
+    if (proofResponse.claimType === 'predicate') {
+      return (proofResponse.proof as PredicateProof).publicSignals.nonce;
+    }
+    if (proofResponse.claimType === 'nationality-set') {
+      return (proofResponse.proof as NationalitySetProof).publicSignals.nonce;
+    }
     return '';
   }
 
@@ -2106,6 +3672,24 @@ export class ZkIdServer extends EventEmitter {
     if (proofResponse.claimType === 'age-revocable') {
       return (proof as AgeProofRevocable).publicSignals.requestTimestamp;
     }
+    if (proofResponse.claimType === 'nationality-revocable') {
+      return (proofResponse.proof as NationalityProofRevocable).publicSignals.requestTimestamp;
+    }
+    if (proofResponse.claimType === 'age-unlinkable') {
+      return (proofResponse.proof as AgeProofUnlinkable).publicSignals.requestTimestamp;
+    }
+    if (proofResponse.claimType === 'nationality-unlinkable') {
+      return (proofResponse.proof as NationalityProofUnlinkable).publicSignals.requestTimestamp;
+    }
+    if (proofResponse.claimType === 'range') {
+      return Number((proofResponse.proof as RangeProof).publicSignals[5]);
+    }
+    if (proofResponse.claimType === 'predicate') {
+      return (proofResponse.proof as PredicateProof).publicSignals.timestamp;
+    }
+    if (proofResponse.claimType === 'nationality-set') {
+      return (proofResponse.proof as NationalitySetProof).publicSignals.requestTimestamp;
+    }
     return 0;
   }
 
@@ -2130,7 +3714,7 @@ export class ZkIdServer extends EventEmitter {
   }
 
   private getSignedProofNonce(
-    proof: AgeProofSigned | NationalityProofSigned,
+    proof: AgeProofSigned | AgeProofSignedExpiring | NationalityProofSigned,
     claimType: 'age' | 'nationality',
   ): string {
     if (claimType === 'age') {
@@ -2140,7 +3724,7 @@ export class ZkIdServer extends EventEmitter {
   }
 
   private getSignedProofTimestamp(
-    proof: AgeProofSigned | NationalityProofSigned,
+    proof: AgeProofSigned | AgeProofSignedExpiring | NationalityProofSigned,
     claimType: 'age' | 'nationality',
   ): number {
     if (claimType === 'age') {
@@ -2150,7 +3734,7 @@ export class ZkIdServer extends EventEmitter {
   }
 
   private getSignedProofCommitment(
-    proof: AgeProofSigned | NationalityProofSigned,
+    proof: AgeProofSigned | AgeProofSignedExpiring | NationalityProofSigned,
     claimType: 'age' | 'nationality',
   ): string {
     if (claimType === 'age') {
@@ -2179,6 +3763,7 @@ export class ZkIdServer extends EventEmitter {
     startTime: number,
     clientIdentifier?: string,
     internalError?: string,
+    auditMetadata?: Record<string, unknown>,
   ): void {
     const timestamp = new Date().toISOString();
     const event: VerificationEvent = {
@@ -2201,6 +3786,7 @@ export class ZkIdServer extends EventEmitter {
         success: result.verified,
         metadata: {
           verificationTimeMs: event.verificationTimeMs,
+          ...auditMetadata,
           ...(internalError
             ? { error: internalError }
             : result.error
@@ -2225,7 +3811,9 @@ export class ZkIdServer extends EventEmitter {
   /**
    * Get current revocation root info (if valid credential tree is configured).
    *
-   * Populates `expiresAt`, `ttlSeconds`, and `source` from server config when available.
+   * Root info signed by the tree (SignedValidCredentialTree on the issuer,
+   * or signed sync events) is returned as-is. Otherwise populates `expiresAt`,
+   * `ttlSeconds`, and `source` from server config when available.
    *
    * @returns Revocation root metadata including version, TTL, and expiration time
    * @throws Error if valid credential tree is not configured
@@ -2247,14 +3835,57 @@ export class ZkIdServer extends EventEmitter {
       };
     }
 
+    // The signature covers expiresAt and source, so signed roots are served untouched
+    if (info.signature) {
+      return info;
+    }
+
     const ttl = this.config.revocationRootTtlSeconds ?? DEFAULT_REVOCATION_ROOT_TTL_SECONDS;
     info.ttlSeconds = ttl;
     info.expiresAt = new Date(Date.parse(info.updatedAt) + ttl * 1000).toISOString();
     if (this.config.revocationRootSource) {
       info.source = this.config.revocationRootSource;
     }
+    return info;
+  }
+
+  /**
+   * Get the signed tree frontier for private witness retrieval.
+   *
+   * Wallets combine it with a witness bucket (getWitnessBucket) to rebuild
+   * their Merkle path locally instead of revealing their commitment. The
+   * frontier is signed by the tree (SignedValidCredentialTree) and served as-is.
+   *
+   * @throws ZkIdConfigError if the tree does not serve signed frontiers
+   */
+  async getTreeFrontier(): Promise<SignedTreeFrontier> {
+    const tree = this.config.validCredentialTree;
+    if (!tree?.getSignedFrontier) {
+      throw new ZkIdConfigError('Valid credential tree does not serve signed tree frontiers');
+    }
+    return tree.getSignedFrontier(
+      this.config.witnessFrontierLevel ?? DEFAULT_WITNESS_FRONTIER_LEVEL,
+    );
+  }
 
-    return info;
+  /**
+   * Get every active leaf whose commitment has the given low-bit prefix,
+   * with sibling hashes up to the frontier level.
+   *
+   * @param prefix     - Commitment prefix (low `prefixBits` bits)
+   * @param prefixBits - Prefix length in bits
+   * @throws ZkIdConfigError if the tree does not support witness buckets
+   */
+  async getWitnessBucket(prefix: number, prefixBits: number): Promise<WitnessBucket> {
+    const tree = this.config.validCredentialTree;
+    if (!tree?.getWitnessBucket) {
+      throw new ZkIdConfigError('Valid credential tree does not support witness buckets');
+    }
+    return tree.getWitnessBucket(
+      prefix,
+      prefixBits,
+      this.config.witnessFrontierLevel ?? DEFAULT_WITNESS_FRONTIER_LEVEL,
+    );
   }
 
   private checkProtocolVersion(
@@ -2340,6 +3971,20 @@ export interface VerificationResult {
   error?: string;
   protocolVersion?: string;
   revealedFields?: Record<string, unknown>;
+  /** Consumed nullifier (nullifier and full-assurance proofs only) */
+  nullifier?: string;
+  /** Scope the nullifier was consumed in (nullifier and full-assurance proofs only) */
+  scopeId?: string;
+  /** Attribute and bounds proven by a range proof */
+  range?: { fieldName: RangeFieldName; minValue: number; maxValue: number };
+  /** Predicate proven by a predicate proof */
+  predicate?: PredicateSpec;
+  /** Allow/deny list proven by a nationality set proof (padding removed) */
+  nationalitySet?: NationalitySet;
+  /** Per-rule results of a policy verification */
+  policy?: PolicyEvaluationResult;
+  /** Session token for the verified claims (when config.sessionTokens is set) */
+  sessionToken?: string;
 }
 
 /**
@@ -2663,6 +4308,14 @@ export interface PayloadValidationError {
   message: string;
 }
 
+function isUnlinkableClaimType(claimType: unknown): boolean {
+  return claimType === 'age-unlinkable' || claimType === 'nationality-unlinkable';
+}
+
+function isNumberArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'number');
+}
+
 /**
  * Validate a ProofResponse payload structure before cryptographic verification.
  * Returns an empty array when the payload is well-formed.
@@ -2679,11 +4332,22 @@ export function validateProofResponsePayload(
 
   if (
     typeof obj.claimType !== 'string' ||
-    !['age', 'nationality', 'age-revocable'].includes(obj.claimType)
+    ![
+      'age',
+      'nationality',
+      'age-revocable',
+      'nationality-revocable',
+      'age-unlinkable',
+      'nationality-unlinkable',
+      'range',
+      'predicate',
+      'nationality-set',
+    ].includes(obj.claimType)
   ) {
     errors.push({
       field: 'claimType',
-      message: "Must be 'age', 'nationality', or 'age-revocable'",
+      message:
+        "Must be 'age', 'nationality', 'age-revocable', 'nationality-revocable', 'age-unlinkable', 'nationality-unlinkable', 'range', 'predicate', or 'nationality-set'",
     });
   }
   if (typeof obj.nonce !== 'string' || obj.nonce.length === 0) {
@@ -2713,6 +4377,28 @@ export function validateProofResponsePayload(
     }
     if (!proof.publicSignals || typeof proof.publicSignals !== 'object') {
       errors.push({ field: 'proof.publicSignals', message: 'Must be a non-null object' });
+    } else if (
+      obj.claimType === 'range' &&
+      (!Array.isArray(proof.publicSignals) ||
+        !proof.publicSignals.every((signal) => typeof signal === 'string'))
+    ) {
+      errors.push({ field: 'proof.publicSignals', message: 'Must be an array of strings' });
+    }
+    if (
+      obj.claimType === 'predicate' &&
+      (!proof.predicate || typeof proof.predicate !== 'object')
+    ) {
+      errors.push({ field: 'proof.predicate', message: 'Must be a non-null object' });
+    }
+    if (
+      obj.claimType === 'nationality-set' &&
+      proof.publicSignals &&
+      !isNumberArray((proof.publicSignals as Record<string, unknown>).nationalitySet)
+    ) {
+      errors.push({
+        field: 'proof.publicSignals.nationalitySet',
+        message: 'Must be an array of numbers',
+      });
     }
   }
   if (requireSignedCredential) {
@@ -2773,11 +4459,18 @@ export function validateMultiClaimResponsePayload(
       }
       if (
         typeof claim.claimType !== 'string' ||
-        !['age', 'nationality', 'age-revocable'].includes(claim.claimType)
+        ![
+          'age',
+          'nationality',
+          'age-revocable',
+          'nationality-revocable',
+          'nationality-set',
+        ].includes(claim.claimType)
       ) {
         errors.push({
           field: `proofs[${index}].claimType`,
-          message: "Must be 'age', 'nationality', or 'age-revocable'",
+          message:
+            "Must be 'age', 'nationality', 'age-revocable', 'nationality-revocable', or 'nationality-set'",
         });
       }
       if (!claim.proof || typeof claim.proof !== 'object') {
@@ -2807,6 +4500,14 @@ export function validateMultiClaimResponsePayload(
             field: `proofs[${index}].proof.publicSignals`,
             message: 'Must be a non-null object',
           });
+        } else if (
+          claim.claimType === 'nationality-set' &&
+          !isNumberArray((proofObj.publicSignals as Record<string, unknown>).nationalitySet)
+        ) {
+          errors.push({
+            field: `proofs[${index}].proof.publicSignals.nationalitySet`,
+            message: 'Must be an array of numbers',
+          });
         }
       }
     });
@@ -2866,6 +4567,153 @@ export function validateSignedProofRequestPayload(body: unknown): PayloadValidat
   return errors;
 }
 
+/**
+ * Validate a NullifierProofRequest payload structure.
+ * Returns an empty array when the payload is well-formed.
+ */
+export function validateNullifierProofRequestPayload(body: unknown): PayloadValidationError[] {
+  const errors: PayloadValidationError[] = [];
+  if (!body || typeof body !== 'object') {
+    return [{ field: '(root)', message: 'Body must be a non-null object' }];
+  }
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.scopeId !== 'string' || obj.scopeId.length === 0) {
+    errors.push({ field: 'scopeId', message: 'Must be a non-empty string' });
+  } else if (obj.scopeId.length > 256) {
+    errors.push({ field: 'scopeId', message: 'Must be at most 256 characters' });
+  }
+  if (!obj.proof || typeof obj.proof !== 'object') {
+    errors.push({ field: 'proof', message: 'Must be a non-null object' });
+  } else {
+    const proof = obj.proof as Record<string, unknown>;
+    if (proof.proofType !== 'nullifier') {
+      errors.push({ field: 'proof.proofType', message: "Must be 'nullifier'" });
+    }
+    if (!proof.proof || typeof proof.proof !== 'object') {
+      errors.push({ field: 'proof.proof', message: 'Must be a non-null object' });
+    } else {
+      const inner = proof.proof as Record<string, unknown>;
+      if (!Array.isArray(inner.pi_a) || !Array.isArray(inner.pi_b) || !Array.isArray(inner.pi_c)) {
+        errors.push({
+          field: 'proof.proof',
+          message: 'Must contain pi_a, pi_b, and pi_c arrays',
+        });
+      }
+    }
+    if (!proof.publicSignals || typeof proof.publicSignals !== 'object') {
+      errors.push({ field: 'proof.publicSignals', message: 'Must be a non-null object' });
+    } else {
+      const signals = proof.publicSignals as Record<string, unknown>;
+      if (typeof signals.scopeHash !== 'string' || signals.scopeHash.length === 0) {
+        errors.push({
+          field: 'proof.publicSignals.scopeHash',
+          message: 'Must be a non-empty string',
+        });
+      }
+      if (typeof signals.nullifier !== 'string' || signals.nullifier.length === 0) {
+        errors.push({
+          field: 'proof.publicSignals.nullifier',
+          message: 'Must be a non-empty string',
+        });
+      } else if (signals.nullifier.length > 512) {
+        errors.push({
+          field: 'proof.publicSignals.nullifier',
+          message: 'Must be at most 512 characters',
+        });
+      }
+    }
+  }
+  if (
+    obj.signedCredential !== undefined &&
+    (!obj.signedCredential || typeof obj.signedCredential !== 'object')
+  ) {
+    errors.push({ field: 'signedCredential', message: 'Must be a non-null object' });
+  }
+  return errors;
+}
+
+/**
+ * Validate a FullAgeProofRequest payload structure.
+ * Returns an empty array when the payload is well-formed.
+ */
+export function validateFullAgeProofRequestPayload(body: unknown): PayloadValidationError[] {
+  const errors: PayloadValidationError[] = [];
+  if (!body || typeof body !== 'object') {
+    return [{ field: '(root)', message: 'Body must be a non-null object' }];
+  }
+  const obj = body as Record<string, unknown>;
+
+  if (typeof obj.issuer !== 'string' || obj.issuer.length === 0) {
+    errors.push({ field: 'issuer', message: 'Must be a non-empty string' });
+  } else if (obj.issuer.length > 256) {
+    errors.push({ field: 'issuer', message: 'Must be at most 256 characters' });
+  }
+  if (typeof obj.scopeId !== 'string' || obj.scopeId.length === 0) {
+    errors.push({ field: 'scopeId', message: 'Must be a non-empty string' });
+  } else if (obj.scopeId.length > 256) {
+    errors.push({ field: 'scopeId', message: 'Must be at most 256 characters' });
+  }
+  if (typeof obj.nonce !== 'string' || obj.nonce.length === 0) {
+    errors.push({ field: 'nonce', message: 'Must be a non-empty string' });
+  } else if (obj.nonce.length > MAX_NONCE_LENGTH) {
+    errors.push({ field: 'nonce', message: `Must be at most ${MAX_NONCE_LENGTH} characters` });
+  }
+  if (typeof obj.requestTimestamp !== 'string') {
+    errors.push({ field: 'requestTimestamp', message: 'Must be a string (ISO 8601)' });
+  } else if (isNaN(Date.parse(obj.requestTimestamp as string))) {
+    errors.push({ field: 'requestTimestamp', message: 'Must be a valid ISO 8601 date string' });
+  }
+  if (!obj.proof || typeof obj.proof !== 'object') {
+    errors.push({ field: 'proof', message: 'Must be a non-null object' });
+  } else {
+    const proof = obj.proof as Record<string, unknown>;
+    if (proof.proofType !== 'age-full') {
+      errors.push({ field: 'proof.proofType', message: "Must be 'age-full'" });
+    }
+    if (!proof.proof || typeof proof.proof !== 'object') {
+      errors.push({ field: 'proof.proof', message: 'Must be a non-null object' });
+    } else {
+      const inner = proof.proof as Record<string, unknown>;
+      if (!Array.isArray(inner.pi_a) || !Array.isArray(inner.pi_b) || !Array.isArray(inner.pi_c)) {
+        errors.push({
+          field: 'proof.proof',
+          message: 'Must contain pi_a, pi_b, and pi_c arrays',
+        });
+      }
+    }
+    if (!proof.publicSignals || typeof proof.publicSignals !== 'object') {
+      errors.push({ field: 'proof.publicSignals', message: 'Must be a non-null object' });
+    } else {
+      const signals = proof.publicSignals as Record<string, unknown>;
+      for (const field of ['merkleRoot', 'scopeHash', 'nullifier', 'nonce']) {
+        if (typeof signals[field] !== 'string' || (signals[field] as string).length === 0) {
+          errors.push({
+            field: `proof.publicSignals.${field}`,
+            message: 'Must be a non-empty string',
+          });
+        }
+      }
+      for (const field of ['currentYear', 'minAge', 'requestTimestamp']) {
+        if (typeof signals[field] !== 'number') {
+          errors.push({ field: `proof.publicSignals.${field}`, message: 'Must be a number' });
+        }
+      }
+      if (
+        !Array.isArray(signals.issuerPublicKey) ||
+        signals.issuerPublicKey.length !== 256 ||
+        !signals.issuerPublicKey.every((bit) => typeof bit === 'string')
+      ) {
+        errors.push({
+          field: 'proof.publicSignals.issuerPublicKey',
+          message: 'Must be an array of 256 bit strings',
+        });
+      }
+    }
+  }
+  return errors;
+}
+
 /**
  * OpenID4VP (OpenID for Verifiable Presentations) Verifier
  *
@@ -2884,6 +4732,31 @@ export interface OpenID4VPConfig {
   verifierId: string;
   /** Optional callback URL for presentation submission */
   callbackUrl?: string;
+  /**
+   * Key for signing request objects (JAR). When set, `verifierId` must be the
+   * matching client ID, e.g. `x509_san_dns:verifier.example.com` or a DID.
+   * Leave unset for `redirect_uri:` client IDs, whose request objects are unsigned.
+   */
+  requestObjectSigning?: RequestObjectSigningKey;
+  /** Lifetime of published request objects in seconds (default: 300) */
+  requestObjectTtlSeconds?: number;
+  /**
+   * Trusted issuers of SD-JWT VCs, looked up by the `iss` claim. Without it
+   * `dc+sd-jwt` presentations are rejected.
+   */
+  sdJwtIssuerRegistry?: IssuerRegistry;
+  /**
+   * Trusted mdoc issuers, looked up by the protected COSE `kid` of the MSO
+   * signature. Without it or `mdocIacaTrustAnchors`, `mso_mdoc`
+   * presentations are rejected.
+   */
+  mdocIssuerRegistry?: IssuerRegistry;
+  /**
+   * PEM IACA root certificates (ISO 18013-5). When set, the MSO signature
+   * must carry an `x5chain` chaining to one of them, and `mdocIssuerRegistry`
+   * is not consulted.
+   */
+  mdocIacaTrustAnchors?: string[];
 }
 
 /**
@@ -2973,6 +4846,8 @@ export interface Filter {
   maximum?: number;
   /** Enum of allowed values */
   enum?: (string | number)[];
+  /** Exact required value (e.g., `true` for an mdoc age_over_NN element) */
+  const?: string | number | boolean;
 }
 
 export interface AuthorizationRequest {
@@ -3043,6 +4918,7 @@ export interface PresentationResponse {
 export class OpenID4VPVerifier {
   private config: OpenID4VPConfig;
   private pendingRequests: Map<string, AuthorizationRequest> = new Map();
+  private publishedRequests: Map<string, { state: string; requestObject: string }> = new Map();
   private encryptionKeyPair?: CryptoKeyPair;
   private encryptionJwk?: JsonWebKey;
 
@@ -3231,9 +5107,40 @@ export class OpenID4VPVerifier {
    * Create a DCQL query for age verification
    *
    * @param minAge - Minimum age requirement
+   * @param format - `jwt_vc` for zk-id proofs, `dc+sd-jwt` for SD-JWT VCs disclosing
+   *   birthYear, or `mso_mdoc` for an ISO 18013-5 mDL disclosing `age_over_NN`
    * @returns DCQL query object
    */
-  createDCQLAgeQuery(minAge: number): DCQLQuery {
+  createDCQLAgeQuery(
+    minAge: number,
+    format: 'jwt_vc' | 'dc+sd-jwt' | 'mso_mdoc' = 'jwt_vc',
+  ): DCQLQuery {
+    if (format === 'mso_mdoc') {
+      // ISO 18013-5 age_over_NN elements have two-digit thresholds
+      if (!Number.isInteger(minAge) || minAge < 0 || minAge > 99) {
+        throw new ZkIdValidationError('mdoc age_over minAge must be an integer 0-99', 'minAge');
+      }
+      return {
+        id: `age-verification-dcql-${Date.now()}`,
+        name: 'Age Verification',
+        purpose: `Prove you are at least ${minAge} years old`,
+        credentials: [
+          {
+            id: 'age-credential',
+            type: [MDL_DOCTYPE],
+            format,
+            claims: [
+              {
+                path: `$['${MDL_NAMESPACE}']['age_over_${String(minAge).padStart(2, '0')}']`,
+                filter: { type: 'boolean', const: true },
+              },
+            ],
+          },
+        ],
+      };
+    }
+
+    const sdJwt = format === SD_JWT_VC_TYP;
     return {
       id: `age-verification-dcql-${Date.now()}`,
       name: 'Age Verification',
@@ -3241,11 +5148,11 @@ export class OpenID4VPVerifier {
       credentials: [
         {
           id: 'age-credential',
-          type: ['VerifiableCredential', 'AgeCredential'],
-          format: 'jwt_vc',
+          type: sdJwt ? [ZK_ID_SD_JWT_VCT] : ['VerifiableCredential', 'AgeCredential'],
+          format,
           claims: [
             {
-              path: '$.credentialSubject.birthYear',
+              path: sdJwt ? '$.birthYear' : '$.credentialSubject.birthYear',
               filter: {
                 type: 'number',
                 maximum: new Date().getFullYear() - minAge,
@@ -3284,6 +5191,69 @@ export class OpenID4VPVerifier {
     return `openid4vp://?${params.toString()}`;
   }
 
+  /**
+   * Encode an authorization request as a request object JWT (JAR)
+   *
+   * Signed with `requestObjectSigning` when configured, otherwise unsigned
+   * (only acceptable to wallets for `redirect_uri:` client IDs).
+   *
+   * @param authRequest - Authorization request
+   * @returns Compact request object JWT
+   */
+  createRequestObject(authRequest: AuthorizationRequest): string {
+    const iat = Math.floor(Date.now() / 1000);
+    return signRequestObject(
+      {
+        ...authRequest,
+        aud: 'https://self-issued.me/v2',
+        iat,
+        exp: iat + (this.config.requestObjectTtlSeconds ?? 300),
+      },
+      this.config.requestObjectSigning,
+    );
+  }
+
+  /**
+   * Publish an authorization request by reference (`request_uri`)
+   *
+   * The request object is kept until the presentation is verified; serve it
+   * from `${verifierUrl}/openid4vp/request/:id` with {@link getRequestObject}.
+   * The deep link only carries client_id and request_uri, which keeps QR codes small.
+   *
+   * @param authRequest - Authorization request
+   * @returns The request_uri and an openid4vp:// deep link referencing it
+   */
+  publishRequestObject(authRequest: AuthorizationRequest): {
+    requestUri: string;
+    deepLink: string;
+  } {
+    const id = randomBytes(16).toString('hex');
+    this.publishedRequests.set(id, {
+      state: authRequest.state,
+      requestObject: this.createRequestObject(authRequest),
+    });
+
+    const requestUri = `${this.config.verifierUrl}/openid4vp/request/${id}`;
+    const params = new URLSearchParams({
+      client_id: authRequest.client_id,
+      request_uri: requestUri,
+    });
+
+    return { requestUri, deepLink: `openid4vp://?${params.toString()}` };
+  }
+
+  /**
+   * Look up a published request object
+   *
+   * Serve the result with `Content-Type: application/oauth-authz-req+jwt`.
+   *
+   * @param id - Identifier from the request_uri path
+   * @returns Request object JWT, or undefined if unknown or already used
+   */
+  getRequestObject(id: string): string | undefined {
+    return this.publishedRequests.get(id)?.requestObject;
+  }
+
   /**
    * Create authorization request with deep link for same-device flow
    *
@@ -3406,6 +5376,20 @@ export class OpenID4VPVerifier {
       };
     }
 
+    const sdJwtQuery = authRequest.dcql_query?.credentials.find((c) => c.format === SD_JWT_VC_TYP);
+    if (sdJwtQuery) {
+      const result = await this.verifySdJwtPresentation(response, authRequest, sdJwtQuery);
+      this.cleanUpRequest(response.state);
+      return result;
+    }
+
+    const mdocQuery = authRequest.dcql_query?.credentials.find((c) => c.format === 'mso_mdoc');
+    if (mdocQuery) {
+      const result = await this.verifyMdocPresentation(response, authRequest, mdocQuery);
+      this.cleanUpRequest(response.state);
+      return result;
+    }
+
     // Decode VP token (decrypt if encrypted)
     let vp: VerifiablePresentation;
     try {
@@ -3473,12 +5457,179 @@ export class OpenID4VPVerifier {
     // Verify using underlying zk-id server
     const result = await this.config.zkIdServer.verifyProof(proofResponse, clientIdentifier);
 
-    // Clean up pending request
-    this.pendingRequests.delete(response.state);
+    this.cleanUpRequest(response.state);
 
     return result;
   }
 
+  /**
+   * Verify a `dc+sd-jwt` presentation against its DCQL credential query
+   *
+   * Validates the issuer signature (via `sdJwtIssuerRegistry`), `vct`, disclosures
+   * and `_sd_alg`, the KB-JWT holder binding to this request's client_id and
+   * nonce, and that every requested claim was disclosed and satisfies its filter.
+   */
+  private async verifySdJwtPresentation(
+    response: PresentationResponse,
+    authRequest: AuthorizationRequest,
+    credentialQuery: DCQLCredentialQuery,
+  ): Promise<VerificationResult> {
+    const registry = this.config.sdJwtIssuerRegistry;
+    if (!registry) {
+      return { verified: false, error: 'No SD-JWT issuer registry configured' };
+    }
+    if (response.presentation_submission?.definition_id !== authRequest.dcql_query?.id) {
+      return { verified: false, error: 'Presentation definition mismatch' };
+    }
+
+    let claims: Record<string, unknown>;
+    let disclosed: string[];
+    try {
+      const verified = await verifySdJwtVc(response.vp_token, {
+        resolveIssuerKey: async (iss) => {
+          const record = await registry.getIssuer(iss);
+          return record && (record.status ?? 'active') === 'active' ? record.publicKey : null;
+        },
+        expectedVct: credentialQuery.type[0],
+        audience: authRequest.client_id,
+        nonce: authRequest.nonce,
+      });
+      claims = verified.claims;
+      disclosed = verified.disclosures.map((d) => d.name);
+    } catch (error) {
+      return {
+        verified: false,
+        error: error instanceof Error ? error.message : 'Invalid SD-JWT presentation',
+      };
+    }
+
+    for (const constraint of credentialQuery.claims ?? []) {
+      const name = constraint.path.replace(/^\$\./, '');
+      if (!(name in claims)) {
+        return { verified: false, error: `Claim '${name}' was not disclosed` };
+      }
+      if (constraint.filter && !this.matchesFilter(claims[name], constraint.filter)) {
+        return { verified: false, error: `Claim '${name}' does not satisfy the request` };
+      }
+    }
+
+    return {
+      verified: true,
+      claimType: SD_JWT_VC_TYP,
+      revealedFields: Object.fromEntries(disclosed.map((name) => [name, claims[name]])),
+    };
+  }
+
+  /**
+   * Verify an `mso_mdoc` presentation against its DCQL credential query
+   *
+   * The vp_token is a base64url DeviceResponse. Validates the MSO signature
+   * (via `mdocIssuerRegistry`), docType, element digests and validity, the
+   * device signature over this request's OpenID4VP session transcript, and
+   * that every requested element was disclosed and satisfies its filter.
+   */
+  private async verifyMdocPresentation(
+    response: PresentationResponse,
+    authRequest: AuthorizationRequest,
+    credentialQuery: DCQLCredentialQuery,
+  ): Promise<VerificationResult> {
+    const registry = this.config.mdocIssuerRegistry;
+    const iacaTrustAnchors = this.config.mdocIacaTrustAnchors;
+    if (!registry && !iacaTrustAnchors?.length) {
+      return { verified: false, error: 'No mdoc issuer registry configured' };
+    }
+    if (response.presentation_submission?.definition_id !== authRequest.dcql_query?.id) {
+      return { verified: false, error: 'Presentation definition mismatch' };
+    }
+
+    let claims: Record<string, Record<string, unknown>>;
+    try {
+      const documents = await verifyDeviceResponse(Buffer.from(response.vp_token, 'base64url'), {
+        iacaTrustAnchors,
+        resolveIssuerKey: async (kid) => {
+          const record = kid && registry ? await registry.getIssuer(kid) : null;
+          return record && (record.status ?? 'active') === 'active' ? record.publicKey : null;
+        },
+        sessionTranscript: createOpenID4VPSessionTranscript(
+          authRequest.client_id,
+          authRequest.nonce,
+          authRequest.response_uri,
+        ),
+        expectedDocType: credentialQuery.type[0],
+      });
+      if (documents.length !== 1) {
+        return { verified: false, error: 'Expected exactly one mdoc document' };
+      }
+      claims = documents[0].claims;
+    } catch (error) {
+      return {
+        verified: false,
+        error: error instanceof Error ? error.message : 'Invalid mdoc presentation',
+      };
+    }
+
+    for (const constraint of credentialQuery.claims ?? []) {
+      const match = /^\$\['([^']+)'\]\['([^']+)'\]$/.exec(constraint.path);
+      if (!match) {
+        return { verified: false, error: `Unsupported mdoc claim path: ${constraint.path}` };
+      }
+      const [, namespace, element] = match;
+      if (!claims[namespace] || !(element in claims[namespace])) {
+        return { verified: false, error: `Element '${element}' was not disclosed` };
+      }
+      if (constraint.filter && !this.matchesFilter(claims[namespace][element], constraint.filter)) {
+        return { verified: false, error: `Element '${element}' does not satisfy the request` };
+      }
+    }
+
+    // Keyed like MDL_ELEMENTS identifiers, e.g. org.iso.18013.5.1.age_over_18
+    const revealedFields: Record<string, unknown> = {};
+    for (const [namespace, elements] of Object.entries(claims)) {
+      for (const [element, value] of Object.entries(elements)) {
+        revealedFields[`${namespace}.${element}`] = value;
+      }
+    }
+    return { verified: true, claimType: 'mso_mdoc', revealedFields };
+  }
+
+  private matchesFilter(value: unknown, filter: Filter): boolean {
+    if (filter.type === 'number' && typeof value !== 'number') {
+      return false;
+    }
+    if (filter.type === 'string' && typeof value !== 'string') {
+      return false;
+    }
+    if (filter.type === 'boolean' && typeof value !== 'boolean') {
+      return false;
+    }
+    if (filter.const !== undefined && value !== filter.const) {
+      return false;
+    }
+    if (filter.minimum !== undefined && !(typeof value === 'number' && value >= filter.minimum)) {
+      return false;
+    }
+    if (filter.maximum !== undefined && !(typeof value === 'number' && value <= filter.maximum)) {
+      return false;
+    }
+    if (filter.enum && !filter.enum.includes(value as string | number)) {
+      return false;
+    }
+    if (filter.pattern && !(typeof value === 'string' && new RegExp(filter.pattern).test(value))) {
+      return false;
+    }
+    return true;
+  }
+
+  /** Drop a pending request and any request object published for it */
+  private cleanUpRequest(state: string): void {
+    this.pendingRequests.delete(state);
+    for (const [id, published] of this.publishedRequests) {
+      if (published.state === state) {
+        this.publishedRequests.delete(id);
+      }
+    }
+  }
+
   /**
    * Create an OpenID4VP authorization request for BBS+ selective disclosure
    *
@@ -0,0 +1,269 @@
+/**
+ * Verification session tokens.
+ *
+ * After a successful verification ZkIdServer can mint a short-lived signed
+ * JWT recording what was proven — claim types and their public parameters,
+ * the policy id and the credential issuer — so relying parties can remember
+ * "this user proved 18+" without re-proving on every request. Tokens never
+ * contain personal data, nullifiers or proof material.
+ *
+ * Tokens are bound to an audience (the relying party) and carry scopes:
+ * `age:<minAge>`, `nationality:<code>`, `range:<field>:<min>-<max>`,
+ * `predicate:<field>:<op>:<value>` (`predicate:<field>:range:<min>-<max>`),
+ * `nationality-set:<allow|deny>:<hash>`, `policy:<id>`, or the bare claim type
+ * for other claims.
+ */
+
+import { KeyObject, createHash, createPublicKey, randomUUID } from 'crypto';
+import {
+  NationalitySet,
+  PredicateSpec,
+  PredicateType,
+  RANGE_FIELD_SELECTORS,
+  RangeFieldName,
+  ZkIdConfigError,
+  validatePositiveInt,
+} from '@zk-id/core';
+
+/** JWT `typ` header of zk-id session tokens */
+export const SESSION_TOKEN_TYP = 'zkid-session+jwt';
+
+/**
+ * Session token configuration (ZkIdServerConfig.sessionTokens).
+ */
+export interface SessionTokenConfig {
+  /** HMAC secret (at least 32 bytes, HS256) or Ed25519 private key (EdDSA) */
+  signingKey: string | Uint8Array | KeyObject;
+  /** Relying party the tokens are issued for (JWT `aud`) */
+  audience: string;
+  /** JWT `iss` claim (default: 'zk-id') */
+  issuer?: string;
+  /** Token lifetime in seconds (default: 300) */
+  ttlSeconds?: number;
+}
+
+/**
+ * A claim recorded in a session token: the public parameters it was proven for.
+ */
+export interface SessionTokenClaim {
+  claimType: string;
+  minAge?: number;
+  targetNationality?: number;
+  /** Attribute and bounds of a range proof */
+  range?: { fieldName: RangeFieldName; minValue: number; maxValue: number };
+  /** Predicate of a predicate proof */
+  predicate?: PredicateSpec;
+  nationalitySet?: NationalitySet;
+  /** nationalitySetHash() of nationalitySet */
+  nationalitySetHash?: string;
+}
+
+/**
+ * What a session token attests to.
+ */
+export interface SessionTokenPayload {
+  /** Verified claims */
+  claims: SessionTokenClaim[];
+  /** Policy the verification satisfied (policy verifications) */
+  policyId?: string;
+  /** Issuer of the verified signed credential */
+  credentialIssuer?: string;
+}
+
+/**
+ * A verified session token.
+ */
+export interface VerificationSession extends SessionTokenPayload {
+  /** Unique token id (JWT `jti`) */
+  tokenId: string;
+  audience: string;
+  scopes: string[];
+  /** Issuance time in milliseconds since the epoch */
+  issuedAt: number;
+  /** Expiry in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Options for ZkIdServer.verifySessionToken.
+ */
+export interface SessionTokenVerifyOptions {
+  /** Expected audience (default: the configured audience) */
+  audience?: string;
+  /** Scope the token must cover (e.g. 'age:18' or 'policy:checkout') */
+  scope?: string;
+}
+
+/**
+ * Result of verifying a session token.
+ */
+export interface SessionTokenVerification {
+  valid: boolean;
+  session?: VerificationSession;
+  error?: string;
+}
+
+/**
+ * Hash identifying a nationality set's codes in `nationality-set:` scopes:
+ * hex SHA-256 of the sorted, de-duplicated non-zero codes joined by commas.
+ */
+export function nationalitySetHash(set: NationalitySet): string {
+  const codes = [...new Set(set.codes.filter((code) => code !== 0))].sort((a, b) => a - b);
+  return createHash('sha256').update(codes.join(',')).digest('hex');
+}
+
+/** Range field name of a predicate's field selector (the selector number if unnamed) */
+function predicateFieldName(predicate: PredicateSpec): string {
+  const entry = Object.entries(RANGE_FIELD_SELECTORS).find(
+    ([, selector]) => selector === predicate.field,
+  );
+  return entry ? entry[0] : String(predicate.field);
+}
+
+/**
+ * Scopes a session token with the given payload covers.
+ */
+export function sessionTokenScopes(payload: SessionTokenPayload): string[] {
+  const scopes = payload.claims.map((claim) => {
+    if (claim.minAge !== undefined) {
+      return `age:${claim.minAge}`;
+    }
+    if (claim.targetNationality !== undefined) {
+      return `nationality:${claim.targetNationality}`;
+    }
+    if (claim.range !== undefined) {
+      const { fieldName, minValue, maxValue } = claim.range;
+      return `range:${fieldName}:${minValue}-${maxValue}`;
+    }
+    if (claim.predicate !== undefined) {
+      const { type, value, maxValue } = claim.predicate;
+      const field = predicateFieldName(claim.predicate);
+      return type === PredicateType.RANGE
+        ? `predicate:${field}:range:${value}-${maxValue}`
+        : `predicate:${field}:${PredicateType[type].toLowerCase()}:${value}`;
+    }
+    if (claim.nationalitySet !== undefined) {
+      const hash = claim.nationalitySetHash ?? nationalitySetHash(claim.nationalitySet);
+      return `nationality-set:${claim.nationalitySet.mode}:${hash}`;
+    }
+    return claim.claimType;
+  });
+  if (payload.policyId !== undefined) {
+    scopes.push(`policy:${payload.policyId}`);
+  }
+  return [...new Set(scopes)];
+}
+
+/**
+ * Mints and verifies session tokens for ZkIdServer.
+ */
+export class SessionTokenIssuer {
+  private readonly signingKey: Uint8Array | KeyObject;
+  private readonly verificationKey: Uint8Array | KeyObject;
+  private readonly algorithm: 'HS256' | 'EdDSA';
+  private readonly audience: string;
+  private readonly issuer: string;
+  private readonly ttlSeconds: number;
+
+  constructor(config: SessionTokenConfig) {
+    if (!config.audience || typeof config.audience !== 'string') {
+      throw new ZkIdConfigError('sessionTokens.audience is required');
+    }
+    if (config.ttlSeconds !== undefined) {
+      validatePositiveInt(config.ttlSeconds, 'sessionTokens.ttlSeconds');
+    }
+
+    if (config.signingKey instanceof KeyObject) {
+      if (
+        config.signingKey.type !== 'private' ||
+        config.signingKey.asymmetricKeyType !== 'ed25519'
+      ) {
+        throw new ZkIdConfigError('sessionTokens.signingKey must be an Ed25519 private key');
+      }
+      this.algorithm = 'EdDSA';
+      this.signingKey = config.signingKey;
+      this.verificationKey = createPublicKey(config.signingKey);
+    } else {
+      const secret =
+        typeof config.signingKey === 'string'
+          ? new TextEncoder().encode(config.signingKey)
+          : config.signingKey;
+      if (secret.length < 32) {
+        throw new ZkIdConfigError('sessionTokens.signingKey secret must be at least 32 bytes');
+      }
+      this.algorithm = 'HS256';
+      this.signingKey = secret;
+      this.verificationKey = secret;
+    }
+
+    this.audience = config.audience;
+    this.issuer = config.issuer ?? 'zk-id';
+    this.ttlSeconds = config.ttlSeconds ?? 300;
+  }
+
+  /**
+   * Mint a session token.
+   */
+  async mint(payload: SessionTokenPayload): Promise<string> {
+    const { SignJWT } = await import('jose');
+    return new SignJWT({
+      scope: sessionTokenScopes(payload).join(' '),
+      claims: payload.claims,
+      ...(payload.policyId !== undefined ? { policy: payload.policyId } : {}),
+      ...(payload.credentialIssuer !== undefined ? { cred_iss: payload.credentialIssuer } : {}),
+    })
+      .setProtectedHeader({ alg: this.algorithm, typ: SESSION_TOKEN_TYP })
+      .setIssuer(this.issuer)
+      .setAudience(this.audience)
+      .setJti(randomUUID())
+      .setIssuedAt()
+      .setExpirationTime(`${this.ttlSeconds}s`)
+      .sign(this.signingKey);
+  }
+
+  /**
+   * Verify a session token's signature, issuer, audience, expiry and scope.
+   */
+  async verify(
+    token: string,
+    options: SessionTokenVerifyOptions = {},
+  ): Promise<SessionTokenVerification> {
+    const { jwtVerify, errors } = await import('jose');
+    let payload: Record<string, unknown>;
+    try {
+      ({ payload } = await jwtVerify(token, this.verificationKey, {
+        algorithms: [this.algorithm],
+        typ: SESSION_TOKEN_TYP,
+        issuer: this.issuer,
+        audience: options.audience ?? this.audience,
+      }));
+    } catch (error) {
+      if (error instanceof errors.JWTExpired) {
+        return { valid: false, error: 'Session token expired' };
+      }
+      if (error instanceof errors.JWTClaimValidationFailed && error.claim === 'aud') {
+        return { valid: false, error: 'Session token audience mismatch' };
+      }
+      return { valid: false, error: 'Invalid session token' };
+    }
+
+    const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ') : [];
+    if (options.scope !== undefined && !scopes.includes(options.scope)) {
+      return { valid: false, error: `Session token does not cover scope ${options.scope}` };
+    }
+
+    return {
+      valid: true,
+      session: {
+        tokenId: String(payload.jti),
+        audience: options.audience ?? this.audience,
+        scopes,
+        claims: Array.isArray(payload.claims) ? (payload.claims as SessionTokenClaim[]) : [],
+        ...(typeof payload.policy === 'string' ? { policyId: payload.policy } : {}),
+        ...(typeof payload.cred_iss === 'string' ? { credentialIssuer: payload.cred_iss } : {}),
+        issuedAt: Number(payload.iat) * 1000,
+        expiresAt: Number(payload.exp) * 1000,
+      },
+    };
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Trust-list-backed issuer registry.
+ *
+ * Populates issuer records from a signed trust list published by a governance
+ * body instead of configuring issuers by hand. The list signature is checked
+ * against pinned trust anchors on every refresh; once the list passes its
+ * `nextUpdate` without a valid replacement, every issuer lookup fails closed.
+ */
+
+import type { KeyObject, webcrypto } from 'crypto';
+import {
+  SignedTrustList,
+  TrustList,
+  ZkIdConfigError,
+  trustListEntryPublicKey,
+  verifyTrustList,
+} from '@zk-id/core';
+import { IssuerRecord, IssuerRegistry } from './server';
+
+/**
+ * Configuration for TrustListIssuerRegistry.
+ */
+export interface TrustListIssuerRegistryConfig {
+  /** Fetch the current list and its detached JWS (e.g. from the governance body's URL) */
+  fetchTrustList: () => Promise<SignedTrustList>;
+  /** Pinned governance body keys */
+  trustAnchors: Array<KeyObject | webcrypto.JsonWebKey>;
+  /** Refresh at least this often, even if nextUpdate is later. Default: only at nextUpdate. */
+  maxRefreshIntervalMs?: number;
+  /** Delay before retrying a failed refresh. Default: 60 seconds. */
+  retryIntervalMs?: number;
+}
+
+/**
+ * Issuer registry backed by a signed trust list.
+ *
+ * Lookups refresh the list lazily when it is due (at `nextUpdate`, or after
+ * `maxRefreshIntervalMs`); `start()` additionally refreshes on a timer so
+ * lookups never wait on the network. A refreshed list must not have a lower
+ * `sequenceNumber` than the current one.
+ *
+ * Usage:
+ * ```typescript
+ * const registry = new TrustListIssuerRegistry({
+ *   fetchTrustList: async () => {
+ *     const [list, signature] = await Promise.all([
+ *       fetch('https://trust.example/list.json').then((r) => r.text()),
+ *       fetch('https://trust.example/list.jws').then((r) => r.text()),
+ *     ]);
+ *     return { list, signature };
+ *   },
+ *   trustAnchors: [governanceBodyPublicKey],
+ * });
+ * registry.start();
+ * const server = new ZkIdServer({ ..., issuerRegistry: registry });
+ * ```
+ */
+export class TrustListIssuerRegistry implements IssuerRegistry {
+  private readonly config: TrustListIssuerRegistryConfig;
+  private readonly retryIntervalMs: number;
+  private trustList: TrustList | null = null;
+  private records = new Map<string, IssuerRecord[]>();
+  private refreshDueMs = 0;
+  private inFlight?: Promise<void>;
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(config: TrustListIssuerRegistryConfig) {
+    if (config.trustAnchors.length === 0) {
+      throw new ZkIdConfigError('At least one trust anchor is required');
+    }
+    this.config = config;
+    this.retryIntervalMs = config.retryIntervalMs ?? 60 * 1000;
+  }
+
+  /**
+   * Return the best matching record for the issuer: the first active record
+   * within its validity window, otherwise the first record (the caller
+   * enforces status and validity). Returns null when the list is missing or
+   * has expired.
+   */
+  async getIssuer(issuer: string): Promise<IssuerRecord | null> {
+    const records = await this.listRecords(issuer);
+    if (records.length === 0) {
+      return null;
+    }
+    const now = Date.now();
+    const active = records.find((r) => {
+      if (r.status && r.status !== 'active') return false;
+      if (r.validFrom && Date.parse(r.validFrom) > now) return false;
+      if (r.validTo && Date.parse(r.validTo) < now) return false;
+      return true;
+    });
+    return active ?? records[0];
+  }
+
+  /**
+   * List all records for an issuer (compatible with DashboardIssuerRegistry).
+   */
+  async listRecords(issuer: string): Promise<IssuerRecord[]> {
+    if (Date.now() >= this.refreshDueMs) {
+      try {
+        await this.refresh();
+      } catch {
+        // Keep serving the current list until it expires
+      }
+    }
+    if (!this.trustList || Date.now() >= Date.parse(this.trustList.nextUpdate)) {
+      return [];
+    }
+    return this.records.get(issuer) ?? [];
+  }
+
+  /**
+   * Fetch and verify the trust list now, replacing the current one.
+   *
+   * @throws Error if fetching or verification fails (the current list is kept)
+   */
+  refresh(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.load().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * The currently loaded trust list, or null.
+   */
+  getTrustList(): TrustList | null {
+    return this.trustList;
+  }
+
+  /**
+   * Refresh in the background whenever the list is due.
+   */
+  start(): void {
+    this.stop();
+    const delay = Math.max(0, Math.min(this.refreshDueMs - Date.now(), 2 ** 31 - 1));
+    this.refreshTimer = setTimeout(() => {
+      this.refresh()
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.refreshTimer) {
+            this.start();
+          }
+        });
+    }, delay);
+    this.refreshTimer.unref?.();
+  }
+
+  /**
+   * Stop background refreshing (if started).
+   */
+  stop(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  private async load(): Promise<void> {
+    let list: TrustList;
+    try {
+      list = verifyTrustList(await this.config.fetchTrustList(), {
+        trustAnchors: this.config.trustAnchors,
+        minSequenceNumber: this.trustList?.sequenceNumber,
+      });
+    } catch (error) {
+      this.refreshDueMs = Date.now() + this.retryIntervalMs;
+      throw error;
+    }
+
+    const records = new Map<string, IssuerRecord[]>();
+    for (const entry of list.entries) {
+      const record: IssuerRecord = {
+        issuer: entry.issuer,
+        publicKey: trustListEntryPublicKey(entry),
+        status: entry.status ?? 'active',
+        validFrom: entry.validFrom,
+        validTo: entry.validTo,
+        jurisdiction: entry.jurisdiction,
+        policyUrl: entry.policyUrl,
+        auditUrl: entry.auditUrl,
+      };
+      records.set(entry.issuer, [...(records.get(entry.issuer) ?? []), record]);
+    }
+
+    this.trustList = list;
+    this.records = records;
+    const nextUpdateMs = Date.parse(list.nextUpdate);
+    this.refreshDueMs =
+      this.config.maxRefreshIntervalMs !== undefined
+        ? Math.min(nextUpdateMs, Date.now() + this.config.maxRefreshIntervalMs)
+        : nextUpdateMs;
+  }
+}
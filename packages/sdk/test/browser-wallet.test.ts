@@ -1,6 +1,17 @@
 import { expect } from 'chai';
-import { BrowserWallet, InMemoryCredentialStore, CredentialStore } from '../src/browser-wallet';
-import { SignedCredential } from '@zk-id/core';
+import {
+  BrowserWallet,
+  InMemoryBBSCredentialStore,
+  InMemoryCredentialStore,
+  CredentialStore,
+} from '../src/browser-wallet';
+import {
+  OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT,
+  SerializedBBSCredential,
+  SignedCredential,
+  ZKID_BBS_CREDENTIAL_FORMAT,
+  ZKID_SIGNED_CREDENTIAL_FORMAT,
+} from '@zk-id/core';
 
 // ---------------------------------------------------------------------------
 // Test fixtures
@@ -485,5 +496,227 @@ describe('BrowserWallet', () => {
         expect(error.message).to.include('Age-revocable circuit paths');
       }
     });
+
+    it('throws when nationality-revocable circuit paths are not configured', async () => {
+      const store = new InMemoryCredentialStore();
+      const wallet = new BrowserWallet({
+        credentialStore: store,
+        circuitPaths: {
+          ageWasm: '/circuits/age.wasm',
+          ageZkey: '/circuits/age.zkey',
+          // revocable paths intentionally omitted
+        },
+        revocationRootEndpoint: 'http://localhost/api/revocation/root',
+      });
+
+      await wallet.addCredential(makeSignedCredential({ id: 'c1' }));
+
+      try {
+        await wallet.requestProof({
+          claimType: 'nationality-revocable',
+          targetNationality: 840,
+          nonce: 'test',
+          timestamp: new Date().toISOString(),
+        });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('Nationality-revocable circuit paths');
+      }
+    });
+
+    it('throws when age-unlinkable circuit paths are not configured', async () => {
+      const store = new InMemoryCredentialStore();
+      const wallet = new BrowserWallet({
+        credentialStore: store,
+        circuitPaths: {
+          ageWasm: '/circuits/age.wasm',
+          ageZkey: '/circuits/age.zkey',
+          // unlinkable paths intentionally omitted
+        },
+        revocationRootEndpoint: 'http://localhost/api/revocation/root',
+      });
+
+      await wallet.addCredential(makeSignedCredential({ id: 'c1' }));
+
+      try {
+        await wallet.requestProof({
+          claimType: 'age-unlinkable',
+          minAge: 18,
+          nonce: 'test',
+          timestamp: new Date().toISOString(),
+        });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('Age-unlinkable circuit paths');
+      }
+    });
+
+    it('throws when nationality set circuit paths are not configured', async () => {
+      const store = new InMemoryCredentialStore();
+      const wallet = new BrowserWallet({
+        credentialStore: store,
+        circuitPaths: {
+          ageWasm: '/circuits/age.wasm',
+          ageZkey: '/circuits/age.zkey',
+          // nationality set paths intentionally omitted
+        },
+      });
+
+      await wallet.addCredential(makeSignedCredential({ id: 'c1' }));
+
+      try {
+        await wallet.requestProof({
+          claimType: 'nationality-set',
+          nationalitySet: { mode: 'allow', codes: [276, 250] },
+          nonce: 'test',
+          timestamp: new Date().toISOString(),
+        });
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('Nationality set circuit paths');
+      }
+    });
+  });
+
+  describe('acceptCredentialOffer()', () => {
+    const issuerUrl = 'https://issuer.example';
+    const bbsCredential: SerializedBBSCredential = {
+      schemaId: 'age-verification',
+      fields: { birthYear: 1990 },
+      signature: 'bbs-signature',
+      publicKey: 'bbs-public-key',
+      issuer: 'TestIssuer',
+      issuedAt: new Date().toISOString(),
+    };
+    const originalFetch = globalThis.fetch;
+    let pending: boolean;
+    let tokenRequest: URLSearchParams | undefined;
+
+    function offerUri(ids: string[], txCode = false): string {
+      const offer = {
+        credential_issuer: issuerUrl,
+        credential_configuration_ids: ids,
+        grants: {
+          [OPENID4VCI_PRE_AUTHORIZED_CODE_GRANT]: {
+            'pre-authorized_code': 'code-1',
+            ...(txCode ? { tx_code: { input_mode: 'numeric', length: 6 } } : {}),
+          },
+        },
+      };
+      return `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+    }
+
+    beforeEach(() => {
+      pending = false;
+      tokenRequest = undefined;
+      (global as any).fetch = async (url: string, options: any = {}) => {
+        const json = (status: number, body: unknown) => ({
+          ok: status < 300,
+          status,
+          statusText: String(status),
+          json: async () => body,
+        });
+        switch (url) {
+          case `${issuerUrl}/.well-known/openid-credential-issuer`:
+            return json(200, {
+              credential_issuer: issuerUrl,
+              credential_endpoint: `${issuerUrl}/credential`,
+              deferred_credential_endpoint: `${issuerUrl}/deferred`,
+              credential_configurations_supported: {
+                ZkIdSignedCredential: { format: ZKID_SIGNED_CREDENTIAL_FORMAT },
+                ZkIdBBSCredential: { format: ZKID_BBS_CREDENTIAL_FORMAT },
+              },
+            });
+          case `${issuerUrl}/.well-known/oauth-authorization-server`:
+            return json(200, { token_endpoint: `${issuerUrl}/token` });
+          case `${issuerUrl}/token`:
+            tokenRequest = new URLSearchParams(options.body);
+            return json(200, { access_token: 'token-1', c_nonce: 'nonce-1' });
+          case `${issuerUrl}/credential`: {
+            const { credential_configuration_id: id } = JSON.parse(options.body);
+            if (pending) {
+              return json(202, { transaction_id: 'tx-1', interval: 1 });
+            }
+            return json(200, {
+              credentials: [
+                {
+                  credential:
+                    id === 'ZkIdBBSCredential'
+                      ? bbsCredential
+                      : makeSignedCredential({ id: 'issued-1' }),
+                },
+              ],
+            });
+          }
+          case `${issuerUrl}/deferred`:
+            return pending
+              ? json(202, { transaction_id: 'tx-1', interval: 1 })
+              : json(200, {
+                  credentials: [{ credential: makeSignedCredential({ id: 'late-1' }) }],
+                });
+          default:
+            return json(404, {});
+        }
+      };
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    it('stores zk-id and BBS+ credentials from an offer', async () => {
+      const wallet = new BrowserWallet({
+        credentialStore: new InMemoryCredentialStore(),
+        bbsCredentialStore: new InMemoryBBSCredentialStore(),
+        circuitPaths: { ageWasm: '/age.wasm', ageZkey: '/age.zkey' },
+      });
+
+      const result = await wallet.acceptCredentialOffer(
+        offerUri(['ZkIdSignedCredential', 'ZkIdBBSCredential']),
+      );
+
+      expect(result.credentials).to.have.length(2);
+      expect((await wallet.listCredentials()).map((c) => c.credential.id)).to.deep.equal([
+        'issued-1',
+      ]);
+      expect(await wallet.getBBSCredentials()).to.deep.equal([bbsCredential]);
+    });
+
+    it('skips BBS+ credentials without a BBS store and prompts for the transaction code', async () => {
+      const prompts: unknown[] = [];
+      const wallet = new BrowserWallet({
+        credentialStore: new InMemoryCredentialStore(),
+        circuitPaths: { ageWasm: '/age.wasm', ageZkey: '/age.zkey' },
+        onTxCode: async (txCode) => {
+          prompts.push(txCode);
+          return '123456';
+        },
+      });
+
+      const result = await wallet.acceptCredentialOffer(
+        offerUri(['ZkIdSignedCredential', 'ZkIdBBSCredential'], true),
+      );
+
+      expect(prompts).to.deep.equal([{ input_mode: 'numeric', length: 6 }]);
+      expect(tokenRequest!.get('tx_code')).to.equal('123456');
+      expect(result.credentials.map((c) => c.configurationId)).to.deep.equal([
+        'ZkIdSignedCredential',
+      ]);
+    });
+
+    it('stores deferred credentials once issued', async () => {
+      const wallet = createWallet();
+      pending = true;
+
+      const result = await wallet.acceptCredentialOffer(offerUri(['ZkIdSignedCredential']));
+      expect(result.deferred).to.have.length(1);
+      expect(await wallet.pollDeferredCredential(result.deferred[0])).to.equal(false);
+
+      pending = false;
+      expect(await wallet.pollDeferredCredential(result.deferred[0])).to.equal(true);
+      expect((await wallet.listCredentials()).map((c) => c.credential.id)).to.deep.equal([
+        'late-1',
+      ]);
+    });
   });
 });
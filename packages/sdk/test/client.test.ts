@@ -1,13 +1,18 @@
 import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
 import { ZkIdClient, WalletConnector, InMemoryWallet } from '../src/client';
+import { InMemoryIssuerRegistry } from '../src/server';
 import {
   ProofRequest,
+  RevocationRootInfo,
+  signRevocationRoot,
   SignedCredential,
   ZkIdConfigError,
   ZkIdCredentialError,
   ZkIdProofError,
   VerificationScenario,
 } from '@zk-id/core';
+import { SessionTokenIssuer } from '../src/session-token';
 
 describe('SDK Client Tests', () => {
   const mockSignedCredential: SignedCredential = {
@@ -238,6 +243,125 @@ describe('SDK Client Tests', () => {
         expect(result).to.be.false;
       });
 
+      it('should reuse an unexpired session token instead of proving again', async () => {
+        let proofRequests = 0;
+        const mockWallet: WalletConnector = {
+          isAvailable: async () => true,
+          requestProof: async (req) => {
+            proofRequests++;
+            return {
+              credentialId: 'test-cred',
+              claimType: req.claimType,
+              proof: {} as any,
+              signedCredential: mockSignedCredential,
+              nonce: req.nonce,
+              requestTimestamp: req.timestamp,
+            };
+          },
+        };
+        const sessionToken = await new SessionTokenIssuer({
+          signingKey: 'session-token-secret-of-32-bytes!',
+          audience: 'http://localhost:3000',
+        }).mint({ claims: [{ claimType: 'age', minAge: 18 }] });
+
+        // Mock fetch: the endpoint accepts the token it issued for the requested scope
+        const tokenChecks: string[] = [];
+        (global as any).fetch = async (_url: string, options: any) => {
+          const authorization = options.headers['Authorization'];
+          if (authorization) {
+            tokenChecks.push(JSON.parse(options.body).scope);
+            const verified = authorization === `Bearer ${sessionToken}`;
+            return {
+              ok: verified,
+              status: verified ? 200 : 401,
+              json: async () => ({ verified }),
+              statusText: verified ? 'OK' : 'Unauthorized',
+              headers: { get: () => null },
+            };
+          }
+          return {
+            ok: true,
+            json: async () => ({ verified: true, sessionToken }),
+            statusText: 'OK',
+            headers: { get: () => null },
+          };
+        };
+
+        const client = new ZkIdClient({
+          verificationEndpoint: 'http://localhost:3000/verify',
+          walletConnector: mockWallet,
+        });
+
+        expect(await client.verifyAge(18)).to.be.true;
+        expect(await client.verifyAge(18)).to.be.true;
+        expect(proofRequests).to.equal(1);
+        expect(tokenChecks).to.deep.equal(['age:18']);
+        expect(client.getSessionToken('age:18')).to.equal(sessionToken);
+
+        // A different claim still needs a proof
+        expect(await client.verifyAge(21)).to.be.true;
+        expect(proofRequests).to.equal(2);
+
+        client.clearSessionTokens();
+        expect(client.getSessionToken('age:18')).to.be.undefined;
+      });
+
+      it('should prove again when the endpoint rejects a cached session token', async () => {
+        let proofRequests = 0;
+        const mockWallet: WalletConnector = {
+          isAvailable: async () => true,
+          requestProof: async (req) => {
+            proofRequests++;
+            return {
+              credentialId: 'test-cred',
+              claimType: req.claimType,
+              proof: {} as any,
+              signedCredential: mockSignedCredential,
+              nonce: req.nonce,
+              requestTimestamp: req.timestamp,
+            };
+          },
+        };
+        // A token the client cannot check locally, e.g. forged or revoked server-side
+        const forgedToken = await new SessionTokenIssuer({
+          signingKey: 'attacker-secret-of-at-least-32-bytes',
+          audience: 'http://localhost:3000',
+        }).mint({ claims: [{ claimType: 'age', minAge: 18 }] });
+
+        let proofVerified = false;
+        (global as any).fetch = async (_url: string, options: any) => {
+          if (options.headers['Authorization']) {
+            return {
+              ok: false,
+              status: 401,
+              json: async () => ({ verified: false }),
+              statusText: 'Unauthorized',
+              headers: { get: () => null },
+            };
+          }
+          return {
+            ok: true,
+            json: async () => ({ verified: proofVerified, sessionToken: forgedToken }),
+            statusText: 'OK',
+            headers: { get: () => null },
+          };
+        };
+
+        const client = new ZkIdClient({
+          verificationEndpoint: 'http://localhost:3000/verify',
+          walletConnector: mockWallet,
+        });
+        await (client as any).storeSessionToken(forgedToken);
+
+        expect(await client.verifyAge(18)).to.be.false;
+        expect(proofRequests).to.equal(1);
+        expect(client.getSessionToken('age:18')).to.be.undefined;
+
+        proofVerified = true;
+        expect(await client.verifyAge(18)).to.be.true;
+        expect(proofRequests).to.equal(2);
+      });
+
       it('should return false when wallet throws error', async () => {
         const mockWallet: WalletConnector = {
           isAvailable: async () => true,
@@ -731,7 +855,7 @@ describe('SDK Client Tests', () => {
         expect(info.source).to.equal('test-registry');
       });
 
-      it('warns when root is stale and maxRevocationRootAgeMs is set', async () => {
+      it('rejects stale roots when maxRevocationRootAgeMs is set', async () => {
         const staleDate = new Date(Date.now() - 600_000).toISOString(); // 10 min ago
         const mockRoot = {
           root: '789',
@@ -746,25 +870,22 @@ describe('SDK Client Tests', () => {
           headers: { get: () => null },
         });
 
-        const warnings: string[] = [];
-        const origWarn = console.warn;
-        console.warn = (msg: string) => warnings.push(msg);
-
         const client = new ZkIdClient({
           verificationEndpoint: 'http://localhost:3000/verify',
           revocationRootEndpoint: 'http://localhost:3000/api/revocation/root',
           maxRevocationRootAgeMs: 60_000, // 1 min
         });
 
-        const info = await client.fetchRevocationRootInfo();
-        console.warn = origWarn;
-
-        expect(info.root).to.equal('789');
-        expect(warnings.length).to.be.greaterThan(0);
-        expect(warnings[0]).to.include('stale');
+        try {
+          await client.fetchRevocationRootInfo();
+          expect.fail('Should have thrown');
+        } catch (error: any) {
+          expect(error).to.be.instanceOf(ZkIdProofError);
+          expect(error.code).to.equal('REVOCATION_ROOT_STALE');
+        }
       });
 
-      it('does not warn when root is fresh', async () => {
+      it('accepts fresh roots when maxRevocationRootAgeMs is set', async () => {
         const freshDate = new Date().toISOString();
         const mockRoot = {
           root: '111',
@@ -779,20 +900,94 @@ describe('SDK Client Tests', () => {
           headers: { get: () => null },
         });
 
-        const warnings: string[] = [];
-        const origWarn = console.warn;
-        console.warn = (msg: string) => warnings.push(msg);
-
         const client = new ZkIdClient({
           verificationEndpoint: 'http://localhost:3000/verify',
           revocationRootEndpoint: 'http://localhost:3000/api/revocation/root',
           maxRevocationRootAgeMs: 60_000,
         });
 
-        await client.fetchRevocationRootInfo();
-        console.warn = origWarn;
+        const info = await client.fetchRevocationRootInfo();
+        expect(info.root).to.equal('111');
+      });
+
+      describe('with issuerRegistry', () => {
+        const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+        let served: RevocationRootInfo;
+
+        function signedRoot(
+          version: number,
+          expiresInMs: number | null = 60_000,
+        ): RevocationRootInfo {
+          const expiresAt =
+            expiresInMs === null ? undefined : new Date(Date.now() + expiresInMs).toISOString();
+          return signRevocationRoot(
+            { root: `root-${version}`, version, updatedAt: new Date().toISOString(), expiresAt },
+            'TestIssuer',
+            privateKey,
+          );
+        }
+
+        function createClient(): ZkIdClient {
+          (global as any).fetch = async () => ({
+            ok: true,
+            json: async () => served,
+            statusText: 'OK',
+            headers: { get: () => null },
+          });
+          return new ZkIdClient({
+            verificationEndpoint: 'http://localhost:3000/verify',
+            revocationRootEndpoint: 'http://localhost:3000/api/revocation/root',
+            issuerRegistry: new InMemoryIssuerRegistry([{ issuer: 'TestIssuer', publicKey }]),
+          });
+        }
 
-        expect(warnings.length).to.equal(0);
+        async function expectRejected(client: ZkIdClient, code: string): Promise<void> {
+          try {
+            await client.fetchRevocationRootInfo();
+            expect.fail('Should have thrown');
+          } catch (error: any) {
+            expect(error).to.be.instanceOf(ZkIdProofError);
+            expect(error.code).to.equal(code);
+          }
+        }
+
+        it('accepts roots signed by a registered issuer', async () => {
+          served = signedRoot(3);
+          const info = await createClient().fetchRevocationRootInfo();
+          expect(info.root).to.equal('root-3');
+          expect(info.issuer).to.equal('TestIssuer');
+        });
+
+        it('rejects unsigned, forged and unknown-issuer roots', async () => {
+          const client = createClient();
+          const { issuer: _issuer, signature: _signature, ...unsigned } = signedRoot(3);
+
+          for (const root of [
+            unsigned,
+            { ...signedRoot(3), root: 'forged-root' },
+            { ...signedRoot(3), issuer: 'OtherIssuer' },
+          ]) {
+            served = root;
+            await expectRejected(client, 'INVALID_REVOCATION_ROOT');
+          }
+        });
+
+        it('rejects expired signed roots and roots without an expiry', async () => {
+          const client = createClient();
+          for (const expiresInMs of [-1000, null]) {
+            served = signedRoot(3, expiresInMs);
+            await expectRejected(client, 'REVOCATION_ROOT_EXPIRED');
+          }
+        });
+
+        it('rejects version rollbacks from a mirror', async () => {
+          const client = createClient();
+          served = signedRoot(5);
+          await client.fetchRevocationRootInfo();
+
+          served = signedRoot(4);
+          await expectRejected(client, 'REVOCATION_ROOT_ROLLBACK');
+        });
       });
     });
 
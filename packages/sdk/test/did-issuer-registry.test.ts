@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { DidDocument, DidFetch, UniversalDidResolver } from '@zk-id/core';
+import { DidIssuerRegistry } from '../src/did-issuer-registry';
+
+const DID = 'did:web:gov.example';
+const DID_URL = 'https://gov.example/.well-known/did.json';
+
+function didDocument(...keys: Array<[string, KeyObject]>): DidDocument {
+  return {
+    id: DID,
+    verificationMethod: keys.map(([id, key]) => ({
+      id: `${DID}#${id}`,
+      type: 'JsonWebKey2020',
+      controller: DID,
+      publicKeyJwk: key.export({ format: 'jwk' }),
+    })),
+    assertionMethod: keys.map(([id]) => `#${id}`),
+  };
+}
+
+describe('DidIssuerRegistry', () => {
+  const key1 = generateKeyPairSync('ed25519').publicKey;
+  const key2 = generateKeyPairSync('ed25519').publicKey;
+
+  let documents: Record<string, unknown>;
+  let fetchCount: number;
+  const fetchFn: DidFetch = async (url) => {
+    fetchCount++;
+    const body = documents[url];
+    return { ok: body !== undefined, status: body ? 200 : 404, json: async () => body };
+  };
+
+  function createRegistry(cacheTtlMs?: number) {
+    return new DidIssuerRegistry({
+      resolver: new UniversalDidResolver({ fetch: fetchFn }),
+      issuers: [{ did: DID, jurisdiction: 'US' }],
+      cacheTtlMs,
+    });
+  }
+
+  beforeEach(() => {
+    documents = { [DID_URL]: didDocument(['key-1', key1]) };
+    fetchCount = 0;
+  });
+
+  it('returns the first assertion key of a trusted DID', async () => {
+    const record = await createRegistry().getIssuer(DID);
+
+    expect(record).to.deep.include({ issuer: DID, status: 'active', jurisdiction: 'US' });
+    expect(record!.publicKey.equals(key1)).to.be.true;
+  });
+
+  it('selects a specific key by DID URL', async () => {
+    documents[DID_URL] = didDocument(['key-1', key1], ['key-2', key2]);
+    const registry = createRegistry();
+
+    expect((await registry.getIssuer(`${DID}#key-2`))!.publicKey.equals(key2)).to.be.true;
+    expect(await registry.getIssuer(`${DID}#key-3`)).to.be.null;
+    expect((await registry.listRecords(DID)).map((r) => r.keyId)).to.deep.equal([
+      `${DID}#key-1`,
+      `${DID}#key-2`,
+    ]);
+  });
+
+  it('ignores untrusted DIDs without resolving them', async () => {
+    const registry = createRegistry();
+    const emptyRegistry = new DidIssuerRegistry({
+      resolver: new UniversalDidResolver({ fetch: fetchFn }),
+      issuers: [],
+    });
+
+    expect(await registry.getIssuer('did:web:attacker.example')).to.be.null;
+    expect(await emptyRegistry.getIssuer(DID)).to.be.null;
+    expect(fetchCount).to.equal(0);
+  });
+
+  it('caches resolution and follows key rotation after expiry', async () => {
+    const registry = createRegistry();
+    await registry.getIssuer(DID);
+    await registry.getIssuer(`${DID}#key-1`);
+    expect(fetchCount).to.equal(1);
+
+    // Issuer rotates to key-2; the cached document is served until invalidated
+    documents[DID_URL] = didDocument(['key-2', key2]);
+    expect((await registry.getIssuer(DID))!.publicKey.equals(key1)).to.be.true;
+
+    registry.invalidate(DID);
+    expect((await registry.getIssuer(DID))!.publicKey.equals(key2)).to.be.true;
+    expect(await registry.getIssuer(`${DID}#key-1`)).to.be.null;
+
+    const uncached = createRegistry(0);
+    await uncached.getIssuer(DID);
+    await uncached.getIssuer(DID);
+    expect(fetchCount).to.equal(4);
+  });
+
+  it('fails closed when resolution fails and retries later', async () => {
+    delete documents[DID_URL];
+    const registry = createRegistry();
+    expect(await registry.getIssuer(DID)).to.be.null;
+
+    documents[DID_URL] = didDocument(['key-1', key1]);
+    expect(await registry.getIssuer(DID)).to.not.be.null;
+    expect(fetchCount).to.equal(2);
+  });
+});
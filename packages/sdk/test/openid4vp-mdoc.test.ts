@@ -0,0 +1,180 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import {
+  MDL_DOCTYPE,
+  MDL_NAMESPACE,
+  createDeviceResponse,
+  createOpenID4VPSessionTranscript,
+  issueMdoc,
+  keyObjectSigner,
+} from '@zk-id/core';
+import {
+  AuthorizationRequest,
+  InMemoryIssuerRegistry,
+  OpenID4VPVerifier,
+  PresentationResponse,
+  ZkIdServer,
+} from '../src/server';
+
+// Test IACA root generated with openssl (100-year validity)
+const IACA_PEM = [
+  '-----BEGIN CERTIFICATE-----',
+  'MIIBtzCCAV6gAwIBAgIUIqRAUT1zY5tZIZGQ2MAPBOFZsUkwCgYIKoZIzj0EAwIw',
+  'JzELMAkGA1UEBhMCVVMxGDAWBgNVBAMMD3prLWlkIFRlc3QgSUFDQTAgFw0yNjEw',
+  'MTkxMjA4NDNaGA8yMTI2MDkyNTEyMDg0M1owJzELMAkGA1UEBhMCVVMxGDAWBgNV',
+  'BAMMD3prLWlkIFRlc3QgSUFDQTBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABGO3',
+  'tJBC63ifDQhsDH90acQ/cTMXYKWRuMkWUthMoi5940wh2GB/RQaVOM4EJiysapbB',
+  'vlzPwdr3s5/8P2oNGh6jZjBkMB8GA1UdIwQYMBaAFK82EfAu7jVbk6YJ/fIJeSOz',
+  'CGE7MBIGA1UdEwEB/wQIMAYBAf8CAQAwDgYDVR0PAQH/BAQDAgEGMB0GA1UdDgQW',
+  'BBSvNhHwLu41W5OmCf3yCXkjswhhOzAKBggqhkjOPQQDAgNHADBEAiB8vzYB14yt',
+  'FjOX5HW+L32jIEhuIWncBHhfUACMMMh0ogIgCp43MS88VxtvlGYhrRb5rIGbbszW',
+  'Pex0sMfnFLDLg2c=',
+  '-----END CERTIFICATE-----',
+].join('\n');
+
+describe('OpenID4VP mdoc presentations', () => {
+  const issuerKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const deviceKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const deviceSigner = keyObjectSigner('ES256', deviceKeys.privateKey);
+
+  let verifier: OpenID4VPVerifier;
+
+  function issue(ageOver18: boolean): Promise<Buffer> {
+    return issueMdoc(
+      MDL_DOCTYPE,
+      { [MDL_NAMESPACE]: { age_over_18: ageOver18, age_over_21: false, nationality: 'US' } },
+      deviceKeys.publicKey.export({ format: 'jwk' }),
+      { validUntil: new Date(Date.now() + 86_400_000) },
+      keyObjectSigner('ES256', issuerKeys.privateKey, 'gov-issuer'),
+    );
+  }
+
+  async function present(
+    authRequest: AuthorizationRequest,
+    issuerSigned: Buffer,
+    elements = ['age_over_18'],
+  ): Promise<PresentationResponse> {
+    const deviceResponse = await createDeviceResponse(
+      issuerSigned,
+      { [MDL_NAMESPACE]: elements },
+      deviceSigner,
+      createOpenID4VPSessionTranscript(
+        authRequest.client_id,
+        authRequest.nonce,
+        authRequest.response_uri,
+      ),
+    );
+    return {
+      vp_token: deviceResponse.toString('base64url'),
+      presentation_submission: {
+        id: 'submission-1',
+        definition_id: authRequest.dcql_query!.id,
+        descriptor_map: [{ id: 'age-credential', format: 'mso_mdoc', path: '$' }],
+      },
+      state: authRequest.state,
+    };
+  }
+
+  beforeEach(() => {
+    verifier = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: 'x509_san_dns:verifier.example.com',
+      mdocIssuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'gov-issuer', publicKey: issuerKeys.publicKey, status: 'active' },
+      ]),
+    });
+  });
+
+  function createRequest() {
+    return verifier.createDCQLRequest(verifier.createDCQLAgeQuery(18, 'mso_mdoc'));
+  }
+
+  it('creates an age_over_NN DCQL query for the mDL doctype', () => {
+    const query = verifier.createDCQLAgeQuery(18, 'mso_mdoc');
+    expect(query.credentials[0].type).to.deep.equal([MDL_DOCTYPE]);
+    expect(query.credentials[0].claims![0].path).to.equal("$['org.iso.18013.5.1']['age_over_18']");
+    expect(() => verifier.createDCQLAgeQuery(100, 'mso_mdoc')).to.throw('integer 0-99');
+  });
+
+  it('verifies a DeviceResponse disclosing age_over_18', async () => {
+    const authRequest = createRequest();
+    const result = await verifier.verifyPresentation(await present(authRequest, await issue(true)));
+
+    expect(result.verified).to.be.true;
+    expect(result.claimType).to.equal('mso_mdoc');
+    expect(result.revealedFields).to.deep.equal({ 'org.iso.18013.5.1.age_over_18': true });
+  });
+
+  it('rejects age_over_18 = false and undisclosed elements', async () => {
+    let result = await verifier.verifyPresentation(
+      await present(createRequest(), await issue(false)),
+    );
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal("Element 'age_over_18' does not satisfy the request");
+
+    result = await verifier.verifyPresentation(
+      await present(createRequest(), await issue(true), ['nationality']),
+    );
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal("Element 'age_over_18' was not disclosed");
+  });
+
+  it('rejects a DeviceResponse bound to another request', async () => {
+    const first = createRequest();
+    const second = createRequest();
+    const presentation = await present(first, await issue(true));
+
+    const result = await verifier.verifyPresentation({
+      ...presentation,
+      state: second.state,
+      presentation_submission: {
+        ...presentation.presentation_submission,
+        definition_id: second.dcql_query!.id,
+      },
+    });
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal('deviceSignature signature verification failed');
+  });
+
+  it('rejects untrusted issuers and unconfigured verifiers', async () => {
+    const untrusted = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: 'x509_san_dns:verifier.example.com',
+      mdocIssuerRegistry: new InMemoryIssuerRegistry([]),
+    });
+    const authRequest = untrusted.createDCQLRequest(untrusted.createDCQLAgeQuery(18, 'mso_mdoc'));
+    let result = await untrusted.verifyPresentation(await present(authRequest, await issue(true)));
+    expect(result.error).to.equal('Unknown or untrusted mdoc issuer: gov-issuer');
+
+    const unconfigured = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: 'x509_san_dns:verifier.example.com',
+    });
+    const request = unconfigured.createDCQLRequest(unconfigured.createDCQLAgeQuery(18, 'mso_mdoc'));
+    result = await unconfigured.verifyPresentation(await present(request, await issue(true)));
+    expect(result.error).to.equal('No mdoc issuer registry configured');
+  });
+
+  it('requires an x5chain when IACA trust anchors are configured', async () => {
+    const iacaVerifier = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: 'x509_san_dns:verifier.example.com',
+      mdocIssuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'gov-issuer', publicKey: issuerKeys.publicKey, status: 'active' },
+      ]),
+      mdocIacaTrustAnchors: [IACA_PEM],
+    });
+    const authRequest = iacaVerifier.createDCQLRequest(
+      iacaVerifier.createDCQLAgeQuery(18, 'mso_mdoc'),
+    );
+    const result = await iacaVerifier.verifyPresentation(
+      await present(authRequest, await issue(true)),
+    );
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal('issuerAuth must carry an x5chain');
+  });
+});
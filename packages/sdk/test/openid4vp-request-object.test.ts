@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { ed25519PublicKeyToDIDKey } from '@zk-id/core';
+import { OpenID4VPVerifier, ZkIdServer } from '../src/server';
+import { InMemoryCredentialStore, OpenID4VPWallet } from '../src/browser-wallet';
+
+describe('OpenID4VP request objects', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const x = publicKey.export({ format: 'jwk' }).x as string;
+  const did = ed25519PublicKeyToDIDKey(Buffer.from(x, 'base64url'));
+
+  const originalFetch = global.fetch;
+  let verifier: OpenID4VPVerifier;
+  let wallet: OpenID4VPWallet;
+  let fetchedUrls: string[];
+
+  beforeEach(() => {
+    verifier = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: did,
+      requestObjectSigning: { alg: 'EdDSA', privateKey, kid: `${did}#key-1` },
+    });
+    wallet = new OpenID4VPWallet({
+      credentialStore: new InMemoryCredentialStore(),
+      circuitPaths: { ageWasm: '', ageZkey: '' },
+    });
+
+    fetchedUrls = [];
+    (global as any).fetch = async (url: string) => {
+      fetchedUrls.push(url);
+      const id = url.split('/').pop() as string;
+      const requestObject = verifier.getRequestObject(id);
+      return {
+        ok: requestObject !== undefined,
+        status: requestObject ? 200 : 404,
+        statusText: requestObject ? 'OK' : 'Not Found',
+        text: async () => requestObject ?? '',
+      };
+    };
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('publishes a signed request object and the wallet resolves it by reference', async () => {
+    const authRequest = verifier.createAgeVerificationRequest(18);
+    const { requestUri, deepLink } = verifier.publishRequestObject(authRequest);
+
+    expect(requestUri).to.match(
+      /^https:\/\/verifier\.example\.com\/openid4vp\/request\/[0-9a-f]+$/,
+    );
+    expect(deepLink).to.not.include('presentation_definition');
+
+    const resolved = await wallet.resolveAuthorizationRequest(deepLink);
+
+    expect(fetchedUrls).to.deep.equal([requestUri]);
+    expect(resolved.client_id).to.equal(did);
+    expect(resolved.nonce).to.equal(authRequest.nonce);
+    expect(resolved.state).to.equal(authRequest.state);
+    expect(resolved.presentation_definition).to.deep.equal(authRequest.presentation_definition);
+  });
+
+  it('rejects a request object that does not match the deep link client_id', async () => {
+    const { requestUri } = verifier.publishRequestObject(verifier.createAgeVerificationRequest(18));
+    const deepLink = `openid4vp://?client_id=did:web:evil.example&request_uri=${encodeURIComponent(
+      requestUri,
+    )}`;
+
+    try {
+      await wallet.resolveAuthorizationRequest(deepLink);
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.include('client_id does not match');
+    }
+  });
+
+  it('keeps parseAuthorizationRequest synchronous for plain requests', () => {
+    const { deepLink } = verifier.publishRequestObject(verifier.createAgeVerificationRequest(18));
+    expect(() => wallet.parseAuthorizationRequest(deepLink)).to.throw(
+      'requires resolveAuthorizationRequest',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { ZK_ID_SD_JWT_VCT, issueSdJwt, keyObjectSigner } from '@zk-id/core';
+import { InMemoryIssuerRegistry, OpenID4VPVerifier, ZkIdServer } from '../src/server';
+import { InMemoryCredentialStore, OpenID4VPWallet } from '../src/browser-wallet';
+
+describe('OpenID4VP SD-JWT VC presentations', () => {
+  const issuerKeys = generateKeyPairSync('ed25519');
+  const holderKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const holderSigner = keyObjectSigner('ES256', holderKeys.privateKey);
+
+  let verifier: OpenID4VPVerifier;
+  let wallet: OpenID4VPWallet;
+  let sdJwt: string;
+
+  function issue(birthYear: number): Promise<string> {
+    return issueSdJwt(
+      {
+        iss: 'gov-issuer',
+        iat: Math.floor(Date.now() / 1000),
+        vct: ZK_ID_SD_JWT_VCT,
+        cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) },
+        commitment: '123456789',
+      },
+      { birthYear, nationality: 840 },
+      keyObjectSigner('EdDSA', issuerKeys.privateKey),
+      { decoys: 2 },
+    );
+  }
+
+  beforeEach(async () => {
+    verifier = new OpenID4VPVerifier({
+      zkIdServer: {} as ZkIdServer,
+      verifierUrl: 'https://verifier.example.com',
+      verifierId: 'x509_san_dns:verifier.example.com',
+      sdJwtIssuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'gov-issuer', publicKey: issuerKeys.publicKey, status: 'active' },
+      ]),
+    });
+    wallet = new OpenID4VPWallet({
+      credentialStore: new InMemoryCredentialStore(),
+      circuitPaths: { ageWasm: '', ageZkey: '' },
+    });
+    sdJwt = await issue(1990);
+  });
+
+  function createRequest() {
+    return verifier.createDCQLRequest(verifier.createDCQLAgeQuery(18, 'dc+sd-jwt'));
+  }
+
+  it('verifies a key-bound presentation disclosing only the requested claims', async () => {
+    const authRequest = createRequest();
+    const presentation = await wallet.generateSdJwtPresentation(authRequest, sdJwt, holderSigner);
+
+    expect(presentation.presentation_submission.descriptor_map[0].format).to.equal('dc+sd-jwt');
+
+    const result = await verifier.verifyPresentation(presentation);
+    expect(result.verified).to.be.true;
+    expect(result.claimType).to.equal('dc+sd-jwt');
+    expect(result.revealedFields).to.deep.equal({ birthYear: 1990 });
+  });
+
+  it('rejects presentations whose claims do not satisfy the query', async () => {
+    const authRequest = createRequest();
+    const minor = await issue(new Date().getFullYear() - 10);
+    const presentation = await wallet.generateSdJwtPresentation(authRequest, minor, holderSigner);
+
+    const result = await verifier.verifyPresentation(presentation);
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal("Claim 'birthYear' does not satisfy the request");
+  });
+
+  it('rejects a presentation bound to another request nonce', async () => {
+    const first = createRequest();
+    const second = createRequest();
+    const presentation = await wallet.generateSdJwtPresentation(first, sdJwt, holderSigner);
+
+    const result = await verifier.verifyPresentation({ ...presentation, state: second.state });
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal('KB-JWT nonce mismatch');
+  });
+
+  it('rejects credentials from untrusted issuers', async () => {
+    const rogue = generateKeyPairSync('ed25519');
+    const forged = await issueSdJwt(
+      {
+        iss: 'gov-issuer',
+        vct: ZK_ID_SD_JWT_VCT,
+        cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) },
+      },
+      { birthYear: 1990 },
+      keyObjectSigner('EdDSA', rogue.privateKey),
+    );
+    const presentation = await wallet.generateSdJwtPresentation(
+      createRequest(),
+      forged,
+      holderSigner,
+    );
+
+    const result = await verifier.verifyPresentation(presentation);
+    expect(result.verified).to.be.false;
+    expect(result.error).to.equal('SD-JWT signature verification failed');
+  });
+
+  it('consumes the request after verification', async () => {
+    const presentation = await wallet.generateSdJwtPresentation(
+      createRequest(),
+      sdJwt,
+      holderSigner,
+    );
+    expect((await verifier.verifyPresentation(presentation)).verified).to.be.true;
+
+    const replay = await verifier.verifyPresentation(presentation);
+    expect(replay.error).to.equal('Invalid or expired state parameter');
+  });
+});
@@ -0,0 +1,247 @@
+import { expect } from 'chai';
+import { newDb } from 'pg-mem';
+import {
+  consumeNullifier,
+  InMemoryValidCredentialTree,
+  UnifiedRevocationManager,
+} from '@zk-id/core';
+import {
+  getPostgresStoreMigrations,
+  migratePostgresStores,
+  PostgresChallengeStore,
+  PostgresIssuedCredentialIndex,
+  PostgresNonceStore,
+  PostgresNullifierStore,
+  PostgresRevocationStore,
+} from '../src/postgres-stores';
+import type { SqlClient } from '../src/postgres-valid-credential-tree';
+
+async function createClient(): Promise<SqlClient & { end(): Promise<void> }> {
+  // Re-running CREATE TABLE IF NOT EXISTS on an existing table leaves parts of the
+  // AST unread, which pg-mem otherwise reports as unsupported.
+  const db = newDb({ noAstCoverageCheck: true });
+  const { Client } = db.adapters.createPg();
+  const client = new Client();
+  await client.connect();
+  return client;
+}
+
+describe('Postgres stores (pg-mem)', () => {
+  let client: SqlClient & { end(): Promise<void> };
+
+  beforeEach(async () => {
+    client = await createClient();
+  });
+
+  afterEach(async () => {
+    await client.end();
+  });
+
+  describe('migratePostgresStores', () => {
+    it('applies all migrations once and records their versions', async () => {
+      const applied = await migratePostgresStores(client);
+      expect(applied).to.deep.equal(getPostgresStoreMigrations().map((m) => m.version));
+
+      const again = await migratePostgresStores(client);
+      expect(again).to.deep.equal([]);
+
+      const { rows } = await client.query<{ version: number }>(
+        'SELECT version FROM public.zkid_schema_migrations ORDER BY version;',
+      );
+      expect(rows.map((r) => Number(r.version))).to.deep.equal(applied);
+    });
+
+    it('creates tables usable by stores with autoInit disabled', async () => {
+      await migratePostgresStores(client, { tables: { nullifiers: 'custom_nullifiers' } });
+      const store = new PostgresNullifierStore(client, {
+        table: 'custom_nullifiers',
+        autoInit: false,
+      });
+      expect(await store.checkAndMarkUsed('1', 'scope')).to.equal(true);
+    });
+
+    it('rejects invalid identifiers', () => {
+      expect(() => getPostgresStoreMigrations({ schema: 'bad-schema' })).to.throw(
+        'Invalid schema identifier',
+      );
+      expect(() => new PostgresNonceStore(client, { table: 'drop table;' })).to.throw(
+        'Invalid table identifier',
+      );
+    });
+  });
+
+  describe('PostgresNullifierStore', () => {
+    it('marks a nullifier fresh only on first use', async () => {
+      const store = new PostgresNullifierStore(client);
+
+      expect(await store.hasBeenUsed('123', 'election-2026')).to.equal(false);
+      expect(await store.checkAndMarkUsed('123', 'election-2026')).to.equal(true);
+      expect(await store.checkAndMarkUsed('123', 'election-2026')).to.equal(false);
+      expect(await store.hasBeenUsed('123', 'election-2026')).to.equal(true);
+    });
+
+    it('tracks scopes independently and counts per scope', async () => {
+      const store = new PostgresNullifierStore(client);
+
+      await store.markUsed('1', 'scope-a');
+      await store.markUsed('2', 'scope-a');
+      await store.markUsed('1', 'scope-b');
+
+      expect(await store.getUsedCount('scope-a')).to.equal(2);
+      expect(await store.getUsedCount('scope-b')).to.equal(1);
+      expect(await store.hasBeenUsed('2', 'scope-b')).to.equal(false);
+    });
+
+    it('works with consumeNullifier and retireScope', async () => {
+      const store = new PostgresNullifierStore(client);
+
+      expect((await consumeNullifier('9', 'airdrop', store)).fresh).to.equal(true);
+      expect((await consumeNullifier('9', 'airdrop', store)).fresh).to.equal(false);
+
+      await store.retireScope('airdrop');
+      expect(await store.getUsedCount('airdrop')).to.equal(0);
+    });
+
+    it('rejects invalid input', async () => {
+      const store = new PostgresNullifierStore(client);
+      try {
+        await store.checkAndMarkUsed('', 'scope');
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('nullifier must be a non-empty string');
+      }
+      try {
+        await store.checkAndMarkUsed('1', '');
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('Scope ID must be a non-empty string');
+      }
+    });
+  });
+
+  describe('PostgresIssuedCredentialIndex', () => {
+    it('records commitments idempotently', async () => {
+      const index = new PostgresIssuedCredentialIndex(client);
+
+      await index.record('0x10');
+      await index.record('16');
+
+      expect(await index.wasIssued('16')).to.equal(true);
+      expect(await index.wasIssued('17')).to.equal(false);
+      expect(await index.issuedCount()).to.equal(1);
+    });
+
+    it('plugs into UnifiedRevocationManager', async () => {
+      const manager = new UnifiedRevocationManager({
+        validTree: new InMemoryValidCredentialTree(4),
+        issuedIndex: new PostgresIssuedCredentialIndex(client),
+      });
+
+      await manager.addCredential('42');
+      await manager.revokeCredential('42');
+
+      expect(await manager.getStatus('42')).to.equal('revoked');
+      expect(await manager.getStatus('43')).to.equal('unknown');
+    });
+  });
+
+  describe('PostgresRevocationStore', () => {
+    it('revokes commitments permanently', async () => {
+      const store = new PostgresRevocationStore(client);
+
+      expect(await store.isRevoked('123')).to.equal(false);
+      await store.revoke('123');
+      await store.revoke('123');
+
+      expect(await store.isRevoked('123')).to.equal(true);
+      expect(await store.getRevokedCount()).to.equal(1);
+    });
+
+    it('rejects malformed commitments', async () => {
+      const store = new PostgresRevocationStore(client);
+      try {
+        await store.revoke('not-a-number');
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.equal('Invalid commitment format');
+      }
+    });
+  });
+
+  describe('PostgresNonceStore', () => {
+    it('stores nonces until they expire', async () => {
+      const store = new PostgresNonceStore(client, { ttlMs: 50 });
+
+      await store.add('nonce-1');
+      expect(await store.has('nonce-1')).to.equal(true);
+      expect(await store.has('nonce-2')).to.equal(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 70));
+      expect(await store.has('nonce-1')).to.equal(false);
+      expect(await store.prune()).to.equal(1);
+    });
+
+    it('addIfAbsent accepts a nonce only once while it is live', async () => {
+      const store = new PostgresNonceStore(client, { ttlMs: 50 });
+
+      expect(await store.addIfAbsent('nonce-3')).to.equal(true);
+      expect(await store.addIfAbsent('nonce-3')).to.equal(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 70));
+      expect(await store.addIfAbsent('nonce-3')).to.equal(true);
+    });
+
+    it('rejects invalid options and nonces', async () => {
+      expect(() => new PostgresNonceStore(client, { ttlMs: 0 })).to.throw(
+        'ttlMs must be a positive integer',
+      );
+      const store = new PostgresNonceStore(client);
+      expect(await store.has('')).to.equal(false);
+      try {
+        await store.add('');
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('nonce must be a non-empty string');
+      }
+    });
+  });
+
+  describe('PostgresChallengeStore', () => {
+    it('issues and consumes a challenge exactly once', async () => {
+      const store = new PostgresChallengeStore(client);
+
+      await store.issue('challenge-1', 1000, 5000);
+      expect(await store.consume('challenge-1')).to.equal(1000);
+      expect(await store.consume('challenge-1')).to.equal(null);
+    });
+
+    it('returns null for expired challenges', async () => {
+      const store = new PostgresChallengeStore(client);
+
+      await store.issue('challenge-2', 2000, 20);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(await store.consume('challenge-2')).to.equal(null);
+    });
+
+    it('prunes expired challenges', async () => {
+      const store = new PostgresChallengeStore(client);
+
+      await store.issue('challenge-3', 3000, 20);
+      await store.issue('challenge-4', 4000, 60000);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(await store.prune()).to.equal(1);
+      expect(await store.consume('challenge-4')).to.equal(4000);
+    });
+
+    it('validates issue parameters', async () => {
+      const store = new PostgresChallengeStore(client);
+      try {
+        await store.issue('challenge-5', 0, 1000);
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.include('requestTimestampMs must be a positive integer');
+      }
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { expect } from 'chai';
-import { PostgresValidCredentialTree } from '../src/postgres-valid-credential-tree';
+import { newDb } from 'pg-mem';
+import {
+  InMemoryValidCredentialTree,
+  rebuildWitnessFromFrontier,
+  witnessBucketPrefix,
+} from '@zk-id/core';
+import { PostgresValidCredentialTree, SqlClient } from '../src/postgres-valid-credential-tree';
 
 const PG_URL = process.env.ZKID_PG_URL || process.env.POSTGRES_URL || process.env.PG_URL;
 
@@ -75,3 +81,85 @@ describe('PostgresValidCredentialTree', function () {
     expect(await tree.contains('789')).to.equal(true);
   });
 });
+
+describe('PostgresValidCredentialTree (pg-mem)', () => {
+  let client: SqlClient & { end(): Promise<void> };
+
+  beforeEach(async () => {
+    const db = newDb({ noAstCoverageCheck: true });
+    const { Client } = db.adapters.createPg();
+    client = new Client();
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.end();
+  });
+
+  it('hashes nodes like the in-memory tree', async () => {
+    const tree = new PostgresValidCredentialTree(client, { depth: 4 });
+    const reference = new InMemoryValidCredentialTree(4);
+    for (const commitment of ['1001', '1002', '1017']) {
+      await tree.add(commitment);
+      await reference.add(commitment);
+    }
+    await tree.remove('1002');
+    await reference.remove('1002');
+
+    expect(await tree.getRoot()).to.equal(await reference.getRoot());
+    expect(await tree.getWitness('1017')).to.deep.equal(await reference.getWitness('1017'));
+  });
+
+  it('rebuilds witnesses from its frontier and witness buckets', async () => {
+    const tree = new PostgresValidCredentialTree(client, { depth: 5 });
+    for (const commitment of ['1001', '1002', '1003', '1017', '1033']) {
+      await tree.add(commitment);
+    }
+    await tree.remove('1002');
+
+    const frontier = await tree.getFrontier(2);
+    const info = await tree.getRootInfo();
+    expect(frontier).to.include({ depth: 5, level: 2, root: info.root, version: info.version });
+    expect(frontier.updatedAt).to.equal(info.updatedAt);
+    expect(frontier.nodes).to.have.length(8);
+
+    // 1001, 1017 and 1033 share their low 4 bits
+    const bucket = await tree.getWitnessBucket(9, 4, 2);
+    expect(bucket).to.include({ root: info.root, version: info.version, level: 2 });
+    expect(bucket.entries.map((e) => e.commitment)).to.deep.equal(['1001', '1017', '1033']);
+    for (const commitment of ['1001', '1017', '1033']) {
+      expect(await rebuildWitnessFromFrontier(commitment, bucket, frontier)).to.deep.equal(
+        await tree.getWitness(commitment),
+      );
+    }
+
+    // Removed leaves drop out of their bucket
+    const removed = await tree.getWitnessBucket(witnessBucketPrefix('1002', 4), 4, 2);
+    expect(removed.entries.map((e) => e.commitment)).to.not.include('1002');
+  });
+
+  it('serves frontiers that follow external writes and validates levels', async () => {
+    const tree = new PostgresValidCredentialTree(client, { depth: 3 });
+    const replica = new PostgresValidCredentialTree(client, { depth: 3 });
+    await tree.add('5');
+    const before = await replica.getFrontier(1);
+
+    await tree.add('6');
+    const after = await replica.getFrontier(1);
+    expect(after.version).to.equal(before.version + 1);
+    expect(after.root).to.equal(await tree.getRoot());
+    const bucket = await replica.getWitnessBucket(0, 0, 1);
+    expect(await rebuildWitnessFromFrontier('6', bucket, after)).to.deep.equal(
+      await tree.getWitness('6'),
+    );
+
+    for (const level of [-1, 4, 1.5]) {
+      try {
+        await tree.getFrontier(level);
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.equal('Frontier level must be between 0 and 3');
+      }
+    }
+  });
+});
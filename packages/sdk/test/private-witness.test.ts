@@ -0,0 +1,213 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { InMemoryIssuerRegistry, ZkIdServer } from '../src/server';
+import { BrowserWallet, InMemoryCredentialStore } from '../src/browser-wallet';
+import {
+  InMemoryValidCredentialTree,
+  SignedCredential,
+  SignedValidCredentialTree,
+  TreeFrontier,
+  signTreeFrontier,
+  verifyTreeFrontierSignature,
+} from '@zk-id/core';
+
+const ENDPOINT = 'http://localhost/api/revocation/root';
+const COMMITMENTS = ['1001', '1002', '1003', '1004', '1017', '1033'];
+
+function makeCredential(commitment: string, issuer = 'TestIssuer'): SignedCredential {
+  return {
+    credential: {
+      id: `cred-${commitment}`,
+      birthYear: 1990,
+      nationality: 840,
+      salt: 'aabbccdd',
+      commitment,
+      createdAt: new Date().toISOString(),
+    },
+    issuer,
+    signature: 'signature',
+    issuedAt: new Date().toISOString(),
+  };
+}
+
+describe('Private witness retrieval', () => {
+  const signer = generateKeyPairSync('ed25519');
+  const originalFetch = globalThis.fetch;
+  let tree: InMemoryValidCredentialTree;
+  let server: ZkIdServer;
+  let requested: string[];
+
+  beforeEach(async () => {
+    tree = new InMemoryValidCredentialTree(6);
+    for (const commitment of COMMITMENTS) {
+      await tree.add(commitment);
+    }
+    server = new ZkIdServer({
+      verificationKeys: { age: {} as any },
+      validCredentialTree: new SignedValidCredentialTree(tree, {
+        issuer: 'TestIssuer',
+        privateKey: signer.privateKey,
+      }),
+      witnessFrontierLevel: 3,
+    });
+
+    requested = [];
+    (global as any).fetch = async (url: string) => {
+      requested.push(url);
+      const parsed = new URL(url);
+      const body =
+        parsed.pathname === '/api/revocation/frontier'
+          ? await server.getTreeFrontier()
+          : await server.getWitnessBucket(
+              Number(parsed.searchParams.get('prefix')),
+              Number(parsed.searchParams.get('prefixBits')),
+            );
+      return { ok: true, status: 200, statusText: 'OK', json: async () => body };
+    };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function createWallet(config: Partial<ConstructorParameters<typeof BrowserWallet>[0]> = {}) {
+    return new BrowserWallet({
+      credentialStore: new InMemoryCredentialStore(),
+      circuitPaths: { ageWasm: '/age.wasm', ageZkey: '/age.zkey' },
+      revocationRootEndpoint: ENDPOINT,
+      ...config,
+    });
+  }
+
+  it('serves signed frontiers and prefix buckets from the server', async () => {
+    const signed = await server.getTreeFrontier();
+    expect(signed.issuer).to.equal('TestIssuer');
+    expect(signed.frontier.level).to.equal(3);
+    expect(signed.frontier.nodes).to.have.length(8);
+    const { updatedAt, expiresAt } = signed.frontier;
+    expect(Date.parse(expiresAt!) - Date.parse(updatedAt)).to.equal(300 * 1000);
+    expect(verifyTreeFrontierSignature(signed, signer.publicKey)).to.equal(true);
+
+    // 1001, 1017 and 1033 share their low 4 bits
+    const bucket = await server.getWitnessBucket(9, 4);
+    expect(bucket.entries.map((e) => e.commitment)).to.deep.equal(['1001', '1017', '1033']);
+  });
+
+  it('requires a tree that serves signed frontiers', async () => {
+    const unsigned = new ZkIdServer({
+      verificationKeys: { age: {} as any },
+      validCredentialTree: tree,
+    });
+    const noTree = new ZkIdServer({ verificationKeys: { age: {} as any } });
+
+    for (const [candidate, message] of [
+      [unsigned, 'Valid credential tree does not serve signed tree frontiers'],
+      [noTree, 'Valid credential tree does not serve signed tree frontiers'],
+    ] as const) {
+      try {
+        await candidate.getTreeFrontier();
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.message).to.equal(message);
+      }
+    }
+  });
+
+  it('rebuilds the witness locally without sending the commitment', async () => {
+    const wallet = createWallet({ witnessPrefixBits: 4 });
+
+    const witness = await (wallet as any).fetchWitness(makeCredential('1017'));
+
+    expect(witness).to.deep.equal(await tree.getWitness('1017'));
+    expect(requested).to.have.length(2);
+    expect(requested.some((url) => url.includes('1017'))).to.equal(false);
+    expect(requested).to.include(
+      'http://localhost/api/revocation/witness-bucket?prefix=9&prefixBits=4',
+    );
+  });
+
+  it('checks frontier signatures against the issuer registry', async () => {
+    const registry = (publicKey: typeof signer.publicKey) =>
+      new InMemoryIssuerRegistry([{ issuer: 'TestIssuer', publicKey }]);
+
+    const trusted = createWallet({ issuerRegistry: registry(signer.publicKey) });
+    expect(await (trusted as any).fetchWitness(makeCredential('1003'))).to.deep.equal(
+      await tree.getWitness('1003'),
+    );
+
+    const untrusted = createWallet({
+      issuerRegistry: registry(generateKeyPairSync('ed25519').publicKey),
+    });
+    try {
+      await (untrusted as any).fetchWitness(makeCredential('1003'));
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.code).to.equal('INVALID_TREE_FRONTIER');
+    }
+  });
+
+  it("rejects frontiers signed by an issuer other than the credential's", async () => {
+    const other = generateKeyPairSync('ed25519');
+    const wallet = createWallet({
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+        { issuer: 'OtherIssuer', publicKey: other.publicKey },
+      ]),
+    });
+
+    try {
+      await (wallet as any).fetchWitness(makeCredential('1003', 'OtherIssuer'));
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.code).to.equal('INVALID_TREE_FRONTIER');
+    }
+  });
+
+  it('rejects frontiers older than one already seen', async () => {
+    const wallet = createWallet({
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+      ]),
+    });
+    const stale = await server.getTreeFrontier();
+    await tree.add('1049');
+    await (wallet as any).fetchWitness(makeCredential('1003'));
+
+    server.getTreeFrontier = async () => stale;
+    try {
+      await (wallet as any).fetchWitness(makeCredential('1003'));
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.code).to.equal('REVOCATION_ROOT_ROLLBACK');
+    }
+  });
+
+  it('rejects expired and stale frontiers', async () => {
+    const { frontier } = await server.getTreeFrontier();
+    const serve = (changes: Partial<TreeFrontier>) => {
+      server.getTreeFrontier = async () =>
+        signTreeFrontier({ ...frontier, ...changes }, 'TestIssuer', signer.privateKey);
+    };
+    const expectRejected = async (wallet: BrowserWallet, code: string) => {
+      try {
+        await (wallet as any).fetchWitness(makeCredential('1003'));
+        expect.fail('Should have thrown');
+      } catch (error: any) {
+        expect(error.code).to.equal(code);
+      }
+    };
+
+    const registered = createWallet({
+      issuerRegistry: new InMemoryIssuerRegistry([
+        { issuer: 'TestIssuer', publicKey: signer.publicKey },
+      ]),
+    });
+    for (const expiresAt of [new Date(Date.now() - 1000).toISOString(), undefined]) {
+      serve({ expiresAt });
+      await expectRejected(registered, 'REVOCATION_ROOT_EXPIRED');
+    }
+
+    serve({ updatedAt: new Date(Date.now() - 600_000).toISOString() });
+    await expectRejected(createWallet({ maxRevocationRootAgeMs: 60_000 }), 'REVOCATION_ROOT_STALE');
+  });
+});
@@ -0,0 +1,179 @@
+import { expect } from 'chai';
+import path from 'path';
+import { AgeProofFull, createNullifierScope, InMemoryNullifierStore } from '@zk-id/core';
+import {
+  FullAgeProofRequest,
+  InMemoryNonceStore,
+  validateFullAgeProofRequestPayload,
+  ZkIdServer,
+} from '../src/server';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+
+const issuerBits = Array.from({ length: 256 }, (_, i) => String(i % 2));
+
+function makeProof(
+  scopeHash: string,
+  nonce: string,
+  timestamp: number,
+  overrides: Partial<AgeProofFull['publicSignals']> = {},
+): AgeProofFull {
+  return {
+    proofType: 'age-full',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      currentYear: new Date().getFullYear(),
+      minAge: 18,
+      merkleRoot: '98765432109876543210',
+      scopeHash,
+      nullifier: '22222222222222222222',
+      nonce,
+      requestTimestamp: timestamp,
+      issuerPublicKey: issuerBits,
+      ...overrides,
+    },
+  };
+}
+
+describe('ZkIdServer - full-assurance age proofs', () => {
+  const ageKey = require(ageKeyPath);
+  let scopeHash: string;
+
+  before(async () => {
+    scopeHash = (await createNullifierScope('election-2026')).scopeHash;
+  });
+
+  function createServer(overrides: Record<string, unknown> = {}) {
+    return new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      // Any well-formed key works here: the fake proofs never verify.
+      verificationKeys: { age: ageKey, ageFull: ageKey },
+      issuerPublicKeyBits: { 'gov-issuer': issuerBits },
+      nullifierStore: new InMemoryNullifierStore(),
+      allowedNullifierScopes: ['election-2026'],
+      verboseErrors: true,
+      ...overrides,
+    });
+  }
+
+  function makeRequest(
+    overrides: Partial<AgeProofFull['publicSignals']> = {},
+    nonce = 'nonce-1',
+  ): FullAgeProofRequest {
+    const timestamp = Date.now();
+    return {
+      issuer: 'gov-issuer',
+      scopeId: 'election-2026',
+      nonce,
+      requestTimestamp: new Date(timestamp).toISOString(),
+      proof: makeProof(scopeHash, nonce, timestamp, overrides),
+    };
+  }
+
+  describe('payload validation', () => {
+    it('accepts a well-formed request', () => {
+      expect(validateFullAgeProofRequestPayload(makeRequest())).to.deep.equal([]);
+    });
+
+    it('requires a full 256-bit issuer key', () => {
+      const errors = validateFullAgeProofRequestPayload(
+        makeRequest({ issuerPublicKey: ['0', '1'] }),
+      );
+      expect(errors.map((e) => e.field)).to.deep.equal(['proof.publicSignals.issuerPublicKey']);
+    });
+
+    it('rejects other proof types', () => {
+      const request = makeRequest();
+      (request.proof as unknown as Record<string, unknown>).proofType = 'age-signed';
+      const errors = validateFullAgeProofRequestPayload(request);
+      expect(errors.map((e) => e.field)).to.deep.equal(['proof.proofType']);
+    });
+  });
+
+  describe('verification', () => {
+    it('rejects untrusted issuers', async () => {
+      const server = createServer();
+      const result = await server.verifyAgeProofFull({ ...makeRequest(), issuer: 'unknown' });
+      expect(result.error).to.equal('Unknown or untrusted issuer');
+    });
+
+    it('rejects proofs whose nonce differs from the request nonce', async () => {
+      const server = createServer();
+      const request = makeRequest();
+      request.proof.publicSignals.nonce = 'other-nonce';
+      const result = await server.verifyAgeProofFull(request);
+      expect(result.error).to.equal('Proof nonce does not match request nonce');
+    });
+
+    it('enforces the required minimum age', async () => {
+      const server = createServer({ requiredPolicy: { minAge: 21 } });
+      const result = await server.verifyAgeProofFull(makeRequest());
+      expect(result.error).to.equal('Proof does not satisfy required minimum age');
+    });
+
+    it('rejects scopes that are not configured', async () => {
+      const server = createServer();
+      const result = await server.verifyAgeProofFull({ ...makeRequest(), scopeId: 'airdrop-1' });
+      expect(result.error).to.equal('Nullifier scope not allowed: airdrop-1');
+    });
+
+    it('rejects a proof bound to a different scope', async () => {
+      const server = createServer();
+      const result = await server.verifyAgeProofFull(makeRequest({ scopeHash: '12345' }));
+      expect(result.error).to.equal('Proof scope hash does not match requested scope');
+    });
+
+    it('requires the full-assurance verification key', async () => {
+      const server = createServer({ verificationKeys: { age: ageKey } });
+      const result = await server.verifyAgeProofFull(makeRequest());
+      expect(result.error).to.equal('Full-assurance age verification key not configured');
+    });
+
+    it('requires a nullifier store', async () => {
+      const server = createServer({ nullifierStore: undefined });
+      const result = await server.verifyAgeProofFull(makeRequest());
+      expect(result.error).to.equal('Nullifier store not configured');
+    });
+
+    it('rejects stale revocation roots', async () => {
+      const server = createServer({
+        maxRevocationRootAgeMs: 1000,
+        validCredentialTree: {
+          getRoot: async () => '98765432109876543210',
+          getRootInfo: async () => ({
+            root: '98765432109876543210',
+            version: 1,
+            updatedAt: new Date(Date.now() - 60_000).toISOString(),
+          }),
+        },
+      });
+      const result = await server.verifyAgeProofFull(makeRequest());
+      expect(result.error).to.equal('Revocation root is stale');
+    });
+
+    it('does not consume the nullifier or nonce when verification fails', async () => {
+      const nullifierStore = new InMemoryNullifierStore();
+      const nonceStore = new InMemoryNonceStore();
+      const server = createServer({ nullifierStore, nonceStore });
+
+      const result = await server.verifyAgeProofFull(makeRequest());
+      nonceStore.stop();
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.match(/Proof verification failed|Verification error/);
+      expect(await nullifierStore.hasBeenUsed('22222222222222222222', 'election-2026')).to.equal(
+        false,
+      );
+      expect(await nonceStore.has('nonce-1')).to.equal(false);
+    });
+  });
+});
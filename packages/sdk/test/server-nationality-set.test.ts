@@ -0,0 +1,208 @@
+import { expect } from 'chai';
+import path from 'path';
+import {
+  createNationalitySet,
+  MultiClaimResponse,
+  NationalitySet,
+  NationalitySetProof,
+  padNationalitySet,
+  ProofResponse,
+} from '@zk-id/core';
+import {
+  InMemoryNonceStore,
+  validateMultiClaimResponsePayload,
+  validateProofResponsePayload,
+  ZkIdServer,
+} from '../src/server';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+
+const fakeGroth16 = {
+  pi_a: ['1', '2'],
+  pi_b: [
+    ['3', '4'],
+    ['5', '6'],
+  ],
+  pi_c: ['7', '8'],
+  protocol: 'groth16',
+  curve: 'bn128',
+};
+
+function makeProof(set: NationalitySet, nonce: string, timestamp: number): NationalitySetProof {
+  return {
+    proofType: 'nationality-set',
+    proof: fakeGroth16,
+    publicSignals: {
+      nationalitySet: padNationalitySet(set.codes),
+      isDenyList: set.mode === 'deny' ? 1 : 0,
+      credentialHash: '123456789',
+      nonce,
+      requestTimestamp: timestamp,
+    },
+  };
+}
+
+function makeResponse(proof: NationalitySetProof, nonce: string, timestamp: number): ProofResponse {
+  return {
+    credentialId: 'cred-1',
+    claimType: 'nationality-set',
+    proof,
+    nonce,
+    requestTimestamp: new Date(timestamp).toISOString(),
+  };
+}
+
+describe('ZkIdServer - nationality set proofs', () => {
+  const ageKey = require(ageKeyPath);
+  const euAllow = createNationalitySet('allow', 'EU');
+
+  function createServer(overrides: Record<string, unknown> = {}) {
+    return new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      // Any well-formed key works here: the fake proofs never verify.
+      verificationKeys: { age: ageKey, nationalitySet: ageKey },
+      requireSignedCredentials: false,
+      verboseErrors: true,
+      ...overrides,
+    });
+  }
+
+  describe('payload validation', () => {
+    it('accepts nationality-set claims', () => {
+      const timestamp = Date.now();
+      const response = makeResponse(makeProof(euAllow, '1', timestamp), '1', timestamp);
+
+      expect(validateProofResponsePayload(response, false)).to.deep.equal([]);
+    });
+
+    it('requires the set to be an array of numbers', () => {
+      const timestamp = Date.now();
+      const proof = makeProof(euAllow, '1', timestamp);
+      (proof.publicSignals as unknown as Record<string, unknown>).nationalitySet = '276,250';
+
+      expect(
+        validateProofResponsePayload(makeResponse(proof, '1', timestamp), false).map(
+          (e) => e.field,
+        ),
+      ).to.deep.equal(['proof.publicSignals.nationalitySet']);
+    });
+  });
+
+  describe('policy enforcement', () => {
+    it('accepts the required set regardless of order and reaches verification', async () => {
+      const server = createServer({ requiredPolicy: { nationalitySet: euAllow } });
+      const timestamp = Date.now();
+      const reordered = { mode: 'allow' as const, codes: [...euAllow.codes].reverse() };
+
+      const result = await server.verifyProof(
+        makeResponse(makeProof(reordered, '7', timestamp), '7', timestamp),
+      );
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.match(/Proof verification failed|Verification error/);
+    });
+
+    it('rejects a proof for a different set', async () => {
+      const server = createServer({ requiredPolicy: { nationalitySet: euAllow } });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          makeProof(createNationalitySet('allow', [276]), '7', timestamp),
+          '7',
+          timestamp,
+        ),
+      );
+
+      expect(result.error).to.equal('Proof does not satisfy required nationality set');
+    });
+
+    it('rejects a deny-list proof when an allow-list is required', async () => {
+      const server = createServer({ requiredPolicy: { nationalitySet: euAllow } });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          makeProof({ mode: 'deny', codes: euAllow.codes }, '7', timestamp),
+          '7',
+          timestamp,
+        ),
+      );
+
+      expect(result.error).to.equal('Proof does not satisfy required nationality set');
+    });
+
+    it('rejects invalid nationality set policies at construction time', () => {
+      expect(() =>
+        createServer({ requiredPolicy: { nationalitySet: { mode: 'allow', codes: [] } } }),
+      ).to.throw('at least one code');
+    });
+  });
+
+  describe('verification', () => {
+    it('rejects proofs whose nonce differs from the request nonce', async () => {
+      const server = createServer();
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(makeProof(euAllow, '1', timestamp), '2', timestamp),
+      );
+
+      expect(result.error).to.equal('Proof nonce does not match request nonce');
+    });
+
+    it('requires the nationality set verification key', async () => {
+      const server = createServer({ verificationKeys: { age: ageKey } });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(makeProof(euAllow, '1', timestamp), '1', timestamp),
+      );
+
+      expect(result.error).to.equal('Nationality set verification key not configured');
+    });
+
+    it('rejects malformed sets before cryptographic verification', async () => {
+      const server = createServer();
+      const timestamp = Date.now();
+      const proof = makeProof(euAllow, '1', timestamp);
+      proof.publicSignals.isDenyList = 2;
+
+      const result = await server.verifyProof(makeResponse(proof, '1', timestamp));
+
+      expect(result.error).to.include('Invalid set mode in proof');
+    });
+  });
+
+  describe('multi-claim', () => {
+    function makeMultiClaim(set: NationalitySet, timestamp: number): MultiClaimResponse {
+      return {
+        proofs: [
+          { label: 'eu', claimType: 'nationality-set', proof: makeProof(set, '9', timestamp) },
+        ],
+        nonce: '9',
+        requestTimestamp: new Date(timestamp).toISOString(),
+        credentialId: 'cred-1',
+      };
+    }
+
+    it('accepts nationality-set claims in the payload', () => {
+      const response = makeMultiClaim(euAllow, Date.now());
+
+      expect(validateMultiClaimResponsePayload(response, false)).to.deep.equal([]);
+    });
+
+    it('enforces the required set per claim', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const server = createServer({ nonceStore, requiredPolicy: { nationalitySet: euAllow } });
+
+      const result = await server.verifyMultiClaim(
+        makeMultiClaim(createNationalitySet('allow', 'EEA'), Date.now()),
+      );
+      nonceStore.stop();
+
+      expect(result.allVerified).to.equal(false);
+      expect(result.results[0].error).to.equal('Proof does not satisfy required nationality set');
+    });
+  });
+});
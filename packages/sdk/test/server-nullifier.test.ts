@@ -0,0 +1,269 @@
+import { expect } from 'chai';
+import { generateKeyPairSync, sign } from 'crypto';
+import path from 'path';
+import {
+  AuditEntry,
+  AuditLogger,
+  computeNullifier,
+  createNullifierScope,
+  credentialSignaturePayload,
+  InMemoryNullifierStore,
+  NullifierProof,
+  SignedCredential,
+} from '@zk-id/core';
+import {
+  InMemoryIssuerRegistry,
+  NullifierProofRequest,
+  VerificationEvent,
+  ZkIdServer,
+} from '../src/server';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+const nullifierKeyPath = path.resolve(
+  __dirname,
+  '../../circuits/build/nullifier_verification_key.json',
+);
+
+class CapturingAuditLogger implements AuditLogger {
+  entries: AuditEntry[] = [];
+  log(entry: AuditEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+function makeProof(scopeHash: string, nullifier = '12345'): NullifierProof {
+  return {
+    proofType: 'nullifier',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['1', '2'],
+        ['3', '4'],
+      ],
+      pi_c: ['1', '2'],
+    },
+    publicSignals: { scopeHash, nullifier },
+  };
+}
+
+describe('ZkIdServer - nullifier proofs', () => {
+  let scopeHash: string;
+
+  before(async () => {
+    scopeHash = (await createNullifierScope('election-2026')).scopeHash;
+  });
+
+  function createServer(overrides: Record<string, unknown> = {}) {
+    const auditLogger = new CapturingAuditLogger();
+    const nullifierStore = new InMemoryNullifierStore();
+    const server = new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      nullifierVerificationKeyPath: nullifierKeyPath,
+      nullifierStore,
+      allowedNullifierScopes: ['election-2026'],
+      auditLogger,
+      verboseErrors: true,
+      ...overrides,
+    });
+    return { server, auditLogger, nullifierStore };
+  }
+
+  it('rejects a scope that is not configured', async () => {
+    const { server } = createServer();
+    const otherScope = await createNullifierScope('airdrop-1');
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'airdrop-1',
+      proof: makeProof(otherScope.scopeHash),
+    });
+
+    expect(result.verified).to.equal(false);
+    expect(result.error).to.equal('Nullifier scope not allowed: airdrop-1');
+  });
+
+  it('rejects a proof whose scope hash does not match the requested scope', async () => {
+    const { server } = createServer();
+    const otherScope = await createNullifierScope('airdrop-1');
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'election-2026',
+      proof: makeProof(otherScope.scopeHash),
+    });
+
+    expect(result.verified).to.equal(false);
+    expect(result.error).to.equal('Proof scope hash does not match requested scope');
+  });
+
+  it('rejects when no nullifier store is configured', async () => {
+    const { server } = createServer({ nullifierStore: undefined });
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'election-2026',
+      proof: makeProof(scopeHash),
+    });
+
+    expect(result.error).to.equal('Nullifier store not configured');
+  });
+
+  it('rejects when no nullifier verification key is configured', async () => {
+    const { server } = createServer({ nullifierVerificationKeyPath: undefined });
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'election-2026',
+      proof: makeProof(scopeHash),
+    });
+
+    expect(result.error).to.equal('Nullifier verification key not configured');
+  });
+
+  it('does not consume the nullifier when the proof is invalid', async () => {
+    const { server, nullifierStore } = createServer();
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'election-2026',
+      proof: makeProof(scopeHash),
+    });
+
+    expect(result.verified).to.equal(false);
+    expect(await nullifierStore.getUsedCount('election-2026')).to.equal(0);
+  });
+
+  it('rejects malformed payloads', async () => {
+    const { server } = createServer();
+
+    const result = await server.verifyNullifierProof({
+      scopeId: '',
+      proof: { proofType: 'age' },
+    } as unknown as NullifierProofRequest);
+
+    expect(result.verified).to.equal(false);
+    expect(result.error).to.include('Invalid payload');
+    expect(result.error).to.include('scopeId');
+    expect(result.error).to.include('proof.proofType');
+  });
+
+  it('sanitizes errors when verboseErrors is disabled', async () => {
+    const { server } = createServer({ verboseErrors: false });
+
+    const result = await server.verifyNullifierProof({
+      scopeId: 'unknown-scope',
+      proof: makeProof(scopeHash),
+    });
+
+    expect(result.error).to.equal('Verification failed');
+  });
+
+  it('emits a verification event and audit entry with the scope', async () => {
+    const { server, auditLogger } = createServer();
+    const events: VerificationEvent[] = [];
+    server.onVerification((event) => events.push(event));
+
+    await server.verifyNullifierProof({
+      scopeId: 'election-2026',
+      proof: makeProof(scopeHash),
+    });
+
+    expect(events).to.have.length(1);
+    expect(events[0].claimType).to.equal('nullifier');
+    expect(events[0].verified).to.equal(false);
+
+    const entry = auditLogger.entries.find((e) => e.target === 'nullifier');
+    expect(entry).to.not.equal(undefined);
+    expect(entry!.metadata?.scopeId).to.equal('election-2026');
+  });
+
+  it('validates allowed scopes at construction time', () => {
+    expect(() => createServer({ allowedNullifierScopes: [''] })).to.throw(
+      'Scope ID must be a non-empty string',
+    );
+  });
+
+  describe('credential binding', () => {
+    const issuerKeys = generateKeyPairSync('ed25519');
+
+    function issue(commitment: string, privateKey = issuerKeys.privateKey): SignedCredential {
+      const credential = {
+        id: `cred-${commitment}`,
+        birthYear: 1990,
+        nationality: 840,
+        salt: 'aabbccdd',
+        commitment,
+        createdAt: new Date().toISOString(),
+      };
+      const issuedAt = new Date().toISOString();
+      return {
+        credential,
+        issuer: 'gov-id',
+        signature: sign(
+          null,
+          Buffer.from(credentialSignaturePayload(credential, 'gov-id', issuedAt)),
+          privateKey,
+        ).toString('base64'),
+        issuedAt,
+      };
+    }
+
+    async function nullifierFor(commitment: string): Promise<string> {
+      const scope = await createNullifierScope('election-2026');
+      return (await computeNullifier(commitment, scope)).nullifier;
+    }
+
+    function createBoundServer() {
+      return createServer({
+        issuerRegistry: new InMemoryIssuerRegistry([
+          { issuer: 'gov-id', publicKey: issuerKeys.publicKey },
+        ]),
+      });
+    }
+
+    it('requires the signed credential the nullifier was derived from', async () => {
+      const { server } = createBoundServer();
+
+      const result = await server.verifyNullifierProof({
+        scopeId: 'election-2026',
+        proof: makeProof(scopeHash, await nullifierFor('1001')),
+      });
+
+      expect(result.error).to.equal('Signed credential required');
+    });
+
+    it('rejects nullifiers for an unissued commitment', async () => {
+      const { server, nullifierStore } = createBoundServer();
+      const selfSigned = issue('1002', generateKeyPairSync('ed25519').privateKey);
+
+      const result = await server.verifyNullifierProof({
+        scopeId: 'election-2026',
+        proof: makeProof(scopeHash, await nullifierFor('1002')),
+        signedCredential: selfSigned,
+      });
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.equal('Invalid credential signature');
+      expect(await nullifierStore.getUsedCount('election-2026')).to.equal(0);
+    });
+
+    it("rejects nullifiers not derived from the signed credential's commitment", async () => {
+      const { server } = createBoundServer();
+
+      const result = await server.verifyNullifierProof({
+        scopeId: 'election-2026',
+        proof: makeProof(scopeHash, await nullifierFor('1003')),
+        signedCredential: issue('1004'),
+      });
+
+      expect(result.error).to.equal('Nullifier does not match the signed credential');
+    });
+
+    it('checks the proof once the nullifier is bound to an issued credential', async () => {
+      const { server } = createBoundServer();
+
+      const result = await server.verifyNullifierProof({
+        scopeId: 'election-2026',
+        proof: makeProof(scopeHash, await nullifierFor('1005')),
+        signedCredential: issue('1005'),
+      });
+
+      expect(result.error).to.equal('Proof verification failed');
+    });
+  });
+});
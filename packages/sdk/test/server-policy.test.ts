@@ -0,0 +1,243 @@
+import { expect } from 'chai';
+import path from 'path';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  AgeProof,
+  ClaimProof,
+  MultiClaimResponse,
+  PolicyRules,
+  SignedCredential,
+  VerificationPolicy,
+  createNationalitySet,
+  credentialSignaturePayload,
+  padNationalitySet,
+} from '@zk-id/core';
+import { InMemoryIssuerRegistry, InMemoryNonceStore, ZkIdServer } from '../src/server';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+const COMMITMENT = '123456789';
+const NONCE = '987654321';
+
+// Fake Groth16 proofs: pi_a[0] marks whether the stubbed verifier accepts them.
+function groth16(valid: boolean) {
+  return {
+    pi_a: [valid ? 'valid' : 'invalid', '2'],
+    pi_b: [
+      ['3', '4'],
+      ['5', '6'],
+    ],
+    pi_c: ['7', '8'],
+    protocol: 'groth16',
+    curve: 'bn128',
+  };
+}
+
+function ageClaim(minAge: number, timestamp: number, valid = true): ClaimProof {
+  return {
+    label: `age-${minAge}`,
+    claimType: 'age',
+    proof: {
+      proofType: 'age',
+      proof: groth16(valid),
+      publicSignals: {
+        currentYear: new Date().getFullYear(),
+        minAge,
+        credentialHash: COMMITMENT,
+        nonce: NONCE,
+        requestTimestamp: timestamp,
+      },
+    },
+  };
+}
+
+function euClaim(timestamp: number): ClaimProof {
+  return {
+    label: 'eu',
+    claimType: 'nationality-set',
+    proof: {
+      proofType: 'nationality-set',
+      proof: groth16(true),
+      publicSignals: {
+        nationalitySet: padNationalitySet(createNationalitySet('allow', 'EU').codes),
+        isDenyList: 0,
+        credentialHash: COMMITMENT,
+        nonce: NONCE,
+        requestTimestamp: timestamp,
+      },
+    },
+  };
+}
+
+function response(proofs: ClaimProof[], timestamp: number): MultiClaimResponse {
+  return {
+    proofs,
+    nonce: NONCE,
+    requestTimestamp: new Date(timestamp).toISOString(),
+    credentialId: 'cred-1',
+  };
+}
+
+const checkout: VerificationPolicy = {
+  id: 'checkout',
+  rule: PolicyRules.any(
+    PolicyRules.all(PolicyRules.minAge(18), PolicyRules.nationalityIn('EU')),
+    PolicyRules.minAge(21),
+  ),
+};
+
+describe('ZkIdServer - verifier policies', () => {
+  let nonceStore: InMemoryNonceStore;
+
+  function createServer(overrides: Record<string, unknown> = {}) {
+    const ageKey = require(ageKeyPath);
+    const server = new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      verificationKeys: { age: ageKey, nationalitySet: ageKey },
+      requireSignedCredentials: false,
+      nonceStore,
+      policies: { checkout },
+      verboseErrors: true,
+      ...overrides,
+    });
+    // Replace Groth16 verification so the fake proofs exercise the policy layer
+    const accept = async (proofResponse: { proof: AgeProof }) => {
+      const verified = proofResponse.proof.proof.pi_a[0] === 'valid';
+      return { result: { verified, ...(verified ? {} : { error: 'Invalid proof' }) } };
+    };
+    (server as any).verifyAgeProofInternal = accept;
+    (server as any).verifyNationalitySetProofInternal = accept;
+    return server;
+  }
+
+  beforeEach(() => {
+    nonceStore = new InMemoryNonceStore();
+  });
+
+  afterEach(() => nonceStore.stop());
+
+  it('accepts either branch of an OR policy and explains each rule', async () => {
+    const server = createServer();
+    const now = Date.now();
+
+    const euAdult = await server.verifyPolicy(
+      response([ageClaim(18, now), euClaim(now)], now),
+      'checkout',
+    );
+    expect(euAdult.verified).to.equal(true);
+    expect(euAdult.claimType).to.equal('policy');
+    expect(euAdult.policy!.result.results![0]).to.deep.include({ rule: 'all', satisfied: true });
+    expect(euAdult.policy!.result.results![1]).to.deep.include({
+      rule: 'age >= 21',
+      satisfied: false,
+    });
+    expect(await nonceStore.has(NONCE)).to.equal(true);
+
+    const replay = await server.verifyPolicy(
+      response([ageClaim(18, now), euClaim(now)], now),
+      'checkout',
+    );
+    expect(replay.verified).to.equal(false);
+    expect(replay.error).to.include('replay');
+  });
+
+  it('rejects claims that do not satisfy the policy', async () => {
+    const server = createServer();
+    const now = Date.now();
+
+    const result = await server.verifyPolicy(response([ageClaim(18, now)], now), checkout);
+
+    expect(result.verified).to.equal(false);
+    expect(result.error).to.equal('Policy checkout is not satisfied');
+    expect(result.policy!.satisfied).to.equal(false);
+  });
+
+  it('lets the policy decide when some claims fail to verify', async () => {
+    const server = createServer();
+    const now = Date.now();
+
+    // At least one claim must verify, even for policies without claim rules
+    const freshOnly = { id: 'fresh', rule: PolicyRules.freshness({ maxProofAgeMs: 60_000 }) };
+    const none = await server.verifyPolicy(response([ageClaim(21, now, false)], now), freshOnly);
+    expect(none.verified).to.equal(false);
+    expect(none.error).to.equal('Invalid proof');
+
+    const result = await server.verifyPolicy(
+      response([ageClaim(21, now), ageClaim(25, now, false)], now),
+      'checkout',
+    );
+    expect(result.verified).to.equal(true);
+    expect(result.policy!.result.results![1].matchedClaims).to.deep.equal(['age-21']);
+    expect(await nonceStore.has(NONCE)).to.equal(true);
+  });
+
+  it('enforces issuer jurisdiction from the issuer registry', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const credential = {
+      id: 'cred-1',
+      birthYear: 1990,
+      nationality: 276,
+      salt: '00',
+      commitment: COMMITMENT,
+      createdAt: new Date().toISOString(),
+    };
+    const issuedAt = new Date().toISOString();
+    const signedCredential: SignedCredential = {
+      credential,
+      issuer: 'gov-id',
+      signature: sign(
+        null,
+        Buffer.from(credentialSignaturePayload(credential, 'gov-id', issuedAt)),
+        privateKey,
+      ).toString('base64'),
+      issuedAt,
+    };
+    const policy: VerificationPolicy = {
+      id: 'regulated',
+      rule: PolicyRules.all(
+        PolicyRules.minAge(18),
+        PolicyRules.issuer({ jurisdictions: ['DE'] }),
+        PolicyRules.freshness({ maxProofAgeMs: 60_000 }),
+      ),
+    };
+    const now = Date.now();
+    const signedResponse = { ...response([ageClaim(18, now)], now), signedCredential };
+
+    // Each server verifies the same bundle, so skip replay protection here
+    const server = (jurisdiction: string) =>
+      createServer({
+        nonceStore: undefined,
+        issuerRegistry: new InMemoryIssuerRegistry([{ issuer: 'gov-id', publicKey, jurisdiction }]),
+      });
+    const domestic = server('DE');
+    const foreign = server('US');
+
+    expect(
+      (await foreign.verifyPolicy(signedResponse, policy)).policy!.result.results![1],
+    ).to.deep.equal({
+      rule: 'issuer',
+      satisfied: false,
+      reason: 'Issuer jurisdiction US is not accepted',
+    });
+    expect((await domestic.verifyPolicy(signedResponse, policy)).verified).to.equal(true);
+
+    // Unsigned bundles never satisfy issuer rules
+    const unsigned = await server('DE').verifyPolicy(response([ageClaim(18, now)], now), policy);
+    expect(unsigned.policy!.result.results![1].reason).to.equal('No verified signed credential');
+  });
+
+  it('validates configured policies', async () => {
+    expect(() => createServer({ policies: { checkout: { ...checkout, id: 'other' } } })).to.throw(
+      'mismatched id',
+    );
+    expect(() =>
+      createServer({ policies: { bad: { id: 'bad', rule: { type: 'any', rules: [] } } } }),
+    ).to.throw('non-empty array');
+
+    try {
+      await createServer().verifyPolicy(response([], Date.now()), 'unknown');
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.equal('Unknown policy: unknown');
+    }
+  });
+});
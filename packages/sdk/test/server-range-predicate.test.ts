@@ -0,0 +1,475 @@
+import { expect } from 'chai';
+import path from 'path';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  AuditEntry,
+  AuditLogger,
+  createAgeRangePredicate,
+  createNationalityExclusionPredicate,
+  createNationalityPredicate,
+  credentialSignaturePayload,
+  DOMAIN_CREDENTIAL,
+  poseidonHash,
+  poseidonHashDomain,
+  PredicateProof,
+  PredicateSpec,
+  ProofResponse,
+  RangeProof,
+  SignedCredential,
+  validateRangeProofConstraints,
+} from '@zk-id/core';
+import {
+  InMemoryChallengeStore,
+  InMemoryIssuerRegistry,
+  InMemoryNonceStore,
+  SimpleRateLimiter,
+  validateProofResponsePayload,
+  VerificationEvent,
+  ZkIdServer,
+} from '../src/server';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+
+class CapturingAuditLogger implements AuditLogger {
+  entries: AuditEntry[] = [];
+  log(entry: AuditEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+const fakeGroth16 = {
+  pi_a: ['1', '2'],
+  pi_b: [
+    ['3', '4'],
+    ['5', '6'],
+  ],
+  pi_c: ['7', '8'],
+  protocol: 'groth16',
+  curve: 'bn128',
+};
+
+function makeRangeProof(
+  minValue: number,
+  maxValue: number,
+  nonce: string,
+  requestTimestamp: number,
+  commitment = '123456789',
+): RangeProof {
+  return {
+    proofType: 'range',
+    proof: fakeGroth16,
+    publicSignals: [
+      '1',
+      String(minValue),
+      String(maxValue),
+      commitment,
+      nonce,
+      String(requestTimestamp),
+      '0',
+    ],
+    fieldName: 'birthYear',
+  };
+}
+
+function makePredicateProof(
+  predicate: PredicateSpec,
+  nonce: string,
+  timestamp: number,
+): PredicateProof {
+  return {
+    type: 'PredicateProof',
+    proofType: 'predicate',
+    predicate,
+    publicSignals: {
+      credentialCommitment: '123456789',
+      predicateType: predicate.type,
+      targetValue: predicate.value,
+      rangeMax: predicate.maxValue ?? 0,
+      fieldSelector: predicate.field,
+      nonce,
+      timestamp,
+      satisfied: 1,
+    },
+    proof: fakeGroth16,
+  };
+}
+
+function makeResponse(
+  claimType: 'range' | 'predicate',
+  proof: RangeProof | PredicateProof,
+  nonce: string,
+  timestamp: number,
+): ProofResponse {
+  return {
+    credentialId: 'cred-1',
+    claimType,
+    proof,
+    nonce,
+    requestTimestamp: new Date(timestamp).toISOString(),
+  };
+}
+
+describe('ZkIdServer - range and predicate proofs', () => {
+  const ageKey = require(ageKeyPath);
+
+  function createServer(overrides: Record<string, unknown> = {}) {
+    const auditLogger = new CapturingAuditLogger();
+    const server = new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      // Any well-formed key works here: the fake proofs never verify.
+      verificationKeys: { age: ageKey, range: ageKey, predicate: ageKey },
+      requireSignedCredentials: false,
+      auditLogger,
+      verboseErrors: true,
+      ...overrides,
+    });
+    return { server, auditLogger };
+  }
+
+  describe('payload validation', () => {
+    it('accepts range and predicate claim types', () => {
+      const timestamp = Date.now();
+      const range = makeResponse(
+        'range',
+        makeRangeProof(1980, 2000, '1', timestamp),
+        '1',
+        timestamp,
+      );
+      const predicate = makeResponse(
+        'predicate',
+        makePredicateProof(createNationalityExclusionPredicate(840), '1', timestamp),
+        '1',
+        timestamp,
+      );
+
+      expect(validateProofResponsePayload(range, false)).to.deep.equal([]);
+      expect(validateProofResponsePayload(predicate, false)).to.deep.equal([]);
+    });
+
+    it('requires array public signals for range proofs and a predicate for predicate proofs', () => {
+      const timestamp = Date.now();
+      const range = makeResponse(
+        'range',
+        makeRangeProof(1980, 2000, '1', timestamp),
+        '1',
+        timestamp,
+      );
+      (range.proof as unknown as Record<string, unknown>).publicSignals = { nonce: '1' };
+      const predicate = makeResponse(
+        'predicate',
+        makePredicateProof(createNationalityExclusionPredicate(840), '1', timestamp),
+        '1',
+        timestamp,
+      );
+      delete (predicate.proof as unknown as Record<string, unknown>).predicate;
+
+      expect(validateProofResponsePayload(range, false).map((e) => e.field)).to.deep.equal([
+        'proof.publicSignals',
+      ]);
+      expect(validateProofResponsePayload(predicate, false).map((e) => e.field)).to.deep.equal([
+        'proof.predicate',
+      ]);
+    });
+  });
+
+  describe('policy enforcement', () => {
+    it('rejects range proofs for bounds other than the required range', async () => {
+      const { server } = createServer({
+        requiredPolicy: { range: { fieldName: 'birthYear', minValue: 1960, maxValue: 2005 } },
+      });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1900, 2005, '7', timestamp), '7', timestamp),
+      );
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.equal('Proof does not satisfy required range');
+    });
+
+    it('rejects range proofs over a different attribute than the required range', async () => {
+      const { server } = createServer({
+        requiredPolicy: { range: { fieldName: 'nationality', minValue: 1960, maxValue: 2005 } },
+      });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1960, 2005, '7', timestamp), '7', timestamp),
+      );
+
+      expect(result.error).to.equal('Proof does not satisfy required range');
+    });
+
+    it('rejects predicate proofs that do not match the required predicate', async () => {
+      const { server } = createServer({
+        requiredPolicy: { predicate: createNationalityExclusionPredicate(840) },
+      });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createNationalityPredicate(840), '7', timestamp),
+          '7',
+          timestamp,
+        ),
+      );
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.equal('Proof does not satisfy required predicate');
+    });
+
+    it('compares the upper bound of RANGE predicates', async () => {
+      const { server } = createServer({
+        requiredPolicy: { predicate: createAgeRangePredicate(18, 65, 2026) },
+      });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createAgeRangePredicate(18, 99, 2026), '7', timestamp),
+          '7',
+          timestamp,
+        ),
+      );
+
+      expect(result.error).to.equal('Proof does not satisfy required predicate');
+    });
+
+    it('passes policy and reaches cryptographic verification for a matching proof', async () => {
+      const { server } = createServer({
+        requiredPolicy: { predicate: createAgeRangePredicate(18, 65, 2026) },
+      });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createAgeRangePredicate(18, 65, 2026), '7', timestamp),
+          '7',
+          timestamp,
+        ),
+      );
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.match(/Proof verification failed|Verification error/);
+    });
+
+    it('rejects invalid range and predicate policies at construction time', () => {
+      expect(() =>
+        createServer({
+          requiredPolicy: { range: { fieldName: 'birthYear', minValue: 2000, maxValue: 1990 } },
+        }),
+      ).to.throw('requiredPolicy.range must have integer bounds');
+      expect(() =>
+        createServer({
+          requiredPolicy: {
+            range: { fieldName: 'value' as 'birthYear', minValue: 1990, maxValue: 2000 },
+          },
+        }),
+      ).to.throw("requiredPolicy.range.fieldName must be 'birthYear' or 'nationality'");
+      expect(() =>
+        createServer({
+          requiredPolicy: {
+            predicate: { ...createAgeRangePredicate(18, 65), maxValue: undefined },
+          },
+        }),
+      ).to.throw('requiredPolicy.predicate RANGE requires maxValue >= value');
+    });
+  });
+
+  describe('nonce and challenge binding', () => {
+    it('rejects range proofs whose nonce differs from the request nonce', async () => {
+      const { server } = createServer();
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1980, 2000, '1', timestamp), '2', timestamp),
+      );
+
+      expect(result.error).to.equal('Proof nonce does not match request nonce');
+    });
+
+    it('rejects predicate proofs whose timestamp differs from the request timestamp', async () => {
+      const { server } = createServer();
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createNationalityExclusionPredicate(840), '1', timestamp - 1000),
+          '1',
+          timestamp,
+        ),
+      );
+
+      expect(result.error).to.equal('Proof timestamp does not match request timestamp');
+    });
+
+    it('requires a server-issued challenge when a challenge store is configured', async () => {
+      const challengeStore = new InMemoryChallengeStore();
+      const { server } = createServer({ challengeStore });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1980, 2000, '1', timestamp), '1', timestamp),
+      );
+      challengeStore.stop();
+
+      expect(result.error).to.equal('Unknown or expired challenge');
+    });
+
+    it('rejects replayed nonces', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      await nonceStore.add('5');
+      const { server } = createServer({ nonceStore });
+      const timestamp = Date.now();
+
+      const result = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1980, 2000, '5', timestamp), '5', timestamp),
+      );
+      nonceStore.stop();
+
+      expect(result.error).to.equal('Nonce already used (replay attack detected)');
+    });
+  });
+
+  describe('verification', () => {
+    it('requires the matching verification key', async () => {
+      const { server } = createServer({ verificationKeys: { age: ageKey } });
+      const timestamp = Date.now();
+
+      const range = await server.verifyProof(
+        makeResponse('range', makeRangeProof(1980, 2000, '1', timestamp), '1', timestamp),
+      );
+      const predicate = await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createNationalityExclusionPredicate(840), '2', timestamp),
+          '2',
+          timestamp,
+        ),
+      );
+
+      expect(range.error).to.equal('Range verification key not configured');
+      expect(predicate.error).to.equal('Predicate verification key not configured');
+    });
+
+    it('verifies range proofs bound to an issuer-signed credential', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const salt = 'aabbccdd';
+      const credential = {
+        id: 'cred-1',
+        birthYear: 1990,
+        nationality: 840,
+        salt,
+        commitment: (
+          await poseidonHashDomain(DOMAIN_CREDENTIAL, [1990, 840, BigInt('0x' + salt)])
+        ).toString(),
+        createdAt: new Date().toISOString(),
+      };
+      const issuedAt = new Date().toISOString();
+      const signedCredential: SignedCredential = {
+        credential,
+        issuer: 'gov-id',
+        signature: sign(
+          null,
+          Buffer.from(credentialSignaturePayload(credential, 'gov-id', issuedAt)),
+          privateKey,
+        ).toString('base64'),
+        issuedAt,
+      };
+      const { server } = createServer({
+        requireSignedCredentials: true,
+        issuerRegistry: new InMemoryIssuerRegistry([{ issuer: 'gov-id', publicKey }]),
+        requiredPolicy: { range: { fieldName: 'birthYear', minValue: 1980, maxValue: 2000 } },
+      });
+      // Replace Groth16 verification so the fake proof exercises the credential binding
+      (server as any).verifyRangeProofInternal = async (proofResponse: ProofResponse) => {
+        const proof = proofResponse.proof as RangeProof;
+        const { valid } = validateRangeProofConstraints(proof);
+        return {
+          result: {
+            verified: valid,
+            claimType: 'range',
+            range: { fieldName: proof.fieldName, minValue: 1980, maxValue: 2000 },
+          },
+        };
+      };
+      const timestamp = Date.now();
+      const signedResponse = (commitment: string, nonce: string): ProofResponse => ({
+        ...makeResponse(
+          'range',
+          makeRangeProof(1980, 2000, nonce, timestamp, commitment),
+          nonce,
+          timestamp,
+        ),
+        signedCredential,
+      });
+
+      const result = await server.verifyProof(signedResponse(credential.commitment, '1'));
+      expect(result.verified).to.equal(true);
+      expect(result.range).to.deep.equal({
+        fieldName: 'birthYear',
+        minValue: 1980,
+        maxValue: 2000,
+      });
+
+      // A standalone Poseidon(value, salt) commitment is not the signed credential
+      const standalone = (await poseidonHash([1990, BigInt('0x' + salt)])).toString();
+      const mismatch = await server.verifyProof(signedResponse(standalone, '2'));
+      expect(mismatch.verified).to.equal(false);
+      expect(mismatch.error).to.equal('Credential commitment mismatch');
+    });
+
+    it('rejects unsatisfied predicates before cryptographic verification', async () => {
+      const { server } = createServer();
+      const timestamp = Date.now();
+      const proof = makePredicateProof(createNationalityExclusionPredicate(840), '1', timestamp);
+      proof.publicSignals.satisfied = 0;
+
+      const result = await server.verifyProof(makeResponse('predicate', proof, '1', timestamp));
+
+      expect(result.error).to.include('Predicate not satisfied');
+    });
+
+    it('rate limits range and predicate submissions', async () => {
+      const rateLimiter = new SimpleRateLimiter(1, 60000);
+      const { server } = createServer({ rateLimiter });
+      const timestamp = Date.now();
+      const response = makeResponse(
+        'range',
+        makeRangeProof(1980, 2000, '1', timestamp),
+        '1',
+        timestamp,
+      );
+
+      await server.verifyProof(response, 'client-1');
+      const result = await server.verifyProof(response, 'client-1');
+      rateLimiter.stop();
+
+      expect(result.error).to.equal('Rate limit exceeded');
+    });
+
+    it('emits verification events and audit entries with the claim type', async () => {
+      const { server, auditLogger } = createServer();
+      const events: VerificationEvent[] = [];
+      server.onVerification((event) => events.push(event));
+      const timestamp = Date.now();
+
+      await server.verifyProof(
+        makeResponse(
+          'predicate',
+          makePredicateProof(createNationalityExclusionPredicate(840), '1', timestamp),
+          '1',
+          timestamp,
+        ),
+      );
+
+      expect(events).to.have.length(1);
+      expect(events[0].claimType).to.equal('predicate');
+      expect(auditLogger.entries.some((e) => e.target === 'predicate')).to.equal(true);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { expect } from 'chai';
 import path from 'path';
-import { ZkIdServer } from '../src/server';
-import { AgeProofRevocable, ProofResponse } from '@zk-id/core';
+import { validateMultiClaimResponsePayload, ZkIdServer } from '../src/server';
+import { AgeProofRevocable, NationalityProofRevocable, ProofResponse } from '@zk-id/core';
 
 function makeAgeProofRevocable(
   credentialHash: string,
@@ -33,6 +33,34 @@ function makeAgeProofRevocable(
   };
 }
 
+function makeNationalityProofRevocable(
+  targetNationality: number,
+  merkleRoot: string,
+  nonce: string,
+  requestTimestamp: number,
+): NationalityProofRevocable {
+  return {
+    proofType: 'nationality-revocable',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      targetNationality,
+      credentialHash: '123',
+      merkleRoot,
+      nonce,
+      requestTimestamp,
+    },
+  };
+}
+
 function getVerificationKeyPath(): string {
   return path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
 }
@@ -136,4 +164,112 @@ describe('ZkIdServer - revocable proof support', () => {
     expect(result.verified).to.equal(false);
     expect(result.error).to.equal('Proof verification failed');
   });
+
+  describe('nationality-revocable', () => {
+    function makeResponse(proof: NationalityProofRevocable): ProofResponse {
+      return {
+        credentialId: 'cred-1',
+        claimType: 'nationality-revocable',
+        proof,
+        nonce: proof.publicSignals.nonce,
+        requestTimestamp: new Date(proof.publicSignals.requestTimestamp).toISOString(),
+      };
+    }
+
+    const tree = (root: string, updatedAt = new Date().toISOString()) => ({
+      add: async () => undefined,
+      remove: async () => undefined,
+      contains: async () => false,
+      getRoot: async () => root,
+      getRootInfo: async () => ({ root, version: 1, updatedAt }),
+      getWitness: async () => null,
+      size: async () => 0,
+    });
+
+    it('rejects proofs when verification key not configured', async () => {
+      const server = new ZkIdServer({
+        verificationKeyPath: getVerificationKeyPath(),
+        requireSignedCredentials: false,
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofRevocable(840, '456', 'nonce-1', Date.now())),
+      );
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.equal('Revocable nationality verification key not configured');
+    });
+
+    it('enforces requiredNationality policy', async () => {
+      const server = new ZkIdServer({
+        verificationKeyPath: getVerificationKeyPath(),
+        requireSignedCredentials: false,
+        requiredNationality: 276,
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofRevocable(840, '456', 'nonce-1', Date.now())),
+      );
+      expect(result.error).to.equal('Proof does not satisfy required nationality');
+    });
+
+    it('rejects proofs when the merkle root does not match the tree', async () => {
+      const server = new ZkIdServer({
+        verificationKeyPath: getVerificationKeyPath(),
+        requireSignedCredentials: false,
+        verificationKeys: { age: {} as any, nationalityRevocable: {} as any },
+        validCredentialTree: tree('0'),
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofRevocable(840, '1', 'nonce-1', Date.now())),
+      );
+      expect(result.error).to.equal('Proof verification failed');
+    });
+
+    it('rejects proofs when the revocation root is stale', async () => {
+      const server = new ZkIdServer({
+        verificationKeyPath: getVerificationKeyPath(),
+        requireSignedCredentials: false,
+        verificationKeys: { age: {} as any, nationalityRevocable: {} as any },
+        validCredentialTree: tree('1', new Date(Date.now() - 60_000).toISOString()),
+        maxRevocationRootAgeMs: 1000,
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofRevocable(840, '1', 'nonce-1', Date.now())),
+      );
+      expect(result.error).to.equal('Revocation root is stale');
+    });
+
+    it('is accepted in multi-claim responses', async () => {
+      const timestamp = Date.now();
+      const response = {
+        proofs: [
+          {
+            label: 'us',
+            claimType: 'nationality-revocable' as const,
+            proof: makeNationalityProofRevocable(840, '456', 'nonce-1', timestamp),
+          },
+        ],
+        nonce: 'nonce-1',
+        requestTimestamp: new Date(timestamp).toISOString(),
+        credentialId: 'cred-1',
+      };
+      expect(validateMultiClaimResponsePayload(response, false)).to.deep.equal([]);
+
+      const server = new ZkIdServer({
+        verificationKeyPath: getVerificationKeyPath(),
+        requireSignedCredentials: false,
+        verboseErrors: true,
+      });
+      const result = await server.verifyMultiClaim(response);
+      expect(result.results[0].error).to.equal(
+        'Revocable nationality verification key not configured',
+      );
+    });
+  });
 });
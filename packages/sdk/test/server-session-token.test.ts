@@ -0,0 +1,258 @@
+import { expect } from 'chai';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { SignJWT, decodeJwt } from 'jose';
+import {
+  AgeProof,
+  MultiClaimResponse,
+  FieldSelector,
+  PolicyRules,
+  PredicateType,
+  ProofResponse,
+  ZkIdConfigError,
+} from '@zk-id/core';
+import { ZkIdServer } from '../src/server';
+import {
+  SESSION_TOKEN_TYP,
+  SessionTokenConfig,
+  SessionTokenIssuer,
+  nationalitySetHash,
+  sessionTokenScopes,
+} from '../src/session-token';
+
+const ageKeyPath = path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+const NONCE = '987654321';
+const SECRET = 'session-token-secret-of-32-bytes!';
+
+function ageProof(minAge: number, timestamp: number): AgeProof {
+  return {
+    proofType: 'age',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      currentYear: new Date().getFullYear(),
+      minAge,
+      credentialHash: '123456789',
+      nonce: NONCE,
+      requestTimestamp: timestamp,
+    },
+  };
+}
+
+function proofResponse(minAge: number, timestamp: number): ProofResponse {
+  return {
+    credentialId: 'cred-1',
+    claimType: 'age',
+    proof: ageProof(minAge, timestamp),
+    nonce: NONCE,
+    requestTimestamp: new Date(timestamp).toISOString(),
+  };
+}
+
+describe('ZkIdServer - session tokens', () => {
+  function createServer(sessionTokens?: SessionTokenConfig) {
+    const ageKey = require(ageKeyPath);
+    const server = new ZkIdServer({
+      verificationKeyPath: ageKeyPath,
+      verificationKeys: { age: ageKey },
+      requireSignedCredentials: false,
+      policies: { adult: { id: 'adult', rule: PolicyRules.minAge(18) } },
+      sessionTokens,
+    });
+    // Replace Groth16 verification so the fake proofs reach token minting
+    (server as any).verifyAgeProofInternal = async (response: { proof: AgeProof }) => ({
+      result: { verified: true, claimType: 'age', minAge: response.proof.publicSignals.minAge },
+    });
+    return server;
+  }
+
+  it('mints a token for verified claims without personal data', async () => {
+    const server = createServer({ signingKey: SECRET, audience: 'https://shop.example' });
+    const result = await server.verifyProof(proofResponse(18, Date.now()));
+
+    expect(result.verified).to.equal(true);
+    const payload = decodeJwt(result.sessionToken!);
+    expect(Object.keys(payload).sort()).to.deep.equal([
+      'aud',
+      'claims',
+      'exp',
+      'iat',
+      'iss',
+      'jti',
+      'scope',
+    ]);
+    expect(payload.exp! - payload.iat!).to.equal(300);
+
+    const verification = await server.verifySessionToken(result.sessionToken!, {
+      scope: 'age:18',
+    });
+    expect(verification.valid).to.equal(true);
+    expect(verification.session).to.deep.include({
+      audience: 'https://shop.example',
+      scopes: ['age:18'],
+      claims: [{ claimType: 'age', minAge: 18 }],
+    });
+  });
+
+  it('records the policy id for policy verifications', async () => {
+    const server = createServer({ signingKey: SECRET, audience: 'https://shop.example' });
+    const now = Date.now();
+    const response: MultiClaimResponse = {
+      proofs: [{ label: 'age-21', claimType: 'age', proof: ageProof(21, now) }],
+      nonce: NONCE,
+      requestTimestamp: new Date(now).toISOString(),
+      credentialId: 'cred-1',
+    };
+
+    const result = await server.verifyPolicy(response, 'adult');
+    const verification = await server.verifySessionToken(result.sessionToken!, {
+      scope: 'policy:adult',
+    });
+
+    expect(verification.valid).to.equal(true);
+    expect(verification.session!.policyId).to.equal('adult');
+    expect(verification.session!.scopes).to.deep.equal(['age:21', 'policy:adult']);
+  });
+
+  it('binds tokens to the audience and scope', async () => {
+    const server = createServer({ signingKey: SECRET, audience: 'https://shop.example' });
+    const { sessionToken } = await server.verifyProof(proofResponse(18, Date.now()));
+
+    expect(await server.verifySessionToken(sessionToken!, { scope: 'age:21' })).to.deep.equal({
+      valid: false,
+      error: 'Session token does not cover scope age:21',
+    });
+    expect(
+      await server.verifySessionToken(sessionToken!, { audience: 'https://other.example' }),
+    ).to.deep.equal({ valid: false, error: 'Session token audience mismatch' });
+
+    const other = createServer({ signingKey: SECRET, audience: 'https://other.example' });
+    expect((await other.verifySessionToken(sessionToken!)).error).to.equal(
+      'Session token audience mismatch',
+    );
+  });
+
+  it('scopes range tokens to the proven field and bounds', async () => {
+    const server = createServer({ signingKey: SECRET, audience: 'aud' });
+    const range = { fieldName: 'birthYear' as const, minValue: 1980, maxValue: 2000 };
+    (server as any).verifyRangeProofInternal = async () => ({
+      result: { verified: true, claimType: 'range', range },
+    });
+    const now = Date.now();
+    const { sessionToken } = await server.verifyProof({
+      ...proofResponse(18, now),
+      claimType: 'range',
+      proof: {
+        proofType: 'range',
+        proof: ageProof(18, now).proof,
+        publicSignals: ['1', '1980', '2000', '123456789', NONCE, String(now), '0'],
+        fieldName: 'birthYear',
+      },
+    });
+
+    const verification = await server.verifySessionToken(sessionToken!, {
+      scope: 'range:birthYear:1980-2000',
+    });
+    expect(verification.valid).to.equal(true);
+    expect(verification.session!.claims).to.deep.equal([{ claimType: 'range', range }]);
+    for (const scope of ['range', 'range:birthYear:1990-2000', 'range:nationality:1980-2000']) {
+      expect((await server.verifySessionToken(sessionToken!, { scope })).error).to.equal(
+        `Session token does not cover scope ${scope}`,
+      );
+    }
+  });
+
+  it('scopes predicate and nationality set claims to their parameters', () => {
+    const scopes = sessionTokenScopes({
+      claims: [
+        {
+          claimType: 'predicate',
+          predicate: { field: FieldSelector.NATIONALITY, type: PredicateType.EQ, value: 840 },
+        },
+        {
+          claimType: 'predicate',
+          predicate: {
+            field: FieldSelector.BIRTH_YEAR,
+            type: PredicateType.RANGE,
+            value: 1980,
+            maxValue: 2000,
+          },
+        },
+        { claimType: 'nationality-set', nationalitySet: { mode: 'allow', codes: [276, 250] } },
+      ],
+    });
+
+    const hash = nationalitySetHash({ mode: 'deny', codes: [250, 276, 0] });
+    expect(hash).to.equal(nationalitySetHash({ mode: 'allow', codes: [276, 250] }));
+    expect(hash).to.not.equal(nationalitySetHash({ mode: 'allow', codes: [276] }));
+    expect(scopes).to.deep.equal([
+      'predicate:nationality:eq:840',
+      'predicate:birthYear:range:1980-2000',
+      `nationality-set:allow:${hash}`,
+    ]);
+  });
+
+  it('rejects forged, tampered and expired tokens', async () => {
+    const server = createServer({ signingKey: SECRET, audience: 'aud', ttlSeconds: 60 });
+    const { sessionToken } = await server.verifyProof(proofResponse(18, Date.now()));
+
+    const forged = await new SessionTokenIssuer({
+      signingKey: 'another-secret-that-is-32-bytes!!',
+      audience: 'aud',
+    }).mint({ claims: [{ claimType: 'age', minAge: 18 }] });
+    expect((await server.verifySessionToken(forged)).error).to.equal('Invalid session token');
+
+    const [header, , signature] = sessionToken!.split('.');
+    const body = Buffer.from(JSON.stringify({ scope: 'age:99', aud: 'aud', iss: 'zk-id' }));
+    const tampered = `${header}.${body.toString('base64url')}.${signature}`;
+    expect((await server.verifySessionToken(tampered)).error).to.equal('Invalid session token');
+
+    const expired = await new SignJWT({ scope: 'age:18', claims: [] })
+      .setProtectedHeader({ alg: 'HS256', typ: SESSION_TOKEN_TYP })
+      .setIssuer('zk-id')
+      .setAudience('aud')
+      .setIssuedAt(Math.floor(Date.now() / 1000) - 120)
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(new TextEncoder().encode(SECRET));
+    expect((await server.verifySessionToken(expired)).error).to.equal('Session token expired');
+  });
+
+  it('supports Ed25519 signing keys', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const server = createServer({ signingKey: privateKey, audience: 'aud' });
+    const { sessionToken } = await server.verifyProof(proofResponse(18, Date.now()));
+
+    expect((await server.verifySessionToken(sessionToken!)).valid).to.equal(true);
+    expect(() => createServer({ signingKey: publicKey, audience: 'aud' })).to.throw(
+      ZkIdConfigError,
+      'Ed25519 private key',
+    );
+    expect(() => createServer({ signingKey: 'short', audience: 'aud' })).to.throw(
+      ZkIdConfigError,
+      'at least 32 bytes',
+    );
+  });
+
+  it('does not mint tokens unless configured', async () => {
+    const server = createServer();
+    const result = await server.verifyProof(proofResponse(18, Date.now()));
+
+    expect(result.verified).to.equal(true);
+    expect(result.sessionToken).to.equal(undefined);
+    expect(server.hasSessionTokens()).to.equal(false);
+    try {
+      await server.verifySessionToken('token');
+      expect.fail('Expected verifySessionToken to throw');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ZkIdConfigError);
+    }
+  });
+});
@@ -1,6 +1,6 @@
 import { expect } from 'chai';
 import { ZkIdServer } from '../src/server';
-import { AgeProofSigned } from '@zk-id/core';
+import { AgeProofSigned, AgeProofSignedExpiring, NationalityProofSigned } from '@zk-id/core';
 import path from 'path';
 
 function getSignedVerificationKeyPath(): string {
@@ -49,4 +49,117 @@ describe('ZkIdServer - signed proofs', () => {
     expect(result.verified).to.equal(false);
     expect(result.error).to.equal('Proof verification failed');
   });
+
+  describe('expiring (v2) credentials', () => {
+    const trustedBits = Array.from({ length: 256 }, (_, i) => String(i % 2));
+
+    function createServer(overrides: Record<string, unknown> = {}) {
+      return new ZkIdServer({
+        verificationKeyPath: getSignedVerificationKeyPath(),
+        signedVerificationKeyPath: getSignedVerificationKeyPath(),
+        // Any well-formed key works here: the fake proofs never verify.
+        signedExpiringVerificationKeyPath: getSignedVerificationKeyPath(),
+        issuerPublicKeyBits: { Trusted: trustedBits },
+        verboseErrors: true,
+        ...overrides,
+      });
+    }
+
+    function makeProof(tsMs: number): AgeProofSignedExpiring {
+      return {
+        proofType: 'age-signed-expiring',
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: {
+          currentYear: new Date().getFullYear(),
+          minAge: 18,
+          credentialHash: '123',
+          currentTimestamp: Math.floor(tsMs / 1000),
+          nonce: 'nonce',
+          requestTimestamp: tsMs,
+          issuerPublicKey: trustedBits,
+        },
+      };
+    }
+
+    function request(proof: AgeProofSigned | AgeProofSignedExpiring, tsMs: number) {
+      return {
+        claimType: 'age' as const,
+        issuer: 'Trusted',
+        nonce: 'nonce',
+        requestTimestamp: new Date(tsMs).toISOString(),
+        proof,
+      };
+    }
+
+    it('rejects non-expiring proofs when requireCredentialExpiry is set', async () => {
+      const server = createServer({ requireCredentialExpiry: true });
+      const tsMs = Date.now();
+      const proof: AgeProofSigned = {
+        ...makeProof(tsMs),
+        proofType: 'age-signed',
+      };
+
+      const result = await server.verifySignedProof(request(proof, tsMs));
+
+      expect(result.error).to.equal('Credential expiry proof required');
+    });
+
+    it('rejects signed nationality proofs when requireCredentialExpiry is set', async () => {
+      const server = createServer({ requireCredentialExpiry: true });
+      const tsMs = Date.now();
+      const proof: NationalityProofSigned = {
+        proofType: 'nationality-signed',
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: {
+          targetNationality: 840,
+          credentialHash: '123',
+          nonce: 'nonce',
+          requestTimestamp: tsMs,
+          issuerPublicKey: trustedBits,
+        },
+      };
+
+      const result = await server.verifySignedProof({
+        claimType: 'nationality',
+        issuer: 'Trusted',
+        nonce: 'nonce',
+        requestTimestamp: new Date(tsMs).toISOString(),
+        proof,
+      });
+
+      expect(result.error).to.equal('Credential expiry proof required');
+    });
+
+    it('rejects a back-dated expiry check timestamp', async () => {
+      const server = createServer({ requireCredentialExpiry: true });
+      const tsMs = Date.now();
+      const proof = makeProof(tsMs);
+      proof.publicSignals.currentTimestamp -= 86400;
+
+      const result = await server.verifySignedProof(request(proof, tsMs));
+
+      expect(result.error).to.equal(
+        'Invalid proof constraints: Expiry check timestamp does not match request timestamp',
+      );
+    });
+
+    it('requires the expiring verification key', async () => {
+      const server = createServer({ signedExpiringVerificationKeyPath: undefined });
+      const tsMs = Date.now();
+
+      const result = await server.verifySignedProof(request(makeProof(tsMs), tsMs));
+
+      expect(result.error).to.equal('Expiring signed age verification key not configured');
+    });
+
+    it('runs cryptographic verification for well-formed expiring proofs', async () => {
+      const server = createServer({ requireCredentialExpiry: true });
+      const tsMs = Date.now();
+
+      const result = await server.verifySignedProof(request(makeProof(tsMs), tsMs));
+
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.match(/Proof verification failed|Verification error/);
+    });
+  });
 });
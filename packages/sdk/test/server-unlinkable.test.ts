@@ -0,0 +1,222 @@
+import { expect } from 'chai';
+import path from 'path';
+import { validateProofResponsePayload, ZkIdServer } from '../src/server';
+import { AgeProofUnlinkable, NationalityProofUnlinkable, ProofResponse } from '@zk-id/core';
+
+function makeAgeProofUnlinkable(
+  merkleRoot: string,
+  minAge: number,
+  nonce: string,
+  requestTimestamp: number,
+): AgeProofUnlinkable {
+  return {
+    proofType: 'age-unlinkable',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      currentYear: new Date().getFullYear(),
+      minAge,
+      merkleRoot,
+      nonce,
+      requestTimestamp,
+    },
+  };
+}
+
+function makeNationalityProofUnlinkable(
+  targetNationality: number,
+  merkleRoot: string,
+  nonce: string,
+  requestTimestamp: number,
+): NationalityProofUnlinkable {
+  return {
+    proofType: 'nationality-unlinkable',
+    proof: {
+      pi_a: ['1', '2'],
+      pi_b: [
+        ['3', '4'],
+        ['5', '6'],
+      ],
+      pi_c: ['7', '8'],
+      protocol: 'groth16',
+      curve: 'bn128',
+    },
+    publicSignals: {
+      targetNationality,
+      merkleRoot,
+      nonce,
+      requestTimestamp,
+    },
+  };
+}
+
+function makeResponse(proof: AgeProofUnlinkable | NationalityProofUnlinkable): ProofResponse {
+  return {
+    claimType: proof.proofType,
+    proof,
+    nonce: proof.publicSignals.nonce,
+    requestTimestamp: new Date(proof.publicSignals.requestTimestamp).toISOString(),
+  };
+}
+
+const tree = (root: string, updatedAt = new Date().toISOString()) => ({
+  add: async () => undefined,
+  remove: async () => undefined,
+  contains: async () => false,
+  getRoot: async () => root,
+  getRootInfo: async () => ({ root, version: 1, updatedAt }),
+  getWitness: async () => null,
+  size: async () => 0,
+});
+
+function getVerificationKeyPath(): string {
+  return path.resolve(__dirname, '../../circuits/build/age-verify_verification_key.json');
+}
+
+describe('ZkIdServer - unlinkable proof support', () => {
+  it('accepts payloads without credentialId or signedCredential', () => {
+    const response = makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now()));
+    expect(validateProofResponsePayload(response, false)).to.deep.equal([]);
+  });
+
+  it('verifies without a signed credential and never consults the revocation store', async () => {
+    const revocationChecks: string[] = [];
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any, ageUnlinkable: {} as any },
+      validCredentialTree: tree('1'),
+      revocationStore: {
+        isRevoked: async (commitment: string) => {
+          revocationChecks.push(commitment);
+          return true;
+        },
+        revoke: async () => undefined,
+        getRevokedCount: async () => 1,
+      },
+      verboseErrors: true,
+    });
+    (server as any).verifyAgeProofUnlinkableInternal = async (response: ProofResponse) => ({
+      result: {
+        verified: true,
+        claimType: response.claimType,
+        minAge: (response.proof as AgeProofUnlinkable).publicSignals.minAge,
+      },
+    });
+
+    const result = await server.verifyProof(
+      makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now())),
+    );
+    expect(result.verified).to.equal(true);
+    expect(result.minAge).to.equal(18);
+    expect(revocationChecks).to.deep.equal([]);
+  });
+
+  it('rejects unlinkable proofs that carry a credential ID or signed credential', async () => {
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any, ageUnlinkable: {} as any },
+      validCredentialTree: tree('1'),
+      verboseErrors: true,
+    });
+
+    const response = makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now()));
+    const withId = await server.verifyProof({ ...response, credentialId: 'cred-1' });
+    expect(withId.error).to.equal(
+      'Unlinkable proofs must not include a signed credential or credential ID',
+    );
+
+    const withCredential = await server.verifyProof({
+      ...response,
+      signedCredential: {} as any,
+    });
+    expect(withCredential.verified).to.equal(false);
+  });
+
+  it('rejects proofs when verification key not configured', async () => {
+    const server = new ZkIdServer({
+      verificationKeyPath: getVerificationKeyPath(),
+      validCredentialTree: tree('1'),
+      verboseErrors: true,
+    });
+
+    const result = await server.verifyProof(
+      makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now())),
+    );
+    expect(result.error).to.equal('Unlinkable age verification key not configured');
+  });
+
+  it('requires a valid credential tree to pin the issuer root', async () => {
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any, ageUnlinkable: {} as any },
+      verboseErrors: true,
+    });
+
+    const result = await server.verifyProof(
+      makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now())),
+    );
+    expect(result.error).to.equal('Valid credential tree not configured for unlinkable proofs');
+  });
+
+  it('rejects proofs when the merkle root does not match the tree', async () => {
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any, ageUnlinkable: {} as any },
+      validCredentialTree: tree('2'),
+      verboseErrors: true,
+    });
+
+    const result = await server.verifyProof(
+      makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now())),
+    );
+    expect(result.error).to.equal('Proof verification failed');
+  });
+
+  it('enforces requiredMinAge policy', async () => {
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any, ageUnlinkable: {} as any },
+      validCredentialTree: tree('1'),
+      requiredMinAge: 21,
+      verboseErrors: true,
+    });
+
+    const result = await server.verifyProof(
+      makeResponse(makeAgeProofUnlinkable('1', 18, 'nonce-1', Date.now())),
+    );
+    expect(result.error).to.equal('Proof does not satisfy required minimum age');
+  });
+
+  describe('nationality-unlinkable', () => {
+    it('enforces requiredNationality policy', async () => {
+      const server = new ZkIdServer({
+        verificationKeys: { age: {} as any, nationalityUnlinkable: {} as any },
+        validCredentialTree: tree('1'),
+        requiredNationality: 276,
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofUnlinkable(840, '1', 'nonce-1', Date.now())),
+      );
+      expect(result.error).to.equal('Proof does not satisfy required nationality');
+    });
+
+    it('rejects proofs when the revocation root is stale', async () => {
+      const server = new ZkIdServer({
+        verificationKeys: { age: {} as any, nationalityUnlinkable: {} as any },
+        validCredentialTree: tree('1', new Date(Date.now() - 60_000).toISOString()),
+        maxRevocationRootAgeMs: 1000,
+        verboseErrors: true,
+      });
+
+      const result = await server.verifyProof(
+        makeResponse(makeNationalityProofUnlinkable(840, '1', 'nonce-1', Date.now())),
+      );
+      expect(result.error).to.equal('Revocation root is stale');
+    });
+  });
+});
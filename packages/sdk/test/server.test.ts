@@ -16,7 +16,9 @@ import {
   ProofResponse,
   MultiClaimResponse,
   SignedCredential,
+  SignedValidCredentialTree,
   credentialSignaturePayload,
+  verifyRevocationRootSignature,
 } from '@zk-id/core';
 
 function makeAgeProof(
@@ -612,6 +614,37 @@ describe('ZkIdServer - revocation root info', () => {
     expect(info.ttlSeconds).to.equal(300);
     expect(info.expiresAt).to.be.a('string');
   });
+
+  it('serves root info signed by the tree as-is', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const updatedAt = new Date(Date.now() - 30_000).toISOString();
+    const tree = new SignedValidCredentialTree(
+      {
+        add: async () => undefined,
+        remove: async () => undefined,
+        contains: async () => true,
+        getRoot: async () => '222',
+        getRootInfo: async () => ({ root: '222', version: 7, updatedAt }),
+        getWitness: async () => null,
+        size: async () => 1,
+      },
+      { issuer: 'TestIssuer', privateKey, ttlSeconds: 60, source: 'test-registry' },
+    );
+
+    const server = new ZkIdServer({
+      verificationKeys: { age: {} as any },
+      requireSignedCredentials: false,
+      validCredentialTree: tree,
+      revocationRootTtlSeconds: 600,
+      revocationRootSource: 'test-issuer',
+    });
+
+    const info = await server.getRevocationRootInfo();
+    expect(info).to.deep.equal(await tree.getRootInfo());
+    expect(info).to.deep.include({ issuer: 'TestIssuer', ttlSeconds: 60, source: 'test-registry' });
+    expect(Date.parse(info.expiresAt!) - Date.parse(updatedAt)).to.equal(60 * 1000);
+    expect(verifyRevocationRootSignature(info, publicKey)).to.equal(true);
+  });
 });
 
 describe('ZkIdServer - revocation root staleness', () => {
@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { SignedTrustList, TrustList, keyObjectSigner, signTrustList } from '@zk-id/core';
+import { TrustListIssuerRegistry } from '../src/trust-list-registry';
+
+const anchorKeys = generateKeyPairSync('ed25519');
+const signer = keyObjectSigner('EdDSA', anchorKeys.privateKey);
+const govKey = generateKeyPairSync('ed25519').publicKey;
+const bankKey = generateKeyPairSync('ed25519').publicKey;
+
+function trustList(sequenceNumber: number, nextUpdateInMs = 86_400_000): TrustList {
+  return {
+    listOperator: 'did:web:trust.example',
+    sequenceNumber,
+    issuedAt: new Date().toISOString(),
+    nextUpdate: new Date(Date.now() + nextUpdateInMs).toISOString(),
+    entries: [
+      {
+        issuer: 'gov-id',
+        publicKeyJwk: govKey.export({ format: 'jwk' }),
+        jurisdiction: 'US',
+        policyUrl: 'https://gov.example/policy',
+        auditUrl: 'https://audit.example/gov-id',
+      },
+      { issuer: 'bank-id', publicKeyJwk: bankKey.export({ format: 'jwk' }), status: 'suspended' },
+    ],
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TrustListIssuerRegistry', () => {
+  let published: SignedTrustList | Error;
+  let fetchCount: number;
+  let registry: TrustListIssuerRegistry;
+
+  function createRegistry(options: { maxRefreshIntervalMs?: number; retryIntervalMs?: number }) {
+    return new TrustListIssuerRegistry({
+      fetchTrustList: async () => {
+        fetchCount++;
+        if (published instanceof Error) throw published;
+        return published;
+      },
+      trustAnchors: [anchorKeys.publicKey],
+      ...options,
+    });
+  }
+
+  beforeEach(async () => {
+    published = await signTrustList(trustList(1), signer);
+    fetchCount = 0;
+    registry = createRegistry({});
+  });
+
+  afterEach(() => registry.stop());
+
+  it('maps trust list entries to issuer records', async () => {
+    const record = await registry.getIssuer('gov-id');
+
+    expect(record).to.deep.include({
+      issuer: 'gov-id',
+      status: 'active',
+      jurisdiction: 'US',
+      policyUrl: 'https://gov.example/policy',
+      auditUrl: 'https://audit.example/gov-id',
+    });
+    expect(record!.publicKey.equals(govKey)).to.be.true;
+    expect((await registry.getIssuer('bank-id'))!.status).to.equal('suspended');
+    expect(await registry.getIssuer('unknown')).to.be.null;
+    expect(registry.getTrustList()!.sequenceNumber).to.equal(1);
+    expect(fetchCount).to.equal(1);
+  });
+
+  it('ignores lists not signed by the pinned anchor', async () => {
+    published = await signTrustList(
+      trustList(1),
+      keyObjectSigner('EdDSA', generateKeyPairSync('ed25519').privateKey),
+    );
+
+    expect(await registry.getIssuer('gov-id')).to.be.null;
+    try {
+      await registry.refresh();
+      expect.fail('Should have thrown');
+    } catch (error: any) {
+      expect(error.message).to.equal('Trust list signature verification failed');
+    }
+  });
+
+  it('refreshes at nextUpdate and fails closed when no valid list follows', async () => {
+    published = await signTrustList(trustList(1, 40), signer);
+    registry = createRegistry({ retryIntervalMs: 60_000 });
+    expect(await registry.getIssuer('gov-id')).to.not.be.null;
+
+    // The replacement list is unavailable when the current one expires
+    published = new Error('trust list endpoint unavailable');
+    await sleep(50);
+    expect(await registry.getIssuer('gov-id')).to.be.null;
+    expect(fetchCount).to.equal(2);
+  });
+
+  it('refreshes on the configured interval and rejects rollbacks', async () => {
+    registry = createRegistry({ maxRefreshIntervalMs: 0, retryIntervalMs: 0 });
+    published = await signTrustList(trustList(5), signer);
+    await registry.getIssuer('gov-id');
+    expect(registry.getTrustList()!.sequenceNumber).to.equal(5);
+
+    published = await signTrustList(trustList(4), signer);
+    expect(await registry.getIssuer('gov-id')).to.not.be.null;
+    expect(registry.getTrustList()!.sequenceNumber).to.equal(5);
+
+    published = await signTrustList(trustList(6), signer);
+    await registry.getIssuer('gov-id');
+    expect(registry.getTrustList()!.sequenceNumber).to.equal(6);
+  });
+
+  it('refreshes in the background once started', async () => {
+    registry.start();
+    await sleep(20);
+    expect(fetchCount).to.equal(1);
+    expect(registry.getTrustList()).to.not.be.null;
+  });
+});